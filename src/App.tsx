@@ -22,6 +22,7 @@ import PersonalSettings from "./pages/PersonalSettings";
 import SystemsPage from "./pages/SystemsPage";
 import NotFound from "./pages/NotFound";
 import JoinTeamPage from "./pages/JoinTeamPage";
+import PublicInvoicePage from "./pages/PublicInvoicePage";
 import PipelinePage from "./pages/PipelinePage";
 import ResetPasswordPage from "./pages/ResetPasswordPage";
 
@@ -72,6 +73,7 @@ function App() {
               
               {/* Public routes without authentication */}
               <Route path="/join/:token" element={<JoinTeamPage />} />
+              <Route path="/invoice/:token" element={<PublicInvoicePage />} />
               <Route path="/reset-password" element={<ResetPasswordPage />} />
             </Routes>
           </BrowserRouter>
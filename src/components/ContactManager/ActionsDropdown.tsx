@@ -5,7 +5,12 @@ import { Settings, Download, Upload } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
-import { normalizePhoneNumber, isValidPhoneNumber } from '@/utils/phoneUtils';
+import { ExportService, ExportFormat } from '@/services/exportService';
+import { getContactExportSheets } from '@/utils/contactExport';
+import { downloadCSV } from '@/utils/csvUtils';
+import { getContactTemplateRows } from '@/utils/contactImport';
+import { isSupportedSpreadsheet, SPREADSHEET_EXTENSIONS } from '@/utils/spreadsheetReader';
+import { ContactImportWizard } from './ContactImportWizard';
 
 interface Contact {
   id: string;
@@ -28,7 +33,7 @@ interface ActionsDropdownProps {
 
 export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSuccess, className }) => {
   const [isExporting, setIsExporting] = useState(false);
-  const [isImporting, setIsImporting] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
 
@@ -50,71 +55,7 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
     }
   };
 
-  const exportToCSV = (contacts: Contact[]) => {
-    const headers = ['Name', 'Phone Number', 'Email', 'Company', 'Address', 'Notes', 'Labels', 'Status', 'Potential Products', 'Created At'];
-    
-    const csvContent = [
-      headers.join(','),
-      ...contacts.map(contact => [
-        `"${contact.name}"`,
-        `"${contact.phone_number}"`,
-        `"${contact.email || ''}"`,
-        `"${contact.company || ''}"`,
-        `"${contact.address || ''}"`,
-        `"${contact.notes || ''}"`,
-        `"${contact.labels?.join('; ') || ''}"`,
-        `"${contact.status}"`,
-        `"${contact.potential_product?.join('; ') || ''}"`,
-        `"${new Date(contact.created_at).toLocaleString()}"`
-      ].join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `contacts_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  const exportToXLS = (contacts: Contact[]) => {
-    const headers = ['Name', 'Phone Number', 'Email', 'Company', 'Address', 'Notes', 'Labels', 'Status', 'Potential Products', 'Created At'];
-    
-    let xlsContent = '<table>';
-    xlsContent += '<tr>' + headers.map(header => `<th>${header}</th>`).join('') + '</tr>';
-    
-    contacts.forEach(contact => {
-      xlsContent += '<tr>';
-      xlsContent += `<td>${contact.name}</td>`;
-      xlsContent += `<td>${contact.phone_number}</td>`;
-      xlsContent += `<td>${contact.email || ''}</td>`;
-      xlsContent += `<td>${contact.company || ''}</td>`;
-      xlsContent += `<td>${contact.address || ''}</td>`;
-      xlsContent += `<td>${contact.notes || ''}</td>`;
-      xlsContent += `<td>${contact.labels?.join('; ') || ''}</td>`;
-      xlsContent += `<td>${contact.status}</td>`;
-      xlsContent += `<td>${contact.potential_product?.join('; ') || ''}</td>`;
-      xlsContent += `<td>${new Date(contact.created_at).toLocaleString()}</td>`;
-      xlsContent += '</tr>';
-    });
-    
-    xlsContent += '</table>';
-
-    const blob = new Blob([xlsContent], { type: 'application/vnd.ms-excel' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `contacts_${new Date().toISOString().split('T')[0]}.xls`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  const handleExport = async (format: 'csv' | 'xls') => {
+  const handleExport = async (format: ExportFormat) => {
     setIsExporting(true);
     try {
       const contacts = await fetchContacts();
@@ -128,11 +69,11 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
         return;
       }
 
-      if (format === 'csv') {
-        exportToCSV(contacts);
-      } else {
-        exportToXLS(contacts);
-      }
+      await ExportService.exportSheets(
+        format,
+        ExportService.getDatedFileName('contacts'),
+        getContactExportSheets(contacts)
+      );
 
       toast({
         title: "Export Successful",
@@ -151,23 +92,7 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
   };
 
   const downloadTemplate = () => {
-    const headers = ['Name', 'Phone Number', 'Email', 'Company', 'Address', 'Notes', 'Labels', 'Status', 'Potential Product'];
-    const sampleData = ['John Doe', '+1234567890', 'john@example.com', 'ABC Corp', '123 Main St', 'Sample notes', 'Client; VIP', 'New', 'Product A; Product B'];
-    
-    const csvContent = [
-      headers.join(','),
-      sampleData.map(field => `"${field}"`).join(',')
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'contacts_template.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCSV(getContactTemplateRows(), 'contacts_template.csv');
 
     toast({
       title: "Template Downloaded",
@@ -175,298 +100,18 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
     });
   };
 
-  const validateCSVFormat = (text: string): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    // Check if file has content
-    if (lines.length === 0) {
-      errors.push("File is empty");
-      return { isValid: false, errors };
-    }
-    
-    // Check minimum lines (header + at least 1 data row)
-    if (lines.length < 2) {
-      errors.push("File must contain at least a header row and one data row");
-      return { isValid: false, errors };
-    }
-
-    // Validate headers
-    const expectedHeaders = ['Name', 'Phone Number', 'Email', 'Company', 'Address', 'Notes', 'Labels', 'Status', 'Potential Product'];
-    const actualHeaders = lines[0].split(',').map(header => header.replace(/"/g, '').trim());
-    
-    // Check if all required headers are present
-    const requiredHeaders = ['Name', 'Phone Number'];
-    const missingRequired = requiredHeaders.filter(header => !actualHeaders.includes(header));
-    if (missingRequired.length > 0) {
-      errors.push(`Missing required headers: ${missingRequired.join(', ')}`);
-    }
-
-    // Check for unexpected headers
-    const unexpectedHeaders = actualHeaders.filter(header => 
-      header !== '' && !expectedHeaders.includes(header)
-    );
-    if (unexpectedHeaders.length > 0) {
-      errors.push(`Unexpected headers found: ${unexpectedHeaders.join(', ')}`);
-    }
-
-    // Check header count
-    if (actualHeaders.length !== expectedHeaders.length) {
-      errors.push(`Expected ${expectedHeaders.length} columns, but found ${actualHeaders.length}`);
-    }
-
-    return { isValid: errors.length === 0, errors };
-  };
-
-  const validateCSVData = (data: any[]): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-    
-    if (data.length === 0) {
-      errors.push("No valid data rows found");
-      return { isValid: false, errors };
-    }
-
-    // Validate each row
-    data.forEach((row, index) => {
-      const rowNumber = index + 2; // +2 because index starts at 0 and we skip header
-      
-      // Check required fields
-      if (!row.name || row.name.trim() === '') {
-        errors.push(`Row ${rowNumber}: Name is required`);
-      }
-      
-      if (!row.phone_number || row.phone_number.trim() === '') {
-        errors.push(`Row ${rowNumber}: Phone Number is required`);
-      }
-      
-      // Validate phone number format (basic validation)
-      if (row.phone_number && !/^[\+]?[0-9\-\(\)\s]+$/.test(row.phone_number.trim())) {
-        errors.push(`Row ${rowNumber}: Invalid phone number format`);
-      }
-      
-      // Validate email format if provided
-      if (row.email && row.email.trim() !== '') {
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(row.email.trim())) {
-          errors.push(`Row ${rowNumber}: Invalid email format`);
-        }
-      }
-      
-      // Validate status if provided
-      const validStatuses = ['New', 'Qualified', 'Contacted', 'Lost', 'Won'];
-      if (row.status && row.status.trim() !== '' && !validStatuses.includes(row.status.trim())) {
-        errors.push(`Row ${rowNumber}: Invalid status. Must be one of: ${validStatuses.join(', ')}`);
-      }
-    });
-
-    return { isValid: errors.length === 0, errors };
-  };
-
-  const parseCSV = (text: string): { data: any[]; errors: string[] } => {
-    const lines = text.split('\n').filter(line => line.trim());
-    const errors: string[] = [];
-    
-    if (lines.length < 2) {
-      return { data: [], errors: ["Invalid CSV format"] };
-    }
-
-    const headers = lines[0].split(',').map(header => header.replace(/"/g, '').trim());
-    const data = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let j = 0; j < lines[i].length; j++) {
-        const char = lines[i][j];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          values.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      values.push(current.trim());
-
-      if (values.length === headers.length) {
-        const row: any = {};
-        headers.forEach((header, index) => {
-          const cleanValue = values[index].replace(/^"|"$/g, '').trim();
-          row[header.toLowerCase().replace(/\s+/g, '_')] = cleanValue;
-        });
-        data.push(row);
-      } else {
-        errors.push(`Row ${i + 1}: Column count mismatch (expected ${headers.length}, got ${values.length})`);
-      }
-    }
-
-    return { data, errors };
-  };
-
-  const processImportData = async (data: any[]) => {
-    if (!user) return;
-
-
-    // Extract all unique labels from imported contacts for later processing
-    const allLabels = new Set<string>();
-    data.forEach(row => {
-      if (row.labels) {
-        const labels = row.labels.split(';').map((label: string) => label.trim()).filter(Boolean);
-        labels.forEach((label: string) => allLabels.add(label));
-      }
-    });
-
-    const contacts = data.map(row => {
-      const rawPhone = row.phone_number || '';
-      const normalizedPhone = normalizePhoneNumber(rawPhone);
-      
-      return {
-        user_id: user.id,
-        owner_id: user.id,
-        name: row.name || '',
-        phone_number: normalizedPhone,
-        email: row.email || null,
-        company: row.company || null,
-        address: row.address || null,
-        notes: row.notes || null,
-        labels: row.labels ? row.labels.split(';').map((label: string) => label.trim()).filter(Boolean) : null,
-        status: row.status || 'New',
-        potential_product: row.potential_product ? row.potential_product.split(';').map((product: string) => product.trim()).filter(Boolean) : null,
-        team_id: null
-      };
-    }).filter(contact => contact.name && contact.phone_number && isValidPhoneNumber(contact.phone_number));
-
-    if (contacts.length === 0) {
-      throw new Error('No valid contacts found in the file');
-    }
-
-    // Get existing normalized phone numbers for this user
-    const { data: existingPhones } = await supabase
-      .from('contacts')
-      .select('phone_number')
-      .eq('user_id', user.id);
-
-    const existingSet = new Set(existingPhones?.map(p => normalizePhoneNumber(p.phone_number)) || []);
-
-    // Filter out contacts with existing phone numbers
-    const newContacts = contacts.filter(c => !existingSet.has(c.phone_number));
-
-    if (newContacts.length === 0) {
-      toast({
-        title: "Import Complete",
-        description: `0 contacts imported, ${contacts.length} duplicates skipped`,
-      });
-      return 0;
-    }
-
-    // Use upsert with ON CONFLICT DO NOTHING to handle race conditions
-    const { data: insertedData, error } = await supabase
-      .from('contacts')
-      .upsert(newContacts, {
-        onConflict: 'user_id,phone_number',
-        ignoreDuplicates: true
-      })
-      .select();
-
-    let finalSuccessCount = 0;
-
-    if (error) {
-      console.error('Upsert error:', error);
-      // If upsert fails, try individual inserts with better error handling
-      let successCount = 0;
-      let duplicateCount = 0;
-      
-      for (const contact of newContacts) {
-        try {
-          const { error: insertError } = await supabase
-            .from('contacts')
-            .insert([contact]);
-          
-          if (insertError) {
-            if (insertError.code === '23505') {
-              duplicateCount++;
-            } else {
-              throw insertError;
-            }
-          } else {
-            successCount++;
-          }
-        } catch (err) {
-          console.error('Individual insert error:', err);
-          throw err;
-        }
-      }
-      
-      finalSuccessCount = successCount;
-      
-      toast({
-        title: "Import Complete",
-        description: `${successCount} contacts imported, ${duplicateCount + (contacts.length - newContacts.length)} duplicates skipped`,
-      });
-    } else {
-      finalSuccessCount = insertedData?.length || 0;
-      
-      // Show notification about duplicates if any were skipped
-      const skipped = contacts.length - finalSuccessCount;
-      if (skipped > 0) {
-        toast({
-          title: "Import Complete",
-          description: `${finalSuccessCount} contacts imported, ${skipped} duplicates skipped`,
-        });
-      }
-    }
-
-    // Only create labels if contacts were successfully imported
-    if (finalSuccessCount > 0 && allLabels.size > 0) {
-      try {
-        // Fetch existing labels to avoid duplicates
-        const { data: existingLabelsData } = await supabase
-          .from('labels')
-          .select('name')
-          .eq('user_id', user.id);
-        
-        const existingLabels = new Set(existingLabelsData?.map(l => l.name) || []);
-        
-        // Create new labels that don't exist yet
-        const newLabels = Array.from(allLabels).filter(label => !existingLabels.has(label));
-        
-        if (newLabels.length > 0) {
-          const labelsToInsert = newLabels.map(name => ({
-            user_id: user.id,
-            name,
-            color: null // Default color
-          }));
-          
-          const { error: labelInsertError } = await supabase
-            .from('labels')
-            .insert(labelsToInsert);
-          
-          if (labelInsertError) {
-            console.error('Error inserting new labels:', labelInsertError);
-            // Don't throw error, just log it since contacts were already imported
-          }
-        }
-      } catch (labelError) {
-        console.error('Error processing labels after successful import:', labelError);
-        // Don't throw error since contacts were successfully imported
-      }
-    }
-    
-    return finalSuccessCount;
-  };
-
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
     if (!file) return;
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!isSupportedSpreadsheet(file.name)) {
       toast({
         title: "Invalid File Type",
-        description: "Please select a CSV file (.csv extension required)",
+        description: "Please select a CSV or Excel (.xlsx) file",
         variant: "destructive",
       });
       return;
@@ -482,69 +127,8 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
       return;
     }
 
-    setIsImporting(true);
-    
-    try {
-      const text = await file.text();
-      
-      // Validate CSV format
-      const formatValidation = validateCSVFormat(text);
-      if (!formatValidation.isValid) {
-        throw new Error(`CSV Format Errors:\n${formatValidation.errors.join('\n')}`);
-      }
-
-      // Parse CSV
-      const { data, errors: parseErrors } = parseCSV(text);
-      if (parseErrors.length > 0) {
-        throw new Error(`CSV Parse Errors:\n${parseErrors.join('\n')}`);
-      }
-      
-      if (data.length === 0) {
-        throw new Error('No valid data found in the CSV file');
-      }
-
-      // Validate data content
-      const dataValidation = validateCSVData(data);
-      if (!dataValidation.isValid) {
-        throw new Error(`Data Validation Errors:\n${dataValidation.errors.join('\n')}`);
-      }
-
-      // Process import if all validations pass
-      const importedCount = await processImportData(data);
-      
-      toast({
-        title: "Import Successful",
-        description: `Successfully imported ${importedCount} contacts`,
-      });
-
-      onImportSuccess();
-    } catch (error: any) {
-      console.error('Import error:', error);
-      
-      // Display detailed error message
-      const errorMessage = error.message || "Failed to import contacts";
-      const isValidationError = errorMessage.includes('Format Errors') || 
-                               errorMessage.includes('Parse Errors') || 
-                               errorMessage.includes('Validation Errors');
-      
-      toast({
-        title: isValidationError ? "Import Validation Failed" : "Import Failed",
-        description: errorMessage.length > 200 
-          ? errorMessage.substring(0, 200) + "..."
-          : errorMessage,
-        variant: "destructive",
-      });
-      
-      // Log full error for debugging
-      if (isValidationError) {
-        console.warn("CSV Validation Details:", errorMessage);
-      }
-    } finally {
-      setIsImporting(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
+    // Mapping, validation and the dry-run preview happen in the wizard
+    setImportFile(file);
   };
 
   const triggerFileUpload = () => {
@@ -557,12 +141,12 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
         type="file"
         ref={fileInputRef}
         onChange={handleFileUpload}
-        accept=".csv"
+        accept={SPREADSHEET_EXTENSIONS.join(',')}
         style={{ display: 'none' }}
       />
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
-          <Button variant="outline" disabled={isExporting || isImporting} className={`flex items-center justify-center gap-2 text-xs sm:text-sm ${className || ''}`}>
+          <Button variant="outline" disabled={isExporting} className={`flex items-center justify-center gap-2 text-xs sm:text-sm ${className || ''}`}>
             <Settings className="h-4 w-4" />
             <span className="hidden sm:inline">Actions</span>
             <span className="sm:hidden">More</span>
@@ -578,12 +162,12 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
             <span>Export as CSV</span>
           </DropdownMenuItem>
           <DropdownMenuItem 
-            onClick={() => handleExport('xls')}
+            onClick={() => handleExport('xlsx')}
             className="cursor-pointer hover:bg-muted flex items-center gap-2"
             disabled={isExporting}
           >
             <Download className="h-4 w-4" />
-            <span>Export as XLS</span>
+            <span>Export as Excel (XLSX)</span>
           </DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem 
@@ -596,13 +180,18 @@ export const ActionsDropdown: React.FC<ActionsDropdownProps> = ({ onImportSucces
           <DropdownMenuItem 
             onClick={triggerFileUpload}
             className="cursor-pointer hover:bg-muted flex items-center gap-2"
-            disabled={isImporting}
           >
             <Upload className="h-4 w-4" />
-            <span>Upload CSV</span>
+            <span>Upload CSV / Excel</span>
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+      <ContactImportWizard
+        open={!!importFile}
+        onOpenChange={(open) => !open && setImportFile(null)}
+        file={importFile}
+        onImportSuccess={onImportSuccess}
+      />
     </>
   );
 };
\ No newline at end of file
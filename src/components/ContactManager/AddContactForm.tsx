@@ -9,7 +9,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { normalizePhoneNumber, isValidPhoneNumber } from '@/utils/phoneUtils';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+import { PHONE_COUNTRIES } from '@/utils/phoneUtils';
 
 interface AddContactFormProps {
   onBack: () => void;
@@ -44,6 +45,7 @@ export const AddContactForm: React.FC<AddContactFormProps> = ({
   const [newProduct, setNewProduct] = useState('');
   const [loading, setLoading] = useState(false);
   const { user } = useAuth();
+  const { defaultCountry, normalizePhone, getPhoneError } = usePhoneCountry();
 
   useEffect(() => {
     fetchLabels();
@@ -77,10 +79,11 @@ export const AddContactForm: React.FC<AddContactFormProps> = ({
     }
 
     // Validate phone number format
-    if (!isValidPhoneNumber(formData.phone_number)) {
+    const phoneError = getPhoneError(formData.phone_number);
+    if (phoneError) {
       toast({
         title: "Error",
-        description: "Please enter a valid phone number",
+        description: phoneError,
         variant: "destructive",
       });
       return;
@@ -99,7 +102,7 @@ export const AddContactForm: React.FC<AddContactFormProps> = ({
 
     try {
       // Normalize phone number for consistent checking
-      const normalizedPhone = normalizePhoneNumber(formData.phone_number);
+      const normalizedPhone = normalizePhone(formData.phone_number);
       
       const { data: existing, error: checkError } = await supabase
         .from('contacts')
@@ -258,8 +261,12 @@ export const AddContactForm: React.FC<AddContactFormProps> = ({
               <Input
                 value={formData.phone_number}
                 onChange={(e) => setFormData({ ...formData, phone_number: e.target.value })}
+                placeholder={PHONE_COUNTRIES[defaultCountry].example}
                 required
               />
+              <p className="text-xs text-gray-500 mt-1">
+                Numbers without a country code are saved as {PHONE_COUNTRIES[defaultCountry].name} numbers
+              </p>
             </div>
 
             <div>
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowLeft, Megaphone, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useMessageTemplateSets } from '@/hooks/useMessageTemplateSets';
+import { useTemplateContext } from '@/hooks/useTemplateContext';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+import { useTeamData } from '@/hooks/useTeamData';
+import { Contact } from '@/types/contact';
+import { CampaignRecipientDraft, CreateCampaignRequest, WhatsAppCampaign } from '@/types/campaign';
+import { MessageTemplateSet } from '@/types/messageTemplate';
+import { renderTemplate } from '@/utils/templateEngine';
+import { getActiveVariations, pickRandomVariation } from '@/utils/templateVariations';
+import { isPhoneCountryCode, isValidPhoneNumber } from '@/utils/phoneUtils';
+
+interface BulkCampaignDialogProps {
+  contacts: Contact[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (request: CreateCampaignRequest) => Promise<WhatsAppCampaign | null>;
+  onCreated: (campaign: WhatsAppCampaign) => void;
+}
+
+type Step = 'template' | 'review';
+
+/**
+ * Builds a WhatsApp campaign for a set of contacts
+ * The user picks a template set, then reviews and edits the personalized message per recipient
+ */
+export const BulkCampaignDialog: React.FC<BulkCampaignDialogProps> = ({
+  contacts,
+  open,
+  onOpenChange,
+  onCreate,
+  onCreated,
+}) => {
+  const [step, setStep] = useState<Step>('template');
+  const [templateSet, setTemplateSet] = useState<MessageTemplateSet | null>(null);
+  const [name, setName] = useState('');
+  const [drafts, setDrafts] = useState<CampaignRecipientDraft[]>([]);
+  const [skippedContacts, setSkippedContacts] = useState<string[]>([]);
+  const [preparedCount, setPreparedCount] = useState(0);
+  const [preparing, setPreparing] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const { templateSets, loading } = useMessageTemplateSets();
+  const { buildContextForContact } = useTemplateContext();
+  const { defaultCountry } = usePhoneCountry();
+  const { teams } = useTeamData();
+
+  // Contacts can come from several teams; each number is read in its team's phone country
+  const isValidContactPhone = (contact: Contact) => {
+    const teamCountry = teams.find(team => team.id === contact.team_id)?.default_phone_country;
+    return isValidPhoneNumber(contact.phone_number, isPhoneCountryCode(teamCountry) ? teamCountry : defaultCountry);
+  };
+
+  // Campaigns go out over WhatsApp, so email template sets are left out
+  const usableTemplateSets = templateSets.filter(
+    set => set.channel === 'whatsapp' && getActiveVariations(set).length > 0
+  );
+
+  const reset = () => {
+    setStep('template');
+    setTemplateSet(null);
+    setName('');
+    setDrafts([]);
+    setSkippedContacts([]);
+    setPreparedCount(0);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelectTemplate = async (set: MessageTemplateSet) => {
+    setTemplateSet(set);
+    setName(`${set.title} – ${new Date().toLocaleDateString()}`);
+    setStep('review');
+    setPreparing(true);
+    setPreparedCount(0);
+
+    const nextDrafts: CampaignRecipientDraft[] = [];
+    const skipped: string[] = [];
+
+    // Contexts are built one contact at a time to keep the number of parallel queries small
+    for (const contact of contacts) {
+      const picked = pickRandomVariation(set);
+      if (!picked || !isValidContactPhone(contact)) {
+        skipped.push(contact.name);
+      } else {
+        try {
+          const context = await buildContextForContact(contact, { templates: [picked.variation.content] });
+          nextDrafts.push({
+            contact_id: contact.id,
+            contact_name: contact.name,
+            phone_number: contact.phone_number,
+            template_variation_id: picked.variation.id,
+            variation_number: picked.variationNumber,
+            message: renderTemplate(picked.variation.content, context),
+          });
+        } catch (error) {
+          console.error('Error preparing campaign message:', error);
+          skipped.push(contact.name);
+        }
+      }
+      setPreparedCount(count => count + 1);
+    }
+
+    setDrafts(nextDrafts);
+    setSkippedContacts(skipped);
+    setPreparing(false);
+  };
+
+  const updateDraftMessage = (contactId: string, message: string) => {
+    setDrafts(prev => prev.map(draft => (draft.contact_id === contactId ? { ...draft, message } : draft)));
+  };
+
+  const removeDraft = (contactId: string) => {
+    setDrafts(prev => prev.filter(draft => draft.contact_id !== contactId));
+  };
+
+  const handleCreate = async () => {
+    if (!templateSet || !name.trim() || drafts.length === 0) return;
+
+    if (drafts.some(draft => !draft.message.trim())) {
+      toast({
+        title: "Error",
+        description: "Every recipient needs a message",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreating(true);
+    const campaign = await onCreate({
+      name: name.trim(),
+      template_set_id: templateSet.id,
+      recipients: drafts,
+    });
+    setCreating(false);
+
+    if (campaign) {
+      reset();
+      onCreated(campaign);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            New WhatsApp Campaign
+          </DialogTitle>
+          <DialogDescription>
+            {contacts.length} {contacts.length === 1 ? 'contact' : 'contacts'} selected
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'template' ? (
+          loading ? (
+            <div className="py-8 text-center text-muted-foreground">Loading template sets...</div>
+          ) : usableTemplateSets.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">
+              No WhatsApp template sets with active variations. Create one under Message Templates first.
+            </div>
+          ) : (
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-2 pr-3">
+                {usableTemplateSets.map(set => (
+                  <Card
+                    key={set.id}
+                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => handleSelectTemplate(set)}
+                  >
+                    <CardContent className="p-3">
+                      <h4 className="font-medium">{set.title}</h4>
+                      <div className="text-xs text-gray-500">
+                        {getActiveVariations(set).length} active message variations
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </ScrollArea>
+          )
+        ) : preparing ? (
+          <div className="space-y-2 py-8">
+            <div className="text-sm text-center text-muted-foreground">
+              Personalizing messages... {preparedCount} of {contacts.length}
+            </div>
+            <Progress value={(preparedCount / Math.max(contacts.length, 1)) * 100} />
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Campaign Name *</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            {skippedContacts.length > 0 && (
+              <div className="text-xs text-orange-700 bg-orange-50 rounded px-2 py-1">
+                Left out (no valid phone number): {skippedContacts.join(', ')}
+              </div>
+            )}
+            <ScrollArea className="flex-1 min-h-0 max-h-[45vh]">
+              <div className="space-y-3 pr-3">
+                {drafts.map(draft => (
+                  <div key={draft.contact_id} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm font-medium">
+                        {draft.contact_name}
+                        <span className="ml-2 text-xs text-gray-500">{draft.phone_number}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">Variation {draft.variation_number}</Badge>
+                        <Button variant="ghost" size="sm" onClick={() => removeDraft(draft.contact_id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <Textarea
+                      value={draft.message}
+                      onChange={(e) => updateDraftMessage(draft.contact_id, e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        {step === 'review' && !preparing && (
+          <DialogFooter>
+            <Button variant="outline" onClick={reset} disabled={creating}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <Button onClick={handleCreate} disabled={creating || drafts.length === 0 || !name.trim()}>
+              {creating ? 'Creating...' : `Create Campaign (${drafts.length})`}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
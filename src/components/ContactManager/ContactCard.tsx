@@ -7,6 +7,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Phone, Mail, Building, MessageCircle } from 'lucide-react';
 import { TemplateSelectionModal } from './TemplateSelectionModal';
 import { Contact } from '@/types/contact';
+import { formatPhoneNumber } from '@/utils/phoneUtils';
 
 interface ContactCardProps {
   contact: Contact;
@@ -80,7 +81,7 @@ export const ContactCard: React.FC<ContactCardProps> = ({
                 <div className="flex flex-col space-y-1 xs:space-y-1.5">
                   <div className="flex items-center gap-1.5 xs:gap-2 text-xs xs:text-sm text-gray-600">
                     <Phone className="h-3 w-3 xs:h-4 xs:w-4 shrink-0" />
-                    <span className="truncate text-left font-medium">{contact.phone_number}</span>
+                    <span className="truncate text-left font-medium">{formatPhoneNumber(contact.phone_number)}</span>
                   </div>
                   
                   {contact.email && (
@@ -5,7 +5,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Edit, Save, X, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { normalizePhoneNumber, isValidPhoneNumber } from '@/utils/phoneUtils';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
 import { LeadQualificationForm } from './LeadQualificationForm';
 import { ContactDetailHeader } from './ContactDetailHeader';
 import { ContactDetailInfo } from './ContactDetailInfo';
@@ -25,6 +25,7 @@ interface Contact {
   labels?: string[];
   status: string;
   potential_product?: string[];
+  team_id?: string;
   created_at: string;
 }
 
@@ -43,6 +44,7 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [editedContact, setEditedContact] = useState(contact);
   const { user } = useAuth();
+  const { normalizePhone, getPhoneError } = usePhoneCountry(contact.team_id);
 
   useEffect(() => {
     setContact(initialContact);
@@ -56,8 +58,9 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({
     }
 
     // Validate phone number format
-    if (!isValidPhoneNumber(editedContact.phone_number)) {
-      toast.error("Please enter a valid phone number");
+    const phoneError = getPhoneError(editedContact.phone_number);
+    if (phoneError) {
+      toast.error(phoneError);
       return;
     }
 
@@ -65,8 +68,8 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({
       console.log('Updating contact with data:', editedContact);
 
       // Normalize phone numbers for comparison
-      const normalizedNewPhone = normalizePhoneNumber(editedContact.phone_number);
-      const normalizedCurrentPhone = normalizePhoneNumber(contact.phone_number);
+      const normalizedNewPhone = normalizePhone(editedContact.phone_number);
+      const normalizedCurrentPhone = normalizePhone(contact.phone_number);
 
       if (normalizedNewPhone !== normalizedCurrentPhone) {
         const { data: existing, error: checkError } = await supabase
@@ -103,7 +106,7 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({
         throw error;
       }
 
-      setContact(editedContact);
+      setContact({ ...editedContact, phone_number: normalizedNewPhone });
       toast.success("Contact updated successfully");
       setIsEditing(false);
       onContactUpdated();
@@ -7,6 +7,7 @@
  * - Template follow-up functionality
  * - Invoice creation
  * - Manual activity logging
+ * - Scheduled follow-up reminders
  * 
  * Enhanced Features (v3.0 - Cache Invalidation & Metadata Validation):
  * ✅ Real-time metadata validation to prevent cache invalidation issues
@@ -64,10 +65,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { MessageCircle, FileText, Plus } from 'lucide-react';
+import { MessageCircle, FileText, Plus, Bell } from 'lucide-react';
 import { toast } from 'sonner';
 import { TemplateSelectionModal } from './TemplateSelectionModal';
 import { useUserMetadata } from '@/hooks/useUserMetadata';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+import { ContactDetailReminders } from './ContactDetailReminders';
 
 interface Contact {
   id: string;
@@ -81,6 +84,7 @@ interface Contact {
   status: string;
   potential_product?: string[];
   created_at: string;
+  team_id?: string;
 }
 
 // Enhanced error handling types
@@ -140,6 +144,7 @@ export const ContactDetailActions: React.FC<ContactDetailActionsProps> = ({
   contact,
 }) => {
   const [showAddActivity, setShowAddActivity] = useState(false);
+  const [showAddReminder, setShowAddReminder] = useState(false);
   const [newActivity, setNewActivity] = useState({ type: '', details: '' });
   const [isProcessing, setIsProcessing] = useState(false);
   const { user } = useAuth();
@@ -149,6 +154,7 @@ export const ContactDetailActions: React.FC<ContactDetailActionsProps> = ({
     refreshMetadata, 
     isMetadataStale 
   } = useUserMetadata();
+  const { getWhatsAppUrl } = usePhoneCountry(contact.team_id);
 
   /**
    * Performs comprehensive metadata validation and health check
@@ -273,37 +279,6 @@ export const ContactDetailActions: React.FC<ContactDetailActionsProps> = ({
     };
   };
 
-  /**
-   * Enhanced phone number formatting with validation
-   * @param phoneNumber - Raw phone number string
-   * @returns Formatted phone number for WhatsApp or null if invalid
-   */
-  const formatPhoneNumber = (phoneNumber: string): string | null => {
-    if (!phoneNumber || typeof phoneNumber !== 'string') {
-      return null;
-    }
-
-    let cleaned = phoneNumber.replace(/\D/g, '');
-    
-    // Handle international format
-    if (phoneNumber.startsWith('+')) {
-      cleaned = phoneNumber.substring(1).replace(/\D/g, '');
-    }
-    
-    // Convert Indonesian local format to international
-    if (cleaned.startsWith('0')) {
-      cleaned = '62' + cleaned.substring(1);
-    }
-    
-    // Basic validation - should be at least 10 digits
-    if (cleaned.length < 10 || cleaned.length > 15) {
-      console.warn('Invalid phone number length:', cleaned.length);
-      return null;
-    }
-    
-    return cleaned;
-  };
-
   /**
    * Enhanced WhatsApp contact handler with comprehensive validation and error handling
    */
@@ -357,13 +332,12 @@ export const ContactDetailActions: React.FC<ContactDetailActionsProps> = ({
       }
 
       // Validate phone number format
-       const formattedPhone = formatPhoneNumber(contact.phone_number);
-       if (!formattedPhone) {
-         toast.error('Invalid phone number format');
-         return;
-       }
+      const whatsappUrl = getWhatsAppUrl(contact.phone_number);
+      if (!whatsappUrl) {
+        toast.error('Invalid phone number format');
+        return;
+      }
 
-      const whatsappUrl = `https://wa.me/${formattedPhone}`;
       console.log('WhatsApp URL:', whatsappUrl);
 
       // Enhanced user authentication check
@@ -524,6 +498,10 @@ export const ContactDetailActions: React.FC<ContactDetailActionsProps> = ({
               <Plus className="h-4 w-4 mr-2" />
               Log Activity
             </Button>
+            <Button variant="outline" onClick={() => setShowAddReminder(true)}>
+              <Bell className="h-4 w-4 mr-2" />
+              Set Reminder
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -559,6 +537,13 @@ export const ContactDetailActions: React.FC<ContactDetailActionsProps> = ({
           </CardContent>
         </Card>
       )}
+
+      <ContactDetailReminders
+        contactId={contact.id}
+        teamId={contact.team_id}
+        showForm={showAddReminder}
+        onFormClose={() => setShowAddReminder(false)}
+      />
     </>  );
 };
 
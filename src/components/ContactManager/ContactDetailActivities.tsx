@@ -50,7 +50,11 @@ export const ContactDetailActivities: React.FC<ContactDetailActivitiesProps> = (
                     )}
                     {activity.api_call_status && (
                       <Badge 
-                        variant={activity.api_call_status === 'success' ? 'default' : 'destructive'}
+                        variant={
+                          activity.api_call_status === 'success'
+                            ? 'default'
+                            : activity.api_call_status === 'pending' ? 'secondary' : 'destructive'
+                        }
                         className="text-xs mt-1"
                       >
                         {activity.api_call_status}
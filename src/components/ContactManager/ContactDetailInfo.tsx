@@ -3,6 +3,7 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Phone, Mail, Building, MapPin } from 'lucide-react';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
 
 interface Contact {
   id: string;
@@ -16,6 +17,7 @@ interface Contact {
   status: string;
   potential_product?: string[];
   created_at: string;
+  team_id?: string;
 }
 
 interface ContactDetailInfoProps {
@@ -27,6 +29,9 @@ export const ContactDetailInfo: React.FC<ContactDetailInfoProps> = ({
   contact,
   onContactUpdated,
 }) => {
+  const { getTelUrl, formatPhone } = usePhoneCountry(contact.team_id);
+  const telUrl = getTelUrl(contact.phone_number);
+
   return (
     <Card>
       <CardHeader>
@@ -38,7 +43,13 @@ export const ContactDetailInfo: React.FC<ContactDetailInfoProps> = ({
             <h2 className="text-2xl font-bold">{contact.name}</h2>
             <div className="flex items-center gap-2 text-gray-600">
               <Phone className="h-4 w-4" />
-              {contact.phone_number}
+              {telUrl ? (
+                <a href={telUrl} className="hover:underline">
+                  {formatPhone(contact.phone_number)}
+                </a>
+              ) : (
+                contact.phone_number
+              )}
             </div>
             {contact.email && (
               <div className="flex items-center gap-2 text-gray-600">
@@ -0,0 +1,204 @@
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Check, AlarmClock, Trash2 } from 'lucide-react';
+import { useContactReminders } from '@/hooks/useContactReminders';
+import { useTeamData } from '@/hooks/useTeamData';
+import { getReminderState } from '@/utils/reminderUtils';
+import { ReminderState } from '@/types/reminder';
+
+interface ContactDetailRemindersProps {
+  contactId: string;
+  teamId?: string;
+  showForm: boolean;
+  onFormClose: () => void;
+}
+
+const STATE_BADGES: Record<ReminderState, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  overdue: { label: 'Overdue', variant: 'destructive' },
+  due_today: { label: 'Due today', variant: 'default' },
+  upcoming: { label: 'Upcoming', variant: 'secondary' },
+  completed: { label: 'Completed', variant: 'outline' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+};
+
+const SNOOZE_OPTIONS = [1, 3, 7];
+
+export const ContactDetailReminders: React.FC<ContactDetailRemindersProps> = ({
+  contactId,
+  teamId,
+  showForm,
+  onFormClose,
+}) => {
+  const { user } = useAuth();
+  const { getTeamMemberNames } = useTeamData();
+  const {
+    reminders,
+    loading,
+    createReminder,
+    snoozeReminder,
+    completeReminder,
+    deleteReminder
+  } = useContactReminders(contactId);
+  const [saving, setSaving] = useState(false);
+  const [newReminder, setNewReminder] = useState({
+    title: '',
+    notes: '',
+    due_at: '',
+    assigned_to: ''
+  });
+
+  const assignees = teamId ? getTeamMemberNames(teamId).filter(member => member.id !== user?.id) : [];
+  const openReminders = reminders.filter(reminder => reminder.status === 'open');
+  const closedReminders = reminders.filter(reminder => reminder.status !== 'open');
+
+  const handleCreateReminder = async () => {
+    if (!newReminder.title || !newReminder.due_at) return;
+
+    setSaving(true);
+    try {
+      await createReminder({
+        contact_id: contactId,
+        title: newReminder.title,
+        notes: newReminder.notes || undefined,
+        due_at: new Date(newReminder.due_at).toISOString(),
+        assigned_to: newReminder.assigned_to || undefined
+      });
+      setNewReminder({ title: '', notes: '', due_at: '', assigned_to: '' });
+      onFormClose();
+    } catch (error) {
+      console.error('Error creating reminder:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule Reminder</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="reminder_title">Title</Label>
+              <Input
+                id="reminder_title"
+                placeholder="e.g. Call back about the quotation"
+                value={newReminder.title}
+                onChange={(e) => setNewReminder({ ...newReminder, title: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reminder_due_at">Due</Label>
+                <Input
+                  id="reminder_due_at"
+                  type="datetime-local"
+                  value={newReminder.due_at}
+                  onChange={(e) => setNewReminder({ ...newReminder, due_at: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="reminder_assignee">Assignee</Label>
+                <Select
+                  value={newReminder.assigned_to || 'me'}
+                  onValueChange={(value) => setNewReminder({ ...newReminder, assigned_to: value === 'me' ? '' : value })}
+                >
+                  <SelectTrigger id="reminder_assignee">
+                    <SelectValue placeholder="Assign to" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="me">Me</SelectItem>
+                    {assignees.map(member => (
+                      <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Textarea
+              placeholder="Notes (optional)"
+              value={newReminder.notes}
+              onChange={(e) => setNewReminder({ ...newReminder, notes: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <Button onClick={handleCreateReminder} disabled={saving || !newReminder.title || !newReminder.due_at}>
+                {saving ? 'Saving...' : 'Schedule Reminder'}
+              </Button>
+              <Button variant="outline" onClick={onFormClose}>Cancel</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && reminders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Reminders
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {[...openReminders, ...closedReminders.slice(0, 5)].map(reminder => {
+              const state = getReminderState(reminder);
+              const badge = STATE_BADGES[state];
+              return (
+                <div key={reminder.id} className="border-l-2 border-gray-200 pl-4">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium">{reminder.title}</h4>
+                        <Badge variant={badge.variant} className="text-xs">{badge.label}</Badge>
+                      </div>
+                      {reminder.notes && (
+                        <p className="text-gray-600 text-sm">{reminder.notes}</p>
+                      )}
+                      <p className="text-sm text-gray-500">
+                        Due {new Date(reminder.snoozed_until || reminder.due_at).toLocaleString()}
+                        {reminder.snoozed_until && ' (snoozed)'}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 flex-wrap justify-end">
+                      {reminder.status === 'open' && (
+                        <>
+                          {SNOOZE_OPTIONS.map(days => (
+                            <Button
+                              key={days}
+                              size="sm"
+                              variant="outline"
+                              onClick={() => snoozeReminder(reminder.id, days)}
+                            >
+                              <AlarmClock className="h-3 w-3 mr-1" />
+                              {days}d
+                            </Button>
+                          ))}
+                          <Button size="sm" onClick={() => completeReminder(reminder.id)}>
+                            <Check className="h-3 w-3 mr-1" />
+                            Done
+                          </Button>
+                        </>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => deleteReminder(reminder.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+};
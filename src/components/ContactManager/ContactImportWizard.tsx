@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useContactImport } from '@/hooks/useContactImport';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+import { PHONE_COUNTRIES } from '@/utils/phoneUtils';
+import { downloadCSV } from '@/utils/csvUtils';
+import { readSpreadsheetFile, SpreadsheetSheet } from '@/utils/spreadsheetReader';
+import {
+  CONTACT_IMPORT_FIELDS,
+  autoMapColumns,
+  createEmptyMapping,
+  getMissingRequiredFields,
+  buildImportPreview,
+  buildImportErrorReport
+} from '@/utils/contactImport';
+import { ColumnMapping, ImportPreview, ImportRowStatus } from '@/types/contactImport';
+
+interface ContactImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: File | null;
+  onImportSuccess: () => void;
+}
+
+type WizardStep = 'mapping' | 'preview';
+type PreviewFilter = 'all' | ImportRowStatus;
+
+const UNMAPPED = '__unmapped__';
+// Rendering thousands of rows in the dialog is slow; the error report has everything
+const PREVIEW_ROW_LIMIT = 200;
+
+const STATUS_BADGES: Record<ImportRowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  valid: { label: 'Valid', variant: 'default' },
+  invalid: { label: 'Invalid', variant: 'destructive' },
+  duplicate: { label: 'Duplicate', variant: 'secondary' },
+};
+
+export const ContactImportWizard: React.FC<ContactImportWizardProps> = ({
+  open,
+  onOpenChange,
+  file,
+  onImportSuccess,
+}) => {
+  const { isImporting, fetchExistingPhones, importContacts } = useContactImport();
+  const { defaultCountry } = usePhoneCountry();
+  const [step, setStep] = useState<WizardStep>('mapping');
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(createEmptyMapping);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewFilter, setPreviewFilter] = useState<PreviewFilter>('all');
+  const [isValidating, setIsValidating] = useState(false);
+
+  // Parse the selected file whenever the wizard opens with a new one
+  useEffect(() => {
+    if (!open || !file) return;
+
+    let cancelled = false;
+    readSpreadsheetFile(file).then(result => {
+      if (cancelled) return;
+      setSheets(result);
+      setSheetIndex(0);
+      setReadError(result.length === 0 ? 'The file has no visible sheets' : null);
+      setMapping(autoMapColumns(result[0]?.headers || []));
+      setPreview(null);
+      setPreviewFilter('all');
+      setStep('mapping');
+    }).catch(error => {
+      console.error('Error reading import file:', error);
+      if (cancelled) return;
+      setSheets([]);
+      setReadError('Could not read the selected file');
+      setStep('mapping');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, file]);
+
+  const currentSheet = sheets[sheetIndex];
+  const headers = currentSheet?.headers || [];
+  const rows = currentSheet?.rows || [];
+  const parseErrors = readError ? [readError] : currentSheet?.errors || [];
+
+  const missingRequired = getMissingRequiredFields(mapping);
+
+  const visibleRows = useMemo(() => {
+    if (!preview) return [];
+    const filtered = previewFilter === 'all'
+      ? preview.rows
+      : preview.rows.filter(row => row.status === previewFilter);
+    return filtered.slice(0, PREVIEW_ROW_LIMIT);
+  }, [preview, previewFilter]);
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => ({
+      ...prev,
+      [field]: value === UNMAPPED ? null : Number(value)
+    }));
+  };
+
+  const handleSheetChange = (value: string) => {
+    const index = Number(value);
+    setSheetIndex(index);
+    setMapping(autoMapColumns(sheets[index]?.headers || []));
+  };
+
+  const handleValidate = async () => {
+    setIsValidating(true);
+    try {
+      const existingPhones = await fetchExistingPhones();
+      setPreview(buildImportPreview(headers, rows, mapping, existingPhones, defaultCountry));
+      setPreviewFilter('all');
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast({
+        title: "Validation Failed",
+        description: "Could not check the file against existing contacts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleDownloadErrorReport = () => {
+    if (!preview) return;
+    const baseName = file?.name.replace(/\.[^.]+$/, '') || 'contacts';
+    downloadCSV(buildImportErrorReport(headers, preview), `${baseName}_import_errors.csv`);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    try {
+      const validContacts = preview.rows
+        .filter(row => row.status === 'valid')
+        .map(row => row.contact);
+      const { importedCount, skippedCount } = await importContacts(validContacts);
+      const notImported = preview.invalidCount + preview.duplicateCount + skippedCount;
+
+      toast({
+        title: "Import Complete",
+        description: notImported > 0
+          ? `${importedCount} contacts imported, ${notImported} rows skipped`
+          : `Successfully imported ${importedCount} contacts`,
+      });
+
+      onImportSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Import error:', error);
+      toast({
+        title: "Import Failed",
+        description: (error as Error).message || "Failed to import contacts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderMappingStep = () => (
+    <div className="space-y-4">
+      {parseErrors.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>{parseErrors.join('. ')}</div>
+        </div>
+      )}
+      {sheets.length > 1 && (
+        <div>
+          <Label htmlFor="import_sheet">Sheet</Label>
+          <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+            <SelectTrigger id="import_sheet">
+              <SelectValue placeholder="Select a sheet" />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map((sheet, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {sheet.name} ({sheet.rows.length} rows)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <p className="text-sm text-muted-foreground">
+        {rows.length} data rows found. Choose which column holds each contact field.
+        Phone numbers without a country code are read as {PHONE_COUNTRIES[defaultCountry].name} numbers.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {CONTACT_IMPORT_FIELDS.map(definition => {
+          const index = mapping[definition.field];
+          return (
+            <div key={definition.field}>
+              <Label htmlFor={`import_${definition.field}`}>
+                {definition.label}{definition.required && ' *'}
+              </Label>
+              <Select
+                value={index === null ? UNMAPPED : String(index)}
+                onValueChange={(value) => handleMappingChange(definition.field, value)}
+              >
+                <SelectTrigger id={`import_${definition.field}`}>
+                  <SelectValue placeholder="Select a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                  {headers.map((header, headerIndex) => (
+                    <SelectItem key={headerIndex} value={String(headerIndex)}>
+                      {header || `Column ${headerIndex + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+      {missingRequired.length > 0 && (
+        <p className="text-sm text-destructive">
+          Map the required fields: {missingRequired.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderPreviewStep = () => {
+    if (!preview) return null;
+
+    const filters: { value: PreviewFilter; label: string; count: number }[] = [
+      { value: 'all', label: 'All', count: preview.rows.length },
+      { value: 'valid', label: 'Valid', count: preview.validCount },
+      { value: 'invalid', label: 'Invalid', count: preview.invalidCount },
+      { value: 'duplicate', label: 'Duplicates', count: preview.duplicateCount },
+    ];
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {filters.map(filter => (
+            <Button
+              key={filter.value}
+              size="sm"
+              variant={previewFilter === filter.value ? 'default' : 'outline'}
+              onClick={() => setPreviewFilter(filter.value)}
+            >
+              {filter.label} ({filter.count})
+            </Button>
+          ))}
+          {preview.invalidCount + preview.duplicateCount > 0 && (
+            <Button size="sm" variant="ghost" onClick={handleDownloadErrorReport} className="ml-auto">
+              <Download className="h-4 w-4 mr-1" />
+              Error report
+            </Button>
+          )}
+        </div>
+
+        <ScrollArea className="h-[320px] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map(row => {
+                const badge = STATUS_BADGES[row.status];
+                return (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>{row.contact.name || '-'}</TableCell>
+                    <TableCell>{row.contact.phone_number || '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {row.reasons.join('; ')}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        {visibleRows.length === PREVIEW_ROW_LIMIT && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {PREVIEW_ROW_LIMIT} rows. Download the error report for the full list of skipped rows.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {step === 'mapping' ? 'Map Columns' : 'Review Import'}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'mapping'
+              ? file?.name
+              : 'Nothing has been imported yet. Only valid rows will be added to your contacts.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'mapping' ? renderMappingStep() : renderPreviewStep()}
+
+        <DialogFooter>
+          {step === 'mapping' ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button
+                onClick={handleValidate}
+                disabled={isValidating || rows.length === 0 || missingRequired.length > 0}
+              >
+                {isValidating ? 'Checking...' : 'Preview Import'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={isImporting}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || !preview || preview.validCount === 0}>
+                {isImporting ? 'Importing...' : `Import ${preview?.validCount || 0} Contacts`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
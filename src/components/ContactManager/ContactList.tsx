@@ -6,6 +6,7 @@ import { useCachedContacts } from '@/hooks/useCachedContacts';
 import { useTeamData } from '@/hooks/useTeamData';
 import { useUserData } from '@/hooks/useUserData';
 import { Contact } from '@/types/contact';
+import { phoneNumberMatches } from '@/utils/phoneUtils';
 import { ContactCacheControls } from './ContactCacheControls';
 import { ContactSearchBar } from './ContactSearchBar';
 import { ContactLabelFilter } from './ContactLabelFilter';
@@ -108,6 +109,7 @@ export const ContactList: React.FC<ContactListProps> = ({
       filtered = filtered.filter(contact =>
         contact.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         contact.phone_number.includes(searchTerm) ||
+        phoneNumberMatches(contact.phone_number, searchTerm) ||
         (contact.email && contact.email.toLowerCase().includes(searchTerm.toLowerCase())) ||
         (contact.company && contact.company.toLowerCase().includes(searchTerm.toLowerCase()))
       );
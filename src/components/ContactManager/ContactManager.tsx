@@ -6,11 +6,12 @@ import { AddContactForm } from './AddContactForm';
 import { MessageTemplates } from './MessageTemplates';
 import { FollowUpTabs } from './FollowUpTabs';
 import { FollowUpTabsPaginated } from './FollowUpTabsPaginated';
+import { DuplicateContactsFinder } from './DuplicateContactsFinder';
 import { EmailVerificationBanner } from '../Auth/EmailVerificationBanner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Users, Calendar, MessageSquare, Zap, Settings } from 'lucide-react';
+import { Users, Calendar, MessageSquare, Zap, Settings, Copy } from 'lucide-react';
 
 interface Contact {
   id: string;
@@ -85,7 +86,7 @@ export const ContactManager = () => {
           </div>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="flex flex-col space-y-6 max-w-full">
-            <TabsList className="grid grid-cols-3 w-full h-12 sm:h-14">
+            <TabsList className="grid grid-cols-4 w-full h-12 sm:h-14">
               <TabsTrigger value="contacts" className="flex items-center justify-center gap-2 px-4 sm:px-6 py-2 sm:py-3 text-sm sm:text-base font-medium">
                 <Users className="h-4 w-4 sm:h-5 sm:w-5" />
                 <span>Contacts</span>
@@ -98,6 +99,10 @@ export const ContactManager = () => {
                 <MessageSquare className="h-4 w-4 sm:h-5 sm:w-5" />
                 <span>Templates</span>
               </TabsTrigger>
+              <TabsTrigger value="duplicates" className="flex items-center justify-center gap-2 px-4 sm:px-6 py-2 sm:py-3 text-sm sm:text-base font-medium">
+                <Copy className="h-4 w-4 sm:h-5 sm:w-5" />
+                <span>Duplicates</span>
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="contacts" className="max-w-full">
@@ -152,6 +157,10 @@ export const ContactManager = () => {
             <TabsContent value="templates" className="max-w-full">
               <MessageTemplates />
             </TabsContent>
+
+            <TabsContent value="duplicates" className="max-w-full">
+              <DuplicateContactsFinder onContactsMerged={handleContactUpdated} />
+            </TabsContent>
           </Tabs>
         </>
       )}
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Contact } from '@/types/contact';
+import { DuplicateCandidate, MergeableContactField, MergeFieldValues } from '@/types/duplicate';
+
+interface ContactMergeDialogProps {
+  candidate: DuplicateCandidate | null;
+  onOpenChange: (open: boolean) => void;
+  onMerge: (survivingId: string, mergedId: string, fieldValues: MergeFieldValues) => Promise<void>;
+  merging: boolean;
+}
+
+type Side = 'a' | 'b';
+type FieldChoice = Side | 'both';
+
+const TEXT_FIELDS: { field: Exclude<MergeableContactField, 'labels' | 'potential_product'>; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'phone_number', label: 'Phone Number' },
+  { field: 'email', label: 'Email' },
+  { field: 'company', label: 'Company' },
+  { field: 'address', label: 'Address' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'status', label: 'Status' },
+];
+
+const LIST_FIELDS: { field: 'labels' | 'potential_product'; label: string }[] = [
+  { field: 'labels', label: 'Labels' },
+  { field: 'potential_product', label: 'Potential Products' },
+];
+
+const displayValue = (value: string | string[] | undefined | null) => {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return value || '—';
+};
+
+/**
+ * Picks the default value source for each field:
+ * the surviving contact's value unless it is empty, and the union for list fields
+ */
+const getDefaultChoices = (candidate: DuplicateCandidate, survivor: Side): Record<MergeableContactField, FieldChoice> => {
+  const other: Side = survivor === 'a' ? 'b' : 'a';
+  const contacts: Record<Side, Contact> = { a: candidate.contactA, b: candidate.contactB };
+  const choices = {} as Record<MergeableContactField, FieldChoice>;
+
+  TEXT_FIELDS.forEach(({ field }) => {
+    choices[field] = contacts[survivor][field] ? survivor : contacts[other][field] ? other : survivor;
+  });
+  LIST_FIELDS.forEach(({ field }) => {
+    choices[field] = 'both';
+  });
+
+  return choices;
+};
+
+export const ContactMergeDialog: React.FC<ContactMergeDialogProps> = ({
+  candidate,
+  onOpenChange,
+  onMerge,
+  merging,
+}) => {
+  const [survivor, setSurvivor] = useState<Side>('a');
+  const [choices, setChoices] = useState<Record<MergeableContactField, FieldChoice> | null>(null);
+
+  useEffect(() => {
+    if (candidate) {
+      setSurvivor('a');
+      setChoices(getDefaultChoices(candidate, 'a'));
+    }
+  }, [candidate]);
+
+  if (!candidate || !choices) return null;
+
+  const contacts: Record<Side, Contact> = { a: candidate.contactA, b: candidate.contactB };
+
+  const handleSurvivorChange = (value: string) => {
+    const side = value as Side;
+    setSurvivor(side);
+    setChoices(getDefaultChoices(candidate, side));
+  };
+
+  const handleMerge = async () => {
+    const fieldValues: MergeFieldValues = {};
+
+    TEXT_FIELDS.forEach(({ field }) => {
+      const value = contacts[choices[field] as Side][field];
+      fieldValues[field] = value || null;
+    });
+    LIST_FIELDS.forEach(({ field }) => {
+      const choice = choices[field];
+      fieldValues[field] = choice === 'both'
+        ? Array.from(new Set([...(contacts.a[field] || []), ...(contacts.b[field] || [])]))
+        : contacts[choice][field] || [];
+    });
+
+    const survivingId = contacts[survivor].id;
+    const mergedId = contacts[survivor === 'a' ? 'b' : 'a'].id;
+
+    try {
+      await onMerge(survivingId, mergedId, fieldValues);
+      onOpenChange(false);
+    } catch (error) {
+      // Error already reported by the hook
+    }
+  };
+
+  const renderSideOption = (field: MergeableContactField, side: Side) => (
+    <div className="flex items-start gap-2 min-w-0">
+      <RadioGroupItem value={side} id={`${field}_${side}`} className="mt-0.5" />
+      <Label htmlFor={`${field}_${side}`} className="font-normal break-words min-w-0">
+        {displayValue(contacts[side][field])}
+      </Label>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!candidate} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge Contacts</DialogTitle>
+          <DialogDescription>
+            Pick the value to keep for each field. Activities, engagements, deals, invoices, reminders and
+            qualification details of the merged contact move to the surviving contact.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Surviving contact</Label>
+          <RadioGroup value={survivor} onValueChange={handleSurvivorChange} className="grid grid-cols-2 gap-4">
+            {(['a', 'b'] as Side[]).map(side => (
+              <div key={side} className="flex items-center gap-2 rounded-md border p-3">
+                <RadioGroupItem value={side} id={`survivor_${side}`} />
+                <Label htmlFor={`survivor_${side}`} className="font-normal">
+                  {contacts[side].name}
+                  <span className="block text-xs text-muted-foreground">
+                    Added {new Date(contacts[side].created_at).toLocaleDateString()}
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-4">
+            {TEXT_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <Label className="text-sm font-medium">{label}</Label>
+                <RadioGroup
+                  value={choices[field]}
+                  onValueChange={(value) => setChoices({ ...choices, [field]: value as FieldChoice })}
+                  className="grid grid-cols-2 gap-4 mt-1"
+                >
+                  {renderSideOption(field, 'a')}
+                  {renderSideOption(field, 'b')}
+                </RadioGroup>
+              </div>
+            ))}
+            {LIST_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <Label className="text-sm font-medium">{label}</Label>
+                <RadioGroup
+                  value={choices[field]}
+                  onValueChange={(value) => setChoices({ ...choices, [field]: value as FieldChoice })}
+                  className="grid grid-cols-2 gap-4 mt-1"
+                >
+                  {renderSideOption(field, 'a')}
+                  {renderSideOption(field, 'b')}
+                  <div className="flex items-center gap-2 col-span-2">
+                    <RadioGroupItem value="both" id={`${field}_both`} />
+                    <Label htmlFor={`${field}_both`} className="font-normal">Combine both</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging}>
+            {merging ? 'Merging...' : `Merge into ${contacts[survivor].name}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, GitMerge, X } from 'lucide-react';
+import { useContactDuplicates, PERSONAL_SCOPE } from '@/hooks/useContactDuplicates';
+import { useTeamData } from '@/hooks/useTeamData';
+import { DUPLICATE_REASON_LABELS } from '@/utils/duplicateDetection';
+import { Contact } from '@/types/contact';
+import { DuplicateCandidate, MergeFieldValues } from '@/types/duplicate';
+import { ContactMergeDialog } from './ContactMergeDialog';
+
+interface DuplicateContactsFinderProps {
+  onContactsMerged: () => void;
+}
+
+// Rendering every pair of a very messy list at once is slow
+const CANDIDATE_LIMIT = 100;
+
+const getScoreVariant = (score: number): 'destructive' | 'default' | 'secondary' => {
+  if (score >= 80) return 'destructive';
+  if (score >= 60) return 'default';
+  return 'secondary';
+};
+
+const ContactSummary: React.FC<{ contact: Contact }> = ({ contact }) => (
+  <div className="min-w-0 space-y-1">
+    <div className="font-medium truncate">{contact.name}</div>
+    <div className="text-sm text-gray-600 truncate">{contact.phone_number}</div>
+    {contact.email && <div className="text-sm text-gray-600 truncate">{contact.email}</div>}
+    {contact.company && <div className="text-sm text-gray-500 truncate">{contact.company}</div>}
+    <div className="text-xs text-gray-400">Added {new Date(contact.created_at).toLocaleDateString()}</div>
+  </div>
+);
+
+export const DuplicateContactsFinder: React.FC<DuplicateContactsFinderProps> = ({ onContactsMerged }) => {
+  const [scope, setScope] = useState(PERSONAL_SCOPE);
+  const [mergeCandidate, setMergeCandidate] = useState<DuplicateCandidate | null>(null);
+  const { teams } = useTeamData();
+  const {
+    candidates,
+    contactCount,
+    loading,
+    merging,
+    dismissCandidate,
+    mergeContacts
+  } = useContactDuplicates(scope);
+
+  const handleMerge = async (survivingId: string, mergedId: string, fieldValues: MergeFieldValues) => {
+    await mergeContacts(survivingId, mergedId, fieldValues);
+    onContactsMerged();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicate Contacts
+          </h3>
+          <p className="text-sm text-gray-600">
+            Pairs are scored on phone number, email, name and company. Review each pair before merging.
+          </p>
+        </div>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue placeholder="Select contacts" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PERSONAL_SCOPE}>Personal contacts</SelectItem>
+            {teams.map(team => (
+              <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : candidates.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          No likely duplicates found among {contactCount} contacts.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">
+            {candidates.length} possible {candidates.length === 1 ? 'duplicate' : 'duplicates'} found
+          </p>
+          {candidates.slice(0, CANDIDATE_LIMIT).map(candidate => (
+            <Card key={candidate.key}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={getScoreVariant(candidate.score)}>{candidate.score}% match</Badge>
+                  {candidate.reasons.map(reason => (
+                    <Badge key={reason} variant="outline">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <ContactSummary contact={candidate.contactA} />
+                  <ContactSummary contact={candidate.contactB} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => dismissCandidate(candidate)}>
+                    <X className="h-4 w-4 mr-1" />
+                    Not a duplicate
+                  </Button>
+                  <Button size="sm" onClick={() => setMergeCandidate(candidate)}>
+                    <GitMerge className="h-4 w-4 mr-1" />
+                    Review & Merge
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ContactMergeDialog
+        candidate={mergeCandidate}
+        onOpenChange={(open) => !open && setMergeCandidate(null)}
+        onMerge={handleMerge}
+        merging={merging}
+      />
+    </div>
+  );
+};
@@ -15,6 +15,7 @@ import { ContactLabelFilter } from './ContactLabelFilter';
 import { Contact } from '@/types/contact';
 import { useTemplateCache } from '@/hooks/useTemplateCache';
 import { useWorkerFollowUpCalculations } from '@/hooks/useWorkerFollowUpCalculations';
+import { useFollowUpCadenceRules } from '@/hooks/useFollowUpCadenceRules';
 
 // Extended contact interface for follow-up specific data
 interface FollowUpContact extends Contact {
@@ -38,9 +39,12 @@ export const FollowUpTabs: React.FC<FollowUpTabsProps> = ({ onSelectContact }) =
   // Template cache hook for preloading
   const { preloadAllUserTemplates, isLoading: templatesLoading, isPreloaded } = useTemplateCache();
   
+  // Team cadence rules decide which follow-up buckets exist
+  const { rules: cadenceRules } = useFollowUpCadenceRules();
+  
   // Use new worker-based follow-up calculations for better performance
   const { 
-    calculations: { needsApproach, stale3Days, stale7Days, stale30Days },
+    calculations: { needsApproach, buckets },
     loading: calculationsLoading,
     calculating,
     progress,
@@ -49,7 +53,7 @@ export const FollowUpTabs: React.FC<FollowUpTabsProps> = ({ onSelectContact }) =
     clearCache,
     forceRecalculation,
     isReady
-  } = useWorkerFollowUpCalculations(contacts, selectedLabels);
+  } = useWorkerFollowUpCalculations(contacts, selectedLabels, cadenceRules);
 
   // Show cache stats in development
   const showCacheStats = process.env.NODE_ENV === 'development';
@@ -282,7 +286,7 @@ export const FollowUpTabs: React.FC<FollowUpTabsProps> = ({ onSelectContact }) =
       </div>
       
       <Tabs defaultValue="needs-approach" onValueChange={setActiveTab} className="w-full">
-      <TabsList className="grid w-full grid-cols-4 h-12 mx-2 md:mx-0">
+      <TabsList className="flex w-full justify-start overflow-x-auto h-12 mx-2 md:mx-0">
         <TabsTrigger
           value="needs-approach"
           className={`transition-all duration-300 text-xs md:text-sm px-1 md:px-2 py-1 ${activeTab === 'needs-approach' ? 'md:text-base md:px-4 md:py-2' : ''}`}
@@ -290,24 +294,15 @@ export const FollowUpTabs: React.FC<FollowUpTabsProps> = ({ onSelectContact }) =
           <span className="hidden sm:inline">Needs Approach</span>
           <span className="sm:hidden">New</span> ({needsApproach.length})
         </TabsTrigger>
-        <TabsTrigger
-          value="stale-3"
-          className={`transition-all duration-300 text-xs md:text-sm px-1 md:px-2 py-1 ${activeTab === 'stale-3' ? 'md:text-base md:px-4 md:py-2' : ''}`}
-        >
-          {'>'} 3d ({stale3Days.length})
-        </TabsTrigger>
-        <TabsTrigger
-          value="stale-7"
-          className={`transition-all duration-300 text-xs md:text-sm px-1 md:px-2 py-1 ${activeTab === 'stale-7' ? 'md:text-base md:px-4 md:py-2' : ''}`}
-        >
-          {'>'} 7d ({stale7Days.length})
-        </TabsTrigger>
-        <TabsTrigger
-          value="stale-30"
-          className={`transition-all duration-300 text-xs md:text-sm px-1 md:px-2 py-1 ${activeTab === 'stale-30' ? 'md:text-base md:px-4 md:py-2' : ''}`}
-        >
-          {'>'} 30d ({stale30Days.length})
-        </TabsTrigger>
+        {buckets.map(bucket => (
+          <TabsTrigger
+            key={bucket.key}
+            value={bucket.key}
+            className={`transition-all duration-300 text-xs md:text-sm px-1 md:px-2 py-1 ${activeTab === bucket.key ? 'md:text-base md:px-4 md:py-2' : ''}`}
+          >
+            {bucket.label} ({bucket.contacts.length})
+          </TabsTrigger>
+        ))}
       </TabsList>
 
       <TabsContent value="needs-approach" className="space-y-4 px-2 md:px-0">
@@ -323,44 +318,20 @@ export const FollowUpTabs: React.FC<FollowUpTabsProps> = ({ onSelectContact }) =
         )}
       </TabsContent>
 
-      <TabsContent value="stale-3" className="space-y-4 px-2 md:px-0">
-        <div className="text-sm text-gray-600 mb-4">
-          Contacts last contacted more than 3 days ago
-        </div>
-        {stale3Days.length === 0 ? (
-          <div className="text-center py-8 text-gray-500">
-            No stale contacts in this timeframe!
-          </div>
-        ) : (
-          stale3Days.map(contact => <ContactCard key={contact.id} contact={contact} />)
-        )}
-      </TabsContent>
-
-      <TabsContent value="stale-7" className="space-y-4 px-2 md:px-0">
-        <div className="text-sm text-gray-600 mb-4">
-          Contacts last contacted more than 7 days ago
-        </div>
-        {stale7Days.length === 0 ? (
-          <div className="text-center py-8 text-gray-500">
-            No stale contacts in this timeframe!
+      {buckets.map(bucket => (
+        <TabsContent key={bucket.key} value={bucket.key} className="space-y-4 px-2 md:px-0">
+          <div className="text-sm text-gray-600 mb-4">
+            {bucket.ruleName} contacts last contacted {bucket.minDays} or more days ago
           </div>
-        ) : (
-          stale7Days.map(contact => <ContactCard key={contact.id} contact={contact} />)
-        )}
-      </TabsContent>
-
-      <TabsContent value="stale-30" className="space-y-4 px-2 md:px-0">
-        <div className="text-sm text-gray-600 mb-4">
-          Contacts last contacted more than 30 days ago
-        </div>
-        {stale30Days.length === 0 ? (
-          <div className="text-center py-8 text-gray-500">
-            No stale contacts in this timeframe!
-          </div>
-        ) : (
-          stale30Days.map(contact => <ContactCard key={contact.id} contact={contact} />)
-        )}
-      </TabsContent>
+          {bucket.contacts.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No stale contacts in this timeframe!
+            </div>
+          ) : (
+            bucket.contacts.map(contact => <ContactCard key={contact.id} contact={contact} />)
+          )}
+        </TabsContent>
+      ))}
     </Tabs>
     </div>
   );
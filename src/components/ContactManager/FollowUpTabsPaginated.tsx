@@ -1,18 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Phone, Mail, Building, Clock, MessageCircle, Users, RefreshCw } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Phone, Mail, Building, Clock, MessageCircle, Users, RefreshCw, Bell, Check, AlarmClock, Megaphone, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { TemplateSelectionModal } from './TemplateSelectionModal';
 import { ContactLabelFilter } from './ContactLabelFilter';
+import { BulkCampaignDialog } from './BulkCampaignDialog';
+import { WhatsAppCampaignList } from './WhatsAppCampaignList';
+import { WhatsAppCampaignRunner } from './WhatsAppCampaignRunner';
 import { PaginationControls } from './PaginationControls';
 import { CalculationLoadingDialog, useCalculationLoading } from './CalculationLoadingDialog';
 import { Contact } from '@/types/contact';
 import { useTemplateCache } from '@/hooks/useTemplateCache';
-import { usePaginatedFollowUpCalculations } from '@/hooks/usePaginatedFollowUpCalculations';
+import {
+  usePaginatedFollowUpCalculations,
+  OVERDUE_KEY,
+  DUE_TODAY_KEY,
+  NEEDS_APPROACH_KEY
+} from '@/hooks/usePaginatedFollowUpCalculations';
 import { useCachedContacts } from '@/hooks/useCachedContacts';
+import { useWhatsAppCampaigns } from '@/hooks/useWhatsAppCampaigns';
 
 /**
  * Extended contact interface for follow-up specific data
@@ -20,8 +30,13 @@ import { useCachedContacts } from '@/hooks/useCachedContacts';
  */
 interface FollowUpContact extends Contact {
   last_activity?: string;
+  reminder_id?: string;
+  reminder_due_at?: string;
+  reminder_title?: string;
 }
 
+const FIXED_TAB_KEYS = [OVERDUE_KEY, DUE_TODAY_KEY, NEEDS_APPROACH_KEY];
+
 /**
  * Props for FollowUpTabsPaginated component
  * Maintains compatibility with existing FollowUpTabs interface
@@ -36,25 +51,31 @@ interface FollowUpTabsPaginatedProps {
  * Uses existing UI components and maintains interface compatibility
  */
 export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ onSelectContact }) => {
-  const [activeTab, setActiveTab] = useState('needs-approach');
+  const [activeTab, setActiveTab] = useState(NEEDS_APPROACH_KEY);
   const [availableLabels, setAvailableLabels] = useState<string[]>([]);
   const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
   const [templatesPreloaded, setTemplatesPreloaded] = useState(false);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [campaignContactIds, setCampaignContactIds] = useState<Set<string>>(new Set());
+  const [showCampaignDialog, setShowCampaignDialog] = useState(false);
+  const [runningCampaignId, setRunningCampaignId] = useState<string | null>(null);
   
   // Use cached contacts for label extraction
   const { contacts, loading: contactsLoading } = useCachedContacts();
   
+  // Bulk WhatsApp campaigns
+  const { campaigns, createCampaign, setCampaignStatus, refetch: refetchCampaigns } = useWhatsAppCampaigns();
+  
   // Template cache hook for preloading (reuse existing)
   const { preloadAllUserTemplates, isLoading: templatesLoading, isPreloaded } = useTemplateCache();
   
   // Use paginated follow-up calculations
   const {
+    overdue,
+    dueToday,
     needsApproach,
-    stale3Days,
-    stale7Days,
-    stale30Days,
+    buckets,
     currentPages,
     pageSize,
     totalPages,
@@ -64,6 +85,8 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
     addOptimisticActivityToContact,
     setPage,
     refreshData,
+    completeReminder,
+    snoozeReminder,
   } = usePaginatedFollowUpCalculations(contacts, selectedLabels);
   
   // Refresh handler
@@ -100,6 +123,13 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
     }
   }, [contacts]);
   
+  // Fall back to the first tab when the active cadence bucket disappears
+  useEffect(() => {
+    if (!FIXED_TAB_KEYS.includes(activeTab) && !buckets.some(bucket => bucket.key === activeTab)) {
+      setActiveTab(NEEDS_APPROACH_KEY);
+    }
+  }, [activeTab, buckets]);
+  
   // Preload templates (reuse existing logic)
   useEffect(() => {
     if (!templatesPreloaded && !templatesLoading && !isPreloaded) {
@@ -129,6 +159,51 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
     }
   }, [isCalculating, processedContacts, pageSize, updateProgress]);
   
+  // Contacts matching the label filter, for selecting a whole label segment at once
+  const labelFilteredContacts = useMemo(() => {
+    if (selectedLabels.length === 0) return [];
+    return contacts.filter(contact =>
+      selectedLabels.some(label => contact.labels?.includes(label))
+    );
+  }, [contacts, selectedLabels]);
+  
+  const campaignContacts = useMemo(
+    () => contacts.filter(contact => campaignContactIds.has(contact.id)),
+    [contacts, campaignContactIds]
+  );
+  
+  const toggleCampaignContact = (contactId: string) => {
+    setCampaignContactIds(prev => {
+      const next = new Set(prev);
+      if (next.has(contactId)) {
+        next.delete(contactId);
+      } else {
+        next.add(contactId);
+      }
+      return next;
+    });
+  };
+  
+  const selectCampaignContacts = (contactsToSelect: Contact[]) => {
+    setCampaignContactIds(prev => {
+      const next = new Set(prev);
+      contactsToSelect.forEach(contact => next.add(contact.id));
+      return next;
+    });
+  };
+  
+  const handleResumeCampaign = async (campaignId: string) => {
+    await setCampaignStatus(campaignId, 'active');
+    setRunningCampaignId(campaignId);
+  };
+  
+  const handleCloseCampaign = () => {
+    setRunningCampaignId(null);
+    refetchCampaigns();
+    // Sent contacts move out of their follow-up bucket
+    refreshData();
+  };
+  
   /**
    * Handle contact action (call/email)
    * Reuses existing logic with optimistic updates
@@ -180,14 +255,23 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
           onClick={() => onSelectContact(contact)}>
       <CardContent className="p-4">
         <div className="flex justify-between items-start mb-2">
-          <div>
-            <h3 className="font-semibold text-lg">{contact.name}</h3>
-            {contact.company && (
-              <p className="text-sm text-gray-600 flex items-center mt-1">
-                <Building className="w-4 h-4 mr-1" />
-                {contact.company}
-              </p>
-            )}
+          <div className="flex items-start gap-3">
+            <Checkbox
+              checked={campaignContactIds.has(contact.id)}
+              onCheckedChange={() => toggleCampaignContact(contact.id)}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-1.5"
+              aria-label={`Select ${contact.name} for a campaign`}
+            />
+            <div>
+              <h3 className="font-semibold text-lg">{contact.name}</h3>
+              {contact.company && (
+                <p className="text-sm text-gray-600 flex items-center mt-1">
+                  <Building className="w-4 h-4 mr-1" />
+                  {contact.company}
+                </p>
+              )}
+            </div>
           </div>
           <div className="flex flex-col gap-1">
             {contact.labels && contact.labels.map(label => (
@@ -198,6 +282,14 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
           </div>
         </div>
         
+        {contact.reminder_id && (
+          <div className="flex items-center gap-2 text-sm text-orange-700 bg-orange-50 rounded px-2 py-1 mb-2">
+            <Bell className="w-4 h-4" />
+            <span className="font-medium">{contact.reminder_title}</span>
+            <span>· due {new Date(contact.reminder_due_at).toLocaleString()}</span>
+          </div>
+        )}
+        
         <div className="flex items-center gap-4 text-sm text-gray-600 mb-3">
           <span className="flex items-center">
             <Phone className="w-4 h-4 mr-1" />
@@ -251,6 +343,31 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
             <MessageCircle className="w-4 h-4 mr-1" />
             Template
           </Button>
+          {contact.reminder_id && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  snoozeReminder(contact.reminder_id, 1);
+                }}
+              >
+                <AlarmClock className="w-4 h-4 mr-1" />
+                Snooze 1d
+              </Button>
+              <Button
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  completeReminder(contact.reminder_id);
+                }}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Done
+              </Button>
+            </>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -259,10 +376,10 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
   /**
    * Render tab content with pagination
    */
-  const renderTabContent = (contacts: FollowUpContact[], tabKey: keyof typeof totalCounts) => {
-    const totalCount = totalCounts[tabKey];
-    const totalPagesForTab = totalPages[tabKey];
-    const currentPageForTab = currentPages[tabKey];
+  const renderTabContent = (contacts: FollowUpContact[], tabKey: string) => {
+    const totalCount = totalCounts[tabKey] || 0;
+    const totalPagesForTab = totalPages[tabKey] || 0;
+    const currentPageForTab = currentPages[tabKey] || 1;
     
     return (
       <div className="space-y-4">
@@ -277,6 +394,15 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
               <Badge variant="secondary">Counting...</Badge>
             )}
           </div>
+          {contacts.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => selectCampaignContacts(contacts)}
+            >
+              Select page
+            </Button>
+          )}
         </div>
         
         {/* Contact list */}
@@ -348,50 +474,95 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
         onLabelsChanged={() => {}}
       />
       
-      {/* Follow-up Tabs */}
+      {labelFilteredContacts.length > 0 && (
+        <Button
+          variant="link"
+          size="sm"
+          className="px-0"
+          onClick={() => selectCampaignContacts(labelFilteredContacts)}
+        >
+          Select all {labelFilteredContacts.length} contacts with these labels
+        </Button>
+      )}
+      
+      {/* Selection toolbar for bulk campaigns */}
+      {campaignContactIds.size > 0 && (
+        <div className="flex items-center justify-between rounded-md border bg-muted/50 px-3 py-2">
+          <span className="text-sm font-medium">
+            {campaignContactIds.size} {campaignContactIds.size === 1 ? 'contact' : 'contacts'} selected
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setCampaignContactIds(new Set())}>
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+            <Button size="sm" onClick={() => setShowCampaignDialog(true)}>
+              <Megaphone className="w-4 h-4 mr-1" />
+              Start WhatsApp Campaign
+            </Button>
+          </div>
+        </div>
+      )}
+      
+      {/* Unfinished campaigns */}
+      <WhatsAppCampaignList
+        campaigns={campaigns}
+        onResume={(campaign) => handleResumeCampaign(campaign.id)}
+        onCancel={(campaign) => {
+          if (window.confirm(`Cancel campaign "${campaign.name}"? Remaining recipients won't be sent.`)) {
+            setCampaignStatus(campaign.id, 'cancelled');
+          }
+        }}
+      />
+      
+      {/* Follow-up Tabs - one per cadence bucket */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="needs-approach" className="relative">
-            Needs Approach
-            <Badge variant="secondary" className="ml-2">
-              {totalCounts.needsApproach}
+        <TabsList className="flex w-full justify-start overflow-x-auto">
+          <TabsTrigger value={OVERDUE_KEY} className="relative flex-1">
+            Overdue
+            <Badge variant={totalCounts[OVERDUE_KEY] ? 'destructive' : 'secondary'} className="ml-2">
+              {totalCounts[OVERDUE_KEY] || 0}
             </Badge>
           </TabsTrigger>
-          <TabsTrigger value="stale-3d" className="relative">
-            3+ Days
+          <TabsTrigger value={DUE_TODAY_KEY} className="relative flex-1">
+            Due Today
             <Badge variant="secondary" className="ml-2">
-              {totalCounts.stale3Days}
+              {totalCounts[DUE_TODAY_KEY] || 0}
             </Badge>
           </TabsTrigger>
-          <TabsTrigger value="stale-7d" className="relative">
-            7+ Days
-            <Badge variant="secondary" className="ml-2">
-              {totalCounts.stale7Days}
-            </Badge>
-          </TabsTrigger>
-          <TabsTrigger value="stale-30d" className="relative">
-            30+ Days
+          <TabsTrigger value={NEEDS_APPROACH_KEY} className="relative flex-1">
+            Needs Approach
             <Badge variant="secondary" className="ml-2">
-              {totalCounts.stale30Days}
+              {totalCounts[NEEDS_APPROACH_KEY] || 0}
             </Badge>
           </TabsTrigger>
+          {buckets.map(bucket => (
+            <TabsTrigger key={bucket.key} value={bucket.key} className="relative flex-1">
+              {bucket.label}
+              <Badge variant="secondary" className="ml-2">
+                {totalCounts[bucket.key] || 0}
+              </Badge>
+            </TabsTrigger>
+          ))}
         </TabsList>
         
-        <TabsContent value="needs-approach">
-          {renderTabContent(needsApproach, 'needsApproach')}
+        <TabsContent value={OVERDUE_KEY}>
+          {renderTabContent(overdue, OVERDUE_KEY)}
         </TabsContent>
         
-        <TabsContent value="stale-3d">
-          {renderTabContent(stale3Days, 'stale3Days')}
+        <TabsContent value={DUE_TODAY_KEY}>
+          {renderTabContent(dueToday, DUE_TODAY_KEY)}
         </TabsContent>
         
-        <TabsContent value="stale-7d">
-          {renderTabContent(stale7Days, 'stale7Days')}
+        <TabsContent value={NEEDS_APPROACH_KEY}>
+          {renderTabContent(needsApproach, NEEDS_APPROACH_KEY)}
         </TabsContent>
         
-        <TabsContent value="stale-30d">
-          {renderTabContent(stale30Days, 'stale30Days')}
-        </TabsContent>
+        {buckets.map(bucket => (
+          <TabsContent key={bucket.key} value={bucket.key}>
+            {renderTabContent(bucket.contacts, bucket.key)}
+          </TabsContent>
+        ))}
       </Tabs>
       
       {/* Template Selection Modal */}
@@ -439,6 +610,26 @@ export const FollowUpTabsPaginated: React.FC<FollowUpTabsPaginatedProps> = ({ on
         </TemplateSelectionModal>
       )}
       
+      {/* Bulk Campaign Builder */}
+      <BulkCampaignDialog
+        contacts={campaignContacts}
+        open={showCampaignDialog}
+        onOpenChange={setShowCampaignDialog}
+        onCreate={createCampaign}
+        onCreated={(campaign) => {
+          setShowCampaignDialog(false);
+          setCampaignContactIds(new Set());
+          setRunningCampaignId(campaign.id);
+        }}
+      />
+      
+      {/* Campaign Queue */}
+      <WhatsAppCampaignRunner
+        campaignId={runningCampaignId}
+        onClose={handleCloseCampaign}
+        onPause={(campaignId) => setCampaignStatus(campaignId, 'paused')}
+      />
+      
       {/* Calculation Loading Dialog */}
       <CalculationLoadingDialog
         isOpen={showLoadingDialog}
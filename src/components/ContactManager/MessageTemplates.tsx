@@ -1,70 +1,71 @@
-
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Plus, Edit, Trash2, Save, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-
-interface MessageTemplateSet {
-  id: string;
-  title: string;
-  associated_label_id: string;
-  template_variation_1: string;
-  template_variation_2: string;
-  template_variation_3: string;
-  user_id: string;
-  created_at: string;
-  updated_at: string;
-}
+import { useMessageTemplateSets, DEFAULT_REPLY_WINDOW_DAYS } from '@/hooks/useMessageTemplateSets';
+import { MessageTemplateChannel, MessageTemplateSet, MessageTemplateVariationDraft } from '@/types/messageTemplate';
+import { validateTemplate } from '@/utils/templateEngine';
+import { KNOWN_TEMPLATE_VARIABLES, getSampleTemplateContext } from '@/utils/templateVariables';
+import { getActiveVariations, getSortedVariations } from '@/utils/templateVariations';
+import { TemplateVariablePicker } from './TemplateVariablePicker';
+import { TemplateVariationField } from './TemplateVariationField';
+import { TemplateVariationStatsTable } from './TemplateVariationStatsTable';
 
 interface Label {
   id: string;
   name: string;
 }
 
+const REPLY_WINDOW_OPTIONS = [1, 3, 7, 14];
+
+const CHANNEL_LABELS: Record<MessageTemplateChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+};
+
+const emptyVariation = (): MessageTemplateVariationDraft => ({ subject: '', content: '', is_active: true });
+
 export const MessageTemplates: React.FC = () => {
-  const [templateSets, setTemplateSets] = useState<MessageTemplateSet[]>([]);
+  const [replyWindowDays, setReplyWindowDays] = useState(DEFAULT_REPLY_WINDOW_DAYS);
+  const {
+    templateSets,
+    stats,
+    loading,
+    saving,
+    saveTemplateSet,
+    deleteTemplateSet,
+    setVariationActive,
+  } = useMessageTemplateSets(replyWindowDays);
   const [labels, setLabels] = useState<Label[]>([]);
   const [isCreating, setIsCreating] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
   const [formData, setFormData] = useState({
     title: '',
     associated_label_id: '',
-    template_variation_1: '',
-    template_variation_2: '',
-    template_variation_3: '',
+    channel: 'whatsapp' as MessageTemplateChannel,
   });
+  const [variations, setVariations] = useState<MessageTemplateVariationDraft[]>([emptyVariation()]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const variationRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
+  const previewContext = useMemo(() => getSampleTemplateContext(), []);
   const { user } = useAuth();
 
-  const fetchTemplateSets = useCallback(async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('message_template_sets')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+  const isEmail = formData.channel === 'email';
 
-      if (error) throw error;
-      setTemplateSets(data || []);
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to fetch template sets",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+  const variationIssues = useMemo(
+    () => variations.map(variation => [
+      ...(isEmail ? validateTemplate(variation.subject, KNOWN_TEMPLATE_VARIABLES) : []),
+      ...validateTemplate(variation.content, KNOWN_TEMPLATE_VARIABLES),
+    ]),
+    [variations, isEmail]
+  );
 
   const fetchLabels = useCallback(async () => {
     if (!user) return;
@@ -83,18 +84,17 @@ export const MessageTemplates: React.FC = () => {
   }, [user]);
 
   useEffect(() => {
-    fetchTemplateSets();
     fetchLabels();
-  }, [user, fetchTemplateSets, fetchLabels]);
+  }, [fetchLabels]);
 
   const resetForm = () => {
     setFormData({
       title: '',
       associated_label_id: '',
-      template_variation_1: '',
-      template_variation_2: '',
-      template_variation_3: '',
+      channel: 'whatsapp',
     });
+    setVariations([emptyVariation()]);
+    setActiveIndex(0);
   };
 
   const handleCreate = () => {
@@ -106,106 +106,103 @@ export const MessageTemplates: React.FC = () => {
     setFormData({
       title: templateSet.title,
       associated_label_id: templateSet.associated_label_id,
-      template_variation_1: templateSet.template_variation_1,
-      template_variation_2: templateSet.template_variation_2,
-      template_variation_3: templateSet.template_variation_3,
+      channel: templateSet.channel,
     });
+    const existing = getSortedVariations(templateSet).map(variation => ({
+      id: variation.id,
+      subject: variation.subject ?? '',
+      content: variation.content,
+      is_active: variation.is_active,
+    }));
+    setVariations(existing.length > 0 ? existing : [emptyVariation()]);
+    setActiveIndex(0);
     setEditingId(templateSet.id);
   };
 
+  const updateVariation = (index: number, changes: Partial<MessageTemplateVariationDraft>) => {
+    setVariations(prev => prev.map((variation, i) => (i === index ? { ...variation, ...changes } : variation)));
+  };
+
+  const handleAddVariation = () => {
+    setVariations(prev => [...prev, emptyVariation()]);
+    setActiveIndex(variations.length);
+  };
+
+  const handleRemoveVariation = (index: number) => {
+    setVariations(prev => prev.filter((_, i) => i !== index));
+    setActiveIndex(0);
+  };
+
+  const handleInsertVariable = (variableName: string) => {
+    const token = `{{${variableName}}}`;
+    const textarea = variationRefs.current[activeIndex];
+    const current = variations[activeIndex]?.content ?? '';
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+
+    updateVariation(activeIndex, { content: current.slice(0, start) + token + current.slice(end) });
+
+    // Put the cursor after the inserted variable once React has re-rendered
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
   const handleSave = async () => {
-    if (!user || !formData.title || !formData.associated_label_id || 
-        !formData.template_variation_1 || !formData.template_variation_2 || 
-        !formData.template_variation_3) {
+    const filled = variations.filter(variation => variation.content.trim());
+
+    if (!user || !formData.title || !formData.associated_label_id || filled.length === 0) {
       toast({
         title: "Error",
-        description: "Please fill in all required fields",
+        description: "Please fill in the title, label and at least one variation",
         variant: "destructive",
       });
       return;
     }
 
-    try {
-      if (editingId) {
-        // Update existing template set
-        const { error } = await supabase
-          .from('message_template_sets')
-          .update({
-            title: formData.title,
-            associated_label_id: formData.associated_label_id,
-            template_variation_1: formData.template_variation_1,
-            template_variation_2: formData.template_variation_2,
-            template_variation_3: formData.template_variation_3,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', editingId);
-
-        if (error) throw error;
-
-        toast({
-          title: "Success",
-          description: "Template set updated successfully",
-        });
-      } else {
-        // Create new template set
-        const { error } = await supabase
-          .from('message_template_sets')
-          .insert({
-            user_id: user.id,
-            title: formData.title,
-            associated_label_id: formData.associated_label_id,
-            template_variation_1: formData.template_variation_1,
-            template_variation_2: formData.template_variation_2,
-            template_variation_3: formData.template_variation_3,
-          });
-
-        if (error) throw error;
-
-        toast({
-          title: "Success",
-          description: "Template set created successfully",
-        });
-      }
-
-      setIsCreating(false);
-      setEditingId(null);
-      resetForm();
-      fetchTemplateSets();
-    } catch (error) {
+    if (isEmail && filled.some(variation => !variation.subject.trim())) {
       toast({
         title: "Error",
-        description: "Failed to save template set",
+        description: "Every email variation needs a subject",
         variant: "destructive",
       });
-    }
-  };
-
-  const handleDelete = async (id: string) => {
-    if (!window.confirm('Are you sure you want to delete this template set?')) {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('message_template_sets')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
+    if (!filled.some(variation => variation.is_active)) {
       toast({
-        title: "Success",
-        description: "Template set deleted successfully",
+        title: "Error",
+        description: "At least one variation must be active",
+        variant: "destructive",
       });
+      return;
+    }
 
-      fetchTemplateSets();
-    } catch (error) {
+    if (variationIssues.some(issues => issues.length > 0)) {
       toast({
         title: "Error",
-        description: "Failed to delete template set",
+        description: "Please fix the template errors before saving",
         variant: "destructive",
       });
+      return;
+    }
+
+    // Blank new variations are dropped; blank existing ones are deleted like removed ones
+    const saved = await saveTemplateSet(editingId, formData, filled);
+    if (saved) {
+      setIsCreating(false);
+      setEditingId(null);
+      resetForm();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Are you sure you want to delete this template set?')) {
+      return;
     }
+
+    await deleteTemplateSet(id);
   };
 
   const handleCancel = () => {
@@ -227,10 +224,27 @@ export const MessageTemplates: React.FC = () => {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold">Message Templates</h2>
-        <Button onClick={handleCreate} disabled={isCreating || editingId !== null}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Template Set
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(replyWindowDays)}
+            onValueChange={(value) => setReplyWindowDays(Number(value))}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPLY_WINDOW_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>
+                  Replies within {days} {days === 1 ? 'day' : 'days'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating || editingId !== null}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Template Set
+          </Button>
+        </div>
       </div>
 
       {(isCreating || editingId) && (
@@ -270,39 +284,76 @@ export const MessageTemplates: React.FC = () => {
             </div>
 
             <div>
-              <label className="block text-sm font-medium mb-1">Template Variation 1 *</label>
-              <Textarea
-                value={formData.template_variation_1}
-                onChange={(e) => setFormData({ ...formData, template_variation_1: e.target.value })}
-                placeholder="Enter first message variation (use {{name}}, {{company}}, etc. for placeholders)"
-                rows={3}
-              />
+              <label className="block text-sm font-medium mb-1">Channel *</label>
+              <Select
+                value={formData.channel}
+                onValueChange={(value) => setFormData({ ...formData, channel: value as MessageTemplateChannel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHANNEL_LABELS).map(([channel, label]) => (
+                    <SelectItem key={channel} value={channel}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium mb-1">Template Variation 2 *</label>
-              <Textarea
-                value={formData.template_variation_2}
-                onChange={(e) => setFormData({ ...formData, template_variation_2: e.target.value })}
-                placeholder="Enter second message variation"
-                rows={3}
-              />
-            </div>
+            <TemplateVariablePicker onInsert={handleInsertVariable} />
+
+            {variations.map((variation, index) => {
+              const hasSends = !!variation.id && (stats[variation.id]?.sends ?? 0) > 0;
+              return (
+                <TemplateVariationField
+                  key={variation.id ?? `new-${index}`}
+                  ref={(element) => { variationRefs.current[index] = element; }}
+                  label={`Variation ${index + 1}${variation.is_active ? '' : ' (retired)'}`}
+                  value={variation.content}
+                  placeholder={index === 0
+                    ? 'Enter a message variation, e.g. Hi {{first_name}}, this is {{my_name}} from {{team_name}}'
+                    : 'Enter another message variation'}
+                  issues={variationIssues[index]}
+                  previewContext={previewContext}
+                  onChange={(value) => updateVariation(index, { content: value })}
+                  onFocus={() => setActiveIndex(index)}
+                  subject={isEmail ? variation.subject : undefined}
+                  onSubjectChange={isEmail ? (value) => updateVariation(index, { subject: value }) : undefined}
+                  actions={
+                    <div className="flex items-center gap-3">
+                      <label className="flex items-center gap-2 text-xs text-gray-600">
+                        <Switch
+                          checked={variation.is_active}
+                          onCheckedChange={(checked) => updateVariation(index, { is_active: checked })}
+                        />
+                        Active
+                      </label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveVariation(index)}
+                        disabled={variations.length === 1 || hasSends}
+                        title={hasSends ? 'This variation has sends; retire it instead to keep its stats' : undefined}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  }
+                />
+              );
+            })}
 
-            <div>
-              <label className="block text-sm font-medium mb-1">Template Variation 3 *</label>
-              <Textarea
-                value={formData.template_variation_3}
-                onChange={(e) => setFormData({ ...formData, template_variation_3: e.target.value })}
-                placeholder="Enter third message variation"
-                rows={3}
-              />
-            </div>
+            <Button variant="outline" size="sm" onClick={handleAddVariation}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Variation
+            </Button>
 
             <div className="flex gap-2">
-              <Button onClick={handleSave}>
+              <Button onClick={handleSave} disabled={saving}>
                 <Save className="h-4 w-4 mr-2" />
-                Save
+                {saving ? 'Saving...' : 'Save'}
               </Button>
               <Button variant="outline" onClick={handleCancel}>
                 <X className="h-4 w-4 mr-2" />
@@ -319,41 +370,58 @@ export const MessageTemplates: React.FC = () => {
             No template sets created yet. Create your first template set to get started!
           </div>
         ) : (
-          templateSets.map(templateSet => (
-            <Card key={templateSet.id} className="hover:shadow-md transition-shadow">
-              <CardContent className="p-4">
-                <div className="flex justify-between items-start">
-                  <div className="space-y-2">
-                    <h3 className="font-semibold">{templateSet.title}</h3>
-                    <Badge variant="outline">
-                      {getLabelName(templateSet.associated_label_id)}
-                    </Badge>
-                    <div className="text-sm text-gray-600">
-                      3 message variations configured
+          templateSets.map(templateSet => {
+            const total = templateSet.message_template_variations.length;
+            const active = getActiveVariations(templateSet).length;
+            return (
+              <Card key={templateSet.id} className="hover:shadow-md transition-shadow">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-2">
+                      <h3 className="font-semibold">{templateSet.title}</h3>
+                      <div className="flex gap-2">
+                        <Badge variant="outline">
+                          {getLabelName(templateSet.associated_label_id)}
+                        </Badge>
+                        <Badge variant="secondary">
+                          {CHANNEL_LABELS[templateSet.channel]}
+                        </Badge>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {active} of {total} message {total === 1 ? 'variation' : 'variations'} active
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(templateSet)}
+                        disabled={isCreating || editingId !== null}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(templateSet.id)}
+                        disabled={isCreating || editingId !== null}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex gap-2">
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      onClick={() => handleEdit(templateSet)}
-                      disabled={isCreating || editingId !== null}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      onClick={() => handleDelete(templateSet.id)}
+                  {total > 0 && (
+                    <TemplateVariationStatsTable
+                      templateSet={templateSet}
+                      stats={stats}
+                      onToggleActive={setVariationActive}
                       disabled={isCreating || editingId !== null}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
         )}
       </div>
     </div>
@@ -28,10 +28,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { MessageCircle, RefreshCw, Trash2 } from 'lucide-react';
+import { Mail, MessageCircle, RefreshCw, Trash2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useUserMetadata } from '@/hooks/useUserMetadata';
 import { useTemplateCache } from '@/hooks/useTemplateCache';
+import { useTemplateContext } from '@/hooks/useTemplateContext';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+import { renderTemplate } from '@/utils/templateEngine';
+import { getActiveVariations, pickRandomVariation } from '@/utils/templateVariations';
+import { MessageTemplateSet, MessageTemplateVariation } from '@/types/messageTemplate';
+import { EmailService } from '@/services/emailService';
 
 interface Contact {
   id: string;
@@ -39,16 +45,11 @@ interface Contact {
   phone_number: string;
   email?: string;
   company?: string;
+  address?: string;
+  status?: string;
   labels?: string[];
-}
-
-interface MessageTemplateSet {
-  id: string;
-  title: string;
-  associated_label_id: string;
-  template_variation_1: string;
-  template_variation_2: string;
-  template_variation_3: string;
+  potential_product?: string[];
+  team_id?: string;
 }
 
 interface Label {
@@ -89,6 +90,8 @@ export const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({
     isMetadataStale 
   } = useUserMetadata();
   const { getTemplatesForContact, getTemplatesFromCacheOnly, getCacheStats, clearCache, isPreloaded } = useTemplateCache();
+  const { buildContextForContact } = useTemplateContext();
+  const { getWhatsAppUrl } = usePhoneCountry(contact.team_id);
 
   useEffect(() => {
     if (open) {
@@ -175,44 +178,58 @@ export const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({
     }
   };
 
-  const formatPhoneNumber = (phoneNumber: string) => {
-    // Remove all non-numeric characters
-    let cleaned = phoneNumber.replace(/\D/g, '');
-    
-    // If starts with +, remove it
-    if (phoneNumber.startsWith('+')) {
-      cleaned = phoneNumber.substring(1).replace(/\D/g, '');
+  const replacePlaceholders = async (template: string, contact: Contact) => {
+    const context = await buildContextForContact(contact, { templates: [template] });
+    return renderTemplate(template, context);
+  };
+
+  /**
+   * Sends an email template variation through the email provider
+   * The edge function logs the activity with its delivery status
+   */
+  const sendTemplateEmail = async (
+    templateSet: MessageTemplateSet,
+    variation: MessageTemplateVariation,
+    variationNumber: number
+  ) => {
+    if (!contact.email) {
+      toast({
+        title: "Error",
+        description: `${contact.name} has no email address`,
+        variant: "destructive",
+      });
+      return;
     }
-    
-    // If starts with 0, replace with country code (assuming Indonesia +62)
-    if (cleaned.startsWith('0')) {
-      cleaned = '62' + cleaned.substring(1);
+
+    const subjectTemplate = variation.subject || templateSet.title;
+    const context = await buildContextForContact(contact, { templates: [variation.content, subjectTemplate] });
+    const result = await EmailService.sendEmail({
+      contact_id: contact.id,
+      subject: renderTemplate(subjectTemplate, context),
+      body: renderTemplate(variation.content, context),
+      template_set_id: templateSet.id,
+      template_variation_id: variation.id,
+      template_title: templateSet.title,
+    });
+
+    if (result.status === 'failed') {
+      toast({
+        title: "Email not delivered",
+        description: result.error || "The email provider rejected the message.",
+        variant: "destructive",
+      });
+      return;
     }
-    
-    return cleaned;
-  };
 
-  const replacePlaceholders = (template: string, contact: Contact) => {
-    let message = template;
-    
-    // Replace common placeholders
-    message = message.replace(/\{\{name\}\}/g, contact.name || '');
-    message = message.replace(/\{\{company\}\}/g, contact.company || '');
-    message = message.replace(/\{\{email\}\}/g, contact.email || '');
-    message = message.replace(/\{\{phone_number\}\}/g, contact.phone_number || '');
-    
-    return message;
-  };
+    if (onTemplateUsed) {
+      onTemplateUsed(templateSet.title, variationNumber);
+    }
 
-  const selectRandomVariation = (templateSet: MessageTemplateSet) => {
-    const variations = [
-      templateSet.template_variation_1,
-      templateSet.template_variation_2,
-      templateSet.template_variation_3,
-    ];
-    
-    const randomIndex = Math.floor(Math.random() * variations.length);
-    return { variation: variations[randomIndex], variationNumber: randomIndex + 1 };
+    setOpen(false);
+    toast({
+      title: "Success",
+      description: `Email sent to ${contact.name} (${contact.email})`,
+    });
   };
 
   /**
@@ -236,6 +253,8 @@ export const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({
   };
 
   const handleTemplateSelect = async (templateSet: MessageTemplateSet) => {
+    if (!user) return;
+
     try {
       setLoading(true);
       
@@ -259,29 +278,54 @@ export const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({
         return; // Error already shown in performContactValidation
       }
       
-      // Select random variation
-      const { variation, variationNumber } = selectRandomVariation(templateSet);
+      // Select random active variation
+      const picked = pickRandomVariation(templateSet);
+      if (!picked) {
+        toast({
+          title: "Error",
+          description: "This template set has no active variations",
+          variant: "destructive",
+        });
+        return;
+      }
+      const { variation, variationNumber } = picked;
       
-      // Replace placeholders
-      const personalizedMessage = replacePlaceholders(variation, contact);
+      if (templateSet.channel === 'email') {
+        await sendTemplateEmail(templateSet, variation, variationNumber);
+        return;
+      }
       
-      // Format phone number for wa.me
-      const formattedPhone = formatPhoneNumber(contact.phone_number);
+      // Replace placeholders
+      const personalizedMessage = await replacePlaceholders(variation.content, contact);
       
       // Construct WhatsApp URL
-      const encodedMessage = encodeURIComponent(personalizedMessage);
-      const whatsappUrl = `https://wa.me/${formattedPhone}?text=${encodedMessage}`;
-      
-      // Log activity optimistically (immediate display + background sync)
-      const optimisticActivity = {
-        contact_id: contact.id,
-        type: 'WhatsApp Follow-Up via Template',
-        details: `Template: "${templateSet.title}" (Variation ${variationNumber})`,
-        timestamp: new Date().toISOString(),
-      };
+      const whatsappUrl = getWhatsAppUrl(contact.phone_number, personalizedMessage);
+      if (!whatsappUrl) {
+        toast({
+          title: "Error",
+          description: "Invalid phone number format",
+          variant: "destructive",
+        });
+        return;
+      }
       
-      // Add optimistic activity for immediate display
-      console.log('⚡ Adding optimistic activity for immediate display');
+      // Log the send with the variation used so replies and conversions can be attributed to it
+      const { error: activityError } = await supabase
+        .from('activities')
+        .insert({
+          contact_id: contact.id,
+          user_id: user.id,
+          type: 'WhatsApp Follow-Up via Template',
+          details: `Template: "${templateSet.title}" (Variation ${variationNumber})`,
+          timestamp: new Date().toISOString(),
+          template_set_id: templateSet.id,
+          template_variation_id: variation.id,
+        });
+
+      if (activityError) {
+        // The message can still be sent; only the A/B stats miss this send
+        console.error('❌ Failed to log template activity:', activityError);
+      }
       
       // Trigger optimistic activity callback for immediate UI update
       if (onTemplateUsed) {
@@ -304,7 +348,9 @@ export const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({
       console.error('❌ Template selection failed:', error);
       toast({
         title: "Error",
-        description: "Gagal membuka link WhatsApp. Silakan coba lagi.",
+        description: templateSet.channel === 'email'
+          ? "Gagal mengirim email. Silakan coba lagi."
+          : "Gagal membuka link WhatsApp. Silakan coba lagi.",
         variant: "destructive",
       });
     } finally {
@@ -390,12 +436,17 @@ export const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({
               >
                 <CardContent className="p-3">
                   <div className="space-y-2">
-                    <h4 className="font-medium">{templateSet.title}</h4>
+                    <h4 className="font-medium flex items-center gap-2">
+                      {templateSet.channel === 'email'
+                        ? <Mail className="h-4 w-4" />
+                        : <MessageCircle className="h-4 w-4" />}
+                      {templateSet.title}
+                    </h4>
                     <Badge variant="outline" className="text-xs">
                       {getLabelName(templateSet.associated_label_id)}
                     </Badge>
                     <div className="text-xs text-gray-500">
-                      3 variation message available
+                      {getActiveVariations(templateSet).length} active message variations
                     </div>
                   </div>
                 </CardContent>
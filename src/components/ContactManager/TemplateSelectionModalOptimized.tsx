@@ -31,6 +31,8 @@ import { MessageCircle, Send, Clock, Database, Zap } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { Contact } from '@/types/contact';
 import { useTemplateCacheDB, type MessageTemplateSet } from '@/hooks/useTemplateCacheDB';
+import type { MessageTemplateChannel, MessageTemplateVariation } from '@/types/messageTemplate';
+import { getActiveVariations } from '@/utils/templateVariations';
 
 // Utility function to extract variables from template content
 const extractVariables = (content: string): string[] => {
@@ -79,9 +81,8 @@ interface SupabaseTemplateSet {
   id: string;
   title: string; // menggunakan 'title' bukan 'name'
   associated_label_id: string;
-  template_variation_1: string;
-  template_variation_2: string;
-  template_variation_3: string;
+  channel: MessageTemplateChannel;
+  message_template_variations: MessageTemplateVariation[];
   user_id: string;
   created_at: string;
   updated_at: string;
@@ -130,29 +131,13 @@ export const TemplateSelectionModalOptimized: React.FC<TemplateSelectionModalOpt
       id: templateSet.id,
       name: templateSet.title, // Map title to name
       description: undefined, // MessageTemplateSet doesn't have description
-      templates: [
-        templateSet.template_variation_1 && {
-          id: `${templateSet.id}_var1`,
-          name: 'Variation 1',
-          content: templateSet.template_variation_1,
-          type: 'sms' as const,
-          variables: undefined
-        },
-        templateSet.template_variation_2 && {
-          id: `${templateSet.id}_var2`,
-          name: 'Variation 2',
-          content: templateSet.template_variation_2,
-          type: 'sms' as const,
-          variables: undefined
-        },
-        templateSet.template_variation_3 && {
-          id: `${templateSet.id}_var3`,
-          name: 'Variation 3',
-          content: templateSet.template_variation_3,
-          type: 'sms' as const,
-          variables: undefined
-        }
-      ].filter((template): template is NonNullable<typeof template> => Boolean(template)),
+      templates: getActiveVariations(templateSet).map((variation, index) => ({
+        id: variation.id,
+        name: `Variation ${index + 1}`,
+        content: variation.content,
+        type: templateSet.channel,
+        variables: undefined
+      })),
       labels: [], // MessageTemplateSet doesn't have direct labels
       created_at: templateSet.created_at,
       updated_at: templateSet.updated_at
@@ -173,9 +158,8 @@ export const TemplateSelectionModalOptimized: React.FC<TemplateSelectionModalOpt
           id,
           title,
           associated_label_id,
-          template_variation_1,
-          template_variation_2,
-          template_variation_3,
+          channel,
+          message_template_variations(*),
           user_id,
           created_at,
           updated_at,
@@ -205,36 +189,15 @@ export const TemplateSelectionModalOptimized: React.FC<TemplateSelectionModalOpt
       }
 
       // Transform the data to match our interface with proper typing
-      const transformedTemplateSets: TransformedTemplateSet[] = templateSetsData.map(set => {
+      const transformedTemplateSets: TransformedTemplateSet[] = (templateSetsData as SupabaseTemplateSet[]).map(set => {
         // Create templates from variations
-        const templates = [];
-        if (set.template_variation_1) {
-          templates.push({
-            id: `${set.id}_var1`,
-            name: 'Variation 1',
-            content: set.template_variation_1,
-            type: 'sms' as const,
-            variables: extractVariables(set.template_variation_1)
-          });
-        }
-        if (set.template_variation_2) {
-          templates.push({
-            id: `${set.id}_var2`,
-            name: 'Variation 2',
-            content: set.template_variation_2,
-            type: 'sms' as const,
-            variables: extractVariables(set.template_variation_2)
-          });
-        }
-        if (set.template_variation_3) {
-          templates.push({
-            id: `${set.id}_var3`,
-            name: 'Variation 3',
-            content: set.template_variation_3,
-            type: 'sms' as const,
-            variables: extractVariables(set.template_variation_3)
-          });
-        }
+        const templates = getActiveVariations(set).map((variation, index) => ({
+          id: variation.id,
+          name: `Variation ${index + 1}`,
+          content: variation.content,
+          type: set.channel,
+          variables: extractVariables(variation.content)
+        }));
 
         return {
           id: set.id,
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TemplateVariableGroup } from '@/types/messageTemplate';
+import { TEMPLATE_VARIABLES, TEMPLATE_VARIABLE_GROUP_LABELS } from '@/utils/templateVariables';
+
+interface TemplateVariablePickerProps {
+  onInsert: (variableName: string) => void;
+}
+
+const GROUPS = Object.keys(TEMPLATE_VARIABLE_GROUP_LABELS) as TemplateVariableGroup[];
+
+export const TemplateVariablePicker: React.FC<TemplateVariablePickerProps> = ({ onInsert }) => {
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div>
+        <div className="text-sm font-medium">Variables</div>
+        <p className="text-xs text-gray-500">
+          Click a variable to insert it. Add a default with {'{{company|there}}'} and optional text with
+          {' {{#if company}}...{{else}}...{{/if}}'}.
+        </p>
+      </div>
+      {GROUPS.map(group => (
+        <div key={group} className="space-y-1">
+          <div className="text-xs font-medium text-gray-600">{TEMPLATE_VARIABLE_GROUP_LABELS[group]}</div>
+          <div className="flex flex-wrap gap-1">
+            {TEMPLATE_VARIABLES.filter(variable => variable.group === group).map(variable => (
+              <Badge
+                key={variable.name}
+                variant="outline"
+                className="cursor-pointer font-mono text-xs hover:bg-gray-100"
+                title={`${variable.label}, e.g. ${variable.example}`}
+                onClick={() => onInsert(variable.name)}
+              >
+                {`{{${variable.name}}}`}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+import { TemplateContext, TemplateIssue } from '@/types/messageTemplate';
+import { renderTemplate } from '@/utils/templateEngine';
+
+interface TemplateVariationFieldProps {
+  label: string;
+  value: string;
+  placeholder?: string;
+  issues: TemplateIssue[];
+  previewContext: TemplateContext;
+  onChange: (value: string) => void;
+  onFocus: () => void;
+  actions?: React.ReactNode;
+  // Email variations edit a subject line next to the body
+  subject?: string;
+  onSubjectChange?: (value: string) => void;
+}
+
+export const TemplateVariationField = React.forwardRef<HTMLTextAreaElement, TemplateVariationFieldProps>(({
+  label,
+  value,
+  placeholder,
+  issues,
+  previewContext,
+  onChange,
+  onFocus,
+  actions,
+  subject,
+  onSubjectChange,
+}, ref) => {
+  const preview = useMemo(() => renderTemplate(value, previewContext), [value, previewContext]);
+  const subjectPreview = useMemo(
+    () => (subject ? renderTemplate(subject, previewContext) : ''),
+    [subject, previewContext]
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium">{label}</label>
+        {actions}
+      </div>
+      {onSubjectChange && (
+        <Input
+          value={subject ?? ''}
+          onChange={(e) => onSubjectChange(e.target.value)}
+          placeholder="Email subject, e.g. Following up on {{company}}"
+        />
+      )}
+      <Textarea
+        ref={ref}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={onFocus}
+        placeholder={placeholder}
+        rows={3}
+      />
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-center gap-1 text-xs text-red-600">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {value && (
+        <div className="rounded-md bg-gray-50 p-2 text-sm text-gray-700 whitespace-pre-wrap">
+          <span className="block text-xs font-medium text-gray-500 mb-1">Preview with sample data</span>
+          {subjectPreview && <span className="block font-medium mb-1">{subjectPreview}</span>}
+          {preview}
+        </div>
+      )}
+    </div>
+  );
+});
+
+TemplateVariationField.displayName = 'TemplateVariationField';
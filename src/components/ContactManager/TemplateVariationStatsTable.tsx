@@ -0,0 +1,83 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MessageTemplateSet, TemplateVariationStats } from '@/types/messageTemplate';
+import { EMPTY_VARIATION_STATS, formatVariationRate, getSortedVariations } from '@/utils/templateVariations';
+
+interface TemplateVariationStatsTableProps {
+  templateSet: MessageTemplateSet;
+  stats: Record<string, TemplateVariationStats>;
+  onToggleActive: (variationId: string, isActive: boolean) => void;
+  disabled?: boolean;
+}
+
+// Below this many sends a rate says more about luck than about the message
+const MIN_SENDS_FOR_COMPARISON = 10;
+
+export const TemplateVariationStatsTable: React.FC<TemplateVariationStatsTableProps> = ({
+  templateSet,
+  stats,
+  onToggleActive,
+  disabled,
+}) => {
+  const variations = getSortedVariations(templateSet);
+
+  const comparable = variations
+    .map(variation => ({ id: variation.id, ...(stats[variation.id] || EMPTY_VARIATION_STATS) }))
+    .filter(row => row.sends >= MIN_SENDS_FOR_COMPARISON);
+  const leader = comparable.length > 1
+    ? comparable.reduce((best, row) =>
+        row.conversions / row.sends > best.conversions / best.sends ? row : best
+      )
+    : null;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Message</TableHead>
+          <TableHead className="text-right">Sends</TableHead>
+          <TableHead className="text-right">Replies</TableHead>
+          <TableHead className="text-right">Conversions</TableHead>
+          <TableHead className="w-28" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {variations.map((variation, index) => {
+          const row = stats[variation.id] || EMPTY_VARIATION_STATS;
+          return (
+            <TableRow key={variation.id} className={variation.is_active ? undefined : 'opacity-60'}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell className="max-w-xs">
+                <div className="truncate" title={variation.content}>{variation.content}</div>
+                <div className="flex gap-1 mt-1">
+                  {!variation.is_active && <Badge variant="secondary">Retired</Badge>}
+                  {leader?.id === variation.id && <Badge>Best conversion</Badge>}
+                </div>
+              </TableCell>
+              <TableCell className="text-right">{row.sends}</TableCell>
+              <TableCell className="text-right">
+                {row.replies} <span className="text-gray-500">({formatVariationRate(row.replies, row.sends)})</span>
+              </TableCell>
+              <TableCell className="text-right">
+                {row.conversions} <span className="text-gray-500">({formatVariationRate(row.conversions, row.sends)})</span>
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={disabled}
+                  onClick={() => onToggleActive(variation.id, !variation.is_active)}
+                >
+                  {variation.is_active ? 'Retire' : 'Reactivate'}
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Megaphone, Play, X } from 'lucide-react';
+import { CampaignSummary } from '@/types/campaign';
+
+interface WhatsAppCampaignListProps {
+  campaigns: CampaignSummary[];
+  onResume: (campaign: CampaignSummary) => void;
+  onCancel: (campaign: CampaignSummary) => void;
+}
+
+/**
+ * Unfinished campaigns with their progress, so they can be resumed in a later session
+ */
+export const WhatsAppCampaignList: React.FC<WhatsAppCampaignListProps> = ({
+  campaigns,
+  onResume,
+  onCancel,
+}) => {
+  if (campaigns.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {campaigns.map(campaign => {
+        const handled = campaign.sent + campaign.skipped;
+        return (
+          <Card key={campaign.id}>
+            <CardContent className="p-3 flex items-center gap-4">
+              <Megaphone className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{campaign.name}</span>
+                  <Badge variant={campaign.status === 'paused' ? 'secondary' : 'default'}>
+                    {campaign.status === 'paused' ? 'Paused' : 'In progress'}
+                  </Badge>
+                </div>
+                <Progress value={(handled / Math.max(campaign.total, 1)) * 100} className="h-2" />
+                <div className="text-xs text-muted-foreground">
+                  {campaign.sent} sent · {campaign.skipped} skipped · {campaign.total - handled} remaining
+                </div>
+              </div>
+              <Button size="sm" onClick={() => onResume(campaign)}>
+                <Play className="h-4 w-4 mr-1" />
+                Resume
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onCancel(campaign)}
+                title="Cancel campaign"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { MessageCircle, Pause, SkipForward, CheckCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useCampaignQueue } from '@/hooks/useCampaignQueue';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+
+interface WhatsAppCampaignRunnerProps {
+  campaignId: string | null;
+  onClose: () => void;
+  onPause: (campaignId: string) => void;
+}
+
+/**
+ * Steps through a campaign queue one recipient at a time
+ * Each wa.me link is opened from a click, so browsers don't block it as a popup
+ */
+export const WhatsAppCampaignRunner: React.FC<WhatsAppCampaignRunnerProps> = ({
+  campaignId,
+  onClose,
+  onPause,
+}) => {
+  const { campaign, recipients, currentRecipient, loading, recordSend, skipRecipient } = useCampaignQueue(campaignId);
+  // Numbers are read in the phone country of the recipient's team
+  const { getWhatsAppUrl, formatPhone } = usePhoneCountry(currentRecipient?.contacts?.team_id);
+
+  const handled = recipients.filter(recipient => recipient.status !== 'pending').length;
+  const sent = recipients.filter(recipient => recipient.status === 'sent').length;
+  const position = recipients.findIndex(recipient => recipient.id === currentRecipient?.id) + 1;
+
+  const handlePause = () => {
+    if (campaign && campaign.status === 'active' && currentRecipient) {
+      onPause(campaign.id);
+    }
+    onClose();
+  };
+
+  const handleSend = async () => {
+    if (!currentRecipient) return;
+
+    const whatsappUrl = getWhatsAppUrl(currentRecipient.contacts?.phone_number || '', currentRecipient.message);
+    if (!whatsappUrl) {
+      toast({
+        title: "Error",
+        description: "Invalid phone number format, skip this recipient instead",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(whatsappUrl, '_blank');
+
+    await recordSend(currentRecipient);
+  };
+
+  return (
+    <Dialog open={campaignId !== null} onOpenChange={(open) => { if (!open) handlePause(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageCircle className="h-5 w-5" />
+            {campaign?.name || 'Campaign'}
+          </DialogTitle>
+          <DialogDescription>
+            {sent} sent · {handled - sent} skipped · {recipients.length - handled} remaining
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={(handled / Math.max(recipients.length, 1)) * 100} />
+
+        {loading ? (
+          <div className="py-8 text-center text-muted-foreground">Loading campaign...</div>
+        ) : currentRecipient ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-semibold">{currentRecipient.contacts?.name}</div>
+                <div className="text-sm text-gray-600">
+                  {formatPhone(currentRecipient.contacts?.phone_number || '')}
+                </div>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {position} of {recipients.length}
+              </div>
+            </div>
+            <div className="rounded-md bg-gray-50 p-3 text-sm whitespace-pre-wrap">
+              {currentRecipient.message}
+            </div>
+          </div>
+        ) : (
+          <div className="py-8 text-center space-y-2">
+            <CheckCircle className="h-8 w-8 mx-auto text-green-600" />
+            <div>All recipients have been handled.</div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {currentRecipient ? (
+            <>
+              <Button variant="outline" onClick={handlePause}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+              <Button variant="outline" onClick={() => skipRecipient(currentRecipient)}>
+                <SkipForward className="h-4 w-4 mr-2" />
+                Skip
+              </Button>
+              <Button onClick={handleSend}>
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Open WhatsApp & Next
+              </Button>
+            </>
+          ) : (
+            <Button onClick={onClose}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
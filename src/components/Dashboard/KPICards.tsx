@@ -1,13 +1,26 @@
 
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
 import { useLeadsStats } from '@/hooks/useLeadsStats';
-import { TrendingUp, Users, Target, DollarSign } from 'lucide-react';
+import { useSalesQuotas } from '@/hooks/useSalesQuotas';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getQuotaPeriodLabel, isCurrentQuota, QUOTA_PACE_LABELS } from '@/utils/quotas';
+import { TrendingUp, Users, Target, DollarSign, Wallet, Flag } from 'lucide-react';
 
 export const KPICards = () => {
+  const { user } = useAuth();
   const { getLeadsStats } = useLeadsStats();
+  const { quotas, getAttainment } = useSalesQuotas();
   const stats = getLeadsStats();
 
+  // The user's own quota for the current month, then quarter; otherwise their team's
+  const currentQuotas = quotas
+    .filter(quota => isCurrentQuota(quota))
+    .sort((a, b) => (a.period_type === 'month' ? 0 : 1) - (b.period_type === 'month' ? 0 : 1));
+  const quota = currentQuotas.find(q => q.user_id === user?.id) || currentQuotas.find(q => !q.user_id);
+  const attainment = quota ? getAttainment(quota) : null;
+
   const kpis = [
     {
       title: 'Total Contacts',
@@ -38,10 +51,38 @@ export const KPICards = () => {
       bgColor: 'bg-purple-50',
       subtitle: `${stats.conversionRate}% conversion rate`,
     },
+    {
+      title: 'Revenue',
+      value: formatCurrencyAmount(stats.totalRevenue, stats.revenueCurrency),
+      icon: Wallet,
+      color: 'text-emerald-600',
+      bgColor: 'bg-emerald-50',
+      subtitle: `In ${stats.revenueCurrency}, net of credit notes`,
+    },
   ];
 
+  if (attainment) {
+    const share = attainment.revenue_attainment ?? attainment.deal_count_attainment ?? 0;
+    const progress = attainment.revenue_target !== null
+      ? `${formatCurrencyAmount(attainment.revenue, stats.revenueCurrency)} of ${formatCurrencyAmount(attainment.revenue_target, stats.revenueCurrency)}`
+      : attainment.quota.deal_count_target != null
+        ? `${attainment.deal_count} of ${attainment.quota.deal_count_target} deals`
+        : `No ${stats.revenueCurrency} rate for ${attainment.quota.currency}`;
+
+    kpis.push({
+      title: `${attainment.quota.user_id ? 'My' : 'Team'} Quota, ${getQuotaPeriodLabel(attainment.quota)}`,
+      value: `${Math.round(share * 100)}%`,
+      icon: Flag,
+      color: attainment.pace ? QUOTA_PACE_LABELS[attainment.pace].color : 'text-gray-600',
+      bgColor: 'bg-gray-50',
+      subtitle: attainment.pace
+        ? `${progress} · ${QUOTA_PACE_LABELS[attainment.pace].label} with ${Math.round(attainment.elapsed * 100)}% of the period gone`
+        : progress,
+    });
+  }
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${kpis.length > 5 ? 'lg:grid-cols-3' : 'lg:grid-cols-5'}`}>
       {kpis.map((kpi) => {
         const Icon = kpi.icon;
         return (
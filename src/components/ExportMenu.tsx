@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { ExportService, ExportFormat, ExportSheet } from '@/services/exportService';
+
+interface ExportMenuProps {
+  // Prefix of the downloaded file name, the current date is appended
+  fileName: string;
+  getSheets: () => ExportSheet<unknown>[] | Promise<ExportSheet<unknown>[]>;
+  disabled?: boolean;
+}
+
+/**
+ * Export button offering CSV and XLSX downloads through the export service
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ fileName, getSheets, disabled }) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const sheets = await getSheets();
+
+      if (sheets.length === 0 || sheets[0].rows.length === 0) {
+        toast({
+          title: "No Data",
+          description: "Nothing to export",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await ExportService.exportSheets(format, ExportService.getDatedFileName(fileName), sheets);
+
+      toast({
+        title: "Export Successful",
+        description: `Exported as ${format.toUpperCase()} file`,
+      });
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-background border shadow-md z-50">
+        <DropdownMenuItem onClick={() => handleExport('csv')} className="cursor-pointer hover:bg-muted">
+          Export as CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')} className="cursor-pointer hover:bg-muted">
+          Export as Excel (XLSX)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
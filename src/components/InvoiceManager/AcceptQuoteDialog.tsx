@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Quote, QuoteAcceptanceStage } from '@/types/quote';
+
+interface AcceptQuoteDialogProps {
+  quote: Quote;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAccept: (dealStage: QuoteAcceptanceStage) => Promise<boolean>;
+}
+
+const ACCEPTANCE_STAGES: QuoteAcceptanceStage[] = ['Closed Won', 'Negotiation'];
+
+export const AcceptQuoteDialog: React.FC<AcceptQuoteDialogProps> = ({
+  quote,
+  open,
+  onOpenChange,
+  onAccept,
+}) => {
+  const [dealStage, setDealStage] = useState<QuoteAcceptanceStage>('Closed Won');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { formatCurrency } = useCurrency(quote.currency);
+
+  useEffect(() => {
+    if (open) {
+      setDealStage('Closed Won');
+    }
+  }, [open]);
+
+  const handleAccept = async () => {
+    setIsSubmitting(true);
+    try {
+      const accepted = await onAccept(dealStage);
+      if (accepted) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accept Quote</DialogTitle>
+          <DialogDescription>
+            {quote.quote_number} · {formatCurrency(quote.total)}. A draft invoice with the same items will be created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {quote.deals ? (
+          <div>
+            <label className="block text-sm font-medium mb-1">Move "{quote.deals.title}" to</label>
+            <Select value={dealStage} onValueChange={(value) => setDealStage(value as QuoteAcceptanceStage)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACCEPTANCE_STAGES.map(stage => (
+                  <SelectItem key={stage} value={stage}>
+                    {stage}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">The deal value is set to the quote total.</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">This quote isn't attached to a deal.</p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAccept} disabled={isSubmitting}>
+            {isSubmitting ? 'Accepting...' : 'Accept Quote'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CreateCreditNoteRequest, CreditNote, Invoice, InvoiceItem } from '@/types/invoice';
+import { getCreditableQuantities, getCreditNoteTotals, roundToCents } from '@/utils/invoiceBalance';
+
+interface CreateCreditNoteDialogProps {
+  open: boolean;
+  invoice: Invoice;
+  items: InvoiceItem[];
+  creditNotes: CreditNote[];
+  onOpenChange: (open: boolean) => void;
+  onCreate: (request: CreateCreditNoteRequest) => Promise<boolean>;
+}
+
+/**
+ * Picks quantities of the invoice's items to credit
+ * Each item is limited to what earlier credit notes left over
+ */
+export const CreateCreditNoteDialog: React.FC<CreateCreditNoteDialogProps> = ({
+  open,
+  invoice,
+  items,
+  creditNotes,
+  onOpenChange,
+  onCreate,
+}) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { formatCurrency } = useCurrency(invoice.currency);
+
+  const creditable = getCreditableQuantities(items, creditNotes);
+
+  useEffect(() => {
+    if (open) {
+      setQuantities({});
+      setReason('');
+    }
+  }, [open]);
+
+  const selectedItems = items.filter(item => (quantities[item.id] || 0) > 0);
+  const { subtotal, taxAmount, total } = getCreditNoteTotals(invoice, items, quantities);
+  const exceedsCreditable = selectedItems.some(item => quantities[item.id] > creditable[item.id]);
+
+  const setQuantity = (itemId: string, value: number) => {
+    setQuantities(prev => ({ ...prev, [itemId]: Math.max(roundToCents(value) || 0, 0) }));
+  };
+
+  const creditEverything = () => {
+    setQuantities(Object.fromEntries(items.map(item => [item.id, creditable[item.id]])));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedItems.length === 0 || exceedsCreditable) return;
+
+    setIsSubmitting(true);
+    try {
+      const created = await onCreate({
+        reason: reason.trim() || undefined,
+        items: selectedItems.map(item => ({ invoice_item_id: item.id, quantity: quantities[item.id] })),
+      });
+      if (created) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Issue Credit Note</DialogTitle>
+          <DialogDescription>
+            Credit items of invoice {invoice.invoice_number}. The credit reduces the outstanding balance;
+            anything already paid beyond the new balance is due as a refund.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-end">
+              <Button type="button" variant="ghost" size="sm" onClick={creditEverything}>
+                Credit all remaining
+              </Button>
+            </div>
+            {items.map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-3 p-3 border rounded">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{item.description}</div>
+                  <div className="text-sm text-gray-600">
+                    {formatCurrency(item.total_price / item.quantity)} each · {creditable[item.id]} of {item.quantity} can be credited
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={creditable[item.id]}
+                  step="0.01"
+                  className="w-24"
+                  value={quantities[item.id] || 0}
+                  onChange={(e) => setQuantity(item.id, Number(e.target.value))}
+                  disabled={creditable[item.id] <= 0}
+                />
+              </div>
+            ))}
+            {exceedsCreditable && (
+              <p className="text-xs text-red-600">Some quantities exceed what can still be credited</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Reason (Optional)</label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Returned goods, billing error..."
+              rows={2}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal:</span>
+              <span>{formatCurrency(subtotal)}</span>
+            </div>
+            {taxAmount !== 0 && (
+              <div className="flex justify-between">
+                <span>Tax:</span>
+                <span>{formatCurrency(taxAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-base">
+              <span>Total Credit:</span>
+              <span>{formatCurrency(total)}</span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || selectedItems.length === 0 || exceedsCreditable}>
+              {isSubmitting ? 'Issuing...' : 'Issue Credit Note'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
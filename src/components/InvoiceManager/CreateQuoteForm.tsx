@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { addDays } from 'date-fns';
+import { useQuotes } from '@/hooks/useQuotes';
+import { useDeals } from '@/hooks/useDeals';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useCachedContacts } from '@/hooks/useCachedContacts';
+import { useProductData } from '@/hooks/useProductData';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+import { Quote } from '@/types/quote';
+import { toDateColumn } from '@/utils/recurringInvoice';
+import { CURRENCIES } from '@/utils/currencyUtils';
+import { calculateInvoiceTotals } from '@/utils/invoiceTotals';
+import { isDealOpen } from '@/utils/pipelines';
+import { invoiceSchema, InvoiceFormData, toInvoiceTaxes } from './InvoiceFormSchema';
+import { InvoiceItemsCard } from './InvoiceItemsCard';
+import { InvoiceTaxesCard } from './InvoiceTaxesCard';
+import { InvoiceSummaryCard } from './InvoiceSummaryCard';
+import { InvoiceNotesCard } from './InvoiceNotesCard';
+
+interface CreateQuoteFormProps {
+  onBack: () => void;
+  onQuoteCreated: (quote: Quote) => void;
+}
+
+const NO_DEAL = 'none';
+
+/**
+ * Quote editor; the line items, taxes, summary and notes are shared with the invoice form
+ */
+export const CreateQuoteForm: React.FC<CreateQuoteFormProps> = ({
+  onBack,
+  onQuoteCreated,
+}) => {
+  const [title, setTitle] = useState('');
+  const [validUntil, setValidUntil] = useState(toDateColumn(addDays(new Date(), 30)));
+  const [dealId, setDealId] = useState(NO_DEAL);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { createQuote } = useQuotes();
+  const { deals } = useDeals();
+  const { stages } = usePipelines();
+  const { contacts } = useCachedContacts();
+  const { products } = useProductData();
+  const { teams, isTeamOwner } = useTeamData();
+  const { getReportingCurrency } = useExchangeRates();
+
+  const ownedTeams = teams.filter(team => isTeamOwner(team.id));
+
+  const form = useForm<InvoiceFormData>({
+    resolver: zodResolver(invoiceSchema),
+    defaultValues: {
+      contact_id: '',
+      team_id: '',
+      currency: '',
+      notes: '',
+      discount_type: null,
+      discount_value: 0,
+      prices_include_tax: false,
+      taxes: [],
+      items: [{ description: '', quantity: 1, unit_price: 0, discount_type: null, discount_value: 0 }],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'items',
+  });
+
+  // Auto-select team if only one team can be quoted for
+  useEffect(() => {
+    if (ownedTeams.length === 1 && !form.getValues('team_id')) {
+      form.setValue('team_id', ownedTeams[0].id);
+    }
+  }, [ownedTeams, form]);
+
+  const watchedPricesIncludeTax = form.watch('prices_include_tax');
+  const watchedContactId = form.watch('contact_id');
+  const watchedTeamId = form.watch('team_id');
+  const reportingCurrency = getReportingCurrency(watchedTeamId);
+  const currency = form.watch('currency') || reportingCurrency;
+
+  const totals = calculateInvoiceTotals(form.watch('items'), {
+    discount_type: form.watch('discount_type'),
+    discount_value: form.watch('discount_value'),
+    prices_include_tax: watchedPricesIncludeTax,
+    taxes: toInvoiceTaxes(form.watch('taxes')),
+  });
+
+  const teamProducts = products.filter(product =>
+    (!watchedTeamId || product.team_id === watchedTeamId) && product.currency === currency
+  );
+  const contactDeals = deals.filter(deal =>
+    deal.contact_id === watchedContactId && isDealOpen(deal, stages)
+  );
+
+  // A deal belongs to one contact, so switching contacts detaches it
+  useEffect(() => {
+    setDealId(NO_DEAL);
+  }, [watchedContactId]);
+
+  const onSubmit = async (data: InvoiceFormData) => {
+    setIsSubmitting(true);
+    try {
+      const quote = await createQuote({
+        contact_id: data.contact_id,
+        team_id: data.team_id,
+        deal_id: dealId === NO_DEAL ? undefined : dealId,
+        title: title.trim() || undefined,
+        valid_until: validUntil,
+        currency: data.currency || undefined,
+        notes: data.notes || undefined,
+        discount_type: data.discount_type,
+        discount_value: data.discount_value,
+        prices_include_tax: data.prices_include_tax,
+        taxes: toInvoiceTaxes(data.taxes),
+        items: data.items.map(item => ({
+          product_id: item.product_id,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_type: item.discount_type,
+          discount_value: item.discount_value,
+        })),
+      });
+
+      if (quote) {
+        onQuoteCreated(quote);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Quotes
+        </Button>
+        <h1 className="text-2xl font-bold">Create Quote</h1>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Quote Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Title (Optional)</label>
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Website redesign proposal"
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="team_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Company</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a company" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ownedTeams.map(team => (
+                            <SelectItem key={team.id} value={team.id}>
+                              {team.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select value={field.value || reportingCurrency} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CURRENCIES.map(option => (
+                            <SelectItem key={option.code} value={option.code}>
+                              {option.code} - {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="contact_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a contact" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {contacts.map(contact => (
+                            <SelectItem key={contact.id} value={contact.id}>
+                              {contact.name} - {contact.phone_number}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Deal (Optional)</label>
+                  <Select
+                    value={dealId}
+                    onValueChange={(value) => {
+                      setDealId(value);
+                      // Quote in the currency the deal was valued in
+                      const deal = deals.find(d => d.id === value);
+                      if (deal) form.setValue('currency', deal.currency);
+                    }}
+                    disabled={!watchedContactId}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DEAL}>No deal</SelectItem>
+                      {contactDeals.map(deal => (
+                        <SelectItem key={deal.id} value={deal.id}>
+                          {deal.title} ({deal.stage})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Valid Until</label>
+                  <Input
+                    type="date"
+                    value={validUntil}
+                    min={toDateColumn(new Date())}
+                    onChange={(e) => setValidUntil(e.target.value)}
+                    required
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <InvoiceSummaryCard
+              totals={totals}
+              title="Quote Summary"
+              pricesIncludeTax={watchedPricesIncludeTax}
+              currency={currency}
+            />
+          </div>
+
+          <InvoiceItemsCard
+            control={form.control}
+            fields={fields}
+            append={append}
+            remove={remove}
+            title="Quote Items"
+            products={teamProducts}
+            showDiscounts
+            currency={currency}
+          />
+
+          <InvoiceTaxesCard control={form.control} />
+
+          <InvoiceNotesCard control={form.control} />
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={onBack}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !validUntil}>
+              {isSubmitting ? 'Creating...' : 'Create Quote'}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
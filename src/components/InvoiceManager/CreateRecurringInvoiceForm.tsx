@@ -0,0 +1,547 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { useRecurringInvoices } from '@/hooks/useRecurringInvoices';
+import { useCachedContacts } from '@/hooks/useCachedContacts';
+import { useProductData } from '@/hooks/useProductData';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Form } from '@/components/ui/form';
+import { ArrowLeft, Plus, Trash2, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+import { CreateRecurringInvoiceRequest, DiscountType, Invoice, InvoiceItem, InvoicePricing, RecurringInterval } from '@/types/invoice';
+import { formatRecurringInterval, getUpcomingRuns, toDateColumn } from '@/utils/recurringInvoice';
+import { CURRENCIES } from '@/utils/currencyUtils';
+import { calculateInvoiceTotals, getInvoiceTaxes, getLineTotal } from '@/utils/invoiceTotals';
+import { InvoiceFormData, toInvoiceTaxes } from './InvoiceFormSchema';
+import { InvoiceTaxesCard } from './InvoiceTaxesCard';
+import { InvoiceTotalsBreakdown } from './InvoiceTotalsBreakdown';
+
+interface CreateRecurringInvoiceFormProps {
+  onBack: () => void;
+  onProfileCreated: () => void;
+  // Prefills the schedule from an existing invoice
+  sourceInvoice?: Invoice;
+  sourceItems?: InvoiceItem[];
+}
+
+interface RecurringItemForm {
+  product_id?: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+}
+
+const NO_DISCOUNT = 'none';
+
+const EMPTY_ITEM: RecurringItemForm = { description: '', quantity: 1, unit_price: 0, discount_type: null, discount_value: 0 };
+
+// The schedule isn't validated by the invoice schema, so check what it would reject
+const getPricingIssue = (items: RecurringItemForm[], pricing: InvoicePricing): string | null => {
+  if ((pricing.taxes || []).some(tax => !tax.name.trim() || tax.rate > 100)) {
+    return 'Every tax needs a name and a rate of at most 100%';
+  }
+  if ([pricing, ...items].some(discount => discount.discount_type === 'percent' && (discount.discount_value || 0) > 100)) {
+    return 'A percent discount cannot exceed 100';
+  }
+  return null;
+};
+
+const INTERVAL_OPTIONS: { value: RecurringInterval; label: string }[] = [
+  { value: 'week', label: 'Week(s)' },
+  { value: 'month', label: 'Month(s)' },
+  { value: 'quarter', label: 'Quarter(s)' },
+  { value: 'year', label: 'Year(s)' },
+];
+
+export const CreateRecurringInvoiceForm: React.FC<CreateRecurringInvoiceFormProps> = ({
+  onBack,
+  onProfileCreated,
+  sourceInvoice,
+  sourceItems,
+}) => {
+  const [name, setName] = useState(sourceInvoice ? `Recurring ${sourceInvoice.invoice_number}` : '');
+  const [selectedContactId, setSelectedContactId] = useState(sourceInvoice?.contact_id || '');
+  const [selectedTeamId, setSelectedTeamId] = useState(sourceInvoice?.team_id || '');
+  const [intervalUnit, setIntervalUnit] = useState<RecurringInterval>('month');
+  const [intervalCount, setIntervalCount] = useState(1);
+  const [startDate, setStartDate] = useState(toDateColumn(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [dueDays, setDueDays] = useState(14);
+  const [selectedCurrency, setSelectedCurrency] = useState(sourceInvoice?.currency || '');
+  const [notes, setNotes] = useState(sourceInvoice?.notes || '');
+  const [items, setItems] = useState<RecurringItemForm[]>(
+    sourceItems && sourceItems.length > 0
+      ? sourceItems.map(item => ({
+          product_id: item.product_id || undefined,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_type: item.discount_type,
+          discount_value: item.discount_value || 0,
+        }))
+      : [{ ...EMPTY_ITEM }]
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Discount and taxes use the invoice form's fields; only those values of the form are used
+  const pricingForm = useForm<InvoiceFormData>({
+    defaultValues: {
+      discount_type: sourceInvoice?.discount_type || null,
+      discount_value: sourceInvoice?.discount_value || 0,
+      prices_include_tax: !!sourceInvoice?.prices_include_tax,
+      taxes: sourceInvoice
+        ? getInvoiceTaxes(sourceInvoice).map(tax => ({ name: tax.name, rate: tax.rate, withholding: tax.withholding }))
+        : [],
+    },
+  });
+
+  const { createProfile } = useRecurringInvoices();
+  const { contacts, loading: contactsLoading } = useCachedContacts();
+  const { products } = useProductData();
+  const { teams } = useTeamData();
+  const { getReportingCurrency, getRate } = useExchangeRates();
+  const reportingCurrency = getReportingCurrency(selectedTeamId);
+  const currency = selectedCurrency || reportingCurrency;
+  const { formatCurrency } = useCurrency(currency);
+  // Generated invoices take the latest rate from the rate table, so one has to exist
+  const missingRate = !!selectedTeamId && getRate(selectedTeamId, currency) === null;
+
+  // Auto-select team if only one team exists
+  useEffect(() => {
+    if (teams.length === 1 && !selectedTeamId) {
+      setSelectedTeamId(teams[0].id);
+    }
+  }, [teams, selectedTeamId]);
+
+  const teamProducts = products.filter(product =>
+    (selectedTeamId ? product.team_id === selectedTeamId : true) && product.currency === currency
+  );
+
+  const addItem = () => {
+    setItems([...items, { ...EMPTY_ITEM }]);
+  };
+
+  const removeItem = (index: number) => {
+    if (items.length > 1) {
+      setItems(items.filter((_, i) => i !== index));
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<RecurringItemForm>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    if (productId === 'custom') {
+      updateItem(index, { product_id: undefined, description: '', unit_price: 0 });
+      return;
+    }
+
+    const product = products.find(p => p.id === productId);
+    if (product) {
+      updateItem(index, { product_id: productId, description: product.name, unit_price: product.price || 0 });
+    }
+  };
+
+  const discountType = pricingForm.watch('discount_type');
+  const discountValue = pricingForm.watch('discount_value');
+  const pricesIncludeTax = pricingForm.watch('prices_include_tax');
+  const taxes = toInvoiceTaxes(pricingForm.watch('taxes'));
+  const totals = calculateInvoiceTotals(items, {
+    discount_type: discountType,
+    discount_value: discountValue,
+    prices_include_tax: pricesIncludeTax,
+    taxes,
+  });
+
+  const pricingIssue = getPricingIssue(items, { discount_type: discountType, discount_value: discountValue, taxes });
+
+  // Preview of the schedule as it would be saved
+  const previewRuns = startDate && intervalCount > 0
+    ? getUpcomingRuns({
+        start_date: startDate,
+        end_date: endDate || null,
+        interval_unit: intervalUnit,
+        interval_count: intervalCount,
+        occurrence: 0,
+        status: 'active',
+      }, 3)
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !selectedContactId || !selectedTeamId || items.length === 0 || missingRate || pricingIssue) return;
+
+    setIsSubmitting(true);
+    try {
+      const request: CreateRecurringInvoiceRequest = {
+        name: name.trim(),
+        contact_id: selectedContactId,
+        team_id: selectedTeamId,
+        interval_unit: intervalUnit,
+        interval_count: intervalCount,
+        start_date: startDate,
+        end_date: endDate || undefined,
+        due_days: dueDays,
+        currency,
+        notes: notes || undefined,
+        discount_type: discountType,
+        discount_value: discountValue,
+        prices_include_tax: pricesIncludeTax,
+        taxes,
+        items: items.map(item => ({
+          product_id: item.product_id,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_type: item.discount_type,
+          discount_value: item.discount_value,
+        })),
+      };
+
+      const result = await createProfile(request);
+      if (result) {
+        onProfileCreated();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="outline" onClick={onBack}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back
+      </Button>
+      <h1 className="text-2xl font-bold">New Recurring Invoice</h1>
+    </div>
+  );
+
+  if (contactsLoading) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className="text-center py-8">Loading contacts...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {header}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Monthly retainer"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Team</label>
+                <Select value={selectedTeamId} onValueChange={setSelectedTeamId} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select team" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Contact</label>
+                <Select value={selectedContactId} onValueChange={setSelectedContactId} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select contact" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contacts.map(contact => (
+                      <SelectItem key={contact.id} value={contact.id}>
+                        {contact.name} - {contact.phone_number}
+                      </SelectItem>
+                    ))}
+                    {contacts.length === 0 && (
+                      <SelectItem value="no-contacts" disabled>
+                        No contacts available
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Repeat Every</label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={intervalCount}
+                    onChange={(e) => setIntervalCount(Math.max(1, Number(e.target.value)))}
+                    required
+                  />
+                  <Select value={intervalUnit} onValueChange={(value) => setIntervalUnit(value as RecurringInterval)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Payment Due (days after each run)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={dueDays}
+                  onChange={(e) => setDueDays(Math.max(0, Number(e.target.value)))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">First Invoice</label>
+                <Input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">End Date (Optional)</label>
+                <Input
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Currency</label>
+                <Select value={currency} onValueChange={setSelectedCurrency}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(option => (
+                      <SelectItem key={option.code} value={option.code}>
+                        {option.code} - {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {missingRate && (
+              <p className="text-sm text-red-600">
+                Add a {currency} to {reportingCurrency} rate under System Settings before scheduling invoices in {currency}.
+              </p>
+            )}
+
+            {previewRuns.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <CalendarClock className="h-4 w-4" />
+                {formatRecurringInterval(intervalUnit, intervalCount)}, next runs:
+                {previewRuns.map(run => (
+                  <Badge key={run.toISOString()} variant="outline">
+                    {format(run, 'MMM dd, yyyy')}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Invoice Items</CardTitle>
+              <Button type="button" onClick={addItem} variant="outline" size="sm">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {items.map((item, index) => (
+              <div key={index} className="border rounded-lg p-4 space-y-3">
+                <div className="flex justify-between items-start">
+                  <span className="text-sm font-medium">Item {index + 1}</span>
+                  {items.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeItem(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Product (Optional)</label>
+                    <Select
+                      value={item.product_id || 'custom'}
+                      onValueChange={(value) => selectProduct(index, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="custom">Custom Item</SelectItem>
+                        {teamProducts.map(product => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name} - {formatCurrency(product.price || 0, product.currency)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Description</label>
+                    <Input
+                      value={item.description}
+                      onChange={(e) => updateItem(index, { description: e.target.value })}
+                      placeholder="Item description"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Quantity</label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Unit Price</label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={item.unit_price}
+                      onChange={(e) => updateItem(index, { unit_price: Number(e.target.value) })}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Discount</label>
+                    <Select
+                      value={item.discount_type || NO_DISCOUNT}
+                      onValueChange={(value) => updateItem(index, {
+                        discount_type: value === NO_DISCOUNT ? null : value as DiscountType,
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_DISCOUNT}>No discount</SelectItem>
+                        <SelectItem value="percent">Percent (%)</SelectItem>
+                        <SelectItem value="fixed">Fixed amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Discount Value</label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={item.discount_type === 'percent' ? 100 : undefined}
+                      value={item.discount_value ?? 0}
+                      disabled={!item.discount_type}
+                      onChange={(e) => updateItem(index, { discount_value: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="md:col-span-2 flex items-end justify-end text-sm">
+                    Line total: <span className="ml-1 font-semibold">{formatCurrency(getLineTotal(item))}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="border-t pt-3 text-sm">
+              <p className="mb-2 font-medium">Per invoice</p>
+              <InvoiceTotalsBreakdown totals={totals} pricesIncludeTax={pricesIncludeTax} currency={currency} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Form {...pricingForm}>
+          <InvoiceTaxesCard control={pricingForm.control} />
+        </Form>
+
+        {pricingIssue && (
+          <p className="text-sm text-red-600">{pricingIssue}.</p>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Notes (Optional)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Printed on every generated invoice..."
+              rows={3}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex gap-4">
+          <Button type="submit" disabled={isSubmitting || !name.trim() || !selectedContactId || !selectedTeamId || missingRate || !!pricingIssue}>
+            {isSubmitting ? 'Creating...' : 'Create Schedule'}
+          </Button>
+          <Button type="button" variant="outline" onClick={onBack}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,332 @@
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowLeft, Edit, Plus, Trash2 } from 'lucide-react';
+import { useTeamData } from '@/hooks/useTeamData';
+import { DunningSequence, DunningStepDraft } from '@/types/dunning';
+import { MessageTemplateChannel, MessageTemplateSet } from '@/types/messageTemplate';
+
+interface DunningSequencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sequences: DunningSequence[];
+  templateSets: MessageTemplateSet[];
+  onSave: (sequenceId: string | null, values: { team_id: string; name: string }, steps: DunningStepDraft[]) => Promise<boolean>;
+  onDelete: (sequenceId: string) => Promise<boolean>;
+  onActivate: (sequence: DunningSequence) => Promise<boolean>;
+  onDeactivate: (sequenceId: string) => Promise<boolean>;
+}
+
+interface SequenceEditorState {
+  id: string | null;
+  team_id: string;
+  name: string;
+  steps: DunningStepDraft[];
+}
+
+const DEFAULT_STEPS: DunningStepDraft[] = [
+  { days_after_due: -3, channel: 'whatsapp', template_set_id: null },
+  { days_after_due: 1, channel: 'whatsapp', template_set_id: null },
+  { days_after_due: 7, channel: 'email', template_set_id: null },
+];
+
+/**
+ * Describes when a step fires relative to the due date
+ * @param days - Days after the due date; negative before it
+ * @returns Text such as "3 days before due" or "On the due date"
+ */
+const describeTiming = (days: number) => {
+  if (days === 0) return 'On the due date';
+  const count = Math.abs(days);
+  return `${count} ${count === 1 ? 'day' : 'days'} ${days < 0 ? 'before' : 'after'} due`;
+};
+
+export const DunningSequencesDialog: React.FC<DunningSequencesDialogProps> = ({
+  open,
+  onOpenChange,
+  sequences,
+  templateSets,
+  onSave,
+  onDelete,
+  onActivate,
+  onDeactivate,
+}) => {
+  const [editor, setEditor] = useState<SequenceEditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { teams, isTeamOwner } = useTeamData();
+
+  const ownedTeams = teams.filter(team => isTeamOwner(team.id));
+  const getTeamName = (teamId: string) => teams.find(team => team.id === teamId)?.name || 'Unknown team';
+  const getTemplateTitle = (templateSetId?: string | null) =>
+    templateSets.find(set => set.id === templateSetId)?.title;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setEditor(null);
+    onOpenChange(nextOpen);
+  };
+
+  const startNew = () => {
+    setEditor({
+      id: null,
+      team_id: ownedTeams[0]?.id || '',
+      name: 'Payment reminders',
+      steps: DEFAULT_STEPS,
+    });
+  };
+
+  const startEdit = (sequence: DunningSequence) => {
+    setEditor({
+      id: sequence.id,
+      team_id: sequence.team_id,
+      name: sequence.name,
+      steps: [...(sequence.dunning_steps || [])]
+        .sort((a, b) => a.position - b.position)
+        .map(step => ({
+          id: step.id,
+          days_after_due: step.days_after_due,
+          channel: step.channel,
+          template_set_id: step.template_set_id || null,
+        })),
+    });
+  };
+
+  const updateStep = (index: number, changes: Partial<DunningStepDraft>) => {
+    if (!editor) return;
+    setEditor({
+      ...editor,
+      steps: editor.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editor || !editor.name.trim() || !editor.team_id) return;
+
+    setSaving(true);
+    const saved = await onSave(
+      editor.id,
+      { team_id: editor.team_id, name: editor.name.trim() },
+      // Steps are kept in timing order
+      [...editor.steps].sort((a, b) => a.days_after_due - b.days_after_due)
+    );
+    setSaving(false);
+
+    if (saved) setEditor(null);
+  };
+
+  const stepsMissingTemplate = editor?.steps.some(step => !step.template_set_id) ?? false;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Payment Reminder Sequences</DialogTitle>
+          <DialogDescription>
+            Reminders of the active sequence show up in the reminder queue when they come due.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editor ? (
+          <div className="flex-1 min-h-0 flex flex-col gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <Input
+                  value={editor.name}
+                  onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                />
+              </div>
+              {!editor.id && ownedTeams.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Team</label>
+                  <Select value={editor.team_id} onValueChange={(value) => setEditor({ ...editor, team_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ownedTeams.map(team => (
+                        <SelectItem key={team.id} value={team.id}>
+                          {team.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 max-h-[45vh]">
+              <div className="space-y-3 pr-3">
+                {editor.steps.map((step, index) => {
+                  const channelSets = templateSets.filter(set => set.channel === step.channel);
+
+                  return (
+                    <div key={step.id || `new-${index}`} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium">
+                          Step {index + 1}
+                          <span className="ml-2 text-xs text-gray-500">{describeTiming(step.days_after_due)}</span>
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditor({ ...editor, steps: editor.steps.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Days after due (negative = before)</label>
+                          <Input
+                            type="number"
+                            value={step.days_after_due}
+                            onChange={(e) => updateStep(index, { days_after_due: Math.round(Number(e.target.value)) })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Channel</label>
+                          <Select
+                            value={step.channel}
+                            onValueChange={(value) => updateStep(index, {
+                              channel: value as MessageTemplateChannel,
+                              template_set_id: null,
+                            })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                              <SelectItem value="email">Email</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Template set</label>
+                          <Select
+                            value={step.template_set_id || ''}
+                            onValueChange={(value) => updateStep(index, { template_set_id: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select template" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {channelSets.map(set => (
+                                <SelectItem key={set.id} value={set.id}>
+                                  {set.title}
+                                </SelectItem>
+                              ))}
+                              {channelSets.length === 0 && (
+                                <SelectItem value="no-templates" disabled>
+                                  No {step.channel === 'email' ? 'email' : 'WhatsApp'} template sets
+                                </SelectItem>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditor({
+                    ...editor,
+                    steps: [...editor.steps, { days_after_due: 14, channel: 'whatsapp', template_set_id: null }],
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Step
+                </Button>
+              </div>
+            </ScrollArea>
+
+            {stepsMissingTemplate && (
+              <p className="text-xs text-orange-700">Every step needs a template set.</p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditor(null)} disabled={saving}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving || !editor.name.trim() || !editor.team_id || editor.steps.length === 0 || stepsMissingTemplate}
+              >
+                {saving ? 'Saving...' : 'Save Sequence'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sequences.length === 0 ? (
+              <div className="py-6 text-center text-gray-500">No reminder sequences yet.</div>
+            ) : (
+              sequences.map(sequence => {
+                const canManage = isTeamOwner(sequence.team_id);
+                const steps = [...(sequence.dunning_steps || [])].sort((a, b) => a.position - b.position);
+
+                return (
+                  <div key={sequence.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{sequence.name}</span>
+                          {sequence.is_active && <Badge>Active</Badge>}
+                        </div>
+                        {teams.length > 1 && (
+                          <div className="text-xs text-gray-500">{getTeamName(sequence.team_id)}</div>
+                        )}
+                      </div>
+                      {canManage && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => (sequence.is_active ? onDeactivate(sequence.id) : onActivate(sequence))}
+                          >
+                            {sequence.is_active ? 'Deactivate' : 'Set Active'}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => startEdit(sequence)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => onDelete(sequence.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {steps.map(step => (
+                        <Badge key={step.id} variant="outline" className="text-xs">
+                          {describeTiming(step.days_after_due)} · {step.channel === 'email' ? 'Email' : 'WhatsApp'}
+                          {getTemplateTitle(step.template_set_id) && ` · ${getTemplateTitle(step.template_set_id)}`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+
+            {ownedTeams.length > 0 && (
+              <Button onClick={startNew}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Sequence
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
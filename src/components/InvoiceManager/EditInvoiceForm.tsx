@@ -4,12 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Form } from '@/components/ui/form';
 import { useCachedContacts } from '@/hooks/useCachedContacts';
 import { useTeamData } from '@/hooks/useTeamData';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 import { Invoice, InvoiceItem } from '@/types/invoice';
 import { InvoiceFormHeader } from './InvoiceFormHeader';
 import { InvoiceDetailsCard } from './InvoiceDetailsCard';
 import { InvoiceSummaryCard } from './InvoiceSummaryCard';
 import { InvoiceItemsCard } from './InvoiceItemsCard';
 import { InvoiceNotesCard } from './InvoiceNotesCard';
+import { InvoiceTaxesCard } from './InvoiceTaxesCard';
 import { useInvoiceFormLogic } from './useInvoiceFormLogic';
 
 interface EditInvoiceFormProps {
@@ -27,6 +29,7 @@ export const EditInvoiceForm: React.FC<EditInvoiceFormProps> = ({
 }) => {
   const { contacts } = useCachedContacts();
   const { teams } = useTeamData();
+  const { getReportingCurrency, getRate } = useExchangeRates();
 
   const {
     form,
@@ -34,13 +37,14 @@ export const EditInvoiceForm: React.FC<EditInvoiceFormProps> = ({
     append,
     remove,
     isSubmitting,
-    subtotal,
-    taxAmount,
-    total,
-    watchedTaxRate,
+    totals,
+    watchedPricesIncludeTax,
+    watchedCurrency,
     onSubmit,
   } = useInvoiceFormLogic({ invoice, items, onInvoiceUpdated });
 
+  const watchedTeamId = form.watch('team_id');
+
   return (
     <div className="space-y-6">
       <InvoiceFormHeader 
@@ -55,13 +59,14 @@ export const EditInvoiceForm: React.FC<EditInvoiceFormProps> = ({
               control={form.control}
               contacts={contacts}
               teams={teams}
+              reportingCurrency={getReportingCurrency(watchedTeamId)}
+              latestRate={getRate(watchedTeamId, watchedCurrency)}
             />
 
             <InvoiceSummaryCard
-              subtotal={subtotal}
-              taxRate={watchedTaxRate}
-              taxAmount={taxAmount}
-              total={total}
+              totals={totals}
+              pricesIncludeTax={watchedPricesIncludeTax}
+              currency={watchedCurrency}
             />
           </div>
 
@@ -70,8 +75,12 @@ export const EditInvoiceForm: React.FC<EditInvoiceFormProps> = ({
             fields={fields}
             append={append}
             remove={remove}
+            showDiscounts
+            currency={watchedCurrency}
           />
 
+          <InvoiceTaxesCard control={form.control} />
+
           <InvoiceNotesCard control={form.control} />
 
           <div className="flex justify-end gap-3">
@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { Invoice } from '@/types/invoice';
+import { AgingBucketKey } from '@/types/dunning';
+import { getAgingBuckets } from '@/utils/invoiceAging';
+
+interface InvoiceAgingReportProps {
+  invoices: Invoice[];
+}
+
+const BUCKET_COLORS: Record<AgingBucketKey, string> = {
+  current: 'text-green-700',
+  '1-30': 'text-yellow-700',
+  '31-60': 'text-orange-700',
+  '61-90': 'text-red-600',
+  '90+': 'text-red-800',
+};
+
+export const InvoiceAgingReport: React.FC<InvoiceAgingReportProps> = ({ invoices }) => {
+  const { reportingCurrency, invoiceToReportingCurrency } = useExchangeRates();
+  const { formatCurrency } = useCurrency(reportingCurrency);
+  // Balances in a currency without a known rate can't be added up, so they're left out
+  const buckets = getAgingBuckets(
+    invoices,
+    new Date(),
+    (invoice, amount) => invoiceToReportingCurrency(invoice, amount) ?? 0
+  );
+  const totalOutstanding = buckets.reduce((sum, bucket) => sum + bucket.total, 0);
+
+  if (totalOutstanding === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-baseline">
+          <CardTitle className="text-base">Receivables Aging</CardTitle>
+          <span className="text-sm text-gray-500">
+            Outstanding: <span className="font-semibold text-gray-900">{formatCurrency(totalOutstanding)}</span>
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {buckets.map(bucket => (
+            <div key={bucket.key} className="rounded border p-3">
+              <div className="text-xs text-gray-500">{bucket.label}</div>
+              <div className={`font-semibold ${BUCKET_COLORS[bucket.key]}`}>{formatCurrency(bucket.total)}</div>
+              <div className="text-xs text-gray-500">
+                {bucket.count} {bucket.count === 1 ? 'invoice' : 'invoices'}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
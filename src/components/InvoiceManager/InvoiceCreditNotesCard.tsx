@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Ban, Download, FileMinus, Undo2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CreditNote, Invoice, RecordRefundRequest } from '@/types/invoice';
+import { getRefundDue, PAYMENT_METHOD_LABELS } from '@/utils/invoiceBalance';
+import { RecordRefundDialog } from './RecordRefundDialog';
+
+interface InvoiceCreditNotesCardProps {
+  invoice: Invoice;
+  creditNotes: CreditNote[];
+  canManage: boolean;
+  getUserNameById: (id: string) => string;
+  onDownload: (creditNote: CreditNote) => Promise<void>;
+  onVoid: (creditNote: CreditNote) => void;
+  onRecordRefund: (creditNote: CreditNote, request: RecordRefundRequest) => Promise<boolean>;
+}
+
+export const InvoiceCreditNotesCard: React.FC<InvoiceCreditNotesCardProps> = ({
+  invoice,
+  creditNotes,
+  canManage,
+  getUserNameById,
+  onDownload,
+  onVoid,
+  onRecordRefund,
+}) => {
+  const [refundCreditNote, setRefundCreditNote] = useState<CreditNote | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const { formatCurrency } = useCurrency(invoice.currency);
+
+  const refundDue = getRefundDue(invoice, creditNotes);
+
+  const handleDownload = async (creditNote: CreditNote) => {
+    setDownloadingId(creditNote.id);
+    try {
+      await onDownload(creditNote);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (creditNotes.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            Credit Notes
+          </CardTitle>
+          {refundDue > 0 && (
+            <Badge variant="destructive">Refund due: {formatCurrency(refundDue)}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {creditNotes.map(creditNote => {
+          const isVoid = creditNote.status === 'Void';
+
+          return (
+            <div key={creditNote.id} className="flex justify-between items-start p-3 border rounded">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`font-medium ${isVoid ? 'line-through text-gray-500' : ''}`}>
+                    {creditNote.credit_note_number}
+                  </span>
+                  <span className={isVoid ? 'text-gray-500' : 'text-red-600'}>
+                    -{formatCurrency(creditNote.total)}
+                  </span>
+                  {isVoid && <Badge variant="outline">Void</Badge>}
+                  {creditNote.refunded_at && <Badge variant="secondary">Refunded</Badge>}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {(creditNote.credit_note_items || [])
+                    .map(item => `${item.quantity} × ${item.description}`)
+                    .join(', ')}
+                </p>
+                {creditNote.reason && <p className="text-sm text-gray-600">{creditNote.reason}</p>}
+                {creditNote.refunded_at && (
+                  <p className="text-sm text-gray-600">
+                    {formatCurrency(creditNote.refund_amount)} refunded on {format(parseISO(creditNote.refunded_at), 'MMM dd, yyyy')}
+                    {creditNote.refund_method && ` · ${PAYMENT_METHOD_LABELS[creditNote.refund_method]}`}
+                    {creditNote.refund_reference && ` · Ref ${creditNote.refund_reference}`}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Issued {format(parseISO(creditNote.created_at), 'MMM dd, yyyy')} by {getUserNameById(creditNote.created_by)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDownload(creditNote)}
+                  disabled={downloadingId === creditNote.id}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canManage && !isVoid && refundDue > 0 && !creditNote.refunded_at && (
+                  <Button variant="outline" size="sm" onClick={() => setRefundCreditNote(creditNote)}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Refund
+                  </Button>
+                )}
+                {canManage && !isVoid && !creditNote.refunded_at && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Void Credit Note</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Void {creditNote.credit_note_number}? The credited {formatCurrency(creditNote.total)} is
+                          added back to the invoice balance. This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => onVoid(creditNote)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Void Credit Note
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <RecordRefundDialog
+        creditNote={refundCreditNote}
+        refundDue={refundDue}
+        currency={invoice.currency}
+        onOpenChange={(open) => !open && setRefundCreditNote(null)}
+        onRecord={onRecordRefund}
+      />
+    </Card>
+  );
+};
@@ -3,63 +3,105 @@ import { useInvoiceData } from '@/hooks/useInvoiceData';
 import { useCachedContacts } from '@/hooks/useCachedContacts';
 import { useUserData } from '@/hooks/useUserData';
 import { useTeamData } from '@/hooks/useTeamData';
+import { useCreditNotes } from '@/hooks/useCreditNotes';
 import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { AlertTriangle } from 'lucide-react';
-import { Invoice, InvoiceItem, InvoiceActivity } from '@/types/invoice';
+import { CreateCreditNoteRequest, CreditNote, Invoice, InvoiceItem, InvoiceActivity, InvoiceDocument, RecordRefundRequest } from '@/types/invoice';
+import { getCreditableQuantities } from '@/utils/invoiceBalance';
 import { EditInvoiceForm } from './EditInvoiceForm';
 import { InvoiceDetailHeader } from './InvoiceDetailHeader';
 import { InvoiceDetailActions } from './InvoiceDetailActions';
 import { InvoiceDetailInfo } from './InvoiceDetailInfo';
 import { InvoiceDetailItems } from './InvoiceDetailItems';
 import { InvoiceDetailActivities } from './InvoiceDetailActivities';
+import { InvoicePaymentsCard } from './InvoicePaymentsCard';
+import { InvoiceCreditNotesCard } from './InvoiceCreditNotesCard';
+import { CreateCreditNoteDialog } from './CreateCreditNoteDialog';
+import { InvoiceShareDialog } from './InvoiceShareDialog';
 import { useInvoicePDFGenerator } from './InvoiceDetailPDFGenerator';
+import { InvoicePDFPreview } from './InvoicePDFPreview';
 
 interface InvoiceDetailProps {
   invoice: Invoice;
   onBack: () => void;
   onInvoiceUpdated: () => void;
+  onInvoiceChanged: (invoice: Invoice) => void;
+  onMakeRecurring: (items: InvoiceItem[]) => void;
 }
 
 export const InvoiceDetail: React.FC<InvoiceDetailProps> = ({
   invoice,
   onBack,
   onInvoiceUpdated,
+  onInvoiceChanged,
+  onMakeRecurring,
 }) => {
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [activities, setActivities] = useState<InvoiceActivity[]>([]);
+  const [documents, setDocuments] = useState<InvoiceDocument[]>([]);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [showEditForm, setShowEditForm] = useState(false);
   const [isVoiding, setIsVoiding] = useState(false);
+  const [showCreditNoteDialog, setShowCreditNoteDialog] = useState(false);
+  const [showPDFPreview, setShowPDFPreview] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
   
-  const { updateInvoiceStatus, fetchInvoiceItems, fetchInvoiceActivities, isTeamOwner } = useInvoiceData();
+  const {
+    updateInvoiceStatus,
+    fetchInvoiceItems,
+    fetchInvoiceActivities,
+    fetchInvoiceDocuments,
+    downloadInvoiceDocument,
+    isTeamOwner,
+  } = useInvoiceData();
   const { contacts } = useCachedContacts();
   const { getUserNameById } = useUserData();
   const { teams } = useTeamData();
-  const { generatePDF } = useInvoicePDFGenerator();
+  const { generatePDF, generateCreditNotePDF, getTemplate } = useInvoicePDFGenerator();
+  const { creditNotes, createCreditNote, voidCreditNote, recordRefund } = useCreditNotes(invoice.id);
 
   const contact = contacts.find(c => c.id === invoice.contact_id);
   const company = teams.find(t => t.id === invoice.team_id);
-  const canEdit = isTeamOwner(invoice.team_id) && invoice.status !== 'Paid' && invoice.status !== 'Void';
+  // Credit notes point at the invoice's items, so credited invoices can't be edited anymore
+  const canEdit = isTeamOwner(invoice.team_id)
+    && invoice.status !== 'Paid'
+    && invoice.status !== 'Void'
+    && creditNotes.length === 0;
+  const canIssueCreditNote = isTeamOwner(invoice.team_id)
+    && invoice.status !== 'Draft'
+    && invoice.status !== 'Void'
+    && Object.values(getCreditableQuantities(items, creditNotes)).some(quantity => quantity > 0);
 
   useEffect(() => {
     const loadInvoiceData = async () => {
-      const [itemsData, activitiesData] = await Promise.all([
+      const [itemsData, activitiesData, documentsData] = await Promise.all([
         fetchInvoiceItems(invoice.id),
-        fetchInvoiceActivities(invoice.id)
+        fetchInvoiceActivities(invoice.id),
+        fetchInvoiceDocuments(invoice.id)
       ]);
       setItems(itemsData);
       setActivities(activitiesData);
+      setDocuments(documentsData);
     };
 
     loadInvoiceData();
-  }, [invoice.id, fetchInvoiceItems, fetchInvoiceActivities]);
+  }, [invoice.id, fetchInvoiceItems, fetchInvoiceActivities, fetchInvoiceDocuments]);
 
   const handleStatusUpdate = async (newStatus: string) => {
     setIsUpdatingStatus(true);
     try {
       const success = await updateInvoiceStatus(invoice.id, newStatus);
       if (success) {
+        // Sending archives a PDF copy, which shows up in the activity history
+        const [activitiesData, documentsData] = await Promise.all([
+          fetchInvoiceActivities(invoice.id),
+          fetchInvoiceDocuments(invoice.id)
+        ]);
+        setActivities(activitiesData);
+        setDocuments(documentsData);
         onInvoiceUpdated();
       }
     } finally {
@@ -79,6 +121,44 @@ export const InvoiceDetail: React.FC<InvoiceDetailProps> = ({
     }
   };
 
+  // Payments and credit notes change the balance and possibly the status, and add to the activity history
+  const handleBalanceChanged = async (updatedInvoice: Invoice) => {
+    onInvoiceChanged(updatedInvoice);
+    setActivities(await fetchInvoiceActivities(invoice.id));
+  };
+
+  const handleCreateCreditNote = async (request: CreateCreditNoteRequest) => {
+    const updatedInvoice = await createCreditNote(request);
+    if (updatedInvoice) {
+      await handleBalanceChanged(updatedInvoice);
+      return true;
+    }
+    return false;
+  };
+
+  const handleVoidCreditNote = async (creditNote: CreditNote) => {
+    const updatedInvoice = await voidCreditNote(creditNote);
+    if (updatedInvoice) {
+      await handleBalanceChanged(updatedInvoice);
+    }
+  };
+
+  const handleRecordRefund = async (creditNote: CreditNote, request: RecordRefundRequest) => {
+    const recorded = await recordRefund(creditNote, request);
+    if (recorded) {
+      setActivities(await fetchInvoiceActivities(invoice.id));
+    }
+    return recorded;
+  };
+
+  const handleDownloadCreditNote = async (creditNote: CreditNote) => {
+    try {
+      await generateCreditNotePDF({ creditNote, invoice, contact, company });
+    } catch (error) {
+      console.error('Error generating credit note PDF:', error);
+    }
+  };
+
   const handleEditComplete = () => {
     setShowEditForm(false);
     onInvoiceUpdated();
@@ -118,11 +198,17 @@ export const InvoiceDetail: React.FC<InvoiceDetailProps> = ({
         actionsElement={
           <InvoiceDetailActions
             canEdit={canEdit}
+            canMakeRecurring={isTeamOwner(invoice.team_id) && invoice.status !== 'Void'}
+            canIssueCreditNote={canIssueCreditNote}
             status={invoice.status}
             isDownloading={isDownloading}
             isVoiding={isVoiding}
             onDownloadPDF={handleDownloadPDF}
+            onPreviewPDF={() => setShowPDFPreview(true)}
+            onShare={() => setShowShareDialog(true)}
             onEdit={() => setShowEditForm(true)}
+            onMakeRecurring={() => onMakeRecurring(items)}
+            onIssueCreditNote={() => setShowCreditNoteDialog(true)}
             onVoidInvoice={handleVoidInvoice}
           />
         }
@@ -151,6 +237,24 @@ export const InvoiceDetail: React.FC<InvoiceDetailProps> = ({
         invoice={invoice}
       />
 
+      <InvoicePaymentsCard
+        invoice={invoice}
+        canRecordPayment={invoice.status !== 'Void'}
+        canDeletePayment={isTeamOwner(invoice.team_id)}
+        getUserNameById={getUserNameById}
+        onInvoiceChanged={handleBalanceChanged}
+      />
+
+      <InvoiceCreditNotesCard
+        invoice={invoice}
+        creditNotes={creditNotes}
+        canManage={isTeamOwner(invoice.team_id)}
+        getUserNameById={getUserNameById}
+        onDownload={handleDownloadCreditNote}
+        onVoid={handleVoidCreditNote}
+        onRecordRefund={handleRecordRefund}
+      />
+
       {invoice.notes && (
         <Card>
           <CardContent className="pt-6">
@@ -160,7 +264,47 @@ export const InvoiceDetail: React.FC<InvoiceDetailProps> = ({
         </Card>
       )}
 
-      <InvoiceDetailActivities activities={activities} />
+      <InvoiceDetailActivities
+        activities={activities}
+        documents={documents}
+        onDownloadDocument={downloadInvoiceDocument}
+      />
+
+      <CreateCreditNoteDialog
+        open={showCreditNoteDialog}
+        invoice={invoice}
+        items={items}
+        creditNotes={creditNotes}
+        onOpenChange={setShowCreditNoteDialog}
+        onCreate={handleCreateCreditNote}
+      />
+
+      <Dialog open={showPDFPreview} onOpenChange={setShowPDFPreview}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Invoice {invoice.invoice_number}</DialogTitle>
+          </DialogHeader>
+          <ScrollArea className="max-h-[75vh] bg-gray-100 rounded-lg">
+            <div className="p-4">
+              <InvoicePDFPreview
+                invoice={invoice}
+                items={items}
+                contact={contact}
+                company={company}
+                template={getTemplate(invoice.team_id)}
+              />
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {showShareDialog && (
+        <InvoiceShareDialog
+          invoice={invoice}
+          open={showShareDialog}
+          onOpenChange={setShowShareDialog}
+        />
+      )}
     </div>
   );
 };
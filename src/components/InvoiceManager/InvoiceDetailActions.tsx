@@ -19,25 +19,37 @@ import {
   AlertDialogTitle, 
   AlertDialogTrigger 
 } from '@/components/ui/alert-dialog';
-import { Download, Edit, AlertTriangle, MoreVertical } from 'lucide-react';
+import { Download, Edit, AlertTriangle, MoreVertical, Repeat, FileMinus, Eye, Link2 } from 'lucide-react';
 
 interface InvoiceDetailActionsProps {
   canEdit: boolean;
+  canMakeRecurring: boolean;
+  canIssueCreditNote: boolean;
   status: string;
   isDownloading: boolean;
   isVoiding: boolean;
   onDownloadPDF: () => void;
+  onPreviewPDF: () => void;
+  onShare: () => void;
   onEdit: () => void;
+  onMakeRecurring: () => void;
+  onIssueCreditNote: () => void;
   onVoidInvoice: () => void;
 }
 
 export const InvoiceDetailActions: React.FC<InvoiceDetailActionsProps> = ({
   canEdit,
+  canMakeRecurring,
+  canIssueCreditNote,
   status,
   isDownloading,
   isVoiding,
   onDownloadPDF,
+  onPreviewPDF,
+  onShare,
   onEdit,
+  onMakeRecurring,
+  onIssueCreditNote,
   onVoidInvoice,
 }) => {
   return (
@@ -56,6 +68,32 @@ export const InvoiceDetailActions: React.FC<InvoiceDetailActionsProps> = ({
           <Download className="h-4 w-4 mr-2" />
           {isDownloading ? 'Downloading...' : 'Download Invoice'}
         </DropdownMenuItem>
+
+        <DropdownMenuItem onClick={onPreviewPDF}>
+          <Eye className="h-4 w-4 mr-2" />
+          Preview PDF
+        </DropdownMenuItem>
+
+        {status !== 'Draft' && status !== 'Void' && (
+          <DropdownMenuItem onClick={onShare}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Share Link
+          </DropdownMenuItem>
+        )}
+
+        {canMakeRecurring && (
+          <DropdownMenuItem onClick={onMakeRecurring}>
+            <Repeat className="h-4 w-4 mr-2" />
+            Make Recurring
+          </DropdownMenuItem>
+        )}
+
+        {canIssueCreditNote && (
+          <DropdownMenuItem onClick={onIssueCreditNote}>
+            <FileMinus className="h-4 w-4 mr-2" />
+            Issue Credit Note
+          </DropdownMenuItem>
+        )}
         
         {canEdit && (
           <>
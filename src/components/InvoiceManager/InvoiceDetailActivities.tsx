@@ -1,15 +1,21 @@
 
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
-import { InvoiceActivity } from '@/types/invoice';
+import { FileDown } from 'lucide-react';
+import { InvoiceActivity, InvoiceDocument } from '@/types/invoice';
 
 interface InvoiceDetailActivitiesProps {
   activities: InvoiceActivity[];
+  documents: InvoiceDocument[];
+  onDownloadDocument: (document: InvoiceDocument) => void;
 }
 
 export const InvoiceDetailActivities: React.FC<InvoiceDetailActivitiesProps> = ({
   activities,
+  documents,
+  onDownloadDocument,
 }) => {
   return (
     <Card>
@@ -21,21 +27,36 @@ export const InvoiceDetailActivities: React.FC<InvoiceDetailActivitiesProps> = (
           <p className="text-gray-500">No activities logged yet</p>
         ) : (
           <div className="space-y-4">
-            {activities.map(activity => (
-              <div key={activity.id} className="border-l-2 border-gray-200 pl-4">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <h4 className="font-medium">{activity.activity_type}</h4>
-                    {activity.details && (
-                      <p className="text-gray-600 text-sm">{activity.details}</p>
-                    )}
+            {activities.map(activity => {
+              const document = documents.find(d => d.id === activity.document_id);
+
+              return (
+                <div key={activity.id} className="border-l-2 border-gray-200 pl-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h4 className="font-medium">{activity.activity_type}</h4>
+                      {activity.details && (
+                        <p className="text-gray-600 text-sm">{activity.details}</p>
+                      )}
+                      {document && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-blue-600"
+                          onClick={() => onDownloadDocument(document)}
+                        >
+                          <FileDown className="h-4 w-4 mr-1" />
+                          {document.invoice_number}-v{document.version}.pdf
+                        </Button>
+                      )}
+                    </div>
+                    <span className="text-sm text-gray-500">
+                      {format(new Date(activity.created_at), 'MMM dd, yyyy HH:mm')}
+                    </span>
                   </div>
-                  <span className="text-sm text-gray-500">
-                    {format(new Date(activity.created_at), 'MMM dd, yyyy HH:mm')}
-                  </span>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </CardContent>
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Calendar, User, Building } from 'lucide-react';
+import { Calendar, User, Building, Coins } from 'lucide-react';
 import { format } from 'date-fns';
 import { Invoice } from '@/types/invoice';
 import { Contact } from '@/types/contact';
@@ -39,6 +39,16 @@ export const InvoiceDetailInfo: React.FC<InvoiceDetailInfoProps> = ({
               <span>{format(new Date(invoice.due_date), 'MMM dd, yyyy')}</span>
             </div>
           )}
+          <div className="flex items-center gap-2">
+            <Coins className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-medium">Currency:</span>
+            <span>{invoice.currency}</span>
+            {invoice.reporting_currency !== invoice.currency && (
+              <span className="text-sm text-gray-500">
+                (1 {invoice.currency} = {invoice.exchange_rate} {invoice.reporting_currency} when issued)
+              </span>
+            )}
+          </div>
           <div className="flex items-center gap-2">
             <User className="h-4 w-4 text-gray-500" />
             <span className="text-sm font-medium">Created by:</span>
@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { useCurrency } from '@/hooks/useCurrency';
 import { InvoiceItem, Invoice } from '@/types/invoice';
+import { formatDiscount, getInvoiceTaxes } from '@/utils/invoiceTotals';
+import { InvoiceTotalsBreakdown } from './InvoiceTotalsBreakdown';
 
 interface InvoiceDetailItemsProps {
   items: InvoiceItem[];
@@ -14,7 +16,7 @@ export const InvoiceDetailItems: React.FC<InvoiceDetailItemsProps> = ({
   items,
   invoice,
 }) => {
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency } = useCurrency(invoice.currency);
 
   return (
     <Card>
@@ -23,39 +25,38 @@ export const InvoiceDetailItems: React.FC<InvoiceDetailItemsProps> = ({
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          {items.map((item) => (
-            <div key={item.id} className="flex justify-between items-center p-3 border rounded">
-              <div>
-                <h4 className="font-medium">{item.description}</h4>
-                <p className="text-sm text-gray-600">
-                  Quantity: {item.quantity} × {formatCurrency(item.unit_price)}
-                </p>
+          {items.map((item) => {
+            const discount = formatDiscount(item.discount_type, item.discount_value, formatCurrency);
+            return (
+              <div key={item.id} className="flex justify-between items-center p-3 border rounded">
+                <div>
+                  <h4 className="font-medium">{item.description}</h4>
+                  <p className="text-sm text-gray-600">
+                    Quantity: {item.quantity} × {formatCurrency(item.unit_price)}
+                    {discount && ` · Discount ${discount}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <span className="font-semibold">{formatCurrency(item.total_price)}</span>
+                </div>
               </div>
-              <div className="text-right">
-                <span className="font-semibold">{formatCurrency(item.total_price)}</span>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
         
         <Separator className="my-4" />
         
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <span>Subtotal:</span>
-            <span>{formatCurrency(invoice.subtotal)}</span>
-          </div>
-          {invoice.tax_rate && invoice.tax_rate > 0 && (
-            <div className="flex justify-between">
-              <span>Tax ({invoice.tax_rate}%):</span>
-              <span>{formatCurrency(invoice.tax_amount || 0)}</span>
-            </div>
-          )}
-          <div className="flex justify-between text-lg font-semibold border-t pt-2">
-            <span>Total:</span>
-            <span>{formatCurrency(invoice.total)}</span>
-          </div>
-        </div>
+        <InvoiceTotalsBreakdown
+          totals={{
+            itemsTotal: items.reduce((sum, item) => sum + item.total_price, 0),
+            discountAmount: invoice.discount_amount || 0,
+            subtotal: invoice.subtotal,
+            taxes: getInvoiceTaxes(invoice),
+            total: invoice.total,
+          }}
+          pricesIncludeTax={invoice.prices_include_tax}
+          currency={invoice.currency}
+        />
       </CardContent>
     </Card>
   );
@@ -1,11 +1,15 @@
 
 import { useCurrency } from '@/hooks/useCurrency';
-import { Invoice, InvoiceItem } from '@/types/invoice';
+import { useInvoiceTemplates } from '@/hooks/useInvoiceTemplates';
+import { CreditNote, Invoice, InvoiceItem } from '@/types/invoice';
+import { Quote } from '@/types/quote';
 import { Contact } from '@/types/contact';
 import { Team } from '@/types/team';
 import html2pdf from 'html2pdf.js';
 import { loadImageAsBase64 } from '@/utils/imageUtils';
 import { generateInvoicePDFTemplate } from './PDFTemplates/InvoicePDFTemplate';
+import { generateCreditNotePDFTemplate } from './PDFTemplates/CreditNotePDFTemplate';
+import { generateQuotePDFTemplate } from './PDFTemplates/QuotePDFTemplate';
 
 interface PDFGeneratorOptions {
   invoice: Invoice;
@@ -14,8 +18,40 @@ interface PDFGeneratorOptions {
   company: Team | undefined;
 }
 
+interface CreditNotePDFGeneratorOptions {
+  creditNote: CreditNote;
+  invoice: Invoice;
+  contact: Contact | undefined;
+  company: Team | undefined;
+}
+
+interface QuotePDFGeneratorOptions {
+  quote: Quote;
+  contact: Contact | undefined;
+  company: Team | undefined;
+}
+
+const getPDFOptions = (filename: string) => ({
+  margin: 0.5,
+  filename,
+  image: { type: 'jpeg', quality: 0.98 },
+  html2canvas: { 
+    scale: 2,
+    useCORS: true,
+    allowTaint: true,
+    logging: false
+  },
+  jsPDF: { 
+    unit: 'in', 
+    format: 'a4', 
+    orientation: 'portrait',
+    compress: true
+  }
+});
+
 export const useInvoicePDFGenerator = () => {
   const { formatCurrency } = useCurrency();
+  const { getTemplate } = useInvoiceTemplates();
 
   const generatePDF = async ({ invoice, items, contact, company }: PDFGeneratorOptions) => {
     console.log('Generating PDF for invoice:', invoice.invoice_number);
@@ -35,6 +71,10 @@ export const useInvoicePDFGenerator = () => {
       console.log('No logo URL found for company');
     }
 
+    // The team's template decides the layout, branding and language
+    const template = getTemplate(invoice.team_id);
+    const signatureBase64 = template.signature_url ? await loadImageAsBase64(template.signature_url) : null;
+
     // Create a temporary div element for the PDF content
     const element = document.createElement('div');
     element.innerHTML = generateInvoicePDFTemplate({
@@ -42,28 +82,14 @@ export const useInvoicePDFGenerator = () => {
       items,
       contact,
       company,
+      template,
       logoBase64,
-      formatCurrency
+      signatureBase64,
+      formatCurrency: (amount) => formatCurrency(amount, invoice.currency)
     });
 
     // Configure html2pdf options
-    const options = {
-      margin: 0.5,
-      filename: `Invoice-${invoice.invoice_number}.pdf`,
-      image: { type: 'jpeg', quality: 0.98 },
-      html2canvas: { 
-        scale: 2,
-        useCORS: true,
-        allowTaint: true,
-        logging: false
-      },
-      jsPDF: { 
-        unit: 'in', 
-        format: 'a4', 
-        orientation: 'portrait',
-        compress: true
-      }
-    };
+    const options = getPDFOptions(`Invoice-${invoice.invoice_number}.pdf`);
 
     console.log('Starting PDF generation with options:', options);
 
@@ -73,5 +99,38 @@ export const useInvoicePDFGenerator = () => {
     console.log('PDF generation completed');
   };
 
-  return { generatePDF };
+  const generateCreditNotePDF = async ({ creditNote, invoice, contact, company }: CreditNotePDFGeneratorOptions) => {
+    const logoBase64 = company?.logo_url ? await loadImageAsBase64(company.logo_url) : null;
+
+    const element = document.createElement('div');
+    element.innerHTML = generateCreditNotePDFTemplate({
+      creditNote,
+      items: creditNote.credit_note_items || [],
+      invoice,
+      contact,
+      company,
+      logoBase64,
+      formatCurrency: (amount) => formatCurrency(amount, invoice.currency)
+    });
+
+    await html2pdf().set(getPDFOptions(`CreditNote-${creditNote.credit_note_number}.pdf`)).from(element).save();
+  };
+
+  const generateQuotePDF = async ({ quote, contact, company }: QuotePDFGeneratorOptions) => {
+    const logoBase64 = company?.logo_url ? await loadImageAsBase64(company.logo_url) : null;
+
+    const element = document.createElement('div');
+    element.innerHTML = generateQuotePDFTemplate({
+      quote,
+      items: [...(quote.quote_items || [])].sort((a, b) => a.position - b.position),
+      contact,
+      company,
+      logoBase64,
+      formatCurrency: (amount) => formatCurrency(amount, quote.currency)
+    });
+
+    await html2pdf().set(getPDFOptions(`Quote-${quote.quote_number}.pdf`)).from(element).save();
+  };
+
+  return { generatePDF, generateCreditNotePDF, generateQuotePDF, getTemplate };
 };
@@ -1,10 +1,11 @@
 
 import React from 'react';
-import { Control } from 'react-hook-form';
+import { Control, useFormContext } from 'react-hook-form';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { CURRENCIES } from '@/utils/currencyUtils';
 import { InvoiceFormData } from './InvoiceFormSchema';
 import { Contact } from '@/types/contact';
 import { Team } from '@/types/team';
@@ -13,13 +14,22 @@ interface InvoiceDetailsCardProps {
   control: Control<InvoiceFormData>;
   contacts: Contact[];
   teams: Team[];
+  // Reporting currency of the selected team
+  reportingCurrency: string;
+  // Rate the database will snapshot when none is entered
+  latestRate: number | null;
 }
 
 export const InvoiceDetailsCard: React.FC<InvoiceDetailsCardProps> = ({
   control,
   contacts,
   teams,
+  reportingCurrency,
+  latestRate,
 }) => {
+  const { setValue, watch } = useFormContext<InvoiceFormData>();
+  const currency = watch('currency') || reportingCurrency;
+
   return (
     <Card>
       <CardHeader>
@@ -78,33 +88,73 @@ export const InvoiceDetailsCard: React.FC<InvoiceDetailsCardProps> = ({
 
         <FormField
           control={control}
-          name="due_date"
+          name="currency"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Due Date (Optional)</FormLabel>
-              <FormControl>
-                <Input type="date" {...field} />
-              </FormControl>
+              <FormLabel>Currency</FormLabel>
+              <Select
+                value={field.value || reportingCurrency}
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  // A rate entered for another currency no longer applies
+                  setValue('exchange_rate', undefined);
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CURRENCIES.map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code} - {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <FormMessage />
             </FormItem>
           )}
         />
 
+        {currency !== reportingCurrency && (
+          <FormField
+            control={control}
+            name="exchange_rate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Exchange Rate (1 {currency} in {reportingCurrency})</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    {...field}
+                    value={field.value ?? ''}
+                    placeholder={latestRate ? String(latestRate) : 'Enter a rate'}
+                    onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                  />
+                </FormControl>
+                <FormDescription>
+                  {latestRate
+                    ? 'Leave blank to use the latest rate from the rate table.'
+                    : `No ${currency} rate in the rate table yet, so one has to be entered.`}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={control}
-          name="tax_rate"
+          name="due_date"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Tax Rate (%)</FormLabel>
+              <FormLabel>Due Date (Optional)</FormLabel>
               <FormControl>
-                <Input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  max="100"
-                  {...field}
-                  onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                />
+                <Input type="date" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
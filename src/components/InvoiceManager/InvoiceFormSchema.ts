@@ -1,17 +1,41 @@
-
 import * as z from 'zod';
 
+const discountTypeSchema = z.enum(['percent', 'fixed']).nullable().optional();
+
+const isValidDiscount = (discount: { discount_type?: string | null; discount_value?: number }) =>
+  discount.discount_type !== 'percent' || (discount.discount_value || 0) <= 100;
+
+const discountMessage = { message: 'A percent discount cannot exceed 100', path: ['discount_value'] };
+
 export const invoiceSchema = z.object({
   contact_id: z.string().min(1, 'Contact is required'),
   team_id: z.string().min(1, 'Team is required'),
   due_date: z.string().optional(),
-  tax_rate: z.number().min(0).max(100).optional(),
+  // Blank means the team's reporting currency
+  currency: z.string().optional(),
+  // Blank means the latest rate in the team's rate table
+  exchange_rate: z.number().positive('Exchange rate must be positive').optional(),
   notes: z.string().optional(),
+  discount_type: discountTypeSchema,
+  discount_value: z.number().min(0, 'Discount must be non-negative').optional(),
+  prices_include_tax: z.boolean().optional(),
+  taxes: z.array(z.object({
+    name: z.string().min(1, 'Tax name is required'),
+    rate: z.number().min(0, 'Rate must be non-negative').max(100, 'Rate cannot exceed 100'),
+    withholding: z.boolean(),
+  })).optional(),
   items: z.array(z.object({
+    product_id: z.string().optional(),
     description: z.string().min(1, 'Description is required'),
     quantity: z.number().min(1, 'Quantity must be at least 1'),
     unit_price: z.number().min(0, 'Unit price must be non-negative'),
-  })).min(1, 'At least one item is required'),
-});
+    discount_type: discountTypeSchema,
+    discount_value: z.number().min(0, 'Discount must be non-negative').optional(),
+  }).refine(isValidDiscount, discountMessage)).min(1, 'At least one item is required'),
+}).refine(isValidDiscount, discountMessage);
 
 export type InvoiceFormData = z.infer<typeof invoiceSchema>;
+
+// Taxes as entered, in the shape the totals and the invoice hooks take
+export const toInvoiceTaxes = (taxes: InvoiceFormData['taxes'] = []) =>
+  taxes.map(tax => ({ name: tax.name, rate: tax.rate || 0, withholding: !!tax.withholding }));
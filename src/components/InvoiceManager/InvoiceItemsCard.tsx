@@ -1,11 +1,16 @@
 
 import React from 'react';
-import { Control, FieldArrayWithId, UseFieldArrayRemove, UseFieldArrayAppend } from 'react-hook-form';
+import { Control, FieldArrayWithId, UseFieldArrayRemove, UseFieldArrayAppend, useFormContext } from 'react-hook-form';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Plus, Trash2 } from 'lucide-react';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Product } from '@/types/product';
+import { DiscountType } from '@/types/invoice';
+import { getLineTotal } from '@/utils/invoiceTotals';
 import { InvoiceFormData } from './InvoiceFormSchema';
 
 interface InvoiceItemsCardProps {
@@ -13,19 +18,44 @@ interface InvoiceItemsCardProps {
   fields: FieldArrayWithId<InvoiceFormData, "items", "id">[];
   append: UseFieldArrayAppend<InvoiceFormData, "items">;
   remove: UseFieldArrayRemove;
+  title?: string;
+  // When given, each line can be picked from these products
+  products?: Product[];
+  showDiscounts?: boolean;
+  currency?: string;
 }
 
+const NO_DISCOUNT = 'none';
+
 export const InvoiceItemsCard: React.FC<InvoiceItemsCardProps> = ({
   control,
   fields,
   append,
   remove,
+  title = 'Invoice Items',
+  products,
+  showDiscounts = false,
+  currency,
 }) => {
+  const { setValue, watch } = useFormContext<InvoiceFormData>();
+  const { formatCurrency } = useCurrency(currency);
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products?.find(p => p.id === productId);
+    setValue(`items.${index}.product_id`, product?.id);
+    if (product) {
+      setValue(`items.${index}.description`, product.name);
+      setValue(`items.${index}.unit_price`, product.price || 0);
+    }
+  };
+
   const addItem = () => {
     append({
       description: '',
       quantity: 1,
       unit_price: 0,
+      discount_type: null,
+      discount_value: 0,
     });
   };
 
@@ -33,7 +63,7 @@ export const InvoiceItemsCard: React.FC<InvoiceItemsCardProps> = ({
     <Card>
       <CardHeader>
         <div className="flex justify-between items-center">
-          <CardTitle>Invoice Items</CardTitle>
+          <CardTitle>{title}</CardTitle>
           <Button type="button" onClick={addItem} variant="outline">
             <Plus className="h-4 w-4 mr-2" />
             Add Item
@@ -44,6 +74,37 @@ export const InvoiceItemsCard: React.FC<InvoiceItemsCardProps> = ({
         <div className="space-y-4">
           {fields.map((field, index) => (
             <div key={field.id} className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 border rounded">
+              {products && (
+                <div className="md:col-span-5">
+                  <FormField
+                    control={control}
+                    name={`items.${index}.product_id`}
+                    render={({ field: productField }) => (
+                      <FormItem>
+                        <FormLabel>Product (Optional)</FormLabel>
+                        <Select
+                          value={productField.value || 'custom'}
+                          onValueChange={(value) => selectProduct(index, value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select product" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="custom">Custom Item</SelectItem>
+                            {products.map(product => (
+                              <SelectItem key={product.id} value={product.id}>
+                                {product.name} - {formatCurrency(product.price || 0, product.currency)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
               <div className="md:col-span-2">
                 <FormField
                   control={control}
@@ -112,6 +173,64 @@ export const InvoiceItemsCard: React.FC<InvoiceItemsCardProps> = ({
                   <Trash2 className="h-4 w-4" />
                 </Button>
               </div>
+
+              {showDiscounts && (
+                <>
+                  <FormField
+                    control={control}
+                    name={`items.${index}.discount_type`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Discount</FormLabel>
+                        <Select
+                          value={field.value || NO_DISCOUNT}
+                          onValueChange={(value) =>
+                            field.onChange(value === NO_DISCOUNT ? null : value as DiscountType)
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_DISCOUNT}>No discount</SelectItem>
+                            <SelectItem value="percent">Percent (%)</SelectItem>
+                            <SelectItem value="fixed">Fixed amount</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={control}
+                    name={`items.${index}.discount_value`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Discount Value</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            {...field}
+                            value={field.value ?? 0}
+                            disabled={!watch(`items.${index}.discount_type`)}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="md:col-span-2 flex items-end justify-end pb-2 text-sm">
+                    Line total:&nbsp;
+                    <span className="font-semibold">{formatCurrency(getLineTotal(watch(`items.${index}`)))}</span>
+                  </div>
+                </>
+              )}
             </div>
           ))}
         </div>
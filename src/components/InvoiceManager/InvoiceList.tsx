@@ -4,31 +4,45 @@ import { useInvoiceData } from '@/hooks/useInvoiceData';
 import { useCachedContacts } from '@/hooks/useCachedContacts';
 import { useUserData } from '@/hooks/useUserData';
 import { useCurrency } from '@/hooks/useCurrency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Search, FileText, Calendar } from 'lucide-react';
+import { Plus, Search, FileText, Calendar, Repeat, ClipboardList, Palette } from 'lucide-react';
 import { Invoice } from '@/types/invoice';
 import { format } from 'date-fns';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ExportSheet } from '@/services/exportService';
+import { getInvoiceTaxes } from '@/utils/invoiceTotals';
+import { getOutstandingBalance, isPartiallyPaid } from '@/utils/invoiceBalance';
+import { InvoiceAgingReport } from './InvoiceAgingReport';
+import { InvoiceRemindersQueue } from './InvoiceRemindersQueue';
+import { InvoiceTemplateEditor } from './InvoiceTemplateEditor';
 
 interface InvoiceListProps {
   onSelectInvoice: (invoice: Invoice) => void;
   onCreateInvoice: () => void;
+  onShowRecurring: () => void;
+  onShowQuotes: () => void;
 }
 
 export const InvoiceList: React.FC<InvoiceListProps> = ({
   onSelectInvoice,
   onCreateInvoice,
+  onShowRecurring,
+  onShowQuotes,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
   
   const { invoices, loading } = useInvoiceData();
   const { contacts } = useCachedContacts();
   const { getUserNameById } = useUserData();
   const { formatCurrency } = useCurrency();
+  const { reportingCurrency, invoiceToReportingCurrency } = useExchangeRates();
 
   const getContactName = (contactId: string) => {
     const contact = contacts.find(c => c.id === contactId);
@@ -56,6 +70,66 @@ export const InvoiceList: React.FC<InvoiceListProps> = ({
     return matchesSearch && matchesStatus;
   });
 
+  // Exports follow the current search and status filters
+  const getExportSheets = (): ExportSheet<unknown>[] => {
+    // Totals across invoices add up their amounts in the reporting currency
+    const toReporting = (invoice: Invoice, amount: number) => invoiceToReportingCurrency(invoice, amount) ?? 0;
+
+    const statusTotals = new Map<string, { count: number; total: number }>();
+    filteredInvoices.forEach(invoice => {
+      const current = statusTotals.get(invoice.status) || { count: 0, total: 0 };
+      statusTotals.set(invoice.status, { count: current.count + 1, total: current.total + toReporting(invoice, invoice.total) });
+    });
+
+    // Credit notes are reported as negative revenue against the invoices they credit
+    const creditedInvoices = filteredInvoices.filter(invoice => (invoice.amount_credited || 0) > 0);
+    if (creditedInvoices.length > 0) {
+      statusTotals.set('Credit Notes', {
+        count: creditedInvoices.length,
+        total: -creditedInvoices.reduce((sum, invoice) => sum + toReporting(invoice, invoice.amount_credited || 0), 0),
+      });
+    }
+
+    const invoicesSheet: ExportSheet<Invoice> = {
+      name: 'Invoices',
+      rows: filteredInvoices,
+      columns: [
+        { header: 'Invoice Number', value: invoice => invoice.invoice_number, width: 18 },
+        { header: 'Contact', value: invoice => getContactName(invoice.contact_id), width: 24 },
+        { header: 'Status', value: invoice => invoice.status },
+        { header: 'Currency', value: invoice => invoice.currency },
+        // Kept as text, since rates such as IDR to USD need more decimals than the number format shows
+        { header: 'Exchange Rate', value: invoice => String(invoice.exchange_rate), width: 14 },
+        { header: 'Discount', value: invoice => -(invoice.discount_amount || 0), type: 'currency', width: 14 },
+        { header: 'Subtotal', value: invoice => invoice.subtotal, type: 'currency', width: 14 },
+        { header: 'Taxes', value: invoice => getInvoiceTaxes(invoice).map(tax => `${tax.name} ${tax.rate}%`).join(', '), width: 20 },
+        { header: 'Tax Rate (%)', value: invoice => invoice.tax_rate, type: 'number' },
+        { header: 'Tax Amount', value: invoice => invoice.tax_amount, type: 'currency', width: 14 },
+        { header: 'Total', value: invoice => invoice.total, type: 'currency', width: 14 },
+        { header: 'Amount Paid', value: invoice => invoice.amount_paid || 0, type: 'currency', width: 14 },
+        { header: 'Credited', value: invoice => -(invoice.amount_credited || 0), type: 'currency', width: 14 },
+        { header: 'Outstanding', value: invoice => getOutstandingBalance(invoice), type: 'currency', width: 14 },
+        { header: `Total (${reportingCurrency})`, value: invoice => invoiceToReportingCurrency(invoice, invoice.total), type: 'currency', width: 16 },
+        { header: 'Due Date', value: invoice => invoice.due_date, type: 'date' },
+        { header: 'Created At', value: invoice => invoice.created_at, type: 'datetime', width: 18 },
+        { header: 'Created By', value: invoice => getUserNameById(invoice.created_by), width: 20 },
+        { header: 'Notes', value: invoice => invoice.notes, width: 40 },
+      ]
+    };
+
+    const summarySheet: ExportSheet<[string, { count: number; total: number }]> = {
+      name: 'By Status',
+      rows: Array.from(statusTotals.entries()),
+      columns: [
+        { header: 'Status', value: ([status]) => status },
+        { header: 'Invoices', value: ([, totals]) => totals.count, type: 'number' },
+        { header: `Total (${reportingCurrency})`, value: ([, totals]) => totals.total, type: 'currency', width: 16 },
+      ]
+    };
+
+    return [invoicesSheet, summarySheet];
+  };
+
   if (loading) {
     return (
       <div className="p-4 text-center">
@@ -68,12 +142,35 @@ export const InvoiceList: React.FC<InvoiceListProps> = ({
     <div className="space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
         <h1 className="text-2xl font-bold">Invoices</h1>
-        <Button onClick={onCreateInvoice}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Invoice
-        </Button>
+        <div className="flex gap-2">
+          <ExportMenu
+            fileName="invoices"
+            getSheets={getExportSheets}
+            disabled={filteredInvoices.length === 0}
+          />
+          <Button variant="outline" onClick={() => setShowTemplateEditor(true)}>
+            <Palette className="h-4 w-4 mr-2" />
+            PDF Template
+          </Button>
+          <Button variant="outline" onClick={onShowQuotes}>
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Quotes
+          </Button>
+          <Button variant="outline" onClick={onShowRecurring}>
+            <Repeat className="h-4 w-4 mr-2" />
+            Recurring
+          </Button>
+          <Button onClick={onCreateInvoice}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Invoice
+          </Button>
+        </div>
       </div>
 
+      <InvoiceAgingReport invoices={invoices} />
+      <InvoiceRemindersQueue invoices={invoices} contacts={contacts} />
+      <InvoiceTemplateEditor open={showTemplateEditor} onOpenChange={setShowTemplateEditor} />
+
       {/* Search and Filters */}
       <div className="flex flex-col gap-3 sm:flex-row">
         <div className="relative flex-1">
@@ -117,6 +214,9 @@ export const InvoiceList: React.FC<InvoiceListProps> = ({
                     <Badge className={getStatusColor(invoice.status)}>
                       {invoice.status}
                     </Badge>
+                    {invoice.recurring_profile_id && (
+                      <Repeat className="h-3 w-3 text-gray-400" aria-label="Recurring" />
+                    )}
                   </div>
                   <p className="text-gray-600">{getContactName(invoice.contact_id)}</p>
                   <div className="flex items-center gap-4 text-sm text-gray-500">
@@ -134,8 +234,18 @@ export const InvoiceList: React.FC<InvoiceListProps> = ({
                 </div>
                 <div className="text-right space-y-1">
                   <div className="text-lg font-semibold">
-                    {formatCurrency(invoice.total)}
+                    {formatCurrency(invoice.total, invoice.currency)}
                   </div>
+                  {isPartiallyPaid(invoice) && (
+                    <p className="text-sm text-orange-600">
+                      Balance: {formatCurrency(getOutstandingBalance(invoice), invoice.currency)}
+                    </p>
+                  )}
+                  {(invoice.amount_credited || 0) > 0 && (
+                    <p className="text-sm text-red-600">
+                      Credited: -{formatCurrency(invoice.amount_credited || 0, invoice.currency)}
+                    </p>
+                  )}
                   <p className="text-sm text-gray-500">
                     Created by {getUserNameById(invoice.created_by)}
                   </p>
@@ -3,11 +3,40 @@ import React, { useState } from 'react';
 import { InvoiceList } from './InvoiceList';
 import { InvoiceDetail } from './InvoiceDetail';
 import { CreateInvoiceForm } from './CreateInvoiceForm';
-import { Invoice } from '@/types/invoice';
+import { RecurringInvoiceList } from './RecurringInvoiceList';
+import { CreateRecurringInvoiceForm } from './CreateRecurringInvoiceForm';
+import { QuoteList } from './QuoteList';
+import { QuoteDetail } from './QuoteDetail';
+import { CreateQuoteForm } from './CreateQuoteForm';
+import { Invoice, InvoiceItem } from '@/types/invoice';
+import { Quote } from '@/types/quote';
+
+type RecurringView =
+  | { view: 'list' }
+  | { view: 'create'; sourceInvoice?: Invoice; sourceItems?: InvoiceItem[] };
+
+type QuoteView =
+  | { view: 'list' }
+  | { view: 'create' }
+  | { view: 'detail'; quote: Quote };
+
+// The deal param only opens the form once; leaving the form drops it so it isn't pre-filled again
+const clearDealParam = () => {
+  const url = new URL(window.location.href);
+  if (url.searchParams.has('deal')) {
+    url.searchParams.delete('deal');
+    window.history.replaceState(window.history.state, '', url.toString());
+  }
+};
 
 export const InvoiceManager: React.FC = () => {
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
-  const [showCreateForm, setShowCreateForm] = useState(false);
+  // Won deals link here to be invoiced, which opens the form straight away
+  const [showCreateForm, setShowCreateForm] = useState(
+    () => new URLSearchParams(window.location.search).has('deal')
+  );
+  const [recurringView, setRecurringView] = useState<RecurringView | null>(null);
+  const [quoteView, setQuoteView] = useState<QuoteView | null>(null);
 
   const handleInvoiceSelect = (invoice: Invoice) => {
     setSelectedInvoice(invoice);
@@ -15,8 +44,11 @@ export const InvoiceManager: React.FC = () => {
   };
 
   const handleBackToList = () => {
+    clearDealParam();
     setSelectedInvoice(null);
     setShowCreateForm(false);
+    setRecurringView(null);
+    setQuoteView(null);
   };
 
   const handleCreateInvoice = () => {
@@ -25,9 +57,70 @@ export const InvoiceManager: React.FC = () => {
   };
 
   const handleInvoiceCreated = () => {
+    clearDealParam();
     setShowCreateForm(false);
   };
 
+  const handleMakeRecurring = (invoice: Invoice, items: InvoiceItem[]) => {
+    setSelectedInvoice(null);
+    setRecurringView({ view: 'create', sourceInvoice: invoice, sourceItems: items });
+  };
+
+  // An accepted quote opens the draft invoice it was converted into
+  const handleOpenQuoteInvoice = (invoice: Invoice) => {
+    setQuoteView(null);
+    handleInvoiceSelect(invoice);
+  };
+
+  if (quoteView?.view === 'create') {
+    return (
+      <CreateQuoteForm
+        onBack={() => setQuoteView({ view: 'list' })}
+        onQuoteCreated={(quote) => setQuoteView({ view: 'detail', quote })}
+      />
+    );
+  }
+
+  if (quoteView?.view === 'detail') {
+    return (
+      <QuoteDetail
+        quote={quoteView.quote}
+        onBack={() => setQuoteView({ view: 'list' })}
+        onOpenInvoice={handleOpenQuoteInvoice}
+      />
+    );
+  }
+
+  if (quoteView?.view === 'list') {
+    return (
+      <QuoteList
+        onBack={handleBackToList}
+        onCreateQuote={() => setQuoteView({ view: 'create' })}
+        onSelectQuote={(quote) => setQuoteView({ view: 'detail', quote })}
+      />
+    );
+  }
+
+  if (recurringView?.view === 'create') {
+    return (
+      <CreateRecurringInvoiceForm
+        sourceInvoice={recurringView.sourceInvoice}
+        sourceItems={recurringView.sourceItems}
+        onBack={() => setRecurringView({ view: 'list' })}
+        onProfileCreated={() => setRecurringView({ view: 'list' })}
+      />
+    );
+  }
+
+  if (recurringView?.view === 'list') {
+    return (
+      <RecurringInvoiceList
+        onBack={handleBackToList}
+        onCreateProfile={() => setRecurringView({ view: 'create' })}
+      />
+    );
+  }
+
   if (showCreateForm) {
     return (
       <CreateInvoiceForm
@@ -43,6 +136,8 @@ export const InvoiceManager: React.FC = () => {
         invoice={selectedInvoice}
         onBack={handleBackToList}
         onInvoiceUpdated={handleBackToList}
+        onInvoiceChanged={setSelectedInvoice}
+        onMakeRecurring={(items) => handleMakeRecurring(selectedInvoice, items)}
       />
     );
   }
@@ -51,6 +146,8 @@ export const InvoiceManager: React.FC = () => {
     <InvoiceList
       onSelectInvoice={handleInvoiceSelect}
       onCreateInvoice={handleCreateInvoice}
+      onShowRecurring={() => setRecurringView({ view: 'list' })}
+      onShowQuotes={() => setQuoteView({ view: 'list' })}
     />
   );
 };
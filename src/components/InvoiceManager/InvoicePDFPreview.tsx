@@ -0,0 +1,40 @@
+import React from 'react';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Invoice, InvoiceItem } from '@/types/invoice';
+import { InvoiceTemplateSettings } from '@/types/invoiceTemplate';
+import { Contact } from '@/types/contact';
+import { Team } from '@/types/team';
+import { generateInvoicePDFTemplate } from './PDFTemplates/InvoicePDFTemplate';
+
+interface InvoicePDFPreviewProps {
+  invoice: Invoice;
+  items: InvoiceItem[];
+  contact: Contact | undefined;
+  company: Team | undefined;
+  template: InvoiceTemplateSettings;
+}
+
+/**
+ * Live preview of an invoice PDF with a template, as it will be downloaded
+ * Images are shown from their URLs; the download embeds them as base64
+ */
+export const InvoicePDFPreview: React.FC<InvoicePDFPreviewProps> = ({ invoice, items, contact, company, template }) => {
+  const { formatCurrency } = useCurrency();
+
+  const html = generateInvoicePDFTemplate({
+    invoice,
+    items,
+    contact,
+    company,
+    template,
+    logoBase64: company?.logo_url || null,
+    signatureBase64: template.signature_url || null,
+    formatCurrency: (amount) => formatCurrency(amount, invoice.currency)
+  });
+
+  return (
+    <div className="border rounded-lg bg-white shadow-sm overflow-hidden">
+      <div dangerouslySetInnerHTML={{ __html: html }} />
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useInvoicePayments } from '@/hooks/useInvoicePayments';
+import { Invoice, RecordPaymentRequest } from '@/types/invoice';
+import { getOutstandingBalance, PAYMENT_METHOD_LABELS } from '@/utils/invoiceBalance';
+import { RecordPaymentDialog } from './RecordPaymentDialog';
+
+interface InvoicePaymentsCardProps {
+  invoice: Invoice;
+  canRecordPayment: boolean;
+  canDeletePayment: boolean;
+  getUserNameById: (id: string) => string;
+  onInvoiceChanged: (invoice: Invoice) => void;
+}
+
+export const InvoicePaymentsCard: React.FC<InvoicePaymentsCardProps> = ({
+  invoice,
+  canRecordPayment,
+  canDeletePayment,
+  getUserNameById,
+  onInvoiceChanged,
+}) => {
+  const [showRecordDialog, setShowRecordDialog] = useState(false);
+  const { payments, loading, recordPayment, deletePayment } = useInvoicePayments(invoice.id);
+  const { formatCurrency } = useCurrency(invoice.currency);
+
+  const amountPaid = invoice.amount_paid || 0;
+  const amountCredited = invoice.amount_credited || 0;
+  const outstandingBalance = getOutstandingBalance(invoice);
+  const paidPercentage = invoice.total > 0 ? Math.min(((amountPaid + amountCredited) / invoice.total) * 100, 100) : 0;
+
+  const handleRecord = async (request: RecordPaymentRequest) => {
+    const updatedInvoice = await recordPayment(request);
+    if (updatedInvoice) {
+      onInvoiceChanged(updatedInvoice);
+      return true;
+    }
+    return false;
+  };
+
+  const handleDelete = async (paymentId: string) => {
+    const updatedInvoice = await deletePayment(paymentId);
+    if (updatedInvoice) {
+      onInvoiceChanged(updatedInvoice);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Payments
+          </CardTitle>
+          {canRecordPayment && outstandingBalance > 0 && (
+            <Button size="sm" onClick={() => setShowRecordDialog(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Record Payment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>Paid:</span>
+            <span>{formatCurrency(amountPaid)} of {formatCurrency(invoice.total)}</span>
+          </div>
+          {amountCredited > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Credited:</span>
+              <span>{formatCurrency(amountCredited)}</span>
+            </div>
+          )}
+          <Progress value={paidPercentage} />
+          <div className="flex justify-between font-semibold">
+            <span>Outstanding Balance:</span>
+            <span className={outstandingBalance > 0 ? 'text-red-600' : 'text-green-600'}>
+              {formatCurrency(outstandingBalance)}
+            </span>
+          </div>
+        </div>
+
+        <Separator />
+
+        {loading ? (
+          <p className="text-gray-500">Loading payments...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-gray-500">No payments recorded yet</p>
+        ) : (
+          <div className="space-y-3">
+            {payments.map(payment => (
+              <div key={payment.id} className="flex justify-between items-start p-3 border rounded">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                    <Badge variant="outline">{PAYMENT_METHOD_LABELS[payment.method] || payment.method}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {format(parseISO(payment.paid_at), 'MMM dd, yyyy')}
+                    {payment.reference && ` · Ref ${payment.reference}`}
+                  </p>
+                  {payment.notes && <p className="text-sm text-gray-600">{payment.notes}</p>}
+                  <p className="text-xs text-gray-500">Recorded by {getUserNameById(payment.recorded_by)}</p>
+                </div>
+                {canDeletePayment && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove Payment</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Remove the payment of {formatCurrency(payment.amount)}? The outstanding balance
+                          will increase and a paid invoice goes back to Sent.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDelete(payment.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <RecordPaymentDialog
+        open={showRecordDialog}
+        outstandingBalance={outstandingBalance}
+        currency={invoice.currency}
+        onOpenChange={setShowRecordDialog}
+        onRecord={handleRecord}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,134 @@
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BellRing, Mail, MessageCircle, Settings } from 'lucide-react';
+import { format } from 'date-fns';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useDunning } from '@/hooks/useDunning';
+import { useMessageTemplateSets } from '@/hooks/useMessageTemplateSets';
+import { Contact } from '@/types/contact';
+import { DueInvoiceReminder } from '@/types/dunning';
+import { Invoice } from '@/types/invoice';
+import { getDueReminders } from '@/utils/invoiceAging';
+import { getOutstandingBalance } from '@/utils/invoiceBalance';
+import { DunningSequencesDialog } from './DunningSequencesDialog';
+import { SendReminderDialog } from './SendReminderDialog';
+
+interface InvoiceRemindersQueueProps {
+  invoices: Invoice[];
+  contacts: Contact[];
+}
+
+/**
+ * Payment reminders that have come due under each team's active sequence
+ */
+export const InvoiceRemindersQueue: React.FC<InvoiceRemindersQueueProps> = ({
+  invoices,
+  contacts,
+}) => {
+  const [showSequences, setShowSequences] = useState(false);
+  const [selectedReminder, setSelectedReminder] = useState<DueInvoiceReminder | null>(null);
+  const {
+    sequences,
+    reminders,
+    loading,
+    saveSequence,
+    deleteSequence,
+    activateSequence,
+    deactivateSequence,
+    recordReminder,
+  } = useDunning();
+  const { templateSets } = useMessageTemplateSets();
+  const { formatCurrency } = useCurrency();
+
+  const dueReminders = getDueReminders(invoices, sequences, reminders);
+  const getContact = (contactId: string) => contacts.find(contact => contact.id === contactId);
+
+  const handleSent = (reminder: DueInvoiceReminder, templateVariationId?: string) =>
+    recordReminder({
+      invoice: reminder.invoice,
+      step_id: reminder.step.id,
+      step_number: reminder.stepNumber,
+      channel: reminder.step.channel,
+      template_set_id: reminder.step.template_set_id || undefined,
+      template_variation_id: templateVariationId,
+    });
+
+  if (loading) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-base flex items-center gap-2">
+            <BellRing className="h-4 w-4" />
+            Payment Reminders
+            {dueReminders.length > 0 && <Badge variant="destructive">{dueReminders.length} due</Badge>}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setShowSequences(true)}>
+            <Settings className="h-4 w-4 mr-1" />
+            Sequences
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sequences.every(sequence => !sequence.is_active) ? (
+          <p className="text-sm text-gray-500">
+            No active reminder sequence. Set one up to get reminders for invoices nearing or past their due date.
+          </p>
+        ) : dueReminders.length === 0 ? (
+          <p className="text-sm text-gray-500">No reminders due today.</p>
+        ) : (
+          <div className="space-y-2">
+            {dueReminders.map(reminder => (
+              <div
+                key={`${reminder.invoice.id}:${reminder.step.id}`}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 border rounded p-2"
+              >
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {reminder.invoice.invoice_number} · {getContact(reminder.invoice.contact_id)?.name || 'Unknown Contact'}
+                  </div>
+                  <div className="text-gray-500">
+                    {formatCurrency(getOutstandingBalance(reminder.invoice), reminder.invoice.currency)} outstanding ·{' '}
+                    {reminder.daysOverdue > 0
+                      ? `${reminder.daysOverdue} days overdue`
+                      : `due ${format(new Date(reminder.invoice.due_date as string), 'MMM dd, yyyy')}`}
+                    {' '}· Step {reminder.stepNumber}
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setSelectedReminder(reminder)}>
+                  {reminder.step.channel === 'email'
+                    ? <Mail className="h-4 w-4 mr-1" />
+                    : <MessageCircle className="h-4 w-4 mr-1" />}
+                  Send
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <SendReminderDialog
+        reminder={selectedReminder}
+        contact={selectedReminder ? getContact(selectedReminder.invoice.contact_id) : undefined}
+        templateSet={templateSets.find(set => set.id === selectedReminder?.step.template_set_id)}
+        onOpenChange={(open) => !open && setSelectedReminder(null)}
+        onSent={handleSent}
+      />
+
+      <DunningSequencesDialog
+        open={showSequences}
+        onOpenChange={setShowSequences}
+        sequences={sequences}
+        templateSets={templateSets}
+        onSave={saveSequence}
+        onDelete={deleteSequence}
+        onActivate={activateSequence}
+        onDeactivate={deactivateSequence}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,118 @@
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Link2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { useInvoiceShareLinks } from '@/hooks/useInvoiceShareLinks';
+import { Invoice } from '@/types/invoice';
+import { DEFAULT_SHARE_LINK_DAYS, getInvoiceShareUrl, isShareLinkActive } from '@/utils/invoiceShareLinks';
+
+interface InvoiceShareDialogProps {
+  invoice: Invoice;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Creates, copies and revokes the public link of an invoice
+ * The {{invoice_link}} template variable reuses the same active link
+ */
+export const InvoiceShareDialog: React.FC<InvoiceShareDialogProps> = ({ invoice, open, onOpenChange }) => {
+  const { links, loading, createLink, revokeLink } = useInvoiceShareLinks(invoice.id);
+  const [validDays, setValidDays] = useState(String(DEFAULT_SHARE_LINK_DAYS));
+  const [creating, setCreating] = useState(false);
+
+  const activeLink = links.find(link => isShareLinkActive(link));
+  const canShare = invoice.status !== 'Draft' && invoice.status !== 'Void';
+  const days = Number(validDays);
+  const daysValid = Number.isInteger(days) && days >= 1 && days <= 365;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    await createLink(days);
+    setCreating(false);
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: 'Copied',
+        description: 'Invoice link copied to clipboard',
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Invoice {invoice.invoice_number}</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view the invoice until it expires. The invoice is marked Viewed
+            the first time the contact opens it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!canShare ? (
+          <p className="text-sm text-gray-600">{invoice.status} invoices cannot be shared.</p>
+        ) : loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : activeLink ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={getInvoiceShareUrl(activeLink.token)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={() => handleCopy(getInvoiceShareUrl(activeLink.token))}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>Expires {format(new Date(activeLink.expires_at), 'MMM dd, yyyy')}</span>
+              {activeLink.first_viewed_at ? (
+                <Badge variant="secondary">
+                  Viewed {activeLink.view_count}x, first {format(new Date(activeLink.first_viewed_at), 'MMM dd, HH:mm')}
+                </Badge>
+              ) : (
+                <Badge variant="outline">Not opened yet</Badge>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Valid for (days)</label>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={validDays}
+              onChange={(e) => setValidDays(e.target.value)}
+            />
+            {!daysValid && (
+              <p className="text-sm text-red-600">Enter a number of days between 1 and 365.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {activeLink && (
+            <Button variant="outline" className="text-red-600" onClick={() => revokeLink(activeLink.id)}>
+              Revoke Link
+            </Button>
+          )}
+          {canShare && !loading && !activeLink && (
+            <Button onClick={handleCreate} disabled={!daysValid || creating}>
+              <Link2 className="h-4 w-4 mr-2" />
+              {creating ? 'Creating...' : 'Create Link'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,185 @@
+
+import React from 'react';
+import { Control, useFieldArray, useWatch } from 'react-hook-form';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Plus, Trash2 } from 'lucide-react';
+import { DiscountType } from '@/types/invoice';
+import { InvoiceFormData } from './InvoiceFormSchema';
+
+interface InvoiceTaxesCardProps {
+  control: Control<InvoiceFormData>;
+}
+
+const NO_DISCOUNT = 'none';
+
+/**
+ * Invoice discount, tax-inclusive pricing and the list of named taxes
+ */
+export const InvoiceTaxesCard: React.FC<InvoiceTaxesCardProps> = ({ control }) => {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'taxes',
+  });
+  const discountType = useWatch({ control, name: 'discount_type' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Discounts &amp; Taxes</CardTitle>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => append({ name: '', rate: 0, withholding: false })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tax
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={control}
+            name="discount_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Invoice Discount</FormLabel>
+                <Select
+                  value={field.value || NO_DISCOUNT}
+                  onValueChange={(value) => field.onChange(value === NO_DISCOUNT ? null : value as DiscountType)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_DISCOUNT}>No discount</SelectItem>
+                    <SelectItem value="percent">Percent (%)</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name="discount_value"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Discount Value</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    {...field}
+                    value={field.value ?? 0}
+                    disabled={!discountType}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name="prices_include_tax"
+            render={({ field }) => (
+              <FormItem className="flex flex-col justify-end">
+                <div className="flex items-center gap-2 h-10">
+                  <FormControl>
+                    <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="!mt-0">Prices include tax</FormLabel>
+                </div>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {fields.map((field, index) => (
+          <div key={field.id} className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 border rounded">
+            <div className="md:col-span-2">
+              <FormField
+                control={control}
+                name={`taxes.${index}.name`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="PPN" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={control}
+              name={`taxes.${index}.rate`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rate (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      {...field}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name={`taxes.${index}.withholding`}
+              render={({ field }) => (
+                <FormItem className="flex flex-col justify-end">
+                  <div className="flex items-center gap-2 h-10">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="!mt-0">Withholding</FormLabel>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex items-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => remove(index)}
+                className="w-full"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {fields.length === 0 && (
+          <p className="text-sm text-gray-500">No taxes. Add one for each tax on this invoice, e.g. VAT plus a withholding tax.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
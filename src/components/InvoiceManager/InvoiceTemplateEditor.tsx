@@ -0,0 +1,327 @@
+
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Upload, X } from 'lucide-react';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useInvoiceTemplates } from '@/hooks/useInvoiceTemplates';
+import { Invoice, InvoiceItem } from '@/types/invoice';
+import { Contact } from '@/types/contact';
+import { InvoiceTemplateLanguage, InvoiceTemplateLayout, InvoiceTemplateSettings } from '@/types/invoiceTemplate';
+import { INVOICE_TEMPLATE_LANGUAGES, INVOICE_TEMPLATE_LAYOUTS, isHexColor } from '@/utils/invoiceTemplate';
+import { InvoicePDFPreview } from './InvoicePDFPreview';
+
+interface InvoiceTemplateEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SAMPLE_CONTACT = {
+  id: 'sample',
+  name: 'Budi Santoso',
+  company: 'PT Maju Bersama',
+  address: 'Jl. Sudirman No. 1, Jakarta',
+  phone_number: '+6281234567890',
+  email: 'budi@example.com',
+} as Contact;
+
+const SAMPLE_ITEMS = [
+  { id: 'sample-1', description: 'Website redesign', quantity: 1, unit_price: 1500, total_price: 1500 },
+  { id: 'sample-2', description: 'Monthly maintenance', quantity: 3, unit_price: 200, discount_type: 'percent', discount_value: 10, total_price: 540 },
+] as InvoiceItem[];
+
+/**
+ * Builds the invoice shown in the preview, in the currency the team reports in
+ */
+const getSampleInvoice = (teamId: string, currency: string): Invoice => {
+  const today = new Date();
+  const dueDate = new Date(today.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+  return {
+    id: 'sample',
+    invoice_number: 'INV-0001',
+    contact_id: SAMPLE_CONTACT.id,
+    team_id: teamId,
+    created_by: '',
+    status: 'Sent',
+    subtotal: 2040,
+    tax_rate: 11,
+    tax_amount: 224.4,
+    taxes: [{ name: 'VAT', rate: 11, withholding: false, amount: 224.4 }],
+    total: 2264.4,
+    currency,
+    exchange_rate: 1,
+    reporting_currency: currency,
+    due_date: dueDate.toISOString(),
+    notes: 'Work covers the period agreed in the proposal.',
+    created_at: today.toISOString(),
+    updated_at: today.toISOString(),
+  };
+};
+
+export const InvoiceTemplateEditor: React.FC<InvoiceTemplateEditorProps> = ({ open, onOpenChange }) => {
+  const { teams, isTeamOwner } = useTeamData();
+  const { loading, getTemplate, saveTemplate, uploadSignature } = useInvoiceTemplates();
+  const [teamId, setTeamId] = useState('');
+  // Unsaved changes per team; a team without changes shows its saved template
+  const [drafts, setDrafts] = useState<Record<string, InvoiceTemplateSettings>>({});
+  const [saving, setSaving] = useState(false);
+  const [uploadingSignature, setUploadingSignature] = useState(false);
+
+  const ownedTeams = teams.filter(team => isTeamOwner(team.id));
+  const company = teams.find(team => team.id === teamId);
+
+  useEffect(() => {
+    if (open && !teamId && ownedTeams.length > 0) {
+      setTeamId(ownedTeams[0].id);
+    }
+  }, [open, teamId, ownedTeams]);
+
+  const draft = teamId && !loading ? drafts[teamId] || getTemplate(teamId) : null;
+
+  const updateDraft = (changes: Partial<InvoiceTemplateSettings>) => {
+    if (!draft) return;
+    setDrafts(prev => ({ ...prev, [teamId]: { ...draft, ...changes } }));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDrafts({});
+    onOpenChange(nextOpen);
+  };
+
+  const handleSignatureUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !teamId) return;
+
+    setUploadingSignature(true);
+    const url = await uploadSignature(teamId, file);
+    setUploadingSignature(false);
+
+    if (url) updateDraft({ signature_url: url });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !teamId) return;
+
+    setSaving(true);
+    const saved = await saveTemplate(teamId, draft);
+    setSaving(false);
+
+    if (saved) handleOpenChange(false);
+  };
+
+  const colorsValid = !!draft && isHexColor(draft.primary_color) && isHexColor(draft.accent_color);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Invoice PDF Template</DialogTitle>
+          <DialogDescription>
+            Downloaded invoices of the team use this layout, branding and language.
+          </DialogDescription>
+        </DialogHeader>
+
+        {ownedTeams.length === 0 ? (
+          <p className="text-sm text-gray-600">Only team owners can change the invoice template.</p>
+        ) : draft && (
+          <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[340px_1fr] gap-6">
+            <ScrollArea className="max-h-[65vh]">
+              <div className="space-y-4 pr-3">
+                {ownedTeams.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Team</label>
+                    <Select value={teamId} onValueChange={setTeamId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ownedTeams.map(team => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Layout</label>
+                  <Select
+                    value={draft.layout}
+                    onValueChange={(value) => updateDraft({ layout: value as InvoiceTemplateLayout })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INVOICE_TEMPLATE_LAYOUTS.map(layout => (
+                        <SelectItem key={layout.value} value={layout.value}>
+                          {layout.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {INVOICE_TEMPLATE_LAYOUTS.find(layout => layout.value === draft.layout)?.description}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Language</label>
+                  <Select
+                    value={draft.language}
+                    onValueChange={(value) => updateDraft({ language: value as InvoiceTemplateLanguage })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INVOICE_TEMPLATE_LANGUAGES.map(language => (
+                        <SelectItem key={language.value} value={language.value}>
+                          {language.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Brand Colour</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="color"
+                        value={isHexColor(draft.primary_color) ? draft.primary_color : '#000000'}
+                        onChange={(e) => updateDraft({ primary_color: e.target.value })}
+                        className="h-10 w-10 rounded border cursor-pointer"
+                      />
+                      <Input
+                        value={draft.primary_color}
+                        onChange={(e) => updateDraft({ primary_color: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Accent Colour</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="color"
+                        value={isHexColor(draft.accent_color) ? draft.accent_color : '#000000'}
+                        onChange={(e) => updateDraft({ accent_color: e.target.value })}
+                        className="h-10 w-10 rounded border cursor-pointer"
+                      />
+                      <Input
+                        value={draft.accent_color}
+                        onChange={(e) => updateDraft({ accent_color: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                </div>
+                {!colorsValid && (
+                  <p className="text-sm text-red-600">Colours must be hex colours such as #2563eb.</p>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Header Text</label>
+                  <Textarea
+                    rows={2}
+                    value={draft.header_text || ''}
+                    onChange={(e) => updateDraft({ header_text: e.target.value })}
+                    placeholder="Printed below the company details"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Payment Instructions</label>
+                  <Textarea
+                    rows={3}
+                    value={draft.payment_instructions || ''}
+                    onChange={(e) => updateDraft({ payment_instructions: e.target.value })}
+                    placeholder="Printed with the team's bank details"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Footer Text</label>
+                  <Textarea
+                    rows={2}
+                    value={draft.footer_text || ''}
+                    onChange={(e) => updateDraft({ footer_text: e.target.value })}
+                    placeholder="Thank you for your business!"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Signature or Stamp</label>
+                  {draft.signature_url ? (
+                    <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg border">
+                      <img
+                        src={draft.signature_url}
+                        alt="Signature"
+                        className="h-12 w-24 object-contain rounded border bg-white"
+                      />
+                      <span className="flex-1 text-sm text-gray-600">Printed above the signature line</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateDraft({ signature_url: null })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <label className="flex items-center gap-2 text-sm text-blue-600 cursor-pointer">
+                      <Upload className="h-4 w-4" />
+                      {uploadingSignature ? 'Uploading...' : 'Upload image'}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={handleSignatureUpload}
+                        disabled={uploadingSignature}
+                      />
+                    </label>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Supported formats: JPEG, PNG, GIF, WebP. Max size: 5MB
+                  </p>
+                </div>
+              </div>
+            </ScrollArea>
+
+            <ScrollArea className="max-h-[65vh] bg-gray-100 rounded-lg">
+              <div className="p-4">
+                <InvoicePDFPreview
+                  invoice={getSampleInvoice(teamId, company?.reporting_currency || 'USD')}
+                  items={SAMPLE_ITEMS}
+                  contact={SAMPLE_CONTACT}
+                  company={company}
+                  template={draft}
+                />
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {ownedTeams.length > 0 && (
+            <Button onClick={handleSave} disabled={!draft || !colorsValid || saving || uploadingSignature}>
+              {saving ? 'Saving...' : 'Save Template'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
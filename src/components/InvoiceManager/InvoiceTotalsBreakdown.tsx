@@ -0,0 +1,55 @@
+
+import React from 'react';
+import { useCurrency } from '@/hooks/useCurrency';
+import { InvoiceTotals } from '@/utils/invoiceTotals';
+
+interface InvoiceTotalsBreakdownProps {
+  totals: Pick<InvoiceTotals, 'itemsTotal' | 'discountAmount' | 'subtotal' | 'taxes' | 'total'>;
+  pricesIncludeTax?: boolean;
+  currency?: string;
+}
+
+/**
+ * Summary rows of an invoice: discount, taxable subtotal, each tax and the total
+ */
+export const InvoiceTotalsBreakdown: React.FC<InvoiceTotalsBreakdownProps> = ({
+  totals,
+  pricesIncludeTax = false,
+  currency,
+}) => {
+  const { formatCurrency } = useCurrency(currency);
+
+  return (
+    <div className="space-y-2">
+      {totals.discountAmount > 0 && (
+        <>
+          <div className="flex justify-between">
+            <span>Items:</span>
+            <span>{formatCurrency(totals.itemsTotal)}</span>
+          </div>
+          <div className="flex justify-between text-green-700">
+            <span>Discount:</span>
+            <span>-{formatCurrency(totals.discountAmount)}</span>
+          </div>
+        </>
+      )}
+      <div className="flex justify-between">
+        <span>Subtotal{pricesIncludeTax ? ' (excl. tax)' : ''}:</span>
+        <span>{formatCurrency(totals.subtotal)}</span>
+      </div>
+      {totals.taxes.map((tax, index) => (
+        <div key={`${tax.name}-${index}`} className="flex justify-between">
+          <span>{tax.name} ({tax.rate}%){tax.withholding ? ' withheld' : ''}:</span>
+          <span>{tax.withholding ? '-' : ''}{formatCurrency(tax.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-lg font-semibold border-t pt-2">
+        <span>Total:</span>
+        <span>{formatCurrency(totals.total)}</span>
+      </div>
+      {pricesIncludeTax && totals.taxes.some(tax => !tax.withholding) && (
+        <p className="text-xs text-gray-500">Prices include tax</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+
+import { CreditNote, CreditNoteItem, Invoice } from '@/types/invoice';
+import { Contact } from '@/types/contact';
+import { Team } from '@/types/team';
+import { format } from 'date-fns';
+import { escapeHtml, formatTemplateText } from '@/utils/invoiceTemplate';
+
+interface TemplateData {
+  creditNote: CreditNote;
+  items: CreditNoteItem[];
+  invoice: Invoice;
+  contact: Contact | undefined;
+  company: Team | undefined;
+  logoBase64: string | null;
+  formatCurrency: (amount: number | null) => string;
+}
+
+export const generateCreditNotePDFTemplate = ({
+  creditNote,
+  items,
+  invoice,
+  contact,
+  company,
+  logoBase64,
+  formatCurrency
+}: TemplateData): string => {
+  // Credited amounts are shown as negatives against the original invoice
+  const formatCredit = (amount: number) => `-${formatCurrency(amount)}`;
+
+  return `
+    <div style="font-family: 'Arial', sans-serif; padding: 30px; max-width: 800px; margin: 0 auto; background: white; color: #333;">
+      <!-- Header Section -->
+      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 25px; border-bottom: 3px solid #dc2626; padding-bottom: 20px;">
+        <div style="flex: 1;">
+          <div style="display: flex; align-items: center; gap: 15px; margin-bottom: 10px;">
+            ${logoBase64 ? `
+              <div style="flex-shrink: 0;">
+                <img src="${escapeHtml(logoBase64)}" alt="Company Logo" style="max-height: 50px; max-width: 70px; object-fit: contain;">
+              </div>
+            ` : ''}
+            <div>
+              <h1 style="color: #1f2937; margin: 0; font-size: 22px; font-weight: bold;">${escapeHtml(company?.company_legal_name || company?.name || 'Company Name')}</h1>
+            </div>
+          </div>
+
+          <div style="color: #6b7280; font-size: 11px; line-height: 1.4; margin-left: 0;">
+            ${company?.company_address ? `<div>${formatTemplateText(company.company_address)}</div>` : ''}
+            ${company?.city ? `<div>${escapeHtml(company.city)}${company.state ? `, ${escapeHtml(company.state)}` : ''} ${escapeHtml(company.postal_code || '')}</div>` : ''}
+            ${company?.country ? `<div>${escapeHtml(company.country)}</div>` : ''}
+            ${company?.company_phone ? `<div>Phone: ${escapeHtml(company.company_phone)}</div>` : ''}
+            ${company?.company_email ? `<div>Email: ${escapeHtml(company.company_email)}</div>` : ''}
+            ${company?.tax_id ? `<div>Tax ID: ${escapeHtml(company.tax_id)}</div>` : ''}
+          </div>
+        </div>
+
+        <!-- Credit Note Title & Number -->
+        <div style="text-align: right; flex-shrink: 0;">
+          <h2 style="color: #dc2626; margin: 0 0 8px 0; font-size: 32px; font-weight: bold;">CREDIT NOTE</h2>
+          <div style="background: #f3f4f6; padding: 12px; border-radius: 6px; min-width: 180px;">
+            <div style="font-size: 13px; color: #6b7280; margin-bottom: 4px;">Credit Note Number</div>
+            <div style="font-size: 16px; font-weight: bold; color: #1f2937;">${escapeHtml(creditNote.credit_note_number)}</div>
+          </div>
+        </div>
+      </div>
+
+      <!-- Credit Note Details -->
+      <div style="display: flex; justify-content: space-between; margin-bottom: 25px;">
+        <div style="flex: 1; margin-right: 30px;">
+          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Credit To</h3>
+          <div style="background: #f9fafb; padding: 15px; border-radius: 6px; border-left: 4px solid #dc2626;">
+            <div style="font-weight: bold; font-size: 15px; color: #1f2937; margin-bottom: 6px;">${escapeHtml(contact?.name || 'N/A')}</div>
+            ${contact?.company ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${escapeHtml(contact.company)}</div>` : ''}
+            ${contact?.address ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${formatTemplateText(contact.address)}</div>` : ''}
+            ${contact?.email ? `<div style="color: #6b7280; font-size: 13px;">${escapeHtml(contact.email)}</div>` : ''}
+          </div>
+        </div>
+
+        <div style="flex: 0 0 200px;">
+          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Details</h3>
+          <div style="background: #f9fafb; padding: 15px; border-radius: 6px;">
+            <div style="display: flex; justify-content: space-between; margin-bottom: 6px;">
+              <span style="color: #6b7280; font-size: 13px;">Issued:</span>
+              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${format(new Date(creditNote.created_at), 'MMM dd, yyyy')}</span>
+            </div>
+            <div style="display: flex; justify-content: space-between; margin-bottom: 6px;">
+              <span style="color: #6b7280; font-size: 13px;">Invoice:</span>
+              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${escapeHtml(invoice.invoice_number)}</span>
+            </div>
+            <div style="display: flex; justify-content: space-between;">
+              <span style="color: #6b7280; font-size: 13px;">Status:</span>
+              <span style="color: ${creditNote.status === 'Void' ? '#dc2626' : '#059669'}; font-weight: 500; background: ${creditNote.status === 'Void' ? '#fee2e2' : '#d1fae5'}; padding: 2px 6px; border-radius: 3px; font-size: 11px;">${escapeHtml(creditNote.status)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      ${creditNote.reason ? `
+        <!-- Reason Section -->
+        <div style="margin-bottom: 25px;">
+          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Reason</h3>
+          <div style="background: #f9fafb; padding: 15px; border-radius: 6px;">
+            <p style="margin: 0; color: #374151; line-height: 1.5; font-size: 13px;">${formatTemplateText(creditNote.reason)}</p>
+          </div>
+        </div>
+      ` : ''}
+
+      <!-- Items Table -->
+      <div style="margin-bottom: 25px;">
+        <h3 style="color: #1f2937; margin: 0 0 15px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Credited Items</h3>
+        <table style="width: 100%; border-collapse: collapse; box-shadow: 0 1px 3px rgba(0,0,0,0.1); border-radius: 6px; overflow: hidden;">
+          <thead>
+            <tr style="background: linear-gradient(135deg, #dc2626 0%, #b91c1c 100%); color: white;">
+              <th style="padding: 12px; text-align: left; font-weight: 600; font-size: 13px;">Description</th>
+              <th style="padding: 12px; text-align: center; font-weight: 600; font-size: 13px; width: 70px;">Qty</th>
+              <th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 100px;">Unit Price</th>
+              <th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 100px;">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${items.map((item, index) => `
+              <tr style="background: ${index % 2 === 0 ? '#ffffff' : '#f9fafb'}; border-bottom: 1px solid #e5e7eb;">
+                <td style="padding: 10px 12px; color: #1f2937; font-size: 13px;">${escapeHtml(item.description)}</td>
+                <td style="padding: 10px 12px; text-align: center; color: #6b7280; font-size: 13px;">${escapeHtml(item.quantity)}</td>
+                <td style="padding: 10px 12px; text-align: right; color: #6b7280; font-size: 13px;">${formatCurrency(item.unit_price)}</td>
+                <td style="padding: 10px 12px; text-align: right; color: #1f2937; font-weight: 600; font-size: 13px;">${formatCredit(item.total_price)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+
+      <!-- Summary Section -->
+      <div style="display: flex; justify-content: flex-end; margin-bottom: 25px;">
+        <div style="width: 280px; background: #f9fafb; padding: 20px; border-radius: 6px; border-left: 4px solid #dc2626;">
+          <div style="display: flex; justify-content: space-between; margin-bottom: 8px; padding-bottom: 6px;">
+            <span style="color: #6b7280; font-size: 13px;">Subtotal:</span>
+            <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${formatCredit(creditNote.subtotal)}</span>
+          </div>
+          ${creditNote.tax_rate && creditNote.tax_rate > 0 ? `
+            <div style="display: flex; justify-content: space-between; margin-bottom: 8px; padding-bottom: 6px;">
+              <span style="color: #6b7280; font-size: 13px;">Tax (${escapeHtml(creditNote.tax_rate)}%):</span>
+              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${formatCredit(creditNote.tax_amount || 0)}</span>
+            </div>
+          ` : ''}
+          <div style="border-top: 2px solid #e5e7eb; padding-top: 12px; margin-top: 12px;">
+            <div style="display: flex; justify-content: space-between;">
+              <span style="color: #1f2937; font-weight: bold; font-size: 16px;">Total Credit:</span>
+              <span style="color: #dc2626; font-weight: bold; font-size: 18px;">${formatCredit(creditNote.total)}</span>
+            </div>
+          </div>
+          ${creditNote.refunded_at ? `
+            <div style="display: flex; justify-content: space-between; margin-top: 8px;">
+              <span style="color: #6b7280; font-size: 13px;">Refunded ${format(new Date(creditNote.refunded_at), 'MMM dd, yyyy')}:</span>
+              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${formatCurrency(creditNote.refund_amount)}</span>
+            </div>
+          ` : ''}
+        </div>
+      </div>
+
+      <!-- Footer -->
+      <div style="text-align: center; padding-top: 20px; border-top: 2px solid #e5e7eb; color: #6b7280; font-size: 11px;">
+        <p style="margin: 0;">This credit note reduces the amount due on invoice ${escapeHtml(invoice.invoice_number)}.</p>
+        <p style="margin: 3px 0 0 0;">This credit note was generated on ${format(new Date(), 'MMM dd, yyyy')} at ${format(new Date(), 'HH:mm')}</p>
+      </div>
+    </div>
+  `;
+};
@@ -2,96 +2,218 @@
 import { Invoice, InvoiceItem } from '@/types/invoice';
 import { Contact } from '@/types/contact';
 import { Team } from '@/types/team';
+import { InvoiceTemplateSettings } from '@/types/invoiceTemplate';
 import { format } from 'date-fns';
+import { formatDiscount, getInvoiceTaxes } from '@/utils/invoiceTotals';
+import { escapeHtml, formatTemplateText, getInvoicePDFLabels, getInvoicePDFLocale, InvoicePDFLabels } from '@/utils/invoiceTemplate';
 
 interface TemplateData {
   invoice: Invoice;
   items: InvoiceItem[];
   contact: Contact | undefined;
   company: Team | undefined;
+  template: InvoiceTemplateSettings;
   logoBase64: string | null;
+  signatureBase64: string | null;
   formatCurrency: (amount: number | null) => string;
 }
 
-export const generateInvoicePDFTemplate = ({
-  invoice,
-  items,
-  contact,
-  company,
-  logoBase64,
-  formatCurrency
-}: TemplateData): string => {
-  return `
-    <div style="font-family: 'Arial', sans-serif; padding: 30px; max-width: 800px; margin: 0 auto; background: white; color: #333;">
-      <!-- Header Section -->
-      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 25px; border-bottom: 3px solid #2563eb; padding-bottom: 20px;">
-        <!-- Company Info with Logo and Name Side by Side, Additional Info Below -->
+// Colours and box styles that differ between layouts
+interface LayoutStyle {
+  titleColor: string;
+  boxStyle: string;
+  tableHeaderStyle: string;
+  totalColor: string;
+  footerBorder: string;
+}
+
+/**
+ * Turns a hex colour into an rgba() colour, for light tints of the brand colours
+ * @param hex - Six-digit hex colour
+ * @param alpha - Opacity between 0 and 1
+ */
+const tint = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+const getLayoutStyle = ({ layout, primary_color }: InvoiceTemplateSettings): LayoutStyle => {
+  switch (layout) {
+    case 'modern':
+      return {
+        titleColor: '#ffffff',
+        boxStyle: `background: ${tint(primary_color, 0.06)}; padding: 15px; border-radius: 8px; border-top: 3px solid ${primary_color};`,
+        tableHeaderStyle: `background: ${primary_color}; color: white;`,
+        totalColor: primary_color,
+        footerBorder: `3px solid ${primary_color}`,
+      };
+    case 'minimal':
+      return {
+        titleColor: '#111827',
+        boxStyle: 'padding: 0 0 10px 0;',
+        tableHeaderStyle: 'background: white; color: #111827; border-bottom: 2px solid #111827;',
+        totalColor: '#111827',
+        footerBorder: '1px solid #d1d5db',
+      };
+    default:
+      return {
+        titleColor: primary_color,
+        boxStyle: `background: #f9fafb; padding: 15px; border-radius: 6px; border-left: 4px solid ${primary_color};`,
+        tableHeaderStyle: `background: ${primary_color}; color: white;`,
+        totalColor: primary_color,
+        footerBorder: '2px solid #e5e7eb',
+      };
+  }
+};
+
+const sectionTitle = (title: string) => `
+  <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">${title}</h3>
+`;
+
+const companyDetails = (company: Team | undefined, labels: InvoicePDFLabels, color: string) => `
+  <div style="color: ${color}; font-size: 11px; line-height: 1.4;">
+    ${company?.company_address ? `<div>${formatTemplateText(company.company_address)}</div>` : ''}
+    ${company?.city ? `<div>${escapeHtml(company.city)}${company.state ? `, ${escapeHtml(company.state)}` : ''} ${escapeHtml(company.postal_code || '')}</div>` : ''}
+    ${company?.country ? `<div>${escapeHtml(company.country)}</div>` : ''}
+    ${company?.company_phone ? `<div>${labels.phone}: ${escapeHtml(company.company_phone)}</div>` : ''}
+    ${company?.company_email ? `<div>${labels.email}: ${escapeHtml(company.company_email)}</div>` : ''}
+    ${company?.website ? `<div>${labels.website}: ${escapeHtml(company.website)}</div>` : ''}
+    ${company?.tax_id ? `<div>${labels.taxId}: ${escapeHtml(company.tax_id)}</div>` : ''}
+  </div>
+`;
+
+const companyName = (company: Team | undefined, logoBase64: string | null, color: string) => `
+  <div style="display: flex; align-items: center; gap: 15px; margin-bottom: 10px;">
+    ${logoBase64 ? `
+      <div style="flex-shrink: 0;">
+        <img src="${escapeHtml(logoBase64)}" alt="Company Logo" style="max-height: 50px; max-width: 70px; object-fit: contain;">
+      </div>
+    ` : ''}
+    <div>
+      <h1 style="color: ${color}; margin: 0; font-size: 22px; font-weight: bold;">${escapeHtml(company?.company_legal_name || company?.name || 'Company Name')}</h1>
+    </div>
+  </div>
+`;
+
+const renderHeader = (
+  { invoice, company, template, logoBase64 }: TemplateData,
+  labels: InvoicePDFLabels,
+  style: LayoutStyle
+) => {
+  if (template.layout === 'modern') {
+    return `
+      <div style="background: ${template.primary_color}; color: white; padding: 24px 30px; margin: -30px -30px 25px -30px; display: flex; justify-content: space-between; align-items: flex-start;">
         <div style="flex: 1;">
-          <!-- Logo and Company Name Row -->
-          <div style="display: flex; align-items: center; gap: 15px; margin-bottom: 10px;">
-            ${logoBase64 ? `
-              <div style="flex-shrink: 0;">
-                <img src="${logoBase64}" alt="Company Logo" style="max-height: 50px; max-width: 70px; object-fit: contain;">
-              </div>
-            ` : ''}
-            <div>
-              <h1 style="color: #1f2937; margin: 0; font-size: 22px; font-weight: bold;">${company?.company_legal_name || company?.name || 'Company Name'}</h1>
-            </div>
-          </div>
-          
-          <!-- Additional Company Information Below Logo and Name -->
-          <div style="color: #6b7280; font-size: 11px; line-height: 1.4; margin-left: 0;">
-            ${company?.company_address ? `<div>${company.company_address}</div>` : ''}
-            ${company?.city ? `<div>${company.city}${company.state ? `, ${company.state}` : ''} ${company.postal_code || ''}</div>` : ''}
-            ${company?.country ? `<div>${company.country}</div>` : ''}
-            ${company?.company_phone ? `<div>Phone: ${company.company_phone}</div>` : ''}
-            ${company?.company_email ? `<div>Email: ${company.company_email}</div>` : ''}
-            ${company?.website ? `<div>Website: ${company.website}</div>` : ''}
-            ${company?.tax_id ? `<div>Tax ID: ${company.tax_id}</div>` : ''}
-          </div>
+          ${companyName(company, logoBase64, '#ffffff')}
+          ${companyDetails(company, labels, 'rgba(255, 255, 255, 0.85)')}
         </div>
-        
-        <!-- Invoice Title & Number -->
         <div style="text-align: right; flex-shrink: 0;">
-          <h2 style="color: #2563eb; margin: 0 0 8px 0; font-size: 32px; font-weight: bold;">INVOICE</h2>
-          <div style="background: #f3f4f6; padding: 12px; border-radius: 6px; min-width: 180px;">
-            <div style="font-size: 13px; color: #6b7280; margin-bottom: 4px;">Invoice Number</div>
-            <div style="font-size: 16px; font-weight: bold; color: #1f2937;">${invoice.invoice_number}</div>
-          </div>
+          <h2 style="color: ${style.titleColor}; margin: 0 0 8px 0; font-size: 32px; font-weight: bold; letter-spacing: 2px;">${labels.invoice}</h2>
+          <div style="font-size: 13px; opacity: 0.85; margin-bottom: 4px;">${labels.invoiceNumber}</div>
+          <div style="font-size: 16px; font-weight: bold;">${escapeHtml(invoice.invoice_number)}</div>
+        </div>
+      </div>
+    `;
+  }
+
+  if (template.layout === 'minimal') {
+    return `
+      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 25px; border-bottom: 1px solid #d1d5db; padding-bottom: 20px;">
+        <div style="flex: 1;">
+          ${companyName(company, logoBase64, '#111827')}
+          ${companyDetails(company, labels, '#6b7280')}
+        </div>
+        <div style="text-align: right; flex-shrink: 0;">
+          <h2 style="color: ${style.titleColor}; margin: 0 0 8px 0; font-size: 26px; font-weight: 300; letter-spacing: 4px;">${labels.invoice}</h2>
+          <div style="font-size: 13px; color: #6b7280;">${labels.invoiceNumber}: <strong style="color: #111827;">${escapeHtml(invoice.invoice_number)}</strong></div>
+        </div>
+      </div>
+    `;
+  }
+
+  return `
+    <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 25px; border-bottom: 3px solid ${template.primary_color}; padding-bottom: 20px;">
+      <!-- Company Info with Logo and Name Side by Side, Additional Info Below -->
+      <div style="flex: 1;">
+        ${companyName(company, logoBase64, '#1f2937')}
+        ${companyDetails(company, labels, '#6b7280')}
+      </div>
+
+      <!-- Invoice Title & Number -->
+      <div style="text-align: right; flex-shrink: 0;">
+        <h2 style="color: ${style.titleColor}; margin: 0 0 8px 0; font-size: 32px; font-weight: bold;">${labels.invoice}</h2>
+        <div style="background: #f3f4f6; padding: 12px; border-radius: 6px; min-width: 180px;">
+          <div style="font-size: 13px; color: #6b7280; margin-bottom: 4px;">${labels.invoiceNumber}</div>
+          <div style="font-size: 16px; font-weight: bold; color: #1f2937;">${escapeHtml(invoice.invoice_number)}</div>
         </div>
       </div>
+    </div>
+  `;
+};
+
+export const generateInvoicePDFTemplate = (data: TemplateData): string => {
+  const { invoice, items, contact, company, template, signatureBase64, formatCurrency } = data;
+  const labels = getInvoicePDFLabels(template.language);
+  const locale = getInvoicePDFLocale(template.language);
+  const style = getLayoutStyle(template);
+  const accent = template.accent_color;
+  const formatDate = (date: string | Date) => format(new Date(date), labels.dateFormat, { locale });
+
+  const hasItemDiscounts = items.some(item => formatDiscount(item.discount_type, item.discount_value, formatCurrency));
+  const itemsTotal = items.reduce((sum, item) => sum + item.total_price, 0);
+  const discountAmount = invoice.discount_amount || 0;
+  const summaryRow = (label: string, amount: string, color = '#1f2937') => `
+    <div style="display: flex; justify-content: space-between; margin-bottom: 8px; padding-bottom: 6px;">
+      <span style="color: #6b7280; font-size: 13px;">${label}:</span>
+      <span style="color: ${color}; font-weight: 500; font-size: 13px;">${amount}</span>
+    </div>
+  `;
+  const headerCell = (label: string, align: string, width?: string) => `
+    <th style="padding: 12px; text-align: ${align}; font-weight: 600; font-size: 13px;${width ? ` width: ${width};` : ''}">${label}</th>
+  `;
+  const hasPaymentInformation = !!company?.bank_name || !!template.payment_instructions;
+
+  return `
+    <div style="font-family: 'Arial', sans-serif; padding: 30px; max-width: 800px; margin: 0 auto; background: white; color: #333;">
+      <!-- Header Section -->
+      ${renderHeader(data, labels, style)}
+
+      ${template.header_text ? `
+        <!-- Header Text -->
+        <div style="margin: -10px 0 25px 0; color: #4b5563; font-size: 13px; line-height: 1.5;">${formatTemplateText(template.header_text)}</div>
+      ` : ''}
 
       <!-- Invoice Details -->
       <div style="display: flex; justify-content: space-between; margin-bottom: 25px;">
         <!-- Bill To Section -->
         <div style="flex: 1; margin-right: 30px;">
-          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Bill To</h3>
-          <div style="background: #f9fafb; padding: 15px; border-radius: 6px; border-left: 4px solid #2563eb;">
-            <div style="font-weight: bold; font-size: 15px; color: #1f2937; margin-bottom: 6px;">${contact?.name || 'N/A'}</div>
-            ${contact?.company ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${contact.company}</div>` : ''}
-            ${contact?.address ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${contact.address}</div>` : ''}
-            ${contact?.phone_number ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">Phone: ${contact.phone_number}</div>` : ''}
-            ${contact?.email ? `<div style="color: #6b7280; font-size: 13px;">${contact.email}</div>` : ''}
+          ${sectionTitle(labels.billTo)}
+          <div style="${style.boxStyle}">
+            <div style="font-weight: bold; font-size: 15px; color: #1f2937; margin-bottom: 6px;">${escapeHtml(contact?.name || 'N/A')}</div>
+            ${contact?.company ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${escapeHtml(contact.company)}</div>` : ''}
+            ${contact?.address ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${formatTemplateText(contact.address)}</div>` : ''}
+            ${contact?.phone_number ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${labels.phone}: ${escapeHtml(contact.phone_number)}</div>` : ''}
+            ${contact?.email ? `<div style="color: #6b7280; font-size: 13px;">${escapeHtml(contact.email)}</div>` : ''}
           </div>
         </div>
 
         <!-- Invoice Info -->
-        <div style="flex: 0 0 180px;">
-          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Invoice Details</h3>
-          <div style="background: #f9fafb; padding: 15px; border-radius: 6px;">
+        <div style="flex: 0 0 200px;">
+          ${sectionTitle(labels.invoiceDetails)}
+          <div style="${style.boxStyle}">
             <div style="display: flex; justify-content: space-between; margin-bottom: 6px;">
-              <span style="color: #6b7280; font-size: 13px;">Created:</span>
-              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${format(new Date(invoice.created_at), 'MMM dd, yyyy')}</span>
+              <span style="color: #6b7280; font-size: 13px;">${labels.created}:</span>
+              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${formatDate(invoice.created_at)}</span>
             </div>
             ${invoice.due_date ? `
               <div style="display: flex; justify-content: space-between; margin-bottom: 6px;">
-                <span style="color: #6b7280; font-size: 13px;">Due Date:</span>
-                <span style="color: #dc2626; font-weight: 500; font-size: 13px;">${format(new Date(invoice.due_date), 'MMM dd, yyyy')}</span>
+                <span style="color: #6b7280; font-size: 13px;">${labels.dueDate}:</span>
+                <span style="color: #dc2626; font-weight: 500; font-size: 13px;">${formatDate(invoice.due_date)}</span>
               </div>
             ` : ''}
             <div style="display: flex; justify-content: space-between;">
-              <span style="color: #6b7280; font-size: 13px;">Status:</span>
-              <span style="color: #059669; font-weight: 500; background: #d1fae5; padding: 2px 6px; border-radius: 3px; font-size: 11px;">${invoice.status}</span>
+              <span style="color: #6b7280; font-size: 13px;">${labels.status}:</span>
+              <span style="color: ${accent}; font-weight: 500; background: ${tint(accent, 0.15)}; padding: 2px 6px; border-radius: 3px; font-size: 11px;">${escapeHtml(invoice.status)}</span>
             </div>
           </div>
         </div>
@@ -99,22 +221,24 @@ export const generateInvoicePDFTemplate = ({
 
       <!-- Items Table -->
       <div style="margin-bottom: 25px;">
-        <h3 style="color: #1f2937; margin: 0 0 15px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Invoice Items</h3>
-        <table style="width: 100%; border-collapse: collapse; box-shadow: 0 1px 3px rgba(0,0,0,0.1); border-radius: 6px; overflow: hidden;">
+        ${sectionTitle(labels.invoiceItems)}
+        <table style="width: 100%; border-collapse: collapse;${template.layout === 'minimal' ? '' : ' box-shadow: 0 1px 3px rgba(0,0,0,0.1); border-radius: 6px; overflow: hidden;'}">
           <thead>
-            <tr style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white;">
-              <th style="padding: 12px; text-align: left; font-weight: 600; font-size: 13px;">Description</th>
-              <th style="padding: 12px; text-align: center; font-weight: 600; font-size: 13px; width: 70px;">Qty</th>
-              <th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 100px;">Unit Price</th>
-              <th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 100px;">Total</th>
+            <tr style="${style.tableHeaderStyle}">
+              ${headerCell(labels.description, 'left')}
+              ${headerCell(labels.quantity, 'center', '70px')}
+              ${headerCell(labels.unitPrice, 'right', '100px')}
+              ${hasItemDiscounts ? headerCell(labels.discount, 'right', '80px') : ''}
+              ${headerCell(labels.total, 'right', '100px')}
             </tr>
           </thead>
           <tbody>
             ${items.map((item, index) => `
-              <tr style="background: ${index % 2 === 0 ? '#ffffff' : '#f9fafb'}; border-bottom: 1px solid #e5e7eb;">
-                <td style="padding: 10px 12px; color: #1f2937; font-size: 13px;">${item.description}</td>
-                <td style="padding: 10px 12px; text-align: center; color: #6b7280; font-size: 13px;">${item.quantity}</td>
+              <tr style="background: ${index % 2 === 0 || template.layout === 'minimal' ? '#ffffff' : '#f9fafb'}; border-bottom: 1px solid #e5e7eb;">
+                <td style="padding: 10px 12px; color: #1f2937; font-size: 13px;">${escapeHtml(item.description)}</td>
+                <td style="padding: 10px 12px; text-align: center; color: #6b7280; font-size: 13px;">${escapeHtml(item.quantity)}</td>
                 <td style="padding: 10px 12px; text-align: right; color: #6b7280; font-size: 13px;">${formatCurrency(item.unit_price)}</td>
+                ${hasItemDiscounts ? `<td style="padding: 10px 12px; text-align: right; color: ${accent}; font-size: 13px;">${escapeHtml(formatDiscount(item.discount_type, item.discount_value, formatCurrency) || '-')}</td>` : ''}
                 <td style="padding: 10px 12px; text-align: right; color: #1f2937; font-weight: 600; font-size: 13px;">${formatCurrency(item.total_price)}</td>
               </tr>
             `).join('')}
@@ -124,22 +248,26 @@ export const generateInvoicePDFTemplate = ({
 
       <!-- Summary Section -->
       <div style="display: flex; justify-content: flex-end; margin-bottom: 25px;">
-        <div style="width: 280px; background: #f9fafb; padding: 20px; border-radius: 6px; border-left: 4px solid #2563eb;">
-          <div style="display: flex; justify-content: space-between; margin-bottom: 8px; padding-bottom: 6px;">
-            <span style="color: #6b7280; font-size: 13px;">Subtotal:</span>
-            <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${formatCurrency(invoice.subtotal)}</span>
-          </div>
-          ${invoice.tax_rate && invoice.tax_rate > 0 ? `
-            <div style="display: flex; justify-content: space-between; margin-bottom: 8px; padding-bottom: 6px;">
-              <span style="color: #6b7280; font-size: 13px;">Tax (${invoice.tax_rate}%):</span>
-              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${formatCurrency(invoice.tax_amount || 0)}</span>
-            </div>
+        <div style="width: 280px; ${style.boxStyle}${template.layout === 'minimal' ? '' : ' padding: 20px;'}">
+          ${discountAmount > 0 ? `
+            ${summaryRow(labels.items, formatCurrency(itemsTotal))}
+            ${summaryRow(
+              `${labels.discount}${invoice.discount_type === 'percent' ? ` (${escapeHtml(invoice.discount_value ?? 0)}%)` : ''}`,
+              `-${formatCurrency(discountAmount)}`,
+              accent
+            )}
           ` : ''}
+          ${summaryRow(invoice.prices_include_tax ? labels.subtotalExclTax : labels.subtotal, formatCurrency(invoice.subtotal))}
+          ${getInvoiceTaxes(invoice).map(tax => summaryRow(
+            `${escapeHtml(tax.name)} (${escapeHtml(tax.rate)}%)${tax.withholding ? ` ${labels.withheld}` : ''}`,
+            `${tax.withholding ? '-' : ''}${formatCurrency(tax.amount)}`
+          )).join('')}
           <div style="border-top: 2px solid #e5e7eb; padding-top: 12px; margin-top: 12px;">
             <div style="display: flex; justify-content: space-between;">
-              <span style="color: #1f2937; font-weight: bold; font-size: 16px;">Total:</span>
-              <span style="color: #2563eb; font-weight: bold; font-size: 18px;">${formatCurrency(invoice.total)}</span>
+              <span style="color: #1f2937; font-weight: bold; font-size: 16px;">${labels.total}:</span>
+              <span style="color: ${style.totalColor}; font-weight: bold; font-size: 18px;">${formatCurrency(invoice.total)}</span>
             </div>
+            ${invoice.prices_include_tax ? `<div style="color: #6b7280; font-size: 11px; margin-top: 6px;">${labels.pricesIncludeTax}</div>` : ''}
           </div>
         </div>
       </div>
@@ -147,32 +275,52 @@ export const generateInvoicePDFTemplate = ({
       ${invoice.notes ? `
         <!-- Notes Section -->
         <div style="margin-bottom: 25px;">
-          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Notes</h3>
+          ${sectionTitle(labels.notes)}
           <div style="background: #fffbeb; border: 1px solid #fbbf24; padding: 15px; border-radius: 6px; border-left: 4px solid #f59e0b;">
-            <p style="margin: 0; color: #92400e; line-height: 1.5; font-size: 13px;">${invoice.notes}</p>
+            <p style="margin: 0; color: #92400e; line-height: 1.5; font-size: 13px;">${formatTemplateText(invoice.notes)}</p>
           </div>
         </div>
       ` : ''}
 
-      ${company?.bank_name ? `
+      ${hasPaymentInformation ? `
         <!-- Payment Information -->
         <div style="margin-bottom: 25px;">
-          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Payment Information</h3>
-          <div style="background: #ecfdf5; border: 1px solid #10b981; padding: 15px; border-radius: 6px; border-left: 4px solid #059669;">
-            <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; color: #065f46; font-size: 13px;">
-              <div><strong>Bank:</strong> ${company.bank_name}</div>
-              ${company.bank_account ? `<div><strong>Account:</strong> ${company.bank_account}</div>` : ''}
-              ${company.bank_account_holder ? `<div><strong>Account Holder:</strong> ${company.bank_account_holder}</div>` : ''}
-              ${company.swift_code ? `<div><strong>SWIFT:</strong> ${company.swift_code}</div>` : ''}
+          ${sectionTitle(labels.paymentInformation)}
+          <div style="background: ${tint(accent, 0.08)}; border: 1px solid ${tint(accent, 0.5)}; padding: 15px; border-radius: 6px; border-left: 4px solid ${accent};">
+            ${company?.bank_name ? `
+              <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; color: #1f2937; font-size: 13px;">
+                <div><strong>${labels.bank}:</strong> ${escapeHtml(company.bank_name)}</div>
+                ${company.bank_account ? `<div><strong>${labels.account}:</strong> ${escapeHtml(company.bank_account)}</div>` : ''}
+                ${company.bank_account_holder ? `<div><strong>${labels.accountHolder}:</strong> ${escapeHtml(company.bank_account_holder)}</div>` : ''}
+                ${company.swift_code ? `<div><strong>${labels.swift}:</strong> ${escapeHtml(company.swift_code)}</div>` : ''}
+              </div>
+            ` : ''}
+            ${template.payment_instructions ? `
+              <div style="color: #1f2937; font-size: 13px; line-height: 1.5;${company?.bank_name ? ' margin-top: 10px;' : ''}">
+                <strong>${labels.paymentInstructions}:</strong><br>
+                ${formatTemplateText(template.payment_instructions)}
+              </div>
+            ` : ''}
+          </div>
+        </div>
+      ` : ''}
+
+      ${signatureBase64 ? `
+        <!-- Signature -->
+        <div style="display: flex; justify-content: flex-end; margin-bottom: 25px;">
+          <div style="width: 200px; text-align: center;">
+            <img src="${escapeHtml(signatureBase64)}" alt="Signature" style="max-height: 80px; max-width: 180px; object-fit: contain;">
+            <div style="border-top: 1px solid #9ca3af; margin-top: 6px; padding-top: 6px; color: #6b7280; font-size: 11px;">
+              ${labels.authorizedSignature}
             </div>
           </div>
         </div>
       ` : ''}
 
       <!-- Footer -->
-      <div style="text-align: center; padding-top: 20px; border-top: 2px solid #e5e7eb; color: #6b7280; font-size: 11px;">
-        <p style="margin: 0;">Thank you for your business!</p>
-        <p style="margin: 3px 0 0 0;">This invoice was generated on ${format(new Date(), 'MMM dd, yyyy')} at ${format(new Date(), 'HH:mm')}</p>
+      <div style="text-align: center; padding-top: 20px; border-top: ${style.footerBorder}; color: #6b7280; font-size: 11px;">
+        <p style="margin: 0;">${template.footer_text ? formatTemplateText(template.footer_text) : labels.thankYou}</p>
+        <p style="margin: 3px 0 0 0;">${labels.generatedOn(formatDate(new Date()), format(new Date(), 'HH:mm'))}</p>
       </div>
     </div>
   `;
@@ -0,0 +1,175 @@
+
+import { Quote, QuoteItem } from '@/types/quote';
+import { Contact } from '@/types/contact';
+import { Team } from '@/types/team';
+import { format } from 'date-fns';
+import { escapeHtml, formatTemplateText } from '@/utils/invoiceTemplate';
+import { formatDiscount, getInvoiceTaxes } from '@/utils/invoiceTotals';
+
+interface TemplateData {
+  quote: Quote;
+  items: QuoteItem[];
+  contact: Contact | undefined;
+  company: Team | undefined;
+  logoBase64: string | null;
+  formatCurrency: (amount: number | null) => string;
+}
+
+export const generateQuotePDFTemplate = ({
+  quote,
+  items,
+  contact,
+  company,
+  logoBase64,
+  formatCurrency
+}: TemplateData): string => {
+  const hasItemDiscounts = items.some(item => formatDiscount(item.discount_type, item.discount_value, formatCurrency));
+  const itemsTotal = items.reduce((sum, item) => sum + item.total_price, 0);
+  const discountAmount = quote.discount_amount || 0;
+  const summaryRow = (label: string, amount: string, color = '#1f2937') => `
+    <div style="display: flex; justify-content: space-between; margin-bottom: 8px; padding-bottom: 6px;">
+      <span style="color: #6b7280; font-size: 13px;">${label}:</span>
+      <span style="color: ${color}; font-weight: 500; font-size: 13px;">${amount}</span>
+    </div>
+  `;
+
+  return `
+    <div style="font-family: 'Arial', sans-serif; padding: 30px; max-width: 800px; margin: 0 auto; background: white; color: #333;">
+      <!-- Header Section -->
+      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 25px; border-bottom: 3px solid #2563eb; padding-bottom: 20px;">
+        <div style="flex: 1;">
+          <div style="display: flex; align-items: center; gap: 15px; margin-bottom: 10px;">
+            ${logoBase64 ? `
+              <div style="flex-shrink: 0;">
+                <img src="${escapeHtml(logoBase64)}" alt="Company Logo" style="max-height: 50px; max-width: 70px; object-fit: contain;">
+              </div>
+            ` : ''}
+            <div>
+              <h1 style="color: #1f2937; margin: 0; font-size: 22px; font-weight: bold;">${escapeHtml(company?.company_legal_name || company?.name || 'Company Name')}</h1>
+            </div>
+          </div>
+
+          <div style="color: #6b7280; font-size: 11px; line-height: 1.4; margin-left: 0;">
+            ${company?.company_address ? `<div>${formatTemplateText(company.company_address)}</div>` : ''}
+            ${company?.city ? `<div>${escapeHtml(company.city)}${company.state ? `, ${escapeHtml(company.state)}` : ''} ${escapeHtml(company.postal_code || '')}</div>` : ''}
+            ${company?.country ? `<div>${escapeHtml(company.country)}</div>` : ''}
+            ${company?.company_phone ? `<div>Phone: ${escapeHtml(company.company_phone)}</div>` : ''}
+            ${company?.company_email ? `<div>Email: ${escapeHtml(company.company_email)}</div>` : ''}
+            ${company?.website ? `<div>Website: ${escapeHtml(company.website)}</div>` : ''}
+            ${company?.tax_id ? `<div>Tax ID: ${escapeHtml(company.tax_id)}</div>` : ''}
+          </div>
+        </div>
+
+        <!-- Quote Title & Number -->
+        <div style="text-align: right; flex-shrink: 0;">
+          <h2 style="color: #2563eb; margin: 0 0 8px 0; font-size: 32px; font-weight: bold;">QUOTATION</h2>
+          <div style="background: #f3f4f6; padding: 12px; border-radius: 6px; min-width: 180px;">
+            <div style="font-size: 13px; color: #6b7280; margin-bottom: 4px;">Quote Number</div>
+            <div style="font-size: 16px; font-weight: bold; color: #1f2937;">${escapeHtml(quote.quote_number)}</div>
+          </div>
+        </div>
+      </div>
+
+      ${quote.title ? `
+        <h2 style="color: #1f2937; margin: 0 0 20px 0; font-size: 18px; font-weight: bold;">${escapeHtml(quote.title)}</h2>
+      ` : ''}
+
+      <!-- Quote Details -->
+      <div style="display: flex; justify-content: space-between; margin-bottom: 25px;">
+        <div style="flex: 1; margin-right: 30px;">
+          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Prepared For</h3>
+          <div style="background: #f9fafb; padding: 15px; border-radius: 6px; border-left: 4px solid #2563eb;">
+            <div style="font-weight: bold; font-size: 15px; color: #1f2937; margin-bottom: 6px;">${escapeHtml(contact?.name || 'N/A')}</div>
+            ${contact?.company ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${escapeHtml(contact.company)}</div>` : ''}
+            ${contact?.address ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">${formatTemplateText(contact.address)}</div>` : ''}
+            ${contact?.phone_number ? `<div style="color: #6b7280; margin-bottom: 3px; font-size: 13px;">Phone: ${escapeHtml(contact.phone_number)}</div>` : ''}
+            ${contact?.email ? `<div style="color: #6b7280; font-size: 13px;">${escapeHtml(contact.email)}</div>` : ''}
+          </div>
+        </div>
+
+        <div style="flex: 0 0 180px;">
+          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Quote Details</h3>
+          <div style="background: #f9fafb; padding: 15px; border-radius: 6px;">
+            <div style="display: flex; justify-content: space-between; margin-bottom: 6px;">
+              <span style="color: #6b7280; font-size: 13px;">Date:</span>
+              <span style="color: #1f2937; font-weight: 500; font-size: 13px;">${format(new Date(quote.created_at), 'MMM dd, yyyy')}</span>
+            </div>
+            <div style="display: flex; justify-content: space-between;">
+              <span style="color: #6b7280; font-size: 13px;">Valid Until:</span>
+              <span style="color: #dc2626; font-weight: 500; font-size: 13px;">${format(new Date(quote.valid_until), 'MMM dd, yyyy')}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <!-- Items Table -->
+      <div style="margin-bottom: 25px;">
+        <h3 style="color: #1f2937; margin: 0 0 15px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Quoted Items</h3>
+        <table style="width: 100%; border-collapse: collapse; box-shadow: 0 1px 3px rgba(0,0,0,0.1); border-radius: 6px; overflow: hidden;">
+          <thead>
+            <tr style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white;">
+              <th style="padding: 12px; text-align: left; font-weight: 600; font-size: 13px;">Description</th>
+              <th style="padding: 12px; text-align: center; font-weight: 600; font-size: 13px; width: 70px;">Qty</th>
+              <th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 100px;">Unit Price</th>
+              ${hasItemDiscounts ? '<th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 80px;">Discount</th>' : ''}
+              <th style="padding: 12px; text-align: right; font-weight: 600; font-size: 13px; width: 100px;">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${items.map((item, index) => `
+              <tr style="background: ${index % 2 === 0 ? '#ffffff' : '#f9fafb'}; border-bottom: 1px solid #e5e7eb;">
+                <td style="padding: 10px 12px; color: #1f2937; font-size: 13px;">${escapeHtml(item.description)}</td>
+                <td style="padding: 10px 12px; text-align: center; color: #6b7280; font-size: 13px;">${escapeHtml(item.quantity)}</td>
+                <td style="padding: 10px 12px; text-align: right; color: #6b7280; font-size: 13px;">${formatCurrency(item.unit_price)}</td>
+                ${hasItemDiscounts ? `<td style="padding: 10px 12px; text-align: right; color: #2563eb; font-size: 13px;">${escapeHtml(formatDiscount(item.discount_type, item.discount_value, formatCurrency) || '-')}</td>` : ''}
+                <td style="padding: 10px 12px; text-align: right; color: #1f2937; font-weight: 600; font-size: 13px;">${formatCurrency(item.total_price)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+
+      <!-- Summary Section -->
+      <div style="display: flex; justify-content: flex-end; margin-bottom: 25px;">
+        <div style="width: 280px; background: #f9fafb; padding: 20px; border-radius: 6px; border-left: 4px solid #2563eb;">
+          ${discountAmount > 0 ? `
+            ${summaryRow('Items', formatCurrency(itemsTotal))}
+            ${summaryRow(
+              `Discount${quote.discount_type === 'percent' ? ` (${escapeHtml(quote.discount_value ?? 0)}%)` : ''}`,
+              `-${formatCurrency(discountAmount)}`,
+              '#2563eb'
+            )}
+          ` : ''}
+          ${summaryRow(quote.prices_include_tax ? 'Subtotal (excl. tax)' : 'Subtotal', formatCurrency(quote.subtotal))}
+          ${getInvoiceTaxes(quote).map(tax => summaryRow(
+            `${escapeHtml(tax.name)} (${escapeHtml(tax.rate)}%)${tax.withholding ? ' withheld' : ''}`,
+            `${tax.withholding ? '-' : ''}${formatCurrency(tax.amount)}`
+          )).join('')}
+          <div style="border-top: 2px solid #e5e7eb; padding-top: 12px; margin-top: 12px;">
+            <div style="display: flex; justify-content: space-between;">
+              <span style="color: #1f2937; font-weight: bold; font-size: 16px;">Total:</span>
+              <span style="color: #2563eb; font-weight: bold; font-size: 18px;">${formatCurrency(quote.total)}</span>
+            </div>
+            ${quote.prices_include_tax ? '<div style="color: #6b7280; font-size: 11px; margin-top: 6px;">Prices include tax</div>' : ''}
+          </div>
+        </div>
+      </div>
+
+      ${quote.notes ? `
+        <!-- Notes Section -->
+        <div style="margin-bottom: 25px;">
+          <h3 style="color: #1f2937; margin: 0 0 10px 0; font-size: 14px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">Terms &amp; Notes</h3>
+          <div style="background: #fffbeb; border: 1px solid #fbbf24; padding: 15px; border-radius: 6px; border-left: 4px solid #f59e0b;">
+            <p style="margin: 0; color: #92400e; line-height: 1.5; font-size: 13px;">${formatTemplateText(quote.notes)}</p>
+          </div>
+        </div>
+      ` : ''}
+
+      <!-- Footer -->
+      <div style="text-align: center; padding-top: 20px; border-top: 2px solid #e5e7eb; color: #6b7280; font-size: 11px;">
+        <p style="margin: 0;">This quotation is valid until ${format(new Date(quote.valid_until), 'MMM dd, yyyy')}.</p>
+        <p style="margin: 3px 0 0 0;">This quotation was generated on ${format(new Date(), 'MMM dd, yyyy')} at ${format(new Date(), 'HH:mm')}</p>
+      </div>
+    </div>
+  `;
+};
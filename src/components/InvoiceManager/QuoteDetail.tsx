@@ -0,0 +1,277 @@
+
+import React, { useState } from 'react';
+import { useQuotes } from '@/hooks/useQuotes';
+import { useCachedContacts } from '@/hooks/useCachedContacts';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, ClipboardList, Download, Send, CheckCircle, XCircle, Trash2, FileText } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Invoice } from '@/types/invoice';
+import { Quote, QuoteAcceptanceStage } from '@/types/quote';
+import { QUOTE_STATUS_COLORS, isQuoteOpen } from '@/utils/quoteStatus';
+import { formatDiscount, getInvoiceTaxes } from '@/utils/invoiceTotals';
+import { useInvoicePDFGenerator } from './InvoiceDetailPDFGenerator';
+import { AcceptQuoteDialog } from './AcceptQuoteDialog';
+import { InvoiceTotalsBreakdown } from './InvoiceTotalsBreakdown';
+
+interface QuoteDetailProps {
+  quote: Quote;
+  onBack: () => void;
+  onOpenInvoice: (invoice: Invoice) => void;
+}
+
+export const QuoteDetail: React.FC<QuoteDetailProps> = ({
+  quote: initialQuote,
+  onBack,
+  onOpenInvoice,
+}) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [showAcceptDialog, setShowAcceptDialog] = useState(false);
+
+  const { quotes, setQuoteStatus, acceptQuote, fetchQuoteInvoice, deleteQuote } = useQuotes();
+  const { contacts } = useCachedContacts();
+  const { teams, isTeamOwner } = useTeamData();
+  const { formatCurrency } = useCurrency(initialQuote.currency);
+  const { generateQuotePDF } = useInvoicePDFGenerator();
+
+  // Follow status changes made from this view
+  const quote = quotes.find(q => q.id === initialQuote.id) || initialQuote;
+  const contact = contacts.find(c => c.id === quote.contact_id);
+  const company = teams.find(t => t.id === quote.team_id);
+  const items = [...(quote.quote_items || [])].sort((a, b) => a.position - b.position);
+
+  const canManage = isTeamOwner(quote.team_id);
+  const isOpen = isQuoteOpen(quote);
+
+  const handleDownloadPDF = async () => {
+    setIsDownloading(true);
+    try {
+      await generateQuotePDF({ quote, contact, company });
+    } catch (error) {
+      console.error('Error generating quote PDF:', error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleSetStatus = async (status: 'Sent' | 'Declined') => {
+    setIsUpdating(true);
+    try {
+      await setQuoteStatus(quote, status);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleAccept = async (dealStage: QuoteAcceptanceStage) => {
+    const invoice = await acceptQuote(quote, dealStage);
+    if (invoice) {
+      onOpenInvoice(invoice);
+    }
+    return !!invoice;
+  };
+
+  const handleOpenInvoice = async () => {
+    if (!quote.invoice_id) return;
+
+    const invoice = await fetchQuoteInvoice(quote.invoice_id);
+    if (invoice) {
+      onOpenInvoice(invoice);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (await deleteQuote(quote.id)) {
+      onBack();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Quotes
+          </Button>
+          <div className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-gray-500" />
+            <h1 className="text-2xl font-bold">{quote.quote_number}</h1>
+            <Badge className={QUOTE_STATUS_COLORS[quote.status]}>
+              {quote.status}
+            </Badge>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleDownloadPDF} disabled={isDownloading}>
+            <Download className="h-4 w-4 mr-2" />
+            {isDownloading ? 'Downloading...' : 'Download PDF'}
+          </Button>
+          {canManage && isOpen && (
+            <>
+              {quote.status === 'Draft' && (
+                <Button variant="outline" onClick={() => handleSetStatus('Sent')} disabled={isUpdating}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Mark Sent
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => handleSetStatus('Declined')} disabled={isUpdating}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Decline
+              </Button>
+              <Button onClick={() => setShowAcceptDialog(true)} disabled={isUpdating}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Accept
+              </Button>
+            </>
+          )}
+          {quote.invoice_id && (
+            <Button variant="outline" onClick={handleOpenInvoice}>
+              <FileText className="h-4 w-4 mr-2" />
+              View Invoice
+            </Button>
+          )}
+          {canManage && quote.status === 'Draft' && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-red-600 hover:text-red-700">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Quote</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Quote {quote.quote_number} will be permanently deleted. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                    Delete Quote
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{quote.title || 'Quote Details'}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div className="space-y-1">
+            <p className="text-gray-500">Prepared for</p>
+            <p className="font-medium">{contact?.name || quote.contacts?.name || 'Unknown Contact'}</p>
+            {contact?.company && <p className="text-gray-600">{contact.company}</p>}
+            {company && <p className="text-gray-600">From {company.name}</p>}
+          </div>
+          <div className="space-y-1">
+            <p>
+              <span className="text-gray-500">Created: </span>
+              {format(parseISO(quote.created_at), 'MMM dd, yyyy')}
+            </p>
+            <p>
+              <span className="text-gray-500">Valid until: </span>
+              {format(parseISO(quote.valid_until), 'MMM dd, yyyy')}
+            </p>
+            {quote.sent_at && (
+              <p>
+                <span className="text-gray-500">Sent: </span>
+                {format(parseISO(quote.sent_at), 'MMM dd, yyyy')}
+              </p>
+            )}
+            {quote.responded_at && (
+              <p>
+                <span className="text-gray-500">{quote.status === 'Accepted' ? 'Accepted' : 'Declined'}: </span>
+                {format(parseISO(quote.responded_at), 'MMM dd, yyyy')}
+              </p>
+            )}
+            {quote.deals && (
+              <p>
+                <span className="text-gray-500">Deal: </span>
+                {quote.deals.title} ({quote.deals.stage})
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quote Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {items.map(item => {
+              const discount = formatDiscount(item.discount_type, item.discount_value, formatCurrency);
+              return (
+                <div key={item.id} className="flex justify-between items-center p-3 border rounded">
+                  <div>
+                    <h4 className="font-medium">{item.description}</h4>
+                    <p className="text-sm text-gray-600">
+                      Quantity: {item.quantity} × {formatCurrency(item.unit_price)}
+                      {discount && ` · Discount ${discount}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <span className="font-semibold">{formatCurrency(item.total_price)}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <Separator className="my-4" />
+
+          <InvoiceTotalsBreakdown
+            totals={{
+              itemsTotal: items.reduce((sum, item) => sum + item.total_price, 0),
+              discountAmount: quote.discount_amount || 0,
+              subtotal: quote.subtotal,
+              taxes: getInvoiceTaxes(quote),
+              total: quote.total,
+            }}
+            pricesIncludeTax={quote.prices_include_tax}
+            currency={quote.currency}
+          />
+        </CardContent>
+      </Card>
+
+      {quote.notes && (
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="font-semibold mb-2">Notes</h3>
+            <p className="text-gray-700">{quote.notes}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <AcceptQuoteDialog
+        quote={quote}
+        open={showAcceptDialog}
+        onOpenChange={setShowAcceptDialog}
+        onAccept={handleAccept}
+      />
+    </div>
+  );
+};
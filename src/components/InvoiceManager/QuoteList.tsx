@@ -0,0 +1,116 @@
+
+import React, { useState } from 'react';
+import { useQuotes } from '@/hooks/useQuotes';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Plus, Search, ClipboardList, Calendar, Briefcase } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Quote } from '@/types/quote';
+import { QUOTE_STATUS_COLORS } from '@/utils/quoteStatus';
+
+interface QuoteListProps {
+  onBack: () => void;
+  onCreateQuote: () => void;
+  onSelectQuote: (quote: Quote) => void;
+}
+
+export const QuoteList: React.FC<QuoteListProps> = ({
+  onBack,
+  onCreateQuote,
+  onSelectQuote,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const { quotes, loading } = useQuotes();
+  const { formatCurrency } = useCurrency();
+
+  const term = searchTerm.toLowerCase();
+  const filteredQuotes = quotes.filter(quote =>
+    quote.quote_number.toLowerCase().includes(term) ||
+    (quote.title || '').toLowerCase().includes(term) ||
+    (quote.contacts?.name || '').toLowerCase().includes(term)
+  );
+
+  if (loading) {
+    return (
+      <div className="p-4 text-center">
+        <div className="text-lg">Loading quotes...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Invoices
+          </Button>
+          <h1 className="text-2xl font-bold">Quotes</h1>
+        </div>
+        <Button onClick={onCreateQuote}>
+          <Plus className="h-4 w-4 mr-2" />
+          Create Quote
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+        <Input
+          placeholder="Search quotes..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      <div className="space-y-3">
+        {filteredQuotes.map(quote => (
+          <Card
+            key={quote.id}
+            className="cursor-pointer hover:shadow-md transition-shadow"
+            onClick={() => onSelectQuote(quote)}
+          >
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <ClipboardList className="h-4 w-4 text-gray-500" />
+                    <h3 className="font-semibold text-lg">{quote.quote_number}</h3>
+                    <Badge className={QUOTE_STATUS_COLORS[quote.status]}>
+                      {quote.status}
+                    </Badge>
+                  </div>
+                  {quote.title && <p className="font-medium">{quote.title}</p>}
+                  <p className="text-gray-600">{quote.contacts?.name || 'Unknown Contact'}</p>
+                  {quote.deals && (
+                    <div className="flex items-center gap-1 text-sm text-gray-500">
+                      <Briefcase className="h-3 w-3" />
+                      {quote.deals.title} ({quote.deals.stage})
+                    </div>
+                  )}
+                </div>
+                <div className="text-right space-y-1">
+                  <div className="text-lg font-semibold">{formatCurrency(quote.total, quote.currency)}</div>
+                  <div className="flex items-center justify-end gap-1 text-sm text-gray-500">
+                    <Calendar className="h-3 w-3" />
+                    Valid until {format(parseISO(quote.valid_until), 'MMM dd, yyyy')}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {filteredQuotes.length === 0 && (
+        <div className="text-center py-8 text-gray-500">
+          {searchTerm ? 'No quotes match your search.' : 'No quotes yet. Create a quote to send a proposal.'}
+        </div>
+      )}
+    </div>
+  );
+};
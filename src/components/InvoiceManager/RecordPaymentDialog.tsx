@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/hooks/useCurrency';
+import { PaymentMethod, RecordPaymentRequest } from '@/types/invoice';
+import { PAYMENT_METHOD_LABELS } from '@/utils/invoiceBalance';
+import { toDateColumn } from '@/utils/recurringInvoice';
+
+interface RecordPaymentDialogProps {
+  open: boolean;
+  outstandingBalance: number;
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onRecord: (request: RecordPaymentRequest) => Promise<boolean>;
+}
+
+export const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({
+  open,
+  outstandingBalance,
+  currency,
+  onOpenChange,
+  onRecord,
+}) => {
+  const [amount, setAmount] = useState(outstandingBalance);
+  const [paidAt, setPaidAt] = useState(toDateColumn(new Date()));
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { formatCurrency } = useCurrency(currency);
+
+  // Default to settling the invoice in full each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAmount(outstandingBalance);
+      setPaidAt(toDateColumn(new Date()));
+      setMethod('bank_transfer');
+      setReference('');
+      setNotes('');
+    }
+  }, [open, outstandingBalance]);
+
+  const isValidAmount = amount > 0 && amount <= outstandingBalance;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidAmount || !paidAt) return;
+
+    setIsSubmitting(true);
+    try {
+      const recorded = await onRecord({
+        amount,
+        paid_at: paidAt,
+        method,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      if (recorded) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            Outstanding balance: {formatCurrency(outstandingBalance)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Amount</label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={outstandingBalance}
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                required
+              />
+              {amount > outstandingBalance && (
+                <p className="text-xs text-red-600 mt-1">Amount exceeds the outstanding balance</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Payment Date</label>
+              <Input
+                type="date"
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Method</label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Reference (Optional)</label>
+              <Input
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Transfer ID, receipt number..."
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Notes (Optional)</label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !isValidAmount || !paidAt}>
+              {isSubmitting ? 'Recording...' : 'Record Payment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CreditNote, PaymentMethod, RecordRefundRequest } from '@/types/invoice';
+import { PAYMENT_METHOD_LABELS } from '@/utils/invoiceBalance';
+import { toDateColumn } from '@/utils/recurringInvoice';
+
+interface RecordRefundDialogProps {
+  creditNote: CreditNote | null;
+  refundDue: number;
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onRecord: (creditNote: CreditNote, request: RecordRefundRequest) => Promise<boolean>;
+}
+
+export const RecordRefundDialog: React.FC<RecordRefundDialogProps> = ({
+  creditNote,
+  refundDue,
+  currency,
+  onOpenChange,
+  onRecord,
+}) => {
+  const [amount, setAmount] = useState(0);
+  const [refundedAt, setRefundedAt] = useState(toDateColumn(new Date()));
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { formatCurrency } = useCurrency(currency);
+
+  // A credit note can't refund more than it credited
+  const maxAmount = creditNote ? Math.min(refundDue, creditNote.total) : 0;
+
+  useEffect(() => {
+    if (creditNote) {
+      setAmount(maxAmount);
+      setRefundedAt(toDateColumn(new Date()));
+      setMethod('bank_transfer');
+      setReference('');
+    }
+  }, [creditNote, maxAmount]);
+
+  const isValidAmount = amount > 0 && amount <= maxAmount;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creditNote || !isValidAmount || !refundedAt) return;
+
+    setIsSubmitting(true);
+    try {
+      const recorded = await onRecord(creditNote, {
+        amount,
+        refunded_at: refundedAt,
+        method,
+        reference: reference.trim() || undefined,
+      });
+      if (recorded) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!creditNote} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Refund</DialogTitle>
+          <DialogDescription>
+            {creditNote?.credit_note_number} · Refund due: {formatCurrency(refundDue)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Amount</label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={maxAmount}
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                required
+              />
+              {amount > maxAmount && (
+                <p className="text-xs text-red-600 mt-1">Amount exceeds the refund due</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Refund Date</label>
+              <Input
+                type="date"
+                value={refundedAt}
+                onChange={(e) => setRefundedAt(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Method</label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Reference (Optional)</label>
+              <Input
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Transfer ID, receipt number..."
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !isValidAmount || !refundedAt}>
+              {isSubmitting ? 'Recording...' : 'Record Refund'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,204 @@
+import React from 'react';
+import { useRecurringInvoices } from '@/hooks/useRecurringInvoices';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Plus, Repeat, Calendar, MoreVertical, Pause, Play, SkipForward, Zap, StopCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { RecurringInvoiceProfile, RecurringInvoiceStatus } from '@/types/invoice';
+import { formatRecurringInterval, getUpcomingRuns } from '@/utils/recurringInvoice';
+import { calculateInvoiceTotals } from '@/utils/invoiceTotals';
+
+interface RecurringInvoiceListProps {
+  onBack: () => void;
+  onCreateProfile: () => void;
+}
+
+const getStatusColor = (status: RecurringInvoiceStatus) => {
+  switch (status) {
+    case 'active': return 'bg-green-100 text-green-800';
+    case 'paused': return 'bg-yellow-100 text-yellow-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Priced the way the database prices each generated invoice
+const getProfileTotal = (profile: RecurringInvoiceProfile) =>
+  calculateInvoiceTotals(profile.recurring_invoice_items || [], profile).total;
+
+export const RecurringInvoiceList: React.FC<RecurringInvoiceListProps> = ({
+  onBack,
+  onCreateProfile,
+}) => {
+  const { profiles, loading, setProfileStatus, skipNextRun, runNow } = useRecurringInvoices();
+  const { isTeamOwner } = useTeamData();
+  const { formatCurrency } = useCurrency();
+
+  if (loading) {
+    return (
+      <div className="p-4 text-center">
+        <div className="text-lg">Loading recurring invoices...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Invoices
+          </Button>
+          <h1 className="text-2xl font-bold">Recurring Invoices</h1>
+        </div>
+        <Button onClick={onCreateProfile}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Schedule
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {profiles.map(profile => {
+          const upcomingRuns = getUpcomingRuns(profile, 3);
+          const canManage = isTeamOwner(profile.team_id) && profile.status !== 'ended';
+
+          return (
+            <Card key={profile.id}>
+              <CardContent className="p-4">
+                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Repeat className="h-4 w-4 text-gray-500" />
+                      <h3 className="font-semibold text-lg">{profile.name}</h3>
+                      <Badge className={getStatusColor(profile.status)}>
+                        {profile.status}
+                      </Badge>
+                    </div>
+                    <p className="text-gray-600">{profile.contacts?.name || 'Unknown Contact'}</p>
+                    <div className="text-sm text-gray-500">
+                      {formatRecurringInterval(profile.interval_unit, profile.interval_count)}
+                      {profile.end_date && ` until ${format(parseISO(profile.end_date), 'MMM dd, yyyy')}`}
+                      {' · '}
+                      {profile.occurrence} {profile.occurrence === 1 ? 'period' : 'periods'} billed or skipped
+                    </div>
+                    {upcomingRuns.length > 0 ? (
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                        <Calendar className="h-3 w-3" />
+                        Upcoming:
+                        {upcomingRuns.map((run, index) => (
+                          <Badge
+                            key={run.toISOString()}
+                            variant={index === 0 && profile.status === 'active' ? 'default' : 'outline'}
+                          >
+                            {format(run, 'MMM dd, yyyy')}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-gray-500">No upcoming runs</div>
+                    )}
+                  </div>
+                  <div className="flex items-start gap-3">
+                    <div className="text-right space-y-1">
+                      <div className="text-lg font-semibold">
+                        {formatCurrency(getProfileTotal(profile), profile.currency)}
+                      </div>
+                      <p className="text-sm text-gray-500">per invoice</p>
+                    </div>
+                    {canManage && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-48">
+                          {profile.status === 'active' ? (
+                            <DropdownMenuItem onClick={() => setProfileStatus(profile.id, 'paused')}>
+                              <Pause className="h-4 w-4 mr-2" />
+                              Pause
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem onClick={() => setProfileStatus(profile.id, 'active')}>
+                              <Play className="h-4 w-4 mr-2" />
+                              Resume
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => skipNextRun(profile.id)}>
+                            <SkipForward className="h-4 w-4 mr-2" />
+                            Skip Next Run
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => runNow(profile.id)}>
+                            <Zap className="h-4 w-4 mr-2" />
+                            Generate Now
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <DropdownMenuItem
+                                className="text-red-600 focus:text-red-600"
+                                onSelect={(e) => e.preventDefault()}
+                              >
+                                <StopCircle className="h-4 w-4 mr-2" />
+                                End Schedule
+                              </DropdownMenuItem>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>End Schedule</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  No further invoices will be generated for "{profile.name}".
+                                  Invoices already created are kept. This cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => setProfileStatus(profile.id, 'ended')}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  End Schedule
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {profiles.length === 0 && (
+        <div className="text-center py-8 text-gray-500">
+          No recurring invoices yet. Create a schedule to bill retainers automatically.
+        </div>
+      )}
+    </div>
+  );
+};
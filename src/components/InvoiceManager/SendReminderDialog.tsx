@@ -0,0 +1,200 @@
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Mail, MessageCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePhoneCountry } from '@/hooks/usePhoneCountry';
+import { useTemplateContext } from '@/hooks/useTemplateContext';
+import { EmailService } from '@/services/emailService';
+import { Contact } from '@/types/contact';
+import { DueInvoiceReminder } from '@/types/dunning';
+import { MessageTemplateSet } from '@/types/messageTemplate';
+import { renderTemplate } from '@/utils/templateEngine';
+import { pickRandomVariation } from '@/utils/templateVariations';
+
+interface SendReminderDialogProps {
+  reminder: DueInvoiceReminder | null;
+  contact: Contact | undefined;
+  templateSet: MessageTemplateSet | undefined;
+  onOpenChange: (open: boolean) => void;
+  onSent: (reminder: DueInvoiceReminder, templateVariationId?: string) => Promise<boolean>;
+}
+
+/**
+ * Renders the reminder step's template for the invoice and sends it after review
+ * WhatsApp reminders open a prefilled chat; email reminders go out through the send-email function
+ */
+export const SendReminderDialog: React.FC<SendReminderDialogProps> = ({
+  reminder,
+  contact,
+  templateSet,
+  onOpenChange,
+  onSent,
+}) => {
+  const [subject, setSubject] = useState('');
+  const [message, setMessage] = useState('');
+  const [variationId, setVariationId] = useState<string | undefined>();
+  const [preparing, setPreparing] = useState(false);
+  const [sending, setSending] = useState(false);
+  const { buildContextForContact } = useTemplateContext();
+  const { getWhatsAppUrl } = usePhoneCountry(reminder?.invoice.team_id);
+
+  const channel = reminder?.step.channel || 'whatsapp';
+
+  useEffect(() => {
+    if (!reminder || !contact || !templateSet) return;
+
+    let cancelled = false;
+    const prepare = async () => {
+      setPreparing(true);
+      try {
+        const picked = pickRandomVariation(templateSet);
+        const subjectTemplate = picked?.variation.subject || templateSet.title;
+        const context = await buildContextForContact(contact, {
+          invoiceId: reminder.invoice.id,
+          templates: picked ? [picked.variation.content, subjectTemplate] : [subjectTemplate],
+        });
+        if (cancelled) return;
+
+        setVariationId(picked?.variation.id);
+        setMessage(picked ? renderTemplate(picked.variation.content, context) : '');
+        setSubject(renderTemplate(subjectTemplate, context));
+      } catch (error) {
+        console.error('Error preparing reminder:', error);
+      } finally {
+        if (!cancelled) setPreparing(false);
+      }
+    };
+
+    prepare();
+    return () => {
+      cancelled = true;
+    };
+  }, [reminder, contact, templateSet, buildContextForContact]);
+
+  const handleSend = async () => {
+    if (!reminder || !contact || !message.trim()) return;
+
+    setSending(true);
+    try {
+      if (channel === 'email') {
+        if (!contact.email) {
+          toast({
+            title: "Error",
+            description: `${contact.name} has no email address`,
+            variant: "destructive",
+          });
+          return;
+        }
+
+        const result = await EmailService.sendEmail({
+          contact_id: contact.id,
+          subject,
+          body: message,
+          template_set_id: templateSet?.id,
+          template_variation_id: variationId,
+          template_title: templateSet?.title,
+        });
+
+        if (result.status === 'failed') {
+          toast({
+            title: "Email not delivered",
+            description: result.error || "The email provider rejected the message.",
+            variant: "destructive",
+          });
+          return;
+        }
+      } else {
+        const whatsappUrl = getWhatsAppUrl(contact.phone_number, message);
+        if (!whatsappUrl) {
+          toast({
+            title: "Error",
+            description: "Invalid phone number format",
+            variant: "destructive",
+          });
+          return;
+        }
+        window.open(whatsappUrl, '_blank');
+      }
+
+      const recorded = await onSent(reminder, variationId);
+      if (recorded) {
+        toast({
+          title: "Success",
+          description: `Reminder for ${reminder.invoice.invoice_number} sent to ${contact.name}`,
+        });
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Error sending reminder:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send reminder",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!reminder} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {channel === 'email' ? <Mail className="h-5 w-5" /> : <MessageCircle className="h-5 w-5" />}
+            Payment Reminder
+          </DialogTitle>
+          {reminder && (
+            <DialogDescription>
+              {reminder.invoice.invoice_number} · {contact?.name || 'Unknown contact'} · Step {reminder.stepNumber}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {!contact || !templateSet ? (
+          <div className="py-6 text-center text-gray-500">
+            {!contact
+              ? 'The invoice contact is not available.'
+              : 'The template set of this step is not available to you. Ask the team owner to update the sequence.'}
+          </div>
+        ) : preparing ? (
+          <div className="py-6 text-center text-muted-foreground">Preparing message...</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              To:
+              <Badge variant="outline">{channel === 'email' ? contact.email || 'No email' : contact.phone_number}</Badge>
+            </div>
+            {channel === 'email' && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Subject</label>
+                <Input value={subject} onChange={(e) => setSubject(e.target.value)} />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium mb-1">Message</label>
+              <Textarea value={message} onChange={(e) => setMessage(e.target.value)} rows={8} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={sending || preparing || !contact || !templateSet || !message.trim() || (channel === 'email' && !subject.trim())}
+          >
+            {sending ? 'Sending...' : channel === 'email' ? 'Send Email' : 'Open WhatsApp'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,10 +1,10 @@
-
 import { useState } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useInvoiceData } from '@/hooks/useInvoiceData';
 import { Invoice, InvoiceItem } from '@/types/invoice';
-import { invoiceSchema, InvoiceFormData } from './InvoiceFormSchema';
+import { calculateInvoiceTotals, getInvoiceTaxes } from '@/utils/invoiceTotals';
+import { invoiceSchema, InvoiceFormData, toInvoiceTaxes } from './InvoiceFormSchema';
 
 interface UseInvoiceFormLogicProps {
   invoice: Invoice;
@@ -26,12 +26,20 @@ export const useInvoiceFormLogic = ({
       contact_id: invoice.contact_id,
       team_id: invoice.team_id,
       due_date: invoice.due_date || '',
-      tax_rate: invoice.tax_rate || 0,
+      currency: invoice.currency,
+      exchange_rate: invoice.exchange_rate,
       notes: invoice.notes || '',
+      discount_type: invoice.discount_type || null,
+      discount_value: invoice.discount_value || 0,
+      prices_include_tax: invoice.prices_include_tax || false,
+      taxes: getInvoiceTaxes(invoice).map(({ name, rate, withholding }) => ({ name, rate, withholding })),
       items: items.map(item => ({
+        product_id: item.product_id || undefined,
         description: item.description || '',
         quantity: item.quantity || 1,
         unit_price: item.unit_price || 0,
+        discount_type: item.discount_type || null,
+        discount_value: item.discount_value || 0,
       })),
     },
   });
@@ -42,13 +50,15 @@ export const useInvoiceFormLogic = ({
   });
 
   const watchedItems = form.watch('items');
-  const watchedTaxRate = form.watch('tax_rate');
+  const watchedPricesIncludeTax = form.watch('prices_include_tax');
+  const watchedCurrency = form.watch('currency') || invoice.currency;
 
-  const subtotal = watchedItems.reduce((sum, item) => 
-    sum + (item.quantity * item.unit_price), 0
-  );
-  const taxAmount = subtotal * (watchedTaxRate || 0) / 100;
-  const total = subtotal + taxAmount;
+  const totals = calculateInvoiceTotals(watchedItems, {
+    discount_type: form.watch('discount_type'),
+    discount_value: form.watch('discount_value'),
+    prices_include_tax: watchedPricesIncludeTax,
+    taxes: toInvoiceTaxes(form.watch('taxes')),
+  });
 
   const onSubmit = async (data: InvoiceFormData) => {
     setIsSubmitting(true);
@@ -57,12 +67,20 @@ export const useInvoiceFormLogic = ({
         contact_id: data.contact_id,
         team_id: data.team_id,
         due_date: data.due_date || null,
-        tax_rate: data.tax_rate || 0,
+        currency: data.currency || invoice.currency,
+        exchange_rate: data.exchange_rate,
         notes: data.notes || null,
+        discount_type: data.discount_type,
+        discount_value: data.discount_value,
+        prices_include_tax: data.prices_include_tax,
+        taxes: toInvoiceTaxes(data.taxes),
         items: data.items.map(item => ({
+          product_id: item.product_id,
           description: item.description || '',
           quantity: item.quantity || 1,
           unit_price: item.unit_price || 0,
+          discount_type: item.discount_type,
+          discount_value: item.discount_value,
         })),
       });
 
@@ -80,10 +98,9 @@ export const useInvoiceFormLogic = ({
     append,
     remove,
     isSubmitting,
-    subtotal,
-    taxAmount,
-    total,
-    watchedTaxRate,
+    totals,
+    watchedPricesIncludeTax,
+    watchedCurrency,
     onSubmit,
   };
 };
@@ -13,6 +13,8 @@ interface LeadsStatsCardsProps {
     conversionRate: string;
     qualificationRate: string;
     totalRevenue: number;
+    // Currency the revenue was converted to
+    revenueCurrency: string;
   };
 }
 
@@ -72,7 +74,7 @@ export const LeadsStatsCards: React.FC<LeadsStatsCardsProps> = ({ stats }) => {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-green-600">
-            {formatCurrency(stats.totalRevenue)}
+            {formatCurrency(stats.totalRevenue, stats.revenueCurrency)}
           </div>
           <p className="text-xs text-muted-foreground">{stats.conversionRate}% conversion rate</p>
         </CardContent>
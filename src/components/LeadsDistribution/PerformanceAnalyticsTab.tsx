@@ -1,29 +1,237 @@
 
-import React from 'react';
+import React, { useState } from 'react';
+import { addMonths, addQuarters, format, parseISO } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { BarChart3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart3, ChevronLeft, ChevronRight, Edit } from 'lucide-react';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useSalesQuotas } from '@/hooks/useSalesQuotas';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useUserData } from '@/hooks/useUserData';
+import { QuotaAttainment, QuotaPeriodType } from '@/types/quota';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getElapsedShare, getQuotaPeriodLabel, getQuotaPeriodStart, QUOTA_PACE_LABELS } from '@/utils/quotas';
+import { SalesQuotaDialog, SalesQuotaTarget } from './SalesQuotaDialog';
+
+const formatShare = (share: number | null) => (share === null ? '—' : `${Math.round(share * 100)}%`);
 
 export const PerformanceAnalyticsTab: React.FC = () => {
+  const { teams, getTeamMemberNames, isTeamOwner } = useTeamData();
+  const { getUserNameById } = useUserData();
+  const { quotas, loading, saveQuota, deleteQuota, getAttainment } = useSalesQuotas();
+  const { reportingCurrency, getReportingCurrency } = useExchangeRates();
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [periodType, setPeriodType] = useState<QuotaPeriodType>('month');
+  const [periodStart, setPeriodStart] = useState(() => getQuotaPeriodStart('month'));
+  const [editing, setEditing] = useState<SalesQuotaTarget | null>(null);
+
+  const team = teams.find(t => t.id === selectedTeamId) || teams[0];
+  const period = { period_type: periodType, period_start: periodStart };
+  const periodLabel = getQuotaPeriodLabel(period);
+  const elapsed = getElapsedShare(period);
+  const canManage = !!team && isTeamOwner(team.id);
+
+  // The owner may not be listed among the members
+  const members = team ? getTeamMemberNames(team.id) : [];
+  if (team && !members.some(member => member.id === team.owner_id)) {
+    members.unshift({ id: team.owner_id, name: getUserNameById(team.owner_id), role: 'owner' });
+  }
+  const rows: { userId: string | null; name: string }[] = team
+    ? [{ userId: null, name: `${team.name} (team)` }, ...members.map(member => ({ userId: member.id, name: member.name }))]
+    : [];
+
+  const findQuota = (userId: string | null) => quotas.find(quota =>
+    quota.team_id === team?.id
+    && (quota.user_id || null) === userId
+    && quota.period_type === periodType
+    && quota.period_start === periodStart
+  );
+
+  const handlePeriodTypeChange = (value: string) => {
+    const type = value as QuotaPeriodType;
+    setPeriodType(type);
+    setPeriodStart(getQuotaPeriodStart(type, parseISO(periodStart)));
+  };
+
+  const shiftPeriod = (offset: number) => {
+    const start = parseISO(periodStart);
+    const shifted = periodType === 'quarter' ? addQuarters(start, offset) : addMonths(start, offset);
+    setPeriodStart(format(shifted, 'yyyy-MM-dd'));
+  };
+
+  const startEdit = (userId: string | null, name: string) => {
+    if (!team) return;
+    setEditing({
+      name,
+      periodLabel,
+      values: { team_id: team.id, user_id: userId, period_type: periodType, period_start: periodStart },
+      quota: findQuota(userId),
+      defaultCurrency: getReportingCurrency(team.id),
+    });
+  };
+
+  const renderRevenue = (attainment: QuotaAttainment) => {
+    if (attainment.quota.revenue_target == null) return <span className="text-gray-400">—</span>;
+    if (attainment.revenue_target === null) {
+      return <span className="text-xs text-orange-700">No {reportingCurrency} rate for {attainment.quota.currency}</span>;
+    }
+
+    return (
+      <div className="space-y-1 min-w-[160px]">
+        <div className="text-sm">
+          {formatCurrencyAmount(attainment.revenue, reportingCurrency)}
+          <span className="text-gray-500"> / {formatCurrencyAmount(attainment.revenue_target, reportingCurrency)}</span>
+        </div>
+        <Progress value={Math.min((attainment.revenue_attainment ?? 0) * 100, 100)} className="h-2" />
+        <div className="text-xs text-gray-500">
+          {formatShare(attainment.revenue_attainment)} from {attainment.quota.revenue_basis === 'invoices' ? 'paid invoices' : 'won deals'}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDeals = (attainment: QuotaAttainment) => {
+    if (attainment.quota.deal_count_target == null) {
+      return <span className="text-sm">{attainment.deal_count} won</span>;
+    }
+
+    return (
+      <div className="space-y-1 min-w-[100px]">
+        <div className="text-sm">
+          {attainment.deal_count}
+          <span className="text-gray-500"> / {attainment.quota.deal_count_target}</span>
+        </div>
+        <Progress value={Math.min((attainment.deal_count_attainment ?? 0) * 100, 100)} className="h-2" />
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <BarChart3 className="h-5 w-5" />
-          Performance Analytics
-        </CardTitle>
-        <CardDescription>
-          Detailed performance metrics and conversion analytics
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <div className="text-center py-12">
-          <BarChart3 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold text-gray-600 mb-2">Analytics Coming Soon</h3>
-          <p className="text-gray-500">
-            Advanced performance analytics and detailed reporting will be available here
-          </p>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Quota Attainment
+            </CardTitle>
+            <CardDescription>
+              Won deals and paid invoices against each member's targets, paced against the time gone in the period
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {teams.length > 1 && (
+              <Select value={team?.id || ''} onValueChange={setSelectedTeamId}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Select team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map(t => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={periodType} onValueChange={handlePeriodTypeChange}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="quarter">Quarterly</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" onClick={() => shiftPeriod(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm font-medium w-20 text-center">{periodLabel}</span>
+              <Button variant="outline" size="sm" onClick={() => shiftPeriod(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
         </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">Loading quotas...</div>
+        ) : !team ? (
+          <div className="py-12 text-center text-gray-500">Join or create a team to track quotas.</div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Time gone in {periodLabel}</span>
+                <span>{formatShare(elapsed)}</span>
+              </div>
+              <Progress value={elapsed * 100} className="h-1" />
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Revenue</TableHead>
+                  <TableHead>Won Deals</TableHead>
+                  <TableHead>Pace</TableHead>
+                  {canManage && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => {
+                  const quota = findQuota(row.userId);
+                  const attainment = quota ? getAttainment(quota) : null;
+
+                  return (
+                    <TableRow key={row.userId || 'team'}>
+                      <TableCell className={row.userId ? '' : 'font-semibold'}>{row.name}</TableCell>
+                      {attainment ? (
+                        <>
+                          <TableCell>{renderRevenue(attainment)}</TableCell>
+                          <TableCell>{renderDeals(attainment)}</TableCell>
+                          <TableCell>
+                            {attainment.pace && (
+                              <span className={`text-sm font-medium ${QUOTA_PACE_LABELS[attainment.pace].color}`}>
+                                {QUOTA_PACE_LABELS[attainment.pace].label}
+                              </span>
+                            )}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={3} className="text-sm text-gray-400">No quota set</TableCell>
+                      )}
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => startEdit(row.userId, row.name)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <p className="text-xs text-gray-500">
+              Amounts in {reportingCurrency}. Deals count for their assignee, or whoever created them; invoices for whoever created them.
+            </p>
+          </>
+        )}
       </CardContent>
+
+      <SalesQuotaDialog
+        target={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={saveQuota}
+        onDelete={deleteQuota}
+      />
     </Card>
   );
 };
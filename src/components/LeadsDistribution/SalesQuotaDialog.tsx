@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuotaRevenueBasis, SalesQuota, SalesQuotaInput } from '@/types/quota';
+import { CURRENCIES } from '@/utils/currencyUtils';
+
+// Member or team whose quota is being set for a period
+export interface SalesQuotaTarget {
+  name: string;
+  periodLabel: string;
+  values: Pick<SalesQuotaInput, 'team_id' | 'user_id' | 'period_type' | 'period_start'>;
+  quota?: SalesQuota;
+  defaultCurrency: string;
+}
+
+interface SalesQuotaDialogProps {
+  target: SalesQuotaTarget | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: SalesQuotaInput) => Promise<boolean>;
+  onDelete: (quotaId: string) => Promise<boolean>;
+}
+
+export const SalesQuotaDialog: React.FC<SalesQuotaDialogProps> = ({
+  target,
+  onOpenChange,
+  onSave,
+  onDelete,
+}) => {
+  const [revenueTarget, setRevenueTarget] = useState('');
+  const [currency, setCurrency] = useState('');
+  const [dealCountTarget, setDealCountTarget] = useState('');
+  const [revenueBasis, setRevenueBasis] = useState<QuotaRevenueBasis>('deals');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setRevenueTarget(target.quota?.revenue_target?.toString() || '');
+      setCurrency(target.quota?.currency || target.defaultCurrency);
+      setDealCountTarget(target.quota?.deal_count_target?.toString() || '');
+      setRevenueBasis(target.quota?.revenue_basis || 'deals');
+    }
+  }, [target]);
+
+  const hasTarget = revenueTarget !== '' || dealCountTarget !== '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target || !hasTarget) return;
+
+    setIsSubmitting(true);
+    try {
+      const saved = await onSave({
+        ...target.values,
+        revenue_target: revenueTarget === '' ? null : Number(revenueTarget),
+        currency,
+        deal_count_target: dealCountTarget === '' ? null : Math.round(Number(dealCountTarget)),
+        revenue_basis: revenueBasis,
+      });
+      if (saved) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!target?.quota) return;
+
+    setIsSubmitting(true);
+    try {
+      if (await onDelete(target.quota.id)) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Quota for {target?.name}</DialogTitle>
+          <DialogDescription>
+            {target?.periodLabel} · Leave a target empty to not track it
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Revenue Target</label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={revenueTarget}
+                onChange={(e) => setRevenueTarget(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Currency</label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(c => (
+                    <SelectItem key={c.code} value={c.code}>
+                      {c.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Won Deals Target</label>
+              <Input
+                type="number"
+                step="1"
+                min="0"
+                value={dealCountTarget}
+                onChange={(e) => setDealCountTarget(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Revenue Counted From</label>
+              <Select value={revenueBasis} onValueChange={(value) => setRevenueBasis(value as QuotaRevenueBasis)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deals">Closed won deals</SelectItem>
+                  <SelectItem value="invoices">Paid invoices</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter className="sm:justify-between">
+            {target?.quota ? (
+              <Button type="button" variant="outline" onClick={handleDelete} disabled={isSubmitting}>
+                Remove Quota
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || !hasTarget}>
+                {isSubmitting ? 'Saving...' : 'Save Quota'}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,35 +9,67 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useDeals } from '@/hooks/useDeals';
 import { useCachedContacts } from '@/hooks/useCachedContacts';
 import { useTeamData } from '@/hooks/useTeamData';
-import { Deal } from '@/types/deal';
+import { useProductData } from '@/hooks/useProductData';
+import { DealItemInput, ForecastCategory, Pipeline } from '@/types/deal';
+import { CURRENCIES } from '@/utils/currencyUtils';
+import { FORECAST_CATEGORIES } from '@/utils/forecast';
+import { getDealItemsTotal, validateDealItems } from '@/utils/dealItems';
+import { DealItemsEditor } from './DealItemsEditor';
 
 interface CreateDealDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  pipelines: Pipeline[];
+  // Pipeline shown on the board when the dialog was opened
+  defaultPipelineId: string;
 }
 
-export const CreateDealDialog = ({ open, onOpenChange }: CreateDealDialogProps) => {
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  contact_id: '',
+  pipeline_id: '',
+  stage_id: '',
+  value: '',
+  currency: '',
+  probability: '',
+  forecast_category: 'Pipeline' as ForecastCategory,
+  expected_close_date: '',
+  notes: '',
+  source: ''
+};
+
+export const CreateDealDialog = ({ open, onOpenChange, pipelines, defaultPipelineId }: CreateDealDialogProps) => {
   const { createDeal } = useDeals();
   const { contacts } = useCachedContacts();
   const { teams } = useTeamData();
+  const { products } = useProductData();
   
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    contact_id: '',
-    stage: 'Lead' as Deal['stage'],
-    value: '',
-    probability: '10',
-    expected_close_date: '',
-    team_id: '',
-    notes: '',
-    source: ''
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [items, setItems] = useState<DealItemInput[]>([]);
+
+  // Deals start in the first stage of the board's pipeline with that stage's probability
+  const pipeline = pipelines.find(p => p.id === (formData.pipeline_id || defaultPipelineId));
+  // A lost deal needs a loss reason, so new deals can't start in a lost stage
+  const stages = (pipeline?.pipeline_stages || []).filter(s => !s.is_lost);
+  const stage = stages.find(s => s.id === formData.stage_id) || stages[0];
+  const probability = formData.probability || String(stage?.probability ?? 0);
+  const team = teams.find(t => t.id === pipeline?.team_id);
+  const showTeamNames = new Set(pipelines.map(p => p.team_id)).size > 1;
+
+  // Deals default to the currency the team reports in
+  const currency = formData.currency || team?.reporting_currency || teams[0]?.reporting_currency || 'USD';
+
+  // Product prices are only offered in the deal's currency
+  const teamProducts = products.filter(product =>
+    product.team_id === pipeline?.team_id && product.currency === currency
+  );
+  const itemIssues = validateDealItems(items);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.contact_id) {
+    if (!formData.contact_id || !pipeline || !stage || itemIssues.length > 0) {
       return;
     }
 
@@ -46,32 +78,26 @@ export const CreateDealDialog = ({ open, onOpenChange }: CreateDealDialogProps)
         title: formData.title,
         description: formData.description || undefined,
         contact_id: formData.contact_id,
-        stage: formData.stage,
-        value: parseFloat(formData.value) || 0,
-        probability: parseInt(formData.probability) || 0,
+        stage: stage.name,
+        pipeline_id: pipeline.id,
+        stage_id: stage.id,
+        value: items.length > 0 ? getDealItemsTotal(items) : parseFloat(formData.value) || 0,
+        currency,
+        probability: parseInt(probability) || 0,
+        forecast_category: formData.forecast_category,
         expected_close_date: formData.expected_close_date || undefined,
         actual_close_date: undefined,
         created_by: '', // This will be set in the hook
         assigned_to: undefined,
-        team_id: formData.team_id || undefined,
+        team_id: pipeline.team_id,
         closed_at: undefined,
         notes: formData.notes || undefined,
         source: formData.source || undefined
-      });
+      }, items);
       
       onOpenChange(false);
-      setFormData({
-        title: '',
-        description: '',
-        contact_id: '',
-        stage: 'Lead',
-        value: '',
-        probability: '10',
-        expected_close_date: '',
-        team_id: '',
-        notes: '',
-        source: ''
-      });
+      setFormData(EMPTY_FORM);
+      setItems([]);
     } catch (error) {
       console.error('Error creating deal:', error);
     }
@@ -79,7 +105,7 @@ export const CreateDealDialog = ({ open, onOpenChange }: CreateDealDialogProps)
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Deal</DialogTitle>
         </DialogHeader>
@@ -113,11 +139,70 @@ export const CreateDealDialog = ({ open, onOpenChange }: CreateDealDialogProps)
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="value">Deal Value ($)</Label>
+              <Label htmlFor="pipeline_id">Pipeline</Label>
+              <Select
+                value={pipeline?.id || ''}
+                onValueChange={(value) => setFormData({ ...formData, pipeline_id: value, stage_id: '', probability: '' })}
+              >
+                <SelectTrigger id="pipeline_id">
+                  <SelectValue placeholder="Select a pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines.map(p => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {showTeamNames
+                        ? `${teams.find(t => t.id === p.team_id)?.name || 'Team'} – ${p.name}`
+                        : p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="stage_id">Stage</Label>
+              <Select
+                value={stage?.id || ''}
+                onValueChange={(value) => setFormData({ ...formData, stage_id: value, probability: '' })}
+              >
+                <SelectTrigger id="stage_id">
+                  <SelectValue placeholder="Select a stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages.map(s => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="currency">Currency</Label>
+              <Select value={currency} onValueChange={(value) => setFormData({ ...formData, currency: value })}>
+                <SelectTrigger id="currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="value">Deal Value</Label>
               <Input
                 id="value"
                 type="number"
-                value={formData.value}
+                value={items.length > 0 ? getDealItemsTotal(items) : formData.value}
+                disabled={items.length > 0}
                 onChange={(e) => setFormData({ ...formData, value: e.target.value })}
               />
             </div>
@@ -129,20 +214,57 @@ export const CreateDealDialog = ({ open, onOpenChange }: CreateDealDialogProps)
                 type="number"
                 min="0"
                 max="100"
-                value={formData.probability}
+                value={probability}
                 onChange={(e) => setFormData({ ...formData, probability: e.target.value })}
               />
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="expected_close_date">Expected Close Date</Label>
+              <Input
+                id="expected_close_date"
+                type="date"
+                value={formData.expected_close_date}
+                onChange={(e) => setFormData({ ...formData, expected_close_date: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="forecast_category">Forecast Category</Label>
+              <Select
+                value={formData.forecast_category}
+                onValueChange={(value) => setFormData({ ...formData, forecast_category: value as ForecastCategory })}
+              >
+                <SelectTrigger id="forecast_category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORECAST_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>
+                      {category}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div>
-            <Label htmlFor="expected_close_date">Expected Close Date</Label>
-            <Input
-              id="expected_close_date"
-              type="date"
-              value={formData.expected_close_date}
-              onChange={(e) => setFormData({ ...formData, expected_close_date: e.target.value })}
+            <Label>Products</Label>
+            <p className="text-xs text-gray-500 mb-2">
+              A deal with products is worth the total of its lines.
+            </p>
+            <DealItemsEditor
+              items={items}
+              onChange={setItems}
+              products={teamProducts}
+              currency={currency}
             />
+            {itemIssues.length > 0 && (
+              <p className="text-xs text-orange-700 mt-1">{itemIssues[0]}.</p>
+            )}
           </div>
 
           <div>
@@ -159,7 +281,7 @@ export const CreateDealDialog = ({ open, onOpenChange }: CreateDealDialogProps)
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit">
+            <Button type="submit" disabled={itemIssues.length > 0}>
               Create Deal
             </Button>
           </div>
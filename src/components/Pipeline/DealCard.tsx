@@ -3,14 +3,18 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Deal } from '@/types/deal';
-import { DollarSign, Calendar, User } from 'lucide-react';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { DollarSign, Calendar, User, Package } from 'lucide-react';
 
 interface DealCardProps {
   deal: Deal;
   onDragStart: (e: React.DragEvent, deal: Deal) => void;
+  onEditItems: (deal: Deal) => void;
 }
 
-export const DealCard = ({ deal, onDragStart }: DealCardProps) => {
+export const DealCard = ({ deal, onDragStart, onEditItems }: DealCardProps) => {
+  const itemCount = deal.deal_items?.length || 0;
+
   const getProbabilityColor = (probability: number) => {
     if (probability >= 75) return 'bg-green-500';
     if (probability >= 50) return 'bg-yellow-500';
@@ -42,7 +46,7 @@ export const DealCard = ({ deal, onDragStart }: DealCardProps) => {
           
           <div className="flex items-center gap-2 text-xs text-gray-500">
             <DollarSign className="h-3 w-3" />
-            <span>${deal.value?.toLocaleString() || '0'}</span>
+            <span>{formatCurrencyAmount(deal.value || 0, deal.currency)}</span>
           </div>
           
           {deal.expected_close_date && (
@@ -52,6 +56,15 @@ export const DealCard = ({ deal, onDragStart }: DealCardProps) => {
             </div>
           )}
           
+          <button
+            type="button"
+            className="flex items-center gap-2 text-xs text-gray-500 hover:text-gray-900"
+            onClick={() => onEditItems(deal)}
+          >
+            <Package className="h-3 w-3" />
+            <span>{itemCount > 0 ? `${itemCount} product${itemCount === 1 ? '' : 's'}` : 'Add products'}</span>
+          </button>
+
           {deal.assigned_to && (
             <div className="flex items-center gap-2 text-xs text-gray-500">
               <User className="h-3 w-3" />
@@ -0,0 +1,106 @@
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { FileText } from 'lucide-react';
+import { Deal, DealItemInput } from '@/types/deal';
+import { Product } from '@/types/product';
+import { validateDealItems } from '@/utils/dealItems';
+import { DealItemsEditor } from './DealItemsEditor';
+
+interface DealItemsDialogProps {
+  deal: Deal | null;
+  // Products of the deal's team priced in the deal's currency
+  products: Product[];
+  // Won deals can be invoiced with their lines
+  canInvoice: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (deal: Deal, items: DealItemInput[]) => Promise<boolean>;
+  onCreateInvoice: (deal: Deal) => void;
+}
+
+export const DealItemsDialog: React.FC<DealItemsDialogProps> = ({
+  deal,
+  products,
+  canInvoice,
+  onOpenChange,
+  onSave,
+  onCreateInvoice,
+}) => {
+  const [items, setItems] = useState<DealItemInput[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (deal) {
+      setItems((deal.deal_items || []).map(item => ({
+        product_id: item.product_id,
+        description: item.description,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+      })));
+    }
+  }, [deal]);
+
+  const issues = validateDealItems(items);
+
+  const handleSave = async () => {
+    if (!deal || issues.length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      if (await onSave(deal, items)) {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!deal} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deal Products</DialogTitle>
+          <DialogDescription>
+            {deal?.title}. While a deal has products, its value is the total of the lines.
+          </DialogDescription>
+        </DialogHeader>
+
+        {deal && (
+          <DealItemsEditor
+            items={items}
+            onChange={setItems}
+            products={products}
+            currency={deal.currency}
+          />
+        )}
+
+        {issues.length > 0 && (
+          <p className="text-xs text-orange-700">{issues[0]}.</p>
+        )}
+
+        <DialogFooter>
+          {canInvoice && deal && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onCreateInvoice(deal)}
+              disabled={isSubmitting || !deal.deal_items?.length}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Create Invoice
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting || issues.length > 0}>
+            {isSubmitting ? 'Saving...' : 'Save Products'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,149 @@
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { DealItemInput } from '@/types/deal';
+import { DiscountType } from '@/types/invoice';
+import { Product } from '@/types/product';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getLineTotal } from '@/utils/invoiceTotals';
+import { getDealItemsTotal } from '@/utils/dealItems';
+
+interface DealItemsEditorProps {
+  items: DealItemInput[];
+  onChange: (items: DealItemInput[]) => void;
+  // Products of the deal's team priced in the deal's currency
+  products: Product[];
+  currency: string;
+}
+
+const CUSTOM_ITEM = 'custom';
+const NO_DISCOUNT = 'none';
+
+const EMPTY_DEAL_ITEM: DealItemInput = {
+  description: '',
+  quantity: 1,
+  unit_price: 0,
+  discount_type: null,
+  discount_value: 0,
+};
+
+export const DealItemsEditor: React.FC<DealItemsEditorProps> = ({ items, onChange, products, currency }) => {
+  const updateItem = (index: number, changes: Partial<DealItemInput>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    updateItem(index, product
+      ? { product_id: product.id, description: product.name, unit_price: product.price || 0 }
+      : { product_id: null });
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="border rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={item.product_id || CUSTOM_ITEM}
+              onValueChange={(value) => selectProduct(index, value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_ITEM}>Custom Item</SelectItem>
+                {products.map(product => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name} - {formatCurrencyAmount(product.price || 0, product.currency)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Input
+            value={item.description}
+            placeholder="Item description"
+            onChange={(e) => updateItem(index, { description: e.target.value })}
+          />
+
+          <div className="grid grid-cols-4 gap-2">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Quantity</label>
+              <Input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={item.quantity}
+                onChange={(e) => updateItem(index, { quantity: parseFloat(e.target.value) || 1 })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Unit Price</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={item.unit_price}
+                onChange={(e) => updateItem(index, { unit_price: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Discount</label>
+              <Select
+                value={item.discount_type || NO_DISCOUNT}
+                onValueChange={(value) => updateItem(index, {
+                  discount_type: value === NO_DISCOUNT ? null : value as DiscountType,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DISCOUNT}>None</SelectItem>
+                  <SelectItem value="percent">%</SelectItem>
+                  <SelectItem value="fixed">Fixed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Amount</label>
+              <Input
+                type="number"
+                min="0"
+                max={item.discount_type === 'percent' ? 100 : undefined}
+                step="0.01"
+                value={item.discount_value ?? 0}
+                disabled={!item.discount_type}
+                onChange={(e) => updateItem(index, { discount_value: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="text-right text-sm">
+            Line total: <span className="font-semibold">{formatCurrencyAmount(getLineTotal(item), currency)}</span>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...items, { ...EMPTY_DEAL_ITEM }])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Product
+        </Button>
+        {items.length > 0 && (
+          <span className="text-sm">
+            Deal value: <span className="font-semibold">{formatCurrencyAmount(getDealItemsTotal(items), currency)}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useDealLossReasons } from '@/hooks/useDealLossReasons';
+import { Team } from '@/types/team';
+
+interface LossReasonSettingsProps {
+  // Teams the user owns
+  teams: Team[];
+}
+
+export const LossReasonSettings: React.FC<LossReasonSettingsProps> = ({ teams }) => {
+  const { lossReasons, addLossReason, updateLossReason, deleteLossReason } = useDealLossReasons();
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [newName, setNewName] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const teamId = selectedTeamId || teams[0]?.id || '';
+  const teamReasons = lossReasons.filter(reason => reason.team_id === teamId);
+
+  const handleAdd = async () => {
+    if (!newName.trim() || !teamId) return;
+    if (await addLossReason(teamId, newName)) {
+      setNewName('');
+    }
+  };
+
+  // Renames are saved when the field loses focus
+  const handleRename = async (reasonId: string, currentName: string) => {
+    const name = names[reasonId]?.trim();
+    if (name && name !== currentName) {
+      await updateLossReason(reasonId, { name });
+    }
+    setNames(prev => {
+      const rest = { ...prev };
+      delete rest[reasonId];
+      return rest;
+    });
+  };
+
+  if (teams.length === 0) {
+    return <div className="py-6 text-center text-gray-500">Only team owners can manage loss reasons.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Moving a deal into a lost stage asks for one of these reasons. Switched-off reasons stay in reports.
+      </p>
+
+      {teams.length > 1 && (
+        <Select value={teamId} onValueChange={setSelectedTeamId}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Select team" />
+          </SelectTrigger>
+          <SelectContent>
+            {teams.map(team => (
+              <SelectItem key={team.id} value={team.id}>
+                {team.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="space-y-2">
+        {teamReasons.length === 0 && (
+          <div className="py-4 text-center text-gray-500">No loss reasons yet.</div>
+        )}
+        {teamReasons.map(reason => (
+          <div key={reason.id} className="flex items-center gap-2">
+            <Input
+              value={names[reason.id] ?? reason.name}
+              onChange={(e) => setNames(prev => ({ ...prev, [reason.id]: e.target.value }))}
+              onBlur={() => handleRename(reason.id, reason.name)}
+            />
+            <Switch
+              checked={reason.is_active}
+              onCheckedChange={(checked) => updateLossReason(reason.id, { is_active: checked })}
+            />
+            <Button variant="ghost" size="sm" onClick={() => deleteLossReason(reason.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          placeholder="New loss reason"
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <Button onClick={handleAdd} disabled={!newName.trim() || !teamId}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Reason
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Deal, DealLossReason, PipelineStage } from '@/types/deal';
+
+interface LostReasonDialogProps {
+  // Deal being moved and the lost stage it is dropped into
+  move: { deal: Deal; stage: PipelineStage } | null;
+  reasons: DealLossReason[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (deal: Deal, stage: PipelineStage, lostReason: Pick<Deal, 'lost_reason_id' | 'lost_notes'>) => Promise<void>;
+}
+
+export const LostReasonDialog: React.FC<LostReasonDialogProps> = ({
+  move,
+  reasons,
+  onOpenChange,
+  onConfirm,
+}) => {
+  const [reasonId, setReasonId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (move) {
+      setReasonId('');
+      setNotes('');
+    }
+  }, [move]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!move || !reasonId) return;
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(move.deal, move.stage, {
+        lost_reason_id: reasonId,
+        lost_notes: notes.trim() || null,
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!move} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Why was this deal lost?</DialogTitle>
+          <DialogDescription>
+            {move?.deal.title} moves to {move?.stage.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="lost_reason_id">Reason</Label>
+            <Select value={reasonId} onValueChange={setReasonId}>
+              <SelectTrigger id="lost_reason_id">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map(reason => (
+                  <SelectItem key={reason.id} value={reason.id}>
+                    {reason.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {reasons.length === 0 && (
+              <p className="text-xs text-orange-700 mt-1">
+                This team has no loss reasons yet. A team owner can add them under Pipelines.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="lost_notes">Notes</Label>
+            <Textarea
+              id="lost_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !reasonId}>
+              {isSubmitting ? 'Saving...' : 'Mark as Lost'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,7 +3,10 @@ import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PipelineKanban } from './PipelineKanban';
 import { PipelineAnalytics } from './PipelineAnalytics';
-import { BarChart3, Kanban } from 'lucide-react';
+import { PipelineForecast } from './PipelineForecast';
+import { StageAnalytics } from './StageAnalytics';
+import { ProductMix } from './ProductMix';
+import { BarChart3, Filter, Kanban, LineChart, Package } from 'lucide-react';
 
 export const Pipeline = () => {
   return (
@@ -18,6 +21,18 @@ export const Pipeline = () => {
             <BarChart3 className="h-4 w-4" />
             Analytics
           </TabsTrigger>
+          <TabsTrigger value="forecast" className="flex items-center gap-2">
+            <LineChart className="h-4 w-4" />
+            Forecast
+          </TabsTrigger>
+          <TabsTrigger value="stages" className="flex items-center gap-2">
+            <Filter className="h-4 w-4" />
+            Win/Loss
+          </TabsTrigger>
+          <TabsTrigger value="products" className="flex items-center gap-2">
+            <Package className="h-4 w-4" />
+            Product Mix
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="kanban">
@@ -27,6 +42,18 @@ export const Pipeline = () => {
         <TabsContent value="analytics">
           <PipelineAnalytics />
         </TabsContent>
+
+        <TabsContent value="forecast">
+          <PipelineForecast />
+        </TabsContent>
+
+        <TabsContent value="stages">
+          <StageAnalytics />
+        </TabsContent>
+
+        <TabsContent value="products">
+          <ProductMix />
+        </TabsContent>
       </Tabs>
     </div>
   );
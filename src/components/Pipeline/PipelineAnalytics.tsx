@@ -2,22 +2,36 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useDeals } from '@/hooks/useDeals';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, DollarSign, Target, Users } from 'lucide-react';
 
 export const PipelineAnalytics = () => {
   const { analytics, deals } = useDeals();
+  const { reportingCurrency, toReportingCurrency } = useExchangeRates();
 
   if (!analytics) {
     return <div className="p-8 text-center">Loading analytics...</div>;
   }
 
+  // Deal values are added up in the reporting currency; deals without a known rate are left out
+  const convertedDeals = deals.map(deal => ({
+    ...deal,
+    reportingValue: toReportingCurrency(deal.value || 0, deal.currency),
+  }));
+  const unconvertedCount = convertedDeals.filter(deal => deal.reportingValue === null).length;
+  const totalValue = convertedDeals.reduce((sum, deal) => sum + (deal.reportingValue ?? 0), 0);
+  const convertedCount = convertedDeals.length - unconvertedCount;
+  const averageDealSize = convertedCount > 0 ? totalValue / convertedCount : 0;
+  const formatValue = (value: number) => formatCurrencyAmount(value, reportingCurrency);
+
   const stageData = Object.entries(analytics.stage_distribution || {}).map(([stage, count]) => ({
     stage,
     count,
-    value: deals
+    value: convertedDeals
       .filter(deal => deal.stage === stage)
-      .reduce((sum, deal) => sum + (deal.value || 0), 0)
+      .reduce((sum, deal) => sum + (deal.reportingValue ?? 0), 0)
   }));
 
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
@@ -41,7 +55,12 @@ export const PipelineAnalytics = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${analytics.total_value.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatValue(totalValue)}</div>
+            {unconvertedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {unconvertedCount} {unconvertedCount === 1 ? 'deal' : 'deals'} without a {reportingCurrency} rate not included
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -61,7 +80,7 @@ export const PipelineAnalytics = () => {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${analytics.average_deal_size.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatValue(averageDealSize)}</div>
           </CardContent>
         </Card>
       </div>
@@ -96,7 +115,7 @@ export const PipelineAnalytics = () => {
                   cx="50%"
                   cy="50%"
                   labelLine={false}
-                  label={({ stage, value }) => `${stage}: $${value.toLocaleString()}`}
+                  label={({ stage, value }) => `${stage}: ${formatValue(value)}`}
                   outerRadius={80}
                   fill="#8884d8"
                   dataKey="value"
@@ -105,7 +124,7 @@ export const PipelineAnalytics = () => {
                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                   ))}
                 </Pie>
-                <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+                <Tooltip formatter={(value) => formatValue(Number(value))} />
               </PieChart>
             </ResponsiveContainer>
           </CardContent>
@@ -0,0 +1,285 @@
+
+import React, { useState } from 'react';
+import { addMonths, addQuarters } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDeals } from '@/hooks/useDeals';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useUserData } from '@/hooks/useUserData';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { FORECAST_CATEGORIES, getForecast, getForecastDate, getPeriodInfo, getPeriodStart, sumForecastTotals } from '@/utils/forecast';
+import { isClosedStage } from '@/utils/pipelines';
+import { ForecastCategory, ForecastGrouping, ForecastPeriodType } from '@/types/deal';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CheckCircle, Scale, Target, TrendingUp } from 'lucide-react';
+
+// Past periods show what was won, later ones what is expected
+const PERIOD_RANGES: Record<ForecastPeriodType, { before: number; count: number }> = {
+  month: { before: 2, count: 6 },
+  quarter: { before: 1, count: 4 },
+};
+
+export const PipelineForecast = () => {
+  const { deals, updateDeal, loading } = useDeals();
+  const { stages, loading: pipelinesLoading } = usePipelines();
+  const { reportingCurrency, toReportingCurrency } = useExchangeRates();
+  const { teams } = useTeamData();
+  const { getUserNameById } = useUserData();
+  const [periodType, setPeriodType] = useState<ForecastPeriodType>('month');
+  const [grouping, setGrouping] = useState<ForecastGrouping>('assignee');
+  const [selectedPeriodKey, setSelectedPeriodKey] = useState('');
+
+  if (loading || pipelinesLoading) {
+    return <div className="p-8 text-center">Loading forecast...</div>;
+  }
+
+  const range = PERIOD_RANGES[periodType];
+  const today = new Date();
+  const from = periodType === 'quarter' ? addQuarters(today, -range.before) : addMonths(today, -range.before);
+  const currentKey = getPeriodInfo(getPeriodStart(today, periodType), periodType).key;
+  const periods = getForecast(deals, stages, {
+    periodType,
+    from,
+    count: range.count,
+    grouping,
+    convert: deal => toReportingCurrency(deal.value || 0, deal.currency),
+  });
+  const totals = sumForecastTotals(periods);
+  const selectedPeriod = periods.find(period => period.key === (selectedPeriodKey || currentKey)) || periods[0];
+
+  const getStage = (stageId?: string | null) => stages.find(stage => stage.id === stageId);
+  const isOpen = (stageId?: string | null) => !isClosedStage(getStage(stageId));
+  const undatedCount = deals.filter(deal => isOpen(deal.stage_id) && !deal.expected_close_date).length;
+  const periodDeals = deals.filter(deal => {
+    const date = getForecastDate(deal, getStage(deal.stage_id));
+    return isOpen(deal.stage_id) && date && getPeriodInfo(getPeriodStart(date, periodType), periodType).key === selectedPeriod.key;
+  });
+
+  const formatValue = (value: number) => formatCurrencyAmount(value, reportingCurrency);
+  const getGroupName = (id: string) => {
+    if (grouping === 'team') return teams.find(team => team.id === id)?.name || 'No team';
+    return id ? getUserNameById(id) : 'Unassigned';
+  };
+
+  const handlePeriodTypeChange = (value: string) => {
+    setPeriodType(value as ForecastPeriodType);
+    setSelectedPeriodKey('');
+  };
+
+  const handleCategoryChange = async (dealId: string, category: ForecastCategory) => {
+    try {
+      await updateDeal(dealId, { forecast_category: category });
+    } catch (error) {
+      console.error('Error updating forecast category:', error);
+    }
+  };
+
+  const chartData = periods.map(period => ({
+    label: period.label,
+    weighted: Math.round(period.weighted),
+    commit: Math.round(period.commit),
+    best_case: Math.round(period.best_case),
+    closed_won: Math.round(period.closed_won),
+  }));
+
+  const summaryCards = [
+    { title: 'Weighted Pipeline', value: totals.weighted, icon: Scale, note: `${totals.open_deals} open deals` },
+    { title: 'Commit', value: totals.commit, icon: Target, note: 'Won plus committed deals' },
+    { title: 'Best Case', value: totals.best_case, icon: TrendingUp, note: 'Commit plus best case deals' },
+    { title: 'Closed Won', value: totals.closed_won, icon: CheckCircle, note: `${totals.won_deals} won deals` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Values in {reportingCurrency}. Open deals count in the period of their expected close date, won deals in the period they closed.
+        </p>
+        <div className="flex gap-2">
+          <Select value={periodType} onValueChange={handlePeriodTypeChange}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Monthly</SelectItem>
+              <SelectItem value="quarter">Quarterly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as ForecastGrouping)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="assignee">By assignee</SelectItem>
+              <SelectItem value="team">By team</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {summaryCards.map(card => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+              <card.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatValue(card.value)}</div>
+              <p className="text-xs text-muted-foreground">{card.note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Forecast by {periodType === 'quarter' ? 'Quarter' : 'Month'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis />
+              <Tooltip formatter={(value) => formatValue(Number(value))} />
+              <Legend />
+              <Bar dataKey="weighted" name="Weighted" fill="#8884d8" />
+              <Bar dataKey="commit" name="Commit" fill="#0088FE" />
+              <Bar dataKey="best_case" name="Best Case" fill="#FFBB28" />
+              <Bar dataKey="closed_won" name="Closed Won" fill="#00C49F" />
+            </BarChart>
+          </ResponsiveContainer>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Pipeline</TableHead>
+                <TableHead className="text-right">Weighted</TableHead>
+                <TableHead className="text-right">Commit</TableHead>
+                <TableHead className="text-right">Best Case</TableHead>
+                <TableHead className="text-right">Closed Won</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map(period => (
+                <TableRow
+                  key={period.key}
+                  className={`cursor-pointer ${period.key === selectedPeriod.key ? 'bg-muted' : ''}`}
+                  onClick={() => setSelectedPeriodKey(period.key)}
+                >
+                  <TableCell className="font-medium">
+                    {period.label}
+                    {period.key === currentKey && <span className="ml-2 text-xs text-gray-500">(current)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatValue(period.pipeline)}</TableCell>
+                  <TableCell className="text-right">{formatValue(period.weighted)}</TableCell>
+                  <TableCell className="text-right">{formatValue(period.commit)}</TableCell>
+                  <TableCell className="text-right">{formatValue(period.best_case)}</TableCell>
+                  <TableCell className="text-right">{formatValue(period.closed_won)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {undatedCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {undatedCount} open {undatedCount === 1 ? 'deal has' : 'deals have'} no expected close date and {undatedCount === 1 ? 'is' : 'are'} not forecast.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedPeriod.label} by {grouping === 'team' ? 'Team' : 'Assignee'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selectedPeriod.groups.length === 0 ? (
+              <p className="py-6 text-center text-gray-500">No deals in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{grouping === 'team' ? 'Team' : 'Assignee'}</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                    <TableHead className="text-right">Commit</TableHead>
+                    <TableHead className="text-right">Best Case</TableHead>
+                    <TableHead className="text-right">Won</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedPeriod.groups.map(group => (
+                    <TableRow key={group.id}>
+                      <TableCell className="font-medium">{getGroupName(group.id)}</TableCell>
+                      <TableCell className="text-right">{formatValue(group.weighted)}</TableCell>
+                      <TableCell className="text-right">{formatValue(group.commit)}</TableCell>
+                      <TableCell className="text-right">{formatValue(group.best_case)}</TableCell>
+                      <TableCell className="text-right">{formatValue(group.closed_won)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Deals in {selectedPeriod.label}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {periodDeals.length === 0 ? (
+              <p className="py-6 text-center text-gray-500">No open deals expected to close in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Deal</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Probability</TableHead>
+                    <TableHead>Category</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periodDeals.map(deal => (
+                    <TableRow key={deal.id}>
+                      <TableCell>
+                        <div className="font-medium">{deal.title}</div>
+                        <div className="text-xs text-gray-500">{deal.stage}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrencyAmount(deal.value || 0, deal.currency)}</TableCell>
+                      <TableCell className="text-right">{deal.probability}%</TableCell>
+                      <TableCell>
+                        <Select
+                          value={deal.forecast_category || 'Pipeline'}
+                          onValueChange={(value) => handleCategoryChange(deal.id, value as ForecastCategory)}
+                        >
+                          <SelectTrigger className="w-[130px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FORECAST_CATEGORIES.map(category => (
+                              <SelectItem key={category} value={category}>
+                                {category}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -1,32 +1,66 @@
 
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useDeals } from '@/hooks/useDeals';
-import { Deal } from '@/types/deal';
-import { DollarSign, Calendar, User, Plus } from 'lucide-react';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useDealLossReasons } from '@/hooks/useDealLossReasons';
+import { useTeamData } from '@/hooks/useTeamData';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useProductData } from '@/hooks/useProductData';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getStageColor } from '@/utils/pipelines';
+import { Deal, DealItemInput, PipelineStage } from '@/types/deal';
+import { Plus, Settings } from 'lucide-react';
 import { CreateDealDialog } from './CreateDealDialog';
 import { DealCard } from './DealCard';
-
-const PIPELINE_STAGES = [
-  { key: 'Lead', label: 'Lead', color: 'bg-gray-100' },
-  { key: 'Qualified', label: 'Qualified', color: 'bg-blue-100' },
-  { key: 'Proposal', label: 'Proposal', color: 'bg-yellow-100' },
-  { key: 'Negotiation', label: 'Negotiation', color: 'bg-orange-100' },
-  { key: 'Closed Won', label: 'Closed Won', color: 'bg-green-100' },
-  { key: 'Closed Lost', label: 'Closed Lost', color: 'bg-red-100' },
-];
+import { DealItemsDialog } from './DealItemsDialog';
+import { LostReasonDialog } from './LostReasonDialog';
+import { PipelineSettingsDialog } from './PipelineSettingsDialog';
 
 export const PipelineKanban = () => {
-  const { deals, updateDealStage, loading } = useDeals();
+  const { deals, updateDealStage, saveDealItems, loading } = useDeals();
+  const { pipelines, loading: pipelinesLoading, refetch: refetchPipelines } = usePipelines();
+  const { getActiveReasons, refetch: refetchLossReasons } = useDealLossReasons();
+  const { teams, isTeamOwner } = useTeamData();
+  const { reportingCurrency, toReportingCurrency } = useExchangeRates();
+  const { products } = useProductData();
+  const navigate = useNavigate();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [selectedPipelineId, setSelectedPipelineId] = useState('');
   const [draggedDeal, setDraggedDeal] = useState<Deal | null>(null);
+  const [lostMove, setLostMove] = useState<{ deal: Deal; stage: PipelineStage } | null>(null);
+  const [itemsDeal, setItemsDeal] = useState<Deal | null>(null);
+
+  // Until one is picked, show the default pipeline of the first team
+  const pipeline = pipelines.find(p => p.id === selectedPipelineId)
+    || pipelines.find(p => p.is_default)
+    || pipelines[0];
+  const stages = pipeline?.pipeline_stages || [];
+  const showTeamNames = new Set(pipelines.map(p => p.team_id)).size > 1;
+
+  const getPipelineLabel = (teamId: string, name: string) => {
+    if (!showTeamNames) return name;
+    const team = teams.find(t => t.id === teamId);
+    return team ? `${team.name} – ${name}` : name;
+  };
+
+  const getDealsByStage = (stageId: string) => {
+    return deals.filter(deal => deal.stage_id === stageId);
+  };
 
-  const getDealsByStage = (stage: string) => {
-    return deals.filter(deal => deal.stage === stage);
+  // The invoice form picks the deal up from the URL and copies its contact, currency and lines
+  const createInvoiceFromDeal = (deal: Deal) => {
+    navigate(`/invoices?deal=${deal.id}`);
   };
 
+  const handleSaveItems = (deal: Deal, items: DealItemInput[]) => saveDealItems(deal.id, items);
+
   const handleDragStart = (e: React.DragEvent, deal: Deal) => {
     setDraggedDeal(deal);
     e.dataTransfer.effectAllowed = 'move';
@@ -37,74 +71,153 @@ export const PipelineKanban = () => {
     e.dataTransfer.dropEffect = 'move';
   };
 
-  const handleDrop = async (e: React.DragEvent, targetStage: string) => {
+  const handleDrop = async (e: React.DragEvent, targetStage: PipelineStage) => {
     e.preventDefault();
-    
-    if (draggedDeal && draggedDeal.stage !== targetStage) {
-      await updateDealStage(draggedDeal.id, targetStage as Deal['stage']);
+
+    if (draggedDeal && draggedDeal.stage_id !== targetStage.id) {
+      // Losing a deal needs a reason, which is asked for before the move
+      if (targetStage.is_lost) {
+        setLostMove({ deal: draggedDeal, stage: targetStage });
+      } else {
+        const deal = draggedDeal;
+        await updateDealStage(deal.id, targetStage.id);
+
+        if (targetStage.is_won && deal.deal_items?.length) {
+          toast(`${deal.title} is won`, {
+            description: 'Invoice its products?',
+            action: { label: 'Create Invoice', onClick: () => createInvoiceFromDeal(deal) },
+          });
+        }
+      }
     }
-    
+
     setDraggedDeal(null);
   };
 
-  const calculateStageValue = (stage: string) => {
-    return getDealsByStage(stage).reduce((sum, deal) => sum + (deal.value || 0), 0);
+  // Deals in a currency without a known rate can't be added up, so they're left out
+  const calculateStageValue = (stageId: string) => {
+    return getDealsByStage(stageId).reduce(
+      (sum, deal) => sum + (toReportingCurrency(deal.value || 0, deal.currency) ?? 0), 0
+    );
   };
 
-  if (loading) {
+  if (loading || pipelinesLoading) {
     return <div className="p-8 text-center">Loading pipeline...</div>;
   }
 
   return (
     <div className="p-6">
-      <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-bold">Sales Pipeline</h2>
-        <Button onClick={() => setCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Deal
-        </Button>
-      </div>
-
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4 overflow-x-auto">
-        {PIPELINE_STAGES.map((stage) => {
-          const stageDeals = getDealsByStage(stage.key);
-          const stageValue = calculateStageValue(stage.key);
-
-          return (
-            <Card
-              key={stage.key}
-              className={`min-h-[600px] ${stage.color}`}
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, stage.key)}
-            >
-              <CardHeader className="pb-3">
-                <CardTitle className="text-sm font-medium flex items-center justify-between">
-                  <span>{stage.label}</span>
-                  <Badge variant="secondary" className="text-xs">
-                    {stageDeals.length}
-                  </Badge>
-                </CardTitle>
-                <div className="text-xs text-gray-600">
-                  ${stageValue.toLocaleString()}
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {stageDeals.map((deal) => (
-                  <DealCard
-                    key={deal.id}
-                    deal={deal}
-                    onDragStart={handleDragStart}
-                  />
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <h2 className="text-2xl font-bold">Sales Pipeline</h2>
+          {pipelines.length > 1 && pipeline && (
+            <Select value={pipeline.id} onValueChange={setSelectedPipelineId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pipelines.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {getPipelineLabel(p.team_id, p.name)}
+                  </SelectItem>
                 ))}
-              </CardContent>
-            </Card>
-          );
-        })}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {teams.some(team => isTeamOwner(team.id)) && (
+            <Button variant="outline" onClick={() => setSettingsOpen(true)}>
+              <Settings className="h-4 w-4 mr-2" />
+              Pipelines
+            </Button>
+          )}
+          <Button onClick={() => setCreateDialogOpen(true)} disabled={!pipeline}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Deal
+          </Button>
+        </div>
       </div>
 
-      <CreateDealDialog
-        open={createDialogOpen}
-        onOpenChange={setCreateDialogOpen}
+      {!pipeline ? (
+        <p className="text-center text-gray-500 py-12">Join or create a team to start a pipeline.</p>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {stages.map((stage, index) => {
+            const stageDeals = getDealsByStage(stage.id);
+            const stageValue = calculateStageValue(stage.id);
+
+            return (
+              <Card
+                key={stage.id}
+                className={`min-h-[600px] min-w-[220px] flex-1 ${getStageColor(stage, index)}`}
+                onDragOver={handleDragOver}
+                onDrop={(e) => handleDrop(e, stage)}
+              >
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center justify-between">
+                    <span>{stage.name}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {stageDeals.length}
+                    </Badge>
+                  </CardTitle>
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>{formatCurrencyAmount(stageValue, reportingCurrency)}</span>
+                    <span>{stage.probability}%</span>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {stageDeals.map((deal) => (
+                    <DealCard
+                      key={deal.id}
+                      deal={deal}
+                      onDragStart={handleDragStart}
+                      onEditItems={setItemsDeal}
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {pipeline && (
+        <CreateDealDialog
+          open={createDialogOpen}
+          onOpenChange={setCreateDialogOpen}
+          pipelines={pipelines}
+          defaultPipelineId={pipeline.id}
+        />
+      )}
+
+      <LostReasonDialog
+        move={lostMove}
+        reasons={getActiveReasons(lostMove?.deal.team_id)}
+        onOpenChange={(open) => !open && setLostMove(null)}
+        onConfirm={(deal, stage, lostReason) => updateDealStage(deal.id, stage.id, lostReason)}
+      />
+
+      <DealItemsDialog
+        deal={itemsDeal}
+        products={products.filter(product =>
+          product.team_id === itemsDeal?.team_id && product.currency === itemsDeal?.currency
+        )}
+        canInvoice={!!stages.find(stage => stage.id === itemsDeal?.stage_id)?.is_won}
+        onOpenChange={(open) => !open && setItemsDeal(null)}
+        onSave={handleSaveItems}
+        onCreateInvoice={createInvoiceFromDeal}
+      />
+
+      <PipelineSettingsDialog
+        open={settingsOpen}
+        onOpenChange={(open) => {
+          setSettingsOpen(open);
+          if (!open) {
+            refetchPipelines();
+            refetchLossReasons();
+          }
+        }}
       />
     </div>
   );
@@ -0,0 +1,304 @@
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowDown, ArrowLeft, ArrowUp, Edit, Plus, Trash2 } from 'lucide-react';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useTeamData } from '@/hooks/useTeamData';
+import { Pipeline, PipelineStageInput } from '@/types/deal';
+import { validatePipelineStages } from '@/utils/pipelines';
+import { LossReasonSettings } from './LossReasonSettings';
+
+interface PipelineSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type StageDraft = PipelineStageInput & { id?: string };
+
+interface PipelineEditorState {
+  pipeline: Pipeline;
+  name: string;
+  stages: StageDraft[];
+}
+
+export const PipelineSettingsDialog: React.FC<PipelineSettingsDialogProps> = ({ open, onOpenChange }) => {
+  const [editor, setEditor] = useState<PipelineEditorState | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newTeamId, setNewTeamId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { pipelines, createPipeline, renamePipeline, setDefaultPipeline, deletePipeline, saveStages } = usePipelines();
+  const { teams, isTeamOwner } = useTeamData();
+
+  const ownedTeams = teams.filter(team => isTeamOwner(team.id));
+  const ownedPipelines = pipelines.filter(pipeline => isTeamOwner(pipeline.team_id));
+  const getTeamName = (teamId: string) => teams.find(team => team.id === teamId)?.name || 'Unknown team';
+  const teamId = newTeamId || ownedTeams[0]?.id || '';
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setEditor(null);
+    onOpenChange(nextOpen);
+  };
+
+  const startEdit = (pipeline: Pipeline) => {
+    setEditor({
+      pipeline,
+      name: pipeline.name,
+      stages: pipeline.pipeline_stages.map(stage => ({
+        id: stage.id,
+        name: stage.name,
+        probability: stage.probability,
+        is_won: stage.is_won,
+        is_lost: stage.is_lost,
+      })),
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim() || !teamId) return;
+
+    setSaving(true);
+    const created = await createPipeline(teamId, newName);
+    setSaving(false);
+
+    if (created) {
+      setNewName('');
+      startEdit(created);
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    if (!editor) return;
+    setEditor({
+      ...editor,
+      stages: editor.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)),
+    });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    if (!editor) return;
+    const stages = [...editor.stages];
+    const [stage] = stages.splice(index, 1);
+    stages.splice(index + offset, 0, stage);
+    setEditor({ ...editor, stages });
+  };
+
+  const handleSave = async () => {
+    if (!editor || !editor.name.trim()) return;
+
+    setSaving(true);
+    const renamed = editor.name.trim() === editor.pipeline.name
+      || await renamePipeline(editor.pipeline.id, editor.name);
+    const saved = renamed && await saveStages(editor.pipeline.id, editor.stages);
+    setSaving(false);
+
+    if (saved) setEditor(null);
+  };
+
+  const issues = editor ? validatePipelineStages(editor.stages) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Pipelines</DialogTitle>
+          <DialogDescription>
+            Deals move through the stages of their pipeline from left to right. Won and lost stages close the deal.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editor ? (
+          <div className="flex-1 min-h-0 flex flex-col gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <Input
+                value={editor.name}
+                onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+              />
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 max-h-[45vh]">
+              <div className="space-y-2 pr-3">
+                {editor.stages.map((stage, index) => (
+                  <div key={stage.id || `new-${index}`} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={stage.name}
+                        placeholder="Stage name"
+                        onChange={(e) => updateStage(index, { name: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        className="w-20"
+                        value={stage.probability}
+                        onChange={(e) => updateStage(index, { probability: Math.round(Number(e.target.value)) })}
+                      />
+                      <span className="text-sm text-gray-500">%</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === 0}
+                        onClick={() => moveStage(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === editor.stages.length - 1}
+                        onClick={() => moveStage(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditor({ ...editor, stages: editor.stages.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex gap-4 text-sm">
+                      <label className="flex items-center gap-2">
+                        <Checkbox
+                          checked={stage.is_won}
+                          onCheckedChange={(checked) => updateStage(index, { is_won: checked === true, is_lost: false })}
+                        />
+                        Won
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <Checkbox
+                          checked={stage.is_lost}
+                          onCheckedChange={(checked) => updateStage(index, { is_lost: checked === true, is_won: false })}
+                        />
+                        Lost
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditor({
+                    ...editor,
+                    stages: [...editor.stages, { name: '', probability: 50, is_won: false, is_lost: false }],
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Stage
+                </Button>
+              </div>
+            </ScrollArea>
+
+            {issues.length > 0 && (
+              <p className="text-xs text-orange-700">{issues[0]}.</p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditor(null)} disabled={saving}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saving || !editor.name.trim() || issues.length > 0}>
+                {saving ? 'Saving...' : 'Save Pipeline'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Tabs defaultValue="pipelines" className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="self-start">
+              <TabsTrigger value="pipelines">Pipelines</TabsTrigger>
+              <TabsTrigger value="loss-reasons">Loss Reasons</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="pipelines" className="flex-1 min-h-0 overflow-y-auto space-y-3">
+              {ownedPipelines.length === 0 ? (
+                <div className="py-6 text-center text-gray-500">No pipelines yet.</div>
+              ) : (
+                ownedPipelines.map(pipeline => (
+                  <div key={pipeline.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{pipeline.name}</span>
+                          {pipeline.is_default && <Badge>Default</Badge>}
+                        </div>
+                        {ownedTeams.length > 1 && (
+                          <div className="text-xs text-gray-500">{getTeamName(pipeline.team_id)}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {!pipeline.is_default && (
+                          <Button variant="outline" size="sm" onClick={() => setDefaultPipeline(pipeline)}>
+                            Set Default
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => startEdit(pipeline)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deletePipeline(pipeline)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {pipeline.pipeline_stages.map(stage => (
+                        <Badge key={stage.id} variant="outline" className="text-xs">
+                          {stage.name} · {stage.probability}%
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+
+              {ownedTeams.length > 0 && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {ownedTeams.length > 1 && (
+                    <Select value={teamId} onValueChange={setNewTeamId}>
+                      <SelectTrigger className="sm:w-[180px]">
+                        <SelectValue placeholder="Select team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ownedTeams.map(team => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Input
+                    value={newName}
+                    placeholder="New pipeline name"
+                    onChange={(e) => setNewName(e.target.value)}
+                  />
+                  <Button onClick={handleCreate} disabled={saving || !newName.trim() || !teamId}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Pipeline
+                  </Button>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="loss-reasons" className="flex-1 min-h-0 overflow-y-auto">
+              <LossReasonSettings teams={ownedTeams} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
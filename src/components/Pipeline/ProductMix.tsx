@@ -0,0 +1,166 @@
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDeals } from '@/hooks/useDeals';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useProductData } from '@/hooks/useProductData';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useTeamData } from '@/hooks/useTeamData';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getStageProductMix } from '@/utils/dealItems';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
+
+// Products beyond the largest ones are added up in the chart
+const CHART_PRODUCTS = 5;
+const OTHER_PRODUCTS = 'Other';
+
+export const ProductMix = () => {
+  const { deals, loading } = useDeals();
+  const { pipelines, loading: pipelinesLoading } = usePipelines();
+  const { products } = useProductData();
+  const { reportingCurrency, toReportingCurrency } = useExchangeRates();
+  const { teams } = useTeamData();
+  const [selectedPipelineId, setSelectedPipelineId] = useState('');
+
+  if (loading || pipelinesLoading) {
+    return <div className="p-8 text-center">Loading product mix...</div>;
+  }
+
+  const pipeline = pipelines.find(p => p.id === selectedPipelineId)
+    || pipelines.find(p => p.is_default)
+    || pipelines[0];
+
+  if (!pipeline) {
+    return <div className="p-8 text-center text-gray-500">Join or create a team to start a pipeline.</div>;
+  }
+
+  const pipelineDeals = deals.filter(deal => deal.pipeline_id === pipeline.id);
+  const mix = getStageProductMix(
+    pipeline.pipeline_stages,
+    pipelineDeals,
+    (amount, currency) => toReportingCurrency(amount, currency) ?? 0
+  ).map(stageMix => ({
+    ...stageMix,
+    // Lines keep the name they were added with; show the product's current name
+    products: stageMix.products.map(entry => ({
+      ...entry,
+      name: products.find(product => product.id === entry.product_id)?.name || entry.name,
+    })),
+  }));
+  const formatValue = (value: number) => formatCurrencyAmount(value, reportingCurrency);
+  const showTeamNames = new Set(pipelines.map(p => p.team_id)).size > 1;
+  const dealsWithoutItems = pipelineDeals.filter(deal => !deal.deal_items?.length).length;
+
+  // Stack the largest products across the pipeline; the rest is grouped
+  const totalsByName = new Map<string, number>();
+  mix.forEach(stageMix => stageMix.products.forEach(entry => {
+    totalsByName.set(entry.name, (totalsByName.get(entry.name) || 0) + entry.value);
+  }));
+  const chartProducts = Array.from(totalsByName.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CHART_PRODUCTS)
+    .map(([name]) => name);
+  const hasOtherProducts = totalsByName.size > chartProducts.length;
+
+  const chartData = mix.map(stageMix => {
+    const row: Record<string, string | number> = { stage: stageMix.stage.name };
+    chartProducts.forEach(name => {
+      row[name] = stageMix.products.filter(entry => entry.name === name).reduce((sum, entry) => sum + entry.value, 0);
+    });
+    if (hasOtherProducts) {
+      row[OTHER_PRODUCTS] = stageMix.products
+        .filter(entry => !chartProducts.includes(entry.name))
+        .reduce((sum, entry) => sum + entry.value, 0);
+    }
+    return row;
+  });
+  const chartKeys = hasOtherProducts ? [...chartProducts, OTHER_PRODUCTS] : chartProducts;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Products on the deals in each stage. Values in {reportingCurrency}
+          {dealsWithoutItems > 0 && `; ${dealsWithoutItems} deal${dealsWithoutItems === 1 ? ' has' : 's have'} no products`}.
+        </p>
+        {pipelines.length > 1 && (
+          <Select value={pipeline.id} onValueChange={setSelectedPipelineId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines.map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  {showTeamNames ? `${teams.find(t => t.id === p.team_id)?.name || 'Team'} – ${p.name}` : p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Product Value by Stage</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {chartKeys.length === 0 ? (
+            <p className="py-6 text-center text-gray-500">No deals in this pipeline have products yet.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="stage" angle={-45} textAnchor="end" height={80} />
+                <YAxis />
+                <Tooltip formatter={(value) => formatValue(Number(value))} />
+                <Legend />
+                {chartKeys.map((name, index) => (
+                  <Bar key={name} dataKey={name} stackId="products" fill={COLORS[index % COLORS.length]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {mix.filter(stageMix => stageMix.products.length > 0).map(stageMix => (
+          <Card key={stageMix.stage.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>{stageMix.stage.name}</span>
+                <span className="text-sm font-normal text-gray-600">{formatValue(stageMix.value)}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Deals</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stageMix.products.map(entry => (
+                    <TableRow key={entry.product_id || entry.name}>
+                      <TableCell className="font-medium">{entry.name}</TableCell>
+                      <TableCell className="text-right">{entry.deals}</TableCell>
+                      <TableCell className="text-right">{entry.quantity}</TableCell>
+                      <TableCell className="text-right">{formatValue(entry.value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
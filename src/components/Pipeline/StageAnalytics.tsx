@@ -0,0 +1,206 @@
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDeals } from '@/hooks/useDeals';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useDealStageHistory } from '@/hooks/useDealStageHistory';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useTeamData } from '@/hooks/useTeamData';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getStageFunnel, getStageStays, getStageVelocity, getWinLossReport } from '@/utils/stageAnalytics';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Clock, Percent, ThumbsDown, ThumbsUp } from 'lucide-react';
+
+const COLORS = ['#FF8042', '#FFBB28', '#8884D8', '#0088FE', '#00C49F', '#82CA9D'];
+
+const formatDays = (days: number | null) => (days === null ? '—' : `${days.toFixed(1)} days`);
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+export const StageAnalytics = () => {
+  const { deals, loading } = useDeals();
+  const { pipelines, loading: pipelinesLoading } = usePipelines();
+  const { stageChanges, loading: historyLoading } = useDealStageHistory();
+  const { reportingCurrency, toReportingCurrency } = useExchangeRates();
+  const { teams } = useTeamData();
+  const [selectedPipelineId, setSelectedPipelineId] = useState('');
+
+  if (loading || pipelinesLoading || historyLoading) {
+    return <div className="p-8 text-center">Loading stage analytics...</div>;
+  }
+
+  const pipeline = pipelines.find(p => p.id === selectedPipelineId)
+    || pipelines.find(p => p.is_default)
+    || pipelines[0];
+
+  if (!pipeline) {
+    return <div className="p-8 text-center text-gray-500">Join or create a team to start a pipeline.</div>;
+  }
+
+  const stages = pipeline.pipeline_stages;
+  const pipelineDeals = deals.filter(deal => deal.pipeline_id === pipeline.id);
+  const stays = getStageStays(pipelineDeals, stageChanges);
+  const funnel = getStageFunnel(stages, stays);
+  const velocity = getStageVelocity(stages, stays);
+  const report = getWinLossReport(pipelineDeals, stages, deal => toReportingCurrency(deal.value || 0, deal.currency));
+  const formatValue = (value: number) => formatCurrencyAmount(value, reportingCurrency);
+  const showTeamNames = new Set(pipelines.map(p => p.team_id)).size > 1;
+  const firstReached = funnel[0]?.reached || 0;
+
+  const velocityData = velocity.map(entry => ({
+    stage: entry.stage.name,
+    days: entry.average_days === null ? 0 : Number(entry.average_days.toFixed(1)),
+  }));
+
+  const summaryCards = [
+    { title: 'Win Rate', value: formatRate(report.win_rate), icon: Percent, note: `${report.won_count + report.lost_count} closed deals` },
+    { title: 'Won', value: formatValue(report.won_value), icon: ThumbsUp, note: `${report.won_count} deals, ${formatDays(report.average_won_cycle_days)} on average` },
+    { title: 'Lost', value: formatValue(report.lost_value), icon: ThumbsDown, note: `${report.lost_count} deals, ${formatDays(report.average_lost_cycle_days)} on average` },
+    { title: 'Sales Cycle', value: formatDays(report.average_won_cycle_days), icon: Clock, note: 'From creation to winning' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Built from the stage changes of each deal. Values in {reportingCurrency}.
+        </p>
+        {pipelines.length > 1 && (
+          <Select value={pipeline.id} onValueChange={setSelectedPipelineId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines.map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  {showTeamNames ? `${teams.find(t => t.id === p.team_id)?.name || 'Team'} – ${p.name}` : p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {summaryCards.map(card => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+              <card.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value}</div>
+              <p className="text-xs text-muted-foreground">{card.note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Conversion Funnel</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Reached</TableHead>
+                  <TableHead className="text-right">From Previous</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {funnel.map(step => (
+                  <TableRow key={step.stage.id}>
+                    <TableCell className="min-w-[160px]">
+                      <div className="font-medium">{step.stage.name}</div>
+                      <Progress value={firstReached > 0 ? (step.reached / firstReached) * 100 : 0} className="h-2 mt-1" />
+                    </TableCell>
+                    <TableCell className="text-right">{step.reached}</TableCell>
+                    <TableCell className="text-right">{formatRate(step.conversion_rate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Average Days in Stage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={velocityData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="stage" angle={-45} textAnchor="end" height={80} />
+                <YAxis />
+                <Tooltip formatter={(value) => `${value} days`} />
+                <Bar dataKey="days" fill="#8884d8" />
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground">
+              Only deals that have moved on from a stage count towards its average.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Loss Reasons</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.loss_reasons.length === 0 ? (
+            <p className="py-6 text-center text-gray-500">No lost deals in this pipeline.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-center">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Deals</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.loss_reasons.map(summary => (
+                    <TableRow key={summary.reason}>
+                      <TableCell className="font-medium">{summary.reason}</TableCell>
+                      <TableCell className="text-right">{summary.count}</TableCell>
+                      <TableCell className="text-right">{formatRate(summary.count / report.lost_count)}</TableCell>
+                      <TableCell className="text-right">{formatValue(summary.value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <ResponsiveContainer width="100%" height={260}>
+                <PieChart>
+                  <Pie
+                    data={report.loss_reasons}
+                    cx="50%"
+                    cy="50%"
+                    outerRadius={90}
+                    dataKey="count"
+                    nameKey="reason"
+                    label={({ reason }) => reason}
+                  >
+                    {report.loss_reasons.map((entry, index) => (
+                      <Cell key={entry.reason} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -22,6 +22,7 @@ export const AddProductForm: React.FC<AddProductFormProps> = ({
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [price, setPrice] = useState<number | null>(null);
+  const [currency, setCurrency] = useState('');
   const [stock, setStock] = useState(0);
   const [status, setStatus] = useState('Draft');
   const [category, setCategory] = useState('');
@@ -36,6 +37,9 @@ export const AddProductForm: React.FC<AddProductFormProps> = ({
   // Filter teams to only show those where user is owner
   const ownedTeams = teams.filter(team => isTeamOwner(team.id));
 
+  // Prices default to the currency the team reports in
+  const selectedCurrency = currency || teams.find(team => team.id === selectedTeamId)?.reporting_currency || 'USD';
+
   if (ownedTeams.length === 0) {
     return <NoOwnershipMessage onBack={onBack} />;
   }
@@ -47,6 +51,7 @@ export const AddProductForm: React.FC<AddProductFormProps> = ({
       name,
       description,
       price,
+      currency: selectedCurrency,
       stock,
       status,
       category,
@@ -91,6 +96,8 @@ export const AddProductForm: React.FC<AddProductFormProps> = ({
               setDescription={setDescription}
               price={price}
               setPrice={setPrice}
+              currency={selectedCurrency}
+              setCurrency={setCurrency}
               stock={stock}
               setStock={setStock}
               status={status}
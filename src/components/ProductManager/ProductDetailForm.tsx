@@ -5,6 +5,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Product } from '@/types/product';
+import { CURRENCIES } from '@/utils/currencyUtils';
 
 interface ProductDetailFormProps {
   formData: Partial<Product>;
@@ -52,7 +53,25 @@ export const ProductDetailForm: React.FC<ProductDetailFormProps> = ({
         />
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="currency">Currency</Label>
+          <Select
+            value={formData.currency || ''}
+            onValueChange={(value) => onSelectChange('currency', value)}
+          >
+            <SelectTrigger id="currency">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(currency => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="space-y-2">
           <Label htmlFor="price">Price</Label>
           <Input
@@ -2,6 +2,7 @@
 import React from 'react';
 import { Product } from '@/types/product';
 import { Team } from '@/types/team';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
 
 interface ProductDetailViewProps {
   product: Product;
@@ -45,7 +46,7 @@ export const ProductDetailView: React.FC<ProductDetailViewProps> = ({
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
           <h3 className="text-sm font-medium text-gray-500">Price</h3>
-          <p>${product.price?.toFixed(2) || '0.00'}</p>
+          <p>{formatCurrencyAmount(product.price || 0, product.currency)}</p>
         </div>
         <div>
           <h3 className="text-sm font-medium text-gray-500">Stock</h3>
@@ -5,6 +5,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Team } from '@/types/team';
+import { CURRENCIES } from '@/utils/currencyUtils';
 
 interface ProductFormFieldsProps {
   name: string;
@@ -13,6 +14,8 @@ interface ProductFormFieldsProps {
   setDescription: (value: string) => void;
   price: number | null;
   setPrice: (value: number | null) => void;
+  currency: string;
+  setCurrency: (value: string) => void;
   stock: number;
   setStock: (value: number) => void;
   status: string;
@@ -32,6 +35,8 @@ export const ProductFormFields: React.FC<ProductFormFieldsProps> = ({
   setDescription,
   price,
   setPrice,
+  currency,
+  setCurrency,
   stock,
   setStock,
   status,
@@ -86,7 +91,23 @@ export const ProductFormFields: React.FC<ProductFormFieldsProps> = ({
         />
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="currency">Currency</Label>
+          <Select value={currency} onValueChange={setCurrency} disabled={submitting}>
+            <SelectTrigger id="currency">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((option) => (
+                <SelectItem key={option.code} value={option.code}>
+                  {option.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="space-y-2">
           <Label htmlFor="price">Price</Label>
           <Input
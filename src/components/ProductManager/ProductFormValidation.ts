@@ -5,6 +5,7 @@ interface ProductFormData {
   name: string;
   description: string;
   price: number | null;
+  currency: string;
   stock: number;
   status: string;
   category: string;
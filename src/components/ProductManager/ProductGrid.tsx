@@ -111,7 +111,7 @@ export const ProductGrid: React.FC<ProductGridProps> = ({
                 Stock: {product.stock}
               </div>
               <div className="text-lg font-semibold">
-                {product.price ? formatCurrency(product.price) : 'No price set'}
+                {product.price ? formatCurrency(product.price, product.currency) : 'No price set'}
               </div>
             </div>
           </CardContent>
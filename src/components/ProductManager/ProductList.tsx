@@ -8,6 +8,7 @@ import { ProductFilters } from './ProductFilters';
 import { ProductStats } from './ProductStats';
 import { ProductGrid } from './ProductGrid';
 import { ProductListSkeleton } from './ProductListSkeleton';
+import { ExportSheet } from '@/services/exportService';
 
 interface ProductListProps {
   onSelectProduct: (product: Product) => void;
@@ -38,6 +39,45 @@ export const ProductList: React.FC<ProductListProps> = ({
     return matchesSearch && matchesStatus && matchesTeam;
   });
 
+  const getTeamName = (teamId: string) => teams.find(team => team.id === teamId)?.name || '';
+
+  // Exports follow the current filters
+  const getExportSheets = (): ExportSheet<unknown>[] => {
+    const categoryTotals = new Map<string, { count: number; stock: number }>();
+    filteredProducts.forEach(product => {
+      const category = product.category || 'Uncategorized';
+      const current = categoryTotals.get(category) || { count: 0, stock: 0 };
+      categoryTotals.set(category, { count: current.count + 1, stock: current.stock + (product.stock || 0) });
+    });
+
+    const productsSheet: ExportSheet<Product> = {
+      name: 'Products',
+      rows: filteredProducts,
+      columns: [
+        { header: 'Name', value: product => product.name, width: 28 },
+        { header: 'Category', value: product => product.category, width: 18 },
+        { header: 'Status', value: product => product.status },
+        { header: 'Price', value: product => product.price, type: 'currency', width: 14 },
+        { header: 'Stock', value: product => product.stock, type: 'number' },
+        { header: 'Team', value: product => getTeamName(product.team_id), width: 20 },
+        { header: 'Description', value: product => product.description, width: 40 },
+        { header: 'Created At', value: product => product.created_at, type: 'datetime', width: 18 },
+      ]
+    };
+
+    const categorySheet: ExportSheet<[string, { count: number; stock: number }]> = {
+      name: 'By Category',
+      rows: Array.from(categoryTotals.entries()),
+      columns: [
+        { header: 'Category', value: ([category]) => category, width: 20 },
+        { header: 'Products', value: ([, totals]) => totals.count, type: 'number' },
+        { header: 'Total Stock', value: ([, totals]) => totals.stock, type: 'number' },
+      ]
+    };
+
+    return [productsSheet, categorySheet];
+  };
+
   if (loading) {
     return <ProductListSkeleton />;
   }
@@ -47,6 +87,8 @@ export const ProductList: React.FC<ProductListProps> = ({
       <ProductListHeader
         onAddProduct={onAddProduct}
         canAddProducts={canAddProducts}
+        getExportSheets={getExportSheets}
+        canExport={filteredProducts.length > 0}
       />
 
       <ProductFilters
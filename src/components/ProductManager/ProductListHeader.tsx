@@ -3,15 +3,21 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Plus, Package } from 'lucide-react';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ExportSheet } from '@/services/exportService';
 
 interface ProductListHeaderProps {
   onAddProduct: () => void;
   canAddProducts: boolean;
+  getExportSheets: () => ExportSheet<unknown>[];
+  canExport: boolean;
 }
 
 export const ProductListHeader: React.FC<ProductListHeaderProps> = ({
   onAddProduct,
   canAddProducts,
+  getExportSheets,
+  canExport,
 }) => {
   return (
     <>
@@ -21,12 +27,15 @@ export const ProductListHeader: React.FC<ProductListHeaderProps> = ({
           <h1 className="text-2xl font-bold">Product Manager</h1>
           <p className="text-gray-600">Manage your products and inventory</p>
         </div>
-        {canAddProducts && (
-          <Button onClick={onAddProduct}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Product
-          </Button>
-        )}
+        <div className="flex gap-2">
+          <ExportMenu fileName="products" getSheets={getExportSheets} disabled={!canExport} />
+          {canAddProducts && (
+            <Button onClick={onAddProduct}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Product
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Show message if user cannot add products */}
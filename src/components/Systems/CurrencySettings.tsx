@@ -6,17 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useSystemSettings } from '@/hooks/useSystemSettings';
 import { Skeleton } from '@/components/ui/skeleton';
-
-const CURRENCIES = [
-  { code: 'USD', name: 'US Dollar', symbol: '$' },
-  { code: 'IDR', name: 'Indonesian Rupiah', symbol: 'Rp' },
-  { code: 'EUR', name: 'Euro', symbol: '€' },
-  { code: 'GBP', name: 'British Pound', symbol: '£' },
-  { code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
-  { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$' },
-  { code: 'MYR', name: 'Malaysian Ringgit', symbol: 'RM' },
-  { code: 'THB', name: 'Thai Baht', symbol: '฿' },
-];
+import { CURRENCIES } from '@/utils/currencyUtils';
 
 export const CurrencySettings: React.FC = () => {
   const { settings, loading, updateCurrency } = useSystemSettings();
@@ -50,7 +40,7 @@ export const CurrencySettings: React.FC = () => {
         <div>
           <h3 className="text-lg font-medium">Current Currency</h3>
           <p className="text-sm text-gray-600">
-            This currency will be used throughout the application for invoices, products, and financial displays.
+            Your default currency, used for amounts that do not carry a currency of their own. Invoices, quotes, products and deals each keep their own currency.
           </p>
         </div>
 
@@ -111,10 +101,9 @@ export const CurrencySettings: React.FC = () => {
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-blue-900 mb-2">Impact of Currency Change</h4>
         <ul className="text-sm text-blue-800 space-y-1">
-          <li>• All new invoices will use the selected currency</li>
-          <li>• Product prices will be displayed in the new currency</li>
-          <li>• Financial reports will show amounts in the selected currency</li>
-          <li>• Existing data currency display will be updated</li>
+          <li>• Amounts without a currency of their own will be displayed in the selected currency</li>
+          <li>• Invoices, quotes, products and deals keep the currency they were entered in</li>
+          <li>• Reports convert to each team's reporting currency, set below</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { CURRENCIES } from '@/utils/currencyUtils';
+import { isSupportedSpreadsheet, SPREADSHEET_EXTENSIONS } from '@/utils/spreadsheetReader';
+import { toDateColumn } from '@/utils/recurringInvoice';
+
+/**
+ * Reporting currency of a team and the exchange rates its invoices and reports convert with
+ */
+export const ExchangeRateSettings: React.FC = () => {
+  const {
+    teams,
+    loading,
+    isTeamOwner,
+    getReportingCurrency,
+    getTeamRates,
+    addRate,
+    importRates,
+    deleteRate,
+    setReportingCurrency,
+  } = useExchangeRates();
+  const [teamId, setTeamId] = useState('');
+  const [newReportingCurrency, setNewReportingCurrency] = useState('');
+  const [currency, setCurrency] = useState('');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(toDateColumn(new Date()));
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!teamId && teams.length > 0) {
+      setTeamId(teams[0].id);
+    }
+  }, [teams, teamId]);
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-4 w-[300px]" />
+        <Skeleton className="h-10 w-[200px]" />
+        <Skeleton className="h-10 w-[100px]" />
+      </div>
+    );
+  }
+
+  if (teams.length === 0) {
+    return <p className="text-sm text-gray-600">Join or create a team to set up exchange rates.</p>;
+  }
+
+  const reportingCurrency = getReportingCurrency(teamId);
+  const teamRates = getTeamRates(teamId);
+  const canManage = isTeamOwner(teamId);
+
+  const handleReportingCurrencyChange = async () => {
+    if (!newReportingCurrency) return;
+
+    setSaving(true);
+    await setReportingCurrency(teamId, newReportingCurrency);
+    setSaving(false);
+    setNewReportingCurrency('');
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate);
+    if (!currency || !(value > 0)) return;
+
+    setSaving(true);
+    const success = await addRate(teamId, { currency, rate: value, effective_date: effectiveDate });
+    setSaving(false);
+
+    if (success) {
+      setRate('');
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    if (!isSupportedSpreadsheet(file.name)) {
+      toast({
+        title: "Invalid File",
+        description: "Please select a CSV or Excel (.xlsx) file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    await importRates(teamId, file);
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Reporting Currency</h3>
+          <p className="text-sm text-gray-600">
+            The pipeline, dashboard and invoice totals of a team are converted to its reporting currency.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {teams.length > 1 && (
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Select a team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map(team => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Badge>{reportingCurrency}</Badge>
+        </div>
+
+        {canManage && (
+          <div className="flex gap-3">
+            <Select value={newReportingCurrency} onValueChange={setNewReportingCurrency}>
+              <SelectTrigger className="w-[300px]">
+                <SelectValue placeholder="Select a new reporting currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(option => (
+                  <SelectItem key={option.code} value={option.code} disabled={option.code === reportingCurrency}>
+                    {option.code} - {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleReportingCurrencyChange} disabled={!newReportingCurrency || saving}>
+              Change
+            </Button>
+          </div>
+        )}
+        {canManage && newReportingCurrency && (
+          <p className="text-sm text-amber-700">
+            Rates are relative to the reporting currency, so changing it clears this team's rate table.
+            Invoices keep the rate they were issued with.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Exchange Rates</h3>
+          <p className="text-sm text-gray-600">
+            How much {reportingCurrency} one unit of each currency is worth. New invoices take the latest rate
+            unless one is entered on the invoice.
+          </p>
+        </div>
+
+        {canManage && (
+          <form onSubmit={handleAddRate} className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Currency</label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.filter(option => option.code !== reportingCurrency).map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Rate ({reportingCurrency})</label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                className="w-[160px]"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Effective</label>
+              <Input
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="w-[170px]"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={!currency || !(parseFloat(rate) > 0) || saving}>
+              Add Rate
+            </Button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileUpload}
+              accept={SPREADSHEET_EXTENSIONS.join(',')}
+              style={{ display: 'none' }}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Rates
+            </Button>
+          </form>
+        )}
+
+        {teamRates.length === 0 ? (
+          <p className="text-sm text-gray-500">No exchange rates yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Source</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teamRates.map(exchangeRate => (
+                <TableRow key={exchangeRate.id}>
+                  <TableCell className="font-medium">{exchangeRate.currency}</TableCell>
+                  <TableCell>{Number(exchangeRate.rate).toLocaleString('en-US', { maximumFractionDigits: 8 })}</TableCell>
+                  <TableCell>{exchangeRate.effective_date}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{exchangeRate.source === 'import' ? 'Imported' : 'Manual'}</Badge>
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteRate(exchangeRate.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h4 className="font-medium text-blue-900 mb-2">Importing rates</h4>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• Upload a CSV or Excel file with a "currency" and a "rate" column</li>
+          <li>• An optional "date" column (YYYY-MM-DD) sets when each rate takes effect; it defaults to today</li>
+          <li>• A rate for a currency and date that is already listed replaces it</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
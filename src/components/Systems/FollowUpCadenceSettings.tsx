@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, Plus } from 'lucide-react';
+import { useFollowUpCadenceRules } from '@/hooks/useFollowUpCadenceRules';
+import { useTeamData } from '@/hooks/useTeamData';
+import { normalizeStaleDays, DEFAULT_CADENCE_RULE } from '@/utils/followUpCadence';
+
+const parseList = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+export const FollowUpCadenceSettings: React.FC = () => {
+  const { rules, loading, createRule, updateRule, deleteRule } = useFollowUpCadenceRules();
+  const { teams, isTeamOwner, isTeamManager } = useTeamData();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    team_id: '',
+    name: '',
+    label: '',
+    stale_days: DEFAULT_CADENCE_RULE.stale_days.join(', '),
+    excluded_statuses: DEFAULT_CADENCE_RULE.excluded_statuses.join(', '),
+    priority: '0'
+  });
+
+  const manageableTeams = teams.filter(team => isTeamOwner(team.id) || isTeamManager(team.id));
+  const staleDays = normalizeStaleDays(parseList(formData.stale_days).map(Number));
+  const canSubmit = !!formData.team_id && !!formData.name.trim() && staleDays.length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setSaving(true);
+    try {
+      await createRule({
+        team_id: formData.team_id,
+        name: formData.name.trim(),
+        label: formData.label.trim() || null,
+        stale_days: staleDays,
+        excluded_statuses: parseList(formData.excluded_statuses),
+        priority: parseInt(formData.priority) || 0
+      });
+      setFormData(prev => ({ ...prev, name: '', label: '', priority: '0' }));
+    } catch (error) {
+      console.error('Error saving cadence rule:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getTeamName = (teamId: string) => teams.find(team => team.id === teamId)?.name || 'Unknown team';
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-4 w-[300px]" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Follow-up Cadence Rules</h3>
+        <p className="text-sm text-gray-600">
+          Each rule defines the stale-day thresholds shown as follow-up tabs. Label rules apply to contacts
+          with that label; a rule without a label is the team default. Contacts without a matching rule use
+          the default {DEFAULT_CADENCE_RULE.stale_days.join('/')} day cadence.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {rules.length === 0 ? (
+          <div className="text-sm text-gray-500">No custom cadence rules yet.</div>
+        ) : (
+          rules.map(rule => {
+            const canManage = isTeamOwner(rule.team_id) || isTeamManager(rule.team_id);
+            return (
+              <Card key={rule.id}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{rule.name}</span>
+                        <Badge variant="outline">{getTeamName(rule.team_id)}</Badge>
+                        <Badge variant="secondary">{rule.label ? `Label: ${rule.label}` : 'Team default'}</Badge>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        Buckets: {rule.stale_days.map(days => `${days}+ days`).join(', ')}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        Excluded statuses: {rule.excluded_statuses.length > 0 ? rule.excluded_statuses.join(', ') : 'None'}
+                      </div>
+                    </div>
+                    {canManage && (
+                      <div className="flex items-center gap-3">
+                        <Switch
+                          checked={rule.is_active}
+                          onCheckedChange={(checked) => updateRule(rule.id, { is_active: checked })}
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      {manageableTeams.length > 0 && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h3 className="text-lg font-medium">Add Rule</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="cadence_team">Team</Label>
+              <Select value={formData.team_id} onValueChange={(value) => setFormData({ ...formData, team_id: value })}>
+                <SelectTrigger id="cadence_team">
+                  <SelectValue placeholder="Select a team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {manageableTeams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="cadence_name">Rule Name</Label>
+              <Input
+                id="cadence_name"
+                placeholder="e.g. VIP"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="cadence_label">Contact Label</Label>
+              <Input
+                id="cadence_label"
+                placeholder="Leave empty for the team default"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="cadence_priority">Priority</Label>
+              <Input
+                id="cadence_priority"
+                type="number"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="cadence_days">Stale Days</Label>
+              <Input
+                id="cadence_days"
+                placeholder="e.g. 1, 3, 10"
+                value={formData.stale_days}
+                onChange={(e) => setFormData({ ...formData, stale_days: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="cadence_excluded">Excluded Statuses</Label>
+              <Input
+                id="cadence_excluded"
+                placeholder="e.g. Paid, Lost"
+                value={formData.excluded_statuses}
+                onChange={(e) => setFormData({ ...formData, excluded_statuses: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={!canSubmit || saving}>
+            <Plus className="h-4 w-4 mr-1" />
+            {saving ? 'Saving...' : 'Add Rule'}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
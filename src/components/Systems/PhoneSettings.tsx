@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useSystemSettings } from '@/hooks/useSystemSettings';
+import { PhoneCountryCode } from '@/types/phone';
+import { PHONE_COUNTRIES, DEFAULT_PHONE_COUNTRY, isPhoneCountryCode, formatPhoneNumber } from '@/utils/phoneUtils';
+
+export const PhoneSettings: React.FC = () => {
+  const { settings, loading, updatePhoneCountry } = useSystemSettings();
+  const [selectedCountry, setSelectedCountry] = useState('');
+  const [updating, setUpdating] = useState(false);
+
+  const handleCountryChange = async () => {
+    if (!isPhoneCountryCode(selectedCountry)) return;
+
+    setUpdating(true);
+    await updatePhoneCountry(selectedCountry);
+    setUpdating(false);
+    setSelectedCountry('');
+  };
+
+  const currentCode: PhoneCountryCode = isPhoneCountryCode(settings?.default_phone_country)
+    ? settings.default_phone_country
+    : DEFAULT_PHONE_COUNTRY;
+  const currentCountry = PHONE_COUNTRIES[currentCode];
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-4 w-[300px]" />
+        <Skeleton className="h-10 w-[200px]" />
+        <Skeleton className="h-10 w-[100px]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Default Phone Country</h3>
+          <p className="text-sm text-gray-600">
+            Phone numbers entered without a country code are saved as numbers of this country.
+            A team's own default, set in its company details, takes priority for team contacts.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium">{currentCountry.name}</div>
+                <div className="text-sm text-gray-600">
+                  {currentCountry.example} is saved as {formatPhoneNumber(currentCountry.example, currentCode)}
+                </div>
+              </div>
+              <Badge>+{currentCountry.callingCode}</Badge>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">Change Default Country</h3>
+
+        <div className="flex gap-3">
+          <Select value={selectedCountry} onValueChange={setSelectedCountry}>
+            <SelectTrigger className="w-[300px]">
+              <SelectValue placeholder="Select a country" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(PHONE_COUNTRIES).map(country => (
+                <SelectItem
+                  key={country.code}
+                  value={country.code}
+                  disabled={country.code === currentCode}
+                >
+                  {country.name} (+{country.callingCode})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button
+            onClick={handleCountryChange}
+            disabled={!selectedCountry || updating}
+          >
+            {updating ? 'Updating...' : 'Update Country'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h4 className="font-medium text-blue-900 mb-2">How phone numbers are handled</h4>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• Numbers starting with + or 00 keep their own country code</li>
+          <li>• Numbers are stored in international format, e.g. +6281234567890</li>
+          <li>• WhatsApp and call links always use the stored international number</li>
+          <li>• Changing the default does not change numbers that are already saved</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -2,8 +2,11 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Settings, DollarSign, Shield, Building2 } from 'lucide-react';
+import { Settings, DollarSign, Shield, Building2, CalendarClock, Phone } from 'lucide-react';
 import { CurrencySettings } from './CurrencySettings';
+import { ExchangeRateSettings } from './ExchangeRateSettings';
+import { PhoneSettings } from './PhoneSettings';
+import { FollowUpCadenceSettings } from './FollowUpCadenceSettings';
 import { RoleManagement } from '@/components/RoleManagement/RoleManagement';
 import { TeamManagement } from '@/components/TeamManagement/TeamManagement';
 
@@ -19,11 +22,19 @@ export const SystemsManager: React.FC = () => {
       </div>
 
       <Tabs defaultValue="currency" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="currency" className="flex items-center gap-2">
             <DollarSign className="h-4 w-4" />
             Currency Settings
           </TabsTrigger>
+          <TabsTrigger value="phone" className="flex items-center gap-2">
+            <Phone className="h-4 w-4" />
+            Phone Numbers
+          </TabsTrigger>
+          <TabsTrigger value="follow-up-cadence" className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Follow-up Cadence
+          </TabsTrigger>
           <TabsTrigger value="role-management" className="flex items-center gap-2">
             <Shield className="h-4 w-4" />
             Role Management
@@ -46,6 +57,45 @@ export const SystemsManager: React.FC = () => {
               <CurrencySettings />
             </CardContent>
           </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Reporting Currency &amp; Exchange Rates
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ExchangeRateSettings />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="phone">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Phone className="h-5 w-5" />
+                Phone Number Format
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PhoneSettings />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="follow-up-cadence">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Follow-up Cadence
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FollowUpCadenceSettings />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="role-management">
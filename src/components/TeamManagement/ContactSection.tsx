@@ -1,8 +1,13 @@
 
 import React from 'react';
-import { FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { UseFormReturn } from 'react-hook-form';
+import { PHONE_COUNTRIES } from '@/utils/phoneUtils';
+
+// Select items cannot have an empty value, so "no team default" gets a sentinel
+const NO_PHONE_COUNTRY = 'none';
 
 interface ContactSectionProps {
   form: UseFormReturn<any>;
@@ -31,6 +36,35 @@ export const ContactSection: React.FC<ContactSectionProps> = ({
         )}
       />
 
+      <FormField
+        control={form.control}
+        name="default_phone_country"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Default Phone Country</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange} disabled={updating}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a country" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_PHONE_COUNTRY}>Use each member's own default</SelectItem>
+                {Object.values(PHONE_COUNTRIES).map(country => (
+                  <SelectItem key={country.code} value={country.code}>
+                    {country.name} (+{country.callingCode})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              Team contacts entered without a country code are saved as numbers of this country
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
       <FormField
         control={form.control}
         name="company_email"
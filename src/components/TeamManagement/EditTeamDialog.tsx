@@ -8,6 +8,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { EditTeamDialogForm } from './EditTeamDialogForm';
+import { isPhoneCountryCode } from '@/utils/phoneUtils';
 
 interface EditTeamDialogProps {
   open: boolean;
@@ -27,6 +28,7 @@ const formSchema = z.object({
   postal_code: z.string().optional(),
   country: z.string().optional(),
   company_phone: z.string().optional(),
+  default_phone_country: z.string().optional(),
   company_email: z.string().email('Please enter a valid email').optional().or(z.literal('')),
   website: z.string().optional(),
   bank_name: z.string().optional(),
@@ -56,6 +58,7 @@ export const EditTeamDialog: React.FC<EditTeamDialogProps> = ({
       postal_code: team.postal_code || '',
       country: team.country || 'Indonesia',
       company_phone: team.company_phone || '',
+      default_phone_country: team.default_phone_country || 'none',
       company_email: team.company_email || '',
       website: team.website || '',
       bank_name: team.bank_name || '',
@@ -72,6 +75,7 @@ export const EditTeamDialog: React.FC<EditTeamDialogProps> = ({
         .from('teams')
         .update({
           ...values,
+          default_phone_country: isPhoneCountryCode(values.default_phone_country) ? values.default_phone_country : null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', team.id);
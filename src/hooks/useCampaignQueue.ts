@@ -0,0 +1,148 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { CampaignRecipient, WhatsAppCampaign } from '@/types/campaign';
+import { toast } from 'sonner';
+
+/**
+ * Hook for stepping through one campaign's recipients
+ * Every send is logged as an activity and marked on the recipient, so the queue
+ * picks up at the first pending recipient whenever the campaign is reopened
+ */
+export const useCampaignQueue = (campaignId: string | null) => {
+  const [campaign, setCampaign] = useState<WhatsAppCampaign | null>(null);
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchQueue = useCallback(async () => {
+    if (!user || !campaignId) {
+      setCampaign(null);
+      setRecipients([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [campaignResult, recipientsResult] = await Promise.all([
+        supabase.from('whatsapp_campaigns').select('*').eq('id', campaignId).single(),
+        supabase
+          .from('whatsapp_campaign_recipients')
+          .select('*, contacts(name, phone_number, team_id)')
+          .eq('campaign_id', campaignId)
+          .order('position')
+      ]);
+
+      if (campaignResult.error) throw campaignResult.error;
+      if (recipientsResult.error) throw recipientsResult.error;
+
+      setCampaign(campaignResult.data as WhatsAppCampaign);
+      setRecipients((recipientsResult.data || []) as CampaignRecipient[]);
+    } catch (error) {
+      console.error('Error fetching campaign queue:', error);
+      toast.error('Failed to load campaign');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, campaignId]);
+
+  const updateRecipient = (recipientId: string, updates: Partial<CampaignRecipient>) => {
+    setRecipients(prev => prev.map(recipient =>
+      recipient.id === recipientId ? { ...recipient, ...updates } : recipient
+    ));
+  };
+
+  // Completes the campaign once nothing is left in the queue
+  const completeIfDone = async (handledRecipientId: string) => {
+    if (!campaign) return;
+
+    const remaining = recipients.filter(
+      recipient => recipient.status === 'pending' && recipient.id !== handledRecipientId
+    );
+    if (remaining.length > 0) return;
+
+    const { error } = await supabase
+      .from('whatsapp_campaigns')
+      .update({ status: 'completed' })
+      .eq('id', campaign.id);
+
+    if (error) throw error;
+    setCampaign(prev => prev ? { ...prev, status: 'completed' } : prev);
+    toast.success(`Campaign "${campaign.name}" completed`);
+  };
+
+  /**
+   * Logs the send of a recipient's message and moves the queue forward
+   * @returns The logged activity, or null if logging failed
+   */
+  const recordSend = async (recipient: CampaignRecipient) => {
+    if (!user || !campaign) return null;
+
+    try {
+      const sentAt = new Date().toISOString();
+      const { data: activity, error } = await supabase
+        .from('activities')
+        .insert({
+          contact_id: recipient.contact_id,
+          user_id: user.id,
+          type: 'WhatsApp Follow-Up via Template',
+          details: `Campaign: "${campaign.name}"`,
+          timestamp: sentAt,
+          template_set_id: campaign.template_set_id,
+          template_variation_id: recipient.template_variation_id,
+          campaign_id: campaign.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: recipientError } = await supabase
+        .from('whatsapp_campaign_recipients')
+        .update({ status: 'sent', sent_at: sentAt, activity_id: activity.id })
+        .eq('id', recipient.id);
+
+      if (recipientError) throw recipientError;
+
+      updateRecipient(recipient.id, { status: 'sent', sent_at: sentAt, activity_id: activity.id });
+      await completeIfDone(recipient.id);
+      return activity;
+    } catch (error) {
+      console.error('Error recording campaign send:', error);
+      toast.error('Failed to record the send');
+      return null;
+    }
+  };
+
+  const skipRecipient = async (recipient: CampaignRecipient) => {
+    try {
+      const { error } = await supabase
+        .from('whatsapp_campaign_recipients')
+        .update({ status: 'skipped' })
+        .eq('id', recipient.id);
+
+      if (error) throw error;
+
+      updateRecipient(recipient.id, { status: 'skipped' });
+      await completeIfDone(recipient.id);
+    } catch (error) {
+      console.error('Error skipping recipient:', error);
+      toast.error('Failed to skip recipient');
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  return {
+    campaign,
+    recipients,
+    currentRecipient: recipients.find(recipient => recipient.status === 'pending') || null,
+    loading,
+    recordSend,
+    skipRecipient,
+    refetch: fetchQueue
+  };
+};
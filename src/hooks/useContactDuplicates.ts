@@ -0,0 +1,109 @@
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCachedContacts } from './useCachedContacts';
+import { ContactDuplicateDismissal, DuplicateCandidate, MergeFieldValues } from '@/types/duplicate';
+import { findDuplicateCandidates, getPairKey } from '@/utils/duplicateDetection';
+import { toast } from 'sonner';
+
+export const PERSONAL_SCOPE = 'personal';
+
+/**
+ * Hook for the duplicate finder
+ * Scores candidate pairs within one scope: a team id, or personal contacts without a team
+ */
+export const useContactDuplicates = (scope: string = PERSONAL_SCOPE) => {
+  const { user } = useAuth();
+  const { contacts, loading: contactsLoading, refreshContacts } = useCachedContacts();
+  const [dismissedPairs, setDismissedPairs] = useState<Set<string>>(new Set());
+  const [dismissalsLoading, setDismissalsLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+
+  const fetchDismissals = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('contact_duplicate_dismissals')
+        .select('*');
+
+      if (error) throw error;
+      setDismissedPairs(new Set(
+        ((data || []) as ContactDuplicateDismissal[]).map(row => getPairKey(row.contact_a_id, row.contact_b_id))
+      ));
+    } catch (error) {
+      console.error('Error fetching duplicate dismissals:', error);
+    } finally {
+      setDismissalsLoading(false);
+    }
+  }, [user]);
+
+  const scopedContacts = useMemo(() => contacts.filter(contact =>
+    scope === PERSONAL_SCOPE ? !contact.team_id : contact.team_id === scope
+  ), [contacts, scope]);
+
+  const candidates = useMemo(
+    () => findDuplicateCandidates(scopedContacts, dismissedPairs),
+    [scopedContacts, dismissedPairs]
+  );
+
+  const dismissCandidate = async (candidate: DuplicateCandidate) => {
+    if (!user) return;
+
+    const [contactAId, contactBId] = [candidate.contactA.id, candidate.contactB.id].sort();
+    try {
+      const { error } = await supabase
+        .from('contact_duplicate_dismissals')
+        .insert({
+          contact_a_id: contactAId,
+          contact_b_id: contactBId,
+          dismissed_by: user.id
+        });
+
+      if (error) throw error;
+
+      setDismissedPairs(prev => new Set(prev).add(candidate.key));
+      toast.success('Marked as not a duplicate');
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+      toast.error('Failed to dismiss duplicate');
+    }
+  };
+
+  const mergeContacts = async (survivingId: string, mergedId: string, fieldValues: MergeFieldValues) => {
+    setMerging(true);
+    try {
+      const { error } = await supabase.rpc('merge_contacts', {
+        p_surviving_id: survivingId,
+        p_merged_id: mergedId,
+        p_field_values: fieldValues
+      });
+
+      if (error) throw error;
+
+      toast.success('Contacts merged');
+      refreshContacts();
+    } catch (error) {
+      console.error('Error merging contacts:', error);
+      toast.error('Failed to merge contacts');
+      throw error;
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDismissals();
+  }, [fetchDismissals]);
+
+  return {
+    candidates,
+    contactCount: scopedContacts.length,
+    loading: contactsLoading || dismissalsLoading,
+    merging,
+    dismissCandidate,
+    mergeContacts,
+    refetch: refreshContacts
+  };
+};
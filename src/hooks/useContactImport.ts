@@ -0,0 +1,119 @@
+
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ImportedContactData } from '@/types/contactImport';
+import { normalizePhoneNumber } from '@/utils/phoneUtils';
+
+interface ImportResult {
+  importedCount: number;
+  skippedCount: number;
+}
+
+/**
+ * Hook for writing validated import rows to contacts
+ * Rows are expected to come from the dry-run preview, so only the database-side
+ * duplicate race is handled here
+ */
+export const useContactImport = () => {
+  const [isImporting, setIsImporting] = useState(false);
+  const { user } = useAuth();
+
+  const fetchExistingPhones = useCallback(async (): Promise<Set<string>> => {
+    if (!user) return new Set();
+
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('phone_number')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    return new Set(data?.map(contact => normalizePhoneNumber(contact.phone_number)) || []);
+  }, [user]);
+
+  const createMissingLabels = async (labels: Set<string>) => {
+    if (!user || labels.size === 0) return;
+
+    try {
+      const { data: existingLabelsData } = await supabase
+        .from('labels')
+        .select('name')
+        .eq('user_id', user.id);
+
+      const existingLabels = new Set(existingLabelsData?.map(label => label.name) || []);
+      const newLabels = Array.from(labels).filter(label => !existingLabels.has(label));
+
+      if (newLabels.length > 0) {
+        const { error } = await supabase
+          .from('labels')
+          .insert(newLabels.map(name => ({ user_id: user.id, name, color: null })));
+
+        if (error) {
+          // Contacts are already imported, so a label failure is not fatal
+          console.error('Error inserting new labels:', error);
+        }
+      }
+    } catch (error) {
+      console.error('Error processing labels after successful import:', error);
+    }
+  };
+
+  const importContacts = async (rows: ImportedContactData[]): Promise<ImportResult> => {
+    if (!user) return { importedCount: 0, skippedCount: 0 };
+
+    setIsImporting(true);
+    try {
+      const contacts = rows.map(row => ({
+        ...row,
+        user_id: user.id,
+        owner_id: user.id,
+        team_id: null // Imported contacts start as personal contacts
+      }));
+
+      // Upsert ignores rows added concurrently with the same phone number
+      const { data: insertedData, error } = await supabase
+        .from('contacts')
+        .upsert(contacts, {
+          onConflict: 'user_id,phone_number',
+          ignoreDuplicates: true
+        })
+        .select('id');
+
+      let importedCount = 0;
+
+      if (error) {
+        console.error('Upsert error:', error);
+        // Fall back to individual inserts so one bad row does not lose the batch
+        for (const contact of contacts) {
+          const { error: insertError } = await supabase
+            .from('contacts')
+            .insert([contact]);
+
+          if (insertError) {
+            if (insertError.code !== '23505') throw insertError;
+          } else {
+            importedCount++;
+          }
+        }
+      } else {
+        importedCount = insertedData?.length || 0;
+      }
+
+      if (importedCount > 0) {
+        const labels = new Set<string>();
+        rows.forEach(row => row.labels?.forEach(label => labels.add(label)));
+        await createMissingLabels(labels);
+      }
+
+      return { importedCount, skippedCount: contacts.length - importedCount };
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return {
+    isImporting,
+    fetchExistingPhones,
+    importContacts
+  };
+};
@@ -0,0 +1,152 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ContactReminder, CreateReminderRequest } from '@/types/reminder';
+import { getSnoozeUntil } from '@/utils/reminderUtils';
+import { toast } from 'sonner';
+
+/**
+ * Hook for contact reminders
+ * With a contactId it loads every reminder of that contact,
+ * without one it loads the open reminders assigned to the current user
+ */
+export const useContactReminders = (contactId?: string) => {
+  const [reminders, setReminders] = useState<ContactReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchReminders = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      let query = supabase
+        .from('contact_reminders')
+        .select('*')
+        .order('due_at', { ascending: true });
+
+      query = contactId
+        ? query.eq('contact_id', contactId)
+        : query.eq('assigned_to', user.id).eq('status', 'open');
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setReminders((data || []) as ContactReminder[]);
+    } catch (error) {
+      console.error('Error fetching reminders:', error);
+      toast.error('Failed to fetch reminders');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, contactId]);
+
+  const createReminder = async (reminderData: CreateReminderRequest) => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('contact_reminders')
+        .insert({
+          contact_id: reminderData.contact_id,
+          title: reminderData.title,
+          notes: reminderData.notes,
+          due_at: reminderData.due_at,
+          assigned_to: reminderData.assigned_to || user.id,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setReminders(prev =>
+        [...prev, data as ContactReminder].sort((a, b) => a.due_at.localeCompare(b.due_at))
+      );
+      toast.success('Reminder scheduled');
+      return data as ContactReminder;
+    } catch (error) {
+      console.error('Error creating reminder:', error);
+      toast.error('Failed to schedule reminder');
+      throw error;
+    }
+  };
+
+  const updateReminder = async (id: string, updates: Partial<ContactReminder>) => {
+    try {
+      const { data, error } = await supabase
+        .from('contact_reminders')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const updated = data as ContactReminder;
+      setReminders(prev => {
+        // The "my open reminders" list drops reminders once they are closed
+        if (!contactId && updated.status !== 'open') {
+          return prev.filter(reminder => reminder.id !== id);
+        }
+        return prev.map(reminder => reminder.id === id ? { ...reminder, ...updated } : reminder);
+      });
+
+      return updated;
+    } catch (error) {
+      console.error('Error updating reminder:', error);
+      toast.error('Failed to update reminder');
+      throw error;
+    }
+  };
+
+  const snoozeReminder = async (id: string, days: number) => {
+    try {
+      await updateReminder(id, { snoozed_until: getSnoozeUntil(days) });
+      toast.success(`Reminder snoozed for ${days} ${days === 1 ? 'day' : 'days'}`);
+    } catch (error) {
+      // Error already reported by updateReminder
+    }
+  };
+
+  const completeReminder = async (id: string) => {
+    try {
+      await updateReminder(id, { status: 'completed' });
+      toast.success('Reminder completed');
+    } catch (error) {
+      // Error already reported by updateReminder
+    }
+  };
+
+  const deleteReminder = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('contact_reminders')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setReminders(prev => prev.filter(reminder => reminder.id !== id));
+      toast.success('Reminder deleted');
+    } catch (error) {
+      console.error('Error deleting reminder:', error);
+      toast.error('Failed to delete reminder');
+    }
+  };
+
+  useEffect(() => {
+    fetchReminders();
+  }, [fetchReminders]);
+
+  return {
+    reminders,
+    loading,
+    createReminder,
+    updateReminder,
+    snoozeReminder,
+    completeReminder,
+    deleteReminder,
+    refetch: fetchReminders
+  };
+};
@@ -0,0 +1,164 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { CreateCreditNoteRequest, CreditNote, Invoice, RecordRefundRequest } from '@/types/invoice';
+import { PAYMENT_METHOD_LABELS } from '@/utils/invoiceBalance';
+import { useToast } from './use-toast';
+
+/**
+ * Hook for the credit notes of one invoice
+ * Credit notes are issued through the database so numbering, quantity checks and
+ * amount_credited stay consistent; after each change the invoice is re-read and handed back
+ */
+export const useCreditNotes = (invoiceId: string) => {
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchCreditNotes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('credit_notes')
+        .select('*, credit_note_items(*)')
+        .eq('invoice_id', invoiceId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setCreditNotes((data || []) as CreditNote[]);
+    } catch (error) {
+      console.error('Error fetching credit notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [invoiceId]);
+
+  useEffect(() => {
+    fetchCreditNotes();
+  }, [fetchCreditNotes]);
+
+  const fetchUpdatedInvoice = async (): Promise<Invoice | null> => {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .single();
+
+    if (error) {
+      console.error('Error refreshing invoice:', error);
+      return null;
+    }
+    return data as unknown as Invoice;
+  };
+
+  const createCreditNote = async (request: CreateCreditNoteRequest): Promise<Invoice | null> => {
+    if (!user) return null;
+
+    try {
+      const { error } = await supabase.rpc('issue_credit_note', {
+        p_invoice_id: invoiceId,
+        p_reason: request.reason || '',
+        p_items: request.items,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Credit note issued',
+      });
+
+      await fetchCreditNotes();
+      return await fetchUpdatedInvoice();
+    } catch (error) {
+      console.error('Error issuing credit note:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to issue credit note',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const voidCreditNote = async (creditNote: CreditNote): Promise<Invoice | null> => {
+    try {
+      const { error } = await supabase
+        .from('credit_notes')
+        .update({ status: 'Void' })
+        .eq('id', creditNote.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Credit note ${creditNote.credit_note_number} voided`,
+      });
+
+      await fetchCreditNotes();
+      return await fetchUpdatedInvoice();
+    } catch (error) {
+      console.error('Error voiding credit note:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to void credit note',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const recordRefund = async (creditNote: CreditNote, request: RecordRefundRequest) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('credit_notes')
+        .update({
+          refund_amount: request.amount,
+          refunded_at: request.refunded_at,
+          refund_method: request.method,
+          refund_reference: request.reference || null,
+        })
+        .eq('id', creditNote.id);
+
+      if (error) throw error;
+
+      await supabase
+        .from('invoice_activities')
+        .insert({
+          invoice_id: invoiceId,
+          user_id: user.id,
+          activity_type: 'Refund Recorded',
+          details: `Refund of ${request.amount.toFixed(2)} (${PAYMENT_METHOD_LABELS[request.method]}) for credit note ${creditNote.credit_note_number}`,
+        });
+
+      toast({
+        title: 'Success',
+        description: 'Refund recorded',
+      });
+
+      await fetchCreditNotes();
+      return true;
+    } catch (error) {
+      console.error('Error recording refund:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record refund',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return {
+    creditNotes,
+    loading,
+    createCreditNote,
+    voidCreditNote,
+    recordRefund,
+    refetch: fetchCreditNotes,
+  };
+};
@@ -1,33 +1,18 @@
-
 import { useSystemSettings } from './useSystemSettings';
+import { formatCurrencyAmount, getCurrencySymbol } from '@/utils/currencyUtils';
 
-const CURRENCY_SYMBOLS = {
-  USD: '$',
-  IDR: 'Rp',
-  EUR: '€',
-  GBP: '£',
-  JPY: '¥',
-  SGD: 'S$',
-  MYR: 'RM',
-  THB: '฿',
-} as const;
-
-export const useCurrency = () => {
+/**
+ * Formats amounts in the currency of a record, such as an invoice, or in the user's
+ * default currency when none is given
+ */
+export const useCurrency = (currencyOverride?: string | null) => {
   const { settings } = useSystemSettings();
-  
-  const currency = settings?.currency || 'USD';
-  const symbol = CURRENCY_SYMBOLS[currency as keyof typeof CURRENCY_SYMBOLS] || '$';
 
-  const formatCurrency = (amount: number | null) => {
-    if (amount === null || amount === undefined) return `${symbol}0`;
-    
-    // Format based on currency type
-    if (currency === 'IDR') {
-      return `${symbol}${amount.toLocaleString('id-ID')}`;
-    }
-    
-    return `${symbol}${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-  };
+  const currency = currencyOverride || settings?.currency || 'USD';
+  const symbol = getCurrencySymbol(currency);
+
+  const formatCurrency = (amount: number | null, currencyCode: string = currency) =>
+    formatCurrencyAmount(amount, currencyCode);
 
   return {
     currency,
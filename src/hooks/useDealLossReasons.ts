@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DealLossReason } from '@/types/deal';
+import { useToast } from './use-toast';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for the reasons deals of the user's teams can be lost for
+ */
+export const useDealLossReasons = () => {
+  const [lossReasons, setLossReasons] = useState<DealLossReason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchLossReasons = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('deal_loss_reasons')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setLossReasons((data || []) as DealLossReason[]);
+    } catch (error) {
+      console.error('Error fetching loss reasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load loss reasons',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchLossReasons();
+  }, [fetchLossReasons]);
+
+  // Reasons that can still be picked for a team's deals
+  const getActiveReasons = useCallback((teamId?: string | null) =>
+    lossReasons.filter(reason => reason.team_id === teamId && reason.is_active),
+  [lossReasons]);
+
+  const addLossReason = async (teamId: string, name: string) => {
+    try {
+      const position = lossReasons.filter(reason => reason.team_id === teamId).length;
+      const { data, error } = await supabase
+        .from('deal_loss_reasons')
+        .insert({ team_id: teamId, name: name.trim(), position })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLossReasons(prev => [...prev, data as DealLossReason]);
+      return true;
+    } catch (error) {
+      console.error('Error adding loss reason:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to add loss reason'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const updateLossReason = async (reasonId: string, updates: Partial<Pick<DealLossReason, 'name' | 'is_active'>>) => {
+    try {
+      const { error } = await supabase
+        .from('deal_loss_reasons')
+        .update(updates)
+        .eq('id', reasonId);
+
+      if (error) throw error;
+
+      setLossReasons(prev => prev.map(reason => (reason.id === reasonId ? { ...reason, ...updates } : reason)));
+      return true;
+    } catch (error) {
+      console.error('Error updating loss reason:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to update loss reason'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Lost deals keep the reason's name, so removing a reason doesn't change past reports
+  const deleteLossReason = async (reasonId: string) => {
+    try {
+      const { error } = await supabase
+        .from('deal_loss_reasons')
+        .delete()
+        .eq('id', reasonId);
+
+      if (error) throw error;
+
+      setLossReasons(prev => prev.filter(reason => reason.id !== reasonId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting loss reason:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to delete loss reason'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return {
+    lossReasons,
+    loading,
+    getActiveReasons,
+    addLossReason,
+    updateLossReason,
+    deleteLossReason,
+    refetch: fetchLossReasons,
+  };
+};
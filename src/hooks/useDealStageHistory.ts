@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DealActivity } from '@/types/deal';
+import { useToast } from './use-toast';
+
+/**
+ * Hook for the stage changes of the user's deals, oldest first
+ */
+export const useDealStageHistory = () => {
+  const [stageChanges, setStageChanges] = useState<DealActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchStageChanges = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('deal_activities')
+        .select('*')
+        .eq('activity_type', 'stage_change')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setStageChanges((data || []) as DealActivity[]);
+    } catch (error) {
+      console.error('Error fetching deal stage history:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load deal stage history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchStageChanges();
+  }, [fetchStageChanges]);
+
+  return {
+    stageChanges,
+    loading,
+    refetch: fetchStageChanges,
+  };
+};
@@ -2,9 +2,30 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Deal, DealActivity, PipelineAnalytics } from '@/types/deal';
+import { Deal, DealActivity, DealItemInput, PipelineAnalytics } from '@/types/deal';
+import { getLineTotal } from '@/utils/invoiceTotals';
+import { getDealItemsTotal } from '@/utils/dealItems';
 import { toast } from 'sonner';
 
+const DEAL_COLUMNS = `
+  *,
+  contacts(name, company, email),
+  deal_items(*)
+`;
+
+const toDealItemRows = (dealId: string, items: DealItemInput[]) =>
+  items.map((item, index) => ({
+    deal_id: dealId,
+    product_id: item.product_id || null,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    discount_type: item.discount_type || null,
+    discount_value: item.discount_type ? item.discount_value || 0 : 0,
+    total_price: getLineTotal(item),
+    position: index,
+  }));
+
 export const useDeals = () => {
   const [deals, setDeals] = useState<Deal[]>([]);
   const [analytics, setAnalytics] = useState<PipelineAnalytics | null>(null);
@@ -17,14 +38,12 @@ export const useDeals = () => {
     try {
       const { data, error } = await supabase
         .from('deals')
-        .select(`
-          *,
-          contacts(name, company, email)
-        `)
-        .order('created_at', { ascending: false });
+        .select(DEAL_COLUMNS)
+        .order('created_at', { ascending: false })
+        .order('position', { referencedTable: 'deal_items' });
 
       if (error) throw error;
-      setDeals(data || []);
+      setDeals((data || []) as Deal[]);
     } catch (error) {
       console.error('Error fetching deals:', error);
       toast.error('Failed to fetch deals');
@@ -46,7 +65,23 @@ export const useDeals = () => {
     }
   };
 
-  const createDeal = async (dealData: Omit<Deal, 'id' | 'created_at' | 'updated_at'>) => {
+  const fetchDeal = async (id: string) => {
+    const { data, error } = await supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .eq('id', id)
+      .order('position', { referencedTable: 'deal_items' })
+      .single();
+
+    if (error) {
+      console.error('Error fetching deal:', error);
+      return null;
+    }
+    return data as Deal;
+  };
+
+  // Deals created with line items are worth the total of the lines
+  const createDeal = async (dealData: Omit<Deal, 'id' | 'created_at' | 'updated_at'>, items: DealItemInput[] = []) => {
     if (!user) return;
 
     try {
@@ -57,8 +92,12 @@ export const useDeals = () => {
           description: dealData.description,
           contact_id: dealData.contact_id,
           stage: dealData.stage,
-          value: dealData.value,
+          pipeline_id: dealData.pipeline_id,
+          stage_id: dealData.stage_id,
+          value: items.length > 0 ? getDealItemsTotal(items) : dealData.value,
+          currency: dealData.currency,
           probability: dealData.probability,
+          forecast_category: dealData.forecast_category,
           expected_close_date: dealData.expected_close_date,
           actual_close_date: dealData.actual_close_date,
           created_by: user.id,
@@ -71,8 +110,21 @@ export const useDeals = () => {
         .single();
 
       if (error) throw error;
-      
-      setDeals(prev => [data, ...prev]);
+
+      if (items.length > 0) {
+        const { error: itemsError } = await supabase
+          .from('deal_items')
+          .insert(toDealItemRows(data.id, items));
+
+        if (itemsError) {
+          // Don't leave a deal behind that is missing the lines its value came from
+          await supabase.from('deals').delete().eq('id', data.id);
+          throw itemsError;
+        }
+      }
+
+      const created = await fetchDeal(data.id) || data as Deal;
+      setDeals(prev => [created, ...prev]);
       toast.success('Deal created successfully');
       return data;
     } catch (error) {
@@ -94,7 +146,7 @@ export const useDeals = () => {
       if (error) throw error;
 
       setDeals(prev => prev.map(deal => 
-        deal.id === id ? { ...deal, ...data } : deal
+        deal.id === id ? { ...deal, ...data } as Deal : deal
       ));
       
       return data;
@@ -105,15 +157,52 @@ export const useDeals = () => {
     }
   };
 
-  const updateDealStage = async (id: string, stage: Deal['stage']) => {
+  // The database fills in the stage name and the stage's default probability
+  // Deals moved into a lost stage carry the reason they were lost for
+  const updateDealStage = async (
+    id: string,
+    stageId: string,
+    lostReason?: Pick<Deal, 'lost_reason_id' | 'lost_notes'>
+  ) => {
     try {
-      await updateDeal(id, { stage });
-      toast.success(`Deal moved to ${stage}`);
+      const data = await updateDeal(id, { stage_id: stageId, ...lostReason });
+      toast.success(`Deal moved to ${data.stage}`);
     } catch (error) {
       toast.error('Failed to move deal');
     }
   };
 
+  // Replaces the lines of a deal; the database then sets the deal's value to their total
+  const saveDealItems = async (id: string, items: DealItemInput[]) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('deal_items')
+        .delete()
+        .eq('deal_id', id);
+
+      if (deleteError) throw deleteError;
+
+      if (items.length > 0) {
+        const { error } = await supabase
+          .from('deal_items')
+          .insert(toDealItemRows(id, items));
+
+        if (error) throw error;
+      }
+
+      const updated = await fetchDeal(id);
+      if (updated) {
+        setDeals(prev => prev.map(deal => (deal.id === id ? updated : deal)));
+      }
+      toast.success('Deal products saved');
+      return true;
+    } catch (error) {
+      console.error('Error saving deal items:', error);
+      toast.error('Failed to save deal products');
+      return false;
+    }
+  };
+
   const deleteDeal = async (id: string) => {
     try {
       const { error } = await supabase
@@ -143,6 +232,7 @@ export const useDeals = () => {
     createDeal,
     updateDeal,
     updateDealStage,
+    saveDealItems,
     deleteDeal,
     refetch: () => {
       fetchDeals();
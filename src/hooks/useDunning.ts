@@ -0,0 +1,298 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DunningSequence, DunningStepDraft, InvoiceReminder } from '@/types/dunning';
+import { Invoice } from '@/types/invoice';
+import { MessageTemplateChannel } from '@/types/messageTemplate';
+import { useToast } from './use-toast';
+
+interface RecordReminderRequest {
+  invoice: Invoice;
+  step_id: string;
+  step_number: number;
+  channel: MessageTemplateChannel;
+  template_set_id?: string;
+  template_variation_id?: string;
+}
+
+const CHANNEL_NAMES: Record<MessageTemplateChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'email',
+};
+
+/**
+ * Hook for payment reminder sequences and the reminders sent from them
+ */
+export const useDunning = () => {
+  const [sequences, setSequences] = useState<DunningSequence[]>([]);
+  const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchDunningData = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [sequencesResult, remindersResult] = await Promise.all([
+        supabase
+          .from('dunning_sequences')
+          .select('*, dunning_steps(*)')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('invoice_reminders')
+          .select('*'),
+      ]);
+
+      if (sequencesResult.error) throw sequencesResult.error;
+      if (remindersResult.error) throw remindersResult.error;
+
+      setSequences((sequencesResult.data || []) as DunningSequence[]);
+      setReminders((remindersResult.data || []) as InvoiceReminder[]);
+    } catch (error) {
+      console.error('Error fetching reminder sequences:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load payment reminders',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchDunningData();
+  }, [fetchDunningData]);
+
+  // Steps keep their ids when edited, so reminders already sent for them aren't repeated
+  const saveSequence = async (
+    sequenceId: string | null,
+    values: { team_id: string; name: string },
+    steps: DunningStepDraft[]
+  ) => {
+    if (!user) return false;
+
+    try {
+      let id = sequenceId;
+
+      if (id) {
+        const { error } = await supabase
+          .from('dunning_sequences')
+          .update({ name: values.name })
+          .eq('id', id);
+
+        if (error) throw error;
+      } else {
+        // A team's first sequence becomes its active one
+        const hasActive = sequences.some(sequence => sequence.team_id === values.team_id && sequence.is_active);
+        const { data, error } = await supabase
+          .from('dunning_sequences')
+          .insert({
+            team_id: values.team_id,
+            created_by: user.id,
+            name: values.name,
+            is_active: !hasActive,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        id = data.id;
+      }
+
+      const existing = sequences.find(sequence => sequence.id === id)?.dunning_steps || [];
+      const keptIds = new Set(steps.filter(step => step.id).map(step => step.id));
+      const removedIds = existing.filter(step => !keptIds.has(step.id)).map(step => step.id);
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('dunning_steps')
+          .delete()
+          .in('id', removedIds);
+
+        if (error) throw error;
+      }
+
+      for (const [index, step] of steps.entries()) {
+        const stepValues = {
+          position: index,
+          days_after_due: step.days_after_due,
+          channel: step.channel,
+          template_set_id: step.template_set_id,
+        };
+
+        const { error } = step.id
+          ? await supabase.from('dunning_steps').update(stepValues).eq('id', step.id)
+          : await supabase.from('dunning_steps').insert({ ...stepValues, sequence_id: id as string });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Success',
+        description: `Reminder sequence "${values.name}" saved`,
+      });
+
+      await fetchDunningData();
+      return true;
+    } catch (error) {
+      console.error('Error saving reminder sequence:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save reminder sequence',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const deleteSequence = async (sequenceId: string) => {
+    try {
+      const { error } = await supabase
+        .from('dunning_sequences')
+        .delete()
+        .eq('id', sequenceId);
+
+      if (error) throw error;
+
+      setSequences(prev => prev.filter(sequence => sequence.id !== sequenceId));
+      toast({
+        title: 'Success',
+        description: 'Reminder sequence deleted',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error deleting reminder sequence:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete reminder sequence',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Only one sequence per team can be active, so the current one is switched off first
+  const activateSequence = async (sequence: DunningSequence) => {
+    try {
+      const { error: deactivateError } = await supabase
+        .from('dunning_sequences')
+        .update({ is_active: false })
+        .eq('team_id', sequence.team_id)
+        .eq('is_active', true);
+
+      if (deactivateError) throw deactivateError;
+
+      const { error } = await supabase
+        .from('dunning_sequences')
+        .update({ is_active: true })
+        .eq('id', sequence.id);
+
+      if (error) throw error;
+
+      setSequences(prev => prev.map(item =>
+        item.team_id === sequence.team_id ? { ...item, is_active: item.id === sequence.id } : item
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error activating reminder sequence:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to activate reminder sequence',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const deactivateSequence = async (sequenceId: string) => {
+    try {
+      const { error } = await supabase
+        .from('dunning_sequences')
+        .update({ is_active: false })
+        .eq('id', sequenceId);
+
+      if (error) throw error;
+
+      setSequences(prev => prev.map(item => (item.id === sequenceId ? { ...item, is_active: false } : item)));
+      return true;
+    } catch (error) {
+      console.error('Error deactivating reminder sequence:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to deactivate reminder sequence',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const recordReminder = async (request: RecordReminderRequest) => {
+    if (!user) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('invoice_reminders')
+        .insert({
+          invoice_id: request.invoice.id,
+          step_id: request.step_id,
+          channel: request.channel,
+          template_variation_id: request.template_variation_id || null,
+          sent_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await supabase
+        .from('invoice_activities')
+        .insert({
+          invoice_id: request.invoice.id,
+          user_id: user.id,
+          activity_type: 'Reminder Sent',
+          details: `Payment reminder ${request.step_number} sent by ${CHANNEL_NAMES[request.channel]}`,
+        });
+
+      // Emails are logged on the contact by the send-email function; WhatsApp sends are logged here
+      if (request.channel === 'whatsapp') {
+        await supabase
+          .from('activities')
+          .insert({
+            contact_id: request.invoice.contact_id,
+            user_id: user.id,
+            type: 'Payment Reminder',
+            details: `Payment reminder for invoice ${request.invoice.invoice_number} sent via WhatsApp`,
+            timestamp: new Date().toISOString(),
+            template_set_id: request.template_set_id || null,
+            template_variation_id: request.template_variation_id || null,
+          });
+      }
+
+      setReminders(prev => [...prev, data as InvoiceReminder]);
+      return true;
+    } catch (error) {
+      console.error('Error recording reminder:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to record reminder',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return {
+    sequences,
+    reminders,
+    loading,
+    saveSequence,
+    deleteSequence,
+    activateSequence,
+    deactivateSequence,
+    recordReminder,
+    refetch: fetchDunningData,
+  };
+};
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ExchangeRate } from '@/types/team';
+import { Invoice } from '@/types/invoice';
+import { readSpreadsheetFile } from '@/utils/spreadsheetReader';
+import { convertAmount } from '@/utils/currencyUtils';
+import { ExchangeRateInput, findExchangeRate, parseExchangeRateSheet } from '@/utils/exchangeRates';
+import { useTeamData } from './useTeamData';
+import { useToast } from './use-toast';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for the teams' reporting currencies and their exchange rate tables
+ * Reports convert to the reporting currency of the user's first team
+ */
+export const useExchangeRates = () => {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { teams, loading: teamsLoading, isTeamOwner, refetch: refetchTeams } = useTeamData();
+  const { toast } = useToast();
+
+  const fetchRates = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('effective_date', { ascending: false });
+
+      if (error) throw error;
+
+      setRates((data || []) as ExchangeRate[]);
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load exchange rates',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const getReportingCurrency = (teamId?: string | null) =>
+    teams.find(team => team.id === teamId)?.reporting_currency || 'USD';
+
+  const getTeamRates = (teamId: string) => rates.filter(rate => rate.team_id === teamId);
+
+  const getRate = (teamId: string, currency: string, on?: string) =>
+    findExchangeRate(getTeamRates(teamId), currency, getReportingCurrency(teamId), on);
+
+  const reportingTeam = teams[0];
+  const reportingCurrency = getReportingCurrency(reportingTeam?.id);
+
+  /**
+   * Converts an amount into the reporting currency at today's rate
+   * Returns null when the reporting team has no rate for the currency
+   */
+  const toReportingCurrency = (amount: number, currency: string): number | null => {
+    if (currency === reportingCurrency) return amount;
+    if (!reportingTeam) return null;
+
+    const rate = getRate(reportingTeam.id, currency);
+    return rate === null ? null : convertAmount(amount, rate);
+  };
+
+  /**
+   * Converts an invoice amount into the reporting currency
+   * Uses the rate captured on the invoice when it was captured for the same reporting currency
+   */
+  const invoiceToReportingCurrency = (
+    invoice: Pick<Invoice, 'currency' | 'exchange_rate' | 'reporting_currency'>,
+    amount: number
+  ): number | null => {
+    if (invoice.currency === reportingCurrency) return amount;
+    if (invoice.reporting_currency === reportingCurrency) {
+      return convertAmount(amount, invoice.exchange_rate || 1);
+    }
+    return toReportingCurrency(amount, invoice.currency);
+  };
+
+  const saveRates = async (teamId: string, entries: ExchangeRateInput[], source: ExchangeRate['source']) => {
+    if (!user) throw new Error('Not signed in');
+    if (!isTeamOwner(teamId)) throw new Error('Only team owners can manage exchange rates');
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        entries.map(entry => ({ ...entry, team_id: teamId, source, created_by: user.id })),
+        { onConflict: 'team_id,currency,effective_date' }
+      );
+
+    if (error) throw error;
+  };
+
+  const addRate = async (teamId: string, entry: ExchangeRateInput) => {
+    try {
+      await saveRates(teamId, [entry], 'manual');
+
+      toast({
+        title: 'Success',
+        description: `Rate for ${entry.currency} saved`,
+      });
+
+      await fetchRates();
+      return true;
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to save exchange rate'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Rates already in the table for the same currency and date are replaced
+  const importRates = async (teamId: string, file: File) => {
+    try {
+      const [sheet] = await readSpreadsheetFile(file);
+      if (!sheet || sheet.errors.length > 0) {
+        throw new Error(sheet?.errors[0] || 'The file is empty');
+      }
+
+      const { rates: entries, errors } = parseExchangeRateSheet(sheet, getReportingCurrency(teamId));
+      if (entries.length === 0) {
+        throw new Error(errors[0] || 'The file contains no rates');
+      }
+
+      await saveRates(teamId, entries, 'import');
+
+      toast({
+        title: 'Rates imported',
+        description: errors.length > 0
+          ? `${entries.length} rates imported, ${errors.length} rows skipped (${errors[0]})`
+          : `${entries.length} rates imported`,
+      });
+
+      await fetchRates();
+      return true;
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to import exchange rates'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const deleteRate = async (rateId: string) => {
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', rateId);
+
+      if (error) throw error;
+
+      setRates(prev => prev.filter(rate => rate.id !== rateId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to delete exchange rate'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Rates are relative to the reporting currency, so the database removes them along with the change
+  const setReportingCurrency = async (teamId: string, currency: string) => {
+    try {
+      if (!isTeamOwner(teamId)) {
+        throw new Error('Only team owners can change the reporting currency');
+      }
+
+      const { error } = await supabase.rpc('set_team_reporting_currency', {
+        p_team_id: teamId,
+        p_currency: currency,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Reporting currency changed to ${currency}`,
+      });
+
+      await Promise.all([refetchTeams(), fetchRates()]);
+      return true;
+    } catch (error) {
+      console.error('Error changing reporting currency:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to change reporting currency'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return {
+    rates,
+    teams,
+    loading: loading || teamsLoading,
+    isTeamOwner,
+    reportingCurrency,
+    getReportingCurrency,
+    getTeamRates,
+    getRate,
+    toReportingCurrency,
+    invoiceToReportingCurrency,
+    addRate,
+    importRates,
+    deleteRate,
+    setReportingCurrency,
+  };
+};
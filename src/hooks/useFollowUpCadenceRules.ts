@@ -0,0 +1,122 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { FollowUpCadenceRule, CreateCadenceRuleRequest } from '@/types/followUp';
+import { normalizeStaleDays } from '@/utils/followUpCadence';
+import { toast } from 'sonner';
+
+/**
+ * Hook for managing per-team follow-up cadence rules
+ * RLS limits the result to rules of teams the user belongs to
+ */
+export const useFollowUpCadenceRules = () => {
+  const [rules, setRules] = useState<FollowUpCadenceRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchRules = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('follow_up_cadence_rules')
+        .select('*')
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching cadence rules:', error);
+      toast.error('Failed to fetch follow-up cadence rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const createRule = async (ruleData: CreateCadenceRuleRequest) => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('follow_up_cadence_rules')
+        .insert({
+          team_id: ruleData.team_id,
+          name: ruleData.name,
+          label: ruleData.label || null,
+          stale_days: normalizeStaleDays(ruleData.stale_days),
+          excluded_statuses: ruleData.excluded_statuses,
+          priority: ruleData.priority ?? 0,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setRules(prev => [...prev, data]);
+      toast.success('Cadence rule created');
+      return data;
+    } catch (error) {
+      console.error('Error creating cadence rule:', error);
+      toast.error('Failed to create cadence rule');
+      throw error;
+    }
+  };
+
+  const updateRule = async (id: string, updates: Partial<FollowUpCadenceRule>) => {
+    try {
+      const { data, error } = await supabase
+        .from('follow_up_cadence_rules')
+        .update({
+          ...updates,
+          ...(updates.stale_days ? { stale_days: normalizeStaleDays(updates.stale_days) } : {}),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...data } : rule));
+      toast.success('Cadence rule updated');
+      return data;
+    } catch (error) {
+      console.error('Error updating cadence rule:', error);
+      toast.error('Failed to update cadence rule');
+      throw error;
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('follow_up_cadence_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setRules(prev => prev.filter(rule => rule.id !== id));
+      toast.success('Cadence rule deleted');
+    } catch (error) {
+      console.error('Error deleting cadence rule:', error);
+      toast.error('Failed to delete cadence rule');
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return {
+    rules,
+    loading,
+    createRule,
+    updateRule,
+    deleteRule,
+    refetch: fetchRules
+  };
+};
@@ -1,10 +1,26 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Invoice, InvoiceItem, InvoiceActivity, CreateInvoiceRequest } from '@/types/invoice';
+import { Json } from '@/integrations/supabase/types';
+import { Invoice, InvoiceItem, InvoiceActivity, InvoiceDocument, CreateInvoiceRequest, InvoiceLineInput, InvoicePricing } from '@/types/invoice';
+import { InvoiceArchiveService } from '@/services/invoiceArchiveService';
+import { getLineTotal, getPricingFields } from '@/utils/invoiceTotals';
+import { downloadBlob } from '@/utils/downloadUtils';
 import { useTeamData } from './useTeamData';
 import { useToast } from './use-toast';
 
+const toItemRows = (invoiceId: string, items: InvoiceLineInput[]) =>
+  items.map(item => ({
+    invoice_id: invoiceId,
+    product_id: item.product_id || null,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    discount_type: item.discount_type || null,
+    discount_value: item.discount_type ? item.discount_value || 0 : 0,
+    total_price: getLineTotal(item),
+  }));
+
 export const useInvoiceData = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loading, setLoading] = useState(true);
@@ -34,7 +50,7 @@ export const useInvoiceData = () => {
         throw fetchError;
       }
 
-      setInvoices(data || []);
+      setInvoices((data || []) as unknown as Invoice[]);
     } catch (err: any) {
       console.error('Error fetching invoices:', err);
       setError(err.message || 'Failed to fetch invoices');
@@ -71,12 +87,7 @@ export const useInvoiceData = () => {
         throw numberError;
       }
 
-      // Calculate totals
-      const subtotal = invoiceData.items.reduce((sum, item) => 
-        sum + (item.quantity * item.unit_price), 0
-      );
-      const taxAmount = subtotal * (invoiceData.tax_rate || 0) / 100;
-      const total = subtotal + taxAmount;
+      const pricingFields = getPricingFields(invoiceData.items, invoiceData);
 
       // Create invoice
       const { data: invoice, error: invoiceError } = await supabase
@@ -86,10 +97,11 @@ export const useInvoiceData = () => {
           contact_id: invoiceData.contact_id,
           team_id: invoiceData.team_id,
           created_by: user.id,
-          subtotal,
-          tax_rate: invoiceData.tax_rate || 0,
-          tax_amount: taxAmount,
-          total,
+          ...pricingFields,
+          taxes: pricingFields.taxes as unknown as Json,
+          // Left out, the database fills in the team's currency and snapshots the latest rate
+          currency: invoiceData.currency,
+          exchange_rate: invoiceData.exchange_rate,
           due_date: invoiceData.due_date,
           notes: invoiceData.notes,
         })
@@ -101,15 +113,9 @@ export const useInvoiceData = () => {
       }
 
       // Create invoice items
-      const itemsWithInvoiceId = invoiceData.items.map(item => ({
-        ...item,
-        invoice_id: invoice.id,
-        total_price: item.quantity * item.unit_price,
-      }));
-
       const { error: itemsError } = await supabase
         .from('invoice_items')
-        .insert(itemsWithInvoiceId);
+        .insert(toItemRows(invoice.id, invoiceData.items));
 
       if (itemsError) {
         throw itemsError;
@@ -132,17 +138,17 @@ export const useInvoiceData = () => {
           contact_id: invoiceData.contact_id,
           user_id: user.id,
           type: 'Invoice Created',
-          details: `Invoice ${invoiceNumber} created for ${total.toFixed(2)}`,
+          details: `Invoice ${invoiceNumber} created for ${pricingFields.total.toFixed(2)}`,
         });
 
-      setInvoices(prevInvoices => [invoice, ...prevInvoices]);
+      setInvoices(prevInvoices => [invoice as unknown as Invoice, ...prevInvoices]);
       
       toast({
         title: 'Success',
         description: `Invoice ${invoiceNumber} created successfully`,
       });
 
-      return invoice;
+      return invoice as unknown as Invoice;
     } catch (err: any) {
       console.error('Error creating invoice:', err);
       toast({
@@ -154,17 +160,14 @@ export const useInvoiceData = () => {
     }
   };
 
-  const updateInvoice = async (invoiceId: string, updateData: {
+  const updateInvoice = async (invoiceId: string, updateData: InvoicePricing & {
     contact_id: string;
     team_id: string;
+    currency: string;
+    exchange_rate?: number;
     due_date: string | null;
-    tax_rate: number;
     notes: string | null;
-    items: Array<{
-      description: string;
-      quantity: number;
-      unit_price: number;
-    }>;
+    items: InvoiceLineInput[];
   }) => {
     if (!user) return false;
 
@@ -174,12 +177,22 @@ export const useInvoiceData = () => {
         throw new Error('Only team owners can update invoices');
       }
 
-      // Calculate totals
-      const subtotal = updateData.items.reduce((sum, item) => 
-        sum + (item.quantity * item.unit_price), 0
-      );
-      const taxAmount = subtotal * updateData.tax_rate / 100;
-      const total = subtotal + taxAmount;
+      const pricingFields = getPricingFields(updateData.items, updateData);
+
+      // Without a rate entered, take today's rate from the rate table, as a new invoice would
+      let exchangeRate = updateData.exchange_rate;
+      if (!exchangeRate) {
+        const { data: rate, error: rateError } = await supabase.rpc('get_exchange_rate', {
+          p_team_id: updateData.team_id,
+          p_currency: updateData.currency,
+        });
+
+        if (rateError) throw rateError;
+        if (!rate) {
+          throw new Error(`No exchange rate for ${updateData.currency}; enter one on the invoice or add it to the rate table`);
+        }
+        exchangeRate = rate;
+      }
 
       // Update invoice
       const { error: invoiceError } = await supabase
@@ -187,10 +200,10 @@ export const useInvoiceData = () => {
         .update({
           contact_id: updateData.contact_id,
           team_id: updateData.team_id,
-          subtotal,
-          tax_rate: updateData.tax_rate,
-          tax_amount: taxAmount,
-          total,
+          ...pricingFields,
+          taxes: pricingFields.taxes as unknown as Json,
+          currency: updateData.currency,
+          exchange_rate: exchangeRate,
           due_date: updateData.due_date,
           notes: updateData.notes,
           updated_at: new Date().toISOString(),
@@ -212,15 +225,9 @@ export const useInvoiceData = () => {
       }
 
       // Create new items
-      const itemsWithInvoiceId = updateData.items.map(item => ({
-        ...item,
-        invoice_id: invoiceId,
-        total_price: item.quantity * item.unit_price,
-      }));
-
       const { error: itemsError } = await supabase
         .from('invoice_items')
-        .insert(itemsWithInvoiceId);
+        .insert(toItemRows(invoiceId, updateData.items));
 
       if (itemsError) {
         throw itemsError;
@@ -241,10 +248,11 @@ export const useInvoiceData = () => {
           invoice.id === invoiceId 
             ? { 
                 ...invoice, 
-                ...updateData,
-                subtotal,
-                tax_amount: taxAmount,
-                total,
+                contact_id: updateData.contact_id,
+                team_id: updateData.team_id,
+                due_date: updateData.due_date || undefined,
+                notes: updateData.notes || undefined,
+                ...pricingFields,
                 updated_at: new Date().toISOString()
               }
             : invoice
@@ -272,28 +280,33 @@ export const useInvoiceData = () => {
     if (!user) return false;
 
     try {
-      const { error } = await supabase
-        .from('invoices')
-        .update({ 
-          status, 
-          updated_at: new Date().toISOString() 
-        })
-        .eq('id', invoiceId);
-
-      if (error) {
-        throw error;
+      if (status === 'Sent') {
+        // The server archives the issued copy first; without it the invoice stays as it was
+        await InvoiceArchiveService.sendInvoice(invoiceId);
+      } else {
+        const { error } = await supabase
+          .from('invoices')
+          .update({ 
+            status, 
+            updated_at: new Date().toISOString() 
+          })
+          .eq('id', invoiceId);
+
+        if (error) {
+          throw error;
+        }
+
+        // Log activity
+        await supabase
+          .from('invoice_activities')
+          .insert({
+            invoice_id: invoiceId,
+            user_id: user.id,
+            activity_type: 'Status Updated',
+            details: `Invoice status changed to ${status}`,
+          });
       }
 
-      // Log activity
-      await supabase
-        .from('invoice_activities')
-        .insert({
-          invoice_id: invoiceId,
-          user_id: user.id,
-          activity_type: 'Status Updated',
-          details: `Invoice status changed to ${status}`,
-        });
-
       setInvoices(prevInvoices =>
         prevInvoices.map(invoice =>
           invoice.id === invoiceId 
@@ -331,7 +344,7 @@ export const useInvoiceData = () => {
         throw error;
       }
 
-      return data || [];
+      return (data || []) as InvoiceItem[];
     } catch (err: any) {
       console.error('Error fetching invoice items:', err);
       return [];
@@ -357,6 +370,41 @@ export const useInvoiceData = () => {
     }
   };
 
+  const fetchInvoiceDocuments = async (invoiceId: string): Promise<InvoiceDocument[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_documents')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (err) {
+      console.error('Error fetching invoice documents:', err);
+      return [];
+    }
+  };
+
+  const downloadInvoiceDocument = async (document: InvoiceDocument) => {
+    try {
+      const file = await InvoiceArchiveService.downloadDocument(document.storage_path);
+      downloadBlob(file, `${document.invoice_number}-v${document.version}.pdf`, 'application/pdf');
+      return true;
+    } catch (err) {
+      console.error('Error downloading archived invoice:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to download archived invoice',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
   return {
     invoices,
     loading,
@@ -367,6 +415,8 @@ export const useInvoiceData = () => {
     updateInvoiceStatus,
     fetchInvoiceItems,
     fetchInvoiceActivities,
+    fetchInvoiceDocuments,
+    downloadInvoiceDocument,
     isTeamOwner,
   };
 };
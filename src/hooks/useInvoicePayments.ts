@@ -0,0 +1,126 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Invoice, InvoicePayment, RecordPaymentRequest } from '@/types/invoice';
+import { useToast } from './use-toast';
+
+/**
+ * Hook for the payment ledger of one invoice
+ * amount_paid and the Paid status are maintained by the database, so after each change
+ * the invoice is re-read and handed back to the caller
+ */
+export const useInvoicePayments = (invoiceId: string) => {
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_payments')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('paid_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setPayments((data || []) as InvoicePayment[]);
+    } catch (error) {
+      console.error('Error fetching invoice payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [invoiceId]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const fetchUpdatedInvoice = async (): Promise<Invoice | null> => {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .single();
+
+    if (error) {
+      console.error('Error refreshing invoice:', error);
+      return null;
+    }
+    return data as unknown as Invoice;
+  };
+
+  const recordPayment = async (request: RecordPaymentRequest): Promise<Invoice | null> => {
+    if (!user) return null;
+
+    try {
+      const { error } = await supabase
+        .from('invoice_payments')
+        .insert({
+          invoice_id: invoiceId,
+          amount: request.amount,
+          paid_at: request.paid_at,
+          method: request.method,
+          reference: request.reference || null,
+          notes: request.notes || null,
+          recorded_by: user.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Payment recorded',
+      });
+
+      await fetchPayments();
+      return await fetchUpdatedInvoice();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record payment',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const deletePayment = async (paymentId: string): Promise<Invoice | null> => {
+    try {
+      const { error } = await supabase
+        .from('invoice_payments')
+        .delete()
+        .eq('id', paymentId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Payment removed',
+      });
+
+      await fetchPayments();
+      return await fetchUpdatedInvoice();
+    } catch (error) {
+      console.error('Error removing payment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove payment',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  return {
+    payments,
+    loading,
+    recordPayment,
+    deletePayment,
+    refetch: fetchPayments,
+  };
+};
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { InvoiceShareLink } from '@/types/invoice';
+import { DEFAULT_SHARE_LINK_DAYS } from '@/utils/invoiceShareLinks';
+import { useToast } from './use-toast';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for the public share links of one invoice
+ */
+export const useInvoiceShareLinks = (invoiceId: string) => {
+  const [links, setLinks] = useState<InvoiceShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchLinks = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('invoice_share_links')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setLinks(data || []);
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load share links',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [invoiceId, user, toast]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  /**
+   * Returns the invoice's active link, creating one if there is none
+   */
+  const createLink = async (validDays: number = DEFAULT_SHARE_LINK_DAYS): Promise<InvoiceShareLink | null> => {
+    try {
+      const { data, error } = await supabase.rpc('create_invoice_share_link', {
+        p_invoice_id: invoiceId,
+        p_valid_days: validDays,
+      });
+
+      if (error) throw error;
+
+      setLinks(prev => [data, ...prev.filter(link => link.id !== data.id)]);
+      return data;
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to create share link'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const revokeLink = async (linkId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('revoke_invoice_share_link', { p_link_id: linkId });
+
+      if (error) throw error;
+
+      setLinks(prev => prev.map(link => link.id === linkId ? data : link));
+
+      toast({
+        title: 'Success',
+        description: 'Share link revoked',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to revoke share link'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return {
+    links,
+    loading,
+    createLink,
+    revokeLink,
+    refetch: fetchLinks,
+  };
+};
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { InvoiceTemplate, InvoiceTemplateSettings } from '@/types/invoiceTemplate';
+import { DEFAULT_INVOICE_TEMPLATE, isHexColor } from '@/utils/invoiceTemplate';
+import { useToast } from './use-toast';
+
+const SIGNATURE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_SIGNATURE_SIZE = 5 * 1024 * 1024; // 5MB
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for the invoice PDF templates of the user's teams
+ */
+export const useInvoiceTemplates = () => {
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('invoice_templates')
+        .select('*');
+
+      if (error) throw error;
+
+      setTemplates((data || []) as InvoiceTemplate[]);
+    } catch (error) {
+      console.error('Error fetching invoice templates:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load invoice templates',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // Teams that never saved a template print with the defaults
+  const getTemplate = (teamId?: string | null): InvoiceTemplateSettings => {
+    const template = templates.find(t => t.team_id === teamId);
+    return template ? { ...DEFAULT_INVOICE_TEMPLATE, ...template } : DEFAULT_INVOICE_TEMPLATE;
+  };
+
+  const saveTemplate = async (teamId: string, settings: InvoiceTemplateSettings) => {
+    if (!user) return false;
+
+    try {
+      if (!isHexColor(settings.primary_color) || !isHexColor(settings.accent_color)) {
+        throw new Error('Colours must be hex colours such as #2563eb');
+      }
+
+      const { data, error } = await supabase
+        .from('invoice_templates')
+        .upsert({
+          team_id: teamId,
+          layout: settings.layout,
+          primary_color: settings.primary_color,
+          accent_color: settings.accent_color,
+          header_text: settings.header_text?.trim() || null,
+          footer_text: settings.footer_text?.trim() || null,
+          payment_instructions: settings.payment_instructions?.trim() || null,
+          signature_url: settings.signature_url || null,
+          language: settings.language,
+          updated_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setTemplates(prev => [...prev.filter(t => t.team_id !== teamId), data as InvoiceTemplate]);
+
+      toast({
+        title: 'Success',
+        description: 'Invoice template saved',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving invoice template:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to save invoice template'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Uploads a signature or stamp image to the team's company assets
+   * Returns the public URL, which is only stored once the template is saved
+   */
+  const uploadSignature = async (teamId: string, file: File): Promise<string | null> => {
+    try {
+      if (!SIGNATURE_TYPES.includes(file.type)) {
+        throw new Error('Please upload a valid image file (JPEG, PNG, GIF, WebP)');
+      }
+      if (file.size > MAX_SIGNATURE_SIZE) {
+        throw new Error('File size must be less than 5MB');
+      }
+
+      const fileExt = file.name.split('.').pop()?.toLowerCase();
+      const fileName = `${teamId}/signature-${Date.now()}.${fileExt}`;
+
+      const { error } = await supabase.storage
+        .from('company-assets')
+        .upload(fileName, file, {
+          upsert: true,
+          contentType: file.type
+        });
+
+      if (error) throw error;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('company-assets')
+        .getPublicUrl(fileName);
+
+      return publicUrl;
+    } catch (error) {
+      console.error('Error uploading signature:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to upload signature'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  return {
+    templates,
+    loading,
+    getTemplate,
+    saveTemplate,
+    uploadSignature,
+    refetch: fetchTemplates,
+  };
+};
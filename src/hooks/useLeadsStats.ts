@@ -2,9 +2,11 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useCachedContacts } from '@/hooks/useCachedContacts';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 
 export const useLeadsStats = () => {
   const { contacts, refetch: refetchContacts } = useCachedContacts();
+  const { reportingCurrency, invoiceToReportingCurrency } = useExchangeRates();
   const [refreshing, setRefreshing] = useState(false);
   const [engagementData, setEngagementData] = useState<any[]>([]);
   const [conversionData, setConversionData] = useState<any[]>([]);
@@ -39,7 +41,12 @@ export const useLeadsStats = () => {
           converted_at,
           invoices (
             status,
-            total
+            team_id,
+            total,
+            amount_credited,
+            currency,
+            exchange_rate,
+            reporting_currency
           )
         `);
 
@@ -129,10 +136,15 @@ export const useLeadsStats = () => {
       isContactConverted(contact.id)
     ).length;
 
-    // Calculate total revenue from validated conversions
+    // Calculate total revenue from validated conversions, with credit notes counted as negative revenue,
+    // converted to the reporting currency
     const totalRevenue = conversionData
-      .filter(conversion => isConversionValidated(conversion.id))
-      .reduce((sum, conversion) => sum + (conversion.invoices?.total || 0), 0);
+      .filter(conversion => isConversionValidated(conversion.id) && conversion.invoices)
+      .reduce((sum, conversion) => {
+        const invoice = conversion.invoices;
+        const revenue = (invoice.total || 0) - (invoice.amount_credited || 0);
+        return sum + (invoiceToReportingCurrency(invoice, revenue) ?? 0);
+      }, 0);
 
     console.log('Enhanced leads stats (including status-based conversions):', {
       totalContacts,
@@ -150,6 +162,7 @@ export const useLeadsStats = () => {
       qualified: qualifiedEngagements,
       converted: convertedContacts,
       totalRevenue,
+      revenueCurrency: reportingCurrency,
       conversionRate: totalContacts > 0 ? ((convertedContacts / totalContacts) * 100).toFixed(1) : '0',
       qualificationRate: engagementData.length > 0 ? ((qualifiedEngagements / engagementData.length) * 100).toFixed(1) : '0'
     };
@@ -0,0 +1,221 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  MessageTemplateChannel,
+  MessageTemplateSet,
+  MessageTemplateVariationDraft,
+  TemplateVariationStats
+} from '@/types/messageTemplate';
+import { toast } from 'sonner';
+
+interface TemplateSetFields {
+  title: string;
+  associated_label_id: string;
+  channel: MessageTemplateChannel;
+}
+
+export const DEFAULT_REPLY_WINDOW_DAYS = 3;
+
+/**
+ * Hook for managing the current user's message template sets and their variations
+ * Also loads per-variation send, reply and conversion counts for A/B comparison
+ */
+export const useMessageTemplateSets = (replyWindowDays: number = DEFAULT_REPLY_WINDOW_DAYS) => {
+  const [templateSets, setTemplateSets] = useState<MessageTemplateSet[]>([]);
+  const [stats, setStats] = useState<Record<string, TemplateVariationStats>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const fetchTemplateSets = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('message_template_sets')
+        .select('*, message_template_variations(*)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setTemplateSets((data || []) as MessageTemplateSet[]);
+    } catch (error) {
+      console.error('Error fetching template sets:', error);
+      toast.error('Failed to fetch template sets');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const fetchStats = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_template_variation_stats', {
+        p_reply_window_days: replyWindowDays
+      });
+
+      if (error) throw error;
+      const byVariation: Record<string, TemplateVariationStats> = {};
+      (data || []).forEach(row => {
+        byVariation[row.template_variation_id] = {
+          template_variation_id: row.template_variation_id,
+          sends: Number(row.sends),
+          replies: Number(row.replies),
+          conversions: Number(row.conversions)
+        };
+      });
+      setStats(byVariation);
+    } catch (error) {
+      // Stats are secondary, so the template list stays usable without them
+      console.error('Error fetching template variation stats:', error);
+    }
+  }, [user, replyWindowDays]);
+
+  /**
+   * Creates or updates a template set and syncs its variations
+   * Variations missing from the list are deleted; the list order becomes their position
+   */
+  const saveTemplateSet = async (
+    templateSetId: string | null,
+    fields: TemplateSetFields,
+    variations: MessageTemplateVariationDraft[]
+  ) => {
+    if (!user) return false;
+
+    setSaving(true);
+    try {
+      let setId = templateSetId;
+
+      if (setId) {
+        const { error } = await supabase
+          .from('message_template_sets')
+          .update({
+            title: fields.title,
+            associated_label_id: fields.associated_label_id,
+            channel: fields.channel,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', setId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('message_template_sets')
+          .insert({
+            user_id: user.id,
+            title: fields.title,
+            associated_label_id: fields.associated_label_id,
+            channel: fields.channel
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        setId = data.id;
+      }
+
+      const existing = templateSets.find(set => set.id === setId)?.message_template_variations || [];
+      const keptIds = new Set(variations.filter(v => v.id).map(v => v.id));
+      const removedIds = existing.filter(v => !keptIds.has(v.id)).map(v => v.id);
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('message_template_variations')
+          .delete()
+          .in('id', removedIds);
+
+        if (error) throw error;
+      }
+
+      for (const [index, variation] of variations.entries()) {
+        const values = {
+          subject: fields.channel === 'email' ? variation.subject : null,
+          content: variation.content,
+          is_active: variation.is_active,
+          position: index + 1,
+          updated_at: new Date().toISOString()
+        };
+
+        const { error } = variation.id
+          ? await supabase.from('message_template_variations').update(values).eq('id', variation.id)
+          : await supabase.from('message_template_variations').insert({ ...values, template_set_id: setId });
+
+        if (error) throw error;
+      }
+
+      toast.success(templateSetId ? 'Template set updated successfully' : 'Template set created successfully');
+      await fetchTemplateSets();
+      return true;
+    } catch (error) {
+      console.error('Error saving template set:', error);
+      toast.error('Failed to save template set');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTemplateSet = async (templateSetId: string) => {
+    try {
+      const { error } = await supabase
+        .from('message_template_sets')
+        .delete()
+        .eq('id', templateSetId);
+
+      if (error) throw error;
+
+      setTemplateSets(prev => prev.filter(set => set.id !== templateSetId));
+      toast.success('Template set deleted successfully');
+    } catch (error) {
+      console.error('Error deleting template set:', error);
+      toast.error('Failed to delete template set');
+    }
+  };
+
+  /**
+   * Retires a variation, or brings a retired one back, without touching its stats
+   */
+  const setVariationActive = async (variationId: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('message_template_variations')
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq('id', variationId);
+
+      if (error) throw error;
+
+      setTemplateSets(prev => prev.map(set => ({
+        ...set,
+        message_template_variations: set.message_template_variations.map(variation =>
+          variation.id === variationId ? { ...variation, is_active: isActive } : variation
+        )
+      })));
+      toast.success(isActive ? 'Variation reactivated' : 'Variation retired');
+    } catch (error) {
+      console.error('Error updating variation:', error);
+      toast.error('Failed to update variation');
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplateSets();
+  }, [fetchTemplateSets]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  return {
+    templateSets,
+    stats,
+    loading,
+    saving,
+    saveTemplateSet,
+    deleteTemplateSet,
+    setVariationActive,
+    refetch: fetchTemplateSets
+  };
+};
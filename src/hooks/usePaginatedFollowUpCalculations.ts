@@ -1,13 +1,35 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Contact } from '@/types/contact';
 import { useWorkerFollowUpCalculations } from './useWorkerFollowUpCalculations';
-import { useCachedContacts } from './useCachedContacts';
+import { useFollowUpCadenceRules } from './useFollowUpCadenceRules';
+import { useContactReminders } from './useContactReminders';
 
 /**
  * Extended contact interface for follow-up specific data
  */
 interface FollowUpContact extends Contact {
   last_activity?: string;
+  reminder_id?: string;
+  reminder_due_at?: string;
+  reminder_title?: string;
+}
+
+/**
+ * Category keys for the fixed lists; cadence buckets use their own keys
+ */
+export const OVERDUE_KEY = 'overdue';
+export const DUE_TODAY_KEY = 'dueToday';
+export const NEEDS_APPROACH_KEY = 'needsApproach';
+
+/**
+ * A cadence bucket limited to the current page
+ */
+interface PaginatedFollowUpBucket {
+  key: string;
+  label: string;
+  ruleName: string;
+  minDays: number;
+  contacts: FollowUpContact[];
 }
 
 /**
@@ -16,40 +38,27 @@ interface FollowUpContact extends Contact {
  */
 interface PaginatedFollowUpResult {
   // Contact lists (limited to current page)
+  overdue: FollowUpContact[];
+  dueToday: FollowUpContact[];
   needsApproach: FollowUpContact[];
-  stale3Days: FollowUpContact[];
-  stale7Days: FollowUpContact[];
-  stale30Days: FollowUpContact[];
-  
-  // Pagination metadata
-  totalCounts: {
-    needsApproach: number;
-    stale3Days: number;
-    stale7Days: number;
-    stale30Days: number;
-  };
-  currentPages: {
-    needsApproach: number;
-    stale3Days: number;
-    stale7Days: number;
-    stale30Days: number;
-  };
+  buckets: PaginatedFollowUpBucket[];
+
+  // Pagination metadata, keyed by the fixed category keys or bucket key
+  totalCounts: Record<string, number>;
+  currentPages: Record<string, number>;
   pageSize: number;
-  totalPages: {
-    needsApproach: number;
-    stale3Days: number;
-    stale7Days: number;
-    stale30Days: number;
-  };
-  
+  totalPages: Record<string, number>;
+
   // Loading states
   isCountLoading: boolean;
   isCalculating: boolean;
-  
+
   // Actions
-  setPage: (category: 'needsApproach' | 'stale3Days' | 'stale7Days' | 'stale30Days', page: number) => void;
+  setPage: (category: string, page: number) => void;
   refreshData: () => void;
   addOptimisticActivityToContact: (contactId: string, activity: any) => void;
+  completeReminder: (reminderId: string) => Promise<void>;
+  snoozeReminder: (reminderId: string, days: number) => Promise<void>;
 }
 
 /**
@@ -62,134 +71,139 @@ export const usePaginatedFollowUpCalculations = (
   selectedLabels: string[] = [],
   pageSize: number = 50
 ): PaginatedFollowUpResult => {
-  const [currentPages, setCurrentPages] = useState({
-    needsApproach: 1,
-    stale3Days: 1,
-    stale7Days: 1,
-    stale30Days: 1,
-  });
+  const [currentPages, setCurrentPages] = useState<Record<string, number>>({});
   const [isCountLoading, setIsCountLoading] = useState(true);
-  const [totalCounts, setTotalCounts] = useState({
-    needsApproach: 0,
-    stale3Days: 0,
-    stale7Days: 0,
-    stale30Days: 0,
-  });
-  
+
   // Filter contacts based on selected labels (reuse existing logic)
   const filteredContacts = useMemo(() => {
     if (selectedLabels.length === 0) return contacts;
-    
+
     return contacts.filter(contact => {
       if (!contact.labels || contact.labels.length === 0) return false;
       return selectedLabels.some(label => contact.labels?.includes(label));
     });
   }, [contacts, selectedLabels]);
-  
+
+  // Team cadence rules decide which buckets exist
+  const { rules: cadenceRules, loading: rulesLoading } = useFollowUpCadenceRules();
+
+  // Open reminders assigned to the current user surface ahead of staleness buckets
+  const {
+    reminders,
+    loading: remindersLoading,
+    completeReminder,
+    snoozeReminder
+  } = useContactReminders();
+
   // Get total counts using full calculation (but only for counting)
   const {
     calculations: {
+      overdue: fullOverdue,
+      dueToday: fullDueToday,
       needsApproach: fullNeedsApproach,
-      stale3Days: fullStale3Days,
-      stale7Days: fullStale7Days,
-      stale30Days: fullStale30Days
+      buckets: fullBuckets
     },
     loading: fullCalculationLoading
-  } = useWorkerFollowUpCalculations(filteredContacts, selectedLabels);
-  
-  // Update total counts when full calculation completes
+  } = useWorkerFollowUpCalculations(filteredContacts, selectedLabels, cadenceRules, reminders);
+
+  const isLoading = fullCalculationLoading || rulesLoading || remindersLoading;
+
+  // Total counts per category
+  const totalCounts = useMemo(() => {
+    const counts: Record<string, number> = {
+      [OVERDUE_KEY]: fullOverdue.length,
+      [DUE_TODAY_KEY]: fullDueToday.length,
+      [NEEDS_APPROACH_KEY]: fullNeedsApproach.length,
+    };
+    fullBuckets.forEach(bucket => {
+      counts[bucket.key] = bucket.contacts.length;
+    });
+    return counts;
+  }, [fullOverdue, fullDueToday, fullNeedsApproach, fullBuckets]);
+
+  // Update count loading state when full calculation completes
   useEffect(() => {
-    if (!fullCalculationLoading) {
-      setTotalCounts({
-        needsApproach: fullNeedsApproach.length,
-        stale3Days: fullStale3Days.length,
-        stale7Days: fullStale7Days.length,
-        stale30Days: fullStale30Days.length,
-      });
-      setIsCountLoading(false);
-    } else {
-      setIsCountLoading(true);
-    }
-  }, [fullCalculationLoading, fullNeedsApproach.length, fullStale3Days.length, fullStale7Days.length, fullStale30Days.length]);
-  
+    setIsCountLoading(isLoading);
+  }, [isLoading, totalCounts]);
+
+  const getPage = useCallback((key: string) => currentPages[key] || 1, [currentPages]);
+
   // Get paginated data from full calculation results - separate pagination per category
   const paginatedData = useMemo(() => {
-    // Calculate pagination for each category separately
-    const getNeedsApproachPage = () => {
-      const startIndex = (currentPages.needsApproach - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      return fullNeedsApproach.slice(startIndex, endIndex);
-    };
-    
-    const getStale3DaysPage = () => {
-      const startIndex = (currentPages.stale3Days - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      return fullStale3Days.slice(startIndex, endIndex);
-    };
-    
-    const getStale7DaysPage = () => {
-      const startIndex = (currentPages.stale7Days - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      return fullStale7Days.slice(startIndex, endIndex);
+    const slicePage = <T>(items: T[], key: string) => {
+      const startIndex = (getPage(key) - 1) * pageSize;
+      return items.slice(startIndex, startIndex + pageSize);
     };
-    
-    const getStale30DaysPage = () => {
-      const startIndex = (currentPages.stale30Days - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      return fullStale30Days.slice(startIndex, endIndex);
-    };
-    
+
     return {
-      needsApproach: getNeedsApproachPage(),
-      stale3Days: getStale3DaysPage(),
-      stale7Days: getStale7DaysPage(),
-      stale30Days: getStale30DaysPage(),
+      overdue: slicePage(fullOverdue, OVERDUE_KEY) as FollowUpContact[],
+      dueToday: slicePage(fullDueToday, DUE_TODAY_KEY) as FollowUpContact[],
+      needsApproach: slicePage(fullNeedsApproach, NEEDS_APPROACH_KEY),
+      buckets: fullBuckets.map(bucket => ({
+        key: bucket.key,
+        label: bucket.label,
+        ruleName: bucket.ruleName,
+        minDays: bucket.minDays,
+        contacts: slicePage(bucket.contacts, bucket.key) as FollowUpContact[],
+      })),
     };
-  }, [fullNeedsApproach, fullStale3Days, fullStale7Days, fullStale30Days, currentPages, pageSize]);
-  
+  }, [fullOverdue, fullDueToday, fullNeedsApproach, fullBuckets, getPage, pageSize]);
+
   // Calculate total pages
-  const totalPages = useMemo(() => ({
-    needsApproach: Math.ceil(totalCounts.needsApproach / pageSize),
-    stale3Days: Math.ceil(totalCounts.stale3Days / pageSize),
-    stale7Days: Math.ceil(totalCounts.stale7Days / pageSize),
-    stale30Days: Math.ceil(totalCounts.stale30Days / pageSize),
-  }), [totalCounts, pageSize]);
-  
+  const totalPages = useMemo(() => {
+    const pages: Record<string, number> = {};
+    Object.entries(totalCounts).forEach(([key, count]) => {
+      pages[key] = Math.ceil(count / pageSize);
+    });
+    return pages;
+  }, [totalCounts, pageSize]);
+
+  // Resolved current page for every known category
+  const resolvedCurrentPages = useMemo(() => {
+    const pages: Record<string, number> = {};
+    Object.keys(totalCounts).forEach(key => {
+      pages[key] = getPage(key);
+    });
+    return pages;
+  }, [totalCounts, getPage]);
+
   // Page navigation handler for specific categories
-  const setPage = useCallback((category: 'needsApproach' | 'stale3Days' | 'stale7Days' | 'stale30Days', page: number) => {
+  const setPage = useCallback((category: string, page: number) => {
     setCurrentPages(prev => ({
       ...prev,
       [category]: page
     }));
   }, []);
-  
+
   // Refresh data handler
   const refreshData = useCallback(() => {
     setIsCountLoading(true);
   }, []);
-  
+
   return {
     // Contact lists (limited to current page)
+    overdue: paginatedData.overdue,
+    dueToday: paginatedData.dueToday,
     needsApproach: paginatedData.needsApproach,
-    stale3Days: paginatedData.stale3Days,
-    stale7Days: paginatedData.stale7Days,
-    stale30Days: paginatedData.stale30Days,
-    
+    buckets: paginatedData.buckets,
+
     // Pagination metadata
     totalCounts,
-    currentPages,
+    currentPages: resolvedCurrentPages,
     pageSize,
     totalPages,
-    
+
     // Loading states
     isCountLoading,
-    isCalculating: fullCalculationLoading,
-    
+    isCalculating: isLoading,
+
     // Actions
     setPage,
     refreshData,
     addOptimisticActivityToContact: (contactId: string, activity: any) => {
       // This will be handled by the full calculation hook
     },
+    completeReminder,
+    snoozeReminder,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,69 @@
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useSystemSettings } from './useSystemSettings';
+import { PhoneCountryCode } from '@/types/phone';
+import {
+  DEFAULT_PHONE_COUNTRY,
+  isPhoneCountryCode,
+  normalizePhoneNumber,
+  isValidPhoneNumber,
+  getPhoneNumberError,
+  formatPhoneNumber,
+  getWhatsAppUrl,
+  getTelUrl
+} from '@/utils/phoneUtils';
+
+/**
+ * Resolves the default phone country for a contact and binds the phone helpers to it
+ * The team's default wins over the user's own setting
+ * @param teamId - Team of the contact, if any
+ */
+export const usePhoneCountry = (teamId?: string | null) => {
+  const { settings } = useSystemSettings();
+  const [teamCountry, setTeamCountry] = useState<PhoneCountryCode | null>(null);
+
+  useEffect(() => {
+    if (!teamId) {
+      setTeamCountry(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchTeamCountry = async () => {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('default_phone_country')
+        .eq('id', teamId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching team phone country:', error);
+        return;
+      }
+      if (!cancelled) {
+        setTeamCountry(isPhoneCountryCode(data?.default_phone_country) ? data.default_phone_country : null);
+      }
+    };
+
+    fetchTeamCountry();
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  const userCountry = isPhoneCountryCode(settings?.default_phone_country)
+    ? settings.default_phone_country
+    : DEFAULT_PHONE_COUNTRY;
+  const defaultCountry = teamCountry || userCountry;
+
+  return {
+    defaultCountry,
+    normalizePhone: (phoneNumber: string) => normalizePhoneNumber(phoneNumber, defaultCountry),
+    isValidPhone: (phoneNumber: string) => isValidPhoneNumber(phoneNumber, defaultCountry),
+    getPhoneError: (phoneNumber: string) => getPhoneNumberError(phoneNumber, defaultCountry),
+    formatPhone: (phoneNumber: string) => formatPhoneNumber(phoneNumber, defaultCountry),
+    getWhatsAppUrl: (phoneNumber: string, message?: string) => getWhatsAppUrl(phoneNumber, message, defaultCountry),
+    getTelUrl: (phoneNumber: string) => getTelUrl(phoneNumber, defaultCountry),
+  };
+};
@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Pipeline, PipelineStage, PipelineStageInput } from '@/types/deal';
+import { DEFAULT_PIPELINE_STAGES, getOrderedStages, validatePipelineStages } from '@/utils/pipelines';
+import { useToast } from './use-toast';
+
+// Foreign key violation: deals still point at the pipeline or stage
+const IN_USE_ERROR_CODE = '23503';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const isInUseError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === IN_USE_ERROR_CODE;
+
+const sortPipelines = (pipelines: Pipeline[]) =>
+  [...pipelines]
+    .sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at))
+    .map(pipeline => ({ ...pipeline, pipeline_stages: getOrderedStages(pipeline) }));
+
+/**
+ * Hook for the deal pipelines of the user's teams and their stages
+ */
+export const usePipelines = () => {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchPipelines = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('pipelines')
+        .select('*, pipeline_stages(*)');
+
+      if (error) throw error;
+
+      setPipelines(sortPipelines((data || []) as Pipeline[]));
+    } catch (error) {
+      console.error('Error fetching pipelines:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load pipelines',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchPipelines();
+  }, [fetchPipelines]);
+
+  const stages: PipelineStage[] = pipelines.flatMap(pipeline => pipeline.pipeline_stages);
+
+  const getStage = (stageId?: string | null) => stages.find(stage => stage.id === stageId);
+
+  const createPipeline = async (teamId: string, name: string): Promise<Pipeline | null> => {
+    if (!user) return null;
+
+    try {
+      const teamPipelines = pipelines.filter(pipeline => pipeline.team_id === teamId);
+      const { data: pipeline, error } = await supabase
+        .from('pipelines')
+        .insert({
+          team_id: teamId,
+          name: name.trim(),
+          position: teamPipelines.length,
+          is_default: teamPipelines.length === 0,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { data: stageRows, error: stagesError } = await supabase
+        .from('pipeline_stages')
+        .insert(DEFAULT_PIPELINE_STAGES.map((stage, index) => ({
+          ...stage,
+          pipeline_id: pipeline.id,
+          position: index,
+        })))
+        .select();
+
+      if (stagesError) throw stagesError;
+
+      const created = { ...pipeline, pipeline_stages: stageRows || [] } as Pipeline;
+      setPipelines(prev => sortPipelines([...prev, created]));
+
+      toast({
+        title: 'Success',
+        description: `Pipeline "${created.name}" created`,
+      });
+      return created;
+    } catch (error) {
+      console.error('Error creating pipeline:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to create pipeline'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const renamePipeline = async (pipelineId: string, name: string) => {
+    try {
+      const { error } = await supabase
+        .from('pipelines')
+        .update({ name: name.trim() })
+        .eq('id', pipelineId);
+
+      if (error) throw error;
+
+      setPipelines(prev => prev.map(pipeline =>
+        pipeline.id === pipelineId ? { ...pipeline, name: name.trim() } : pipeline
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error renaming pipeline:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to rename pipeline'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Makes a pipeline the one new deals of its team go to
+   */
+  const setDefaultPipeline = async (pipeline: Pipeline) => {
+    try {
+      // Only one pipeline per team can be the default, so the current one is cleared first
+      const { error: clearError } = await supabase
+        .from('pipelines')
+        .update({ is_default: false })
+        .eq('team_id', pipeline.team_id)
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('pipelines')
+        .update({ is_default: true })
+        .eq('id', pipeline.id);
+
+      if (error) throw error;
+
+      setPipelines(prev => prev.map(p =>
+        p.team_id === pipeline.team_id ? { ...p, is_default: p.id === pipeline.id } : p
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error setting default pipeline:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to set default pipeline'),
+        variant: 'destructive',
+      });
+      fetchPipelines();
+      return false;
+    }
+  };
+
+  const deletePipeline = async (pipeline: Pipeline) => {
+    try {
+      if (pipeline.is_default) {
+        throw new Error('Make another pipeline the default before deleting this one');
+      }
+
+      const { error } = await supabase
+        .from('pipelines')
+        .delete()
+        .eq('id', pipeline.id);
+
+      if (error) throw error;
+
+      setPipelines(prev => prev.filter(p => p.id !== pipeline.id));
+
+      toast({
+        title: 'Success',
+        description: `Pipeline "${pipeline.name}" deleted`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error deleting pipeline:', error);
+      toast({
+        title: 'Error',
+        description: isInUseError(error)
+          ? 'Move or delete the deals in this pipeline before deleting it'
+          : errorMessage(error, 'Failed to delete pipeline'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Saves the stages of a pipeline in the given order
+   * Stages without an id are added; saved stages missing from the list are removed
+   */
+  const saveStages = async (pipelineId: string, stageList: (PipelineStageInput & { id?: string })[]) => {
+    try {
+      const issues = validatePipelineStages(stageList);
+      if (issues.length > 0) {
+        throw new Error(issues[0]);
+      }
+
+      // Saved in one transaction, so a failure leaves the stages as they were
+      const { error } = await supabase.rpc('save_pipeline_stages', {
+        p_pipeline_id: pipelineId,
+        p_stages: stageList.map(stage => ({
+          id: stage.id,
+          name: stage.name.trim(),
+          probability: stage.probability,
+          is_won: stage.is_won,
+          is_lost: stage.is_lost,
+        })),
+      });
+
+      if (error) throw error;
+
+      await fetchPipelines();
+
+      toast({
+        title: 'Success',
+        description: 'Pipeline stages saved',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving pipeline stages:', error);
+      toast({
+        title: 'Error',
+        description: isInUseError(error)
+          ? 'Move the deals out of a stage before removing it'
+          : errorMessage(error, 'Failed to save pipeline stages'),
+        variant: 'destructive',
+      });
+      await fetchPipelines();
+      return false;
+    }
+  };
+
+  return {
+    pipelines,
+    stages,
+    loading,
+    getStage,
+    createPipeline,
+    renamePipeline,
+    setDefaultPipeline,
+    deletePipeline,
+    saveStages,
+    refetch: fetchPipelines,
+  };
+};
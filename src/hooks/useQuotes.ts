@@ -0,0 +1,260 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { CreateQuoteRequest, Quote, QuoteAcceptanceStage, QuoteStatus } from '@/types/quote';
+import { Invoice } from '@/types/invoice';
+import { getLineTotal, getPricingFields } from '@/utils/invoiceTotals';
+import { useTeamData } from './useTeamData';
+import { useToast } from './use-toast';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for the quotes of the user's teams
+ * Accepting a quote runs in the database, which creates the draft invoice and moves the deal
+ */
+export const useQuotes = () => {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { teams, loading: teamsLoading, isTeamOwner } = useTeamData();
+  const { toast } = useToast();
+
+  const fetchQuotes = useCallback(async () => {
+    if (!user || teamsLoading) return;
+
+    try {
+      setLoading(true);
+
+      if (teams.length === 0) {
+        setQuotes([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('quotes')
+        .select('*, quote_items(*), contacts(name), deals(title, stage)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setQuotes((data || []) as unknown as Quote[]);
+    } catch (error) {
+      console.error('Error fetching quotes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load quotes. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, teams, teamsLoading, toast]);
+
+  useEffect(() => {
+    if (user && !teamsLoading) {
+      fetchQuotes();
+    }
+  }, [user, teamsLoading, fetchQuotes]);
+
+  const createQuote = async (request: CreateQuoteRequest) => {
+    if (!user) return null;
+
+    try {
+      if (!isTeamOwner(request.team_id)) {
+        throw new Error('Only team owners can create quotes');
+      }
+
+      const { data: quoteNumber, error: numberError } = await supabase
+        .rpc('generate_quote_number');
+
+      if (numberError) throw numberError;
+
+      const pricingFields = getPricingFields(request.items, request);
+
+      const { data: quote, error } = await supabase
+        .from('quotes')
+        .insert({
+          quote_number: quoteNumber,
+          team_id: request.team_id,
+          contact_id: request.contact_id,
+          deal_id: request.deal_id || null,
+          created_by: user.id,
+          title: request.title || null,
+          valid_until: request.valid_until,
+          currency: request.currency,
+          ...pricingFields,
+          taxes: pricingFields.taxes as unknown as Json,
+          notes: request.notes || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase
+        .from('quote_items')
+        .insert(request.items.map((item, index) => ({
+          quote_id: quote.id,
+          product_id: item.product_id || null,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_type: item.discount_type || null,
+          discount_value: item.discount_type ? item.discount_value || 0 : 0,
+          total_price: getLineTotal(item),
+          position: index,
+        })));
+
+      if (itemsError) {
+        // Don't leave a quote without items behind
+        await supabase.from('quotes').delete().eq('id', quote.id);
+        throw itemsError;
+      }
+
+      await supabase
+        .from('activities')
+        .insert({
+          contact_id: request.contact_id,
+          user_id: user.id,
+          type: 'Quote Created',
+          details: `Quote ${quoteNumber} created for ${quote.currency} ${pricingFields.total.toFixed(2)}`,
+          timestamp: new Date().toISOString(),
+        });
+
+      toast({
+        title: 'Success',
+        description: `Quote ${quoteNumber} created`,
+      });
+
+      await fetchQuotes();
+      return quote as unknown as Quote;
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to create quote'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  // Marks a quote as sent or declined; acceptance goes through acceptQuote
+  const setQuoteStatus = async (quote: Quote, status: Extract<QuoteStatus, 'Sent' | 'Declined'>) => {
+    if (!user) return false;
+
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('quotes')
+        .update(status === 'Sent' ? { status, sent_at: now } : { status, responded_at: now })
+        .eq('id', quote.id);
+
+      if (error) throw error;
+
+      await supabase
+        .from('activities')
+        .insert({
+          contact_id: quote.contact_id,
+          user_id: user.id,
+          type: status === 'Sent' ? 'Quote Sent' : 'Quote Declined',
+          details: `Quote ${quote.quote_number} ${status === 'Sent' ? 'sent' : 'declined'}`,
+          timestamp: now,
+        });
+
+      await fetchQuotes();
+      return true;
+    } catch (error) {
+      console.error('Error updating quote status:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to update quote'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Loads the draft invoice an accepted quote was converted into
+  const fetchQuoteInvoice = async (invoiceId: string): Promise<Invoice | null> => {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .single();
+
+    if (error) {
+      console.error('Error loading quote invoice:', error);
+      return null;
+    }
+    return data as unknown as Invoice;
+  };
+
+  const acceptQuote = async (quote: Quote, dealStage: QuoteAcceptanceStage): Promise<Invoice | null> => {
+    try {
+      const { data: invoiceId, error } = await supabase.rpc('accept_quote', {
+        p_quote_id: quote.id,
+        p_deal_stage: dealStage,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Quote ${quote.quote_number} accepted and a draft invoice was created`,
+      });
+
+      await fetchQuotes();
+      return await fetchQuoteInvoice(invoiceId);
+    } catch (error) {
+      console.error('Error accepting quote:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to accept quote'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const deleteQuote = async (quoteId: string) => {
+    try {
+      const { error } = await supabase
+        .from('quotes')
+        .delete()
+        .eq('id', quoteId);
+
+      if (error) throw error;
+
+      setQuotes(prev => prev.filter(quote => quote.id !== quoteId));
+      toast({
+        title: 'Success',
+        description: 'Quote deleted',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error deleting quote:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete quote',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return {
+    quotes,
+    loading,
+    createQuote,
+    setQuoteStatus,
+    acceptQuote,
+    fetchQuoteInvoice,
+    deleteQuote,
+    refetch: fetchQuotes,
+  };
+};
@@ -0,0 +1,235 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Json } from '@/integrations/supabase/types';
+import {
+  CreateRecurringInvoiceRequest,
+  RecurringInvoiceProfile,
+  RecurringInvoiceStatus
+} from '@/types/invoice';
+import { getPricingFields } from '@/utils/invoiceTotals';
+import { useTeamData } from './useTeamData';
+import { useToast } from './use-toast';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for recurring invoice profiles of the user's teams
+ * Invoices are generated on schedule by the database; this hook manages the schedules
+ * and can run or skip the next occurrence by hand
+ */
+export const useRecurringInvoices = () => {
+  const [profiles, setProfiles] = useState<RecurringInvoiceProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { teams, loading: teamsLoading, isTeamOwner } = useTeamData();
+  const { toast } = useToast();
+
+  const fetchProfiles = useCallback(async () => {
+    if (!user || teamsLoading) return;
+
+    try {
+      setLoading(true);
+
+      if (teams.length === 0) {
+        setProfiles([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_invoice_profiles')
+        .select('*, recurring_invoice_items(*), contacts(name)')
+        .order('next_run_date', { ascending: true });
+
+      if (error) throw error;
+
+      setProfiles((data || []) as RecurringInvoiceProfile[]);
+    } catch (error) {
+      console.error('Error fetching recurring invoices:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load recurring invoices. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, teams, teamsLoading, toast]);
+
+  useEffect(() => {
+    if (user && !teamsLoading) {
+      fetchProfiles();
+    }
+  }, [user, teamsLoading, fetchProfiles]);
+
+  const createProfile = async (request: CreateRecurringInvoiceRequest) => {
+    if (!user) return null;
+
+    try {
+      if (!isTeamOwner(request.team_id)) {
+        throw new Error('Only team owners can create recurring invoices');
+      }
+
+      // Generated invoices work out their tax amounts; the schedule keeps the rates
+      const { tax_rate, discount_type, discount_value, prices_include_tax } = getPricingFields(request.items, request);
+
+      // next_run_date is derived from start_date by the database
+      const { data: profile, error } = await supabase
+        .from('recurring_invoice_profiles')
+        .insert({
+          team_id: request.team_id,
+          contact_id: request.contact_id,
+          created_by: user.id,
+          name: request.name,
+          interval_unit: request.interval_unit,
+          interval_count: request.interval_count,
+          start_date: request.start_date,
+          end_date: request.end_date || null,
+          next_run_date: request.start_date,
+          due_days: request.due_days,
+          tax_rate,
+          discount_type,
+          discount_value,
+          prices_include_tax,
+          taxes: (request.taxes || []) as unknown as Json,
+          currency: request.currency,
+          notes: request.notes,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase
+        .from('recurring_invoice_items')
+        .insert(request.items.map((item, index) => ({
+          profile_id: profile.id,
+          product_id: item.product_id || null,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_type: item.discount_type || null,
+          discount_value: item.discount_type ? item.discount_value || 0 : 0,
+          position: index,
+        })));
+
+      if (itemsError) {
+        // Don't leave a schedule without items behind
+        await supabase.from('recurring_invoice_profiles').delete().eq('id', profile.id);
+        throw itemsError;
+      }
+
+      toast({
+        title: 'Success',
+        description: `Recurring invoice "${request.name}" created`,
+      });
+
+      await fetchProfiles();
+      return profile;
+    } catch (error) {
+      console.error('Error creating recurring invoice:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to create recurring invoice'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const setProfileStatus = async (profileId: string, status: RecurringInvoiceStatus) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_invoice_profiles')
+        .update({ status })
+        .eq('id', profileId);
+
+      if (error) throw error;
+
+      setProfiles(prev => prev.map(profile =>
+        profile.id === profileId ? { ...profile, status } : profile
+      ));
+
+      const messages: Record<RecurringInvoiceStatus, string> = {
+        active: 'Schedule resumed',
+        paused: 'Schedule paused',
+        ended: 'Schedule ended',
+      };
+      toast({
+        title: 'Success',
+        description: messages[status],
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating recurring invoice:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to update recurring invoice'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const skipNextRun = async (profileId: string) => {
+    try {
+      const { error } = await supabase.rpc('skip_recurring_invoice_run', { p_profile_id: profileId });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Next run skipped',
+      });
+
+      await fetchProfiles();
+      return true;
+    } catch (error) {
+      console.error('Error skipping recurring invoice run:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to skip the next run'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Generates the next invoice now instead of waiting for the scheduler
+  const runNow = async (profileId: string) => {
+    try {
+      const { data: invoiceId, error } = await supabase.rpc('generate_recurring_invoice', { p_profile_id: profileId });
+
+      if (error) throw error;
+      if (!invoiceId) throw new Error('This schedule has ended');
+
+      toast({
+        title: 'Success',
+        description: 'Invoice generated',
+      });
+
+      await fetchProfiles();
+      return invoiceId;
+    } catch (error) {
+      console.error('Error generating recurring invoice:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to generate invoice'),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  return {
+    profiles,
+    loading,
+    createProfile,
+    setProfileStatus,
+    skipNextRun,
+    runNow,
+    refetch: fetchProfiles,
+  };
+};
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { PaidInvoiceRevenue, SalesQuota, SalesQuotaInput } from '@/types/quota';
+import { getQuotaAttainment } from '@/utils/quotas';
+import { useDeals } from './useDeals';
+import { usePipelines } from './usePipelines';
+import { useExchangeRates } from './useExchangeRates';
+import { useToast } from './use-toast';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Hook for the sales quotas of the user's teams and the attainment against them
+ */
+export const useSalesQuotas = () => {
+  const [quotas, setQuotas] = useState<SalesQuota[]>([]);
+  const [paidInvoices, setPaidInvoices] = useState<PaidInvoiceRevenue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { deals, loading: dealsLoading } = useDeals();
+  const { stages, loading: pipelinesLoading } = usePipelines();
+  const { toReportingCurrency, invoiceToReportingCurrency } = useExchangeRates();
+
+  const fetchQuotas = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [quotasResult, invoicesResult] = await Promise.all([
+        supabase
+          .from('sales_quotas')
+          .select('*')
+          .order('period_start', { ascending: false }),
+        supabase
+          .from('invoices')
+          .select('id, team_id, created_by, currency, exchange_rate, reporting_currency, total, amount_credited, updated_at, invoice_payments(paid_at)')
+          .eq('status', 'Paid'),
+      ]);
+
+      if (quotasResult.error) throw quotasResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+
+      setQuotas((quotasResult.data || []) as SalesQuota[]);
+      // An invoice is paid on the date of its last payment
+      setPaidInvoices((invoicesResult.data || []).map(({ invoice_payments, updated_at, ...invoice }) => ({
+        ...invoice,
+        paid_on: invoice_payments.map(payment => payment.paid_at).sort().pop() || updated_at.slice(0, 10),
+      })));
+    } catch (error) {
+      console.error('Error fetching sales quotas:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load sales quotas',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchQuotas();
+  }, [fetchQuotas]);
+
+  /**
+   * Sets the targets of a member or team for a period, replacing an existing quota for it
+   */
+  const saveQuota = async (input: SalesQuotaInput) => {
+    if (!user) return false;
+
+    try {
+      const existing = quotas.find(quota =>
+        quota.team_id === input.team_id
+        && (quota.user_id || null) === (input.user_id || null)
+        && quota.period_type === input.period_type
+        && quota.period_start === input.period_start
+      );
+
+      const { error } = existing
+        ? await supabase.from('sales_quotas').update(input).eq('id', existing.id)
+        : await supabase.from('sales_quotas').insert({ ...input, created_by: user.id });
+
+      if (error) throw error;
+
+      await fetchQuotas();
+      return true;
+    } catch (error) {
+      console.error('Error saving sales quota:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to save sales quota'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const deleteQuota = async (quotaId: string) => {
+    try {
+      const { error } = await supabase
+        .from('sales_quotas')
+        .delete()
+        .eq('id', quotaId);
+
+      if (error) throw error;
+
+      setQuotas(prev => prev.filter(quota => quota.id !== quotaId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting sales quota:', error);
+      toast({
+        title: 'Error',
+        description: errorMessage(error, 'Failed to delete sales quota'),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const getAttainment = (quota: SalesQuota, today: Date = new Date()) =>
+    getQuotaAttainment(quota, {
+      deals,
+      stages,
+      invoices: paidInvoices,
+      convertDeal: deal => toReportingCurrency(deal.value || 0, deal.currency),
+      convertInvoice: invoiceToReportingCurrency,
+      convertTarget: toReportingCurrency,
+    }, today);
+
+  return {
+    quotas,
+    loading: loading || dealsLoading || pipelinesLoading,
+    saveQuota,
+    deleteQuota,
+    getAttainment,
+    refetch: fetchQuotas,
+  };
+};
@@ -3,11 +3,13 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from './use-toast';
+import { PhoneCountryCode } from '@/types/phone';
 
 interface SystemSettings {
   id: string;
   user_id: string;
   currency: string;
+  default_phone_country: string;
   created_at: string;
   updated_at: string;
 }
@@ -94,6 +96,39 @@ export const useSystemSettings = () => {
     }
   };
 
+  const updatePhoneCountry = async (defaultPhoneCountry: PhoneCountryCode) => {
+    if (!user || !settings) return false;
+
+    try {
+      const { error } = await supabase
+        .from('system_settings')
+        .update({
+          default_phone_country: defaultPhoneCountry,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', settings.id);
+
+      if (error) throw error;
+
+      setSettings(prev => prev ? { ...prev, default_phone_country: defaultPhoneCountry } : null);
+
+      toast({
+        title: 'Success',
+        description: 'Default phone country updated successfully',
+      });
+
+      return true;
+    } catch (err) {
+      console.error('Error updating default phone country:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to update default phone country',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
   useEffect(() => {
     fetchSettings();
   }, [fetchSettings]);
@@ -102,6 +137,7 @@ export const useSystemSettings = () => {
     settings,
     loading,
     updateCurrency,
+    updatePhoneCountry,
     refetch: fetchSettings,
   };
 };
@@ -15,21 +15,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import type { MessageTemplateSet } from '@/types/messageTemplate';
 import { useUserMetadata } from './useUserMetadata';
 import { toast } from '@/hooks/use-toast';
 
-interface MessageTemplateSet {
-  id: string;
-  title: string;
-  associated_label_id: string;
-  template_variation_1: string;
-  template_variation_2: string;
-  template_variation_3: string;
-  user_id: string;
-  created_at: string;
-  updated_at: string;
-}
-
 interface Label {
   id: string;
   name: string;
@@ -147,13 +136,13 @@ export const useTemplateCache = (): UseTemplateCacheReturn => {
       // Fetch template sets that match the contact's labels
       const { data: templatesData, error: templatesError } = await supabase
         .from('message_template_sets')
-        .select('*')
+        .select('*, message_template_variations(*)')
         .eq('user_id', user.id)
         .in('associated_label_id', labelIds);
 
       if (templatesError) throw templatesError;
       
-      const templates = templatesData || [];
+      const templates = (templatesData || []) as MessageTemplateSet[];
       
       console.log(`✅ Fetched ${templates.length} templates from database`);
       return { templates, labels };
@@ -196,12 +185,12 @@ export const useTemplateCache = (): UseTemplateCacheReturn => {
       // Fetch all user's templates
       const { data: templatesData, error: templatesError } = await supabase
         .from('message_template_sets')
-        .select('*')
+        .select('*, message_template_variations(*)')
         .eq('user_id', user.id);
 
       if (templatesError) throw templatesError;
       
-      const allTemplates = templatesData || [];
+      const allTemplates = (templatesData || []) as MessageTemplateSet[];
       console.log(`📝 Found ${allTemplates.length} templates for user`);
 
       // Store all templates in reference for instant access
@@ -17,21 +17,12 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import type { MessageTemplateSet } from '@/types/messageTemplate';
 import { useUserMetadata } from './useUserMetadata';
 import { toast } from '@/hooks/use-toast';
 import { type CatchError, getErrorMessage } from '@/utils/errorTypes';
 
-export interface MessageTemplateSet {
-  id: string;
-  title: string;
-  associated_label_id: string;
-  template_variation_1: string;
-  template_variation_2: string;
-  template_variation_3: string;
-  user_id: string;
-  created_at: string;
-  updated_at: string;
-}
+export type { MessageTemplateSet };
 
 export interface Label {
   id: string;
@@ -188,14 +179,14 @@ export const useTemplateCacheDB = (): UseTemplateCacheDBReturn => {
       // Fetch templates for matching labels
       const { data: templatesData, error: templatesError } = await supabase
         .from('message_template_sets')
-        .select('*')
+        .select('*, message_template_variations(*)')
         .eq('user_id', user.id)
         .in('associated_label_id', labelIds);
       
       if (templatesError) throw templatesError;
       
       return {
-        templates: templatesData || [],
+        templates: (templatesData || []) as MessageTemplateSet[],
         labels: matchingLabels
       };
       
@@ -370,12 +361,12 @@ export const useTemplateCacheDB = (): UseTemplateCacheDBReturn => {
     try {
       const { data, error } = await supabase
         .from('message_template_sets')
-        .select('*')
+        .select('*, message_template_variations(*)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data || [];
+      return (data || []) as MessageTemplateSet[];
     } catch (error) {
       console.error('Error fetching all templates:', error);
       return [];
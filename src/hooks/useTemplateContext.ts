@@ -0,0 +1,107 @@
+
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TemplateContext, TemplateContextSource } from '@/types/messageTemplate';
+import { buildTemplateContext } from '@/utils/templateVariables';
+import { getTemplateVariableNames, parseTemplate } from '@/utils/templateEngine';
+import { formatCurrencyAmount } from '@/utils/currencyUtils';
+import { getInvoiceShareUrl } from '@/utils/invoiceShareLinks';
+
+type TemplateContact = TemplateContextSource['contact'] & { id: string; team_id?: string };
+
+interface TemplateContextOptions {
+  // Fills the invoice variables from this invoice instead of the contact's latest open one
+  invoiceId?: string;
+  // Texts that will be rendered; an invoice share link is only created when they use {{invoice_link}}
+  templates?: string[];
+}
+
+// Invoices in these states have nothing left for the contact to act on
+const CLOSED_INVOICE_STATUSES = '("Paid","Void","Draft")';
+
+/**
+ * Hook that loads everything a message template can reference for one contact
+ * Data is fetched when a template is used, so list views can mount it cheaply
+ */
+export const useTemplateContext = () => {
+  const { user } = useAuth();
+
+  const buildContextForContact = useCallback(async (
+    contact: TemplateContact,
+    options: TemplateContextOptions = {}
+  ): Promise<TemplateContext> => {
+    const invoiceQuery = options.invoiceId
+      ? supabase
+          .from('invoices')
+          .select('id, invoice_number, total, amount_paid, amount_credited, status, due_date, currency')
+          .eq('id', options.invoiceId)
+          .maybeSingle()
+      : supabase
+          .from('invoices')
+          .select('id, invoice_number, total, amount_paid, amount_credited, status, due_date, currency')
+          .eq('contact_id', contact.id)
+          .not('status', 'in', CLOSED_INVOICE_STATUSES)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+    const teamQuery = contact.team_id
+      ? supabase.from('teams').select('*').eq('id', contact.team_id).maybeSingle()
+      : supabase.from('teams').select('*').eq('owner_id', user?.id).order('created_at').limit(1).maybeSingle();
+
+    const [profileResult, teamResult, invoiceResult, dealResult, settingsResult] = await Promise.all([
+      supabase.from('profiles').select('full_name').eq('id', user?.id).maybeSingle(),
+      teamQuery,
+      invoiceQuery,
+      supabase
+        .from('deals')
+        .select('title, stage, value, currency')
+        .eq('contact_id', contact.id)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase.from('system_settings').select('currency').eq('user_id', user?.id).maybeSingle(),
+    ]);
+
+    // A missing record only leaves its variables empty, so failures are logged and skipped
+    [profileResult, teamResult, invoiceResult, dealResult, settingsResult].forEach(result => {
+      if (result.error) console.error('Error loading template data:', result.error);
+    });
+
+    // Invoices and deals carry their own currency; the user's currency is only a fallback
+    const currency = settingsResult.data?.currency || 'USD';
+
+    // {{invoice_link}} reuses the invoice's active share link, or creates one
+    const invoice = invoiceResult.data;
+    const usesInvoiceLink = (options.templates || []).some(template =>
+      getTemplateVariableNames(parseTemplate(template).nodes).includes('invoice_link')
+    );
+    let invoiceLink: string | null = null;
+    if (usesInvoiceLink && invoice && invoice.status !== 'Draft' && invoice.status !== 'Void') {
+      const { data: link, error: linkError } = await supabase.rpc('create_invoice_share_link', {
+        p_invoice_id: invoice.id,
+      });
+      if (linkError) {
+        console.error('Error loading template data:', linkError);
+      } else {
+        invoiceLink = getInvoiceShareUrl(link.token);
+      }
+    }
+
+    return buildTemplateContext({
+      contact,
+      sender: {
+        name: profileResult.data?.full_name || user?.user_metadata?.full_name || user?.email || '',
+        email: user?.email || '',
+      },
+      team: teamResult.data,
+      invoice,
+      invoiceLink,
+      deal: dealResult.data,
+      formatCurrency: (amount, recordCurrency) => formatCurrencyAmount(amount, recordCurrency || currency),
+    });
+  }, [user]);
+
+  return { buildContextForContact };
+};
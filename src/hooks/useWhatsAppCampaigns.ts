@@ -0,0 +1,118 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CampaignStatus,
+  CampaignSummary,
+  CreateCampaignRequest,
+  WhatsAppCampaign
+} from '@/types/campaign';
+import { toast } from 'sonner';
+
+/**
+ * Hook for the current user's bulk WhatsApp campaigns
+ * Lists unfinished campaigns with their queue progress and creates new ones
+ */
+export const useWhatsAppCampaigns = () => {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchCampaigns = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('whatsapp_campaigns')
+        .select('*, whatsapp_campaign_recipients(status)')
+        .eq('user_id', user.id)
+        .in('status', ['active', 'paused'])
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      setCampaigns((data || []).map(({ whatsapp_campaign_recipients: recipients, ...campaign }) => ({
+        ...(campaign as WhatsAppCampaign),
+        total: recipients.length,
+        sent: recipients.filter(recipient => recipient.status === 'sent').length,
+        skipped: recipients.filter(recipient => recipient.status === 'skipped').length
+      })));
+    } catch (error) {
+      console.error('Error fetching campaigns:', error);
+      toast.error('Failed to fetch campaigns');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const createCampaign = async (request: CreateCampaignRequest): Promise<WhatsAppCampaign | null> => {
+    if (!user) return null;
+
+    try {
+      const { data: campaign, error } = await supabase
+        .from('whatsapp_campaigns')
+        .insert({
+          user_id: user.id,
+          name: request.name,
+          template_set_id: request.template_set_id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: recipientsError } = await supabase
+        .from('whatsapp_campaign_recipients')
+        .insert(request.recipients.map((recipient, index) => ({
+          campaign_id: campaign.id,
+          contact_id: recipient.contact_id,
+          position: index + 1,
+          template_variation_id: recipient.template_variation_id,
+          message: recipient.message
+        })));
+
+      if (recipientsError) {
+        // Don't leave an empty campaign behind
+        await supabase.from('whatsapp_campaigns').delete().eq('id', campaign.id);
+        throw recipientsError;
+      }
+
+      toast.success(`Campaign created with ${request.recipients.length} recipients`);
+      await fetchCampaigns();
+      return campaign as WhatsAppCampaign;
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      toast.error('Failed to create campaign');
+      return null;
+    }
+  };
+
+  const setCampaignStatus = async (campaignId: string, status: CampaignStatus) => {
+    try {
+      const { error } = await supabase
+        .from('whatsapp_campaigns')
+        .update({ status })
+        .eq('id', campaignId);
+
+      if (error) throw error;
+
+      await fetchCampaigns();
+    } catch (error) {
+      console.error('Error updating campaign:', error);
+      toast.error('Failed to update campaign');
+    }
+  };
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  return {
+    campaigns,
+    loading,
+    createCampaign,
+    setCampaignStatus,
+    refetch: fetchCampaigns
+  };
+};
@@ -9,6 +9,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Contact } from '@/types/contact';
 import { toast } from 'sonner';
 import { IndexedDBCache } from '@/utils/indexedDBCache';
+import { FollowUpCadenceRule } from '@/types/followUp';
+import { ContactReminder } from '@/types/reminder';
+import { getReminderState } from '@/utils/reminderUtils';
+import {
+  sortCadenceRules,
+  resolveCadenceRule,
+  isExcludedByCadence,
+  getCadenceRulesSignature
+} from '@/utils/followUpCadence';
 import type {
   WorkerMessage,
   WorkerResponse,
@@ -72,15 +81,21 @@ const activityCache = new IndexedDBCache({
   maxEntries: 1000
 });
 
+// Stable fallbacks so the default parameters don't retrigger memoized filters
+const NO_CADENCE_RULES: FollowUpCadenceRule[] = [];
+const NO_REMINDERS: ContactReminder[] = [];
+
 export const useWorkerFollowUpCalculations = (
   contacts: Contact[], 
-  selectedLabels: string[]
+  selectedLabels: string[],
+  cadenceRules: FollowUpCadenceRule[] = NO_CADENCE_RULES,
+  reminders: ContactReminder[] = NO_REMINDERS
 ) => {
   const [calculations, setCalculations] = useState<FollowUpCalculations>({
+    overdue: [],
+    dueToday: [],
     needsApproach: [],
-    stale3Days: [],
-    stale7Days: [],
-    stale30Days: [],
+    buckets: [],
   });
   
   const [activityData, setActivityData] = useState<ActivityData>({});
@@ -165,8 +180,10 @@ export const useWorkerFollowUpCalculations = (
       ? `_opt_${Object.keys(optimisticActivities).sort().join(',')}_${Object.values(optimisticActivities).flat().length}`
       : '';
     
-    return `followup_${user?.id}_${sortedContactIds.join(',')}_${sortedLabels.join(',')}${optimisticHash}`;
-  }, [user?.id, optimisticActivities]);
+    const reminderHash = reminders.map(r => `${r.id}@${r.updated_at}`).sort().join(',');
+    
+    return `followup_${user?.id}_${sortedContactIds.join(',')}_${sortedLabels.join(',')}_rules_${getCadenceRulesSignature(cadenceRules)}_reminders_${reminderHash}${optimisticHash}`;
+  }, [user?.id, optimisticActivities, cadenceRules, reminders]);
 
   // Generate activity cache key
   const generateActivityCacheKey = useCallback((contactIds: string[]) => {
@@ -180,7 +197,17 @@ export const useWorkerFollowUpCalculations = (
   // Get active contacts based on filters
   const getActiveContacts = useMemo(() => {
     if (!isValidContacts) return [];
-    let activeContacts = contacts.filter(contact => contact.status !== 'Paid');
+    const sortedRules = sortCadenceRules(cadenceRules.filter(rule => rule.is_active));
+    // Contacts with a due reminder are surfaced even if their status is excluded
+    const dueReminderContactIds = new Set(
+      reminders
+        .filter(reminder => ['overdue', 'due_today'].includes(getReminderState(reminder)))
+        .map(reminder => reminder.contact_id)
+    );
+    let activeContacts = contacts.filter(contact =>
+      dueReminderContactIds.has(contact.id) ||
+      !isExcludedByCadence(contact, resolveCadenceRule(contact, sortedRules))
+    );
     
     // Apply label filter
     if (selectedLabels.length > 0) {
@@ -190,7 +217,7 @@ export const useWorkerFollowUpCalculations = (
     }
     
     return activeContacts;
-  }, [contacts, selectedLabels, isValidContacts]);
+  }, [contacts, selectedLabels, isValidContacts, cadenceRules, reminders]);
 
   /**
    * Fetch activities for contacts with caching
@@ -292,10 +319,10 @@ export const useWorkerFollowUpCalculations = (
     
     if (contactIds.length === 0) {
       setCalculations({
+        overdue: [],
+        dueToday: [],
         needsApproach: [],
-        stale3Days: [],
-        stale7Days: [],
-        stale30Days: [],
+        buckets: [],
       });
       return;
     }
@@ -351,7 +378,9 @@ export const useWorkerFollowUpCalculations = (
             contacts: activeContacts,
             selectedLabels,
             activityData,
-            optimisticActivities
+            optimisticActivities,
+            cadenceRules,
+            reminders
           }
         };
         
@@ -367,7 +396,7 @@ export const useWorkerFollowUpCalculations = (
       toast.error('Calculation failed');
       setCalculating(false);
     }
-  }, [isValidContacts, user, getActiveContacts, selectedLabels, activityData, optimisticActivities, calculating, generateCacheKey, fetchActivitiesForContacts]);
+  }, [isValidContacts, user, getActiveContacts, selectedLabels, activityData, optimisticActivities, cadenceRules, reminders, calculating, generateCacheKey, fetchActivitiesForContacts]);
 
   // Effect to trigger calculation when dependencies change
   useEffect(() => {
@@ -386,13 +415,13 @@ export const useWorkerFollowUpCalculations = (
       }
     } else if (isValidContacts && getActiveContacts.length === 0) {
       setCalculations({
+        overdue: [],
+        dueToday: [],
         needsApproach: [],
-        stale3Days: [],
-        stale7Days: [],
-        stale30Days: [],
+        buckets: [],
       });
     }
-  }, [getActiveContacts, selectedLabels, activityData, optimisticActivities]);
+  }, [getActiveContacts, selectedLabels, activityData, optimisticActivities, cadenceRules, reminders]);
 
   /**
    * Auto-cleanup old optimistic activities (older than 5 minutes)
@@ -17,30 +17,39 @@ export type Database = {
       activities: {
         Row: {
           api_call_status: string | null
+          campaign_id: string | null
           contact_id: string
           created_at: string | null
           details: string | null
           id: string
+          template_set_id: string | null
+          template_variation_id: string | null
           timestamp: string | null
           type: string
           user_id: string
         }
         Insert: {
           api_call_status?: string | null
+          campaign_id?: string | null
           contact_id: string
           created_at?: string | null
           details?: string | null
           id?: string
+          template_set_id?: string | null
+          template_variation_id?: string | null
           timestamp?: string | null
           type: string
           user_id: string
         }
         Update: {
           api_call_status?: string | null
+          campaign_id?: string | null
           contact_id?: string
           created_at?: string | null
           details?: string | null
           id?: string
+          template_set_id?: string | null
+          template_variation_id?: string | null
           timestamp?: string | null
           type?: string
           user_id?: string
@@ -53,6 +62,119 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "activities_template_set_id_fkey"
+            columns: ["template_set_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_template_variation_id_fkey"
+            columns: ["template_variation_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_variations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_duplicate_dismissals: {
+        Row: {
+          contact_a_id: string
+          contact_b_id: string
+          created_at: string
+          dismissed_by: string
+          id: string
+        }
+        Insert: {
+          contact_a_id: string
+          contact_b_id: string
+          created_at?: string
+          dismissed_by: string
+          id?: string
+        }
+        Update: {
+          contact_a_id?: string
+          contact_b_id?: string
+          created_at?: string
+          dismissed_by?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_duplicate_dismissals_contact_a_id_fkey"
+            columns: ["contact_a_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_duplicate_dismissals_contact_b_id_fkey"
+            columns: ["contact_b_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_reminders: {
+        Row: {
+          assigned_to: string
+          completed_at: string | null
+          contact_id: string
+          created_at: string
+          created_by: string
+          due_at: string
+          id: string
+          notes: string | null
+          snoozed_until: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to: string
+          completed_at?: string | null
+          contact_id: string
+          created_at?: string
+          created_by: string
+          due_at: string
+          id?: string
+          notes?: string | null
+          snoozed_until?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string
+          completed_at?: string | null
+          contact_id?: string
+          created_at?: string
+          created_by?: string
+          due_at?: string
+          id?: string
+          notes?: string | null
+          snoozed_until?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_reminders_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       contacts: {
@@ -114,287 +236,1530 @@ export type Database = {
           },
         ]
       }
-      deal_activities: {
+      credit_note_items: {
         Row: {
-          activity_type: string
           created_at: string
-          created_by: string
-          deal_id: string
+          credit_note_id: string
+          description: string
           id: string
-          new_stage: Database["public"]["Enums"]["pipeline_stage"] | null
-          new_value: number | null
-          notes: string | null
-          old_stage: Database["public"]["Enums"]["pipeline_stage"] | null
-          old_value: number | null
+          invoice_item_id: string | null
+          quantity: number
+          total_price: number
+          unit_price: number
         }
         Insert: {
-          activity_type: string
           created_at?: string
-          created_by: string
-          deal_id: string
+          credit_note_id: string
+          description: string
           id?: string
-          new_stage?: Database["public"]["Enums"]["pipeline_stage"] | null
-          new_value?: number | null
-          notes?: string | null
-          old_stage?: Database["public"]["Enums"]["pipeline_stage"] | null
-          old_value?: number | null
+          invoice_item_id?: string | null
+          quantity: number
+          total_price: number
+          unit_price: number
         }
         Update: {
-          activity_type?: string
           created_at?: string
-          created_by?: string
-          deal_id?: string
+          credit_note_id?: string
+          description?: string
           id?: string
-          new_stage?: Database["public"]["Enums"]["pipeline_stage"] | null
-          new_value?: number | null
-          notes?: string | null
-          old_stage?: Database["public"]["Enums"]["pipeline_stage"] | null
-          old_value?: number | null
+          invoice_item_id?: string | null
+          quantity?: number
+          total_price?: number
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "deal_activities_deal_id_fkey"
-            columns: ["deal_id"]
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
             isOneToOne: false
-            referencedRelation: "deals"
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
             referencedColumns: ["id"]
           },
         ]
       }
-      deals: {
+      credit_notes: {
         Row: {
-          actual_close_date: string | null
-          assigned_to: string | null
-          closed_at: string | null
           contact_id: string
           created_at: string
           created_by: string
-          description: string | null
-          expected_close_date: string | null
+          credit_note_number: string
           id: string
-          notes: string | null
-          probability: number | null
-          source: string | null
-          stage: Database["public"]["Enums"]["pipeline_stage"]
-          team_id: string | null
-          title: string
+          invoice_id: string
+          reason: string | null
+          refund_amount: number
+          refund_method: string | null
+          refund_reference: string | null
+          refunded_at: string | null
+          status: string
+          subtotal: number
+          tax_amount: number | null
+          tax_rate: number | null
+          team_id: string
+          total: number
           updated_at: string
-          value: number | null
         }
         Insert: {
-          actual_close_date?: string | null
-          assigned_to?: string | null
-          closed_at?: string | null
           contact_id: string
           created_at?: string
           created_by: string
-          description?: string | null
-          expected_close_date?: string | null
+          credit_note_number: string
           id?: string
-          notes?: string | null
-          probability?: number | null
-          source?: string | null
-          stage?: Database["public"]["Enums"]["pipeline_stage"]
-          team_id?: string | null
-          title: string
+          invoice_id: string
+          reason?: string | null
+          refund_amount?: number
+          refund_method?: string | null
+          refund_reference?: string | null
+          refunded_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_amount?: number | null
+          tax_rate?: number | null
+          team_id: string
+          total: number
           updated_at?: string
-          value?: number | null
         }
         Update: {
-          actual_close_date?: string | null
-          assigned_to?: string | null
-          closed_at?: string | null
           contact_id?: string
           created_at?: string
           created_by?: string
-          description?: string | null
-          expected_close_date?: string | null
+          credit_note_number?: string
           id?: string
-          notes?: string | null
-          probability?: number | null
-          source?: string | null
-          stage?: Database["public"]["Enums"]["pipeline_stage"]
-          team_id?: string | null
-          title?: string
+          invoice_id?: string
+          reason?: string | null
+          refund_amount?: number
+          refund_method?: string | null
+          refund_reference?: string | null
+          refunded_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_amount?: number | null
+          tax_rate?: number | null
+          team_id?: string
+          total?: number
           updated_at?: string
-          value?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "deals_contact_id_fkey"
-            columns: ["contact_id"]
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "contacts"
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "deals_team_id_fkey"
+            foreignKeyName: "credit_notes_team_id_fkey"
             columns: ["team_id"]
             isOneToOne: false
             referencedRelation: "teams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "credit_notes_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      engagement_conversions: {
+      deal_activities: {
         Row: {
-          converted_at: string
-          converted_by: string
-          engagement_id: string
+          activity_type: string
+          created_at: string
+          created_by: string
+          deal_id: string
           id: string
-          invoice_id: string
+          new_stage: string | null
+          new_stage_id: string | null
+          new_value: number | null
+          notes: string | null
+          old_stage: string | null
+          old_stage_id: string | null
+          old_value: number | null
         }
         Insert: {
-          converted_at?: string
-          converted_by: string
-          engagement_id: string
+          activity_type: string
+          created_at?: string
+          created_by: string
+          deal_id: string
           id?: string
-          invoice_id: string
+          new_stage?: string | null
+          new_stage_id?: string | null
+          new_value?: number | null
+          notes?: string | null
+          old_stage?: string | null
+          old_stage_id?: string | null
+          old_value?: number | null
         }
         Update: {
-          converted_at?: string
-          converted_by?: string
-          engagement_id?: string
+          activity_type?: string
+          created_at?: string
+          created_by?: string
+          deal_id?: string
           id?: string
-          invoice_id?: string
+          new_stage?: string | null
+          new_stage_id?: string | null
+          new_value?: number | null
+          notes?: string | null
+          old_stage?: string | null
+          old_stage_id?: string | null
+          old_value?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_conversion_engagement"
-            columns: ["engagement_id"]
-            isOneToOne: true
-            referencedRelation: "engagements"
+            foreignKeyName: "deal_activities_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_conversion_invoice"
-            columns: ["invoice_id"]
+            foreignKeyName: "deal_activities_new_stage_id_fkey"
+            columns: ["new_stage_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_activities_old_stage_id_fkey"
+            columns: ["old_stage_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_items: {
+        Row: {
+          created_at: string
+          deal_id: string
+          description: string
+          discount_type: string | null
+          discount_value: number
+          id: string
+          position: number
+          product_id: string | null
+          quantity: number
+          total_price: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          deal_id: string
+          description: string
+          discount_type?: string | null
+          discount_value?: number
+          id?: string
+          position?: number
+          product_id?: string | null
+          quantity?: number
+          total_price?: number
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          deal_id?: string
+          description?: string
+          discount_type?: string | null
+          discount_value?: number
+          id?: string
+          position?: number
+          product_id?: string | null
+          quantity?: number
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_items_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_loss_reasons: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          position: number
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          position?: number
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          position?: number
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_loss_reasons_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deals: {
+        Row: {
+          actual_close_date: string | null
+          assigned_to: string | null
+          closed_at: string | null
+          contact_id: string
+          created_at: string
+          created_by: string
+          currency: string
+          description: string | null
+          expected_close_date: string | null
+          forecast_category: string
+          id: string
+          lost_notes: string | null
+          lost_reason: string | null
+          lost_reason_id: string | null
+          notes: string | null
+          pipeline_id: string | null
+          probability: number | null
+          source: string | null
+          stage: string
+          stage_id: string | null
+          team_id: string | null
+          title: string
+          updated_at: string
+          value: number | null
+        }
+        Insert: {
+          actual_close_date?: string | null
+          assigned_to?: string | null
+          closed_at?: string | null
+          contact_id: string
+          created_at?: string
+          created_by: string
+          currency?: string
+          description?: string | null
+          expected_close_date?: string | null
+          forecast_category?: string
+          id?: string
+          lost_notes?: string | null
+          lost_reason?: string | null
+          lost_reason_id?: string | null
+          notes?: string | null
+          pipeline_id?: string | null
+          probability?: number | null
+          source?: string | null
+          stage?: string
+          stage_id?: string | null
+          team_id?: string | null
+          title: string
+          updated_at?: string
+          value?: number | null
+        }
+        Update: {
+          actual_close_date?: string | null
+          assigned_to?: string | null
+          closed_at?: string | null
+          contact_id?: string
+          created_at?: string
+          created_by?: string
+          currency?: string
+          description?: string | null
+          expected_close_date?: string | null
+          forecast_category?: string
+          id?: string
+          lost_notes?: string | null
+          lost_reason?: string | null
+          lost_reason_id?: string | null
+          notes?: string | null
+          pipeline_id?: string | null
+          probability?: number | null
+          source?: string | null
+          stage?: string
+          stage_id?: string | null
+          team_id?: string | null
+          title?: string
+          updated_at?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deals_lost_reason_id_fkey"
+            columns: ["lost_reason_id"]
+            isOneToOne: false
+            referencedRelation: "deal_loss_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dunning_sequences: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          is_active: boolean
+          name: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          is_active?: boolean
+          name: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dunning_sequences_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dunning_steps: {
+        Row: {
+          channel: string
+          created_at: string
+          days_after_due: number
+          id: string
+          position: number
+          sequence_id: string
+          template_set_id: string | null
+        }
+        Insert: {
+          channel?: string
+          created_at?: string
+          days_after_due?: number
+          id?: string
+          position?: number
+          sequence_id: string
+          template_set_id?: string | null
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          days_after_due?: number
+          id?: string
+          position?: number
+          sequence_id?: string
+          template_set_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dunning_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "dunning_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dunning_steps_template_set_id_fkey"
+            columns: ["template_set_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      engagement_conversions: {
+        Row: {
+          converted_at: string
+          converted_by: string
+          engagement_id: string
+          id: string
+          invoice_id: string
+        }
+        Insert: {
+          converted_at?: string
+          converted_by: string
+          engagement_id: string
+          id?: string
+          invoice_id: string
+        }
+        Update: {
+          converted_at?: string
+          converted_by?: string
+          engagement_id?: string
+          id?: string
+          invoice_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_conversion_engagement"
+            columns: ["engagement_id"]
+            isOneToOne: true
+            referencedRelation: "engagements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_conversion_invoice"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      engagements: {
+        Row: {
+          contact_id: string
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          name: string
+          potential_product: string[] | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          name: string
+          potential_product?: string[] | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          name?: string
+          potential_product?: string[] | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_engagement_contact"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string
+          currency: string
+          effective_date: string
+          id: string
+          rate: number
+          source: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          currency: string
+          effective_date?: string
+          id?: string
+          rate: number
+          source?: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          currency?: string
+          effective_date?: string
+          id?: string
+          rate?: number
+          source?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_up_cadence_rules: {
+        Row: {
+          created_at: string
+          created_by: string
+          excluded_statuses: string[]
+          id: string
+          is_active: boolean
+          label: string | null
+          name: string
+          priority: number
+          stale_days: number[]
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          excluded_statuses?: string[]
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          name: string
+          priority?: number
+          stale_days?: number[]
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          excluded_statuses?: string[]
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          name?: string
+          priority?: number
+          stale_days?: number[]
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_up_cadence_rules_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_activities: {
+        Row: {
+          activity_type: string
+          created_at: string | null
+          details: string | null
+          document_id: string | null
+          id: string
+          invoice_id: string
+          user_id: string
+        }
+        Insert: {
+          activity_type: string
+          created_at?: string | null
+          details?: string | null
+          document_id?: string | null
+          id?: string
+          invoice_id: string
+          user_id: string
+        }
+        Update: {
+          activity_type?: string
+          created_at?: string | null
+          details?: string | null
+          document_id?: string | null
+          id?: string
+          invoice_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_activities_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_activities_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_documents: {
+        Row: {
+          checksum: string
+          created_at: string
+          created_by: string
+          id: string
+          invoice_id: string
+          invoice_number: string
+          invoice_status: string
+          size_bytes: number
+          storage_path: string
+          team_id: string
+          version: number
+        }
+        Insert: {
+          checksum: string
+          created_at?: string
+          created_by: string
+          id?: string
+          invoice_id: string
+          invoice_number: string
+          invoice_status: string
+          size_bytes: number
+          storage_path: string
+          team_id: string
+          version: number
+        }
+        Update: {
+          checksum?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          invoice_id?: string
+          invoice_number?: string
+          invoice_status?: string
+          size_bytes?: number
+          storage_path?: string
+          team_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_documents_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_documents_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          discount_type: string | null
+          discount_value: number
+          id: string
+          invoice_id: string
+          product_id: string | null
+          quantity: number
+          total_price: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          discount_type?: string | null
+          discount_value?: number
+          id?: string
+          invoice_id: string
+          product_id?: string | null
+          quantity?: number
+          total_price?: number
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          discount_type?: string | null
+          discount_value?: number
+          id?: string
+          invoice_id?: string
+          product_id?: string | null
+          quantity?: number
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          method: string
+          notes: string | null
+          paid_at: string
+          recorded_by: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          recorded_by: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          recorded_by?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_reminders: {
+        Row: {
+          channel: string
+          id: string
+          invoice_id: string
+          sent_at: string
+          sent_by: string
+          step_id: string | null
+          template_variation_id: string | null
+        }
+        Insert: {
+          channel: string
+          id?: string
+          invoice_id: string
+          sent_at?: string
+          sent_by: string
+          step_id?: string | null
+          template_variation_id?: string | null
+        }
+        Update: {
+          channel?: string
+          id?: string
+          invoice_id?: string
+          sent_at?: string
+          sent_by?: string
+          step_id?: string | null
+          template_variation_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_reminders_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "dunning_steps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_reminders_template_variation_id_fkey"
+            columns: ["template_variation_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_variations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_share_links: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          first_viewed_at: string | null
+          id: string
+          invoice_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          team_id: string
+          token: string
+          view_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at: string
+          first_viewed_at?: string | null
+          id?: string
+          invoice_id: string
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          team_id: string
+          token: string
+          view_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          first_viewed_at?: string | null
+          id?: string
+          invoice_id?: string
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          team_id?: string
+          token?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_share_links_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_share_links_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_templates: {
+        Row: {
+          accent_color: string
+          created_at: string
+          footer_text: string | null
+          header_text: string | null
+          language: string
+          layout: string
+          payment_instructions: string | null
+          primary_color: string
+          signature_url: string | null
+          team_id: string
+          updated_at: string
+          updated_by: string
+        }
+        Insert: {
+          accent_color?: string
+          created_at?: string
+          footer_text?: string | null
+          header_text?: string | null
+          language?: string
+          layout?: string
+          payment_instructions?: string | null
+          primary_color?: string
+          signature_url?: string | null
+          team_id: string
+          updated_at?: string
+          updated_by: string
+        }
+        Update: {
+          accent_color?: string
+          created_at?: string
+          footer_text?: string | null
+          header_text?: string | null
+          language?: string
+          layout?: string
+          payment_instructions?: string | null
+          primary_color?: string
+          signature_url?: string | null
+          team_id?: string
+          updated_at?: string
+          updated_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_templates_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: true
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_credited: number
+          amount_paid: number
+          contact_id: string
+          created_at: string | null
+          created_by: string
+          currency: string
+          discount_amount: number
+          discount_type: string | null
+          discount_value: number
+          due_date: string | null
+          exchange_rate: number
+          id: string
+          invoice_number: string
+          notes: string | null
+          prices_include_tax: boolean
+          recurring_profile_id: string | null
+          reporting_currency: string
+          status: string
+          subtotal: number
+          tax_amount: number | null
+          tax_rate: number | null
+          taxes: Json
+          team_id: string
+          total: number
+          updated_at: string | null
+        }
+        Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          contact_id: string
+          created_at?: string | null
+          created_by: string
+          currency?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
+          id?: string
+          invoice_number: string
+          notes?: string | null
+          prices_include_tax?: boolean
+          recurring_profile_id?: string | null
+          reporting_currency?: string
+          status?: string
+          subtotal?: number
+          tax_amount?: number | null
+          tax_rate?: number | null
+          taxes?: Json
+          team_id: string
+          total?: number
+          updated_at?: string | null
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          contact_id?: string
+          created_at?: string | null
+          created_by?: string
+          currency?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
+          id?: string
+          invoice_number?: string
+          notes?: string | null
+          prices_include_tax?: boolean
+          recurring_profile_id?: string | null
+          reporting_currency?: string
+          status?: string
+          subtotal?: number
+          tax_amount?: number | null
+          tax_rate?: number | null
+          taxes?: Json
+          team_id?: string
+          total?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_recurring_profile_id_fkey"
+            columns: ["recurring_profile_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoice_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labels: {
+        Row: {
+          color: string | null
+          created_at: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      message_template_sets: {
+        Row: {
+          associated_label_id: string
+          channel: string
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          associated_label_id: string
+          channel?: string
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          associated_label_id?: string
+          channel?: string
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_message_template_sets_label"
+            columns: ["associated_label_id"]
+            isOneToOne: false
+            referencedRelation: "labels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_template_variations: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          is_active: boolean
+          position: number
+          subject: string | null
+          template_set_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          position?: number
+          subject?: string | null
+          template_set_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          position?: number
+          subject?: string | null
+          template_set_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_template_variations_template_set_id_fkey"
+            columns: ["template_set_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_stages: {
+        Row: {
+          created_at: string
+          id: string
+          is_lost: boolean
+          is_won: boolean
+          name: string
+          pipeline_id: string
+          position: number
+          probability: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_lost?: boolean
+          is_won?: boolean
+          name: string
+          pipeline_id: string
+          position?: number
+          probability?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_lost?: boolean
+          is_won?: boolean
+          name?: string
+          pipeline_id?: string
+          position?: number
+          probability?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stages_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipelines: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_default: boolean
+          name: string
+          position: number
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          position?: number
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          position?: number
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipelines_team_id_fkey"
+            columns: ["team_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "teams"
             referencedColumns: ["id"]
           },
         ]
       }
-      engagements: {
+      products: {
         Row: {
-          contact_id: string
-          created_at: string
+          category: string | null
+          created_at: string | null
           created_by: string
+          currency: string
           description: string | null
           id: string
           name: string
-          potential_product: string[] | null
+          price: number | null
           status: string
-          updated_at: string
+          stock: number
+          team_id: string
+          updated_at: string | null
         }
         Insert: {
-          contact_id: string
-          created_at?: string
+          category?: string | null
+          created_at?: string | null
           created_by: string
+          currency?: string
           description?: string | null
           id?: string
           name: string
-          potential_product?: string[] | null
+          price?: number | null
           status?: string
-          updated_at?: string
+          stock?: number
+          team_id: string
+          updated_at?: string | null
         }
         Update: {
-          contact_id?: string
-          created_at?: string
+          category?: string | null
+          created_at?: string | null
           created_by?: string
+          currency?: string
           description?: string | null
           id?: string
           name?: string
-          potential_product?: string[] | null
+          price?: number | null
           status?: string
-          updated_at?: string
+          stock?: number
+          team_id?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_engagement_contact"
-            columns: ["contact_id"]
+            foreignKeyName: "products_team_id_fkey"
+            columns: ["team_id"]
             isOneToOne: false
-            referencedRelation: "contacts"
+            referencedRelation: "teams"
             referencedColumns: ["id"]
           },
         ]
       }
-      invoice_activities: {
+      profiles: {
         Row: {
-          activity_type: string
+          avatar_url: string | null
           created_at: string | null
-          details: string | null
+          full_name: string | null
           id: string
-          invoice_id: string
-          user_id: string
+          updated_at: string | null
+          username: string | null
         }
         Insert: {
-          activity_type: string
+          avatar_url?: string | null
           created_at?: string | null
-          details?: string | null
-          id?: string
-          invoice_id: string
-          user_id: string
+          full_name?: string | null
+          id: string
+          updated_at?: string | null
+          username?: string | null
         }
         Update: {
-          activity_type?: string
+          avatar_url?: string | null
           created_at?: string | null
-          details?: string | null
+          full_name?: string | null
           id?: string
-          invoice_id?: string
-          user_id?: string
+          updated_at?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      qualification_criteria: {
+        Row: {
+          authority_confirmed: boolean | null
+          budget_confirmed: boolean | null
+          contact_id: string
+          contact_status: string | null
+          created_at: string
+          engagement_id: string | null
+          id: string
+          need_identified: boolean | null
+          qualification_method: string | null
+          qualification_notes: string | null
+          qualification_score: number | null
+          qualified_at: string | null
+          qualified_by: string | null
+          timeline_defined: boolean | null
+          updated_at: string
+        }
+        Insert: {
+          authority_confirmed?: boolean | null
+          budget_confirmed?: boolean | null
+          contact_id: string
+          contact_status?: string | null
+          created_at?: string
+          engagement_id?: string | null
+          id?: string
+          need_identified?: boolean | null
+          qualification_method?: string | null
+          qualification_notes?: string | null
+          qualification_score?: number | null
+          qualified_at?: string | null
+          qualified_by?: string | null
+          timeline_defined?: boolean | null
+          updated_at?: string
+        }
+        Update: {
+          authority_confirmed?: boolean | null
+          budget_confirmed?: boolean | null
+          contact_id?: string
+          contact_status?: string | null
+          created_at?: string
+          engagement_id?: string | null
+          id?: string
+          need_identified?: boolean | null
+          qualification_method?: string | null
+          qualification_notes?: string | null
+          qualification_score?: number | null
+          qualified_at?: string | null
+          qualified_by?: string | null
+          timeline_defined?: boolean | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invoice_activities_invoice_id_fkey"
-            columns: ["invoice_id"]
+            foreignKeyName: "fk_qualification_contact"
+            columns: ["contact_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_qualification_engagement"
+            columns: ["engagement_id"]
+            isOneToOne: false
+            referencedRelation: "engagements"
             referencedColumns: ["id"]
           },
         ]
       }
-      invoice_items: {
+      quote_items: {
         Row: {
-          created_at: string | null
+          created_at: string
           description: string
+          discount_type: string | null
+          discount_value: number
           id: string
-          invoice_id: string
+          position: number
           product_id: string | null
           quantity: number
+          quote_id: string
           total_price: number
           unit_price: number
         }
         Insert: {
-          created_at?: string | null
+          created_at?: string
           description: string
+          discount_type?: string | null
+          discount_value?: number
           id?: string
-          invoice_id: string
+          position?: number
           product_id?: string | null
           quantity?: number
+          quote_id: string
           total_price?: number
           unit_price?: number
         }
         Update: {
-          created_at?: string | null
+          created_at?: string
           description?: string
+          discount_type?: string | null
+          discount_value?: number
           id?: string
-          invoice_id?: string
+          position?: number
           product_id?: string | null
           quantity?: number
+          quote_id?: string
           total_price?: number
           unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "invoice_items_invoice_id_fkey"
-            columns: ["invoice_id"]
+            foreignKeyName: "quote_items_quote_id_fkey"
+            columns: ["quote_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "quotes"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "invoice_items_product_id_fkey"
+            foreignKeyName: "quote_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
@@ -402,183 +1767,259 @@ export type Database = {
           },
         ]
       }
-      invoices: {
+      quotes: {
         Row: {
           contact_id: string
-          created_at: string | null
+          created_at: string
           created_by: string
-          due_date: string | null
+          currency: string
+          deal_id: string | null
+          discount_amount: number
+          discount_type: string | null
+          discount_value: number
           id: string
-          invoice_number: string
+          invoice_id: string | null
           notes: string | null
+          prices_include_tax: boolean
+          quote_number: string
+          responded_at: string | null
+          sent_at: string | null
           status: string
           subtotal: number
           tax_amount: number | null
           tax_rate: number | null
+          taxes: Json
           team_id: string
+          title: string | null
           total: number
-          updated_at: string | null
+          updated_at: string
+          valid_until: string
         }
         Insert: {
           contact_id: string
-          created_at?: string | null
+          created_at?: string
           created_by: string
-          due_date?: string | null
+          currency?: string
+          deal_id?: string | null
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
           id?: string
-          invoice_number: string
+          invoice_id?: string | null
           notes?: string | null
+          prices_include_tax?: boolean
+          quote_number: string
+          responded_at?: string | null
+          sent_at?: string | null
           status?: string
           subtotal?: number
           tax_amount?: number | null
           tax_rate?: number | null
+          taxes?: Json
           team_id: string
+          title?: string | null
           total?: number
-          updated_at?: string | null
+          updated_at?: string
+          valid_until: string
         }
         Update: {
           contact_id?: string
-          created_at?: string | null
+          created_at?: string
           created_by?: string
-          due_date?: string | null
+          currency?: string
+          deal_id?: string | null
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
           id?: string
-          invoice_number?: string
+          invoice_id?: string | null
           notes?: string | null
+          prices_include_tax?: boolean
+          quote_number?: string
+          responded_at?: string | null
+          sent_at?: string | null
           status?: string
           subtotal?: number
           tax_amount?: number | null
           tax_rate?: number | null
+          taxes?: Json
           team_id?: string
+          title?: string | null
           total?: number
-          updated_at?: string | null
+          updated_at?: string
+          valid_until?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_contact_id_fkey"
+            foreignKeyName: "quotes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_contact_id_fkey"
             columns: ["contact_id"]
             isOneToOne: false
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "invoices_team_id_fkey"
-            columns: ["team_id"]
+            foreignKeyName: "quotes_deal_id_fkey"
+            columns: ["deal_id"]
             isOneToOne: false
-            referencedRelation: "teams"
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
         ]
       }
-      labels: {
-        Row: {
-          color: string | null
-          created_at: string | null
-          id: string
-          name: string
-          user_id: string
-        }
-        Insert: {
-          color?: string | null
-          created_at?: string | null
-          id?: string
-          name: string
-          user_id: string
-        }
-        Update: {
-          color?: string | null
-          created_at?: string | null
-          id?: string
-          name?: string
-          user_id?: string
-        }
-        Relationships: []
-      }
-      message_template_sets: {
+      recurring_invoice_items: {
         Row: {
-          associated_label_id: string
           created_at: string
+          description: string
+          discount_type: string | null
+          discount_value: number
           id: string
-          template_variation_1: string
-          template_variation_2: string
-          template_variation_3: string
-          title: string
-          updated_at: string
-          user_id: string
+          position: number
+          product_id: string | null
+          profile_id: string
+          quantity: number
+          unit_price: number
         }
         Insert: {
-          associated_label_id: string
           created_at?: string
+          description: string
+          discount_type?: string | null
+          discount_value?: number
           id?: string
-          template_variation_1: string
-          template_variation_2: string
-          template_variation_3: string
-          title: string
-          updated_at?: string
-          user_id: string
+          position?: number
+          product_id?: string | null
+          profile_id: string
+          quantity?: number
+          unit_price?: number
         }
         Update: {
-          associated_label_id?: string
           created_at?: string
+          description?: string
+          discount_type?: string | null
+          discount_value?: number
           id?: string
-          template_variation_1?: string
-          template_variation_2?: string
-          template_variation_3?: string
-          title?: string
-          updated_at?: string
-          user_id?: string
+          position?: number
+          product_id?: string | null
+          profile_id?: string
+          quantity?: number
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "fk_message_template_sets_label"
-            columns: ["associated_label_id"]
+            foreignKeyName: "recurring_invoice_items_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "labels"
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_items_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoice_profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      products: {
+      recurring_invoice_profiles: {
         Row: {
-          category: string | null
-          created_at: string | null
+          contact_id: string
+          created_at: string
           created_by: string
-          description: string | null
+          currency: string
+          discount_type: string | null
+          discount_value: number
+          due_days: number
+          end_date: string | null
           id: string
+          interval_count: number
+          interval_unit: string
+          last_run_at: string | null
           name: string
-          price: number | null
+          next_run_date: string
+          notes: string | null
+          occurrence: number
+          prices_include_tax: boolean
+          start_date: string
           status: string
-          stock: number
+          tax_rate: number
+          taxes: Json
           team_id: string
-          updated_at: string | null
+          updated_at: string
         }
         Insert: {
-          category?: string | null
-          created_at?: string | null
+          contact_id: string
+          created_at?: string
           created_by: string
-          description?: string | null
+          currency?: string
+          discount_type?: string | null
+          discount_value?: number
+          due_days?: number
+          end_date?: string | null
           id?: string
+          interval_count?: number
+          interval_unit?: string
+          last_run_at?: string | null
           name: string
-          price?: number | null
+          next_run_date?: string
+          notes?: string | null
+          occurrence?: number
+          prices_include_tax?: boolean
+          start_date: string
           status?: string
-          stock?: number
+          tax_rate?: number
+          taxes?: Json
           team_id: string
-          updated_at?: string | null
+          updated_at?: string
         }
         Update: {
-          category?: string | null
-          created_at?: string | null
+          contact_id?: string
+          created_at?: string
           created_by?: string
-          description?: string | null
+          currency?: string
+          discount_type?: string | null
+          discount_value?: number
+          due_days?: number
+          end_date?: string | null
           id?: string
+          interval_count?: number
+          interval_unit?: string
+          last_run_at?: string | null
           name?: string
-          price?: number | null
+          next_run_date?: string
+          notes?: string | null
+          occurrence?: number
+          prices_include_tax?: boolean
+          start_date?: string
           status?: string
-          stock?: number
+          tax_rate?: number
+          taxes?: Json
           team_id?: string
-          updated_at?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_team_id_fkey"
+            foreignKeyName: "recurring_invoice_profiles_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_profiles_team_id_fkey"
             columns: ["team_id"]
             isOneToOne: false
             referencedRelation: "teams"
@@ -586,98 +2027,55 @@ export type Database = {
           },
         ]
       }
-      profiles: {
-        Row: {
-          avatar_url: string | null
-          created_at: string | null
-          full_name: string | null
-          id: string
-          updated_at: string | null
-          username: string | null
-        }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string | null
-          full_name?: string | null
-          id: string
-          updated_at?: string | null
-          username?: string | null
-        }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string | null
-          full_name?: string | null
-          id?: string
-          updated_at?: string | null
-          username?: string | null
-        }
-        Relationships: []
-      }
-      qualification_criteria: {
+      sales_quotas: {
         Row: {
-          authority_confirmed: boolean | null
-          budget_confirmed: boolean | null
-          contact_id: string
-          contact_status: string | null
           created_at: string
-          engagement_id: string | null
+          created_by: string | null
+          currency: string
+          deal_count_target: number | null
           id: string
-          need_identified: boolean | null
-          qualification_method: string | null
-          qualification_notes: string | null
-          qualification_score: number | null
-          qualified_at: string | null
-          qualified_by: string | null
-          timeline_defined: boolean | null
+          period_start: string
+          period_type: string
+          revenue_basis: string
+          revenue_target: number | null
+          team_id: string
           updated_at: string
+          user_id: string | null
         }
         Insert: {
-          authority_confirmed?: boolean | null
-          budget_confirmed?: boolean | null
-          contact_id: string
-          contact_status?: string | null
           created_at?: string
-          engagement_id?: string | null
+          created_by?: string | null
+          currency?: string
+          deal_count_target?: number | null
           id?: string
-          need_identified?: boolean | null
-          qualification_method?: string | null
-          qualification_notes?: string | null
-          qualification_score?: number | null
-          qualified_at?: string | null
-          qualified_by?: string | null
-          timeline_defined?: boolean | null
+          period_start: string
+          period_type: string
+          revenue_basis?: string
+          revenue_target?: number | null
+          team_id: string
           updated_at?: string
+          user_id?: string | null
         }
         Update: {
-          authority_confirmed?: boolean | null
-          budget_confirmed?: boolean | null
-          contact_id?: string
-          contact_status?: string | null
           created_at?: string
-          engagement_id?: string | null
+          created_by?: string | null
+          currency?: string
+          deal_count_target?: number | null
           id?: string
-          need_identified?: boolean | null
-          qualification_method?: string | null
-          qualification_notes?: string | null
-          qualification_score?: number | null
-          qualified_at?: string | null
-          qualified_by?: string | null
-          timeline_defined?: boolean | null
+          period_start?: string
+          period_type?: string
+          revenue_basis?: string
+          revenue_target?: number | null
+          team_id?: string
           updated_at?: string
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_qualification_contact"
-            columns: ["contact_id"]
-            isOneToOne: false
-            referencedRelation: "contacts"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "fk_qualification_engagement"
-            columns: ["engagement_id"]
+            foreignKeyName: "sales_quotas_team_id_fkey"
+            columns: ["team_id"]
             isOneToOne: false
-            referencedRelation: "engagements"
+            referencedRelation: "teams"
             referencedColumns: ["id"]
           },
         ]
@@ -686,6 +2084,7 @@ export type Database = {
         Row: {
           created_at: string
           currency: string
+          default_phone_country: string
           id: string
           updated_at: string
           user_id: string
@@ -693,6 +2092,7 @@ export type Database = {
         Insert: {
           created_at?: string
           currency?: string
+          default_phone_country?: string
           id?: string
           updated_at?: string
           user_id: string
@@ -700,6 +2100,7 @@ export type Database = {
         Update: {
           created_at?: string
           currency?: string
+          default_phone_country?: string
           id?: string
           updated_at?: string
           user_id?: string
@@ -791,12 +2192,14 @@ export type Database = {
           company_phone: string | null
           country: string | null
           created_at: string
+          default_phone_country: string | null
           description: string | null
           id: string
           logo_url: string | null
           name: string
           owner_id: string
           postal_code: string | null
+          reporting_currency: string
           state: string | null
           swift_code: string | null
           tax_id: string | null
@@ -814,12 +2217,14 @@ export type Database = {
           company_phone?: string | null
           country?: string | null
           created_at?: string
+          default_phone_country?: string | null
           description?: string | null
           id?: string
           logo_url?: string | null
           name: string
           owner_id: string
           postal_code?: string | null
+          reporting_currency?: string
           state?: string | null
           swift_code?: string | null
           tax_id?: string | null
@@ -837,12 +2242,14 @@ export type Database = {
           company_phone?: string | null
           country?: string | null
           created_at?: string
+          default_phone_country?: string | null
           description?: string | null
           id?: string
           logo_url?: string | null
           name?: string
           owner_id?: string
           postal_code?: string | null
+          reporting_currency?: string
           state?: string | null
           swift_code?: string | null
           tax_id?: string | null
@@ -884,11 +2291,124 @@ export type Database = {
         }
         Relationships: []
       }
+      whatsapp_campaign_recipients: {
+        Row: {
+          activity_id: string | null
+          campaign_id: string
+          contact_id: string
+          created_at: string
+          id: string
+          message: string
+          position: number
+          sent_at: string | null
+          status: string
+          template_variation_id: string | null
+        }
+        Insert: {
+          activity_id?: string | null
+          campaign_id: string
+          contact_id: string
+          created_at?: string
+          id?: string
+          message: string
+          position: number
+          sent_at?: string | null
+          status?: string
+          template_variation_id?: string | null
+        }
+        Update: {
+          activity_id?: string | null
+          campaign_id?: string
+          contact_id?: string
+          created_at?: string
+          id?: string
+          message?: string
+          position?: number
+          sent_at?: string | null
+          status?: string
+          template_variation_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_campaign_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_campaign_recipients_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_campaign_recipients_template_variation_id_fkey"
+            columns: ["template_variation_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_variations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_campaign_recipients_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: false
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      whatsapp_campaigns: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          id: string
+          name: string
+          status: string
+          template_set_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          status?: string
+          template_set_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          status?: string
+          template_set_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_campaigns_template_set_id_fkey"
+            columns: ["template_set_id"]
+            isOneToOne: false
+            referencedRelation: "message_template_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_quote: {
+        Args: { p_deal_stage?: string; p_quote_id: string }
+        Returns: string
+      }
       accept_team_invitation: {
         Args: { p_token: string; p_user_id: string }
         Returns: Json
@@ -918,6 +2438,38 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      create_default_loss_reasons: {
+        Args: { p_team_id: string }
+        Returns: undefined
+      }
+      create_default_pipeline: {
+        Args: { p_team_id: string }
+        Returns: string
+      }
+      create_invoice_share_link: {
+        Args: { p_invoice_id: string; p_valid_days?: number }
+        Returns: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          first_viewed_at: string | null
+          id: string
+          invoice_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          team_id: string
+          token: string
+          view_count: number
+        }
+      }
+      create_recurring_invoice: {
+        Args: { p_profile_id: string }
+        Returns: string
+      }
+      generate_credit_note_number: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       generate_invitation_token: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -926,16 +2478,48 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      generate_quote_number: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_recurring_invoice: {
+        Args: { p_profile_id: string }
+        Returns: string
+      }
+      get_discount_amount: {
+        Args: { p_amount: number; p_type: string; p_value: number }
+        Returns: number
+      }
+      get_exchange_rate: {
+        Args: { p_team_id: string; p_currency: string; p_on?: string }
+        Returns: number
+      }
       get_pipeline_analytics: {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      get_shared_invoice: {
+        Args: { p_token: string }
+        Returns: Json
+      }
       get_subordinate_user_ids: {
         Args: { team_uuid: string; manager_uuid: string }
         Returns: {
           user_id: string
         }[]
       }
+      get_template_variation_stats: {
+        Args: {
+          p_conversion_window_days?: number
+          p_reply_window_days?: number
+        }
+        Returns: {
+          template_variation_id: string
+          sends: number
+          replies: number
+          conversions: number
+        }[]
+      }
       is_team_manager: {
         Args: { team_uuid: string; user_uuid: string }
         Returns: boolean
@@ -948,15 +2532,61 @@ export type Database = {
         Args: { team_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      issue_credit_note: {
+        Args: { p_invoice_id: string; p_items: Json; p_reason: string }
+        Returns: string
+      }
+      mark_overdue_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      merge_contacts: {
+        Args: {
+          p_surviving_id: string
+          p_merged_id: string
+          p_field_values?: Json
+        }
+        Returns: Json
+      }
+      resolve_contact_merge_conflicts: {
+        Args: { p_surviving_id: string; p_merged_id: string }
+        Returns: undefined
+      }
+      revoke_invoice_share_link: {
+        Args: { p_link_id: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          first_viewed_at: string | null
+          id: string
+          invoice_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          team_id: string
+          token: string
+          view_count: number
+        }
+      }
+      run_due_recurring_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      save_pipeline_stages: {
+        Args: { p_pipeline_id: string; p_stages: Json }
+        Returns: undefined
+      }
+      set_team_reporting_currency: {
+        Args: { p_team_id: string; p_currency: string }
+        Returns: undefined
+      }
+      skip_recurring_invoice_run: {
+        Args: { p_profile_id: string }
+        Returns: string
+      }
     }
     Enums: {
-      pipeline_stage:
-        | "Lead"
-        | "Qualified"
-        | "Proposal"
-        | "Negotiation"
-        | "Closed Won"
-        | "Closed Lost"
+      [_ in never]: never
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1083,15 +2713,6 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {
-      pipeline_stage: [
-        "Lead",
-        "Qualified",
-        "Proposal",
-        "Negotiation",
-        "Closed Won",
-        "Closed Lost",
-      ],
-    },
+    Enums: {},
   },
 } as const
@@ -0,0 +1,103 @@
+
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { InvoicePDFPreview } from '@/components/InvoiceManager/InvoicePDFPreview';
+import { Contact } from '@/types/contact';
+import { Invoice, InvoiceItem } from '@/types/invoice';
+import { InvoiceTemplateSettings } from '@/types/invoiceTemplate';
+import { Team } from '@/types/team';
+import { DEFAULT_INVOICE_TEMPLATE } from '@/utils/invoiceTemplate';
+
+// What get_shared_invoice returns for a valid link
+interface SharedInvoice {
+  invoice: Invoice;
+  items: InvoiceItem[];
+  contact: Contact | null;
+  company: Team | null;
+  template: InvoiceTemplateSettings | null;
+  expires_at: string;
+}
+
+/**
+ * Read-only invoice page opened from a shared link, available without signing in
+ * Opening it records the view, which marks a Sent invoice as Viewed
+ */
+const PublicInvoicePage: React.FC = () => {
+  const { token } = useParams();
+  const [shared, setShared] = useState<SharedInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadInvoice = async () => {
+      if (!token) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase.rpc('get_shared_invoice', {
+          p_token: decodeURIComponent(token),
+        });
+
+        if (error) throw error;
+
+        setShared(data as unknown as SharedInvoice | null);
+      } catch (error) {
+        console.error('Error loading shared invoice:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvoice();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center space-y-2">
+            <h1 className="text-xl font-semibold">Invoice unavailable</h1>
+            <p className="text-gray-600">
+              This link has expired or is no longer valid. Please ask the sender for a new link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-6 px-3 sm:px-6">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex justify-end print:hidden">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+        <InvoicePDFPreview
+          invoice={shared.invoice}
+          items={shared.items}
+          contact={shared.contact || undefined}
+          company={shared.company || undefined}
+          template={{ ...DEFAULT_INVOICE_TEMPLATE, ...shared.template }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PublicInvoicePage;
@@ -0,0 +1,40 @@
+/**
+ * Email service
+ * Sends emails to contacts through the send-email edge function, which delivers them
+ * with the configured SMTP or HTTP provider and logs each send as an activity
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SendEmailRequest {
+  contact_id: string;
+  subject: string;
+  body: string;
+  template_set_id?: string;
+  template_variation_id?: string;
+  template_title?: string;
+}
+
+export interface SendEmailResult {
+  activity_id: string;
+  // Also stored in the activity's api_call_status
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+export const EmailService = {
+  /**
+   * Sends one email to a contact
+   * @param request - Contact, rendered subject and body, and the template used if any
+   * @returns Delivery outcome; a failed delivery is still logged as an activity
+   */
+  sendEmail: async (request: SendEmailRequest): Promise<SendEmailResult> => {
+    const { data, error } = await supabase.functions.invoke<SendEmailResult>('send-email', {
+      body: request,
+    });
+
+    if (error) throw error;
+    if (!data) throw new Error('Empty response from send-email');
+    return data;
+  },
+};
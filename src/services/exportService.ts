@@ -0,0 +1,192 @@
+/**
+ * Export service for tabular data
+ * Builds CSV and genuine XLSX (Office Open XML) files from column definitions,
+ * so contact, invoice and product lists share one export path
+ */
+
+import { toCSV } from '@/utils/csvUtils';
+import { downloadBlob } from '@/utils/downloadUtils';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCellType = 'text' | 'number' | 'currency' | 'date' | 'datetime';
+
+export type ExportCellValue = string | number | Date | string[] | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value(row: T): ExportCellValue;
+  type?: ExportCellType;
+  // Column width in characters, only used for XLSX
+  width?: number;
+}
+
+export interface ExportSheet<T> {
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NUMBER_FORMATS: Partial<Record<ExportCellType, string>> = {
+  number: '#,##0.##',
+  currency: '#,##0.00',
+  date: 'yyyy-mm-dd',
+  datetime: 'yyyy-mm-dd hh:mm',
+};
+
+const HEADER_FILL_COLOR = 'FF1F2937';
+const HEADER_FONT_COLOR = 'FFFFFFFF';
+
+// Excel rejects sheet names longer than 31 characters or containing []:*?/\
+const toSheetName = (name: string) =>
+  name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+
+const toDate = (value: ExportCellValue): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const toNumber = (value: ExportCellValue): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isFinite(number) ? number : null;
+  }
+  return null;
+};
+
+/**
+ * Converts a value to its typed spreadsheet representation
+ * Dates become Date objects and numbers stay numeric so Excel can sort and sum them
+ */
+const toCellValue = (value: ExportCellValue, type: ExportCellType = 'text'): string | number | Date | null => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.join('; ');
+
+  switch (type) {
+    case 'date':
+    case 'datetime':
+      return toDate(value) ?? String(value);
+    case 'number':
+    case 'currency':
+      return toNumber(value) ?? String(value);
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+};
+
+/**
+ * Formats a value for CSV output, where types are not preserved
+ */
+const toCSVValue = (value: ExportCellValue, type: ExportCellType = 'text'): string => {
+  const cellValue = toCellValue(value, type);
+  if (cellValue === null) return '';
+  if (cellValue instanceof Date) {
+    const iso = cellValue.toISOString();
+    return type === 'date' ? iso.split('T')[0] : iso.replace('T', ' ').slice(0, 16);
+  }
+  return String(cellValue);
+};
+
+/**
+ * Builds CSV text for a single sheet
+ * @param sheet - Sheet definition
+ * @returns CSV text with a header row
+ */
+const buildCSV = <T>(sheet: ExportSheet<T>): string =>
+  toCSV([
+    sheet.columns.map(column => column.header),
+    ...sheet.rows.map(row => sheet.columns.map(column => toCSVValue(column.value(row), column.type)))
+  ]);
+
+/**
+ * Builds an XLSX workbook with one worksheet per sheet definition
+ * Header rows are styled, frozen and filterable
+ * @param sheets - Sheet definitions
+ * @returns XLSX file contents
+ */
+const buildXLSX = async (sheets: ExportSheet<unknown>[]): Promise<ArrayBuffer> => {
+  // ExcelJS is large, so it is only loaded when a workbook is actually built
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const usedNames = new Set<string>();
+
+  sheets.forEach(sheet => {
+    let name = toSheetName(sheet.name);
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${toSheetName(sheet.name).slice(0, 28)} ${suffix}`;
+    }
+    usedNames.add(name);
+
+    const worksheet = workbook.addWorksheet(name, {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      width: column.width ?? Math.max(column.header.length + 2, 12),
+      style: NUMBER_FORMATS[column.type ?? 'text']
+        ? { numFmt: NUMBER_FORMATS[column.type ?? 'text'] }
+        : {}
+    }));
+
+    sheet.rows.forEach(row => {
+      worksheet.addRow(sheet.columns.map(column => toCellValue(column.value(row), column.type)));
+    });
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true, color: { argb: HEADER_FONT_COLOR } };
+    headerRow.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL_COLOR } };
+    headerRow.alignment = { vertical: 'middle' };
+
+    if (sheet.columns.length > 0) {
+      worksheet.autoFilter = {
+        from: { row: 1, column: 1 },
+        to: { row: 1, column: sheet.columns.length }
+      };
+    }
+  });
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+export const ExportService = {
+  buildCSV,
+  buildXLSX,
+
+  /**
+   * Exports sheets in the requested format and downloads the file
+   * CSV can only hold one table, so only the first sheet is written
+   * @param format - Output format
+   * @param baseName - File name without extension
+   * @param sheets - Sheet definitions, the first one being the main data
+   */
+  exportSheets: async (format: ExportFormat, baseName: string, sheets: ExportSheet<unknown>[]): Promise<void> => {
+    if (sheets.length === 0) return;
+
+    if (format === 'csv') {
+      // Prefix a BOM so Excel detects UTF-8
+      downloadBlob('\uFEFF' + buildCSV(sheets[0]), `${baseName}.csv`, 'text/csv;charset=utf-8;');
+      return;
+    }
+
+    const buffer = await buildXLSX(sheets);
+    downloadBlob(buffer, `${baseName}.xlsx`, XLSX_MIME_TYPE);
+  },
+
+  /**
+   * Builds a dated file name such as contacts_2025-08-04
+   * @param prefix - Leading part of the file name
+   * @returns File name without extension
+   */
+  getDatedFileName: (prefix: string): string =>
+    `${prefix}_${new Date().toISOString().split('T')[0]}`
+};
@@ -0,0 +1,47 @@
+/**
+ * Invoice archive service
+ * Sends invoices through the render-invoice-pdf edge function, which renders the issued copy and
+ * keeps it in the private invoice-archives bucket, and downloads archived copies again
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { InvoiceActivity, InvoiceDocument } from '@/types/invoice';
+
+const ARCHIVE_BUCKET = 'invoice-archives';
+
+export interface ArchiveInvoiceResult {
+  document: InvoiceDocument;
+  // The 'PDF Archived' activity linking to the document, if it could be logged
+  activity: InvoiceActivity | null;
+}
+
+export const InvoiceArchiveService = {
+  /**
+   * Sends an invoice: the server archives the issued copy and only then moves it to Sent
+   * @param invoiceId - Invoice that is not void
+   * @returns Archived document and the activity logging it
+   */
+  sendInvoice: async (invoiceId: string): Promise<ArchiveInvoiceResult> => {
+    const { data, error } = await supabase.functions.invoke<ArchiveInvoiceResult>('render-invoice-pdf', {
+      body: { invoice_id: invoiceId, send: true },
+    });
+
+    if (error) throw error;
+    if (!data) throw new Error('Empty response from render-invoice-pdf');
+    return data;
+  },
+
+  /**
+   * Downloads an archived copy exactly as it was stored
+   * @param storagePath - Path of the document in the archive bucket
+   * @returns PDF file
+   */
+  downloadDocument: async (storagePath: string): Promise<Blob> => {
+    const { data, error } = await supabase.storage
+      .from(ARCHIVE_BUCKET)
+      .download(storagePath);
+
+    if (error) throw error;
+    return data;
+  },
+};
@@ -0,0 +1,56 @@
+export type CampaignStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export type CampaignRecipientStatus = 'pending' | 'sent' | 'skipped';
+
+export interface WhatsAppCampaign {
+  id: string;
+  user_id: string;
+  name: string;
+  template_set_id?: string;
+  status: CampaignStatus;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignRecipient {
+  id: string;
+  campaign_id: string;
+  contact_id: string;
+  position: number;
+  template_variation_id?: string;
+  message: string;
+  status: CampaignRecipientStatus;
+  sent_at?: string;
+  activity_id?: string;
+  created_at: string;
+  // Joined for the queue view
+  contacts?: {
+    name: string;
+    phone_number: string;
+    team_id?: string | null;
+  };
+}
+
+// Campaign list entry with queue progress
+export interface CampaignSummary extends WhatsAppCampaign {
+  total: number;
+  sent: number;
+  skipped: number;
+}
+
+// A reviewed message for one recipient, before the campaign is saved
+export interface CampaignRecipientDraft {
+  contact_id: string;
+  contact_name: string;
+  phone_number: string;
+  template_variation_id: string;
+  variation_number: number;
+  message: string;
+}
+
+export interface CreateCampaignRequest {
+  name: string;
+  template_set_id: string;
+  recipients: CampaignRecipientDraft[];
+}
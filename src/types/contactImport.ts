@@ -0,0 +1,54 @@
+
+export type ContactImportField =
+  | 'name'
+  | 'phone_number'
+  | 'email'
+  | 'company'
+  | 'address'
+  | 'notes'
+  | 'labels'
+  | 'status'
+  | 'potential_product';
+
+/**
+ * Maps each contact field to the index of the source column, or null when unmapped
+ */
+export type ColumnMapping = Record<ContactImportField, number | null>;
+
+export interface ContactImportFieldDefinition {
+  field: ContactImportField;
+  label: string;
+  required: boolean;
+  // Lower-cased header names recognised automatically
+  aliases: string[];
+}
+
+export interface ImportedContactData {
+  name: string;
+  phone_number: string;
+  email: string | null;
+  company: string | null;
+  address: string | null;
+  notes: string | null;
+  labels: string[] | null;
+  status: string;
+  potential_product: string[] | null;
+}
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportPreviewRow {
+  // Line number of the row in the source file, header being row 1
+  rowNumber: number;
+  status: ImportRowStatus;
+  reasons: string[];
+  values: string[];
+  contact: ImportedContactData;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+}
@@ -1,12 +1,81 @@
+import { DiscountType } from './invoice';
+
+export interface PipelineStage {
+  id: string;
+  pipeline_id: string;
+  name: string;
+  position: number;
+  // Probability a deal gets when it moves into the stage
+  probability: number;
+  is_won: boolean;
+  is_lost: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Pipeline {
+  id: string;
+  team_id: string;
+  name: string;
+  position: number;
+  // New deals of the team go here unless another pipeline is chosen
+  is_default: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Ordered by position
+  pipeline_stages: PipelineStage[];
+}
+
+export type PipelineStageInput = Pick<PipelineStage, 'name' | 'probability' | 'is_won' | 'is_lost'>;
+
+export interface DealLossReason {
+  id: string;
+  team_id: string;
+  name: string;
+  position: number;
+  // Inactive reasons stay in reports but can't be picked anymore
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DealItem {
+  id: string;
+  deal_id: string;
+  product_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  // Line amount after the item discount
+  total_price: number;
+  position: number;
+  created_at: string;
+}
+
+export type DealItemInput = Pick<
+  DealItem,
+  'product_id' | 'description' | 'quantity' | 'unit_price' | 'discount_type' | 'discount_value'
+>;
+
+// How sure the rep is that an open deal closes in its expected period
+export type ForecastCategory = 'Pipeline' | 'Best Case' | 'Commit' | 'Omitted';
 
 export interface Deal {
   id: string;
   title: string;
   description?: string;
   contact_id: string;
-  stage: 'Lead' | 'Qualified' | 'Proposal' | 'Negotiation' | 'Closed Won' | 'Closed Lost';
+  // Name of the stage, kept in sync with stage_id by the database
+  stage: string;
+  pipeline_id?: string | null;
+  stage_id?: string | null;
   value: number;
+  currency: string;
   probability: number;
+  forecast_category?: ForecastCategory;
   expected_close_date?: string;
   actual_close_date?: string;
   created_by: string;
@@ -15,8 +84,14 @@ export interface Deal {
   created_at: string;
   updated_at: string;
   closed_at?: string;
+  // Set while the deal is in a lost stage; lost_reason keeps the reason's name
+  lost_reason_id?: string | null;
+  lost_reason?: string | null;
+  lost_notes?: string | null;
   notes?: string;
   source?: string;
+  // While a deal has lines, the database keeps its value at their total
+  deal_items?: DealItem[];
 }
 
 export interface DealActivity {
@@ -25,6 +100,8 @@ export interface DealActivity {
   activity_type: string;
   old_stage?: string;
   new_stage?: string;
+  old_stage_id?: string | null;
+  new_stage_id?: string | null;
   old_value?: number;
   new_value?: number;
   notes?: string;
@@ -41,3 +118,89 @@ export interface PipelineAnalytics {
   stage_distribution: Record<string, number>;
   average_deal_size: number;
 }
+
+export type ForecastPeriodType = 'month' | 'quarter';
+
+export type ForecastGrouping = 'assignee' | 'team';
+
+// Forecast figures of a period or of an assignee or team within one, in the reporting currency
+export interface ForecastTotals {
+  // Value of open deals expected to close, excluding omitted ones
+  pipeline: number;
+  // Open deal values multiplied by their probability
+  weighted: number;
+  // Won deals plus open deals called Commit
+  commit: number;
+  // Commit plus open deals called Best Case
+  best_case: number;
+  // Deals closed in a won stage during the period
+  closed_won: number;
+  open_deals: number;
+  won_deals: number;
+}
+
+export interface ForecastPeriod extends ForecastTotals {
+  key: string;
+  label: string;
+  start: Date;
+  groups: (ForecastTotals & { id: string })[];
+}
+
+// Stretch of time a deal spent in one stage; left_at is null for its current stage
+export interface StageStay {
+  deal_id: string;
+  stage_id: string;
+  entered_at: string;
+  left_at: string | null;
+}
+
+export interface StageFunnelStep {
+  stage: PipelineStage;
+  // Deals that got at least this far
+  reached: number;
+  // Share of the deals reaching the previous step that reached this one; null for the first step
+  conversion_rate: number | null;
+}
+
+export interface StageVelocity {
+  stage: PipelineStage;
+  // Average over stays that have ended; null when none has
+  average_days: number | null;
+  completed_stays: number;
+}
+
+export interface LossReasonSummary {
+  reason: string;
+  count: number;
+  value: number;
+}
+
+export interface WinLossReport {
+  won_count: number;
+  won_value: number;
+  lost_count: number;
+  lost_value: number;
+  // Won share of closed deals; null before any deal closed
+  win_rate: number | null;
+  // Average days from creation to closing; null without closed deals
+  average_won_cycle_days: number | null;
+  average_lost_cycle_days: number | null;
+  loss_reasons: LossReasonSummary[];
+}
+
+// Quantity and value of one product across the deals in a stage, in the reporting currency
+export interface ProductMixEntry {
+  // Lines without a product are grouped by their description
+  product_id: string | null;
+  name: string;
+  quantity: number;
+  value: number;
+  deals: number;
+}
+
+export interface StageProductMix {
+  stage: PipelineStage;
+  value: number;
+  // Largest value first
+  products: ProductMixEntry[];
+}
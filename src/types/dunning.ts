@@ -0,0 +1,59 @@
+import { Invoice } from './invoice';
+import { MessageTemplateChannel } from './messageTemplate';
+
+export interface DunningStep {
+  id: string;
+  sequence_id: string;
+  position: number;
+  // Negative values remind before the due date
+  days_after_due: number;
+  channel: MessageTemplateChannel;
+  template_set_id?: string | null;
+  created_at: string;
+}
+
+export interface DunningSequence {
+  id: string;
+  team_id: string;
+  created_by: string;
+  name: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  dunning_steps?: DunningStep[];
+}
+
+export interface DunningStepDraft {
+  id?: string;
+  days_after_due: number;
+  channel: MessageTemplateChannel;
+  template_set_id: string | null;
+}
+
+export interface InvoiceReminder {
+  id: string;
+  invoice_id: string;
+  step_id?: string | null;
+  channel: MessageTemplateChannel;
+  template_variation_id?: string | null;
+  sent_by: string;
+  sent_at: string;
+}
+
+// A step of the team's active sequence that has come due for an invoice
+export interface DueInvoiceReminder {
+  invoice: Invoice;
+  step: DunningStep;
+  stepNumber: number;
+  reminderDate: Date;
+  daysOverdue: number;
+}
+
+export type AgingBucketKey = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export interface AgingBucket {
+  key: AgingBucketKey;
+  label: string;
+  count: number;
+  total: number;
+}
@@ -0,0 +1,40 @@
+
+import { Contact } from './contact';
+
+export type DuplicateMatchReason =
+  | 'same_phone'
+  | 'similar_phone'
+  | 'same_email'
+  | 'same_name_company'
+  | 'similar_name';
+
+export interface DuplicateCandidate {
+  // Stable key built from both contact ids
+  key: string;
+  contactA: Contact;
+  contactB: Contact;
+  // 0-100, higher means more likely to be the same person
+  score: number;
+  reasons: DuplicateMatchReason[];
+}
+
+export type MergeableContactField =
+  | 'name'
+  | 'phone_number'
+  | 'email'
+  | 'company'
+  | 'address'
+  | 'notes'
+  | 'status'
+  | 'labels'
+  | 'potential_product';
+
+export type MergeFieldValues = Partial<Record<MergeableContactField, string | string[] | null>>;
+
+export interface ContactDuplicateDismissal {
+  id: string;
+  contact_a_id: string;
+  contact_b_id: string;
+  dismissed_by: string;
+  created_at: string;
+}
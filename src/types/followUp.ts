@@ -0,0 +1,22 @@
+export interface FollowUpCadenceRule {
+  id: string;
+  team_id: string;
+  name: string;
+  label?: string | null; // null = team-wide default rule
+  stale_days: number[]; // ascending thresholds, e.g. [3, 7, 30]
+  excluded_statuses: string[];
+  priority: number;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCadenceRuleRequest {
+  team_id: string;
+  name: string;
+  label?: string | null;
+  stale_days: number[];
+  excluded_statuses: string[];
+  priority?: number;
+}
@@ -1,4 +1,14 @@
 
+export type DiscountType = 'percent' | 'fixed';
+
+export interface InvoiceTax {
+  name: string;
+  rate: number;
+  // Withholding taxes are deducted from the total instead of added to it
+  withholding: boolean;
+  amount: number;
+}
+
 export interface Invoice {
   id: string;
   invoice_number: string;
@@ -9,9 +19,24 @@ export interface Invoice {
   subtotal: number;
   tax_rate?: number;
   tax_amount?: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  discount_amount?: number;
+  prices_include_tax?: boolean;
+  taxes?: InvoiceTax[];
   total: number;
+  currency: string;
+  // Reporting currency per unit of the invoice currency, captured when the invoice was created
+  exchange_rate: number;
+  // Reporting currency of the team when the exchange rate was captured
+  reporting_currency: string;
+  // Sum of recorded payments, kept in sync by the database
+  amount_paid?: number;
+  // Sum of issued credit notes, kept in sync by the database
+  amount_credited?: number;
   due_date?: string;
   notes?: string;
+  recurring_profile_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -23,6 +48,9 @@ export interface InvoiceItem {
   description: string;
   quantity: number;
   unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  // Line amount after the item discount
   total_price: number;
   created_at: string;
 }
@@ -33,14 +61,193 @@ export interface InvoiceActivity {
   user_id: string;
   activity_type: string;
   details?: string;
+  // Archived PDF logged by the activity
+  document_id?: string | null;
+  created_at: string;
+}
+
+export interface InvoiceDocument {
+  id: string;
+  invoice_id: string;
+  team_id: string;
+  // Copies of one invoice are numbered from 1 in the order they were issued
+  version: number;
+  invoice_number: string;
+  invoice_status: string;
+  storage_path: string;
+  // SHA-256 of the stored file
+  checksum: string;
+  size_bytes: number;
+  created_by: string;
+  created_at: string;
+}
+
+export interface InvoiceShareLink {
+  id: string;
+  invoice_id: string;
+  team_id: string;
+  token: string;
+  expires_at: string;
+  revoked_at?: string | null;
+  // First open by someone outside the team, which marks a Sent invoice as Viewed
+  first_viewed_at?: string | null;
+  last_viewed_at?: string | null;
+  view_count: number;
+  created_by: string;
   created_at: string;
 }
 
-export interface CreateInvoiceRequest {
+export type InvoiceLineInput = Pick<
+  InvoiceItem,
+  'product_id' | 'description' | 'quantity' | 'unit_price' | 'discount_type' | 'discount_value'
+>;
+
+export interface InvoicePricing {
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  prices_include_tax?: boolean;
+  taxes?: Omit<InvoiceTax, 'amount'>[];
+}
+
+export interface CreateInvoiceRequest extends InvoicePricing {
   contact_id: string;
   team_id: string;
-  items: Omit<InvoiceItem, 'id' | 'invoice_id' | 'created_at'>[];
-  tax_rate?: number;
+  // Defaults to the team's reporting currency and the latest rate in the rate table
+  currency?: string;
+  exchange_rate?: number;
+  items: InvoiceLineInput[];
   due_date?: string;
   notes?: string;
 }
+
+export type RecurringInterval = 'week' | 'month' | 'quarter' | 'year';
+
+export type RecurringInvoiceStatus = 'active' | 'paused' | 'ended';
+
+export interface RecurringInvoiceItem {
+  id: string;
+  profile_id: string;
+  product_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  position: number;
+  created_at: string;
+}
+
+export interface RecurringInvoiceProfile {
+  id: string;
+  team_id: string;
+  contact_id: string;
+  created_by: string;
+  name: string;
+  interval_unit: RecurringInterval;
+  interval_count: number;
+  start_date: string;
+  end_date?: string | null;
+  // Periods generated or skipped so far
+  occurrence: number;
+  next_run_date: string;
+  due_days: number;
+  // Combined rate of the taxes, withholding taxes counted negative
+  tax_rate: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  prices_include_tax?: boolean;
+  // Rates only; the amounts are worked out for every generated invoice
+  taxes?: Omit<InvoiceTax, 'amount'>[];
+  currency: string;
+  notes?: string | null;
+  status: RecurringInvoiceStatus;
+  last_run_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  recurring_invoice_items?: RecurringInvoiceItem[];
+  contacts?: { name: string } | null;
+}
+
+export interface CreateRecurringInvoiceRequest extends InvoicePricing {
+  contact_id: string;
+  team_id: string;
+  name: string;
+  interval_unit: RecurringInterval;
+  interval_count: number;
+  start_date: string;
+  end_date?: string;
+  due_days: number;
+  currency?: string;
+  notes?: string;
+  items: InvoiceLineInput[];
+}
+
+export type PaymentMethod = 'bank_transfer' | 'cash' | 'card' | 'e_wallet' | 'cheque' | 'other';
+
+export interface InvoicePayment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  paid_at: string;
+  method: PaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  recorded_by: string;
+  created_at: string;
+}
+
+export interface RecordPaymentRequest {
+  amount: number;
+  paid_at: string;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export type CreditNoteStatus = 'Issued' | 'Void';
+
+export interface CreditNoteItem {
+  id: string;
+  credit_note_id: string;
+  invoice_item_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  created_at: string;
+}
+
+export interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  invoice_id: string;
+  team_id: string;
+  contact_id: string;
+  created_by: string;
+  status: CreditNoteStatus;
+  reason?: string | null;
+  subtotal: number;
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+  // Stored as a positive amount; reports show it as negative revenue
+  total: number;
+  refund_amount: number;
+  refunded_at?: string | null;
+  refund_method?: PaymentMethod | null;
+  refund_reference?: string | null;
+  created_at: string;
+  updated_at: string;
+  credit_note_items?: CreditNoteItem[];
+}
+
+export interface CreateCreditNoteRequest {
+  reason?: string;
+  items: Pick<CreditNoteItem, 'invoice_item_id' | 'quantity'>[];
+}
+
+export interface RecordRefundRequest {
+  amount: number;
+  refunded_at: string;
+  method: PaymentMethod;
+  reference?: string;
+}
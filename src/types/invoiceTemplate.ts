@@ -0,0 +1,22 @@
+export type InvoiceTemplateLayout = 'classic' | 'modern' | 'minimal';
+
+export type InvoiceTemplateLanguage = 'en' | 'id';
+
+// The editable part of a team's invoice PDF template
+export interface InvoiceTemplateSettings {
+  layout: InvoiceTemplateLayout;
+  primary_color: string;
+  accent_color: string;
+  header_text?: string | null;
+  footer_text?: string | null;
+  payment_instructions?: string | null;
+  signature_url?: string | null;
+  language: InvoiceTemplateLanguage;
+}
+
+export interface InvoiceTemplate extends InvoiceTemplateSettings {
+  team_id: string;
+  updated_by: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,85 @@
+import { Contact } from './contact';
+import { Deal } from './deal';
+import { Invoice } from './invoice';
+import { Team } from './team';
+
+export type TemplateVariableGroup = 'contact' | 'sender' | 'invoice' | 'deal' | 'date';
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  group: TemplateVariableGroup;
+  example: string;
+}
+
+// Parsed template: plain text, {{variable|fallback}} and {{#if variable}}...{{else}}...{{/if}} blocks
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; fallback: string | null }
+  | { type: 'condition'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateIssue {
+  message: string;
+  variable?: string;
+}
+
+export interface TemplateContext {
+  values: Record<string, string>;
+  // Reference time for date helpers such as {{today+3}}
+  now: Date;
+}
+
+// Records a template can draw from when it is sent to one contact
+export interface TemplateContextSource {
+  contact: Pick<Contact, 'name' | 'phone_number'> & Partial<Contact>;
+  sender: { name: string; email: string };
+  team?: Pick<Team, 'name'> & Partial<Team> | null;
+  invoice?: Pick<Invoice, 'invoice_number' | 'total' | 'status'> & Partial<Invoice> | null;
+  // Public URL of the invoice's share link
+  invoiceLink?: string | null;
+  deal?: Pick<Deal, 'title' | 'stage'> & Partial<Deal> | null;
+  // Formats an amount in the currency of its record, when the record has one
+  formatCurrency?: (amount: number, currency?: string) => string;
+  now?: Date;
+}
+
+export type MessageTemplateChannel = 'whatsapp' | 'email';
+
+export interface MessageTemplateVariation {
+  id: string;
+  template_set_id: string;
+  // Email subject template; null for WhatsApp sets
+  subject: string | null;
+  content: string;
+  position: number;
+  // Retired variations keep their stats but are not picked when sending
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageTemplateSet {
+  id: string;
+  title: string;
+  associated_label_id: string;
+  channel: MessageTemplateChannel;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  message_template_variations: MessageTemplateVariation[];
+}
+
+// Variation being edited; id is missing until it is saved
+export interface MessageTemplateVariationDraft {
+  id?: string;
+  subject: string;
+  content: string;
+  is_active: boolean;
+}
+
+export interface TemplateVariationStats {
+  template_variation_id: string;
+  sends: number;
+  replies: number;
+  conversions: number;
+}
@@ -0,0 +1,23 @@
+
+export type PhoneCountryCode = 'ID' | 'SG' | 'MY' | 'TH';
+
+export interface PhoneCountry {
+  code: PhoneCountryCode;
+  name: string;
+  callingCode: string;
+  // Leading digit dialled before a national number, dropped in international format
+  trunkPrefix: string | null;
+  // National significant number, i.e. without calling code or trunk prefix
+  nationalPattern: RegExp;
+  // Group sizes for display; the last group takes the remaining digits
+  displayGroups: number[];
+  example: string;
+}
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  // null when the calling code is not one of the supported countries
+  country: PhoneCountryCode | null;
+  nationalNumber: string;
+  isValid: boolean;
+}
@@ -4,6 +4,7 @@ export interface Product {
   name: string;
   description?: string;
   price?: number | null;
+  currency: string;
   stock?: number;
   status: string;
   category?: string;
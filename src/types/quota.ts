@@ -0,0 +1,61 @@
+
+import { ForecastPeriodType } from './deal';
+
+export type QuotaPeriodType = ForecastPeriodType;
+
+// Won deal values, or paid invoice totals net of credit notes
+export type QuotaRevenueBasis = 'deals' | 'invoices';
+
+export interface SalesQuota {
+  id: string;
+  team_id: string;
+  // Member the quota is for; null for the team quota
+  user_id?: string | null;
+  period_type: QuotaPeriodType;
+  // First day of the month or quarter
+  period_start: string;
+  revenue_target?: number | null;
+  currency: string;
+  deal_count_target?: number | null;
+  revenue_basis: QuotaRevenueBasis;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SalesQuotaInput = Pick<
+  SalesQuota,
+  'team_id' | 'user_id' | 'period_type' | 'period_start' | 'revenue_target' | 'currency' | 'deal_count_target' | 'revenue_basis'
+>;
+
+// Ahead or on track when attainment keeps up with the time elapsed in the period
+export type QuotaPace = 'ahead' | 'on_track' | 'behind';
+
+// Progress towards a quota, with revenue in the reporting currency
+export interface QuotaAttainment {
+  quota: SalesQuota;
+  // Null when the target's currency can't be converted
+  revenue_target: number | null;
+  revenue: number;
+  deal_count: number;
+  // Shares of the targets reached, from 0; null without a target
+  revenue_attainment: number | null;
+  deal_count_attainment: number | null;
+  // Share of the period that has passed, from 0 to 1
+  elapsed: number;
+  pace: QuotaPace | null;
+}
+
+// Paid invoice counted towards revenue quotas measured on invoices
+export interface PaidInvoiceRevenue {
+  id: string;
+  team_id: string;
+  created_by: string;
+  currency: string;
+  exchange_rate: number;
+  reporting_currency: string;
+  total: number;
+  amount_credited?: number;
+  // Date of the payment that settled the invoice
+  paid_on: string;
+}
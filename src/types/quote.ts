@@ -0,0 +1,66 @@
+
+import { Deal } from './deal';
+import { DiscountType, InvoiceLineInput, InvoicePricing, InvoiceTax } from './invoice';
+
+export type QuoteStatus = 'Draft' | 'Sent' | 'Accepted' | 'Declined' | 'Expired';
+
+// Stages an accepted quote can move its deal to; 'Closed Won' is the won stage of the deal's pipeline
+export type QuoteAcceptanceStage = 'Negotiation' | 'Closed Won';
+
+export interface QuoteItem {
+  id: string;
+  quote_id: string;
+  product_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  // Line amount after the item discount
+  total_price: number;
+  position: number;
+  created_at: string;
+}
+
+export interface Quote {
+  id: string;
+  quote_number: string;
+  team_id: string;
+  contact_id: string;
+  deal_id?: string | null;
+  created_by: string;
+  title?: string | null;
+  status: QuoteStatus;
+  valid_until: string;
+  subtotal: number;
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  discount_amount?: number;
+  prices_include_tax?: boolean;
+  taxes?: InvoiceTax[];
+  total: number;
+  currency: string;
+  notes?: string | null;
+  sent_at?: string | null;
+  responded_at?: string | null;
+  // Draft invoice created when the quote was accepted
+  invoice_id?: string | null;
+  created_at: string;
+  updated_at: string;
+  quote_items?: QuoteItem[];
+  contacts?: { name: string } | null;
+  deals?: { title: string; stage: Deal['stage'] } | null;
+}
+
+export interface CreateQuoteRequest extends InvoicePricing {
+  contact_id: string;
+  team_id: string;
+  deal_id?: string;
+  title?: string;
+  valid_until: string;
+  currency?: string;
+  notes?: string;
+  items: InvoiceLineInput[];
+}
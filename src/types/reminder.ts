@@ -0,0 +1,27 @@
+export type ReminderStatus = 'open' | 'completed' | 'cancelled';
+
+// Derived from status and the effective due date
+export type ReminderState = 'upcoming' | 'due_today' | 'overdue' | 'completed' | 'cancelled';
+
+export interface ContactReminder {
+  id: string;
+  contact_id: string;
+  title: string;
+  notes?: string;
+  due_at: string;
+  snoozed_until?: string;
+  assigned_to: string;
+  status: ReminderStatus;
+  completed_at?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateReminderRequest {
+  contact_id: string;
+  title: string;
+  notes?: string;
+  due_at: string;
+  assigned_to?: string;
+}
@@ -22,6 +22,24 @@ export interface Team {
   bank_account_holder?: string;
   swift_code?: string;
   logo_url?: string;
+  // Overrides the user's default for phone numbers entered without a calling code
+  default_phone_country?: string;
+  // Currency reports convert amounts to
+  reporting_currency?: string;
+}
+
+export type ExchangeRateSource = 'manual' | 'import';
+
+export interface ExchangeRate {
+  id: string;
+  team_id: string;
+  currency: string;
+  // Units of the team's reporting currency per unit of currency
+  rate: number;
+  effective_date: string;
+  source: ExchangeRateSource;
+  created_by: string;
+  created_at: string;
 }
 
 export interface TeamMember {
@@ -0,0 +1,71 @@
+/**
+ * Column definitions for exporting contacts through the export service
+ */
+
+import { ExportColumn, ExportSheet } from '@/services/exportService';
+
+interface ExportableContact {
+  name: string;
+  phone_number: string;
+  email?: string;
+  company?: string;
+  address?: string;
+  notes?: string;
+  labels?: string[];
+  status: string;
+  potential_product?: string[];
+  created_at: string;
+}
+
+interface LabelSummary {
+  label: string;
+  contacts: number;
+}
+
+export const CONTACT_EXPORT_COLUMNS: ExportColumn<ExportableContact>[] = [
+  { header: 'Name', value: contact => contact.name, width: 24 },
+  { header: 'Phone Number', value: contact => contact.phone_number, width: 18 },
+  { header: 'Email', value: contact => contact.email, width: 28 },
+  { header: 'Company', value: contact => contact.company, width: 22 },
+  { header: 'Address', value: contact => contact.address, width: 30 },
+  { header: 'Notes', value: contact => contact.notes, width: 40 },
+  { header: 'Labels', value: contact => contact.labels, width: 20 },
+  { header: 'Status', value: contact => contact.status, width: 16 },
+  { header: 'Potential Product', value: contact => contact.potential_product, width: 24 },
+  { header: 'Created At', value: contact => contact.created_at, type: 'datetime', width: 18 }
+];
+
+/**
+ * Builds the export sheets for a contact list
+ * The first sheet holds the contacts in import template order, so exports can be re-imported;
+ * the second summarizes contacts per label
+ * @param contacts - Contacts to export
+ * @returns Sheet definitions for ExportService.exportSheets
+ */
+export const getContactExportSheets = (contacts: ExportableContact[]): ExportSheet<unknown>[] => {
+  const labelCounts = new Map<string, number>();
+  contacts.forEach(contact => {
+    contact.labels?.forEach(label => labelCounts.set(label, (labelCounts.get(label) || 0) + 1));
+  });
+
+  const labelSummary: LabelSummary[] = Array.from(labelCounts.entries())
+    .map(([label, count]) => ({ label, contacts: count }))
+    .sort((a, b) => b.contacts - a.contacts);
+
+  const contactsSheet: ExportSheet<ExportableContact> = {
+    name: 'Contacts',
+    columns: CONTACT_EXPORT_COLUMNS,
+    rows: contacts
+  };
+
+  const labelsSheet: ExportSheet<LabelSummary> = {
+    name: 'Labels',
+    columns: [
+      { header: 'Label', value: row => row.label, width: 24 },
+      { header: 'Contacts', value: row => row.contacts, type: 'number' }
+    ],
+    rows: labelSummary
+  };
+
+  return [contactsSheet, labelsSheet];
+};
@@ -0,0 +1,214 @@
+/**
+ * Utility functions for importing contacts from tabular files
+ * Covers column mapping, row validation and the dry-run preview shown before anything is written
+ */
+
+import {
+  ColumnMapping,
+  ContactImportField,
+  ContactImportFieldDefinition,
+  ImportedContactData,
+  ImportPreview,
+  ImportPreviewRow
+} from '@/types/contactImport';
+import { PhoneCountryCode } from '@/types/phone';
+import { DEFAULT_PHONE_COUNTRY, normalizePhoneNumber, getPhoneNumberError } from '@/utils/phoneUtils';
+
+export const CONTACT_IMPORT_FIELDS: ContactImportFieldDefinition[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'full name', 'contact name', 'nama'] },
+  { field: 'phone_number', label: 'Phone Number', required: true, aliases: ['phone number', 'phone', 'mobile', 'whatsapp', 'wa', 'telephone', 'no hp', 'nomor hp'] },
+  { field: 'email', label: 'Email', required: false, aliases: ['email', 'e-mail', 'email address'] },
+  { field: 'company', label: 'Company', required: false, aliases: ['company', 'organization', 'organisation', 'perusahaan'] },
+  { field: 'address', label: 'Address', required: false, aliases: ['address', 'alamat'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments', 'catatan'] },
+  { field: 'labels', label: 'Labels', required: false, aliases: ['labels', 'label', 'tags'] },
+  { field: 'status', label: 'Status', required: false, aliases: ['status'] },
+  { field: 'potential_product', label: 'Potential Product', required: false, aliases: ['potential product', 'potential products', 'products', 'product'] }
+];
+
+export const CONTACT_STATUSES = ['New', 'Approached', 'Follow-up Required', 'Paid', 'Lost'];
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const TEMPLATE_SAMPLE_ROW = [
+  'John Doe',
+  '+1234567890',
+  'john@example.com',
+  'ABC Corp',
+  '123 Main St',
+  'Sample notes',
+  'Client; VIP',
+  'New',
+  'Product A; Product B'
+];
+
+/**
+ * Builds the rows of the downloadable import template
+ * @returns Header row followed by a sample row
+ */
+export const getContactTemplateRows = (): string[][] => [
+  CONTACT_IMPORT_FIELDS.map(definition => definition.label),
+  TEMPLATE_SAMPLE_ROW
+];
+
+/**
+ * Creates a mapping with every field unmapped
+ * @returns Empty column mapping
+ */
+export const createEmptyMapping = (): ColumnMapping =>
+  CONTACT_IMPORT_FIELDS.reduce((mapping, definition) => {
+    mapping[definition.field] = null;
+    return mapping;
+  }, {} as ColumnMapping);
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+/**
+ * Guesses the column mapping from the file headers using known aliases
+ * @param headers - Header row of the imported file
+ * @returns Column mapping with every recognised field filled in
+ */
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping = createEmptyMapping();
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  CONTACT_IMPORT_FIELDS.forEach(definition => {
+    const index = normalizedHeaders.findIndex((header, i) =>
+      !used.has(i) && definition.aliases.includes(header)
+    );
+    if (index !== -1) {
+      mapping[definition.field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Lists required fields that have no source column
+ * @param mapping - Current column mapping
+ * @returns Labels of the missing required fields
+ */
+export const getMissingRequiredFields = (mapping: ColumnMapping): string[] =>
+  CONTACT_IMPORT_FIELDS
+    .filter(definition => definition.required && mapping[definition.field] === null)
+    .map(definition => definition.label);
+
+const splitList = (value: string): string[] | null => {
+  const items = value.split(';').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+/**
+ * Converts a raw row into contact data using the column mapping
+ * @param values - Cell values of the row
+ * @param mapping - Column mapping
+ * @param defaultCountry - Country for phone numbers without a calling code
+ * @returns Contact data with the phone number normalized to E.164
+ */
+export const mapRowToContact = (
+  values: string[],
+  mapping: ColumnMapping,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): ImportedContactData => {
+  const get = (field: ContactImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (values[index] ?? '').trim();
+  };
+
+  const status = get('status');
+  const knownStatus = CONTACT_STATUSES.find(option => option.toLowerCase() === status.toLowerCase());
+
+  return {
+    name: get('name'),
+    phone_number: normalizePhoneNumber(get('phone_number'), defaultCountry),
+    email: get('email') || null,
+    company: get('company') || null,
+    address: get('address') || null,
+    notes: get('notes') || null,
+    labels: splitList(get('labels')),
+    status: knownStatus || status || 'New',
+    potential_product: splitList(get('potential_product'))
+  };
+};
+
+/**
+ * Validates every row and flags duplicates without writing anything
+ * @param headers - Header row of the imported file
+ * @param rows - Data rows of the imported file
+ * @param mapping - Column mapping
+ * @param existingPhones - Normalized phone numbers that already exist for the user
+ * @param defaultCountry - Country for phone numbers without a calling code
+ * @returns Preview with a status and the reasons for every row
+ */
+export const buildImportPreview = (
+  headers: string[],
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingPhones: Set<string>,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): ImportPreview => {
+  const seenPhones = new Map<string, number>();
+
+  const previewRows: ImportPreviewRow[] = rows.map((values, index) => {
+    const rowNumber = index + 2;
+    const contact = mapRowToContact(values, mapping, defaultCountry);
+    const reasons: string[] = [];
+
+    if (values.length !== headers.length) {
+      reasons.push(`Expected ${headers.length} columns, found ${values.length}`);
+    }
+    if (!contact.name) {
+      reasons.push('Name is required');
+    }
+    const phoneError = getPhoneNumberError(contact.phone_number, defaultCountry);
+    if (phoneError) {
+      reasons.push(phoneError);
+    }
+    if (contact.email && !EMAIL_REGEX.test(contact.email)) {
+      reasons.push('Invalid email format');
+    }
+    if (!CONTACT_STATUSES.includes(contact.status)) {
+      reasons.push(`Unknown status "${contact.status}", expected one of: ${CONTACT_STATUSES.join(', ')}`);
+    }
+
+    if (reasons.length > 0) {
+      return { rowNumber, status: 'invalid', reasons, values, contact };
+    }
+
+    if (existingPhones.has(contact.phone_number)) {
+      return { rowNumber, status: 'duplicate', reasons: ['Phone number already exists in your contacts'], values, contact };
+    }
+
+    const firstRow = seenPhones.get(contact.phone_number);
+    if (firstRow !== undefined) {
+      return { rowNumber, status: 'duplicate', reasons: [`Same phone number as row ${firstRow}`], values, contact };
+    }
+
+    seenPhones.set(contact.phone_number, rowNumber);
+    return { rowNumber, status: 'valid', reasons, values, contact };
+  });
+
+  return {
+    rows: previewRows,
+    validCount: previewRows.filter(row => row.status === 'valid').length,
+    invalidCount: previewRows.filter(row => row.status === 'invalid').length,
+    duplicateCount: previewRows.filter(row => row.status === 'duplicate').length
+  };
+};
+
+/**
+ * Builds the error report for rows that will not be imported
+ * @param headers - Header row of the imported file
+ * @param preview - Dry-run preview
+ * @returns Original columns plus row number, status and reason, ready for CSV export
+ */
+export const buildImportErrorReport = (headers: string[], preview: ImportPreview): string[][] => [
+  ['Row', 'Status', 'Reason', ...headers],
+  ...preview.rows
+    .filter(row => row.status !== 'valid')
+    .map(row => [String(row.rowNumber), row.status, row.reasons.join('; '), ...row.values])
+];
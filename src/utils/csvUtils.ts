@@ -0,0 +1,155 @@
+/**
+ * Utility functions for reading and writing CSV files (RFC 4180)
+ */
+
+import { downloadBlob } from '@/utils/downloadUtils';
+
+/**
+ * Result of parsing a CSV document
+ */
+export interface CSVParseResult {
+  headers: string[];
+  rows: string[][];
+  errors: string[];
+}
+
+/**
+ * Splits CSV text into records following RFC 4180:
+ * quoted fields may contain delimiters, line breaks and escaped ("") quotes,
+ * and both CRLF and LF line endings are accepted
+ * @param text - Raw CSV text
+ * @param delimiter - Field delimiter, defaults to a comma
+ * @returns Parsed records and any structural errors
+ */
+export const parseCSVRecords = (text: string, delimiter: string = ','): { records: string[][]; errors: string[] } => {
+  const records: string[][] = [];
+  const errors: string[] = [];
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteStartLine = 1;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+
+  const endRecord = () => {
+    endField();
+    // Blank lines carry no data and are skipped
+    if (!(record.length === 1 && record[0] === '')) {
+      records.push(record);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.trim() === '') {
+        field = '';
+        inQuotes = true;
+        quoteStartLine = line;
+      } else {
+        // Stray quote inside an unquoted field is kept literally
+        field += char;
+      }
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push(`Line ${quoteStartLine}: Unterminated quoted field`);
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return { records, errors };
+};
+
+/**
+ * Parses CSV text into a header row and data rows
+ * @param text - Raw CSV text
+ * @param delimiter - Field delimiter, defaults to a comma
+ * @returns Trimmed headers, data rows and structural errors
+ */
+export const parseCSV = (text: string, delimiter: string = ','): CSVParseResult => {
+  const { records, errors } = parseCSVRecords(text, delimiter);
+
+  if (records.length === 0) {
+    return { headers: [], rows: [], errors: [...errors, 'File is empty'] };
+  }
+
+  const [headerRecord, ...rows] = records;
+  return {
+    headers: headerRecord.map(header => header.trim()),
+    rows,
+    errors
+  };
+};
+
+/**
+ * Escapes a single value for inclusion in a CSV file
+ * @param value - Value to escape
+ * @returns Field quoted when it contains delimiters, quotes or line breaks
+ */
+export const escapeCSVField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text) || text.trim() !== text) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Serializes rows into CSV text using CRLF line endings
+ * @param rows - Rows of values, the first row usually being the header
+ * @returns CSV text
+ */
+export const toCSV = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCSVField).join(',')).join('\r\n');
+
+/**
+ * Triggers a browser download of CSV rows
+ * @param rows - Rows of values including the header row
+ * @param filename - Name of the downloaded file
+ */
+export const downloadCSV = (rows: unknown[][], filename: string): void => {
+  // Prefix a BOM so Excel detects UTF-8
+  downloadBlob('\uFEFF' + toCSV(rows), filename, 'text/csv;charset=utf-8;');
+};
@@ -0,0 +1,69 @@
+/**
+ * Utility functions for currency display
+ * Shared by useCurrency and code that formats amounts outside React components
+ */
+
+export const CURRENCY_SYMBOLS = {
+  USD: '$',
+  IDR: 'Rp',
+  EUR: '€',
+  GBP: '£',
+  JPY: '¥',
+  SGD: 'S$',
+  MYR: 'RM',
+  THB: '฿',
+} as const;
+
+export const CURRENCIES = [
+  { code: 'USD', name: 'US Dollar', symbol: '$' },
+  { code: 'IDR', name: 'Indonesian Rupiah', symbol: 'Rp' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'British Pound', symbol: '£' },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
+  { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$' },
+  { code: 'MYR', name: 'Malaysian Ringgit', symbol: 'RM' },
+  { code: 'THB', name: 'Thai Baht', symbol: '฿' },
+];
+
+/**
+ * Checks whether a currency code is one the application supports
+ * @param currency - Currency code, in any case
+ * @returns True for a code listed in CURRENCIES
+ */
+export const isSupportedCurrency = (currency: string): boolean =>
+  CURRENCIES.some(c => c.code === currency.trim().toUpperCase());
+
+/**
+ * Looks up the display symbol of a currency
+ * @param currency - ISO currency code
+ * @returns Currency symbol, "$" for unknown codes
+ */
+export const getCurrencySymbol = (currency: string): string =>
+  CURRENCY_SYMBOLS[currency as keyof typeof CURRENCY_SYMBOLS] || '$';
+
+/**
+ * Formats an amount with the currency symbol
+ * @param amount - Amount to format
+ * @param currency - ISO currency code
+ * @returns Formatted amount, e.g. "Rp1.500.000" or "$1,500.00"
+ */
+export const formatCurrencyAmount = (amount: number | null, currency: string): string => {
+  const symbol = getCurrencySymbol(currency);
+  if (amount === null || amount === undefined) return `${symbol}0`;
+
+  // Format based on currency type
+  if (currency === 'IDR') {
+    return `${symbol}${amount.toLocaleString('id-ID')}`;
+  }
+
+  return `${symbol}${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+/**
+ * Converts an amount into the reporting currency
+ * @param amount - Amount in its own currency
+ * @param rate - Reporting currency per unit of the amount's currency
+ * @returns Converted amount, rounded to cents
+ */
+export const convertAmount = (amount: number, rate: number): number =>
+  Math.round(amount * rate * 100) / 100;
@@ -0,0 +1,82 @@
+/**
+ * Utility functions for deal line items and the product mix of a pipeline
+ * Lines are priced like invoice lines, so the invoice totals decide the line amounts
+ */
+
+import { Deal, DealItemInput, PipelineStage, ProductMixEntry, StageProductMix } from '@/types/deal';
+import { getLineTotal } from './invoiceTotals';
+import { roundToCents } from './invoiceBalance';
+
+/**
+ * Calculates what a deal with these lines is worth
+ * @param items - Deal lines
+ * @returns Sum of the line totals after their discounts, rounded to cents
+ */
+export const getDealItemsTotal = (items: Partial<DealItemInput>[]): number =>
+  roundToCents(items.reduce((sum, item) => sum + getLineTotal(item), 0));
+
+/**
+ * Validates the lines of a deal before they are saved
+ * @param items - Deal lines
+ * @returns Problems found; empty when the lines can be saved
+ */
+export const validateDealItems = (items: DealItemInput[]): string[] => {
+  const issues: string[] = [];
+
+  if (items.some(item => !item.description.trim())) {
+    issues.push('Every line needs a description');
+  }
+  if (items.some(item => item.discount_type === 'percent' && (item.discount_value || 0) > 100)) {
+    issues.push('A percent discount cannot exceed 100');
+  }
+
+  return issues;
+};
+
+/**
+ * Breaks down the line items of the deals in each stage by product
+ * Deals without lines don't contribute
+ * @param stages - Stages of the pipeline, in order
+ * @param deals - Deals of the pipeline, with their lines
+ * @param convert - Converts an amount in the deal's currency to the reporting currency
+ * @returns Product mix per stage, in stage order
+ */
+export const getStageProductMix = (
+  stages: PipelineStage[],
+  deals: Pick<Deal, 'id' | 'stage_id' | 'currency' | 'deal_items'>[],
+  convert: (amount: number, currency: string) => number
+): StageProductMix[] =>
+  stages.map(stage => {
+    const entries = new Map<string, ProductMixEntry & { dealIds: Set<string> }>();
+
+    deals
+      .filter(deal => deal.stage_id === stage.id)
+      .forEach(deal => {
+        (deal.deal_items || []).forEach(item => {
+          const key = item.product_id || `custom:${item.description.trim().toLowerCase()}`;
+          const entry = entries.get(key) || {
+            product_id: item.product_id || null,
+            name: item.description,
+            quantity: 0,
+            value: 0,
+            deals: 0,
+            dealIds: new Set(),
+          };
+
+          entry.quantity += item.quantity;
+          entry.value += convert(item.total_price, deal.currency);
+          entry.dealIds.add(deal.id);
+          entries.set(key, entry);
+        });
+      });
+
+    const products = Array.from(entries.values())
+      .map(({ dealIds, ...entry }) => ({ ...entry, value: roundToCents(entry.value), deals: dealIds.size }))
+      .sort((a, b) => b.value - a.value);
+
+    return {
+      stage,
+      value: roundToCents(products.reduce((sum, entry) => sum + entry.value, 0)),
+      products,
+    };
+  });
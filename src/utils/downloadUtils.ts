@@ -0,0 +1,22 @@
+/**
+ * Utility functions for browser downloads
+ */
+
+/**
+ * Triggers a browser download for generated content
+ * @param content - File contents
+ * @param filename - Name of the downloaded file
+ * @param mimeType - MIME type of the file
+ */
+export const downloadBlob = (content: BlobPart, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
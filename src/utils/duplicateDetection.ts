@@ -0,0 +1,199 @@
+/**
+ * Utility functions for finding likely duplicate contacts
+ * Candidate pairs are generated from shared keys (phone, email, name + company)
+ * instead of comparing every pair, then scored on all matching signals
+ */
+
+import { Contact } from '@/types/contact';
+import { DuplicateCandidate, DuplicateMatchReason } from '@/types/duplicate';
+import { normalizePhoneNumber } from '@/utils/phoneUtils';
+
+export const DUPLICATE_REASON_SCORES: Record<DuplicateMatchReason, number> = {
+  same_phone: 60,
+  same_email: 50,
+  similar_phone: 40,
+  same_name_company: 40,
+  similar_name: 25,
+};
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  same_phone: 'Same phone number',
+  similar_phone: 'Similar phone number',
+  same_email: 'Same email',
+  same_name_company: 'Same name and company',
+  similar_name: 'Similar name',
+};
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 40;
+
+// Local numbers are compared on their last digits to catch country code variants
+const PHONE_SUFFIX_LENGTH = 9;
+const SIMILAR_NAME_RATIO = 0.85;
+// Keys shared by this many contacts are placeholders (e.g. "-"), not real matches
+const MAX_BLOCK_SIZE = 50;
+
+const normalizeText = (value?: string | null) =>
+  (value || '').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const getPhoneSuffix = (phone: string) =>
+  phone.length >= PHONE_SUFFIX_LENGTH ? phone.slice(-PHONE_SUFFIX_LENGTH) : '';
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character edits needed to turn a into b
+ */
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Scores how similar two names are
+ * @param a - First normalized name
+ * @param b - Second normalized name
+ * @returns Similarity between 0 and 1
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  // Word order often differs ("Doe John"), so compare sorted tokens
+  const sortedA = a.split(' ').sort().join(' ');
+  const sortedB = b.split(' ').sort().join(' ');
+  const longest = Math.max(sortedA.length, sortedB.length);
+  return 1 - levenshteinDistance(sortedA, sortedB) / longest;
+};
+
+interface ContactKeys {
+  phone: string;
+  phoneSuffix: string;
+  email: string;
+  name: string;
+  company: string;
+}
+
+const getContactKeys = (contact: Contact): ContactKeys => {
+  const phone = normalizePhoneNumber(contact.phone_number);
+  return {
+    phone,
+    phoneSuffix: getPhoneSuffix(phone),
+    email: (contact.email || '').toLowerCase().trim(),
+    name: normalizeText(contact.name),
+    company: normalizeText(contact.company),
+  };
+};
+
+/**
+ * Lists every signal that two contacts share
+ * @param a - Keys of the first contact
+ * @param b - Keys of the second contact
+ * @returns Matching reasons, strongest first
+ */
+const getMatchReasons = (a: ContactKeys, b: ContactKeys): DuplicateMatchReason[] => {
+  const reasons: DuplicateMatchReason[] = [];
+
+  if (a.phone && a.phone === b.phone) {
+    reasons.push('same_phone');
+  } else if (a.phoneSuffix && a.phoneSuffix === b.phoneSuffix) {
+    reasons.push('similar_phone');
+  }
+
+  if (a.email && a.email === b.email) {
+    reasons.push('same_email');
+  }
+
+  if (a.name && a.company && a.name === b.name && a.company === b.company) {
+    reasons.push('same_name_company');
+  } else if (nameSimilarity(a.name, b.name) >= SIMILAR_NAME_RATIO) {
+    reasons.push('similar_name');
+  }
+
+  return reasons;
+};
+
+/**
+ * Builds the order-independent key of a contact pair
+ * @param idA - First contact id
+ * @param idB - Second contact id
+ * @returns Key with the smaller id first
+ */
+export const getPairKey = (idA: string, idB: string): string =>
+  idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+
+/**
+ * Finds likely duplicate pairs among contacts
+ * @param contacts - Contacts to compare, usually one team's contacts
+ * @param dismissedPairs - Pair keys already reviewed as not duplicates
+ * @param threshold - Minimum score for a pair to be reported
+ * @returns Candidate pairs sorted by score, highest first
+ */
+export const findDuplicateCandidates = (
+  contacts: Contact[],
+  dismissedPairs: Set<string> = new Set(),
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateCandidate[] => {
+  const keys = new Map<string, ContactKeys>();
+  const blocks = new Map<string, Contact[]>();
+
+  const addToBlock = (blockKey: string, contact: Contact) => {
+    const block = blocks.get(blockKey);
+    if (block) {
+      block.push(contact);
+    } else {
+      blocks.set(blockKey, [contact]);
+    }
+  };
+
+  contacts.forEach(contact => {
+    const contactKeys = getContactKeys(contact);
+    keys.set(contact.id, contactKeys);
+
+    if (contactKeys.phoneSuffix) addToBlock(`phone:${contactKeys.phoneSuffix}`, contact);
+    if (contactKeys.email) addToBlock(`email:${contactKeys.email}`, contact);
+    if (contactKeys.name && contactKeys.company) {
+      addToBlock(`name_company:${contactKeys.name}|${contactKeys.company}`, contact);
+    }
+  });
+
+  const candidates = new Map<string, DuplicateCandidate>();
+  const compared = new Set<string>();
+
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [contactA, contactB] = block[i].created_at <= block[j].created_at
+          ? [block[i], block[j]]
+          : [block[j], block[i]];
+        const key = getPairKey(contactA.id, contactB.id);
+        if (compared.has(key) || dismissedPairs.has(key)) continue;
+        compared.add(key);
+
+        const reasons = getMatchReasons(keys.get(contactA.id)!, keys.get(contactB.id)!);
+        const score = Math.min(
+          100,
+          reasons.reduce((total, reason) => total + DUPLICATE_REASON_SCORES[reason], 0)
+        );
+
+        if (score >= threshold) {
+          candidates.set(key, { key, contactA, contactB, score, reasons });
+        }
+      }
+    }
+  });
+
+  return Array.from(candidates.values()).sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,91 @@
+/**
+ * Utility functions for exchange rates to a team's reporting currency
+ * A rate is the number of reporting currency units one unit of the other currency is worth
+ */
+
+import { ExchangeRate } from '@/types/team';
+import { SpreadsheetSheet } from './spreadsheetReader';
+import { isSupportedCurrency } from './currencyUtils';
+
+export interface ExchangeRateInput {
+  currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+const CURRENCY_HEADERS = ['currency', 'code', 'currency code'];
+const RATE_HEADERS = ['rate', 'exchange rate'];
+const DATE_HEADERS = ['date', 'effective date', 'effective_date'];
+
+const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex(header => names.includes(header.trim().toLowerCase()));
+
+/**
+ * Finds the rate of a currency in force on a date
+ * @param rates - Rates of one team
+ * @param currency - Currency to convert from
+ * @param reportingCurrency - The team's reporting currency
+ * @param on - Date in YYYY-MM-DD format, today by default
+ * @returns Latest rate effective on or before the date, 1 for the reporting currency, or null when none is known
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  currency: string,
+  reportingCurrency: string,
+  on: string = new Date().toISOString().split('T')[0]
+): number | null => {
+  if (currency === reportingCurrency) return 1;
+
+  const latest = rates
+    .filter(rate => rate.currency === currency && rate.effective_date <= on)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date))[0];
+
+  return latest ? Number(latest.rate) : null;
+};
+
+/**
+ * Reads exchange rates from an imported rates file
+ * The sheet needs a currency and a rate column; a date column is optional and defaults to today
+ * @param sheet - Sheet read from the rates file
+ * @param reportingCurrency - The team's reporting currency, which needs no rate
+ * @returns Valid rates, and an error per row that was skipped
+ */
+export const parseExchangeRateSheet = (
+  sheet: SpreadsheetSheet,
+  reportingCurrency: string
+): { rates: ExchangeRateInput[]; errors: string[] } => {
+  const currencyColumn = findColumn(sheet.headers, CURRENCY_HEADERS);
+  const rateColumn = findColumn(sheet.headers, RATE_HEADERS);
+  const dateColumn = findColumn(sheet.headers, DATE_HEADERS);
+
+  if (currencyColumn < 0 || rateColumn < 0) {
+    return { rates: [], errors: ['The file needs a "currency" and a "rate" column'] };
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+
+  sheet.rows.forEach((row, index) => {
+    const line = index + 2;
+    const currency = (row[currencyColumn] || '').trim().toUpperCase();
+    const rate = parseFloat((row[rateColumn] || '').replace(/,/g, ''));
+    const date = dateColumn >= 0 ? (row[dateColumn] || '').trim() : '';
+
+    if (!currency && !row[rateColumn]) return;
+
+    if (!isSupportedCurrency(currency)) {
+      errors.push(`Row ${line}: unsupported currency "${currency}"`);
+    } else if (currency === reportingCurrency) {
+      errors.push(`Row ${line}: ${currency} is the reporting currency`);
+    } else if (!(rate > 0)) {
+      errors.push(`Row ${line}: rate must be a positive number`);
+    } else if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push(`Row ${line}: date must be in YYYY-MM-DD format`);
+    } else {
+      rates.push({ currency, rate, effective_date: date || today });
+    }
+  });
+
+  return { rates, errors };
+};
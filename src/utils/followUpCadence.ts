@@ -0,0 +1,123 @@
+/**
+ * Utility functions for resolving follow-up cadence rules
+ * Shared by the follow-up worker and the main thread hooks
+ */
+
+import type { FollowUpCadenceRule } from '@/types/followUp';
+
+/**
+ * Cadence used when a contact matches no team rule.
+ * Mirrors the original hard-coded 3/7/30 day buckets.
+ */
+export const DEFAULT_CADENCE_RULE: FollowUpCadenceRule = {
+  id: 'default',
+  team_id: '',
+  name: 'Default',
+  label: null,
+  stale_days: [3, 7, 30],
+  excluded_statuses: ['Paid'],
+  priority: 0,
+  is_active: true,
+  created_by: '',
+  created_at: '',
+  updated_at: '',
+};
+
+interface CadenceContact {
+  team_id?: string | null;
+  labels?: string[] | null;
+  status: string;
+}
+
+/**
+ * Sorts and deduplicates stale day thresholds, dropping invalid values
+ * @param staleDays - Raw thresholds from the database or a form
+ * @returns Ascending list of positive whole days
+ */
+export const normalizeStaleDays = (staleDays: number[]): number[] => {
+  return Array.from(new Set(
+    (staleDays || [])
+      .map(days => Math.floor(Number(days)))
+      .filter(days => Number.isFinite(days) && days > 0)
+  )).sort((a, b) => a - b);
+};
+
+/**
+ * Orders rules so label-specific rules are checked before team defaults
+ * @param rules - Active cadence rules
+ * @returns Rules in resolution order
+ */
+export const sortCadenceRules = (rules: FollowUpCadenceRule[]): FollowUpCadenceRule[] => {
+  return [...rules].sort((a, b) => {
+    if (!!a.label !== !!b.label) return a.label ? -1 : 1;
+    if (a.priority !== b.priority) return a.priority - b.priority;
+    return a.name.localeCompare(b.name);
+  });
+};
+
+/**
+ * Finds the cadence rule that applies to a contact.
+ * Label rules of the contact's team win over the team default,
+ * which in turn wins over DEFAULT_CADENCE_RULE.
+ * @param contact - Contact to resolve
+ * @param sortedRules - Rules already ordered with sortCadenceRules
+ * @returns Matching cadence rule
+ */
+export const resolveCadenceRule = (
+  contact: CadenceContact,
+  sortedRules: FollowUpCadenceRule[]
+): FollowUpCadenceRule => {
+  if (!contact.team_id) return DEFAULT_CADENCE_RULE;
+
+  const teamRules = sortedRules.filter(rule => rule.is_active && rule.team_id === contact.team_id);
+
+  const labelRule = teamRules.find(rule =>
+    rule.label && contact.labels?.includes(rule.label)
+  );
+  if (labelRule) return labelRule;
+
+  return teamRules.find(rule => !rule.label) || DEFAULT_CADENCE_RULE;
+};
+
+/**
+ * Checks whether a contact's status is excluded by its cadence rule
+ * @param contact - Contact to check
+ * @param rule - Rule resolved for the contact
+ * @returns True if the contact should be left out of follow-ups
+ */
+export const isExcludedByCadence = (contact: CadenceContact, rule: FollowUpCadenceRule): boolean => {
+  return rule.excluded_statuses.includes(contact.status);
+};
+
+/**
+ * Builds the stable bucket key for a rule threshold
+ * @param rule - Cadence rule
+ * @param days - One of the rule's stale day thresholds
+ * @returns Bucket key, e.g. "default:7"
+ */
+export const getCadenceBucketKey = (rule: FollowUpCadenceRule, days: number): string => {
+  return `${rule.id}:${days}`;
+};
+
+/**
+ * Builds a display label for a rule threshold
+ * @param rule - Cadence rule
+ * @param days - One of the rule's stale day thresholds
+ * @returns Label such as "7+ Days" or "VIP · 3+ Days"
+ */
+export const getCadenceBucketLabel = (rule: FollowUpCadenceRule, days: number): string => {
+  const dayLabel = `${days}+ ${days === 1 ? 'Day' : 'Days'}`;
+  return rule.id === DEFAULT_CADENCE_RULE.id ? dayLabel : `${rule.name} · ${dayLabel}`;
+};
+
+/**
+ * Creates a short signature of the rule set, used in cache keys
+ * @param rules - Cadence rules
+ * @returns Signature string that changes when any rule changes
+ */
+export const getCadenceRulesSignature = (rules: FollowUpCadenceRule[]): string => {
+  return rules
+    .map(rule => `${rule.id}@${rule.updated_at}`)
+    .sort()
+    .join(',');
+};
@@ -0,0 +1,166 @@
+/**
+ * Utility functions for the weighted pipeline forecast
+ */
+
+import { addMonths, addQuarters, format, parseISO, startOfMonth, startOfQuarter } from 'date-fns';
+import {
+  Deal,
+  ForecastCategory,
+  ForecastGrouping,
+  ForecastPeriod,
+  ForecastPeriodType,
+  ForecastTotals,
+  PipelineStage,
+} from '@/types/deal';
+
+export const FORECAST_CATEGORIES: ForecastCategory[] = ['Pipeline', 'Best Case', 'Commit', 'Omitted'];
+
+const emptyTotals = (): ForecastTotals => ({
+  pipeline: 0,
+  weighted: 0,
+  commit: 0,
+  best_case: 0,
+  closed_won: 0,
+  open_deals: 0,
+  won_deals: 0,
+});
+
+/**
+ * Finds the start of the month or quarter a date falls in
+ * @param date - Date within the period
+ * @param periodType - Month or quarter
+ * @returns First day of the period
+ */
+export const getPeriodStart = (date: Date, periodType: ForecastPeriodType): Date =>
+  periodType === 'quarter' ? startOfQuarter(date) : startOfMonth(date);
+
+/**
+ * Builds the key and label of a forecast period
+ * @param start - First day of the period
+ * @param periodType - Month or quarter
+ * @returns Sortable key such as "2025-08" or "2025-Q3", and a label such as "Aug 2025" or "Q3 2025"
+ */
+export const getPeriodInfo = (start: Date, periodType: ForecastPeriodType) =>
+  periodType === 'quarter'
+    ? { key: format(start, "yyyy-'Q'Q"), label: format(start, 'QQQ yyyy') }
+    : { key: format(start, 'yyyy-MM'), label: format(start, 'MMM yyyy') };
+
+/**
+ * Picks the date a deal counts towards in the forecast
+ * @param deal - Deal to place
+ * @param stage - Current stage of the deal
+ * @returns Close date for won deals, expected close date for open ones; null for lost or undated deals
+ */
+export const getForecastDate = (
+  deal: Pick<Deal, 'expected_close_date' | 'actual_close_date' | 'closed_at'>,
+  stage: Pick<PipelineStage, 'is_won' | 'is_lost'> | undefined
+): Date | null => {
+  if (stage?.is_lost) return null;
+  const date = stage?.is_won
+    ? deal.actual_close_date || deal.closed_at || deal.expected_close_date
+    : deal.expected_close_date;
+  return date ? parseISO(date) : null;
+};
+
+/**
+ * Adds a deal's value to forecast totals according to its stage and forecast category
+ * @param totals - Totals to add to
+ * @param deal - Deal being added
+ * @param value - Deal value in the reporting currency
+ * @param isWon - Whether the deal is in a won stage
+ */
+const addDeal = (totals: ForecastTotals, deal: Deal, value: number, isWon: boolean) => {
+  if (isWon) {
+    totals.closed_won += value;
+    totals.commit += value;
+    totals.best_case += value;
+    totals.won_deals += 1;
+    return;
+  }
+
+  const category = deal.forecast_category || 'Pipeline';
+  if (category === 'Omitted') return;
+
+  totals.pipeline += value;
+  totals.weighted += value * (deal.probability || 0) / 100;
+  totals.open_deals += 1;
+  if (category === 'Commit') totals.commit += value;
+  if (category === 'Commit' || category === 'Best Case') totals.best_case += value;
+};
+
+/**
+ * Groups deals into forecast periods by their expected close date
+ * Won deals count in the period they closed; lost deals are left out
+ * @param deals - Deals of the user's teams
+ * @param stages - Stages of the user's pipelines
+ * @param options - Period type, first period, number of periods, grouping and currency conversion
+ * @returns One entry per period, in order, including empty ones; groups are sorted by best case
+ */
+export const getForecast = (
+  deals: Deal[],
+  stages: PipelineStage[],
+  options: {
+    periodType: ForecastPeriodType;
+    from: Date;
+    count: number;
+    grouping: ForecastGrouping;
+    // Deals whose value can't be converted are left out
+    convert: (deal: Deal) => number | null;
+  }
+): ForecastPeriod[] => {
+  const { periodType, from, count, grouping, convert } = options;
+  const addPeriods = periodType === 'quarter' ? addQuarters : addMonths;
+  const firstStart = getPeriodStart(from, periodType);
+
+  const periods = Array.from({ length: count }, (_, index) => {
+    const start = addPeriods(firstStart, index);
+    return {
+      ...emptyTotals(),
+      ...getPeriodInfo(start, periodType),
+      start,
+      groups: new Map<string, ForecastTotals>(),
+    };
+  });
+  const periodsByKey = new Map(periods.map(period => [period.key, period]));
+
+  deals.forEach(deal => {
+    const stage = stages.find(s => s.id === deal.stage_id);
+    const date = getForecastDate(deal, stage);
+    if (!date) return;
+
+    const period = periodsByKey.get(getPeriodInfo(getPeriodStart(date, periodType), periodType).key);
+    const value = convert(deal);
+    if (!period || value === null) return;
+
+    const groupId = (grouping === 'team' ? deal.team_id : deal.assigned_to || deal.created_by) || '';
+    const group = period.groups.get(groupId) || emptyTotals();
+    period.groups.set(groupId, group);
+
+    const isWon = !!stage?.is_won;
+    addDeal(period, deal, value, isWon);
+    addDeal(group, deal, value, isWon);
+  });
+
+  return periods.map(period => ({
+    ...period,
+    groups: [...period.groups.entries()]
+      .map(([id, totals]) => ({ id, ...totals }))
+      .sort((a, b) => b.best_case - a.best_case),
+  }));
+};
+
+/**
+ * Adds up the totals of several periods
+ * @param periods - Periods to add up
+ * @returns Combined totals
+ */
+export const sumForecastTotals = (periods: ForecastTotals[]): ForecastTotals =>
+  periods.reduce((sum, period) => ({
+    pipeline: sum.pipeline + period.pipeline,
+    weighted: sum.weighted + period.weighted,
+    commit: sum.commit + period.commit,
+    best_case: sum.best_case + period.best_case,
+    closed_won: sum.closed_won + period.closed_won,
+    open_deals: sum.open_deals + period.open_deals,
+    won_deals: sum.won_deals + period.won_deals,
+  }), emptyTotals());
@@ -0,0 +1,107 @@
+/**
+ * Utility functions for invoice aging and the dunning reminder queue
+ */
+
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { Invoice } from '@/types/invoice';
+import { AgingBucket, AgingBucketKey, DueInvoiceReminder, DunningSequence, InvoiceReminder } from '@/types/dunning';
+import { getOutstandingBalance } from '@/utils/invoiceBalance';
+
+const AGING_BUCKETS: { key: AgingBucketKey; label: string; maxDays: number }[] = [
+  { key: 'current', label: 'Current', maxDays: 0 },
+  { key: '1-30', label: '1–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '90+', label: '90+ days', maxDays: Infinity },
+];
+
+// Drafts haven't been sent yet, so nothing is owed on them
+const UNCOLLECTIBLE_STATUSES = ['Draft', 'Void', 'Paid'];
+
+/**
+ * Checks whether an invoice still has money to collect
+ * @param invoice - Invoice to check
+ * @returns True for sent invoices with an outstanding balance
+ */
+export const isCollectible = (invoice: Pick<Invoice, 'status' | 'total' | 'amount_paid' | 'amount_credited'>): boolean =>
+  !UNCOLLECTIBLE_STATUSES.includes(invoice.status) && getOutstandingBalance(invoice) > 0;
+
+/**
+ * Counts the days an invoice is past its due date
+ * @param invoice - Invoice with an optional due date
+ * @param today - Reference date
+ * @returns Days past due; zero when not yet due or without a due date
+ */
+export const getDaysOverdue = (invoice: Pick<Invoice, 'due_date'>, today: Date = new Date()): number => {
+  if (!invoice.due_date) return 0;
+  return Math.max(differenceInCalendarDays(startOfDay(today), parseISO(invoice.due_date)), 0);
+};
+
+/**
+ * Groups outstanding balances by how far past due they are
+ * @param invoices - Invoices to report on; uncollectible ones are ignored
+ * @param today - Reference date
+ * @param convert - Converts an invoice's balance into the currency the totals are reported in
+ * @returns One bucket per aging range, in order, including empty ones
+ */
+export const getAgingBuckets = (
+  invoices: Invoice[],
+  today: Date = new Date(),
+  convert: (invoice: Invoice, amount: number) => number = (_invoice, amount) => amount
+): AgingBucket[] => {
+  const buckets = AGING_BUCKETS.map(({ key, label }) => ({ key, label, count: 0, total: 0 }));
+
+  invoices.filter(isCollectible).forEach(invoice => {
+    const daysOverdue = getDaysOverdue(invoice, today);
+    const index = AGING_BUCKETS.findIndex(bucket => daysOverdue <= bucket.maxDays);
+    buckets[index].count += 1;
+    buckets[index].total += convert(invoice, getOutstandingBalance(invoice));
+  });
+
+  return buckets;
+};
+
+/**
+ * Lists the reminders that have come due and were not sent yet
+ * Only the latest due step of an invoice is returned, so a late start doesn't send a burst of reminders
+ * @param invoices - Invoices of the user's teams
+ * @param sequences - Dunning sequences with their steps; only active ones are used
+ * @param sentReminders - Reminders already recorded
+ * @param today - Reference date
+ * @returns Due reminders, most overdue first
+ */
+export const getDueReminders = (
+  invoices: Invoice[],
+  sequences: DunningSequence[],
+  sentReminders: InvoiceReminder[],
+  today: Date = new Date()
+): DueInvoiceReminder[] => {
+  const activeSequences = new Map(
+    sequences.filter(sequence => sequence.is_active).map(sequence => [sequence.team_id, sequence])
+  );
+  const sentSteps = new Set(sentReminders.map(reminder => `${reminder.invoice_id}:${reminder.step_id}`));
+  const todayStart = startOfDay(today);
+  const dueReminders: DueInvoiceReminder[] = [];
+
+  invoices.filter(invoice => invoice.due_date && isCollectible(invoice)).forEach(invoice => {
+    const sequence = activeSequences.get(invoice.team_id);
+    if (!sequence) return;
+
+    const steps = [...(sequence.dunning_steps || [])].sort((a, b) => a.days_after_due - b.days_after_due);
+    const dueDate = parseISO(invoice.due_date as string);
+
+    const dueSteps = steps.filter(step => addDays(dueDate, step.days_after_due) <= todayStart);
+    const step = dueSteps[dueSteps.length - 1];
+    if (!step || sentSteps.has(`${invoice.id}:${step.id}`)) return;
+
+    dueReminders.push({
+      invoice,
+      step,
+      stepNumber: steps.indexOf(step) + 1,
+      reminderDate: addDays(dueDate, step.days_after_due),
+      daysOverdue: getDaysOverdue(invoice, today),
+    });
+  });
+
+  return dueReminders.sort((a, b) => b.daysOverdue - a.daysOverdue);
+};
@@ -0,0 +1,96 @@
+/**
+ * Utility functions for invoice balances and payments
+ */
+
+import { CreditNote, Invoice, InvoiceItem, PaymentMethod } from '@/types/invoice';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank Transfer',
+  cash: 'Cash',
+  card: 'Card',
+  e_wallet: 'E-Wallet',
+  cheque: 'Cheque',
+  other: 'Other',
+};
+
+type InvoiceBalanceFields = Pick<Invoice, 'total' | 'amount_paid' | 'amount_credited' | 'status'>;
+
+export const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Calculates what is still owed on an invoice
+ * @param invoice - Invoice with its total, amount paid and amount credited
+ * @returns Outstanding balance, rounded to cents and never negative; zero for void invoices
+ */
+export const getOutstandingBalance = (invoice: InvoiceBalanceFields): number => {
+  if (invoice.status === 'Void') return 0;
+  const balance = roundToCents(invoice.total - (invoice.amount_paid || 0) - (invoice.amount_credited || 0));
+  return Math.max(balance, 0);
+};
+
+/**
+ * Checks whether an invoice has received some but not all of its payment
+ * @param invoice - Invoice with its total and amount paid
+ * @returns True when a payment was recorded and a balance remains
+ */
+export const isPartiallyPaid = (invoice: InvoiceBalanceFields): boolean =>
+  (invoice.amount_paid || 0) > 0 && getOutstandingBalance(invoice) > 0;
+
+/**
+ * Calculates how much has to be paid back to the customer
+ * Credits on an invoice that was already paid leave more received than is owed
+ * @param invoice - Invoice with its total, amount paid and amount credited
+ * @param creditNotes - Credit notes of the invoice, with the refunds recorded on them
+ * @returns Amount still to refund, rounded to cents and never negative
+ */
+export const getRefundDue = (invoice: InvoiceBalanceFields, creditNotes: CreditNote[]): number => {
+  const refunded = creditNotes.reduce((sum, creditNote) => sum + creditNote.refund_amount, 0);
+  const overpaid = (invoice.amount_paid || 0) + (invoice.amount_credited || 0) - invoice.total;
+  return Math.max(roundToCents(overpaid - refunded), 0);
+};
+
+/**
+ * Works out how many of each invoice item can still be credited
+ * @param items - Items of the invoice
+ * @param creditNotes - Credit notes of the invoice with their items; void ones are ignored
+ * @returns Remaining quantity per invoice item id
+ */
+export const getCreditableQuantities = (items: InvoiceItem[], creditNotes: CreditNote[]): Record<string, number> => {
+  const remaining = Object.fromEntries(items.map(item => [item.id, item.quantity]));
+
+  creditNotes
+    .filter(creditNote => creditNote.status === 'Issued')
+    .flatMap(creditNote => creditNote.credit_note_items || [])
+    .forEach(creditItem => {
+      if (creditItem.invoice_item_id && creditItem.invoice_item_id in remaining) {
+        remaining[creditItem.invoice_item_id] = roundToCents(remaining[creditItem.invoice_item_id] - creditItem.quantity);
+      }
+    });
+
+  return remaining;
+};
+
+/**
+ * Calculates what a credit note for quantities of an invoice's items comes to
+ * Mirrors public.issue_credit_note: units are valued at their discounted line price and the
+ * invoice discount and taxes apply in proportion
+ * @param invoice - Invoice with its subtotal and total
+ * @param items - Items of the invoice
+ * @param quantities - Quantity to credit per invoice item id
+ * @returns Credited subtotal, tax and total, rounded to cents
+ */
+export const getCreditNoteTotals = (
+  invoice: Pick<Invoice, 'subtotal' | 'total'>,
+  items: InvoiceItem[],
+  quantities: Record<string, number>
+) => {
+  const linesTotal = items.reduce((sum, item) => sum + item.total_price, 0);
+  const credited = items.reduce(
+    (sum, item) => sum + (quantities[item.id] || 0) * item.total_price / item.quantity, 0
+  );
+  const share = linesTotal > 0 ? credited / linesTotal : 0;
+
+  const subtotal = roundToCents(invoice.subtotal * share);
+  const total = roundToCents(invoice.total * share);
+  return { subtotal, taxAmount: roundToCents(total - subtotal), total };
+};
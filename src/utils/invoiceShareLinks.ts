@@ -0,0 +1,26 @@
+/**
+ * Utility functions for public invoice links
+ */
+
+import { InvoiceShareLink } from '@/types/invoice';
+
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+
+/**
+ * Builds the public URL of a share link
+ * @param token - Token of the link
+ * @returns Absolute URL of the read-only invoice page
+ */
+export const getInvoiceShareUrl = (token: string): string =>
+  `${window.location.origin}/invoice/${encodeURIComponent(token)}`;
+
+/**
+ * Checks whether a share link can still be opened
+ * @param link - Share link
+ * @param now - Reference time
+ * @returns True when the link is neither revoked nor expired
+ */
+export const isShareLinkActive = (
+  link: Pick<InvoiceShareLink, 'expires_at' | 'revoked_at'>,
+  now: Date = new Date()
+): boolean => !link.revoked_at && new Date(link.expires_at) > now;
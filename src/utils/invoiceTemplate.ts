@@ -0,0 +1,189 @@
+/**
+ * Utility functions for invoice PDF templates
+ * Layouts and labels are built in; teams choose between them and fill in their own texts
+ */
+
+import { Locale } from 'date-fns';
+import { enUS, id } from 'date-fns/locale';
+import { InvoiceTemplateLanguage, InvoiceTemplateLayout, InvoiceTemplateSettings } from '@/types/invoiceTemplate';
+
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplateSettings = {
+  layout: 'classic',
+  primary_color: '#2563eb',
+  accent_color: '#059669',
+  header_text: null,
+  footer_text: null,
+  payment_instructions: null,
+  signature_url: null,
+  language: 'en',
+};
+
+export const INVOICE_TEMPLATE_LAYOUTS: { value: InvoiceTemplateLayout; label: string; description: string }[] = [
+  { value: 'classic', label: 'Classic', description: 'Company details beside the title, shaded boxes' },
+  { value: 'modern', label: 'Modern', description: 'Full-width coloured header band' },
+  { value: 'minimal', label: 'Minimal', description: 'Plain black and white with thin rules' },
+];
+
+export const INVOICE_TEMPLATE_LANGUAGES: { value: InvoiceTemplateLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'id', label: 'Bahasa Indonesia' },
+];
+
+export interface InvoicePDFLabels {
+  invoice: string;
+  invoiceNumber: string;
+  billTo: string;
+  invoiceDetails: string;
+  created: string;
+  dueDate: string;
+  status: string;
+  invoiceItems: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  discount: string;
+  total: string;
+  items: string;
+  subtotal: string;
+  subtotalExclTax: string;
+  withheld: string;
+  pricesIncludeTax: string;
+  notes: string;
+  paymentInformation: string;
+  paymentInstructions: string;
+  bank: string;
+  account: string;
+  accountHolder: string;
+  swift: string;
+  phone: string;
+  email: string;
+  website: string;
+  taxId: string;
+  authorizedSignature: string;
+  thankYou: string;
+  generatedOn: (date: string, time: string) => string;
+  // date-fns pattern for printed dates
+  dateFormat: string;
+}
+
+const PDF_LABELS: Record<InvoiceTemplateLanguage, InvoicePDFLabels> = {
+  en: {
+    invoice: 'INVOICE',
+    invoiceNumber: 'Invoice Number',
+    billTo: 'Bill To',
+    invoiceDetails: 'Invoice Details',
+    created: 'Created',
+    dueDate: 'Due Date',
+    status: 'Status',
+    invoiceItems: 'Invoice Items',
+    description: 'Description',
+    quantity: 'Qty',
+    unitPrice: 'Unit Price',
+    discount: 'Discount',
+    total: 'Total',
+    items: 'Items',
+    subtotal: 'Subtotal',
+    subtotalExclTax: 'Subtotal (excl. tax)',
+    withheld: 'withheld',
+    pricesIncludeTax: 'Prices include tax',
+    notes: 'Notes',
+    paymentInformation: 'Payment Information',
+    paymentInstructions: 'Payment Instructions',
+    bank: 'Bank',
+    account: 'Account',
+    accountHolder: 'Account Holder',
+    swift: 'SWIFT',
+    phone: 'Phone',
+    email: 'Email',
+    website: 'Website',
+    taxId: 'Tax ID',
+    authorizedSignature: 'Authorized Signature',
+    thankYou: 'Thank you for your business!',
+    generatedOn: (date, time) => `This invoice was generated on ${date} at ${time}`,
+    dateFormat: 'MMM dd, yyyy',
+  },
+  id: {
+    invoice: 'FAKTUR',
+    invoiceNumber: 'Nomor Faktur',
+    billTo: 'Ditagihkan Kepada',
+    invoiceDetails: 'Detail Faktur',
+    created: 'Tanggal',
+    dueDate: 'Jatuh Tempo',
+    status: 'Status',
+    invoiceItems: 'Rincian Barang',
+    description: 'Deskripsi',
+    quantity: 'Jml',
+    unitPrice: 'Harga Satuan',
+    discount: 'Diskon',
+    total: 'Total',
+    items: 'Barang',
+    subtotal: 'Subtotal',
+    subtotalExclTax: 'Subtotal (belum termasuk pajak)',
+    withheld: 'dipotong',
+    pricesIncludeTax: 'Harga sudah termasuk pajak',
+    notes: 'Catatan',
+    paymentInformation: 'Informasi Pembayaran',
+    paymentInstructions: 'Petunjuk Pembayaran',
+    bank: 'Bank',
+    account: 'No. Rekening',
+    accountHolder: 'Atas Nama',
+    swift: 'SWIFT',
+    phone: 'Telepon',
+    email: 'Email',
+    website: 'Situs Web',
+    taxId: 'NPWP',
+    authorizedSignature: 'Tanda Tangan',
+    thankYou: 'Terima kasih atas kepercayaan Anda!',
+    generatedOn: (date, time) => `Faktur ini dibuat pada ${date} pukul ${time}`,
+    dateFormat: 'dd MMMM yyyy',
+  },
+};
+
+const DATE_LOCALES: Record<InvoiceTemplateLanguage, Locale> = {
+  en: enUS,
+  id,
+};
+
+/**
+ * Looks up the printed labels of a template language
+ * @param language - Template language
+ * @returns Labels, falling back to English
+ */
+export const getInvoicePDFLabels = (language: InvoiceTemplateLanguage): InvoicePDFLabels =>
+  PDF_LABELS[language] || PDF_LABELS.en;
+
+/**
+ * Looks up the date-fns locale of a template language
+ * @param language - Template language
+ * @returns Locale for formatting dates on the PDF
+ */
+export const getInvoicePDFLocale = (language: InvoiceTemplateLanguage): Locale =>
+  DATE_LOCALES[language] || enUS;
+
+/**
+ * Checks whether a colour is a six-digit hex colour, the only format templates store
+ * @param color - Colour entered by the user
+ * @returns True for colours such as #2563eb
+ */
+export const isHexColor = (color: string): boolean => /^#[0-9a-fA-F]{6}$/.test(color);
+
+/**
+ * Escapes a value for the PDF HTML, in text and in quoted attributes
+ * @param value - Value stored by a user, such as a contact name or an item description
+ * @returns HTML-safe text
+ */
+export const escapeHtml = (value: string | number): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Escapes free text for the PDF HTML and keeps its line breaks
+ * @param text - Text entered in the template editor
+ * @returns HTML-safe text with <br> for each line break
+ */
+export const formatTemplateText = (text: string): string =>
+  escapeHtml(text).replace(/\n/g, '<br>');
@@ -0,0 +1,148 @@
+/**
+ * Utility functions for invoice totals
+ * Item discounts apply first, then the invoice discount, then the taxes. With tax-inclusive
+ * pricing the discounted amount already contains the added taxes; withholding taxes are
+ * always worked out on the taxable subtotal and deducted
+ */
+
+import { DiscountType, Invoice, InvoiceLineInput, InvoicePricing, InvoiceTax } from '@/types/invoice';
+import { roundToCents } from './invoiceBalance';
+
+export interface InvoiceTotals {
+  // Sum of the line totals, after item discounts
+  itemsTotal: number;
+  discountAmount: number;
+  // Taxable amount, excluding tax
+  subtotal: number;
+  taxes: InvoiceTax[];
+  // Added taxes minus withholding taxes
+  taxAmount: number;
+  // Combined rate, withholding taxes counted negative
+  taxRate: number;
+  total: number;
+}
+
+// Form values may still be incomplete while the user is typing
+type LineAmounts = Partial<Pick<InvoiceLineInput, 'quantity' | 'unit_price' | 'discount_type' | 'discount_value'>>;
+
+/**
+ * Calculates a discount on an amount
+ * Percent discounts are capped at 100% and fixed discounts at the amount itself
+ * @param amount - Amount the discount applies to
+ * @param type - Discount type, or nothing for no discount
+ * @param value - Percentage or fixed amount
+ * @returns Discount, rounded to cents
+ */
+export const getDiscountAmount = (amount: number, type?: DiscountType | null, value?: number): number => {
+  if (!type || !value || value <= 0 || amount <= 0) return 0;
+  if (type === 'percent') return roundToCents(amount * Math.min(value, 100) / 100);
+  return roundToCents(Math.min(value, amount));
+};
+
+/**
+ * Calculates the amount of an invoice line
+ * @param item - Line with its quantity, unit price and discount
+ * @returns Line total after the item discount
+ */
+export const getLineTotal = (item: LineAmounts): number => {
+  const gross = roundToCents((item.quantity || 0) * (item.unit_price || 0));
+  return roundToCents(gross - getDiscountAmount(gross, item.discount_type, item.discount_value));
+};
+
+/**
+ * Calculates the totals of an invoice
+ * @param items - Invoice lines
+ * @param pricing - Invoice discount, taxes and whether prices include tax
+ * @returns Discount, taxable subtotal, tax breakdown and total, all rounded to cents
+ */
+export const calculateInvoiceTotals = (items: LineAmounts[], pricing: InvoicePricing = {}): InvoiceTotals => {
+  const taxes = pricing.taxes || [];
+  const itemsTotal = roundToCents(items.reduce((sum, item) => sum + getLineTotal(item), 0));
+  const discountAmount = getDiscountAmount(itemsTotal, pricing.discount_type, pricing.discount_value);
+  const discounted = roundToCents(itemsTotal - discountAmount);
+
+  const addedRate = taxes.filter(tax => !tax.withholding).reduce((sum, tax) => sum + tax.rate, 0);
+  const withheldRate = taxes.filter(tax => tax.withholding).reduce((sum, tax) => sum + tax.rate, 0);
+
+  const subtotal = pricing.prices_include_tax
+    ? roundToCents(discounted / (1 + addedRate / 100))
+    : discounted;
+
+  const taxLines = taxes.map(tax => ({ ...tax, amount: roundToCents(subtotal * tax.rate / 100) }));
+
+  // Inclusive prices are what the customer sees, so the added taxes absorb the rounding
+  const lastAdded = taxLines.map(tax => tax.withholding).lastIndexOf(false);
+  if (pricing.prices_include_tax && lastAdded >= 0) {
+    const otherAdded = taxLines
+      .filter((tax, index) => !tax.withholding && index !== lastAdded)
+      .reduce((sum, tax) => sum + tax.amount, 0);
+    taxLines[lastAdded].amount = roundToCents(discounted - subtotal - otherAdded);
+  }
+
+  const taxAmount = roundToCents(taxLines.reduce(
+    (sum, tax) => sum + (tax.withholding ? -tax.amount : tax.amount), 0
+  ));
+
+  return {
+    itemsTotal,
+    discountAmount,
+    subtotal,
+    taxes: taxLines,
+    taxAmount,
+    taxRate: roundToCents(addedRate - withheldRate),
+    total: roundToCents(subtotal + taxAmount),
+  };
+};
+
+/**
+ * Works out the stored totals, discount and tax breakdown of an invoice or quote
+ * @param items - Lines
+ * @param pricing - Discount, taxes and whether prices include tax
+ * @returns Columns to store alongside the lines
+ */
+export const getPricingFields = (items: LineAmounts[], pricing: InvoicePricing) => {
+  const totals = calculateInvoiceTotals(items, pricing);
+  return {
+    subtotal: totals.subtotal,
+    tax_rate: totals.taxRate,
+    tax_amount: totals.taxAmount,
+    total: totals.total,
+    discount_type: pricing.discount_type || null,
+    discount_value: pricing.discount_type ? pricing.discount_value || 0 : 0,
+    discount_amount: totals.discountAmount,
+    prices_include_tax: !!pricing.prices_include_tax,
+    taxes: totals.taxes,
+  };
+};
+
+/**
+ * Lists the taxes of a stored invoice
+ * Invoices from before multiple taxes only carry a single tax rate
+ * @param invoice - Invoice with its taxes or tax rate
+ * @returns Tax breakdown
+ */
+export const getInvoiceTaxes = (invoice: {
+  taxes?: Invoice['taxes'];
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+}): InvoiceTax[] => {
+  if (invoice.taxes && invoice.taxes.length > 0) return invoice.taxes;
+  if (!invoice.tax_rate) return [];
+  return [{ name: 'Tax', rate: invoice.tax_rate, withholding: false, amount: invoice.tax_amount || 0 }];
+};
+
+/**
+ * Formats the discount of an item or invoice for display
+ * @param type - Discount type
+ * @param value - Percentage or fixed amount
+ * @param formatCurrency - Currency formatter for fixed discounts
+ * @returns Label such as "10%" or "$5.00", or null without a discount
+ */
+export const formatDiscount = (
+  type: DiscountType | null | undefined,
+  value: number | undefined,
+  formatCurrency: (amount: number) => string
+): string | null => {
+  if (!type || !value) return null;
+  return type === 'percent' ? `${value}%` : formatCurrency(value);
+};
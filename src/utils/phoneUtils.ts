@@ -1,53 +1,242 @@
 /**
  * Utility functions for phone number handling
+ * Numbers are stored in E.164 format (+6281234567890); numbers typed without a
+ * calling code are read as national numbers of the team's or user's default country
  */
 
+import { ParsedPhoneNumber, PhoneCountry, PhoneCountryCode } from '@/types/phone';
+
+export const PHONE_COUNTRIES: Record<PhoneCountryCode, PhoneCountry> = {
+  ID: {
+    code: 'ID',
+    name: 'Indonesia',
+    callingCode: '62',
+    trunkPrefix: '0',
+    nationalPattern: /^[2-9]\d{7,11}$/,
+    displayGroups: [3, 4],
+    example: '0812 3456 7890',
+  },
+  SG: {
+    code: 'SG',
+    name: 'Singapore',
+    callingCode: '65',
+    trunkPrefix: null,
+    nationalPattern: /^[3689]\d{7}$/,
+    displayGroups: [4],
+    example: '9123 4567',
+  },
+  MY: {
+    code: 'MY',
+    name: 'Malaysia',
+    callingCode: '60',
+    trunkPrefix: '0',
+    nationalPattern: /^[1-9]\d{7,9}$/,
+    displayGroups: [2, 3],
+    example: '012-345 6789',
+  },
+  TH: {
+    code: 'TH',
+    name: 'Thailand',
+    callingCode: '66',
+    trunkPrefix: '0',
+    nationalPattern: /^[2-9]\d{7,8}$/,
+    displayGroups: [2, 3],
+    example: '081 234 5678',
+  },
+};
+
+export const DEFAULT_PHONE_COUNTRY: PhoneCountryCode = 'ID';
+
+// Any E.164 number: up to 15 digits, no leading zero
+const E164_DIGITS_PATTERN = /^[1-9]\d{7,14}$/;
+
 /**
- * Normalizes phone number by removing all non-digit characters
- * and standardizing format for consistent comparison
- * @param phoneNumber - Raw phone number string
- * @returns Normalized phone number string
- */
-export const normalizePhoneNumber = (phoneNumber: string): string => {
-  if (!phoneNumber) return '';
-  
-  // Remove all non-digit characters
-  const digitsOnly = phoneNumber.replace(/\D/g, '');
-  
-  // Handle Indonesian phone numbers
-  if (digitsOnly.startsWith('62')) {
-    return digitsOnly;
-  } else if (digitsOnly.startsWith('0')) {
-    return '62' + digitsOnly.substring(1);
-  } else if (digitsOnly.length >= 8) {
-    // Assume it's a local number without country code
-    return '62' + digitsOnly;
+ * Checks whether a value is one of the supported phone countries
+ * @param value - Value to check, e.g. a settings column
+ * @returns True when the value is a supported country code
+ */
+export const isPhoneCountryCode = (value: unknown): value is PhoneCountryCode =>
+  typeof value === 'string' && value in PHONE_COUNTRIES;
+
+const findCountryByCallingCode = (digits: string): PhoneCountry | undefined =>
+  Object.values(PHONE_COUNTRIES).find(country => digits.startsWith(country.callingCode));
+
+const stripTrunkPrefix = (country: PhoneCountry, digits: string) =>
+  country.trunkPrefix && digits.startsWith(country.trunkPrefix)
+    ? digits.slice(country.trunkPrefix.length)
+    : digits;
+
+const buildParsedNumber = (country: PhoneCountry, nationalNumber: string): ParsedPhoneNumber => ({
+  e164: `+${country.callingCode}${nationalNumber}`,
+  country: country.code,
+  nationalNumber,
+  isValid: country.nationalPattern.test(nationalNumber),
+});
+
+/**
+ * Parses a phone number in any common notation
+ * @param phoneNumber - Raw phone number, e.g. "0812-3456-7890", "+65 9123 4567" or "60123456789"
+ * @param defaultCountry - Country used for numbers without a calling code
+ * @returns Parsed number, or null when the input has no digits
+ */
+export const parsePhoneNumber = (
+  phoneNumber: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): ParsedPhoneNumber | null => {
+  if (!phoneNumber) return null;
+
+  const trimmed = phoneNumber.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  const isInternational = trimmed.startsWith('+') || digits.startsWith('00');
+  if (isInternational) {
+    if (!trimmed.startsWith('+')) digits = digits.slice(2);
+
+    const country = findCountryByCallingCode(digits);
+    if (!country) {
+      return {
+        e164: `+${digits}`,
+        country: null,
+        nationalNumber: digits,
+        isValid: E164_DIGITS_PATTERN.test(digits),
+      };
+    }
+    // People often keep the trunk prefix after the calling code (+62 0812...)
+    return buildParsedNumber(country, stripTrunkPrefix(country, digits.slice(country.callingCode.length)));
+  }
+
+  const localCountry = PHONE_COUNTRIES[defaultCountry] || PHONE_COUNTRIES[DEFAULT_PHONE_COUNTRY];
+  if (localCountry.trunkPrefix && digits.startsWith(localCountry.trunkPrefix)) {
+    return buildParsedNumber(localCountry, stripTrunkPrefix(localCountry, digits));
   }
-  
-  return digitsOnly;
+
+  // Calling code written without "+", as older records were stored (6281234567890)
+  const prefixedCountry = findCountryByCallingCode(digits);
+  if (prefixedCountry) {
+    const nationalNumber = digits.slice(prefixedCountry.callingCode.length);
+    if (prefixedCountry.nationalPattern.test(nationalNumber)) {
+      return buildParsedNumber(prefixedCountry, nationalNumber);
+    }
+  }
+
+  return buildParsedNumber(localCountry, digits);
 };
 
 /**
- * Validates if phone number has minimum required length
+ * Normalizes a phone number to E.164 for storage and comparison
+ * @param phoneNumber - Raw phone number string
+ * @param defaultCountry - Country used for numbers without a calling code
+ * @returns E.164 phone number, or an empty string when the input has no digits
+ */
+export const normalizePhoneNumber = (
+  phoneNumber: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string => parsePhoneNumber(phoneNumber, defaultCountry)?.e164 || '';
+
+/**
+ * Validates a phone number against the numbering rules of its country
  * @param phoneNumber - Phone number to validate
+ * @param defaultCountry - Country used for numbers without a calling code
  * @returns Boolean indicating if phone number is valid
  */
-export const isValidPhoneNumber = (phoneNumber: string): boolean => {
-  const normalized = normalizePhoneNumber(phoneNumber);
-  return normalized.length >= 10; // Minimum 10 digits for valid phone
+export const isValidPhoneNumber = (
+  phoneNumber: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): boolean => !!parsePhoneNumber(phoneNumber, defaultCountry)?.isValid;
+
+/**
+ * Builds a validation message for a phone number input
+ * @param phoneNumber - Phone number to validate
+ * @param defaultCountry - Country used for numbers without a calling code
+ * @returns Error message, or null when the number is valid
+ */
+export const getPhoneNumberError = (
+  phoneNumber: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string | null => {
+  const parsed = parsePhoneNumber(phoneNumber, defaultCountry);
+  if (!parsed) return 'Phone number is required';
+  if (parsed.isValid) return null;
+
+  if (!parsed.country) return 'Phone number is not a valid international number';
+  const country = PHONE_COUNTRIES[parsed.country];
+  return `Phone number is not a valid ${country.name} number (e.g. ${country.example})`;
 };
 
 /**
  * Formats phone number for display
- * @param phoneNumber - Raw phone number
- * @returns Formatted phone number for display
- */
-export const formatPhoneNumber = (phoneNumber: string): string => {
-  const normalized = normalizePhoneNumber(phoneNumber);
-  
-  if (normalized.startsWith('62')) {
-    return '+' + normalized;
+ * @param phoneNumber - Raw or stored phone number
+ * @param defaultCountry - Country used for numbers without a calling code
+ * @returns Grouped international number, e.g. "+62 812 3456 7890"
+ */
+export const formatPhoneNumber = (
+  phoneNumber: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string => {
+  const parsed = parsePhoneNumber(phoneNumber, defaultCountry);
+  if (!parsed) return phoneNumber; // Return original if can't format
+  if (!parsed.country || !parsed.isValid) return parsed.e164;
+
+  const country = PHONE_COUNTRIES[parsed.country];
+  const groups: string[] = [];
+  let position = 0;
+  country.displayGroups.forEach(size => {
+    if (position < parsed.nationalNumber.length) {
+      groups.push(parsed.nationalNumber.slice(position, position + size));
+      position += size;
+    }
+  });
+  if (position < parsed.nationalNumber.length) {
+    groups.push(parsed.nationalNumber.slice(position));
   }
-  
-  return phoneNumber; // Return original if can't format
-};
\ No newline at end of file
+
+  return `+${country.callingCode} ${groups.join(' ')}`;
+};
+
+/**
+ * Builds a WhatsApp click-to-chat link
+ * @param phoneNumber - Raw or stored phone number
+ * @param message - Optional message to prefill
+ * @param defaultCountry - Country used for numbers without a calling code
+ * @returns wa.me URL, or null when the number is not valid
+ */
+export const getWhatsAppUrl = (
+  phoneNumber: string,
+  message?: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string | null => {
+  const parsed = parsePhoneNumber(phoneNumber, defaultCountry);
+  if (!parsed?.isValid) return null;
+
+  // wa.me expects the international number without "+"
+  const url = `https://wa.me/${parsed.e164.slice(1)}`;
+  return message ? `${url}?text=${encodeURIComponent(message)}` : url;
+};
+
+/**
+ * Builds a tel: link for calling a number
+ * @param phoneNumber - Raw or stored phone number
+ * @param defaultCountry - Country used for numbers without a calling code
+ * @returns tel: URL, or null when the number is not valid
+ */
+export const getTelUrl = (
+  phoneNumber: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string | null => {
+  const parsed = parsePhoneNumber(phoneNumber, defaultCountry);
+  return parsed?.isValid ? `tel:${parsed.e164}` : null;
+};
+
+/**
+ * Checks whether a search term matches a stored phone number
+ * National notation ("0812...") matches the stored international number ("+62812...")
+ * @param phoneNumber - Stored phone number
+ * @param searchTerm - Text typed into a search box
+ * @returns True when the digits of the search term appear in the phone number
+ */
+export const phoneNumberMatches = (phoneNumber: string, searchTerm: string): boolean => {
+  const searchDigits = searchTerm.replace(/\D/g, '').replace(/^0+/, '');
+  if (!phoneNumber || !searchDigits) return false;
+  return phoneNumber.replace(/\D/g, '').includes(searchDigits);
+};
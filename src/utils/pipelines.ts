@@ -0,0 +1,93 @@
+/**
+ * Utility functions for deal pipelines and their stages
+ */
+
+import { Deal, Pipeline, PipelineStage, PipelineStageInput } from '@/types/deal';
+
+// Stages of a new pipeline, the same as the team's default "Sales" pipeline
+export const DEFAULT_PIPELINE_STAGES: PipelineStageInput[] = [
+  { name: 'Lead', probability: 10, is_won: false, is_lost: false },
+  { name: 'Qualified', probability: 25, is_won: false, is_lost: false },
+  { name: 'Proposal', probability: 50, is_won: false, is_lost: false },
+  { name: 'Negotiation', probability: 75, is_won: false, is_lost: false },
+  { name: 'Closed Won', probability: 100, is_won: true, is_lost: false },
+  { name: 'Closed Lost', probability: 0, is_won: false, is_lost: true },
+];
+
+const OPEN_STAGE_COLORS = ['bg-gray-100', 'bg-blue-100', 'bg-yellow-100', 'bg-orange-100', 'bg-purple-100', 'bg-cyan-100'];
+
+/**
+ * Picks the column colour of a stage on the board
+ * @param stage - Stage flags
+ * @param index - Position of the stage among the pipeline's stages
+ * @returns Tailwind background class; won stages are green and lost stages red
+ */
+export const getStageColor = (stage: Pick<PipelineStage, 'is_won' | 'is_lost'>, index: number): string => {
+  if (stage.is_won) return 'bg-green-100';
+  if (stage.is_lost) return 'bg-red-100';
+  return OPEN_STAGE_COLORS[index % OPEN_STAGE_COLORS.length];
+};
+
+/**
+ * Checks whether a stage ends a deal
+ * @param stage - Stage flags
+ * @returns True for won and lost stages
+ */
+export const isClosedStage = (stage: Pick<PipelineStage, 'is_won' | 'is_lost'> | null | undefined): boolean =>
+  !!stage && (stage.is_won || stage.is_lost);
+
+/**
+ * Sorts a pipeline's stages by their position
+ * @param pipeline - Pipeline with its stages
+ * @returns Stages in board order
+ */
+export const getOrderedStages = (pipeline: Pick<Pipeline, 'pipeline_stages'>): PipelineStage[] =>
+  [...(pipeline.pipeline_stages || [])].sort((a, b) => a.position - b.position);
+
+/**
+ * Finds the pipeline new deals of a team go to
+ * @param pipelines - Pipelines of the user's teams
+ * @param teamId - Team of the deal
+ * @returns The team's default pipeline, or its first one
+ */
+export const getDefaultPipeline = (pipelines: Pipeline[], teamId?: string | null): Pipeline | undefined => {
+  const teamPipelines = pipelines.filter(pipeline => pipeline.team_id === teamId);
+  return teamPipelines.find(pipeline => pipeline.is_default) || teamPipelines[0];
+};
+
+/**
+ * Checks whether a deal is still open, using the flags of its stage
+ * @param deal - Deal with its stage id
+ * @param stages - Stages of the user's pipelines
+ * @returns False once the deal is in a won or lost stage
+ */
+export const isDealOpen = (deal: Pick<Deal, 'stage_id'>, stages: PipelineStage[]): boolean =>
+  !isClosedStage(stages.find(stage => stage.id === deal.stage_id));
+
+/**
+ * Validates the stages of a pipeline before they are saved
+ * @param stages - Stages in board order
+ * @returns Problems found; empty when the stages can be saved
+ */
+export const validatePipelineStages = (stages: PipelineStageInput[]): string[] => {
+  const issues: string[] = [];
+  const names = stages.map(stage => stage.name.trim().toLowerCase());
+
+  if (names.some(name => !name)) {
+    issues.push('Every stage needs a name');
+  }
+  if (new Set(names).size !== names.length) {
+    issues.push('Stage names must be unique within a pipeline');
+  }
+  if (!stages.some(stage => !isClosedStage(stage))) {
+    issues.push('A pipeline needs at least one open stage');
+  }
+  if (stages.some(stage => stage.is_won && stage.is_lost)) {
+    issues.push('A stage cannot be both won and lost');
+  }
+  if (stages.some(stage => !Number.isInteger(stage.probability) || stage.probability < 0 || stage.probability > 100)) {
+    issues.push('Probabilities must be whole numbers from 0 to 100');
+  }
+
+  return issues;
+};
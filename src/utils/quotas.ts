@@ -0,0 +1,154 @@
+/**
+ * Utility functions for sales quotas, their attainment and pacing
+ */
+
+import { addMonths, addQuarters, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Deal, PipelineStage } from '@/types/deal';
+import { PaidInvoiceRevenue, QuotaAttainment, QuotaPace, QuotaPeriodType, SalesQuota } from '@/types/quota';
+import { getForecastDate, getPeriodStart } from '@/utils/forecast';
+
+// Attainment within this share of the elapsed time counts as on track
+const PACE_TOLERANCE = 0.1;
+
+export const QUOTA_PACE_LABELS: Record<QuotaPace, { label: string; color: string }> = {
+  ahead: { label: 'Ahead', color: 'text-green-700' },
+  on_track: { label: 'On track', color: 'text-blue-700' },
+  behind: { label: 'Behind', color: 'text-red-700' },
+};
+
+/**
+ * Finds the start of the month or quarter a date falls in, as stored on quotas
+ * @param periodType - Month or quarter
+ * @param date - Date within the period
+ * @returns Date string such as "2025-07-01"
+ */
+export const getQuotaPeriodStart = (periodType: QuotaPeriodType, date: Date = new Date()): string =>
+  format(getPeriodStart(date, periodType), 'yyyy-MM-dd');
+
+/**
+ * Finds the first day after a quota's period
+ * @param quota - Quota with its period
+ * @returns Start of the next month or quarter
+ */
+export const getQuotaPeriodEnd = (quota: Pick<SalesQuota, 'period_type' | 'period_start'>): Date => {
+  const start = parseISO(quota.period_start);
+  return quota.period_type === 'quarter' ? addQuarters(start, 1) : addMonths(start, 1);
+};
+
+/**
+ * Checks whether today falls in a quota's period
+ * @param quota - Quota with its period
+ * @param today - Reference date
+ * @returns True for quotas of the current month or quarter
+ */
+export const isCurrentQuota = (
+  quota: Pick<SalesQuota, 'period_type' | 'period_start'>,
+  today: Date = new Date()
+): boolean => quota.period_start === getQuotaPeriodStart(quota.period_type, today);
+
+/**
+ * Labels a quota's period
+ * @param quota - Quota with its period
+ * @returns Text such as "Jul 2025" or "Q3 2025"
+ */
+export const getQuotaPeriodLabel = (quota: Pick<SalesQuota, 'period_type' | 'period_start'>): string =>
+  format(parseISO(quota.period_start), quota.period_type === 'quarter' ? 'QQQ yyyy' : 'MMM yyyy');
+
+/**
+ * Works out how much of a quota's period has passed
+ * @param quota - Quota with its period
+ * @param today - Reference date
+ * @returns Share from 0 before the period to 1 once it is over, counting today as passed
+ */
+export const getElapsedShare = (
+  quota: Pick<SalesQuota, 'period_type' | 'period_start'>,
+  today: Date = new Date()
+): number => {
+  const start = parseISO(quota.period_start);
+  const totalDays = differenceInCalendarDays(getQuotaPeriodEnd(quota), start);
+  const elapsedDays = differenceInCalendarDays(today, start) + 1;
+  return Math.min(Math.max(elapsedDays / totalDays, 0), 1);
+};
+
+/**
+ * Compares attainment with the time elapsed in the period
+ * @param attainment - Share of the target reached
+ * @param elapsed - Share of the period passed
+ * @returns Ahead, on track or behind; reaching the target is always ahead
+ */
+export const getQuotaPace = (attainment: number, elapsed: number): QuotaPace => {
+  if (attainment >= 1 || attainment > elapsed + PACE_TOLERANCE) return 'ahead';
+  if (attainment >= elapsed - PACE_TOLERANCE) return 'on_track';
+  return 'behind';
+};
+
+const isInPeriod = (date: Date | null, quota: Pick<SalesQuota, 'period_type' | 'period_start'>) =>
+  !!date && date >= parseISO(quota.period_start) && date < getQuotaPeriodEnd(quota);
+
+/**
+ * Works out progress towards a quota
+ * Deals count for the member they are assigned to, or their creator; invoices for their creator
+ * @param quota - Quota to measure
+ * @param data - Deals, stages, paid invoices and conversions into the reporting currency
+ * @param today - Reference date for pacing
+ * @returns Revenue and won deals in the period, attainment shares and pace
+ */
+export const getQuotaAttainment = (
+  quota: SalesQuota,
+  data: {
+    deals: Deal[];
+    stages: PipelineStage[];
+    invoices: PaidInvoiceRevenue[];
+    // Amounts that can't be converted are left out
+    convertDeal: (deal: Deal) => number | null;
+    convertInvoice: (invoice: PaidInvoiceRevenue, amount: number) => number | null;
+    convertTarget: (amount: number, currency: string) => number | null;
+  },
+  today: Date = new Date()
+): QuotaAttainment => {
+  const isQuotaMember = (userId?: string | null) => !quota.user_id || userId === quota.user_id;
+
+  const wonDeals = data.deals.filter(deal => {
+    const stage = data.stages.find(s => s.id === deal.stage_id);
+    return deal.team_id === quota.team_id
+      && isQuotaMember(deal.assigned_to || deal.created_by)
+      && !!stage?.is_won
+      && isInPeriod(getForecastDate(deal, stage), quota);
+  });
+
+  const revenue = quota.revenue_basis === 'invoices'
+    ? data.invoices
+      .filter(invoice =>
+        invoice.team_id === quota.team_id
+        && isQuotaMember(invoice.created_by)
+        && isInPeriod(parseISO(invoice.paid_on), quota)
+      )
+      .reduce((sum, invoice) =>
+        sum + (data.convertInvoice(invoice, invoice.total - (invoice.amount_credited || 0)) ?? 0), 0)
+    : wonDeals.reduce((sum, deal) => sum + (data.convertDeal(deal) ?? 0), 0);
+
+  const revenueTarget = quota.revenue_target == null
+    ? null
+    : data.convertTarget(quota.revenue_target, quota.currency);
+  const revenueAttainment = revenueTarget === null
+    ? null
+    : revenueTarget > 0 ? revenue / revenueTarget : 1;
+  const dealCountAttainment = quota.deal_count_target == null
+    ? null
+    : quota.deal_count_target > 0 ? wonDeals.length / quota.deal_count_target : 1;
+
+  const elapsed = getElapsedShare(quota, today);
+  // Revenue sets the pace when there is a revenue target
+  const paceAttainment = revenueAttainment ?? dealCountAttainment;
+
+  return {
+    quota,
+    revenue_target: revenueTarget,
+    revenue,
+    deal_count: wonDeals.length,
+    revenue_attainment: revenueAttainment,
+    deal_count_attainment: dealCountAttainment,
+    elapsed,
+    pace: paceAttainment === null ? null : getQuotaPace(paceAttainment, elapsed),
+  };
+};
@@ -0,0 +1,24 @@
+/**
+ * Utility functions for quote statuses
+ */
+
+import { parseISO, startOfDay } from 'date-fns';
+import { Quote, QuoteStatus } from '@/types/quote';
+
+export const QUOTE_STATUS_COLORS: Record<QuoteStatus, string> = {
+  Draft: 'bg-gray-100 text-gray-800',
+  Sent: 'bg-blue-100 text-blue-800',
+  Accepted: 'bg-green-100 text-green-800',
+  Declined: 'bg-red-100 text-red-800',
+  Expired: 'bg-orange-100 text-orange-800',
+};
+
+/**
+ * Checks whether a quote can still be accepted or declined
+ * Mirrors the checks in public.accept_quote
+ * @param quote - Quote to check
+ * @returns True if the quote is open and within its validity date
+ */
+export const isQuoteOpen = (quote: Pick<Quote, 'status' | 'valid_until'>): boolean =>
+  (quote.status === 'Draft' || quote.status === 'Sent') &&
+  parseISO(quote.valid_until) >= startOfDay(new Date());
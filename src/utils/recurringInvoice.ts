@@ -0,0 +1,93 @@
+/**
+ * Utility functions for recurring invoice schedules
+ * Mirrors public.recurring_invoice_run_date: every run is counted from the start date,
+ * so a schedule starting on the 31st keeps landing on the last day of shorter months
+ */
+
+import { addMonths, addWeeks, addYears, format, isAfter, parseISO } from 'date-fns';
+import { RecurringInterval, RecurringInvoiceProfile } from '@/types/invoice';
+
+type RecurringSchedule = Pick<
+  RecurringInvoiceProfile,
+  'start_date' | 'end_date' | 'interval_unit' | 'interval_count' | 'occurrence' | 'status'
+>;
+
+const INTERVAL_LABELS: Record<RecurringInterval, [string, string]> = {
+  week: ['week', 'weeks'],
+  month: ['month', 'months'],
+  quarter: ['quarter', 'quarters'],
+  year: ['year', 'years'],
+};
+
+/**
+ * Calculates the run date of one occurrence of a schedule
+ * @param startDate - First run date (yyyy-MM-dd)
+ * @param unit - Interval unit
+ * @param count - Number of units between runs
+ * @param occurrence - Zero-based occurrence number
+ * @returns Run date
+ */
+export const getRecurringRunDate = (
+  startDate: string,
+  unit: RecurringInterval,
+  count: number,
+  occurrence: number
+): Date => {
+  const start = parseISO(startDate);
+  const periods = count * occurrence;
+
+  switch (unit) {
+    case 'week':
+      return addWeeks(start, periods);
+    case 'quarter':
+      return addMonths(start, periods * 3);
+    case 'year':
+      return addYears(start, periods);
+    default:
+      return addMonths(start, periods);
+  }
+};
+
+/**
+ * Lists the next run dates of a schedule, starting at its next run
+ * @param profile - Recurring invoice profile or an unsaved schedule
+ * @param limit - Maximum number of runs to return
+ * @returns Upcoming run dates, stopping at the end date; empty for ended schedules
+ */
+export const getUpcomingRuns = (profile: RecurringSchedule, limit = 3): Date[] => {
+  if (profile.status === 'ended') return [];
+
+  const endDate = profile.end_date ? parseISO(profile.end_date) : null;
+  const runs: Date[] = [];
+
+  for (let occurrence = profile.occurrence; runs.length < limit; occurrence++) {
+    const runDate = getRecurringRunDate(
+      profile.start_date,
+      profile.interval_unit,
+      profile.interval_count,
+      occurrence
+    );
+    if (endDate && isAfter(runDate, endDate)) break;
+    runs.push(runDate);
+  }
+
+  return runs;
+};
+
+/**
+ * Formats a schedule interval for display
+ * @param unit - Interval unit
+ * @param count - Number of units between runs
+ * @returns Text such as "Every month" or "Every 2 weeks"
+ */
+export const formatRecurringInterval = (unit: RecurringInterval, count: number): string => {
+  const [singular, plural] = INTERVAL_LABELS[unit];
+  return count === 1 ? `Every ${singular}` : `Every ${count} ${plural}`;
+};
+
+/**
+ * Formats a date as stored in date columns
+ * @param date - Date to format
+ * @returns Date in yyyy-MM-dd form
+ */
+export const toDateColumn = (date: Date): string => format(date, 'yyyy-MM-dd');
@@ -0,0 +1,48 @@
+/**
+ * Utility functions for contact reminder scheduling
+ * Shared by the follow-up worker and reminder components
+ */
+
+import type { ContactReminder, ReminderState } from '@/types/reminder';
+
+type ReminderTiming = Pick<ContactReminder, 'due_at' | 'snoozed_until' | 'status'>;
+
+/**
+ * Gets the date a reminder is actually due, honoring snoozes
+ * @param reminder - Reminder to check
+ * @returns Effective due date
+ */
+export const getEffectiveDueDate = (reminder: ReminderTiming): Date => {
+  return new Date(reminder.snoozed_until || reminder.due_at);
+};
+
+/**
+ * Derives the display state of a reminder
+ * @param reminder - Reminder to check
+ * @param now - Reference time (defaults to current time)
+ * @returns 'overdue' before today, 'due_today' during today, otherwise 'upcoming'
+ */
+export const getReminderState = (reminder: ReminderTiming, now: Date = new Date()): ReminderState => {
+  if (reminder.status === 'completed' || reminder.status === 'cancelled') {
+    return reminder.status;
+  }
+
+  const dueDate = getEffectiveDueDate(reminder);
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startOfTomorrow = new Date(startOfToday.getTime() + 24 * 60 * 60 * 1000);
+
+  if (dueDate < startOfToday) return 'overdue';
+  if (dueDate < startOfTomorrow) return 'due_today';
+  return 'upcoming';
+};
+
+/**
+ * Calculates a snooze target relative to now
+ * @param days - Number of days to push the reminder back
+ * @param now - Reference time (defaults to current time)
+ * @returns ISO timestamp for snoozed_until, at 9:00 local time
+ */
+export const getSnoozeUntil = (days: number, now: Date = new Date()): string => {
+  const target = new Date(now.getFullYear(), now.getMonth(), now.getDate() + days, 9, 0, 0);
+  return target.toISOString();
+};
@@ -0,0 +1,97 @@
+/**
+ * Utility functions for reading CSV and XLSX files into plain text rows
+ */
+
+import type { CellValue } from 'exceljs';
+import { parseCSV, CSVParseResult } from '@/utils/csvUtils';
+
+export interface SpreadsheetSheet extends CSVParseResult {
+  name: string;
+}
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Checks whether a file can be read by readSpreadsheetFile
+ * @param fileName - Name of the selected file
+ * @returns Boolean indicating if the extension is supported
+ */
+export const isSupportedSpreadsheet = (fileName: string): boolean =>
+  SPREADSHEET_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+const formatDate = (date: Date): string => {
+  const iso = date.toISOString();
+  // Date-only cells are stored at midnight UTC
+  return iso.endsWith('T00:00:00.000Z') ? iso.split('T')[0] : iso.replace('T', ' ').slice(0, 16);
+};
+
+/**
+ * Converts an ExcelJS cell value to the text the importer expects
+ * @param value - Raw cell value
+ * @returns Cell text, dates as ISO strings
+ */
+const cellToText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellToText(value.result as CellValue);
+    if ('error' in value) return '';
+  }
+  return String(value);
+};
+
+const readXLSX = async (file: File): Promise<SpreadsheetSheet[]> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  return workbook.worksheets
+    .filter(worksheet => worksheet.state === 'visible')
+    .map(worksheet => {
+      const records: string[][] = [];
+      const columnCount = worksheet.columnCount;
+
+      worksheet.eachRow({ includeEmpty: false }, row => {
+        const values: string[] = [];
+        for (let column = 1; column <= columnCount; column++) {
+          values.push(cellToText(row.getCell(column).value).trim());
+        }
+        // Drop trailing empty cells so column counts match the header
+        while (values.length > 0 && values[values.length - 1] === '') {
+          values.pop();
+        }
+        if (values.length > 0) records.push(values);
+      });
+
+      if (records.length === 0) {
+        return { name: worksheet.name, headers: [], rows: [], errors: ['Sheet is empty'] };
+      }
+
+      const [headers, ...rows] = records;
+      return {
+        name: worksheet.name,
+        headers,
+        // Short rows only lack trailing blanks, so pad them to the header width
+        rows: rows.map(row => row.length < headers.length
+          ? [...row, ...Array(headers.length - row.length).fill('')]
+          : row),
+        errors: []
+      };
+    });
+};
+
+/**
+ * Reads a CSV or XLSX file
+ * @param file - File selected by the user
+ * @returns One entry per sheet; CSV files always have a single sheet
+ */
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetSheet[]> => {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return readXLSX(file);
+  }
+
+  const result = parseCSV(await file.text());
+  return [{ name: file.name, ...result }];
+};
@@ -0,0 +1,156 @@
+/**
+ * Utility functions for stage history analytics: funnel, time in stage and win/loss
+ */
+
+import { differenceInHours, parseISO } from 'date-fns';
+import {
+  Deal,
+  DealActivity,
+  LossReasonSummary,
+  PipelineStage,
+  StageFunnelStep,
+  StageStay,
+  StageVelocity,
+  WinLossReport,
+} from '@/types/deal';
+
+export const NO_LOSS_REASON = 'No reason given';
+
+const daysBetween = (from: string, to: string) => differenceInHours(parseISO(to), parseISO(from)) / 24;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Rebuilds the stages each deal went through from its stage change activities
+ * A deal entered its first stage when it was created
+ * @param deals - Deals to trace
+ * @param activities - Deal activities; only stage changes are used
+ * @returns Stays in time order per deal, the current one open-ended
+ */
+export const getStageStays = (
+  deals: Pick<Deal, 'id' | 'stage_id' | 'created_at'>[],
+  activities: DealActivity[]
+): StageStay[] => {
+  const changesByDeal = new Map<string, DealActivity[]>();
+  activities
+    .filter(activity => activity.activity_type === 'stage_change')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(activity => {
+      changesByDeal.set(activity.deal_id, [...(changesByDeal.get(activity.deal_id) || []), activity]);
+    });
+
+  return deals.flatMap(deal => {
+    const changes = changesByDeal.get(deal.id) || [];
+    const stays: (StageStay & { stage_id: string | null | undefined })[] = [{
+      deal_id: deal.id,
+      stage_id: changes.length > 0 ? changes[0].old_stage_id : deal.stage_id,
+      entered_at: deal.created_at,
+      left_at: changes[0]?.created_at || null,
+    }];
+
+    changes.forEach((change, index) => {
+      stays.push({
+        deal_id: deal.id,
+        stage_id: change.new_stage_id,
+        entered_at: change.created_at,
+        left_at: changes[index + 1]?.created_at || null,
+      });
+    });
+
+    // Stages from before pipelines existed have no id
+    return stays.filter((stay): stay is StageStay => !!stay.stage_id);
+  });
+};
+
+/**
+ * Counts how far deals got through a pipeline's stages
+ * Lost stages are left out; a deal that skipped a stage still counts as having reached it
+ * @param stages - Stages of one pipeline in board order
+ * @param stays - Stage stays of the pipeline's deals
+ * @returns One step per open or won stage with the deals reaching it and the conversion from the step before
+ */
+export const getStageFunnel = (stages: PipelineStage[], stays: StageStay[]): StageFunnelStep[] => {
+  const funnelStages = stages.filter(stage => !stage.is_lost);
+  const stageIndex = new Map(funnelStages.map((stage, index) => [stage.id, index]));
+
+  const furthestByDeal = new Map<string, number>();
+  stays.forEach(stay => {
+    const index = stageIndex.get(stay.stage_id);
+    if (index === undefined) return;
+    furthestByDeal.set(stay.deal_id, Math.max(furthestByDeal.get(stay.deal_id) ?? -1, index));
+  });
+  const furthest = [...furthestByDeal.values()];
+
+  return funnelStages.map((stage, index) => {
+    const reached = furthest.filter(value => value >= index).length;
+    const previous = index > 0 ? furthest.filter(value => value >= index - 1).length : null;
+    return {
+      stage,
+      reached,
+      conversion_rate: previous === null ? null : previous > 0 ? reached / previous : 0,
+    };
+  });
+};
+
+/**
+ * Works out how long deals stay in each stage
+ * @param stages - Stages to report on, in board order
+ * @param stays - Stage stays of the deals
+ * @returns Average days per stage over the stays that have ended
+ */
+export const getStageVelocity = (stages: PipelineStage[], stays: StageStay[]): StageVelocity[] =>
+  stages
+    .filter(stage => !stage.is_won && !stage.is_lost)
+    .map(stage => {
+      const durations = stays
+        .filter(stay => stay.stage_id === stage.id && stay.left_at)
+        .map(stay => daysBetween(stay.entered_at, stay.left_at as string));
+      return {
+        stage,
+        average_days: average(durations),
+        completed_stays: durations.length,
+      };
+    });
+
+/**
+ * Summarises won and lost deals, how long they took and why deals were lost
+ * @param deals - Deals to report on
+ * @param stages - Stages of the user's pipelines
+ * @param convert - Converts a deal's value into the reporting currency; null leaves the value out
+ * @returns Counts, values, win rate, average sales cycle and loss reasons by frequency
+ */
+export const getWinLossReport = (
+  deals: Deal[],
+  stages: PipelineStage[],
+  convert: (deal: Deal) => number | null
+): WinLossReport => {
+  const stageById = new Map(stages.map(stage => [stage.id, stage]));
+  const won = deals.filter(deal => stageById.get(deal.stage_id || '')?.is_won);
+  const lost = deals.filter(deal => stageById.get(deal.stage_id || '')?.is_lost);
+  const sumValues = (list: Deal[]) => list.reduce((sum, deal) => sum + (convert(deal) ?? 0), 0);
+  const cycleDays = (list: Deal[]) =>
+    average(list.filter(deal => deal.closed_at).map(deal => daysBetween(deal.created_at, deal.closed_at as string)));
+
+  const reasons = new Map<string, LossReasonSummary>();
+  lost.forEach(deal => {
+    const reason = deal.lost_reason || NO_LOSS_REASON;
+    const summary = reasons.get(reason) || { reason, count: 0, value: 0 };
+    summary.count += 1;
+    summary.value += convert(deal) ?? 0;
+    reasons.set(reason, summary);
+  });
+
+  const closedCount = won.length + lost.length;
+
+  return {
+    won_count: won.length,
+    won_value: sumValues(won),
+    lost_count: lost.length,
+    lost_value: sumValues(lost),
+    win_rate: closedCount > 0 ? won.length / closedCount : null,
+    average_won_cycle_days: cycleDays(won),
+    average_lost_cycle_days: cycleDays(lost),
+    loss_reasons: [...reasons.values()].sort((a, b) => b.count - a.count),
+  };
+};
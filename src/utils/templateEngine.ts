@@ -0,0 +1,182 @@
+/**
+ * Message template engine
+ * Supports {{variable}}, default values ({{company|there}}) and conditional sections
+ * ({{#if company}}...{{else}}...{{/if}}, {{#unless email}}...{{/unless}})
+ */
+
+import { TemplateContext, TemplateIssue, TemplateNode } from '@/types/messageTemplate';
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const VARIABLE_NAME_PATTERN = /^[a-z_]+([+-]\d+)?$/;
+const DATE_OFFSET_PATTERN = /^today([+-]\d+)$/;
+
+interface OpenBlock {
+  keyword: 'if' | 'unless';
+  node: Extract<TemplateNode, { type: 'condition' }>;
+  inElse: boolean;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+/**
+ * Parses a template into nodes, collecting syntax problems instead of throwing
+ * @param template - Template text
+ * @returns Parsed nodes and syntax issues
+ */
+export const parseTemplate = (template: string): ParsedTemplate => {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const issues: TemplateIssue[] = [];
+
+  const currentNodes = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.node.otherwise : block.node.then;
+  };
+
+  const pushText = (value: string) => {
+    if (value) currentNodes().push({ type: 'text', value });
+  };
+
+  let lastIndex = 0;
+  for (const match of (template || '').matchAll(TAG_PATTERN)) {
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    const blockMatch = tag.match(/^#(if|unless)\s+(.+)$/);
+
+    if (blockMatch) {
+      const name = blockMatch[2].trim();
+      if (!VARIABLE_NAME_PATTERN.test(name)) {
+        issues.push({ message: `Invalid condition "${tag}"`, variable: name });
+      }
+      const node: OpenBlock['node'] = {
+        type: 'condition',
+        name,
+        negate: blockMatch[1] === 'unless',
+        then: [],
+        otherwise: [],
+      };
+      currentNodes().push(node);
+      stack.push({ keyword: blockMatch[1] as OpenBlock['keyword'], node, inElse: false });
+    } else if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        issues.push({ message: '{{else}} without a matching {{#if}}' });
+      } else {
+        block.inElse = true;
+      }
+    } else if (tag === '/if' || tag === '/unless') {
+      const block = stack[stack.length - 1];
+      if (!block || `/${block.keyword}` !== tag) {
+        issues.push({ message: `{{${tag}}} without a matching {{#${tag.slice(1)}}}` });
+      } else {
+        stack.pop();
+      }
+    } else {
+      const separator = tag.indexOf('|');
+      const name = (separator === -1 ? tag : tag.slice(0, separator)).trim();
+      const fallback = separator === -1 ? null : tag.slice(separator + 1).trim();
+      if (!VARIABLE_NAME_PATTERN.test(name)) {
+        issues.push({ message: `Invalid variable "{{${tag}}}"`, variable: name });
+      }
+      currentNodes().push({ type: 'variable', name, fallback });
+    }
+  }
+  pushText((template || '').slice(lastIndex));
+
+  stack.forEach(block => {
+    issues.push({ message: `{{#${block.keyword} ${block.node.name}}} is never closed with {{/${block.keyword}}}` });
+  });
+
+  return { nodes: root, issues };
+};
+
+/**
+ * Lists every variable used by a template, including conditions
+ * @param nodes - Parsed template nodes
+ * @returns Unique variable names in order of appearance
+ */
+export const getTemplateVariableNames = (nodes: TemplateNode[]): string[] => {
+  const names = new Set<string>();
+  const visit = (list: TemplateNode[]) => {
+    list.forEach(node => {
+      if (node.type === 'variable') {
+        names.add(node.name);
+      } else if (node.type === 'condition') {
+        names.add(node.name);
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    });
+  };
+  visit(nodes);
+  return Array.from(names);
+};
+
+/**
+ * Formats a date for messages, e.g. "18 October 2025"
+ * @param date - Date to format
+ * @returns Formatted date
+ */
+export const formatTemplateDate = (date: Date): string =>
+  date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const resolveVariable = (name: string, context: TemplateContext): string => {
+  const value = context.values[name];
+  if (value !== undefined) return value;
+
+  // {{today+3}} / {{today-1}}: a date relative to now
+  const offset = name.match(DATE_OFFSET_PATTERN);
+  if (offset) {
+    const date = new Date(context.now);
+    date.setDate(date.getDate() + Number(offset[1]));
+    return formatTemplateDate(date);
+  }
+
+  return '';
+};
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'variable') {
+      const value = resolveVariable(node.name, context);
+      return value.trim() ? value : node.fallback ?? '';
+    }
+
+    const isSet = resolveVariable(node.name, context).trim() !== '';
+    return renderNodes(isSet !== node.negate ? node.then : node.otherwise, context);
+  }).join('');
+
+/**
+ * Renders a template with the values of one contact
+ * Unknown or empty variables render as their default value, or nothing
+ * @param template - Template text
+ * @param context - Variable values
+ * @returns Rendered message
+ */
+export const renderTemplate = (template: string, context: TemplateContext): string =>
+  renderNodes(parseTemplate(template).nodes, context);
+
+/**
+ * Checks a template for syntax errors and variables outside the known set
+ * @param template - Template text
+ * @param knownVariables - Variable names the template may use
+ * @returns Issues, empty when the template is valid
+ */
+export const validateTemplate = (template: string, knownVariables: Set<string>): TemplateIssue[] => {
+  const { nodes, issues } = parseTemplate(template);
+
+  getTemplateVariableNames(nodes).forEach(name => {
+    if (!knownVariables.has(name) && !DATE_OFFSET_PATTERN.test(name) && VARIABLE_NAME_PATTERN.test(name)) {
+      issues.push({ message: `Unknown variable {{${name}}}`, variable: name });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,147 @@
+/**
+ * Variables available to message templates and how their values are built
+ */
+
+import { TemplateContext, TemplateContextSource, TemplateVariable, TemplateVariableGroup } from '@/types/messageTemplate';
+import { formatPhoneNumber } from '@/utils/phoneUtils';
+import { formatTemplateDate } from '@/utils/templateEngine';
+import { getOutstandingBalance } from '@/utils/invoiceBalance';
+import { getDaysOverdue } from '@/utils/invoiceAging';
+
+export const TEMPLATE_VARIABLE_GROUP_LABELS: Record<TemplateVariableGroup, string> = {
+  contact: 'Contact',
+  sender: 'Sender',
+  invoice: 'Open invoice',
+  deal: 'Deal',
+  date: 'Date',
+};
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'name', label: 'Full name', group: 'contact', example: 'Budi Santoso' },
+  { name: 'first_name', label: 'First name', group: 'contact', example: 'Budi' },
+  { name: 'company', label: 'Company', group: 'contact', example: 'PT Maju Jaya' },
+  { name: 'email', label: 'Email', group: 'contact', example: 'budi@majujaya.co.id' },
+  { name: 'phone_number', label: 'Phone number', group: 'contact', example: '+62 812 3456 7890' },
+  { name: 'address', label: 'Address', group: 'contact', example: 'Jl. Sudirman No. 1, Jakarta' },
+  { name: 'status', label: 'Status', group: 'contact', example: 'Approached' },
+  { name: 'labels', label: 'Labels', group: 'contact', example: 'VIP, Reseller' },
+  { name: 'potential_products', label: 'Potential products', group: 'contact', example: 'Starter Plan, Add-on Pack' },
+
+  { name: 'my_name', label: 'Your name', group: 'sender', example: 'Sari Wijaya' },
+  { name: 'my_email', label: 'Your email', group: 'sender', example: 'sari@example.com' },
+  { name: 'team_name', label: 'Team name', group: 'sender', example: 'Sales Jakarta' },
+  { name: 'company_name', label: 'Company legal name', group: 'sender', example: 'PT Contoh Indonesia' },
+  { name: 'company_phone', label: 'Company phone', group: 'sender', example: '+62 21 555 0101' },
+  { name: 'company_email', label: 'Company email', group: 'sender', example: 'hello@contoh.co.id' },
+  { name: 'company_website', label: 'Company website', group: 'sender', example: 'https://contoh.co.id' },
+
+  { name: 'invoice_number', label: 'Invoice number', group: 'invoice', example: 'INV-2025-0042' },
+  { name: 'invoice_total', label: 'Invoice total', group: 'invoice', example: 'Rp1.500.000' },
+  { name: 'invoice_due_date', label: 'Invoice due date', group: 'invoice', example: '31 October 2025' },
+  { name: 'invoice_status', label: 'Invoice status', group: 'invoice', example: 'Sent' },
+  { name: 'invoice_balance', label: 'Outstanding balance', group: 'invoice', example: 'Rp750.000' },
+  { name: 'invoice_days_overdue', label: 'Days overdue', group: 'invoice', example: '12' },
+  { name: 'invoice_link', label: 'Invoice link', group: 'invoice', example: 'https://app.example.com/invoice/4f1c9a...' },
+
+  { name: 'deal_title', label: 'Deal title', group: 'deal', example: 'Annual subscription' },
+  { name: 'deal_stage', label: 'Deal stage', group: 'deal', example: 'Proposal' },
+  { name: 'deal_value', label: 'Deal value', group: 'deal', example: 'Rp12.000.000' },
+
+  { name: 'today', label: 'Today', group: 'date', example: '18 October 2025' },
+  { name: 'tomorrow', label: 'Tomorrow', group: 'date', example: '19 October 2025' },
+  { name: 'today+7', label: 'Date in N days', group: 'date', example: '25 October 2025' },
+  { name: 'weekday', label: 'Day of the week', group: 'date', example: 'Saturday' },
+  { name: 'month', label: 'Month', group: 'date', example: 'October' },
+  { name: 'year', label: 'Year', group: 'date', example: '2025' },
+  { name: 'greeting', label: 'Time-of-day greeting', group: 'date', example: 'Good morning' },
+];
+
+// today+N is resolved by the engine for any N, so it is not a fixed name
+export const KNOWN_TEMPLATE_VARIABLES = new Set(
+  TEMPLATE_VARIABLES.map(variable => variable.name).filter(name => name !== 'today+7')
+);
+
+const getGreeting = (date: Date) => {
+  const hour = date.getHours();
+  if (hour < 12) return 'Good morning';
+  if (hour < 18) return 'Good afternoon';
+  return 'Good evening';
+};
+
+const getDateValues = (now: Date): Record<string, string> => {
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  return {
+    today: formatTemplateDate(now),
+    tomorrow: formatTemplateDate(tomorrow),
+    weekday: now.toLocaleDateString('en-GB', { weekday: 'long' }),
+    month: now.toLocaleDateString('en-GB', { month: 'long' }),
+    year: String(now.getFullYear()),
+    greeting: getGreeting(now),
+  };
+};
+
+/**
+ * Builds template values for one contact
+ * @param source - Contact, sender and related records
+ * @returns Context for renderTemplate; missing records leave their variables empty
+ */
+export const buildTemplateContext = (source: TemplateContextSource): TemplateContext => {
+  const now = source.now || new Date();
+  const formatAmount = source.formatCurrency || ((amount: number) => amount.toLocaleString());
+  const { contact, sender, team, invoice, invoiceLink, deal } = source;
+
+  return {
+    now,
+    values: {
+      name: contact.name || '',
+      first_name: (contact.name || '').trim().split(/\s+/)[0] || '',
+      company: contact.company || '',
+      email: contact.email || '',
+      phone_number: contact.phone_number ? formatPhoneNumber(contact.phone_number) : '',
+      address: contact.address || '',
+      status: contact.status || '',
+      labels: (contact.labels || []).join(', '),
+      potential_products: (contact.potential_product || []).join(', '),
+
+      my_name: sender.name,
+      my_email: sender.email,
+      team_name: team?.name || '',
+      company_name: team?.company_legal_name || team?.name || '',
+      company_phone: team?.company_phone ? formatPhoneNumber(team.company_phone) : '',
+      company_email: team?.company_email || '',
+      company_website: team?.website || '',
+
+      invoice_number: invoice?.invoice_number || '',
+      invoice_total: invoice ? formatAmount(invoice.total, invoice.currency) : '',
+      invoice_due_date: invoice?.due_date ? formatTemplateDate(new Date(invoice.due_date)) : '',
+      invoice_status: invoice?.status || '',
+      invoice_balance: invoice ? formatAmount(getOutstandingBalance(invoice), invoice.currency) : '',
+      invoice_days_overdue: invoice ? String(getDaysOverdue(invoice, now)) : '',
+      invoice_link: invoiceLink || '',
+
+      deal_title: deal?.title || '',
+      deal_stage: deal?.stage || '',
+      deal_value: deal?.value !== null && deal?.value !== undefined ? formatAmount(deal.value, deal.currency) : '',
+
+      ...getDateValues(now),
+    },
+  };
+};
+
+/**
+ * Builds a context from the example values, used for live previews
+ * Date variables use the current date so previews show real output
+ * @returns Sample context
+ */
+export const getSampleTemplateContext = (): TemplateContext => {
+  const now = new Date();
+  const values: Record<string, string> = {};
+  TEMPLATE_VARIABLES.forEach(variable => {
+    values[variable.name] = variable.example;
+  });
+  delete values['today+7'];
+
+  return { now, values: { ...values, ...getDateValues(now) } };
+};
@@ -0,0 +1,52 @@
+/**
+ * Utility functions for picking and comparing message template variations
+ */
+
+import { MessageTemplateSet, MessageTemplateVariation, TemplateVariationStats } from '@/types/messageTemplate';
+
+/**
+ * Sorts the variations of a set in display order
+ * @param templateSet - Template set with its variations
+ * @returns Variations ordered by position
+ */
+export const getSortedVariations = (templateSet: MessageTemplateSet): MessageTemplateVariation[] =>
+  [...(templateSet.message_template_variations || [])].sort((a, b) => a.position - b.position);
+
+/**
+ * Lists the variations that can be sent
+ * @param templateSet - Template set with its variations
+ * @returns Active, non-empty variations in display order
+ */
+export const getActiveVariations = (templateSet: MessageTemplateSet): MessageTemplateVariation[] =>
+  getSortedVariations(templateSet).filter(variation => variation.is_active && variation.content.trim());
+
+/**
+ * Picks one active variation at random so every variation gets a fair share of sends
+ * @param templateSet - Template set with its variations
+ * @returns Picked variation and its 1-based number in display order, or null when none is active
+ */
+export const pickRandomVariation = (
+  templateSet: MessageTemplateSet
+): { variation: MessageTemplateVariation; variationNumber: number } | null => {
+  const active = getActiveVariations(templateSet);
+  if (active.length === 0) return null;
+
+  const variation = active[Math.floor(Math.random() * active.length)];
+  const variationNumber = getSortedVariations(templateSet).findIndex(v => v.id === variation.id) + 1;
+  return { variation, variationNumber };
+};
+
+/**
+ * Formats a count as a share of sends
+ * @param count - Replies or conversions
+ * @param sends - Number of sends
+ * @returns Percentage such as "42%", or "—" without sends
+ */
+export const formatVariationRate = (count: number, sends: number): string =>
+  sends > 0 ? `${Math.round((count / sends) * 100)}%` : '—';
+
+export const EMPTY_VARIATION_STATS: Omit<TemplateVariationStats, 'template_variation_id'> = {
+  sends: 0,
+  replies: 0,
+  conversions: 0,
+};
@@ -3,10 +3,24 @@
  * Mencegah UI freeze dengan memindahkan kalkulasi ke background thread
  */
 
+import type { FollowUpCadenceRule } from '@/types/followUp';
+import type { ContactReminder } from '@/types/reminder';
+import { getReminderState, getEffectiveDueDate } from '@/utils/reminderUtils';
+import {
+  DEFAULT_CADENCE_RULE,
+  normalizeStaleDays,
+  sortCadenceRules,
+  resolveCadenceRule,
+  isExcludedByCadence,
+  getCadenceBucketKey,
+  getCadenceBucketLabel
+} from '@/utils/followUpCadence';
+
 interface Contact {
   id: string;
   status: string;
   labels?: string[];
+  team_id?: string;
   created_at?: string;
   [key: string]: any;
 }
@@ -31,13 +45,27 @@ interface OptimisticActivity {
 
 interface FollowUpContact extends Contact {
   last_activity?: string;
+  reminder_id?: string;
+  reminder_due_at?: string;
+  reminder_title?: string;
+}
+
+type ReminderSummary = Pick<ContactReminder, 'id' | 'contact_id' | 'title' | 'due_at' | 'snoozed_until' | 'status'>;
+
+interface FollowUpBucket {
+  key: string;
+  label: string;
+  ruleId: string;
+  ruleName: string;
+  minDays: number;
+  contacts: FollowUpContact[];
 }
 
 interface FollowUpCalculations {
+  overdue: FollowUpContact[];
+  dueToday: FollowUpContact[];
   needsApproach: FollowUpContact[];
-  stale3Days: FollowUpContact[];
-  stale7Days: FollowUpContact[];
-  stale30Days: FollowUpContact[];
+  buckets: FollowUpBucket[];
 }
 
 interface CalculationMessage {
@@ -47,6 +75,8 @@ interface CalculationMessage {
     selectedLabels: string[];
     activityData: ActivityData;
     optimisticActivities: {[contactId: string]: OptimisticActivity[]};
+    cadenceRules: FollowUpCadenceRule[];
+    reminders: ReminderSummary[];
   };
 }
 
@@ -78,10 +108,38 @@ type WorkerMessage = CalculationMessage;
 type WorkerResponse = ProgressMessage | ResultMessage | ErrorMessage;
 
 /**
- * Filter active contacts based on status and labels
+ * Index the earliest due or overdue open reminder per contact
+ */
+function getDueReminders(reminders: ReminderSummary[], now: Date): Map<string, ReminderSummary> {
+  const dueReminders = new Map<string, ReminderSummary>();
+  
+  reminders.forEach(reminder => {
+    const state = getReminderState(reminder, now);
+    if (state !== 'overdue' && state !== 'due_today') return;
+    
+    const current = dueReminders.get(reminder.contact_id);
+    if (!current || getEffectiveDueDate(reminder) < getEffectiveDueDate(current)) {
+      dueReminders.set(reminder.contact_id, reminder);
+    }
+  });
+  
+  return dueReminders;
+}
+
+/**
+ * Filter active contacts based on cadence excluded statuses and labels.
+ * Contacts with a due reminder stay active regardless of their status
  */
-function getActiveContacts(contacts: Contact[], selectedLabels: string[]): Contact[] {
-  let activeContacts = contacts.filter(contact => contact.status !== 'Paid');
+function getActiveContacts(
+  contacts: Contact[],
+  selectedLabels: string[],
+  sortedRules: FollowUpCadenceRule[],
+  dueReminders: Map<string, ReminderSummary>
+): Contact[] {
+  let activeContacts = contacts.filter(contact =>
+    dueReminders.has(contact.id) ||
+    !isExcludedByCadence(contact, resolveCadenceRule(contact, sortedRules))
+  );
   
   // Apply label filter
   if (selectedLabels.length > 0) {
@@ -93,6 +151,20 @@ function getActiveContacts(contacts: Contact[], selectedLabels: string[]): Conta
   return activeContacts;
 }
 
+/**
+ * Create empty buckets for every threshold of a rule
+ */
+function createRuleBuckets(rule: FollowUpCadenceRule): FollowUpBucket[] {
+  return normalizeStaleDays(rule.stale_days).map(days => ({
+    key: getCadenceBucketKey(rule, days),
+    label: getCadenceBucketLabel(rule, days),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    minDays: days,
+    contacts: []
+  }));
+}
+
 /**
  * Calculate follow-up categories with progress reporting
  */
@@ -100,18 +172,34 @@ function calculateFollowUps(
   contacts: Contact[],
   selectedLabels: string[],
   activityData: ActivityData,
-  optimisticActivities: {[contactId: string]: OptimisticActivity[]}
+  optimisticActivities: {[contactId: string]: OptimisticActivity[]},
+  cadenceRules: FollowUpCadenceRule[],
+  reminders: ReminderSummary[]
 ): FollowUpCalculations {
   const startTime = performance.now();
   
-  const activeContacts = getActiveContacts(contacts, selectedLabels);
   const msPerDay = 24 * 60 * 60 * 1000;
   const now = new Date();
+  const sortedRules = sortCadenceRules(cadenceRules.filter(rule => rule.is_active));
+  const dueReminders = getDueReminders(reminders, now);
+  const activeContacts = getActiveContacts(contacts, selectedLabels, sortedRules, dueReminders);
   
+  const overdueList: FollowUpContact[] = [];
+  const dueTodayList: FollowUpContact[] = [];
   const needsApproachList: FollowUpContact[] = [];
-  const stale3DaysList: FollowUpContact[] = [];
-  const stale7DaysList: FollowUpContact[] = [];
-  const stale30DaysList: FollowUpContact[] = [];
+  // Buckets per rule, keyed by rule id; only rules used by a contact are emitted
+  const bucketsByRule = new Map<string, FollowUpBucket[]>();
+  const getBucketsForRule = (rule: FollowUpCadenceRule) => {
+    if (!bucketsByRule.has(rule.id)) {
+      bucketsByRule.set(rule.id, createRuleBuckets(rule));
+    }
+    return bucketsByRule.get(rule.id)!;
+  };
+
+  // Keep the familiar default tabs visible when no custom rules exist
+  if (sortedRules.length === 0) {
+    getBucketsForRule(DEFAULT_CADENCE_RULE);
+  }
 
   const total = activeContacts.length;
   let processed = 0;
@@ -122,8 +210,19 @@ function calculateFollowUps(
     
     // Check if contact has any activity (including optimistic)
     const hasActivity = contactActivity?.hasActivity || optimisticContactActivities.length > 0;
+    const dueReminder = dueReminders.get(contact.id);
     
-    if (!hasActivity) {
+    if (dueReminder) {
+      // Scheduled reminders take precedence over staleness buckets
+      const reminderList = getReminderState(dueReminder, now) === 'overdue' ? overdueList : dueTodayList;
+      reminderList.push({
+        ...contact,
+        last_activity: contactActivity?.lastActivityTimestamp?.toString() || null,
+        reminder_id: dueReminder.id,
+        reminder_due_at: getEffectiveDueDate(dueReminder).toISOString(),
+        reminder_title: dueReminder.title
+      });
+    } else if (!hasActivity) {
       // No activities - needs approach
       needsApproachList.push({ ...contact, last_activity: null });
     } else {
@@ -154,17 +253,17 @@ function calculateFollowUps(
         daysSinceCreated = Math.floor((now.getTime() - contactCreatedDate.getTime()) / msPerDay);
       }
 
-      // Categorize based on staleness
-      // Only add to stale categories if the contact meets the criteria
-      // Contacts with recent activity (< 3 days) should not appear in any category
-      if (daysSinceLastActivity >= 30 && (daysSinceCreated >= 30 || !contact.created_at)) {
-        stale30DaysList.push({ ...contact, last_activity: lastActivityTimestamp.toString() });
-      } else if (daysSinceLastActivity >= 7 && (daysSinceCreated >= 7 || !contact.created_at)) {
-        stale7DaysList.push({ ...contact, last_activity: lastActivityTimestamp.toString() });
-      } else if (daysSinceLastActivity >= 3 && (daysSinceCreated >= 3 || !contact.created_at)) {
-        stale3DaysList.push({ ...contact, last_activity: lastActivityTimestamp.toString() });
+      // Categorize based on the contact's cadence rule, highest threshold first.
+      // Contacts below the lowest threshold are "fresh" and don't appear in any bucket
+      const rule = resolveCadenceRule(contact, sortedRules);
+      const ruleBuckets = getBucketsForRule(rule);
+      for (let i = ruleBuckets.length - 1; i >= 0; i--) {
+        const bucket = ruleBuckets[i];
+        if (daysSinceLastActivity >= bucket.minDays && (daysSinceCreated >= bucket.minDays || !contact.created_at)) {
+          bucket.contacts.push({ ...contact, last_activity: lastActivityTimestamp.toString() });
+          break;
+        }
       }
-      // Contacts with daysSinceLastActivity < 3 are considered "fresh" and don't appear in any follow-up category
     }
     
     processed++;
@@ -186,11 +285,19 @@ function calculateFollowUps(
   const endTime = performance.now();
   const processingTime = endTime - startTime;
 
+  // Default rules first, then label rules in priority order
+  const ruleOrder = [DEFAULT_CADENCE_RULE, ...sortedRules.filter(rule => !rule.label), ...sortedRules.filter(rule => rule.label)];
+  const buckets = ruleOrder.flatMap(rule => bucketsByRule.get(rule.id) || []);
+
+  // Oldest reminders first so the most overdue work is on top
+  const byReminderDue = (a: FollowUpContact, b: FollowUpContact) =>
+    (a.reminder_due_at || '').localeCompare(b.reminder_due_at || '');
+
   return {
+    overdue: overdueList.sort(byReminderDue),
+    dueToday: dueTodayList.sort(byReminderDue),
     needsApproach: needsApproachList,
-    stale3Days: stale3DaysList,
-    stale7Days: stale7DaysList,
-    stale30Days: stale30DaysList,
+    buckets,
   };
 }
 
@@ -203,13 +310,15 @@ self.onmessage = function(event: MessageEvent<WorkerMessage>) {
   try {
     switch (type) {
       case 'CALCULATE_FOLLOW_UPS': {
-        const { contacts, selectedLabels, activityData, optimisticActivities } = payload;
+        const { contacts, selectedLabels, activityData, optimisticActivities, cadenceRules, reminders } = payload;
         
         const calculations = calculateFollowUps(
           contacts,
           selectedLabels,
           activityData,
-          optimisticActivities
+          optimisticActivities,
+          cadenceRules || [],
+          reminders || []
         );
         
         const resultMessage: ResultMessage = {
@@ -247,5 +356,7 @@ export type {
   ProgressMessage,
   ResultMessage,
   ErrorMessage,
-  FollowUpCalculations
+  FollowUpBucket,
+  FollowUpCalculations,
+  ReminderSummary
 };
\ No newline at end of file
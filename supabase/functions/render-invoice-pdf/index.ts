@@ -0,0 +1,619 @@
+/**
+ * Renders an invoice PDF on the server and archives the issued copy
+ *
+ * The PDF is built with pdf-lib from the stored invoice, its items, the contact, the team's
+ * company details and its invoice template. Nothing depends on the browser or the clock: the
+ * document dates are taken from the invoice, so rendering the same invoice twice gives the same
+ * bytes. The file is stored in the private invoice-archives bucket as
+ * <team_id>/<invoice_id>/<invoice_number>-v<version>.pdf, recorded in invoice_documents and logged
+ * as a 'PDF Archived' invoice activity that links to it.
+ *
+ * Draft and Void invoices are not archived. Sending goes through here as well: with `send`, a
+ * Draft invoice is rendered as Sent, archived, and only then moved to Sent, so an invoice is never
+ * Sent without its issued copy. The database refuses Draft to Sent without one.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const ARCHIVE_BUCKET = 'invoice-archives';
+const UNARCHIVED_STATUSES = ['Draft', 'Void'];
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+interface RenderInvoiceRequest {
+  invoice_id: string;
+  // Moves the invoice to Sent once its copy is archived
+  send?: boolean;
+}
+
+interface InvoiceTax {
+  name: string;
+  rate: number;
+  withholding: boolean;
+  amount: number;
+}
+
+type Language = 'en' | 'id';
+type Color = ReturnType<typeof rgb>;
+
+const LABELS: Record<Language, Record<string, string>> = {
+  en: {
+    invoice: 'INVOICE',
+    billTo: 'Bill To',
+    created: 'Created',
+    dueDate: 'Due Date',
+    status: 'Status',
+    description: 'Description',
+    quantity: 'Qty',
+    unitPrice: 'Unit Price',
+    total: 'Total',
+    items: 'Items',
+    discount: 'Discount',
+    subtotal: 'Subtotal',
+    subtotalExclTax: 'Subtotal (excl. tax)',
+    withheld: 'withheld',
+    notes: 'Notes',
+    paymentInformation: 'Payment Information',
+    bank: 'Bank',
+    account: 'Account',
+    accountHolder: 'Account Holder',
+    swift: 'SWIFT',
+    taxId: 'Tax ID',
+    authorizedSignature: 'Authorized Signature',
+    thankYou: 'Thank you for your business!',
+  },
+  id: {
+    invoice: 'FAKTUR',
+    billTo: 'Ditagihkan Kepada',
+    created: 'Tanggal',
+    dueDate: 'Jatuh Tempo',
+    status: 'Status',
+    description: 'Deskripsi',
+    quantity: 'Jml',
+    unitPrice: 'Harga Satuan',
+    total: 'Total',
+    items: 'Barang',
+    discount: 'Diskon',
+    subtotal: 'Subtotal',
+    subtotalExclTax: 'Subtotal (belum termasuk pajak)',
+    withheld: 'dipotong',
+    notes: 'Catatan',
+    paymentInformation: 'Informasi Pembayaran',
+    bank: 'Bank',
+    account: 'No. Rekening',
+    accountHolder: 'Atas Nama',
+    swift: 'SWIFT',
+    taxId: 'NPWP',
+    authorizedSignature: 'Tanda Tangan',
+    thankYou: 'Terima kasih atas kepercayaan Anda!',
+  },
+};
+
+const MONTHS: Record<Language, string[]> = {
+  en: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  id: ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'],
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Dates are printed in UTC so the output does not depend on the server's time zone
+const formatDate = (value: string, language: Language) => {
+  const date = new Date(value);
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = MONTHS[language][date.getUTCMonth()];
+  return language === 'id'
+    ? `${day} ${month} ${date.getUTCFullYear()}`
+    : `${month} ${day}, ${date.getUTCFullYear()}`;
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  `${currency} ${Number(amount || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const hexToRgb = (hex: string, fallback: Color): Color => {
+  const match = /^#([0-9a-fA-F]{6})$/.exec(hex || '');
+  if (!match) return fallback;
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// The standard fonts only cover WinAnsi; other characters would make pdf-lib throw
+const sanitize = (text: string) =>
+  text.replace(/\r/g, '').replace(/\t/g, ' ').replace(/[^\n\x20-\x7e\xa0-\xff]/g, '?');
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of sanitize(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Logos and signatures are optional; an image that cannot be fetched or embedded is left out
+const embedImage = async (pdf: PDFDocument, url?: string | null): Promise<PDFImage | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+    return null;
+  } catch (error) {
+    console.error('Image embed error:', error);
+    return null;
+  }
+};
+
+/**
+ * Writes text top to bottom and starts a new page when the current one is full
+ */
+class PageWriter {
+  page: PDFPage;
+  y: number;
+
+  constructor(private pdf: PDFDocument, private font: PDFFont) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(value: string, x: number, options: { size?: number; font?: PDFFont; color?: Color; align?: 'left' | 'right'; width?: number } = {}) {
+    const size = options.size ?? 10;
+    const font = options.font ?? this.font;
+    const clean = sanitize(value);
+    const textX = options.align === 'right'
+      ? x + (options.width ?? 0) - font.widthOfTextAtSize(clean, size)
+      : x;
+    this.page.drawText(clean, { x: textX, y: this.y - size, size, font, color: options.color ?? rgb(0.12, 0.16, 0.22) });
+  }
+
+  paragraph(value: string, options: { size?: number; color?: Color; width?: number } = {}) {
+    const size = options.size ?? 10;
+    for (const line of wrapText(value, this.font, size, options.width ?? CONTENT_WIDTH)) {
+      this.ensureSpace(size + 4);
+      this.text(line, MARGIN, { size, color: options.color });
+      this.y -= size + 4;
+    }
+  }
+
+  rule(color: Color, thickness = 1) {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness,
+      color,
+    });
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // Runs as the calling user, so RLS decides which invoices can be archived
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get user from JWT token
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const payload = await req.json() as RenderInvoiceRequest;
+    if (!payload.invoice_id) {
+      return jsonResponse({ error: 'invoice_id is required' }, 400);
+    }
+
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from('invoices')
+      .select('*')
+      .eq('id', payload.invoice_id)
+      .maybeSingle();
+
+    if (invoiceError || !invoice) {
+      return jsonResponse({ error: 'Invoice not found' }, 404);
+    }
+
+    const previousStatus = invoice.status;
+    if (payload.send) {
+      if (invoice.status === 'Void') {
+        return jsonResponse({ error: 'Void invoices cannot be sent' }, 400);
+      }
+      // The archived copy is the one the contact receives
+      invoice.status = 'Sent';
+    } else if (UNARCHIVED_STATUSES.includes(invoice.status)) {
+      return jsonResponse({ error: `${invoice.status} invoices are not archived` }, 400);
+    }
+
+    const [itemsResult, contactResult, teamResult, templateResult] = await Promise.all([
+      supabaseClient.from('invoice_items').select('*').eq('invoice_id', invoice.id).order('created_at'),
+      supabaseClient.from('contacts').select('name, company, address, email, phone_number').eq('id', invoice.contact_id).maybeSingle(),
+      supabaseClient.from('teams').select('*').eq('id', invoice.team_id).maybeSingle(),
+      supabaseClient.from('invoice_templates').select('*').eq('team_id', invoice.team_id).maybeSingle(),
+    ]);
+
+    if (itemsResult.error || teamResult.error || !teamResult.data) {
+      console.error('Load error:', itemsResult.error || teamResult.error);
+      return jsonResponse({ error: 'Failed to load invoice data' }, 500);
+    }
+
+    const items = itemsResult.data || [];
+    const contact = contactResult.data;
+    const team = teamResult.data;
+    const template = templateResult.data;
+    const language: Language = template?.language === 'id' ? 'id' : 'en';
+    const labels = LABELS[language];
+    const currency = invoice.currency || 'USD';
+    const money = (amount: number) => formatMoney(amount, currency);
+
+    const layout = template?.layout ?? 'classic';
+    const primary = layout === 'minimal' ? rgb(0.07, 0.09, 0.15) : hexToRgb(template?.primary_color, rgb(0.15, 0.39, 0.92));
+    const accent = layout === 'minimal' ? rgb(0.07, 0.09, 0.15) : hexToRgb(template?.accent_color, rgb(0.02, 0.59, 0.41));
+    const muted = rgb(0.42, 0.45, 0.5);
+    const border = rgb(0.9, 0.91, 0.92);
+
+    const pdf = await PDFDocument.create();
+    const documentDate = new Date(invoice.updated_at || invoice.created_at);
+    pdf.setTitle(`${labels.invoice} ${invoice.invoice_number}`);
+    pdf.setAuthor(team.company_legal_name || team.name);
+    pdf.setCreator('Invoice Manager');
+    pdf.setProducer('Invoice Manager');
+    pdf.setCreationDate(documentDate);
+    pdf.setModificationDate(documentDate);
+
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const logo = await embedImage(pdf, team.logo_url);
+    const signature = await embedImage(pdf, template?.signature_url);
+
+    const writer = new PageWriter(pdf, font);
+
+    // Header: company on the left, title and number on the right
+    if (layout === 'modern') {
+      writer.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 110, width: PAGE_WIDTH, height: 110, color: primary });
+    }
+    const headerColor = layout === 'modern' ? rgb(1, 1, 1) : primary;
+    const headerMuted = layout === 'modern' ? rgb(0.93, 0.95, 1) : muted;
+    let companyX = MARGIN;
+    if (logo) {
+      const scaled = logo.scaleToFit(60, 60);
+      writer.page.drawImage(logo, { x: MARGIN, y: writer.y - scaled.height, width: scaled.width, height: scaled.height });
+      companyX += scaled.width + 12;
+    }
+    writer.text(team.company_legal_name || team.name, companyX, { size: 14, font: bold, color: headerColor });
+    writer.text(labels.invoice, MARGIN, { size: 22, font: bold, color: headerColor, align: 'right', width: CONTENT_WIDTH });
+    const headerTop = writer.y;
+    writer.y -= 18;
+    const companyLines = [
+      team.company_address,
+      [team.city, team.state, team.postal_code].filter(Boolean).join(', '),
+      team.country,
+      team.company_phone,
+      team.company_email,
+      team.website,
+      team.tax_id ? `${labels.taxId}: ${team.tax_id}` : null,
+    ].filter(Boolean) as string[];
+    for (const line of companyLines) {
+      writer.text(line, companyX, { size: 8, color: headerMuted });
+      writer.y -= 11;
+    }
+    writer.y = Math.min(writer.y, headerTop - 30);
+    writer.text(`#${invoice.invoice_number}`, MARGIN, { size: 11, font: bold, color: headerColor, align: 'right', width: CONTENT_WIDTH });
+    writer.y = Math.min(writer.y - 20, PAGE_HEIGHT - 130);
+
+    if (template?.header_text) {
+      writer.paragraph(template.header_text, { size: 9, color: muted });
+      writer.y -= 8;
+    }
+
+    // Bill to and invoice details side by side
+    const detailsX = MARGIN + CONTENT_WIDTH - 180;
+    const sectionTop = writer.y;
+    writer.text(labels.billTo.toUpperCase(), MARGIN, { size: 9, font: bold, color: muted });
+    writer.y -= 16;
+    writer.text(contact?.name || 'N/A', MARGIN, { size: 11, font: bold });
+    writer.y -= 15;
+    for (const line of [contact?.company, contact?.address, contact?.phone_number, contact?.email].filter(Boolean) as string[]) {
+      writer.text(line, MARGIN, { size: 9, color: muted });
+      writer.y -= 12;
+    }
+    const billToBottom = writer.y;
+
+    writer.y = sectionTop;
+    const detailRows: [string, string][] = [
+      [labels.created, formatDate(invoice.created_at, language)],
+      ...(invoice.due_date ? [[labels.dueDate, formatDate(invoice.due_date, language)] as [string, string]] : []),
+      [labels.status, invoice.status],
+    ];
+    for (const [label, value] of detailRows) {
+      writer.text(`${label}:`, detailsX, { size: 9, color: muted });
+      writer.text(value, detailsX, { size: 9, font: bold, align: 'right', width: 180 });
+      writer.y -= 14;
+    }
+    writer.y = Math.min(billToBottom, writer.y) - 16;
+
+    // Items table; the discount column only appears when a line has a discount, like the client template
+    const formatItemDiscount = (item: { discount_type: string | null; discount_value: number | null }) =>
+      !item.discount_type || !item.discount_value
+        ? null
+        : item.discount_type === 'percent' ? `${item.discount_value}%` : money(item.discount_value);
+    const hasItemDiscounts = items.some(item => formatItemDiscount(item));
+    const descriptionWidth = hasItemDiscounts ? 220 : 280;
+    const columns = hasItemDiscounts
+      ? { quantity: MARGIN + 230, unitPrice: MARGIN + 270, discount: MARGIN + 350, total: MARGIN + 420 }
+      : { quantity: MARGIN + 300, unitPrice: MARGIN + 340, discount: 0, total: MARGIN + 420 };
+    const drawItemsHeader = () => {
+      writer.page.drawRectangle({ x: MARGIN, y: writer.y - 20, width: CONTENT_WIDTH, height: 20, color: layout === 'minimal' ? rgb(1, 1, 1) : primary });
+      const headColor = layout === 'minimal' ? primary : rgb(1, 1, 1);
+      writer.y -= 6;
+      writer.text(labels.description, MARGIN + 6, { size: 9, font: bold, color: headColor });
+      writer.text(labels.quantity, columns.quantity, { size: 9, font: bold, color: headColor, align: 'right', width: 30 });
+      writer.text(labels.unitPrice, columns.unitPrice, { size: 9, font: bold, color: headColor, align: 'right', width: 70 });
+      if (hasItemDiscounts) {
+        writer.text(labels.discount, columns.discount, { size: 9, font: bold, color: headColor, align: 'right', width: 60 });
+      }
+      writer.text(labels.total, columns.total, { size: 9, font: bold, color: headColor, align: 'right', width: CONTENT_WIDTH - 426 });
+      writer.y -= 18;
+    };
+    drawItemsHeader();
+
+    for (const item of items) {
+      const lines = wrapText(item.description, font, 9, descriptionWidth);
+      const rowHeight = lines.length * 12 + 8;
+      if (writer.y - rowHeight < MARGIN) {
+        writer.ensureSpace(PAGE_HEIGHT);
+        drawItemsHeader();
+      }
+      writer.y -= 4;
+      const rowTop = writer.y;
+      lines.forEach((line, index) => {
+        writer.y = rowTop - index * 12;
+        writer.text(line, MARGIN + 6, { size: 9 });
+      });
+      writer.y = rowTop;
+      writer.text(String(item.quantity), columns.quantity, { size: 9, align: 'right', width: 30 });
+      writer.text(money(item.unit_price), columns.unitPrice, { size: 9, color: muted, align: 'right', width: 70 });
+      if (hasItemDiscounts) {
+        writer.text(formatItemDiscount(item) || '-', columns.discount, { size: 9, color: accent, align: 'right', width: 60 });
+      }
+      writer.text(money(item.total_price), columns.total, { size: 9, font: bold, align: 'right', width: CONTENT_WIDTH - 426 });
+      writer.y = rowTop - rowHeight + 4;
+      writer.rule(border, 0.5);
+    }
+    writer.y -= 14;
+
+    // Totals
+    const taxes: InvoiceTax[] = invoice.taxes && invoice.taxes.length > 0
+      ? invoice.taxes
+      : invoice.tax_rate
+        ? [{ name: 'Tax', rate: invoice.tax_rate, withholding: false, amount: invoice.tax_amount || 0 }]
+        : [];
+    const summary: [string, string][] = [];
+    if ((invoice.discount_amount || 0) > 0) {
+      const itemsTotal = items.reduce((sum: number, item: { total_price: number }) => sum + Number(item.total_price), 0);
+      summary.push([labels.items, money(itemsTotal)]);
+      summary.push([
+        `${labels.discount}${invoice.discount_type === 'percent' ? ` (${invoice.discount_value}%)` : ''}`,
+        `-${money(invoice.discount_amount)}`,
+      ]);
+    }
+    summary.push([invoice.prices_include_tax ? labels.subtotalExclTax : labels.subtotal, money(invoice.subtotal)]);
+    for (const tax of taxes) {
+      summary.push([
+        `${tax.name} (${tax.rate}%)${tax.withholding ? ` ${labels.withheld}` : ''}`,
+        `${tax.withholding ? '-' : ''}${money(tax.amount)}`,
+      ]);
+    }
+
+    const totalsX = MARGIN + CONTENT_WIDTH - 230;
+    writer.ensureSpace(summary.length * 14 + 30);
+    for (const [label, value] of summary) {
+      writer.text(`${label}:`, totalsX, { size: 9, color: muted });
+      writer.text(value, totalsX, { size: 9, align: 'right', width: 230 });
+      writer.y -= 14;
+    }
+    writer.y -= 2;
+    writer.page.drawLine({ start: { x: totalsX, y: writer.y }, end: { x: PAGE_WIDTH - MARGIN, y: writer.y }, thickness: 1, color: accent });
+    writer.y -= 6;
+    writer.text(`${labels.total}:`, totalsX, { size: 12, font: bold });
+    writer.text(money(invoice.total), totalsX, { size: 12, font: bold, color: accent, align: 'right', width: 230 });
+    writer.y -= 30;
+
+    if (invoice.notes) {
+      writer.ensureSpace(30);
+      writer.text(labels.notes.toUpperCase(), MARGIN, { size: 9, font: bold, color: muted });
+      writer.y -= 14;
+      writer.paragraph(invoice.notes, { size: 9 });
+      writer.y -= 10;
+    }
+
+    if (team.bank_name || template?.payment_instructions) {
+      writer.ensureSpace(30);
+      writer.text(labels.paymentInformation.toUpperCase(), MARGIN, { size: 9, font: bold, color: muted });
+      writer.y -= 14;
+      const bankLines = team.bank_name ? [
+        `${labels.bank}: ${team.bank_name}`,
+        team.bank_account ? `${labels.account}: ${team.bank_account}` : null,
+        team.bank_account_holder ? `${labels.accountHolder}: ${team.bank_account_holder}` : null,
+        team.swift_code ? `${labels.swift}: ${team.swift_code}` : null,
+      ].filter(Boolean) as string[] : [];
+      for (const line of bankLines) {
+        writer.paragraph(line, { size: 9 });
+      }
+      if (template?.payment_instructions) {
+        writer.y -= 4;
+        writer.paragraph(template.payment_instructions, { size: 9 });
+      }
+      writer.y -= 10;
+    }
+
+    if (signature) {
+      const scaled = signature.scaleToFit(140, 60);
+      writer.ensureSpace(scaled.height + 30);
+      const signatureX = PAGE_WIDTH - MARGIN - 160;
+      writer.page.drawImage(signature, { x: signatureX + (160 - scaled.width) / 2, y: writer.y - scaled.height, width: scaled.width, height: scaled.height });
+      writer.y -= scaled.height + 4;
+      writer.page.drawLine({ start: { x: signatureX, y: writer.y }, end: { x: PAGE_WIDTH - MARGIN, y: writer.y }, thickness: 0.5, color: muted });
+      writer.y -= 4;
+      writer.text(labels.authorizedSignature, signatureX, { size: 8, color: muted, align: 'right', width: 160 });
+      writer.y -= 20;
+    }
+
+    writer.ensureSpace(30);
+    writer.rule(border);
+    writer.y -= 10;
+    writer.paragraph(template?.footer_text || labels.thankYou, { size: 9, color: muted });
+
+    const bytes = await pdf.save();
+
+    // Archived copies are written with the service role; members can only read them
+    const supabaseService = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { count, error: countError } = await supabaseService
+      .from('invoice_documents')
+      .select('id', { count: 'exact', head: true })
+      .eq('invoice_id', invoice.id);
+
+    if (countError) {
+      console.error('Document count error:', countError);
+      return jsonResponse({ error: 'Failed to archive invoice' }, 500);
+    }
+
+    const version = (count ?? 0) + 1;
+    const fileName = `${invoice.invoice_number}`.replace(/[^A-Za-z0-9_-]/g, '_');
+    const storagePath = `${invoice.team_id}/${invoice.id}/${fileName}-v${version}.pdf`;
+    const checksum = await sha256Hex(bytes);
+
+    const { error: uploadError } = await supabaseService.storage
+      .from(ARCHIVE_BUCKET)
+      .upload(storagePath, bytes, { contentType: 'application/pdf', upsert: false });
+
+    if (uploadError) {
+      console.error('Upload error:', uploadError);
+      return jsonResponse({ error: 'Failed to store invoice PDF' }, 500);
+    }
+
+    const { data: document, error: documentError } = await supabaseService
+      .from('invoice_documents')
+      .insert({
+        invoice_id: invoice.id,
+        team_id: invoice.team_id,
+        version,
+        invoice_number: invoice.invoice_number,
+        invoice_status: invoice.status,
+        storage_path: storagePath,
+        checksum,
+        size_bytes: bytes.length,
+        created_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (documentError) {
+      console.error('Document error:', documentError);
+      await supabaseService.storage.from(ARCHIVE_BUCKET).remove([storagePath]);
+      return jsonResponse({ error: 'Failed to record archived invoice' }, 500);
+    }
+
+    if (payload.send && previousStatus !== 'Sent') {
+      // As the calling user, so RLS decides whether they may change the invoice
+      const { error: statusError } = await supabaseClient
+        .from('invoices')
+        .update({ status: 'Sent', updated_at: new Date().toISOString() })
+        .eq('id', invoice.id);
+
+      if (statusError) {
+        console.error('Status error:', statusError);
+        await supabaseService.from('invoice_documents').delete().eq('id', document.id);
+        await supabaseService.storage.from(ARCHIVE_BUCKET).remove([storagePath]);
+        return jsonResponse({ error: 'Failed to mark invoice as sent' }, 500);
+      }
+
+      await supabaseService
+        .from('invoice_activities')
+        .insert({
+          invoice_id: invoice.id,
+          user_id: user.id,
+          activity_type: 'Status Updated',
+          details: 'Invoice status changed to Sent',
+        });
+    }
+
+    const { data: activity, error: activityError } = await supabaseService
+      .from('invoice_activities')
+      .insert({
+        invoice_id: invoice.id,
+        user_id: user.id,
+        activity_type: 'PDF Archived',
+        details: `Archived copy v${version} of invoice ${invoice.invoice_number} (${invoice.status})`,
+        document_id: document.id,
+      })
+      .select('*')
+      .single();
+
+    if (activityError) {
+      console.error('Activity error:', activityError);
+    }
+
+    return jsonResponse({ document, activity: activity ?? null }, 200);
+
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,227 @@
+/**
+ * Sends an email to a contact and logs it as an activity
+ *
+ * The activity is written before delivery with api_call_status 'pending' and updated to
+ * 'success' or 'failed' afterwards, so a send that never completes is still visible.
+ *
+ * Provider configuration (function secrets):
+ * - EMAIL_FROM: sender address, e.g. "Sales <sales@example.com>"
+ * - EMAIL_PROVIDER: 'smtp' (default) or 'http'
+ * - SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD, SMTP_TLS ('false' for plain connections)
+ * - EMAIL_HTTP_ENDPOINT, EMAIL_HTTP_API_KEY: JSON API taking { from, to, subject, text, reply_to }
+ *
+ * For local testing point SMTP at a mail catcher such as Mailpit:
+ * SMTP_HOST=host.docker.internal SMTP_PORT=1025 SMTP_TLS=false
+ */
+
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface SendEmailRequest {
+  contact_id: string;
+  subject: string;
+  body: string;
+  template_set_id?: string;
+  template_variation_id?: string;
+  template_title?: string;
+}
+
+interface OutgoingEmail {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const sendViaSmtp = async (email: OutgoingEmail) => {
+  const useTls = Deno.env.get('SMTP_TLS') !== 'false';
+  const username = Deno.env.get('SMTP_USERNAME');
+
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+      port: Number(Deno.env.get('SMTP_PORT') ?? (useTls ? 465 : 1025)),
+      tls: useTls,
+      ...(username ? { auth: { username, password: Deno.env.get('SMTP_PASSWORD') ?? '' } } : {}),
+    },
+    // Mail catchers speak plain SMTP without STARTTLS
+    ...(useTls ? {} : { debug: { allowUnsecure: true, noStartTLS: true } }),
+  });
+
+  try {
+    await client.send({
+      from: email.from,
+      to: email.to,
+      replyTo: email.replyTo,
+      subject: email.subject,
+      content: email.text,
+    });
+  } finally {
+    await client.close();
+  }
+};
+
+const sendViaHttp = async (email: OutgoingEmail) => {
+  const endpoint = Deno.env.get('EMAIL_HTTP_ENDPOINT');
+  if (!endpoint) throw new Error('EMAIL_HTTP_ENDPOINT is not configured');
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${Deno.env.get('EMAIL_HTTP_API_KEY') ?? ''}`,
+    },
+    body: JSON.stringify({
+      from: email.from,
+      to: email.to,
+      reply_to: email.replyTo,
+      subject: email.subject,
+      text: email.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email provider responded with ${response.status}: ${await response.text()}`);
+  }
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // Runs as the calling user, so RLS decides which contacts can be emailed
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get user from JWT token
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const payload = await req.json() as SendEmailRequest;
+    if (!payload.contact_id || !payload.subject?.trim() || !payload.body?.trim()) {
+      return jsonResponse({ error: 'contact_id, subject and body are required' }, 400);
+    }
+
+    const from = Deno.env.get('EMAIL_FROM');
+    if (!from) {
+      return jsonResponse({ error: 'Email sending is not configured' }, 500);
+    }
+
+    const { data: contact, error: contactError } = await supabaseClient
+      .from('contacts')
+      .select('id, name, email')
+      .eq('id', payload.contact_id)
+      .maybeSingle();
+
+    if (contactError || !contact) {
+      return jsonResponse({ error: 'Contact not found' }, 404);
+    }
+
+    if (!contact.email) {
+      return jsonResponse({ error: 'Contact has no email address' }, 400);
+    }
+
+    const details = payload.template_title
+      ? `Template: "${payload.template_title}" – Subject: "${payload.subject}"`
+      : `Subject: "${payload.subject}"`;
+
+    const { data: activity, error: activityError } = await supabaseClient
+      .from('activities')
+      .insert({
+        contact_id: contact.id,
+        user_id: user.id,
+        type: 'Email Sent',
+        details,
+        timestamp: new Date().toISOString(),
+        api_call_status: 'pending',
+        template_set_id: payload.template_set_id ?? null,
+        template_variation_id: payload.template_variation_id ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (activityError) {
+      console.error('Activity error:', activityError);
+      return jsonResponse({ error: 'Failed to log activity' }, 500);
+    }
+
+    const email: OutgoingEmail = {
+      from,
+      to: contact.email,
+      replyTo: user.email,
+      subject: payload.subject,
+      text: payload.body,
+    };
+
+    let deliveryError: string | null = null;
+    try {
+      if (Deno.env.get('EMAIL_PROVIDER') === 'http') {
+        await sendViaHttp(email);
+      } else {
+        await sendViaSmtp(email);
+      }
+    } catch (error) {
+      console.error('Delivery error:', error);
+      deliveryError = error instanceof Error ? error.message : String(error);
+    }
+
+    // The activity was inserted under the user's RLS; updating its status needs no further checks
+    const supabaseService = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const status = deliveryError ? 'failed' : 'success';
+    const { error: updateError } = await supabaseService
+      .from('activities')
+      .update({ api_call_status: status })
+      .eq('id', activity.id);
+
+    if (updateError) {
+      console.error('Activity update error:', updateError);
+    }
+
+    // Delivery failures are part of the result rather than an error, since the activity was logged
+    return jsonResponse({
+      activity_id: activity.id,
+      status,
+      ...(deliveryError ? { error: deliveryError } : {}),
+    }, 200);
+
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,76 @@
+-- Follow-up cadence rules
+-- Replaces the hard-coded 3/7/30 day follow-up buckets with per-team, per-label policies
+
+CREATE TABLE IF NOT EXISTS public.follow_up_cadence_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Contact label this rule applies to; NULL makes it the team-wide default
+  label TEXT,
+  -- Ascending stale thresholds in days, one follow-up bucket per entry
+  stale_days INTEGER[] NOT NULL DEFAULT '{3,7,30}',
+  -- Contact statuses that never show up in follow-ups
+  excluded_statuses TEXT[] NOT NULL DEFAULT '{Paid}',
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT follow_up_cadence_rules_stale_days_check
+    CHECK (cardinality(stale_days) > 0 AND 0 < ALL(stale_days))
+);
+
+-- One rule per label per team, and a single default rule per team
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_cadence_rules_team_label
+  ON public.follow_up_cadence_rules(team_id, label)
+  WHERE label IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_cadence_rules_team_default
+  ON public.follow_up_cadence_rules(team_id)
+  WHERE label IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_cadence_rules_team_id
+  ON public.follow_up_cadence_rules(team_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.follow_up_cadence_rules ENABLE ROW LEVEL SECURITY;
+
+-- Team members and owners can read their team's cadence rules
+CREATE POLICY "Team members can view cadence rules"
+  ON public.follow_up_cadence_rules
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = follow_up_cadence_rules.team_id AND tm.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = follow_up_cadence_rules.team_id AND t.owner_id = auth.uid()
+    )
+  );
+
+-- Only team owners and managers can change cadence rules
+CREATE POLICY "Team owners and managers can manage cadence rules"
+  ON public.follow_up_cadence_rules
+  FOR ALL
+  USING (
+    public.is_team_manager(follow_up_cadence_rules.team_id, auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = follow_up_cadence_rules.team_id AND t.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    public.is_team_manager(follow_up_cadence_rules.team_id, auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = follow_up_cadence_rules.team_id AND t.owner_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.follow_up_cadence_rules IS 'Per-team follow-up cadence policies used by the follow-up worker';
+COMMENT ON COLUMN public.follow_up_cadence_rules.label IS 'Contact label name the rule applies to, NULL for the team default';
+COMMENT ON COLUMN public.follow_up_cadence_rules.stale_days IS 'Ascending day thresholds, each rendered as a follow-up tab';
+COMMENT ON COLUMN public.follow_up_cadence_rules.excluded_statuses IS 'Contact statuses excluded from follow-ups';
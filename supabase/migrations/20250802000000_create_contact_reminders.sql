@@ -0,0 +1,63 @@
+-- Contact reminders
+-- Scheduled follow-up tasks ("call this contact again on Thursday") with snooze and completion
+
+CREATE TABLE IF NOT EXISTS public.contact_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  notes TEXT,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set when a reminder is pushed back; takes precedence over due_at
+  snoozed_until TIMESTAMP WITH TIME ZONE,
+  assigned_to UUID NOT NULL REFERENCES auth.users(id),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_reminders_contact_id ON public.contact_reminders(contact_id);
+CREATE INDEX IF NOT EXISTS idx_contact_reminders_assigned_open
+  ON public.contact_reminders(assigned_to, due_at)
+  WHERE status = 'open';
+
+-- Enable Row Level Security
+ALTER TABLE public.contact_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can access the contact can see and manage its reminders
+CREATE POLICY "Users can manage reminders for accessible contacts"
+  ON public.contact_reminders
+  FOR ALL
+  USING (
+    assigned_to = auth.uid()
+    OR created_by = auth.uid()
+    OR public.can_user_access_contact(contact_reminders.contact_id, auth.uid())
+  )
+  WITH CHECK (
+    public.can_user_access_contact(contact_reminders.contact_id, auth.uid())
+  );
+
+-- Keep updated_at and completed_at consistent with status changes
+CREATE OR REPLACE FUNCTION public.update_contact_reminder()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at = COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_contact_reminder_trigger
+  BEFORE UPDATE ON public.contact_reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_contact_reminder();
+
+COMMENT ON TABLE public.contact_reminders IS 'Scheduled follow-up reminders on contacts';
+COMMENT ON COLUMN public.contact_reminders.snoozed_until IS 'Effective due date after snoozing, overrides due_at while set';
@@ -0,0 +1,168 @@
+-- Duplicate contact detection and merge
+-- Pairs reviewed as "not a duplicate" are remembered, and merge_contacts moves all related
+-- records to the surviving contact in a single transaction
+
+CREATE TABLE IF NOT EXISTS public.contact_duplicate_dismissals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Stored with contact_a_id < contact_b_id so each pair has one row
+  contact_a_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  contact_b_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  dismissed_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT contact_duplicate_dismissals_order_check CHECK (contact_a_id < contact_b_id),
+  CONSTRAINT contact_duplicate_dismissals_pair_key UNIQUE (contact_a_id, contact_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_duplicate_dismissals_contact_b
+  ON public.contact_duplicate_dismissals(contact_b_id);
+
+ALTER TABLE public.contact_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view dismissals for accessible contacts"
+  ON public.contact_duplicate_dismissals
+  FOR SELECT
+  USING (
+    public.can_user_access_contact(contact_a_id, auth.uid())
+    AND public.can_user_access_contact(contact_b_id, auth.uid())
+  );
+
+CREATE POLICY "Users can dismiss pairs of accessible contacts"
+  ON public.contact_duplicate_dismissals
+  FOR INSERT
+  WITH CHECK (
+    dismissed_by = auth.uid()
+    AND public.can_user_access_contact(contact_a_id, auth.uid())
+    AND public.can_user_access_contact(contact_b_id, auth.uid())
+  );
+
+CREATE POLICY "Users can remove dismissals for accessible contacts"
+  ON public.contact_duplicate_dismissals
+  FOR DELETE
+  USING (
+    public.can_user_access_contact(contact_a_id, auth.uid())
+    AND public.can_user_access_contact(contact_b_id, auth.uid())
+  );
+
+-- Clears records of the merged contact that would clash with the surviving contact's once
+-- re-pointed; tables with a per-contact unique key extend this as they are added
+CREATE OR REPLACE FUNCTION public.resolve_contact_merge_conflicts(p_surviving_id UUID, p_merged_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  -- The surviving contact keeps its own qualification record when it has one
+  IF EXISTS (SELECT 1 FROM public.qualification_criteria WHERE contact_id = p_surviving_id) THEN
+    DELETE FROM public.qualification_criteria WHERE contact_id = p_merged_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_contact_merge_conflicts(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Merge p_merged_id into p_surviving_id
+-- p_field_values holds the chosen value for each contact field; fields not present keep
+-- the surviving contact's value. Every table referencing contacts is re-pointed, so tables
+-- added later are covered without changing this function.
+CREATE OR REPLACE FUNCTION public.merge_contacts(
+  p_surviving_id UUID,
+  p_merged_id UUID,
+  p_field_values JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_merged public.contacts%ROWTYPE;
+  v_reference RECORD;
+  v_count INTEGER;
+  v_moved JSONB := '{}'::jsonb;
+BEGIN
+  IF p_surviving_id = p_merged_id THEN
+    RAISE EXCEPTION 'A contact cannot be merged into itself';
+  END IF;
+
+  IF NOT public.can_user_access_contact(p_surviving_id, v_user_id)
+     OR NOT public.can_user_access_contact(p_merged_id, v_user_id) THEN
+    RAISE EXCEPTION 'Access denied: you cannot merge these contacts';
+  END IF;
+
+  -- Lock both rows so concurrent edits cannot interleave with the merge
+  PERFORM 1 FROM public.contacts WHERE id = p_surviving_id FOR UPDATE;
+  SELECT * INTO v_merged FROM public.contacts WHERE id = p_merged_id FOR UPDATE;
+
+  PERFORM public.resolve_contact_merge_conflicts(p_surviving_id, p_merged_id);
+
+  -- Dismissed pairs involving the merged contact no longer apply and go with it on delete
+  FOR v_reference IN
+    SELECT c.conrelid::regclass AS table_name, t.relname AS table_key, a.attname AS column_name
+    FROM pg_constraint c
+    JOIN pg_class t ON t.oid = c.conrelid
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    WHERE c.contype = 'f'
+      AND c.confrelid = 'public.contacts'::regclass
+      AND cardinality(c.conkey) = 1
+      AND c.conrelid <> 'public.contact_duplicate_dismissals'::regclass
+    ORDER BY t.relname, a.attname
+  LOOP
+    EXECUTE format(
+      'UPDATE %s SET %I = $1 WHERE %I = $2',
+      v_reference.table_name, v_reference.column_name, v_reference.column_name
+    ) USING p_surviving_id, p_merged_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    v_moved := v_moved || jsonb_build_object(
+      v_reference.table_key,
+      COALESCE((v_moved->>v_reference.table_key)::INTEGER, 0) + v_count
+    );
+  END LOOP;
+
+  -- Delete before updating so the surviving contact can take over the merged phone number
+  DELETE FROM public.contacts WHERE id = p_merged_id;
+
+  UPDATE public.contacts SET
+    name = COALESCE(p_field_values->>'name', name),
+    phone_number = COALESCE(p_field_values->>'phone_number', phone_number),
+    email = CASE WHEN p_field_values ? 'email' THEN p_field_values->>'email' ELSE email END,
+    company = CASE WHEN p_field_values ? 'company' THEN p_field_values->>'company' ELSE company END,
+    address = CASE WHEN p_field_values ? 'address' THEN p_field_values->>'address' ELSE address END,
+    notes = CASE WHEN p_field_values ? 'notes' THEN p_field_values->>'notes' ELSE notes END,
+    status = COALESCE(p_field_values->>'status', status),
+    labels = CASE
+      WHEN jsonb_typeof(p_field_values->'labels') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_field_values->'labels'))
+      ELSE labels
+    END,
+    potential_product = CASE
+      WHEN jsonb_typeof(p_field_values->'potential_product') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_field_values->'potential_product'))
+      ELSE potential_product
+    END
+  WHERE id = p_surviving_id;
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    p_surviving_id,
+    v_user_id,
+    'Contact Merged',
+    format(
+      'Merged duplicate contact "%s" (%s). Moved %s activities, %s engagements, %s deals, %s invoices and %s reminders.',
+      v_merged.name,
+      v_merged.phone_number,
+      COALESCE(v_moved->>'activities', '0'),
+      COALESCE(v_moved->>'engagements', '0'),
+      COALESCE(v_moved->>'deals', '0'),
+      COALESCE(v_moved->>'invoices', '0'),
+      COALESCE(v_moved->>'contact_reminders', '0')
+    ),
+    now()
+  );
+
+  RETURN json_build_object(
+    'surviving_id', p_surviving_id,
+    'merged_id', p_merged_id,
+    'moved', v_moved
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON TABLE public.contact_duplicate_dismissals IS 'Contact pairs marked as not duplicates in the duplicate finder';
+COMMENT ON FUNCTION public.merge_contacts(UUID, UUID, JSONB) IS 'Merges a duplicate contact into a surviving contact, re-pointing related records and logging an activity';
+COMMENT ON FUNCTION public.resolve_contact_merge_conflicts(UUID, UUID) IS 'Removes merged-contact records that would violate a per-contact unique key after a merge';
@@ -0,0 +1,31 @@
+-- Country-aware phone numbers
+-- Numbers typed without a calling code are read as national numbers of the team's default
+-- country, falling back to the user's default; contacts store phone numbers in E.164
+
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS default_phone_country TEXT NOT NULL DEFAULT 'ID';
+
+ALTER TABLE public.system_settings
+  ADD CONSTRAINT system_settings_default_phone_country_check
+  CHECK (default_phone_country IN ('ID', 'SG', 'MY', 'TH'));
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS default_phone_country TEXT;
+
+ALTER TABLE public.teams
+  ADD CONSTRAINT teams_default_phone_country_check
+  CHECK (default_phone_country IS NULL OR default_phone_country IN ('ID', 'SG', 'MY', 'TH'));
+
+-- Existing numbers were stored as digits with the Indonesian calling code prepended
+-- Skip any number whose E.164 form is already taken by another contact of the same user
+UPDATE public.contacts c
+SET phone_number = '+' || c.phone_number
+WHERE c.phone_number ~ '^[1-9][0-9]{7,14}$'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.contacts other
+    WHERE other.user_id = c.user_id
+      AND other.phone_number = '+' || c.phone_number
+  );
+
+COMMENT ON COLUMN public.system_settings.default_phone_country IS 'ISO country code used for phone numbers entered without a calling code';
+COMMENT ON COLUMN public.teams.default_phone_country IS 'ISO country code used for team contacts entered without a calling code; overrides the user default';
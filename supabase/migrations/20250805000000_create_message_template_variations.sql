@@ -0,0 +1,149 @@
+-- Any number of variations per message template set, with per-variation tracking
+-- Template sends logged in activities reference the set and variation used, so replies and
+-- conversions can be attributed to the variation that was sent
+
+CREATE TABLE IF NOT EXISTS public.message_template_variations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_set_id UUID NOT NULL REFERENCES public.message_template_sets(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Retired variations keep their stats but are no longer picked when sending
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_template_variations_set
+  ON public.message_template_variations(template_set_id, position);
+
+ALTER TABLE public.message_template_variations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage variations of their template sets"
+  ON public.message_template_variations
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.message_template_sets s
+      WHERE s.id = template_set_id AND s.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.message_template_sets s
+      WHERE s.id = template_set_id AND s.user_id = auth.uid()
+    )
+  );
+
+-- Move the fixed variation columns into rows
+INSERT INTO public.message_template_variations (template_set_id, content, position, created_at, updated_at)
+SELECT s.id, v.content, v.position, s.created_at, s.updated_at
+FROM public.message_template_sets s
+CROSS JOIN LATERAL (
+  VALUES
+    (s.template_variation_1, 1),
+    (s.template_variation_2, 2),
+    (s.template_variation_3, 3)
+) AS v(content, position)
+WHERE COALESCE(btrim(v.content), '') <> '';
+
+ALTER TABLE public.message_template_sets
+  DROP COLUMN IF EXISTS template_variation_1,
+  DROP COLUMN IF EXISTS template_variation_2,
+  DROP COLUMN IF EXISTS template_variation_3;
+
+-- Touch the parent set so its cache invalidation trigger runs for variation changes too
+CREATE OR REPLACE FUNCTION public.touch_message_template_set()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.message_template_sets
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.template_set_id, OLD.template_set_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_touch_template_set_on_variation_change ON public.message_template_variations;
+CREATE TRIGGER trigger_touch_template_set_on_variation_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.message_template_variations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_message_template_set();
+
+ALTER TABLE public.activities
+  ADD COLUMN IF NOT EXISTS template_set_id UUID REFERENCES public.message_template_sets(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS template_variation_id UUID REFERENCES public.message_template_variations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activities_template_variation
+  ON public.activities(template_variation_id)
+  WHERE template_variation_id IS NOT NULL;
+
+-- Per-variation performance of the current user's template sets
+-- A reply is a follow-up logged on the contact (a call or meeting note from the activity form)
+-- within p_reply_window_days of a send; system activities such as invoices and reminders don't count.
+-- a conversion is an invoice or deal created for the contact within p_conversion_window_days.
+-- Both are credited only to the latest template send before them.
+CREATE OR REPLACE FUNCTION public.get_template_variation_stats(
+  p_reply_window_days INTEGER DEFAULT 3,
+  p_conversion_window_days INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  template_variation_id UUID,
+  sends BIGINT,
+  replies BIGINT,
+  conversions BIGINT
+) AS $$
+  WITH sends AS (
+    SELECT a.id, a.contact_id, a.template_variation_id, a.timestamp AS sent_at
+    FROM public.activities a
+    JOIN public.message_template_variations v ON v.id = a.template_variation_id
+    JOIN public.message_template_sets s ON s.id = v.template_set_id
+    WHERE s.user_id = auth.uid()
+      AND a.timestamp IS NOT NULL
+  ),
+  attributed AS (
+    SELECT
+      sends.*,
+      -- The next template send to the same contact ends this send's attribution window
+      (
+        SELECT MIN(next.timestamp)
+        FROM public.activities next
+        WHERE next.contact_id = sends.contact_id
+          AND next.template_variation_id IS NOT NULL
+          AND next.timestamp > sends.sent_at
+      ) AS next_send_at
+    FROM sends
+  )
+  SELECT
+    t.template_variation_id,
+    COUNT(*) AS sends,
+    COUNT(*) FILTER (WHERE EXISTS (
+      SELECT 1 FROM public.activities r
+      WHERE r.contact_id = t.contact_id
+        AND r.timestamp > t.sent_at
+        AND r.timestamp <= t.sent_at + make_interval(days => p_reply_window_days)
+        AND (t.next_send_at IS NULL OR r.timestamp < t.next_send_at)
+        AND r.type IN ('Call Logged', 'Meeting Note')
+    )) AS replies,
+    COUNT(*) FILTER (WHERE
+      EXISTS (
+        SELECT 1 FROM public.invoices i
+        WHERE i.contact_id = t.contact_id
+          AND i.created_at > t.sent_at
+          AND i.created_at <= t.sent_at + make_interval(days => p_conversion_window_days)
+          AND (t.next_send_at IS NULL OR i.created_at < t.next_send_at)
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.deals d
+        WHERE d.contact_id = t.contact_id
+          AND d.created_at > t.sent_at
+          AND d.created_at <= t.sent_at + make_interval(days => p_conversion_window_days)
+          AND (t.next_send_at IS NULL OR d.created_at < t.next_send_at)
+      )
+    ) AS conversions
+  FROM attributed t
+  GROUP BY t.template_variation_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+COMMENT ON TABLE public.message_template_variations IS 'Message variations of a template set; one active variation is picked at random per send';
+COMMENT ON COLUMN public.activities.template_variation_id IS 'Template variation used for a template send, for A/B tracking';
+COMMENT ON FUNCTION public.get_template_variation_stats(INTEGER, INTEGER) IS 'Sends, replies and conversions per template variation of the current user';
@@ -0,0 +1,110 @@
+-- Bulk WhatsApp follow-up campaigns
+-- A campaign is a queue of personalized template messages that the user opens in WhatsApp one by one.
+-- Messages are rendered when the campaign is created so the reviewed text is exactly what gets sent,
+-- and the queue position lives in the recipients' statuses so a campaign can be resumed later.
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  template_set_id UUID REFERENCES public.message_template_sets(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_campaign_recipients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.whatsapp_campaigns(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  template_variation_id UUID REFERENCES public.message_template_variations(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'skipped')),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaigns_user_status
+  ON public.whatsapp_campaigns(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaign_recipients_queue
+  ON public.whatsapp_campaign_recipients(campaign_id, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.whatsapp_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own campaigns"
+  ON public.whatsapp_campaigns
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Recipients must be contacts the campaign owner can reach
+CREATE POLICY "Users can manage recipients of their campaigns"
+  ON public.whatsapp_campaign_recipients
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.whatsapp_campaigns c
+      WHERE c.id = campaign_id AND c.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.whatsapp_campaigns c
+      WHERE c.id = campaign_id AND c.user_id = auth.uid()
+    )
+    AND public.can_user_access_contact(contact_id, auth.uid())
+  );
+
+-- Keep updated_at and completed_at consistent with status changes
+CREATE OR REPLACE FUNCTION public.update_whatsapp_campaign()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at = COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_whatsapp_campaign_trigger
+  BEFORE UPDATE ON public.whatsapp_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_whatsapp_campaign();
+
+ALTER TABLE public.activities
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.whatsapp_campaigns(id) ON DELETE SET NULL;
+
+-- A campaign queues a contact once, so a merged contact only keeps its place where the
+-- surviving contact isn't queued already
+CREATE OR REPLACE FUNCTION public.resolve_contact_merge_conflicts(p_surviving_id UUID, p_merged_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  -- The surviving contact keeps its own qualification record when it has one
+  IF EXISTS (SELECT 1 FROM public.qualification_criteria WHERE contact_id = p_surviving_id) THEN
+    DELETE FROM public.qualification_criteria WHERE contact_id = p_merged_id;
+  END IF;
+
+  DELETE FROM public.whatsapp_campaign_recipients r
+  WHERE r.contact_id = p_merged_id
+    AND EXISTS (
+      SELECT 1 FROM public.whatsapp_campaign_recipients s
+      WHERE s.campaign_id = r.campaign_id AND s.contact_id = p_surviving_id
+    );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON TABLE public.whatsapp_campaigns IS 'Bulk WhatsApp follow-up campaigns sent one recipient at a time';
+COMMENT ON TABLE public.whatsapp_campaign_recipients IS 'Campaign queue; pending recipients are still to be sent, in position order';
+COMMENT ON COLUMN public.whatsapp_campaign_recipients.message IS 'Personalized message as reviewed when the campaign was created';
+COMMENT ON COLUMN public.activities.campaign_id IS 'Campaign a template send belongs to, if any';
@@ -0,0 +1,17 @@
+-- Email channel for message templates
+-- A template set is sent either over WhatsApp (wa.me links) or as an email through the send-email
+-- edge function; email variations carry a subject next to the body.
+
+ALTER TABLE public.message_template_sets
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'whatsapp'
+    CHECK (channel IN ('whatsapp', 'email'));
+
+ALTER TABLE public.message_template_variations
+  ADD COLUMN IF NOT EXISTS subject TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_message_template_sets_channel
+  ON public.message_template_sets(user_id, channel);
+
+COMMENT ON COLUMN public.message_template_sets.channel IS 'Delivery channel of the set: whatsapp or email';
+COMMENT ON COLUMN public.message_template_variations.subject IS 'Email subject template; only used by email template sets';
+COMMENT ON COLUMN public.activities.api_call_status IS 'Delivery status of sends made through an API: pending, success or failed';
@@ -0,0 +1,287 @@
+-- Recurring invoice profiles
+-- A profile bills a contact on a fixed schedule from a template of invoice items. Run dates are
+-- always counted from start_date (start + occurrence * interval), so month-end dates don't drift.
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL,
+  interval_unit TEXT NOT NULL DEFAULT 'month' CHECK (interval_unit IN ('week', 'month', 'quarter', 'year')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  -- Number of periods already generated or skipped; next_run_date is derived from it
+  occurrence INTEGER NOT NULL DEFAULT 0,
+  next_run_date DATE NOT NULL,
+  due_days INTEGER NOT NULL DEFAULT 14 CHECK (due_days >= 0),
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Item template copied into invoice_items on every run
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.recurring_invoice_profiles(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS recurring_profile_id UUID REFERENCES public.recurring_invoice_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_profiles_due
+  ON public.recurring_invoice_profiles(next_run_date)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_profiles_team ON public.recurring_invoice_profiles(team_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_items_profile ON public.recurring_invoice_items(profile_id, position);
+CREATE INDEX IF NOT EXISTS idx_invoices_recurring_profile
+  ON public.invoices(recurring_profile_id)
+  WHERE recurring_profile_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_invoice_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_items ENABLE ROW LEVEL SECURITY;
+
+-- Same access model as invoices: members can view, owners manage
+CREATE POLICY "Team members can view recurring invoice profiles"
+  ON public.recurring_invoice_profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = recurring_invoice_profiles.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage recurring invoice profiles"
+  ON public.recurring_invoice_profiles
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = recurring_invoice_profiles.team_id AND owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = recurring_invoice_profiles.team_id AND owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view recurring invoice items"
+  ON public.recurring_invoice_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.recurring_invoice_profiles p
+      JOIN public.team_members tm ON p.team_id = tm.team_id
+      WHERE p.id = recurring_invoice_items.profile_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage recurring invoice items"
+  ON public.recurring_invoice_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.recurring_invoice_profiles p
+      JOIN public.teams t ON p.team_id = t.id
+      WHERE p.id = recurring_invoice_items.profile_id AND t.owner_id = auth.uid()
+    )
+  );
+
+-- Run date of the given occurrence of a schedule (occurrence 0 is the start date)
+CREATE OR REPLACE FUNCTION public.recurring_invoice_run_date(
+  p_start_date DATE,
+  p_interval_unit TEXT,
+  p_interval_count INTEGER,
+  p_occurrence INTEGER
+)
+RETURNS DATE AS $$
+  SELECT (p_start_date + CASE p_interval_unit
+    WHEN 'week' THEN make_interval(days => 7 * p_interval_count * p_occurrence)
+    WHEN 'quarter' THEN make_interval(months => 3 * p_interval_count * p_occurrence)
+    WHEN 'year' THEN make_interval(years => p_interval_count * p_occurrence)
+    ELSE make_interval(months => p_interval_count * p_occurrence)
+  END)::DATE;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep updated_at current and next_run_date in line with the schedule
+CREATE OR REPLACE FUNCTION public.update_recurring_invoice_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  NEW.next_run_date = public.recurring_invoice_run_date(
+    NEW.start_date, NEW.interval_unit, NEW.interval_count, NEW.occurrence
+  );
+
+  -- A schedule ends by itself once its next run falls after the end date
+  IF NEW.end_date IS NOT NULL AND NEW.next_run_date > NEW.end_date THEN
+    NEW.status = 'ended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_recurring_invoice_profile_trigger
+  BEFORE INSERT OR UPDATE ON public.recurring_invoice_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_recurring_invoice_profile();
+
+-- Moves a schedule past its next run without creating an invoice
+CREATE OR REPLACE FUNCTION public.skip_recurring_invoice_run(p_profile_id UUID)
+RETURNS DATE AS $$
+DECLARE
+  v_next DATE;
+BEGIN
+  UPDATE public.recurring_invoice_profiles
+  SET occurrence = occurrence + 1
+  WHERE id = p_profile_id AND status <> 'ended'
+  RETURNING next_run_date INTO v_next;
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Creates the invoice for a profile's next run and advances the schedule
+-- Not callable by users: the scheduler runs it directly, team owners through generate_recurring_invoice
+CREATE OR REPLACE FUNCTION public.create_recurring_invoice(p_profile_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_profile public.recurring_invoice_profiles%ROWTYPE;
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_subtotal NUMERIC;
+  v_tax_amount NUMERIC;
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.recurring_invoice_profiles
+  WHERE id = p_profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_profile.status = 'ended' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity * unit_price), 0) INTO v_subtotal
+  FROM public.recurring_invoice_items
+  WHERE profile_id = p_profile_id;
+
+  v_tax_amount := v_subtotal * v_profile.tax_rate / 100;
+  v_invoice_number := public.generate_invoice_number();
+
+  INSERT INTO public.invoices (
+    invoice_number, contact_id, team_id, created_by, subtotal, tax_rate, tax_amount, total,
+    due_date, notes, recurring_profile_id
+  )
+  VALUES (
+    v_invoice_number, v_profile.contact_id, v_profile.team_id, v_profile.created_by,
+    v_subtotal, v_profile.tax_rate, v_tax_amount, v_subtotal + v_tax_amount,
+    v_profile.next_run_date + v_profile.due_days, v_profile.notes, v_profile.id
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO public.invoice_items (invoice_id, product_id, description, quantity, unit_price, total_price)
+  SELECT v_invoice_id, product_id, description, quantity, unit_price, quantity * unit_price
+  FROM public.recurring_invoice_items
+  WHERE profile_id = p_profile_id
+  ORDER BY position;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_invoice_id, v_profile.created_by, 'Invoice Created',
+    'Invoice ' || v_invoice_number || ' generated by recurring schedule "' || v_profile.name || '"'
+  );
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_profile.contact_id, v_profile.created_by, 'Invoice Created',
+    'Invoice ' || v_invoice_number || ' created for ' || to_char(v_subtotal + v_tax_amount, 'FM999999999990.00'),
+    now()
+  );
+
+  UPDATE public.recurring_invoice_profiles
+  SET occurrence = occurrence + 1,
+      last_run_at = now()
+  WHERE id = p_profile_id;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs a schedule early; limited to the owner of the profile's team
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice(p_profile_id UUID)
+RETURNS UUID AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1
+    FROM public.recurring_invoice_profiles p
+    JOIN public.teams t ON t.id = p.team_id
+    WHERE p.id = p_profile_id AND t.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can generate recurring invoices';
+  END IF;
+
+  RETURN public.create_recurring_invoice(p_profile_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Generates every invoice that has come due, including runs missed while the scheduler was down
+CREATE OR REPLACE FUNCTION public.run_due_recurring_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+  v_profile_id UUID;
+  v_generated INTEGER := 0;
+BEGIN
+  LOOP
+    SELECT id INTO v_profile_id
+    FROM public.recurring_invoice_profiles
+    WHERE status = 'active' AND next_run_date <= CURRENT_DATE
+    ORDER BY next_run_date
+    LIMIT 1;
+
+    EXIT WHEN v_profile_id IS NULL;
+
+    PERFORM public.create_recurring_invoice(v_profile_id);
+    v_generated := v_generated + 1;
+    v_profile_id := NULL;
+  END LOOP;
+
+  RETURN v_generated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.run_due_recurring_invoices() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_recurring_invoice(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_invoice(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_invoice(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.skip_recurring_invoice_run(UUID) TO authenticated;
+
+-- Run the schedule daily where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('run-recurring-invoices', '0 1 * * *', 'SELECT public.run_due_recurring_invoices();');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.recurring_invoice_profiles IS 'Schedules that generate invoices for a contact at a fixed interval';
+COMMENT ON TABLE public.recurring_invoice_items IS 'Invoice item template of a recurring invoice profile';
+COMMENT ON COLUMN public.invoices.recurring_profile_id IS 'Recurring profile that generated the invoice, if any';
+COMMENT ON FUNCTION public.create_recurring_invoice(UUID) IS 'Creates the next invoice of a recurring profile and advances its schedule';
+COMMENT ON FUNCTION public.generate_recurring_invoice(UUID) IS 'Runs a recurring profile early on behalf of its team owner';
+COMMENT ON FUNCTION public.run_due_recurring_invoices() IS 'Generates all due recurring invoices; scheduled daily through pg_cron';
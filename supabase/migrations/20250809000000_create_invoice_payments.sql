@@ -0,0 +1,163 @@
+-- Invoice payments ledger
+-- Every payment received against an invoice is a row here. invoices.amount_paid is kept in sync
+-- by trigger, which also moves the invoice to Paid once it is settled (and back to Sent if a
+-- payment is removed) and logs each change in invoice_activities.
+
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL DEFAULT 'bank_transfer'
+    CHECK (method IN ('bank_transfer', 'cash', 'card', 'e_wallet', 'cheque', 'other')),
+  reference TEXT,
+  notes TEXT,
+  recorded_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON public.invoice_payments(invoice_id, paid_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view invoice payments"
+  ON public.invoice_payments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices i
+      JOIN public.team_members tm ON i.team_id = tm.team_id
+      WHERE i.id = invoice_payments.invoice_id AND tm.user_id = auth.uid()
+    )
+  );
+
+-- Recording a payment follows the invoice update policy: any team member
+CREATE POLICY "Team members can record invoice payments"
+  ON public.invoice_payments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.invoices i
+      JOIN public.team_members tm ON i.team_id = tm.team_id
+      WHERE i.id = invoice_payments.invoice_id AND tm.user_id = auth.uid()
+    )
+    AND recorded_by = auth.uid()
+  );
+
+CREATE POLICY "Team owners can delete invoice payments"
+  ON public.invoice_payments
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices i
+      JOIN public.teams t ON i.team_id = t.id
+      WHERE i.id = invoice_payments.invoice_id AND t.owner_id = auth.uid()
+    )
+  );
+
+-- Rejects payments on void invoices and payments larger than the outstanding balance
+CREATE OR REPLACE FUNCTION public.validate_invoice_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF v_invoice.status = 'Void' THEN
+    RAISE EXCEPTION 'Payments cannot be recorded on a void invoice';
+  END IF;
+
+  IF NEW.amount > v_invoice.total - v_invoice.amount_paid THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %',
+      NEW.amount, v_invoice.total - v_invoice.amount_paid;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_invoice_payment_trigger
+  BEFORE INSERT ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_invoice_payment();
+
+-- Keeps amount_paid and the Paid status in line with the ledger
+CREATE OR REPLACE FUNCTION public.sync_invoice_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payment public.invoice_payments%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_amount_paid NUMERIC;
+  v_status TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_payment := OLD;
+  ELSE
+    v_payment := NEW;
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = v_payment.invoice_id;
+  IF NOT FOUND THEN
+    -- Invoice is being deleted along with its payments
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_amount_paid
+  FROM public.invoice_payments
+  WHERE invoice_id = v_payment.invoice_id;
+
+  v_status := v_invoice.status;
+  IF v_invoice.status <> 'Void' THEN
+    IF v_amount_paid >= v_invoice.total AND v_invoice.total > 0 THEN
+      v_status := 'Paid';
+    ELSIF v_invoice.status = 'Paid' THEN
+      v_status := 'Sent';
+    END IF;
+  END IF;
+
+  UPDATE public.invoices
+  SET amount_paid = v_amount_paid,
+      status = v_status,
+      updated_at = now()
+  WHERE id = v_payment.invoice_id;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_payment.invoice_id,
+    COALESCE(auth.uid(), v_payment.recorded_by),
+    CASE WHEN TG_OP = 'DELETE' THEN 'Payment Removed' ELSE 'Payment Recorded' END,
+    'Payment of ' || to_char(v_payment.amount, 'FM999999999990.00')
+      || ' (' || replace(v_payment.method, '_', ' ') || ')'
+      || COALESCE(', ref ' || v_payment.reference, '')
+      || ' on ' || to_char(v_payment.paid_at, 'YYYY-MM-DD')
+  );
+
+  IF v_status <> v_invoice.status THEN
+    INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+    VALUES (
+      v_payment.invoice_id,
+      COALESCE(auth.uid(), v_payment.recorded_by),
+      'Status Updated',
+      CASE WHEN v_status = 'Paid'
+        THEN 'Invoice fully paid'
+        ELSE 'Invoice status changed to ' || v_status || ' after a payment was removed'
+      END
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_invoice_payments_trigger
+  AFTER INSERT OR DELETE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_payments();
+
+COMMENT ON TABLE public.invoice_payments IS 'Payments received against invoices';
+COMMENT ON COLUMN public.invoice_payments.method IS 'bank_transfer, cash, card, e_wallet, cheque or other';
+COMMENT ON COLUMN public.invoices.amount_paid IS 'Sum of invoice_payments, maintained by trigger';
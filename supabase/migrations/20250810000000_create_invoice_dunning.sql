@@ -0,0 +1,177 @@
+-- Overdue detection and dunning reminders
+-- A daily job moves unpaid invoices past their due date to Overdue. Each team can define reminder
+-- sequences: steps that fall a number of days before or after the due date and point at a
+-- WhatsApp or email template set. Reminders that are sent are recorded per invoice and step.
+
+-- Flags Sent/Viewed invoices with an outstanding balance past their due date
+CREATE OR REPLACE FUNCTION public.mark_overdue_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH flagged AS (
+    UPDATE public.invoices
+    SET status = 'Overdue',
+        updated_at = now()
+    WHERE status IN ('Sent', 'Viewed')
+      AND due_date IS NOT NULL
+      AND due_date < CURRENT_DATE
+      AND amount_paid < total
+    RETURNING id, created_by, due_date
+  ),
+  logged AS (
+    INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+    SELECT id, created_by, 'Status Updated',
+      'Invoice marked Overdue (due ' || to_char(due_date, 'YYYY-MM-DD') || ')'
+    FROM flagged
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_count FROM logged;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_invoices() FROM PUBLIC, authenticated;
+
+-- Run the check daily where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('mark-overdue-invoices', '0 0 * * *', 'SELECT public.mark_overdue_invoices();');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.dunning_sequences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.dunning_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.dunning_sequences(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Negative values remind before the due date
+  days_after_due INTEGER NOT NULL DEFAULT 0,
+  channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'email')),
+  template_set_id UUID REFERENCES public.message_template_sets(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.invoice_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  step_id UUID REFERENCES public.dunning_steps(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('whatsapp', 'email')),
+  template_variation_id UUID REFERENCES public.message_template_variations(id) ON DELETE SET NULL,
+  sent_by UUID NOT NULL REFERENCES auth.users(id),
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, step_id)
+);
+
+-- One sequence per team drives the reminder queue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_sequences_active_team
+  ON public.dunning_sequences(team_id)
+  WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_dunning_steps_sequence ON public.dunning_steps(sequence_id, position);
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_invoice ON public.invoice_reminders(invoice_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.dunning_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dunning_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view dunning sequences"
+  ON public.dunning_sequences
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = dunning_sequences.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage dunning sequences"
+  ON public.dunning_sequences
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = dunning_sequences.team_id AND owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = dunning_sequences.team_id AND owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view dunning steps"
+  ON public.dunning_steps
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.dunning_sequences s
+      JOIN public.team_members tm ON s.team_id = tm.team_id
+      WHERE s.id = dunning_steps.sequence_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage dunning steps"
+  ON public.dunning_steps
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.dunning_sequences s
+      JOIN public.teams t ON s.team_id = t.id
+      WHERE s.id = dunning_steps.sequence_id AND t.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view invoice reminders"
+  ON public.invoice_reminders
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices i
+      JOIN public.team_members tm ON i.team_id = tm.team_id
+      WHERE i.id = invoice_reminders.invoice_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can record invoice reminders"
+  ON public.invoice_reminders
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.invoices i
+      JOIN public.team_members tm ON i.team_id = tm.team_id
+      WHERE i.id = invoice_reminders.invoice_id AND tm.user_id = auth.uid()
+    )
+    AND sent_by = auth.uid()
+  );
+
+CREATE OR REPLACE FUNCTION public.update_dunning_sequence_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_dunning_sequence_updated_at_trigger
+  BEFORE UPDATE ON public.dunning_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_dunning_sequence_updated_at();
+
+COMMENT ON FUNCTION public.mark_overdue_invoices() IS 'Moves unpaid invoices past their due date to Overdue; scheduled daily through pg_cron';
+COMMENT ON TABLE public.dunning_sequences IS 'Payment reminder sequences; the active one of a team drives its reminder queue';
+COMMENT ON TABLE public.dunning_steps IS 'Reminder steps, timed relative to the invoice due date';
+COMMENT ON TABLE public.invoice_reminders IS 'Reminders sent for an invoice, at most one per sequence step';
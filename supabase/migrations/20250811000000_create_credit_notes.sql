@@ -0,0 +1,409 @@
+-- Credit notes and refunds
+-- A credit note reverses part or all of an invoice by crediting quantities of its items. Credit
+-- notes have their own CN-0001 number sequence. invoices.amount_credited is kept in sync by
+-- trigger and counts towards settling the invoice together with payments. When an invoice was
+-- already paid, the credited amount is refunded to the customer and recorded on the credit note.
+
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_note_number TEXT NOT NULL UNIQUE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  status TEXT NOT NULL DEFAULT 'Issued' CHECK (status IN ('Issued', 'Void')),
+  reason TEXT,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax_rate DECIMAL(5, 2) DEFAULT 0,
+  tax_amount DECIMAL(10, 2) DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL CHECK (total > 0),
+  refund_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (refund_amount >= 0 AND refund_amount <= total),
+  refunded_at DATE,
+  refund_method TEXT
+    CHECK (refund_method IN ('bank_transfer', 'cash', 'card', 'e_wallet', 'cheque', 'other')),
+  refund_reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  invoice_item_id UUID REFERENCES public.invoice_items(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL,
+  total_price DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON public.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_team ON public.credit_notes(team_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note ON public.credit_note_items(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_invoice_item ON public.credit_note_items(invoice_item_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view credit notes"
+  ON public.credit_notes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = credit_notes.team_id AND tm.user_id = auth.uid()
+    )
+  );
+
+-- Credit notes are created through issue_credit_note(); owners can void them and record refunds
+CREATE POLICY "Team owners can update credit notes"
+  ON public.credit_notes
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = credit_notes.team_id AND t.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view credit note items"
+  ON public.credit_note_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.credit_notes cn
+      JOIN public.team_members tm ON cn.team_id = tm.team_id
+      WHERE cn.id = credit_note_items.credit_note_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_credit_notes_updated_at
+  BEFORE UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Format as CN-0001, CN-0002, etc.
+CREATE OR REPLACE FUNCTION public.generate_credit_note_number()
+RETURNS TEXT AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM '\d+') AS INTEGER)), 0) + 1
+  INTO next_number
+  FROM public.credit_notes
+  WHERE credit_note_number ~ '^CN-\d+$';
+
+  RETURN 'CN-' || LPAD(next_number::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Issues a credit note for quantities of an invoice's items
+-- p_items is a JSON array of { "invoice_item_id": uuid, "quantity": number }. Prices and the
+-- tax rate come from the invoice, and an item can't be credited beyond its invoiced quantity.
+CREATE OR REPLACE FUNCTION public.issue_credit_note(p_invoice_id UUID, p_reason TEXT, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_credit_note_id UUID;
+  v_credit_note_number TEXT;
+  v_line RECORD;
+  v_subtotal NUMERIC := 0;
+  v_tax_amount NUMERIC;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = v_invoice.team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can issue credit notes';
+  END IF;
+
+  IF v_invoice.status IN ('Draft', 'Void') THEN
+    RAISE EXCEPTION 'Credit notes cannot be issued for a % invoice', lower(v_invoice.status);
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one item';
+  END IF;
+
+  -- Check every line against what is left to credit on its invoice item
+  FOR v_line IN
+    SELECT ii.id, ii.description, ii.quantity AS invoiced, ii.unit_price, line.quantity,
+      COALESCE((
+        SELECT SUM(cni.quantity)
+        FROM public.credit_note_items cni
+        JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+        WHERE cni.invoice_item_id = ii.id AND cn.status = 'Issued'
+      ), 0) AS credited
+    FROM jsonb_to_recordset(p_items) AS line(invoice_item_id UUID, quantity DECIMAL(10, 2))
+    LEFT JOIN public.invoice_items ii ON ii.id = line.invoice_item_id AND ii.invoice_id = p_invoice_id
+  LOOP
+    IF v_line.id IS NULL THEN
+      RAISE EXCEPTION 'Credit note items must belong to the invoice';
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Credited quantities must be positive';
+    END IF;
+
+    IF v_line.quantity > v_line.invoiced - v_line.credited THEN
+      RAISE EXCEPTION 'Only % of "%" can still be credited', v_line.invoiced - v_line.credited, v_line.description;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.quantity * v_line.unit_price;
+  END LOOP;
+
+  v_tax_amount := v_subtotal * COALESCE(v_invoice.tax_rate, 0) / 100;
+  v_total := v_subtotal + v_tax_amount;
+  v_credit_note_number := public.generate_credit_note_number();
+
+  INSERT INTO public.credit_notes (
+    credit_note_number, invoice_id, team_id, contact_id, created_by, reason,
+    subtotal, tax_rate, tax_amount, total
+  )
+  VALUES (
+    v_credit_note_number, v_invoice.id, v_invoice.team_id, v_invoice.contact_id, auth.uid(),
+    NULLIF(trim(p_reason), ''), v_subtotal, COALESCE(v_invoice.tax_rate, 0), v_tax_amount, v_total
+  )
+  RETURNING id INTO v_credit_note_id;
+
+  INSERT INTO public.credit_note_items (credit_note_id, invoice_item_id, description, quantity, unit_price, total_price)
+  SELECT v_credit_note_id, ii.id, ii.description, line.quantity, ii.unit_price, line.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS line(invoice_item_id UUID, quantity DECIMAL(10, 2))
+  JOIN public.invoice_items ii ON ii.id = line.invoice_item_id;
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_invoice.contact_id, auth.uid(), 'Credit Note Issued',
+    'Credit note ' || v_credit_note_number || ' issued against invoice ' || v_invoice.invoice_number
+      || ' for ' || to_char(v_total, 'FM999999999990.00'),
+    now()
+  );
+
+  RETURN v_credit_note_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.issue_credit_note(UUID, TEXT, JSONB) TO authenticated;
+
+-- Decides the status of an invoice from what was paid and credited against it
+CREATE OR REPLACE FUNCTION public.settled_invoice_status(p_invoice public.invoices, p_settled NUMERIC)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_invoice.status = 'Void' THEN
+    RETURN p_invoice.status;
+  ELSIF p_settled >= p_invoice.total AND p_invoice.total > 0 THEN
+    RETURN 'Paid';
+  ELSIF p_invoice.status = 'Paid' THEN
+    RETURN 'Sent';
+  END IF;
+
+  RETURN p_invoice.status;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keeps amount_credited and the Paid status in line with the invoice's issued credit notes
+CREATE OR REPLACE FUNCTION public.sync_invoice_credits()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_amount_credited NUMERIC;
+  v_status TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+  SELECT COALESCE(SUM(total), 0) INTO v_amount_credited
+  FROM public.credit_notes
+  WHERE invoice_id = NEW.invoice_id AND status = 'Issued';
+
+  v_status := public.settled_invoice_status(v_invoice, v_invoice.amount_paid + v_amount_credited);
+
+  UPDATE public.invoices
+  SET amount_credited = v_amount_credited,
+      status = v_status,
+      updated_at = now()
+  WHERE id = NEW.invoice_id;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    NEW.invoice_id,
+    COALESCE(auth.uid(), NEW.created_by),
+    CASE WHEN TG_OP = 'INSERT' THEN 'Credit Note Issued' ELSE 'Credit Note Voided' END,
+    'Credit note ' || NEW.credit_note_number || ' for ' || to_char(NEW.total, 'FM999999999990.00')
+      || COALESCE(': ' || NEW.reason, '')
+  );
+
+  IF v_status <> v_invoice.status THEN
+    INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+    VALUES (
+      NEW.invoice_id,
+      COALESCE(auth.uid(), NEW.created_by),
+      'Status Updated',
+      CASE WHEN v_status = 'Paid'
+        THEN 'Invoice settled by payments and credit notes'
+        ELSE 'Invoice status changed to ' || v_status || ' after a credit note was voided'
+      END
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_invoice_credits_trigger
+  AFTER INSERT OR UPDATE OF status ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_credits();
+
+-- Void credit notes stay void
+CREATE OR REPLACE FUNCTION public.validate_credit_note_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'Void' AND NEW.status <> 'Void' THEN
+    RAISE EXCEPTION 'A void credit note cannot be reissued';
+  END IF;
+
+  IF NEW.total <> OLD.total OR NEW.invoice_id <> OLD.invoice_id THEN
+    RAISE EXCEPTION 'The amount and invoice of a credit note cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_credit_note_update_trigger
+  BEFORE UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_credit_note_update();
+
+-- Payments are now limited to what is left after credits
+CREATE OR REPLACE FUNCTION public.validate_invoice_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF v_invoice.status = 'Void' THEN
+    RAISE EXCEPTION 'Payments cannot be recorded on a void invoice';
+  END IF;
+
+  v_balance := v_invoice.total - v_invoice.amount_paid - v_invoice.amount_credited;
+  IF NEW.amount > v_balance THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, GREATEST(v_balance, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Credits count towards settling the invoice
+CREATE OR REPLACE FUNCTION public.sync_invoice_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payment public.invoice_payments%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_amount_paid NUMERIC;
+  v_status TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_payment := OLD;
+  ELSE
+    v_payment := NEW;
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = v_payment.invoice_id;
+  IF NOT FOUND THEN
+    -- Invoice is being deleted along with its payments
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_amount_paid
+  FROM public.invoice_payments
+  WHERE invoice_id = v_payment.invoice_id;
+
+  v_status := public.settled_invoice_status(v_invoice, v_amount_paid + v_invoice.amount_credited);
+
+  UPDATE public.invoices
+  SET amount_paid = v_amount_paid,
+      status = v_status,
+      updated_at = now()
+  WHERE id = v_payment.invoice_id;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_payment.invoice_id,
+    COALESCE(auth.uid(), v_payment.recorded_by),
+    CASE WHEN TG_OP = 'DELETE' THEN 'Payment Removed' ELSE 'Payment Recorded' END,
+    'Payment of ' || to_char(v_payment.amount, 'FM999999999990.00')
+      || ' (' || replace(v_payment.method, '_', ' ') || ')'
+      || COALESCE(', ref ' || v_payment.reference, '')
+      || ' on ' || to_char(v_payment.paid_at, 'YYYY-MM-DD')
+  );
+
+  IF v_status <> v_invoice.status THEN
+    INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+    VALUES (
+      v_payment.invoice_id,
+      COALESCE(auth.uid(), v_payment.recorded_by),
+      'Status Updated',
+      CASE WHEN v_status = 'Paid'
+        THEN 'Invoice fully paid'
+        ELSE 'Invoice status changed to ' || v_status || ' after a payment was removed'
+      END
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invoices settled by credit notes are not overdue
+CREATE OR REPLACE FUNCTION public.mark_overdue_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH flagged AS (
+    UPDATE public.invoices
+    SET status = 'Overdue',
+        updated_at = now()
+    WHERE status IN ('Sent', 'Viewed')
+      AND due_date IS NOT NULL
+      AND due_date < CURRENT_DATE
+      AND amount_paid + amount_credited < total
+    RETURNING id, created_by, due_date
+  ),
+  logged AS (
+    INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+    SELECT id, created_by, 'Status Updated',
+      'Invoice marked Overdue (due ' || to_char(due_date, 'YYYY-MM-DD') || ')'
+    FROM flagged
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_count FROM logged;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON TABLE public.credit_notes IS 'Credit notes reversing part or all of an invoice';
+COMMENT ON TABLE public.credit_note_items IS 'Invoice item quantities credited by a credit note';
+COMMENT ON COLUMN public.credit_notes.total IS 'Credited amount including tax, stored as a positive number';
+COMMENT ON COLUMN public.credit_notes.refund_amount IS 'Part of the credit paid back to the customer';
+COMMENT ON COLUMN public.invoices.amount_credited IS 'Sum of issued credit notes, maintained by trigger';
+COMMENT ON FUNCTION public.issue_credit_note(UUID, TEXT, JSONB) IS 'Issues a credit note for quantities of an invoice''s items';
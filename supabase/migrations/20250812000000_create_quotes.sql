@@ -0,0 +1,249 @@
+-- Quotes (proposals)
+-- A quote offers line items to a contact until a validity date and can be attached to a deal.
+-- Quotes have their own QUO-0001 number sequence. Accepting a quote creates a draft invoice with
+-- the same items and moves the attached deal to Negotiation or Closed Won. Sent quotes past
+-- their validity date are expired by a daily job.
+
+CREATE TABLE IF NOT EXISTS public.quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quote_number TEXT NOT NULL UNIQUE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  title TEXT,
+  status TEXT NOT NULL DEFAULT 'Draft'
+    CHECK (status IN ('Draft', 'Sent', 'Accepted', 'Declined', 'Expired')),
+  valid_until DATE NOT NULL,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax_rate DECIMAL(5, 2) DEFAULT 0,
+  tax_amount DECIMAL(10, 2) DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  -- Draft invoice created when the quote was accepted
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.quote_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_team ON public.quotes(team_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_quotes_deal ON public.quotes(deal_id);
+CREATE INDEX IF NOT EXISTS idx_quote_items_quote ON public.quote_items(quote_id, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quote_items ENABLE ROW LEVEL SECURITY;
+
+-- Quotes follow the invoice policies: members view, owners manage
+CREATE POLICY "Team members can view quotes"
+  ON public.quotes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = quotes.team_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can insert quotes"
+  ON public.quotes
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = quotes.team_id AND t.owner_id = auth.uid()
+    )
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Team owners can update quotes"
+  ON public.quotes
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = quotes.team_id AND t.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can delete quotes"
+  ON public.quotes
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = quotes.team_id AND t.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view quote items"
+  ON public.quote_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.quotes q
+      JOIN public.team_members tm ON q.team_id = tm.team_id
+      WHERE q.id = quote_items.quote_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage quote items"
+  ON public.quote_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.quotes q
+      JOIN public.teams t ON q.team_id = t.id
+      WHERE q.id = quote_items.quote_id AND t.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_quotes_updated_at
+  BEFORE UPDATE ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Format as QUO-0001, QUO-0002, etc.
+CREATE OR REPLACE FUNCTION public.generate_quote_number()
+RETURNS TEXT AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(CAST(SUBSTRING(quote_number FROM '\d+') AS INTEGER)), 0) + 1
+  INTO next_number
+  FROM public.quotes
+  WHERE quote_number ~ '^QUO-\d+$';
+
+  RETURN 'QUO-' || LPAD(next_number::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accepts a quote: creates a draft invoice with its items and advances the attached deal
+CREATE OR REPLACE FUNCTION public.accept_quote(p_quote_id UUID, p_deal_stage TEXT DEFAULT 'Closed Won')
+RETURNS UUID AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = v_quote.team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can accept quotes';
+  END IF;
+
+  IF v_quote.status NOT IN ('Draft', 'Sent') THEN
+    RAISE EXCEPTION 'Quote % is % and cannot be accepted', v_quote.quote_number, lower(v_quote.status);
+  END IF;
+
+  IF v_quote.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Quote % expired on %', v_quote.quote_number, to_char(v_quote.valid_until, 'YYYY-MM-DD');
+  END IF;
+
+  IF p_deal_stage NOT IN ('Negotiation', 'Closed Won') THEN
+    RAISE EXCEPTION 'An accepted quote moves its deal to Negotiation or Closed Won';
+  END IF;
+
+  v_invoice_number := public.generate_invoice_number();
+
+  INSERT INTO public.invoices (
+    invoice_number, contact_id, team_id, created_by, status, subtotal, tax_rate, tax_amount, total, notes
+  )
+  VALUES (
+    v_invoice_number, v_quote.contact_id, v_quote.team_id, auth.uid(), 'Draft',
+    v_quote.subtotal, v_quote.tax_rate, v_quote.tax_amount, v_quote.total, v_quote.notes
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO public.invoice_items (invoice_id, product_id, description, quantity, unit_price, total_price)
+  SELECT v_invoice_id, product_id, description, quantity, unit_price, total_price
+  FROM public.quote_items
+  WHERE quote_id = p_quote_id
+  ORDER BY position;
+
+  UPDATE public.quotes
+  SET status = 'Accepted',
+      responded_at = now(),
+      invoice_id = v_invoice_id
+  WHERE id = p_quote_id;
+
+  -- The deal trigger logs the stage and value changes
+  IF v_quote.deal_id IS NOT NULL THEN
+    UPDATE public.deals
+    SET stage = p_deal_stage::public.pipeline_stage,
+        value = v_quote.total
+    WHERE id = v_quote.deal_id;
+  END IF;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_invoice_id, auth.uid(), 'Invoice Created',
+    'Draft invoice ' || v_invoice_number || ' created from accepted quote ' || v_quote.quote_number
+  );
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_quote.contact_id, auth.uid(), 'Quote Accepted',
+    'Quote ' || v_quote.quote_number || ' accepted for ' || to_char(v_quote.total, 'FM999999999990.00')
+      || '; draft invoice ' || v_invoice_number || ' created',
+    now()
+  );
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.accept_quote(UUID, TEXT) TO authenticated;
+
+-- Expires sent quotes past their validity date
+CREATE OR REPLACE FUNCTION public.expire_quotes()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.quotes
+  SET status = 'Expired'
+  WHERE status = 'Sent'
+    AND valid_until < CURRENT_DATE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_quotes() FROM PUBLIC, authenticated;
+
+-- Run the check daily where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-quotes', '5 0 * * *', 'SELECT public.expire_quotes();');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.quotes IS 'Quotes offered to contacts, optionally attached to a deal';
+COMMENT ON TABLE public.quote_items IS 'Line items of a quote';
+COMMENT ON COLUMN public.quotes.invoice_id IS 'Draft invoice created when the quote was accepted';
+COMMENT ON FUNCTION public.accept_quote(UUID, TEXT) IS 'Accepts a quote, creating a draft invoice and advancing the attached deal';
+COMMENT ON FUNCTION public.expire_quotes() IS 'Expires sent quotes past their validity date; scheduled daily through pg_cron';
@@ -0,0 +1,291 @@
+-- Invoice discounts and multiple taxes
+-- Items can carry a percent or fixed discount and invoices an overall discount on top. Taxes are
+-- stored per invoice as a list of named rates; withholding taxes are deducted from the total.
+-- With tax-inclusive pricing the discounted item prices already contain the added taxes.
+-- invoices.subtotal stays the taxable amount, tax_amount the net of all taxes and tax_rate
+-- their combined rate, so total = subtotal + tax_amount keeps holding for existing readers.
+-- Quotes and recurring schedules are priced the same way and pass their pricing on to the
+-- invoices made from them.
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxes JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(taxes) = 'array');
+
+ALTER TABLE public.quote_items
+  ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0);
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxes JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(taxes) = 'array');
+
+ALTER TABLE public.recurring_invoice_items
+  ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0);
+
+-- Schedules only keep the tax rates; the amounts are worked out on every run
+ALTER TABLE public.recurring_invoice_profiles
+  ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxes JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(taxes) = 'array');
+
+-- Existing schedules carry on with their single tax rate
+UPDATE public.recurring_invoice_profiles
+SET taxes = jsonb_build_array(jsonb_build_object('name', 'Tax', 'rate', tax_rate, 'withholding', false))
+WHERE tax_rate > 0 AND taxes = '[]'::jsonb;
+
+-- Discount on an amount; percent discounts are capped at 100% and fixed ones at the amount
+CREATE OR REPLACE FUNCTION public.get_discount_amount(p_amount NUMERIC, p_type TEXT, p_value NUMERIC)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN p_type IS NULL OR COALESCE(p_value, 0) <= 0 OR p_amount <= 0 THEN 0
+    WHEN p_type = 'percent' THEN ROUND(p_amount * LEAST(p_value, 100) / 100, 2)
+    ELSE ROUND(LEAST(p_value, p_amount), 2)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same as before, but priced like an invoice from the app: item discounts, then the schedule's
+-- discount, then its taxes. With tax-inclusive prices the last added tax absorbs the rounding.
+CREATE OR REPLACE FUNCTION public.create_recurring_invoice(p_profile_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_profile public.recurring_invoice_profiles%ROWTYPE;
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_items_total NUMERIC;
+  v_discount_amount NUMERIC;
+  v_discounted NUMERIC;
+  v_added_rate NUMERIC;
+  v_withheld_rate NUMERIC;
+  v_subtotal NUMERIC;
+  v_taxes JSONB;
+  v_last_added INTEGER;
+  v_tax_amount NUMERIC;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.recurring_invoice_profiles
+  WHERE id = p_profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_profile.status = 'ended' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(
+    ROUND(quantity * unit_price, 2)
+      - public.get_discount_amount(ROUND(quantity * unit_price, 2), discount_type, discount_value)
+  ), 0) INTO v_items_total
+  FROM public.recurring_invoice_items
+  WHERE profile_id = p_profile_id;
+
+  v_discount_amount := public.get_discount_amount(v_items_total, v_profile.discount_type, v_profile.discount_value);
+  v_discounted := v_items_total - v_discount_amount;
+
+  SELECT
+    COALESCE(SUM((tax->>'rate')::NUMERIC) FILTER (WHERE NOT (tax->>'withholding')::BOOLEAN), 0),
+    COALESCE(SUM((tax->>'rate')::NUMERIC) FILTER (WHERE (tax->>'withholding')::BOOLEAN), 0)
+  INTO v_added_rate, v_withheld_rate
+  FROM jsonb_array_elements(v_profile.taxes) AS tax;
+
+  v_subtotal := CASE
+    WHEN v_profile.prices_include_tax THEN ROUND(v_discounted / (1 + v_added_rate / 100), 2)
+    ELSE v_discounted
+  END;
+
+  SELECT COALESCE(jsonb_agg(
+    tax || jsonb_build_object('amount', ROUND(v_subtotal * (tax->>'rate')::NUMERIC / 100, 2))
+    ORDER BY ordinal
+  ), '[]'::jsonb)
+  INTO v_taxes
+  FROM jsonb_array_elements(v_profile.taxes) WITH ORDINALITY AS t(tax, ordinal);
+
+  SELECT MAX(ordinal)::INTEGER INTO v_last_added
+  FROM jsonb_array_elements(v_taxes) WITH ORDINALITY AS t(tax, ordinal)
+  WHERE NOT (tax->>'withholding')::BOOLEAN;
+
+  IF v_profile.prices_include_tax AND v_last_added IS NOT NULL THEN
+    v_taxes := jsonb_set(v_taxes, ARRAY[(v_last_added - 1)::TEXT, 'amount'], to_jsonb(
+      v_discounted - v_subtotal - (
+        SELECT COALESCE(SUM((tax->>'amount')::NUMERIC), 0)
+        FROM jsonb_array_elements(v_taxes) WITH ORDINALITY AS t(tax, ordinal)
+        WHERE NOT (tax->>'withholding')::BOOLEAN AND ordinal <> v_last_added
+      )
+    ));
+  END IF;
+
+  SELECT COALESCE(SUM(CASE
+    WHEN (tax->>'withholding')::BOOLEAN THEN -(tax->>'amount')::NUMERIC
+    ELSE (tax->>'amount')::NUMERIC
+  END), 0) INTO v_tax_amount
+  FROM jsonb_array_elements(v_taxes) AS tax;
+
+  v_total := v_subtotal + v_tax_amount;
+  v_invoice_number := public.generate_invoice_number();
+
+  INSERT INTO public.invoices (
+    invoice_number, contact_id, team_id, created_by, subtotal, tax_rate, tax_amount, total,
+    discount_type, discount_value, discount_amount, prices_include_tax, taxes,
+    due_date, notes, recurring_profile_id
+  )
+  VALUES (
+    v_invoice_number, v_profile.contact_id, v_profile.team_id, v_profile.created_by,
+    v_subtotal, v_added_rate - v_withheld_rate, v_tax_amount, v_total,
+    v_profile.discount_type, v_profile.discount_value, v_discount_amount, v_profile.prices_include_tax, v_taxes,
+    v_profile.next_run_date + v_profile.due_days, v_profile.notes, v_profile.id
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_id, description, quantity, unit_price, discount_type, discount_value, total_price
+  )
+  SELECT v_invoice_id, product_id, description, quantity, unit_price, discount_type, discount_value,
+    ROUND(quantity * unit_price, 2)
+      - public.get_discount_amount(ROUND(quantity * unit_price, 2), discount_type, discount_value)
+  FROM public.recurring_invoice_items
+  WHERE profile_id = p_profile_id
+  ORDER BY position;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_invoice_id, v_profile.created_by, 'Invoice Created',
+    'Invoice ' || v_invoice_number || ' generated by recurring schedule "' || v_profile.name || '"'
+  );
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_profile.contact_id, v_profile.created_by, 'Invoice Created',
+    'Invoice ' || v_invoice_number || ' created for ' || to_char(v_total, 'FM999999999990.00'),
+    now()
+  );
+
+  UPDATE public.recurring_invoice_profiles
+  SET occurrence = occurrence + 1,
+      last_run_at = now()
+  WHERE id = p_profile_id;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Credit notes now follow the invoice's actual pricing: each credited unit is valued at its
+-- discounted line price, and the invoice discount and taxes are applied in proportion
+CREATE OR REPLACE FUNCTION public.issue_credit_note(p_invoice_id UUID, p_reason TEXT, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_credit_note_id UUID;
+  v_credit_note_number TEXT;
+  v_line RECORD;
+  v_lines_total NUMERIC := 0;
+  v_invoice_lines_total NUMERIC;
+  v_subtotal NUMERIC;
+  v_tax_amount NUMERIC;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = v_invoice.team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can issue credit notes';
+  END IF;
+
+  IF v_invoice.status IN ('Draft', 'Void') THEN
+    RAISE EXCEPTION 'Credit notes cannot be issued for a % invoice', lower(v_invoice.status);
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one item';
+  END IF;
+
+  SELECT COALESCE(SUM(total_price), 0) INTO v_invoice_lines_total
+  FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  IF v_invoice_lines_total <= 0 THEN
+    RAISE EXCEPTION 'Invoice % has nothing to credit', v_invoice.invoice_number;
+  END IF;
+
+  -- Check every line against what is left to credit on its invoice item
+  FOR v_line IN
+    SELECT ii.id, ii.description, ii.quantity AS invoiced, ii.total_price, line.quantity,
+      COALESCE((
+        SELECT SUM(cni.quantity)
+        FROM public.credit_note_items cni
+        JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+        WHERE cni.invoice_item_id = ii.id AND cn.status = 'Issued'
+      ), 0) AS credited
+    FROM jsonb_to_recordset(p_items) AS line(invoice_item_id UUID, quantity DECIMAL(10, 2))
+    LEFT JOIN public.invoice_items ii ON ii.id = line.invoice_item_id AND ii.invoice_id = p_invoice_id
+  LOOP
+    IF v_line.id IS NULL THEN
+      RAISE EXCEPTION 'Credit note items must belong to the invoice';
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Credited quantities must be positive';
+    END IF;
+
+    IF v_line.quantity > v_line.invoiced - v_line.credited THEN
+      RAISE EXCEPTION 'Only % of "%" can still be credited', v_line.invoiced - v_line.credited, v_line.description;
+    END IF;
+
+    v_lines_total := v_lines_total + v_line.quantity * v_line.total_price / v_line.invoiced;
+  END LOOP;
+
+  v_subtotal := ROUND(v_invoice.subtotal * v_lines_total / v_invoice_lines_total, 2);
+  v_total := ROUND(v_invoice.total * v_lines_total / v_invoice_lines_total, 2);
+  v_tax_amount := v_total - v_subtotal;
+  v_credit_note_number := public.generate_credit_note_number();
+
+  INSERT INTO public.credit_notes (
+    credit_note_number, invoice_id, team_id, contact_id, created_by, reason,
+    subtotal, tax_rate, tax_amount, total
+  )
+  VALUES (
+    v_credit_note_number, v_invoice.id, v_invoice.team_id, v_invoice.contact_id, auth.uid(),
+    NULLIF(trim(p_reason), ''), v_subtotal, COALESCE(v_invoice.tax_rate, 0), v_tax_amount, v_total
+  )
+  RETURNING id INTO v_credit_note_id;
+
+  INSERT INTO public.credit_note_items (credit_note_id, invoice_item_id, description, quantity, unit_price, total_price)
+  SELECT v_credit_note_id, ii.id, ii.description, line.quantity,
+    ROUND(ii.total_price / ii.quantity, 2), ROUND(line.quantity * ii.total_price / ii.quantity, 2)
+  FROM jsonb_to_recordset(p_items) AS line(invoice_item_id UUID, quantity DECIMAL(10, 2))
+  JOIN public.invoice_items ii ON ii.id = line.invoice_item_id;
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_invoice.contact_id, auth.uid(), 'Credit Note Issued',
+    'Credit note ' || v_credit_note_number || ' issued against invoice ' || v_invoice.invoice_number
+      || ' for ' || to_char(v_total, 'FM999999999990.00'),
+    now()
+  );
+
+  RETURN v_credit_note_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN public.invoice_items.total_price IS 'Line amount after the item discount';
+COMMENT ON COLUMN public.invoices.discount_amount IS 'Invoice-level discount applied to the item totals';
+COMMENT ON COLUMN public.invoices.prices_include_tax IS 'Whether item prices already include the added taxes';
+COMMENT ON COLUMN public.invoices.taxes IS 'Named taxes as [{ name, rate, withholding, amount }]; withholding taxes are deducted';
+COMMENT ON COLUMN public.invoices.tax_rate IS 'Combined rate of the invoice taxes, withholding taxes counted negative';
+COMMENT ON COLUMN public.quotes.taxes IS 'Named taxes as [{ name, rate, withholding, amount }], copied to the invoice on acceptance';
+COMMENT ON COLUMN public.recurring_invoice_profiles.taxes IS 'Named taxes as [{ name, rate, withholding }], applied to every generated invoice';
@@ -0,0 +1,328 @@
+-- Multi-currency invoices
+-- Every team reports in one currency. Invoices, quotes, products and deals carry their own
+-- currency, defaulting to the team's reporting currency. Each invoice snapshots the exchange
+-- rate to the reporting currency when it is created, taken from the team's rate table unless
+-- entered by hand, along with the reporting currency the rate is for. Rates are entered
+-- manually or imported from a rates file.
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT NOT NULL DEFAULT 'USD';
+
+-- Teams start out reporting in the currency their owner already uses
+UPDATE public.teams t
+SET reporting_currency = ss.currency
+FROM public.system_settings ss
+WHERE ss.user_id = t.owner_id;
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL,
+  -- Units of the team's reporting currency per unit of currency
+  rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+  ON public.exchange_rates(team_id, currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view exchange rates"
+  ON public.exchange_rates
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = exchange_rates.team_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage exchange rates"
+  ON public.exchange_rates
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = exchange_rates.team_id AND t.owner_id = auth.uid()
+    )
+  );
+
+-- Latest rate on or before a date; 1 for the reporting currency itself, NULL when unknown
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_team_id UUID, p_currency TEXT, p_on DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_reporting_currency TEXT;
+  v_rate NUMERIC;
+BEGIN
+  SELECT reporting_currency INTO v_reporting_currency FROM public.teams WHERE id = p_team_id;
+
+  IF v_reporting_currency IS NULL OR p_currency = v_reporting_currency THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate INTO v_rate
+  FROM public.exchange_rates
+  WHERE team_id = p_team_id AND currency = p_currency AND effective_date <= p_on
+  ORDER BY effective_date DESC
+  LIMIT 1;
+
+  RETURN v_rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_exchange_rate(UUID, TEXT, DATE) TO authenticated;
+
+-- Changes a team's reporting currency; its rates are relative to the old one, so they go with it
+CREATE OR REPLACE FUNCTION public.set_team_reporting_currency(p_team_id UUID, p_currency TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.teams WHERE id = p_team_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only team owners can change the reporting currency';
+  END IF;
+
+  UPDATE public.teams
+  SET reporting_currency = p_currency
+  WHERE id = p_team_id AND reporting_currency <> p_currency;
+
+  IF FOUND THEN
+    DELETE FROM public.exchange_rates WHERE team_id = p_team_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_team_reporting_currency(UUID, TEXT) TO authenticated;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS currency TEXT,
+  ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8) CHECK (exchange_rate > 0),
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE public.recurring_invoice_profiles ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS currency TEXT;
+
+-- Existing records were entered in their team's currency
+UPDATE public.invoices i SET currency = t.reporting_currency, exchange_rate = 1, reporting_currency = t.reporting_currency
+FROM public.teams t WHERE t.id = i.team_id AND i.currency IS NULL;
+UPDATE public.quotes q SET currency = t.reporting_currency
+FROM public.teams t WHERE t.id = q.team_id AND q.currency IS NULL;
+UPDATE public.recurring_invoice_profiles p SET currency = t.reporting_currency
+FROM public.teams t WHERE t.id = p.team_id AND p.currency IS NULL;
+UPDATE public.products p SET currency = t.reporting_currency
+FROM public.teams t WHERE t.id = p.team_id AND p.currency IS NULL;
+UPDATE public.deals d SET currency = t.reporting_currency
+FROM public.teams t WHERE t.id = d.team_id AND d.currency IS NULL;
+UPDATE public.deals d SET currency = COALESCE(
+  (SELECT ss.currency FROM public.system_settings ss WHERE ss.user_id = d.created_by), 'USD'
+)
+WHERE d.currency IS NULL;
+
+-- Fills in the team's reporting currency when a row is saved without one
+CREATE OR REPLACE FUNCTION public.set_default_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT reporting_currency INTO NEW.currency FROM public.teams WHERE id = NEW.team_id;
+  END IF;
+
+  NEW.currency := COALESCE(NEW.currency, 'USD');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invoices generated from a schedule keep its currency, and every invoice snapshots its
+-- exchange rate unless one was entered, with the reporting currency the rate converts to
+CREATE OR REPLACE FUNCTION public.set_invoice_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL AND NEW.recurring_profile_id IS NOT NULL THEN
+    SELECT currency INTO NEW.currency FROM public.recurring_invoice_profiles WHERE id = NEW.recurring_profile_id;
+  END IF;
+
+  IF NEW.currency IS NULL THEN
+    SELECT reporting_currency INTO NEW.currency FROM public.teams WHERE id = NEW.team_id;
+  END IF;
+
+  NEW.currency := COALESCE(NEW.currency, 'USD');
+
+  IF NEW.exchange_rate IS NULL THEN
+    NEW.exchange_rate := public.get_exchange_rate(NEW.team_id, NEW.currency, CURRENT_DATE);
+  END IF;
+
+  IF NEW.exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate from % to the team reporting currency; enter one on the invoice or add it to the rate table', NEW.currency;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate THEN
+    SELECT reporting_currency INTO NEW.reporting_currency FROM public.teams WHERE id = NEW.team_id;
+    NEW.reporting_currency := COALESCE(NEW.reporting_currency, NEW.currency);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_invoice_currency
+  BEFORE INSERT OR UPDATE OF exchange_rate ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_invoice_currency();
+
+CREATE TRIGGER set_quote_currency
+  BEFORE INSERT ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_currency();
+
+CREATE TRIGGER set_recurring_invoice_profile_currency
+  BEFORE INSERT ON public.recurring_invoice_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_currency();
+
+CREATE TRIGGER set_product_currency
+  BEFORE INSERT ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_currency();
+
+CREATE TRIGGER set_deal_currency
+  BEFORE INSERT ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_currency();
+
+-- Same as before, but a schedule whose invoice can't be created (such as a currency without a
+-- rate) is skipped with a warning instead of stopping every other schedule due that day
+CREATE OR REPLACE FUNCTION public.run_due_recurring_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+  v_profile_id UUID;
+  v_failed UUID[] := '{}';
+  v_generated INTEGER := 0;
+BEGIN
+  LOOP
+    SELECT id INTO v_profile_id
+    FROM public.recurring_invoice_profiles
+    WHERE status = 'active' AND next_run_date <= CURRENT_DATE
+      AND NOT (id = ANY(v_failed))
+    ORDER BY next_run_date
+    LIMIT 1;
+
+    EXIT WHEN v_profile_id IS NULL;
+
+    BEGIN
+      PERFORM public.create_recurring_invoice(v_profile_id);
+      v_generated := v_generated + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Recurring invoice profile % was not run: %', v_profile_id, SQLERRM;
+      v_failed := array_append(v_failed, v_profile_id);
+    END;
+    v_profile_id := NULL;
+  END LOOP;
+
+  RETURN v_generated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.invoices
+  ALTER COLUMN currency SET NOT NULL,
+  ALTER COLUMN exchange_rate SET NOT NULL,
+  ALTER COLUMN reporting_currency SET NOT NULL;
+ALTER TABLE public.quotes ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE public.recurring_invoice_profiles ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE public.products ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE public.deals ALTER COLUMN currency SET NOT NULL;
+
+-- The invoice created from an accepted quote keeps the quote's currency
+CREATE OR REPLACE FUNCTION public.accept_quote(p_quote_id UUID, p_deal_stage TEXT DEFAULT 'Closed Won')
+RETURNS UUID AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = v_quote.team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can accept quotes';
+  END IF;
+
+  IF v_quote.status NOT IN ('Draft', 'Sent') THEN
+    RAISE EXCEPTION 'Quote % is % and cannot be accepted', v_quote.quote_number, lower(v_quote.status);
+  END IF;
+
+  IF v_quote.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Quote % expired on %', v_quote.quote_number, to_char(v_quote.valid_until, 'YYYY-MM-DD');
+  END IF;
+
+  IF p_deal_stage NOT IN ('Negotiation', 'Closed Won') THEN
+    RAISE EXCEPTION 'An accepted quote moves its deal to Negotiation or Closed Won';
+  END IF;
+
+  v_invoice_number := public.generate_invoice_number();
+
+  INSERT INTO public.invoices (
+    invoice_number, contact_id, team_id, created_by, status, subtotal, tax_rate, tax_amount, total, notes,
+    currency, discount_type, discount_value, discount_amount, prices_include_tax, taxes
+  )
+  VALUES (
+    v_invoice_number, v_quote.contact_id, v_quote.team_id, auth.uid(), 'Draft',
+    v_quote.subtotal, v_quote.tax_rate, v_quote.tax_amount, v_quote.total, v_quote.notes,
+    v_quote.currency, v_quote.discount_type, v_quote.discount_value, v_quote.discount_amount,
+    v_quote.prices_include_tax, v_quote.taxes
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_id, description, quantity, unit_price, discount_type, discount_value, total_price
+  )
+  SELECT v_invoice_id, product_id, description, quantity, unit_price, discount_type, discount_value, total_price
+  FROM public.quote_items
+  WHERE quote_id = p_quote_id
+  ORDER BY position;
+
+  UPDATE public.quotes
+  SET status = 'Accepted',
+      responded_at = now(),
+      invoice_id = v_invoice_id
+  WHERE id = p_quote_id;
+
+  -- The deal trigger logs the stage and value changes
+  IF v_quote.deal_id IS NOT NULL THEN
+    UPDATE public.deals
+    SET stage = p_deal_stage::public.pipeline_stage,
+        value = v_quote.total
+    WHERE id = v_quote.deal_id;
+  END IF;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_invoice_id, auth.uid(), 'Invoice Created',
+    'Draft invoice ' || v_invoice_number || ' created from accepted quote ' || v_quote.quote_number
+  );
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_quote.contact_id, auth.uid(), 'Quote Accepted',
+    'Quote ' || v_quote.quote_number || ' accepted for ' || to_char(v_quote.total, 'FM999999999990.00')
+      || '; draft invoice ' || v_invoice_number || ' created',
+    now()
+  );
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+COMMENT ON TABLE public.exchange_rates IS 'Exchange rates to the team reporting currency, entered manually or imported';
+COMMENT ON COLUMN public.teams.reporting_currency IS 'Currency the team''s reports are converted to';
+COMMENT ON COLUMN public.invoices.exchange_rate IS 'Reporting currency per unit of the invoice currency, captured when the invoice was created';
+COMMENT ON COLUMN public.invoices.reporting_currency IS 'Reporting currency of the team when the exchange rate was captured';
+COMMENT ON FUNCTION public.get_exchange_rate(UUID, TEXT, DATE) IS 'Latest exchange rate of a currency to the team reporting currency on a date';
@@ -0,0 +1,57 @@
+-- Invoice PDF templates
+-- Each team picks one of the built-in PDF layouts and customizes it with brand colours, header
+-- and footer text, payment instructions, an optional signature or stamp image and the language
+-- the PDF is printed in. Teams without a row get the classic layout in English.
+
+CREATE TABLE IF NOT EXISTS public.invoice_templates (
+  team_id UUID NOT NULL PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  layout TEXT NOT NULL DEFAULT 'classic' CHECK (layout IN ('classic', 'modern', 'minimal')),
+  primary_color TEXT NOT NULL DEFAULT '#2563eb' CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  accent_color TEXT NOT NULL DEFAULT '#059669' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  header_text TEXT,
+  footer_text TEXT,
+  payment_instructions TEXT,
+  -- Public URL in the company-assets bucket, uploaded like the team logo
+  signature_url TEXT,
+  language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'id')),
+  updated_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoice_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view invoice templates"
+  ON public.invoice_templates
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = invoice_templates.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage invoice templates"
+  ON public.invoice_templates
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = invoice_templates.team_id AND owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = invoice_templates.team_id AND owner_id = auth.uid()
+    )
+    AND updated_by = auth.uid()
+  );
+
+CREATE TRIGGER update_invoice_templates_updated_at
+  BEFORE UPDATE ON public.invoice_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.invoice_templates IS 'Invoice PDF layout, branding and language chosen by each team';
+COMMENT ON COLUMN public.invoice_templates.signature_url IS 'Signature or stamp image printed above the signature line';
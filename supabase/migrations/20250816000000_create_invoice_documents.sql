@@ -0,0 +1,81 @@
+-- Archived invoice PDFs
+-- When an invoice moves to Sent, the render-invoice-pdf edge function renders it on the server
+-- and stores the issued copy in the private invoice-archives bucket under
+-- <team_id>/<invoice_id>/. Each copy is recorded here with a checksum and linked from the
+-- invoice activity that logged it. Copies are written by the edge function only and never
+-- changed, so the exact document the client received can be downloaded again later.
+-- Sending goes through the edge function, which archives the copy before changing the status;
+-- a draft without an archived Sent copy can't be moved to Sent.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoice-archives', 'invoice-archives', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- The first folder of an archived file is its team
+CREATE POLICY "Team members can view archived invoices"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'invoice-archives'
+  AND EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id::text = (storage.foldername(objects.name))[1] AND user_id = auth.uid()
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.invoice_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- Copies of one invoice are numbered 1, 2, ... in the order they were issued
+  version INTEGER NOT NULL CHECK (version > 0),
+  invoice_number TEXT NOT NULL,
+  invoice_status TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  -- SHA-256 of the stored file, hex encoded
+  checksum TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_documents_invoice ON public.invoice_documents(invoice_id, version DESC);
+
+ALTER TABLE public.invoice_documents ENABLE ROW LEVEL SECURITY;
+
+-- Rows are inserted by the edge function with the service role
+CREATE POLICY "Team members can view invoice documents"
+  ON public.invoice_documents
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = invoice_documents.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.require_archived_invoice_to_send()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'Draft' AND NEW.status = 'Sent' AND NOT EXISTS (
+    SELECT 1 FROM public.invoice_documents
+    WHERE invoice_id = NEW.id AND invoice_status = 'Sent'
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has no archived copy to send', NEW.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER require_archived_invoice_to_send_trigger
+  BEFORE UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_archived_invoice_to_send();
+
+ALTER TABLE public.invoice_activities
+  ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES public.invoice_documents(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE public.invoice_documents IS 'Server-rendered invoice PDFs archived when an invoice is sent';
+COMMENT ON COLUMN public.invoice_documents.storage_path IS 'Path in the invoice-archives bucket';
+COMMENT ON COLUMN public.invoice_activities.document_id IS 'Archived PDF the activity refers to';
@@ -0,0 +1,222 @@
+-- Public invoice links
+-- A share link gives the contact a read-only invoice page at /invoice/<token> without signing in.
+-- Tokens are 64 random hex characters and only valid until they expire or are revoked; an invoice
+-- has at most one active link, which is reused until then. The first time a link is opened by
+-- someone outside the team, a Sent invoice moves to Viewed and an 'Invoice Viewed' activity is
+-- logged. Later opens only update the view count.
+
+CREATE TABLE IF NOT EXISTS public.invoice_share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  first_viewed_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_share_links_invoice ON public.invoice_share_links(invoice_id, created_at DESC);
+
+ALTER TABLE public.invoice_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Links are created and revoked through functions, so members only need to read them; the
+-- token, expiry and view tracking can't be rewritten from the client
+CREATE POLICY "Team members can view invoice share links"
+  ON public.invoice_share_links
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = invoice_share_links.team_id AND user_id = auth.uid()
+    )
+  );
+
+-- Returns the invoice's active link, creating one that lasts p_valid_days if there is none
+CREATE OR REPLACE FUNCTION public.create_invoice_share_link(p_invoice_id UUID, p_valid_days INTEGER DEFAULT 30)
+RETURNS public.invoice_share_links AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_link public.invoice_share_links;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id;
+
+  IF v_invoice.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = v_invoice.team_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status IN ('Draft', 'Void') THEN
+    RAISE EXCEPTION '% invoices cannot be shared', v_invoice.status;
+  END IF;
+
+  IF p_valid_days IS NULL OR p_valid_days < 1 OR p_valid_days > 365 THEN
+    RAISE EXCEPTION 'Links must be valid for 1 to 365 days';
+  END IF;
+
+  SELECT * INTO v_link
+  FROM public.invoice_share_links
+  WHERE invoice_id = p_invoice_id
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_link.id IS NOT NULL THEN
+    RETURN v_link;
+  END IF;
+
+  INSERT INTO public.invoice_share_links (invoice_id, team_id, token, expires_at, created_by)
+  VALUES (
+    p_invoice_id,
+    v_invoice.team_id,
+    replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    now() + make_interval(days => p_valid_days),
+    auth.uid()
+  )
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_invoice_share_link(UUID, INTEGER) TO authenticated;
+
+-- Revokes a link for good; revoking it again keeps the original time
+CREATE OR REPLACE FUNCTION public.revoke_invoice_share_link(p_link_id UUID)
+RETURNS public.invoice_share_links AS $$
+DECLARE
+  v_link public.invoice_share_links;
+BEGIN
+  UPDATE public.invoice_share_links
+  SET revoked_at = COALESCE(revoked_at, now())
+  WHERE id = p_link_id
+    AND EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = invoice_share_links.team_id AND user_id = auth.uid()
+    )
+  RETURNING * INTO v_link;
+
+  IF v_link.id IS NULL THEN
+    RAISE EXCEPTION 'Share link not found';
+  END IF;
+
+  RETURN v_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_invoice_share_link(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_invoice_share_link(UUID) TO authenticated;
+
+-- Resolves a token to everything the public invoice page shows, or NULL for an invalid link
+CREATE OR REPLACE FUNCTION public.get_shared_invoice(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_link public.invoice_share_links;
+  v_invoice public.invoices;
+BEGIN
+  SELECT * INTO v_link
+  FROM public.invoice_share_links
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND expires_at > now();
+
+  IF v_link.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = v_link.invoice_id;
+
+  IF v_invoice.status = 'Void' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Team members checking the link do not count as the contact viewing it
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = v_link.team_id AND user_id = auth.uid()
+  ) THEN
+    IF v_link.first_viewed_at IS NULL THEN
+      IF v_invoice.status = 'Sent' THEN
+        UPDATE public.invoices
+        SET status = 'Viewed',
+            updated_at = now()
+        WHERE id = v_invoice.id
+        RETURNING * INTO v_invoice;
+      END IF;
+
+      INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+      VALUES (v_invoice.id, v_link.created_by, 'Invoice Viewed', 'Invoice opened from its shared link');
+    END IF;
+
+    UPDATE public.invoice_share_links
+    SET first_viewed_at = COALESCE(first_viewed_at, now()),
+        last_viewed_at = now(),
+        view_count = view_count + 1
+    WHERE id = v_link.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'invoice', to_jsonb(v_invoice) - 'created_by' - 'recurring_profile_id',
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ii) ORDER BY ii.created_at)
+      FROM public.invoice_items ii
+      WHERE ii.invoice_id = v_invoice.id
+    ), '[]'::jsonb),
+    'contact', (
+      SELECT jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'company', c.company,
+        'address', c.address,
+        'email', c.email,
+        'phone_number', c.phone_number
+      )
+      FROM public.contacts c
+      WHERE c.id = v_invoice.contact_id
+    ),
+    'company', (
+      SELECT jsonb_build_object(
+        'id', t.id,
+        'name', t.name,
+        'company_legal_name', t.company_legal_name,
+        'company_address', t.company_address,
+        'city', t.city,
+        'state', t.state,
+        'postal_code', t.postal_code,
+        'country', t.country,
+        'company_phone', t.company_phone,
+        'company_email', t.company_email,
+        'website', t.website,
+        'tax_id', t.tax_id,
+        'logo_url', t.logo_url,
+        'bank_name', t.bank_name,
+        'bank_account', t.bank_account,
+        'bank_account_holder', t.bank_account_holder,
+        'swift_code', t.swift_code
+      )
+      FROM public.teams t
+      WHERE t.id = v_invoice.team_id
+    ),
+    'template', (
+      SELECT to_jsonb(it) - 'updated_by'
+      FROM public.invoice_templates it
+      WHERE it.team_id = v_invoice.team_id
+    ),
+    'expires_at', v_link.expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_invoice(TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE public.invoice_share_links IS 'Expiring public links to a read-only invoice page';
+COMMENT ON COLUMN public.invoice_share_links.first_viewed_at IS 'First open by someone outside the team; moves a Sent invoice to Viewed';
+COMMENT ON FUNCTION public.create_invoice_share_link(UUID, INTEGER) IS 'Returns the active share link of an invoice, creating one if needed';
+COMMENT ON FUNCTION public.revoke_invoice_share_link(UUID) IS 'Revokes a share link; the only change members can make to one';
+COMMENT ON FUNCTION public.get_shared_invoice(TEXT) IS 'Loads a shared invoice by token and records the view';
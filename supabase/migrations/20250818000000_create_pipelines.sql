@@ -0,0 +1,548 @@
+-- Custom pipelines
+-- Teams can run several named pipelines, e.g. new sales and renewals, each with its own ordered
+-- stages. A stage has a default win probability and can be flagged as won or lost; closing logic
+-- uses these flags instead of the stage names. Deals point at a stage through stage_id, and
+-- deals.stage keeps the stage's name so existing readers and templates keep working.
+--
+-- Every team gets a default "Sales" pipeline with the six stages of the old pipeline_stage enum,
+-- and existing deals are moved onto it. Deals without a team are given their creator's team first;
+-- deals whose creator has no team stay without a pipeline.
+
+CREATE TABLE IF NOT EXISTS public.pipelines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- New deals of the team go here unless another pipeline is chosen
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipelines_one_default ON public.pipelines(team_id) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.pipeline_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pipeline_id UUID NOT NULL REFERENCES public.pipelines(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Probability a deal gets when it moves into the stage
+  probability INTEGER NOT NULL DEFAULT 0 CHECK (probability >= 0 AND probability <= 100),
+  is_won BOOLEAN NOT NULL DEFAULT false,
+  is_lost BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (pipeline_id, name),
+  CHECK (NOT (is_won AND is_lost))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_pipeline ON public.pipeline_stages(pipeline_id, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view pipelines"
+  ON public.pipelines
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = pipelines.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage pipelines"
+  ON public.pipelines
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = pipelines.team_id AND owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = pipelines.team_id AND owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view pipeline stages"
+  ON public.pipeline_stages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.pipelines p
+      JOIN public.team_members tm ON tm.team_id = p.team_id
+      WHERE p.id = pipeline_stages.pipeline_id AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage pipeline stages"
+  ON public.pipeline_stages
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.pipelines p
+      JOIN public.teams t ON t.id = p.team_id
+      WHERE p.id = pipeline_stages.pipeline_id AND t.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.pipelines p
+      JOIN public.teams t ON t.id = p.team_id
+      WHERE p.id = pipeline_stages.pipeline_id AND t.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_pipelines_updated_at
+  BEFORE UPDATE ON public.pipelines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_pipeline_stages_updated_at
+  BEFORE UPDATE ON public.pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Creates a team's default pipeline with the standard stages
+CREATE OR REPLACE FUNCTION public.create_default_pipeline(p_team_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_pipeline_id UUID;
+BEGIN
+  INSERT INTO public.pipelines (team_id, name, position, is_default)
+  VALUES (p_team_id, 'Sales', 0, true)
+  RETURNING id INTO v_pipeline_id;
+
+  INSERT INTO public.pipeline_stages (pipeline_id, name, position, probability, is_won, is_lost)
+  VALUES
+    (v_pipeline_id, 'Lead', 0, 10, false, false),
+    (v_pipeline_id, 'Qualified', 1, 25, false, false),
+    (v_pipeline_id, 'Proposal', 2, 50, false, false),
+    (v_pipeline_id, 'Negotiation', 3, 75, false, false),
+    (v_pipeline_id, 'Closed Won', 4, 100, true, false),
+    (v_pipeline_id, 'Closed Lost', 5, 0, false, true);
+
+  RETURN v_pipeline_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_default_pipeline(UUID) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_team_default_pipeline()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.create_default_pipeline(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_team_default_pipeline_trigger
+  AFTER INSERT ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_team_default_pipeline();
+
+-- Stages become free text; the enum is replaced by pipeline_stages
+ALTER TABLE public.deals ALTER COLUMN stage DROP DEFAULT;
+ALTER TABLE public.deals ALTER COLUMN stage TYPE TEXT USING stage::text;
+ALTER TABLE public.deal_activities ALTER COLUMN old_stage TYPE TEXT USING old_stage::text;
+ALTER TABLE public.deal_activities ALTER COLUMN new_stage TYPE TEXT USING new_stage::text;
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES public.pipelines(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS stage_id UUID REFERENCES public.pipeline_stages(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.deal_activities
+  ADD COLUMN IF NOT EXISTS old_stage_id UUID REFERENCES public.pipeline_stages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS new_stage_id UUID REFERENCES public.pipeline_stages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deals_stage ON public.deals(stage_id);
+CREATE INDEX IF NOT EXISTS idx_deals_pipeline ON public.deals(pipeline_id);
+
+-- Migrate existing data: deals without a team join their creator's team, preferring one they own
+UPDATE public.deals d
+SET team_id = COALESCE(
+  (SELECT t.id FROM public.teams t WHERE t.owner_id = d.created_by ORDER BY t.created_at LIMIT 1),
+  (SELECT tm.team_id FROM public.team_members tm WHERE tm.user_id = d.created_by ORDER BY tm.joined_at LIMIT 1)
+)
+WHERE d.team_id IS NULL;
+
+SELECT public.create_default_pipeline(t.id)
+FROM public.teams t
+WHERE NOT EXISTS (SELECT 1 FROM public.pipelines p WHERE p.team_id = t.id);
+
+-- Disable the deal triggers so the move is not logged as stage changes
+ALTER TABLE public.deals DISABLE TRIGGER USER;
+
+UPDATE public.deals d
+SET pipeline_id = p.id,
+    stage_id = s.id
+FROM public.pipelines p
+JOIN public.pipeline_stages s ON s.pipeline_id = p.id
+WHERE p.team_id = d.team_id
+  AND p.is_default
+  AND s.name = d.stage;
+
+ALTER TABLE public.deals ENABLE TRIGGER USER;
+
+UPDATE public.deal_activities a
+SET old_stage_id = (SELECT s.id FROM public.pipeline_stages s WHERE s.pipeline_id = d.pipeline_id AND s.name = a.old_stage),
+    new_stage_id = (SELECT s.id FROM public.pipeline_stages s WHERE s.pipeline_id = d.pipeline_id AND s.name = a.new_stage)
+FROM public.deals d
+WHERE d.id = a.deal_id
+  AND a.activity_type = 'stage_change';
+
+-- Keeps pipeline_id, stage_id and the stage name of a deal consistent
+-- Callers can set stage_id, or only a stage name, which is looked up in the deal's pipeline.
+-- Moving to another stage applies the stage's default probability unless one is given too.
+CREATE OR REPLACE FUNCTION public.set_deal_pipeline_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stage public.pipeline_stages%ROWTYPE;
+BEGIN
+  IF NEW.pipeline_id IS NULL AND NEW.stage_id IS NULL AND NEW.team_id IS NOT NULL THEN
+    SELECT id INTO NEW.pipeline_id
+    FROM public.pipelines
+    WHERE team_id = NEW.team_id AND is_default;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id AND NEW.stage IS DISTINCT FROM OLD.stage THEN
+    NEW.stage_id := NULL;
+  END IF;
+
+  IF NEW.stage_id IS NULL AND NEW.pipeline_id IS NOT NULL THEN
+    SELECT * INTO v_stage
+    FROM public.pipeline_stages
+    WHERE pipeline_id = NEW.pipeline_id
+      AND (NEW.stage IS NULL OR name = NEW.stage)
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_stage.id IS NULL THEN
+      RAISE EXCEPTION 'Stage "%" does not exist in this pipeline', NEW.stage;
+    END IF;
+  ELSIF NEW.stage_id IS NOT NULL THEN
+    SELECT * INTO v_stage FROM public.pipeline_stages WHERE id = NEW.stage_id;
+  END IF;
+
+  IF v_stage.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.team_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.pipelines WHERE id = v_stage.pipeline_id AND team_id = NEW.team_id
+  ) THEN
+    RAISE EXCEPTION 'The stage belongs to a pipeline of another team';
+  END IF;
+
+  NEW.stage_id := v_stage.id;
+  NEW.pipeline_id := v_stage.pipeline_id;
+  NEW.stage := v_stage.name;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.probability := COALESCE(NEW.probability, v_stage.probability);
+  ELSIF NEW.stage_id IS DISTINCT FROM OLD.stage_id AND NEW.probability IS NOT DISTINCT FROM OLD.probability THEN
+    NEW.probability := v_stage.probability;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Named so it runs before update_deal_stage_trigger, which relies on the resolved stage
+CREATE TRIGGER set_deal_pipeline_stage_trigger
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_deal_pipeline_stage();
+
+-- Closing now follows the won and lost flags of the stages
+CREATE OR REPLACE FUNCTION public.update_deal_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_was_closed BOOLEAN;
+  v_is_closed BOOLEAN;
+BEGIN
+  -- Update the updated_at timestamp
+  NEW.updated_at = now();
+
+  SELECT COALESCE(bool_or(is_won OR is_lost), false) INTO v_was_closed
+  FROM public.pipeline_stages WHERE id = OLD.stage_id;
+  SELECT COALESCE(bool_or(is_won OR is_lost), false) INTO v_is_closed
+  FROM public.pipeline_stages WHERE id = NEW.stage_id;
+
+  -- If stage changed to closed, set closed_at and actual_close_date
+  IF v_is_closed AND NOT v_was_closed THEN
+    NEW.closed_at = now();
+    IF NEW.actual_close_date IS NULL THEN
+      NEW.actual_close_date = CURRENT_DATE;
+    END IF;
+  -- A reopened deal is no longer closed
+  ELSIF v_was_closed AND NOT v_is_closed THEN
+    NEW.closed_at = NULL;
+    NEW.actual_close_date = NULL;
+  END IF;
+
+  -- If stage changed, log the activity
+  IF OLD.stage_id IS DISTINCT FROM NEW.stage_id THEN
+    INSERT INTO public.deal_activities (
+      deal_id,
+      activity_type,
+      old_stage,
+      new_stage,
+      old_stage_id,
+      new_stage_id,
+      created_by
+    ) VALUES (
+      NEW.id,
+      'stage_change',
+      OLD.stage,
+      NEW.stage,
+      OLD.stage_id,
+      NEW.stage_id,
+      auth.uid()
+    );
+  END IF;
+
+  -- If value changed, log the activity
+  IF OLD.value IS DISTINCT FROM NEW.value THEN
+    INSERT INTO public.deal_activities (
+      deal_id,
+      activity_type,
+      old_value,
+      new_value,
+      created_by
+    ) VALUES (
+      NEW.id,
+      'value_change',
+      OLD.value,
+      NEW.value,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.get_pipeline_analytics()
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  WITH deal_stages AS (
+    SELECT d.stage, d.value, COALESCE(s.is_won, false) AS is_won, COALESCE(s.is_lost, false) AS is_lost
+    FROM public.deals d
+    LEFT JOIN public.pipeline_stages s ON s.id = d.stage_id
+  )
+  SELECT json_build_object(
+    'total_deals', (SELECT COUNT(*) FROM deal_stages),
+    'total_value', (SELECT COALESCE(SUM(value), 0) FROM deal_stages),
+    'won_deals', (SELECT COUNT(*) FROM deal_stages WHERE is_won),
+    'won_value', (SELECT COALESCE(SUM(value), 0) FROM deal_stages WHERE is_won),
+    'conversion_rate', (
+      CASE
+        WHEN (SELECT COUNT(*) FROM deal_stages WHERE is_won OR is_lost) > 0
+        THEN ROUND(
+          (SELECT COUNT(*)::NUMERIC FROM deal_stages WHERE is_won) * 100.0 /
+          (SELECT COUNT(*)::NUMERIC FROM deal_stages WHERE is_won OR is_lost), 2
+        )
+        ELSE 0
+      END
+    ),
+    'stage_distribution', (
+      SELECT json_object_agg(stage, stage_count)
+      FROM (
+        SELECT stage, COUNT(*) as stage_count
+        FROM deal_stages
+        GROUP BY stage
+      ) stage_stats
+    ),
+    'average_deal_size', (
+      SELECT COALESCE(ROUND(AVG(value), 2), 0)
+      FROM deal_stages
+      WHERE is_won
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accepting a quote moves its deal to the won stage of the deal's pipeline for 'Closed Won',
+-- or to the stage with the given name; pipelines without that stage keep the deal where it is
+CREATE OR REPLACE FUNCTION public.accept_quote(p_quote_id UUID, p_deal_stage TEXT DEFAULT 'Closed Won')
+RETURNS UUID AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_stage_id UUID;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = v_quote.team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can accept quotes';
+  END IF;
+
+  IF v_quote.status NOT IN ('Draft', 'Sent') THEN
+    RAISE EXCEPTION 'Quote % is % and cannot be accepted', v_quote.quote_number, lower(v_quote.status);
+  END IF;
+
+  IF v_quote.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Quote % expired on %', v_quote.quote_number, to_char(v_quote.valid_until, 'YYYY-MM-DD');
+  END IF;
+
+  IF p_deal_stage NOT IN ('Negotiation', 'Closed Won') THEN
+    RAISE EXCEPTION 'An accepted quote moves its deal to Negotiation or Closed Won';
+  END IF;
+
+  v_invoice_number := public.generate_invoice_number();
+
+  INSERT INTO public.invoices (
+    invoice_number, contact_id, team_id, created_by, status, subtotal, tax_rate, tax_amount, total, notes,
+    currency, discount_type, discount_value, discount_amount, prices_include_tax, taxes
+  )
+  VALUES (
+    v_invoice_number, v_quote.contact_id, v_quote.team_id, auth.uid(), 'Draft',
+    v_quote.subtotal, v_quote.tax_rate, v_quote.tax_amount, v_quote.total, v_quote.notes,
+    v_quote.currency, v_quote.discount_type, v_quote.discount_value, v_quote.discount_amount,
+    v_quote.prices_include_tax, v_quote.taxes
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_id, description, quantity, unit_price, discount_type, discount_value, total_price
+  )
+  SELECT v_invoice_id, product_id, description, quantity, unit_price, discount_type, discount_value, total_price
+  FROM public.quote_items
+  WHERE quote_id = p_quote_id
+  ORDER BY position;
+
+  UPDATE public.quotes
+  SET status = 'Accepted',
+      responded_at = now(),
+      invoice_id = v_invoice_id
+  WHERE id = p_quote_id;
+
+  -- The deal trigger logs the stage and value changes
+  IF v_quote.deal_id IS NOT NULL THEN
+    SELECT s.id INTO v_stage_id
+    FROM public.deals d
+    JOIN public.pipeline_stages s ON s.pipeline_id = d.pipeline_id
+    WHERE d.id = v_quote.deal_id
+      AND CASE WHEN p_deal_stage = 'Closed Won' THEN s.is_won ELSE s.name = p_deal_stage END
+    ORDER BY s.position
+    LIMIT 1;
+
+    UPDATE public.deals
+    SET stage_id = COALESCE(v_stage_id, stage_id),
+        value = v_quote.total
+    WHERE id = v_quote.deal_id;
+  END IF;
+
+  INSERT INTO public.invoice_activities (invoice_id, user_id, activity_type, details)
+  VALUES (
+    v_invoice_id, auth.uid(), 'Invoice Created',
+    'Draft invoice ' || v_invoice_number || ' created from accepted quote ' || v_quote.quote_number
+  );
+
+  INSERT INTO public.activities (contact_id, user_id, type, details, timestamp)
+  VALUES (
+    v_quote.contact_id, auth.uid(), 'Quote Accepted',
+    'Quote ' || v_quote.quote_number || ' accepted for ' || to_char(v_quote.total, 'FM999999999990.00')
+      || '; draft invoice ' || v_invoice_number || ' created',
+    now()
+  );
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Renaming a stage renames it on its deals too
+CREATE OR REPLACE FUNCTION public.rename_deal_stages()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.deals
+  SET stage = NEW.name
+  WHERE stage_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER rename_deal_stages_trigger
+  AFTER UPDATE OF name ON public.pipeline_stages
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION public.rename_deal_stages();
+
+-- Replaces the stages of a pipeline in one go
+-- p_stages is the ordered JSON array of { "id"?: uuid, "name", "probability", "is_won", "is_lost" }.
+-- Stages left out are removed, which fails while deals are in them. Kept stages are given
+-- temporary names first so stages can swap names without clashing.
+CREATE OR REPLACE FUNCTION public.save_pipeline_stages(p_pipeline_id UUID, p_stages JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.pipelines p
+    JOIN public.teams t ON t.id = p.team_id
+    WHERE p.id = p_pipeline_id AND t.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only team owners can change pipeline stages';
+  END IF;
+
+  DELETE FROM public.pipeline_stages
+  WHERE pipeline_id = p_pipeline_id
+    AND id NOT IN (
+      SELECT (stage->>'id')::UUID
+      FROM jsonb_array_elements(p_stages) AS stage
+      WHERE stage->>'id' IS NOT NULL
+    );
+
+  UPDATE public.pipeline_stages
+  SET name = id::TEXT
+  WHERE pipeline_id = p_pipeline_id;
+
+  UPDATE public.pipeline_stages s
+  SET name = trim(stage.value->>'name'),
+      probability = (stage.value->>'probability')::INTEGER,
+      is_won = COALESCE((stage.value->>'is_won')::BOOLEAN, false),
+      is_lost = COALESCE((stage.value->>'is_lost')::BOOLEAN, false),
+      position = stage.ordinality - 1
+  FROM jsonb_array_elements(p_stages) WITH ORDINALITY AS stage
+  WHERE s.pipeline_id = p_pipeline_id
+    AND s.id = (stage.value->>'id')::UUID;
+
+  INSERT INTO public.pipeline_stages (pipeline_id, name, probability, is_won, is_lost, position)
+  SELECT
+    p_pipeline_id,
+    trim(stage.value->>'name'),
+    (stage.value->>'probability')::INTEGER,
+    COALESCE((stage.value->>'is_won')::BOOLEAN, false),
+    COALESCE((stage.value->>'is_lost')::BOOLEAN, false),
+    stage.ordinality - 1
+  FROM jsonb_array_elements(p_stages) WITH ORDINALITY AS stage
+  WHERE stage.value->>'id' IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_pipeline_stages(UUID, JSONB) TO authenticated;
+
+DROP TYPE IF EXISTS public.pipeline_stage;
+
+COMMENT ON TABLE public.pipelines IS 'Named deal pipelines of a team';
+COMMENT ON TABLE public.pipeline_stages IS 'Ordered stages of a pipeline with default probabilities and won/lost flags';
+COMMENT ON COLUMN public.deals.stage IS 'Name of the deal''s stage, kept in sync with stage_id';
+COMMENT ON FUNCTION public.save_pipeline_stages(UUID, JSONB) IS 'Replaces the ordered stages of a pipeline in one transaction';
@@ -0,0 +1,22 @@
+-- Forecast categories for deals
+-- Sales reps call each open deal into a forecast category: Commit for deals they expect to close
+-- in the period, Best Case for deals that could close with some luck, Pipeline for the rest and
+-- Omitted for deals to leave out of the forecast. The forecast view adds won deals to Commit and
+-- Commit deals to Best Case, next to the probability-weighted value of the pipeline.
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS forecast_category TEXT NOT NULL DEFAULT 'Pipeline'
+    CHECK (forecast_category IN ('Pipeline', 'Best Case', 'Commit', 'Omitted'));
+
+-- Existing deals start from their probability until a rep calls them
+UPDATE public.deals
+SET forecast_category = CASE
+  WHEN probability >= 75 THEN 'Commit'
+  WHEN probability >= 50 THEN 'Best Case'
+  ELSE 'Pipeline'
+END
+WHERE forecast_category = 'Pipeline';
+
+CREATE INDEX IF NOT EXISTS idx_deals_expected_close_date ON public.deals(expected_close_date);
+
+COMMENT ON COLUMN public.deals.forecast_category IS 'Forecast call of the deal: Pipeline, Best Case, Commit or Omitted';
@@ -0,0 +1,69 @@
+-- Sales quotas
+-- Team owners set revenue and deal-count targets for a month or quarter, either for a member
+-- (user_id set) or for the whole team (user_id null). Attainment is worked out in the app from
+-- deals closed in a won stage and, for revenue quotas measured on invoices, from invoices paid
+-- during the period. Revenue targets are in the currency they were entered in, normally the
+-- team's reporting currency.
+
+CREATE TABLE IF NOT EXISTS public.sales_quotas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- Member the quota is for; null for the team's own quota
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_type TEXT NOT NULL CHECK (period_type IN ('month', 'quarter')),
+  -- First day of the month or quarter
+  period_start DATE NOT NULL,
+  revenue_target DECIMAL(15, 2) CHECK (revenue_target IS NULL OR revenue_target >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  deal_count_target INTEGER CHECK (deal_count_target IS NULL OR deal_count_target >= 0),
+  -- What revenue attainment is measured on: won deal values or paid invoice totals
+  revenue_basis TEXT NOT NULL DEFAULT 'deals' CHECK (revenue_basis IN ('deals', 'invoices')),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (revenue_target IS NOT NULL OR deal_count_target IS NOT NULL)
+);
+
+-- One quota per member, or for the team, per period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_quotas_unique_period
+  ON public.sales_quotas(team_id, COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid), period_type, period_start);
+
+CREATE INDEX IF NOT EXISTS idx_sales_quotas_period ON public.sales_quotas(period_start);
+
+-- Enable Row Level Security
+ALTER TABLE public.sales_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view sales quotas"
+  ON public.sales_quotas
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = sales_quotas.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage sales quotas"
+  ON public.sales_quotas
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = sales_quotas.team_id AND owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = sales_quotas.team_id AND owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_sales_quotas_updated_at
+  BEFORE UPDATE ON public.sales_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.sales_quotas IS 'Monthly or quarterly revenue and deal-count targets of team members and teams';
+COMMENT ON COLUMN public.sales_quotas.user_id IS 'Member the quota is for; null for the team quota';
+COMMENT ON COLUMN public.sales_quotas.revenue_basis IS 'deals: won deal values; invoices: paid invoice totals net of credit notes';
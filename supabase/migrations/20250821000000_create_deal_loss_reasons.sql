@@ -0,0 +1,184 @@
+-- Deal loss reasons
+-- Each team keeps its own list of reasons a deal can be lost for. Moving a deal into a lost stage
+-- on the pipeline board asks for one; the deal keeps the reason's name next to its id so reports
+-- still read well after a reason is renamed or removed, and the stage change activity records it.
+-- Reopening a deal clears its loss reason.
+
+CREATE TABLE IF NOT EXISTS public.deal_loss_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Inactive reasons are kept for reporting but can't be picked anymore
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_loss_reasons_team ON public.deal_loss_reasons(team_id, position);
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS lost_reason_id UUID REFERENCES public.deal_loss_reasons(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS lost_reason TEXT,
+  ADD COLUMN IF NOT EXISTS lost_notes TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_deal_activities_deal ON public.deal_activities(deal_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.deal_loss_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view deal loss reasons"
+  ON public.deal_loss_reasons
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_id = deal_loss_reasons.team_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team owners can manage deal loss reasons"
+  ON public.deal_loss_reasons
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = deal_loss_reasons.team_id AND owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = deal_loss_reasons.team_id AND owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_deal_loss_reasons_updated_at
+  BEFORE UPDATE ON public.deal_loss_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Gives a team the standard loss reasons
+CREATE OR REPLACE FUNCTION public.create_default_loss_reasons(p_team_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.deal_loss_reasons (team_id, name, position)
+  VALUES
+    (p_team_id, 'Price too high', 0),
+    (p_team_id, 'Lost to competitor', 1),
+    (p_team_id, 'No budget', 2),
+    (p_team_id, 'Bad timing', 3),
+    (p_team_id, 'No decision', 4),
+    (p_team_id, 'Other', 5)
+  ON CONFLICT (team_id, name) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_default_loss_reasons(UUID) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_team_default_loss_reasons()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.create_default_loss_reasons(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_team_default_loss_reasons_trigger
+  AFTER INSERT ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_team_default_loss_reasons();
+
+SELECT public.create_default_loss_reasons(t.id)
+FROM public.teams t;
+
+-- Same as before, plus keeping the loss reason in step with the stage
+CREATE OR REPLACE FUNCTION public.update_deal_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_was_closed BOOLEAN;
+  v_is_closed BOOLEAN;
+  v_is_lost BOOLEAN;
+BEGIN
+  -- Update the updated_at timestamp
+  NEW.updated_at = now();
+
+  SELECT COALESCE(bool_or(is_won OR is_lost), false) INTO v_was_closed
+  FROM public.pipeline_stages WHERE id = OLD.stage_id;
+  SELECT COALESCE(bool_or(is_won OR is_lost), false), COALESCE(bool_or(is_lost), false)
+  INTO v_is_closed, v_is_lost
+  FROM public.pipeline_stages WHERE id = NEW.stage_id;
+
+  -- If stage changed to closed, set closed_at and actual_close_date
+  IF v_is_closed AND NOT v_was_closed THEN
+    NEW.closed_at = now();
+    IF NEW.actual_close_date IS NULL THEN
+      NEW.actual_close_date = CURRENT_DATE;
+    END IF;
+  -- A reopened deal is no longer closed
+  ELSIF v_was_closed AND NOT v_is_closed THEN
+    NEW.closed_at = NULL;
+    NEW.actual_close_date = NULL;
+  END IF;
+
+  -- Only lost deals have a loss reason; its name is copied so reports survive the reason's removal
+  IF NOT v_is_lost THEN
+    NEW.lost_reason_id = NULL;
+    NEW.lost_reason = NULL;
+    NEW.lost_notes = NULL;
+  ELSIF NEW.lost_reason_id IS DISTINCT FROM OLD.lost_reason_id THEN
+    -- Deleting a reason clears the id of its deals; the name stays as it was
+    IF NEW.lost_reason_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM public.deal_loss_reasons WHERE id = OLD.lost_reason_id) THEN
+      SELECT name INTO NEW.lost_reason
+      FROM public.deal_loss_reasons WHERE id = NEW.lost_reason_id;
+    END IF;
+  END IF;
+
+  -- If stage changed, log the activity
+  IF OLD.stage_id IS DISTINCT FROM NEW.stage_id THEN
+    INSERT INTO public.deal_activities (
+      deal_id,
+      activity_type,
+      old_stage,
+      new_stage,
+      old_stage_id,
+      new_stage_id,
+      notes,
+      created_by
+    ) VALUES (
+      NEW.id,
+      'stage_change',
+      OLD.stage,
+      NEW.stage,
+      OLD.stage_id,
+      NEW.stage_id,
+      CASE WHEN v_is_lost THEN NULLIF(concat_ws(': ', NEW.lost_reason, NULLIF(trim(NEW.lost_notes), '')), '') END,
+      auth.uid()
+    );
+  END IF;
+
+  -- If value changed, log the activity
+  IF OLD.value IS DISTINCT FROM NEW.value THEN
+    INSERT INTO public.deal_activities (
+      deal_id,
+      activity_type,
+      old_value,
+      new_value,
+      created_by
+    ) VALUES (
+      NEW.id,
+      'value_change',
+      OLD.value,
+      NEW.value,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.deal_loss_reasons IS 'Reasons a team''s deals can be lost for, asked when a deal moves into a lost stage';
+COMMENT ON COLUMN public.deals.lost_reason IS 'Name of the loss reason when the deal was lost, kept if the reason is removed';
@@ -0,0 +1,126 @@
+-- Deal line items
+-- Deals can list the products they are about, with a quantity, unit price and optional discount
+-- like invoice lines. While a deal has lines its value is their total, kept up to date by the
+-- database and not editable by hand; removing the last line leaves the value as it was so it can
+-- be edited again.
+-- Winning a deal offers an invoice pre-filled with the same lines.
+
+CREATE TABLE IF NOT EXISTS public.deal_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  discount_type TEXT CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  -- Line amount after the discount
+  total_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_items_deal ON public.deal_items(deal_id, position);
+CREATE INDEX IF NOT EXISTS idx_deal_items_product ON public.deal_items(product_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.deal_items ENABLE ROW LEVEL SECURITY;
+
+-- Lines follow the access rules of their deal
+CREATE POLICY "Users can manage items of accessible deals"
+  ON public.deal_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.deals d
+      WHERE d.id = deal_items.deal_id
+      AND (
+        d.created_by = auth.uid()
+        OR d.assigned_to = auth.uid()
+        OR (d.team_id IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.team_members tm
+          WHERE tm.team_id = d.team_id AND tm.user_id = auth.uid()
+        ))
+        OR (d.team_id IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.teams t
+          WHERE t.id = d.team_id AND t.owner_id = auth.uid()
+        ))
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.deals d
+      WHERE d.id = deal_items.deal_id
+      AND (
+        d.created_by = auth.uid()
+        OR (d.team_id IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.team_members tm
+          WHERE tm.team_id = d.team_id AND tm.user_id = auth.uid()
+        ))
+        OR (d.team_id IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.teams t
+          WHERE t.id = d.team_id AND t.owner_id = auth.uid()
+        ))
+      )
+    )
+  );
+
+-- Sets a deal's value to the total of its lines; the deal trigger logs the value change
+CREATE OR REPLACE FUNCTION public.update_deal_value_from_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_deal_id UUID;
+BEGIN
+  v_deal_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.deal_id ELSE NEW.deal_id END;
+
+  UPDATE public.deals d
+  SET value = totals.total
+  FROM (
+    SELECT SUM(total_price) AS total
+    FROM public.deal_items
+    WHERE deal_id = v_deal_id
+    HAVING COUNT(*) > 0
+  ) totals
+  WHERE d.id = v_deal_id
+    AND d.value IS DISTINCT FROM totals.total;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_deal_value_from_items_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.deal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_deal_value_from_items();
+
+-- Edits to the value of a deal with lines are replaced by the lines' total. Named to run before
+-- update_deal_stage_trigger, so the value change it logs is the one that is saved.
+CREATE OR REPLACE FUNCTION public.keep_deal_value_from_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total NUMERIC;
+BEGIN
+  IF NEW.value IS DISTINCT FROM OLD.value THEN
+    SELECT SUM(total_price) INTO v_total
+    FROM public.deal_items
+    WHERE deal_id = NEW.id;
+
+    IF v_total IS NOT NULL THEN
+      NEW.value := v_total;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_deal_value_from_items_trigger
+  BEFORE UPDATE ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_deal_value_from_items();
+
+COMMENT ON TABLE public.deal_items IS 'Product line items of a deal; a deal with lines is worth their total';
+COMMENT ON COLUMN public.deal_items.total_price IS 'Line amount after the item discount';
+COMMENT ON FUNCTION public.update_deal_value_from_items() IS 'Keeps the value of a deal equal to the total of its line items';
+COMMENT ON FUNCTION public.keep_deal_value_from_items() IS 'Stops the value of a deal with line items from being edited by hand';